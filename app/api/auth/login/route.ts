@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase-server"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter, usesSupabase } from "@/lib/server-storage"
+import { verifyCredentials } from "@/lib/credentials"
+import { hashPassword } from "@/lib/password"
+import { SESSION_COOKIE, createSessionPayload, getSessionCookieOptions, signSession, type SessionSource } from "@/lib/session"
+import type { AuthUser } from "@/lib/auth"
+
+const startSession = async (user: AuthUser, source: SessionSource) => {
+  const session = createSessionPayload(user, source)
+  const response = NextResponse.json({ user })
+  response.cookies.set(SESSION_COOKIE, await signSession(session), getSessionCookieOptions(session))
+  return response
+}
+
+// Signs a user in and issues the signed, HTTP-only session cookie that
+// middleware.ts checks. Passwords are verified here so the stored hash never
+// reaches the browser; plain-text rows left over from before hashing are
+// upgraded to a scrypt hash on their first successful login. The session also
+// carries the role's permissions and the user's event assignments. In local
+// mode the users live in the server's data files (see lib/file-adapter.ts)
+// and the admin account comes from the environment.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const username = typeof body?.username === "string" ? body.username.trim() : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+
+  if (!username || !password) {
+    return NextResponse.json({ error: "Username and password are required" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: `Login is unavailable: ${SERVER_STORAGE_UNAVAILABLE}` }, { status: 503 })
+  }
+
+  try {
+    // The cookie-bound client also signs main admins in to Supabase Auth
+    const account = await verifyCredentials(storage, usesSupabase() ? await createClient() : null, username, password)
+    if (!account) {
+      return NextResponse.json({ error: "Invalid username or password" }, { status: 401 })
+    }
+
+    if (account.needsRehash) {
+      const rehashed = await storage.updateUser(account.needsRehash.id, { password: await hashPassword(password) })
+      if (!rehashed) {
+        console.warn("Could not rehash password for user:", account.needsRehash.username)
+      }
+    }
+
+    return startSession(account.user, account.source)
+  } catch (err) {
+    console.error("Login error:", err)
+    return NextResponse.json({ error: "An error occurred during login" }, { status: 500 })
+  }
+}
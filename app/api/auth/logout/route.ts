@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { createClient } from "@/lib/supabase-server"
+import { SESSION_COOKIE } from "@/lib/session"
+
+// Ends the session: clears the session cookie and any Supabase Auth session
+export async function POST() {
+  const client = await createClient()
+  if (client) {
+    try {
+      await client.auth.signOut()
+    } catch (error) {
+      console.error("Error signing out from Supabase:", error)
+    }
+  }
+
+  const response = NextResponse.json({ success: true })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
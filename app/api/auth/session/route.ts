@@ -0,0 +1,13 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SESSION_COOKIE, getSessionUser, verifySession } from "@/lib/session"
+
+// Returns the signed-in user as the session cookie currently describes them.
+// middleware.ts has already revalidated the cookie, so role and permission
+// edits made on /users are reflected here.
+export async function GET(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+  }
+  return NextResponse.json({ user: getSessionUser(session) })
+}
@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession } from "@/lib/session"
+import { signSupabaseToken } from "@/lib/supabase-token"
+
+// Supabase access token for the browser client (see lib/supabase.ts). The
+// session was revalidated by middleware.ts, so the token carries the current
+// event assignments and role permissions, which the database checks writes
+// against (see scripts/enforce-permissions.sql).
+export async function GET(request: NextRequest) {
+  const { session, response } = await requireSession(request)
+  if (response) return response
+
+  const minted = await signSupabaseToken(session)
+  if (!minted) {
+    return NextResponse.json({ error: "SUPABASE_JWT_SECRET must be set on the server" }, { status: 503 })
+  }
+  return NextResponse.json(minted, { headers: { "Cache-Control": "no-store" } })
+}
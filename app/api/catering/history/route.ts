@@ -0,0 +1,38 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession } from "@/lib/session"
+import { canAccessEvent } from "@/lib/event-scope"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import { loadCateringHistory } from "@/lib/kitchen-forecast"
+
+// Serving ratios from the organisation's previous events, for the kitchen
+// forecast. Users are usually assigned to this year's event only, so the
+// browser could not read earlier ones itself; what is returned are counts per
+// meal and tanzeem, never the members or records behind them.
+export async function GET(request: NextRequest) {
+  const { session, response } = await requireSession(request, "catering.view")
+  if (response) return response
+
+  const eventId = request.nextUrl.searchParams.get("eventId")?.trim() || ""
+  if (!eventId) {
+    return NextResponse.json({ error: "Missing event" }, { status: 400 })
+  }
+  if (!canAccessEvent(session.eventScope, eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const history = await loadCateringHistory(storage, eventId)
+    if (!history) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 })
+    }
+    return NextResponse.json(history, { headers: { "Cache-Control": "no-store" } })
+  } catch (err) {
+    console.error("Error loading catering history:", err)
+    return NextResponse.json({ error: "Failed to load previous events' catering" }, { status: 500 })
+  }
+}
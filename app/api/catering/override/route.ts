@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession } from "@/lib/session"
+import { canAccessEvent } from "@/lib/event-scope"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import { createSignInClient, verifyCredentials } from "@/lib/credentials"
+import { signOverrideApproval } from "@/lib/override-approval"
+
+// A supervisor approves serving a meal outside its window by entering their
+// own username and password on the scanner, which must itself be allowed to
+// serve anyway. The password is checked here, and the approval returned names
+// the supervisor so each serving records who approved it.
+export async function POST(request: NextRequest) {
+  const { session, response } = await requireSession(request, "catering.override")
+  if (response) return response
+
+  const body = await request.json().catch(() => null)
+  const eventId = typeof body?.eventId === "string" ? body.eventId : ""
+  const day = typeof body?.day === "string" ? body.day : ""
+  const mealType = typeof body?.mealType === "string" ? body.mealType : ""
+  const username = typeof body?.username === "string" ? body.username.trim() : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+  if (!eventId || !day || !mealType || !username || !password) {
+    return NextResponse.json({ error: "The meal and the supervisor's username and password are required" }, { status: 400 })
+  }
+  if (!canAccessEvent(session.eventScope, eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const account = await verifyCredentials(storage, createSignInClient(), username, password)
+    if (!account) {
+      return NextResponse.json({ error: "Invalid supervisor username or password" }, { status: 401 })
+    }
+    const supervisor = account.user
+    if (!supervisor.permissions.includes("catering.override") || !canAccessEvent(supervisor.eventScope, eventId)) {
+      return NextResponse.json(
+        { error: "This user cannot approve serving outside meal times for this event" },
+        { status: 403 },
+      )
+    }
+
+    const approverName = supervisor.fullName || supervisor.username || supervisor.email || supervisor.id
+    const approval = await signOverrideApproval({
+      approverId: supervisor.id,
+      approverName,
+      requesterId: session.sub,
+      eventId,
+      day,
+      mealType,
+    })
+    return NextResponse.json({ approval, approverId: supervisor.id, approverName })
+  } catch (err) {
+    console.error("Error approving catering override:", err)
+    return NextResponse.json({ error: "Failed to check the supervisor's approval" }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession } from "@/lib/session"
+import { canAccessEvent, isRegionInScope } from "@/lib/event-scope"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import { verifyOverrideApproval } from "@/lib/override-approval"
+
+// Records a serving outside the meal's window under a supervisor's approval
+// from app/api/catering/override. Browsers cannot record an approver
+// themselves (see jalsa_protect_catering_override in
+// scripts/setup-supabase-tables.sql), so every override passes through here.
+export async function POST(request: NextRequest) {
+  const { session, response } = await requireSession(request, "catering.override")
+  if (response) return response
+
+  const body = await request.json().catch(() => null)
+  const approval = await verifyOverrideApproval(typeof body?.approval === "string" ? body.approval : undefined)
+  if (!approval || approval.requesterId !== session.sub) {
+    return NextResponse.json({ error: "The supervisor's approval is missing or has expired" }, { status: 403 })
+  }
+  const attendanceRecordId = typeof body?.attendanceRecordId === "string" ? body.attendanceRecordId : ""
+  if (!attendanceRecordId) {
+    return NextResponse.json({ error: "Missing attendance record" }, { status: 400 })
+  }
+  const { eventId, day, mealType } = approval
+  if (!canAccessEvent(session.eventScope, eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const record = (await storage.listAttendance(eventId)).find((r) => r.id === attendanceRecordId)
+    if (!record || !isRegionInScope(session.eventScope, eventId, record.member?.region)) {
+      return NextResponse.json({ error: "Attendance record not found" }, { status: 404 })
+    }
+
+    const served = await storage.listCateringRecords(eventId, { day, mealType })
+    if (served.some((r) => r.attendanceRecordId === attendanceRecordId)) {
+      return NextResponse.json({ error: "Already served" }, { status: 409 })
+    }
+
+    const inserted = await storage.insertCateringRecord({
+      id: crypto.randomUUID(),
+      eventId,
+      attendanceRecordId,
+      day,
+      mealType,
+      servedAt: new Date().toISOString(),
+      overrideBy: approval.approverId,
+      overrideByName: approval.approverName,
+    })
+    if (!inserted) {
+      return NextResponse.json({ error: "Failed to record the serving" }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error("Error serving with an override:", err)
+    return NextResponse.json({ error: "Failed to record the serving" }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession, type SessionPayload } from "@/lib/session"
+import { canAccessEvent, isRegionInScope } from "@/lib/event-scope"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import type { StorageAdapter } from "@/lib/storage-adapter"
+import { isAcceptedPhotoDataUrl } from "@/lib/member-profile"
+import type { TajneedMember } from "@/lib/types"
+
+type Params = { params: Promise<{ id: string }> }
+
+// Resized photos are well under this (see resizeMemberPhoto in lib/member-profile.ts)
+const MAX_PHOTO_LENGTH = 2 * 1024 * 1024
+
+// The member, if the signed-in user's events and regions include them
+const findMemberInScope = async (
+  storage: StorageAdapter,
+  session: SessionPayload,
+  id: string,
+): Promise<{ member: TajneedMember; response?: undefined } | { member?: undefined; response: NextResponse }> => {
+  const member = await storage.getMember(id)
+  if (!member) {
+    return { response: NextResponse.json({ error: "Member not found" }, { status: 404 }) }
+  }
+  if (
+    !canAccessEvent(session.eventScope, member.eventId) ||
+    !isRegionInScope(session.eventScope, member.eventId, member.region)
+  ) {
+    return { response: NextResponse.json({ error: "You are not assigned to this member" }, { status: 403 }) }
+  }
+  return { member }
+}
+
+// The member-photos bucket is private, so a member's photo is shown by
+// redirecting signed-in users who can see the member to a signed URL that
+// expires within a minute. Browsers must not guess another type for it.
+export async function GET(request: NextRequest, { params }: Params) {
+  const { session, response } = await requireSession(request)
+  if (response) return response
+
+  const { id } = await params
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const found = await findMemberInScope(storage, session, id)
+    if (found.response) return found.response
+    const url = found.member.photoUrl ? await storage.signMemberPhoto(found.member) : null
+    if (!url) {
+      return NextResponse.json({ error: "This member has no photo" }, { status: 404 })
+    }
+    const redirect = NextResponse.redirect(new URL(url, request.url))
+    redirect.headers.set("Cache-Control", "private, no-store")
+    redirect.headers.set("X-Content-Type-Options", "nosniff")
+    return redirect
+  } catch (err) {
+    console.error("Error loading member photo:", err)
+    return NextResponse.json({ error: "Failed to load the member's photo" }, { status: 500 })
+  }
+}
+
+// Stores a member's photo (a JPEG, PNG or WebP data URL, checked against its
+// bytes) and records it on the member
+export async function PUT(request: NextRequest, { params }: Params) {
+  const { session, response } = await requireSession(request, "tajneed.edit")
+  if (response) return response
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  const photo = body?.photo
+  if (typeof photo !== "string" || photo.length > MAX_PHOTO_LENGTH || !isAcceptedPhotoDataUrl(photo)) {
+    return NextResponse.json({ error: "The photo must be a JPEG, PNG or WebP image" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const found = await findMemberInScope(storage, session, id)
+    if (found.response) return found.response
+    const photoUrl = await storage.uploadMemberPhoto(found.member, photo)
+    if (!photoUrl || !(await storage.updateMember(id, { photoUrl }))) {
+      return NextResponse.json({ error: "Failed to store the member's photo" }, { status: 500 })
+    }
+    return NextResponse.json({ photoUrl })
+  } catch (err) {
+    console.error("Error storing member photo:", err)
+    return NextResponse.json({ error: "Failed to store the member's photo" }, { status: 500 })
+  }
+}
+
+// Removes a member's stored photo and clears it from the member
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { session, response } = await requireSession(request, "tajneed.edit")
+  if (response) return response
+
+  const { id } = await params
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const found = await findMemberInScope(storage, session, id)
+    if (found.response) return found.response
+    if (!(await storage.removeMemberPhoto(found.member)) || !(await storage.updateMember(id, { photoUrl: "" }))) {
+      return NextResponse.json({ error: "Failed to remove the member's photo" }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error("Error removing member photo:", err)
+    return NextResponse.json({ error: "Failed to remove the member's photo" }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession } from "@/lib/session"
+import { canAccessEvent } from "@/lib/event-scope"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import { getLegacyQrUntil, type ScannerQRKey } from "@/lib/qr-payload"
+import { getEventPublicKey } from "@/lib/qr-signing"
+import type { Permission } from "@/lib/permissions"
+
+const SCAN_PERMISSIONS: Permission[] = ["attendance.add", "security.toggle", "catering.serve"]
+
+// The event's current public QR key and legacy window, cached by scanners so
+// they can still check cards when the venue's connection drops (see
+// prepareOfflineScanning in lib/storage.ts). A public key cannot sign cards;
+// the private key never leaves the server.
+export async function GET(request: NextRequest) {
+  const { session, response } = await requireSession(request)
+  if (response) return response
+  if (!SCAN_PERMISSIONS.some((permission) => session.permissions.includes(permission))) {
+    return NextResponse.json({ error: "Your role does not have permission for this" }, { status: 403 })
+  }
+
+  const eventId = request.nextUrl.searchParams.get("eventId")?.trim() || ""
+  if (!eventId) {
+    return NextResponse.json({ error: "Missing event" }, { status: 400 })
+  }
+  if (!canAccessEvent(session.eventScope, eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const event = await storage.getEvent(eventId)
+    if (!event) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 })
+    }
+
+    const keyVersion = event.qrKeyVersion ?? 1
+    const scannerKey: ScannerQRKey = {
+      eventId,
+      keyVersion,
+      publicKey: getEventPublicKey(eventId, keyVersion),
+      legacyQrUntil: getLegacyQrUntil(event),
+    }
+    return NextResponse.json(scannerKey, { headers: { "Cache-Control": "no-store" } })
+  } catch (err) {
+    console.error("Error reading QR key:", err)
+    return NextResponse.json({ error: "Failed to read the event's QR key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { requireSession } from "@/lib/session"
+import { canAccessEvent } from "@/lib/event-scope"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter, usesSupabase } from "@/lib/server-storage"
+import { isValidCardId } from "@/lib/qr-payload"
+import { signQRPayloads } from "@/lib/qr-signing"
+
+const MAX_CARDS_PER_REQUEST = 1000
+
+// Signs the QR payloads for a batch of ID cards with the event's current key
+// version, read from the event here so a client cannot sign cards with a
+// retired one. In local mode the event lives in the browser, which is then
+// trusted with the version.
+export async function POST(request: NextRequest) {
+  const { session, response } = await requireSession(request, "idcards.print")
+  if (response) return response
+
+  const body = await request.json().catch(() => null)
+  const eventId = typeof body?.eventId === "string" ? body.eventId.trim() : ""
+  const cardIds: unknown = body?.cardIds
+
+  if (!eventId) {
+    return NextResponse.json({ error: "Missing event" }, { status: 400 })
+  }
+  if (
+    !Array.isArray(cardIds) ||
+    cardIds.length === 0 ||
+    cardIds.length > MAX_CARDS_PER_REQUEST ||
+    !cardIds.every((cardId) => typeof cardId === "string" && isValidCardId(cardId))
+  ) {
+    return NextResponse.json({ error: "Invalid card ids" }, { status: 400 })
+  }
+  if (!canAccessEvent(session.eventScope, eventId)) {
+    return NextResponse.json({ error: "You are not assigned to this event" }, { status: 403 })
+  }
+
+  try {
+    const keyVersion = usesSupabase() ? await getEventKeyVersion(eventId) : body?.keyVersion ?? 1
+    if (keyVersion instanceof NextResponse) return keyVersion
+    if (!Number.isInteger(keyVersion) || keyVersion < 1) {
+      return NextResponse.json({ error: "Invalid key version" }, { status: 400 })
+    }
+    return NextResponse.json({ payloads: await signQRPayloads(eventId, cardIds, keyVersion), keyVersion })
+  } catch (err) {
+    console.error("Error signing QR payloads:", err)
+    return NextResponse.json({ error: "Failed to sign QR codes" }, { status: 500 })
+  }
+}
+
+const getEventKeyVersion = async (eventId: string): Promise<number | NextResponse> => {
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+  const event = await storage.getEvent(eventId)
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 })
+  }
+  return event.qrKeyVersion ?? 1
+}
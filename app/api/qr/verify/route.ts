@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SESSION_COOKIE, verifySession } from "@/lib/session"
+import { parseQRPayload, verifyQRPayload } from "@/lib/qr-payload"
+import { getEventPublicKey } from "@/lib/qr-signing"
+
+// Checks the signature on a scanned QR payload. Whether the event and key
+// version are acceptable is decided by the caller (see verifyScannedCard in
+// lib/storage.ts), which knows the current event's settings.
+export async function POST(request: NextRequest) {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 })
+  }
+
+  const body = await request.json().catch(() => null)
+  const payload = typeof body?.payload === "string" ? parseQRPayload(body.payload) : null
+  if (!payload) {
+    return NextResponse.json({ error: "Not a signed QR payload" }, { status: 400 })
+  }
+
+  try {
+    const valid = await verifyQRPayload(payload, getEventPublicKey(payload.eventId, payload.keyVersion))
+    return NextResponse.json({
+      valid,
+      eventId: payload.eventId,
+      cardId: payload.cardId,
+      keyVersion: payload.keyVersion,
+    })
+  } catch (err) {
+    console.error("Error verifying QR payload:", err)
+    return NextResponse.json({ error: "Failed to verify QR code" }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import { requireSession } from "@/lib/session"
+import { ADMIN_ROLE, BUILT_IN_ROLES, isPermission } from "@/lib/permissions"
+
+type Params = { params: Promise<{ name: string }> }
+
+// Saves a role's description and permissions. Admin always keeps every
+// permission; any other role (built-in or custom) can be edited. Sessions
+// holding the role pick the change up at their next revalidation.
+export async function PUT(request: NextRequest, { params }: Params) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const name = decodeURIComponent((await params).name).trim()
+  const body = await request.json().catch(() => null)
+  const permissions: unknown = body?.permissions
+  const description = typeof body?.description === "string" ? body.description.trim() : undefined
+
+  if (!name || name === ADMIN_ROLE) {
+    return NextResponse.json({ error: "This role cannot be edited" }, { status: 400 })
+  }
+  if (!Array.isArray(permissions) || !permissions.every((permission) => typeof permission === "string" && isPermission(permission))) {
+    return NextResponse.json({ error: "Invalid permissions" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    const saved = await storage.saveRole({
+      name,
+      description,
+      permissions: Array.from(new Set(permissions)),
+      builtIn: BUILT_IN_ROLES.some((role) => role.name === name),
+    })
+    if (!saved) {
+      return NextResponse.json({ error: "Failed to save role" }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error("Error saving role:", err)
+    return NextResponse.json({ error: "Failed to save role" }, { status: 500 })
+  }
+}
+
+// Built-in roles cannot be removed, nor can a role that users are still assigned to
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const name = decodeURIComponent((await params).name)
+  if (BUILT_IN_ROLES.some((role) => role.name === name)) {
+    return NextResponse.json({ error: "Built-in roles cannot be deleted" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    if ((await storage.listUsers()).some((user) => user.role === name)) {
+      return NextResponse.json({ error: "Users are still assigned to this role" }, { status: 409 })
+    }
+    if (!(await storage.deleteRole(name))) {
+      return NextResponse.json({ error: "Failed to delete role" }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error("Error deleting role:", err)
+    return NextResponse.json({ error: "Failed to delete role" }, { status: 500 })
+  }
+}
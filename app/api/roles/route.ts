@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter } from "@/lib/server-storage"
+import { requireSession } from "@/lib/session"
+import { mergeRoles } from "@/lib/permissions"
+
+// Built-in roles with any saved changes, followed by custom roles
+export async function GET(request: NextRequest) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    return NextResponse.json({ roles: mergeRoles(await storage.listRoles()) })
+  } catch (err) {
+    console.error("Error listing roles:", err)
+    return NextResponse.json({ error: "Failed to load roles" }, { status: 500 })
+  }
+}
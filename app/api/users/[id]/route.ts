@@ -0,0 +1,112 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter, isAssignableRole } from "@/lib/server-storage"
+import { requireSession } from "@/lib/session"
+import { hashPassword } from "@/lib/password"
+import { parseAssignments } from "@/lib/event-scope"
+import type { User } from "@/lib/types"
+
+type Params = { params: Promise<{ id: string }> }
+
+// The events a system user is assigned to
+export async function GET(request: NextRequest, { params }: Params) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const { id } = await params
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    return NextResponse.json({ assignments: await storage.listUserAssignments(id) })
+  } catch (err) {
+    console.error("Error loading event assignments:", err)
+    return NextResponse.json({ error: "Failed to load event assignments" }, { status: 500 })
+  }
+}
+
+// Updates a system user; a new password (if given) is hashed before it is
+// stored, and assignments (if given) replace the user's current ones
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const { id } = await params
+  const body = await request.json().catch(() => null)
+  if (!body) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+
+  const updates: Partial<Omit<User, "id" | "createdAt">> = {}
+  if (typeof body.username === "string" && body.username.trim()) updates.username = body.username.trim()
+  if (typeof body.fullName === "string" && body.fullName.trim()) updates.fullName = body.fullName.trim()
+  const assignments = body.assignments === undefined ? undefined : parseAssignments(body.assignments)
+  if (assignments === null) {
+    return NextResponse.json({ error: "Invalid event assignments" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    if (body.role !== undefined) {
+      if (!(await isAssignableRole(storage, body.role))) {
+        return NextResponse.json({ error: "Invalid role" }, { status: 400 })
+      }
+      updates.role = body.role
+    }
+
+    if (updates.username) {
+      const existing = await storage.getUserByUsername(updates.username)
+      if (existing && existing.id !== id) {
+        return NextResponse.json({ error: "Username already exists" }, { status: 409 })
+      }
+    }
+
+    if (typeof body.password === "string" && body.password) {
+      updates.password = await hashPassword(body.password)
+    }
+
+    if (!(await storage.updateUser(id, updates))) {
+      return NextResponse.json({ error: "Failed to update user" }, { status: 500 })
+    }
+    if (assignments && !(await storage.setUserAssignments(id, assignments))) {
+      return NextResponse.json({ error: "Failed to update event assignments" }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error("Error updating user:", err)
+    return NextResponse.json({ error: "Failed to update user" }, { status: 500 })
+  }
+}
+
+// Deletes a system user together with their event assignments. Their session
+// ends at its next revalidation (see middleware.ts).
+export async function DELETE(request: NextRequest, { params }: Params) {
+  const { session, response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const { id } = await params
+  if (id === session.sub) {
+    return NextResponse.json({ error: "You cannot delete your own account" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    if (!(await storage.deleteUser(id))) {
+      return NextResponse.json({ error: "Failed to delete user" }, { status: 500 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (err) {
+    console.error("Error deleting user:", err)
+    return NextResponse.json({ error: "Failed to delete user" }, { status: 500 })
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { SERVER_STORAGE_UNAVAILABLE, getServerStorageAdapter, isAssignableRole } from "@/lib/server-storage"
+import { requireSession } from "@/lib/session"
+import { hashPassword } from "@/lib/password"
+import { parseAssignments } from "@/lib/event-scope"
+import type { User } from "@/lib/types"
+
+// Lists the system users (without password hashes)
+export async function GET(request: NextRequest) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    return NextResponse.json({ users: await storage.listUsers() })
+  } catch (err) {
+    console.error("Error listing users:", err)
+    return NextResponse.json({ error: "Failed to load users" }, { status: 500 })
+  }
+}
+
+// Creates a system user, hashing the password before it is stored, together
+// with the events they are assigned to
+export async function POST(request: NextRequest) {
+  const { response } = await requireSession(request, "users.manage")
+  if (response) return response
+
+  const body = await request.json().catch(() => null)
+  const username = typeof body?.username === "string" ? body.username.trim() : ""
+  const password = typeof body?.password === "string" ? body.password : ""
+  const fullName = typeof body?.fullName === "string" ? body.fullName.trim() : ""
+  const role = typeof body?.role === "string" ? body.role : ""
+  const assignments = parseAssignments(body?.assignments ?? [])
+
+  if (!username || !password || !fullName) {
+    return NextResponse.json({ error: "All fields are required" }, { status: 400 })
+  }
+  if (!assignments) {
+    return NextResponse.json({ error: "Invalid event assignments" }, { status: 400 })
+  }
+
+  const storage = await getServerStorageAdapter()
+  if (!storage) {
+    return NextResponse.json({ error: SERVER_STORAGE_UNAVAILABLE }, { status: 503 })
+  }
+
+  try {
+    if (!(await isAssignableRole(storage, role))) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 })
+    }
+    if (await storage.getUserByUsername(username)) {
+      return NextResponse.json({ error: "Username already exists" }, { status: 409 })
+    }
+
+    const now = new Date().toISOString()
+    const user: User = {
+      id: crypto.randomUUID(),
+      username,
+      password: await hashPassword(password),
+      role,
+      fullName,
+      createdAt: now,
+      updatedAt: now,
+    }
+
+    if (!(await storage.insertUser(user))) {
+      return NextResponse.json({ error: "Failed to create user" }, { status: 500 })
+    }
+    if (!(await storage.setUserAssignments(user.id, assignments))) {
+      return NextResponse.json({ error: "User created but event assignments could not be saved" }, { status: 500 })
+    }
+
+    const { password: _hash, ...created } = user
+    return NextResponse.json({ user: { ...created, assignments } }, { status: 201 })
+  } catch (err) {
+    console.error("Error creating user:", err)
+    return NextResponse.json({ error: "Failed to create user" }, { status: 500 })
+  }
+}
@@ -5,11 +5,14 @@ import {
   getTajneedMembers,
   getAttendanceRecords,
   addAttendanceRecord,
+  getSettings,
 } from "@/lib/storage"
-import type { TajneedMember, AttendanceRecord, Tanzeem } from "@/lib/types"
+import { memberCodeMatches } from "@/lib/member-codes"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import type { TajneedMember, AttendanceRecord, Tanzeem, EventSettings } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { isAuthenticated, hasAnyRole } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { useRouter } from "next/navigation"
 
 export default function AttendanceAddPage() {
@@ -21,8 +24,9 @@ export default function AttendanceAddPage() {
   const [regionFilter, setRegionFilter] = useState("")
   const [loading, setLoading] = useState(true)
   const [savingIds, setSavingIds] = useState<string[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
 
-  const categories: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
+  const categories = getTanzeemNames(eventSettings)
 
   useEffect(() => {
     if (!isAuthenticated()) {
@@ -30,16 +34,21 @@ export default function AttendanceAddPage() {
       return
     }
 
-    if (!hasAnyRole(["Admin", "Attendance Register"])) {
+    if (!hasPermission("attendance.add")) {
       router.push("/")
       return
     }
 
     const loadData = async () => {
       try {
-        const [membersData, attendanceData] = await Promise.all([getTajneedMembers(), getAttendanceRecords()])
+        const [membersData, attendanceData, settings] = await Promise.all([
+          getTajneedMembers(),
+          getAttendanceRecords(),
+          getSettings(),
+        ])
         setMembers(membersData)
         setAttendance(attendanceData)
+        setEventSettings(settings)
       } catch (error) {
         console.error("Error loading data:", error)
       } finally {
@@ -55,7 +64,7 @@ export default function AttendanceAddPage() {
   const filteredMembers = useMemo(() => {
     const term = searchTerm.toLowerCase()
     return members.filter((member) => {
-      const matchesSearch = member.fullName.toLowerCase().includes(term)
+      const matchesSearch = member.fullName.toLowerCase().includes(term) || memberCodeMatches(member, term)
   const matchesCategory = !categoryFilter || member.tanzeem === categoryFilter
       const matchesRegion = !regionFilter || member.region === regionFilter
       return matchesSearch && matchesCategory && matchesRegion
@@ -99,7 +108,7 @@ export default function AttendanceAddPage() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <Input
               type="text"
-              placeholder="Search members"
+              placeholder="Search by name or code"
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
             />
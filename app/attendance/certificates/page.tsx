@@ -0,0 +1,335 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { getAttendanceRecords, getRegions, getSettings, updateEvent } from "@/lib/storage"
+import {
+  CERTIFICATE_PLACEHOLDERS,
+  fillCertificateText,
+  getCertificateSettings,
+  validateCertificateSettings,
+} from "@/lib/certificates"
+import { generateParticipationCertificates } from "@/lib/export"
+import { getBrandingTitle } from "@/lib/branding"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import type { AttendanceRecord, CertificateSettings, EventSettings, Region, Tanzeem } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+
+export default function CertificatesPage() {
+  const router = useRouter()
+  const [records, setRecords] = useState<AttendanceRecord[]>([])
+  const [regions, setRegions] = useState<Region[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [certificate, setCertificate] = useState<CertificateSettings>(getCertificateSettings())
+  const [filterTanzeem, setFilterTanzeem] = useState<Tanzeem | "">("")
+  const [filterRegion, setFilterRegion] = useState("")
+  const [filterJamaat, setFilterJamaat] = useState("")
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [generating, setGenerating] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push("/login")
+      return
+    }
+
+    if (!hasPermission("attendance.export")) {
+      router.push("/attendance")
+      return
+    }
+
+    const loadData = async () => {
+      try {
+        const [recordsData, regionsData, settings] = await Promise.all([getAttendanceRecords(), getRegions(), getSettings()])
+        setRecords(recordsData)
+        setRegions(regionsData)
+        setEventSettings(settings)
+        setCertificate(getCertificateSettings(settings))
+      } catch (error) {
+        console.error("Error loading certificates:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadData()
+  }, [router])
+
+  const filteredRecords = useMemo(
+    () =>
+      records
+        .filter(
+          (record) =>
+            record.member &&
+            (!filterTanzeem || record.member.tanzeem === filterTanzeem) &&
+            (!filterRegion || record.member.region === filterRegion) &&
+            (!filterJamaat || record.member.jamaat === filterJamaat),
+        )
+        .sort((a, b) => (a.member?.fullName || "").localeCompare(b.member?.fullName || "")),
+    [records, filterTanzeem, filterRegion, filterJamaat],
+  )
+
+  const jamaats = filterRegion
+    ? regions.find((r) => r.name === filterRegion)?.jamaat || []
+    : Array.from(new Set(regions.flatMap((r) => r.jamaat))).sort()
+
+  // The event's settings with the certificate as edited on this page
+  const draftSettings = eventSettings ? { ...eventSettings, certificate } : undefined
+  const eventTitle = eventSettings?.eventName
+  const previewMember = filteredRecords[0]?.member
+  const previewEventName = eventTitle || getBrandingTitle(eventSettings)
+
+  const updateCertificate = <K extends keyof CertificateSettings>(field: K, value: CertificateSettings[K]) => {
+    setCertificate((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleGenerate = async (output: "pdf" | "zip") => {
+    const error = validateCertificateSettings(certificate)
+    if (error) {
+      alert(error)
+      return
+    }
+    if (filteredRecords.length === 0) return
+    setGenerating(true)
+    try {
+      await generateParticipationCertificates(filteredRecords, output, eventTitle, draftSettings, (done, total) =>
+        setProgress({ done, total }),
+      )
+    } catch (error) {
+      console.error("Error generating certificates:", error)
+      alert("Could not generate the certificates. Please try again.")
+    } finally {
+      setGenerating(false)
+      setProgress(null)
+    }
+  }
+
+  const handleSaveDefault = async () => {
+    if (!draftSettings) return
+    const error = validateCertificateSettings(certificate)
+    if (error) {
+      alert(error)
+      return
+    }
+    setSaving(true)
+    try {
+      if (await updateEvent(draftSettings)) {
+        setEventSettings(draftSettings)
+        alert("Certificate settings saved for this event")
+      } else {
+        alert("Could not save the certificate settings. Please try again.")
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="p-8 text-center">Loading certificates...</div>
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col items-center justify-center mb-6 sm:mb-8 text-center px-2">
+          <h1 className="text-2xl sm:text-3xl font-bold text-primary">Participation Certificates</h1>
+          <p className="text-muted-foreground mt-2 text-sm sm:text-base">
+            A certificate for every attended member, with the event&apos;s branding and signature.
+          </p>
+          <Link href="/attendance" className="w-full sm:w-auto mt-4">
+            <Button variant="outline" className="w-full sm:w-auto">
+              Back to Attendance
+            </Button>
+          </Link>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Tanzeem</label>
+              <select
+                value={filterTanzeem}
+                onChange={(e) => setFilterTanzeem(e.target.value as Tanzeem | "")}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Tanzeems</option>
+                {getTanzeemNames(eventSettings).map((tanzeem) => (
+                  <option key={tanzeem} value={tanzeem}>
+                    {tanzeem}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Region</label>
+              <select
+                value={filterRegion}
+                onChange={(e) => {
+                  setFilterRegion(e.target.value)
+                  setFilterJamaat("")
+                }}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Regions</option>
+                {regions.map((r) => (
+                  <option key={r.id} value={r.name}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Jamaat</label>
+              <select
+                value={filterJamaat}
+                onChange={(e) => setFilterJamaat(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Jamaat</option>
+                {jamaats.map((j) => (
+                  <option key={j} value={j}>
+                    {j}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground mt-4">
+            {filteredRecords.length} attended member(s) will receive a certificate.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+          <div className="bg-card border border-border rounded-lg p-4 sm:p-6 space-y-4">
+            <h2 className="text-lg font-semibold text-foreground">Certificate</h2>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="paper">Paper</Label>
+                <select
+                  id="paper"
+                  value={certificate.paper}
+                  onChange={(e) => updateCertificate("paper", e.target.value as CertificateSettings["paper"])}
+                  className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground mt-1"
+                >
+                  <option value="a4">A4</option>
+                  <option value="a5">A5</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="orientation">Orientation</Label>
+                <select
+                  id="orientation"
+                  value={certificate.orientation}
+                  onChange={(e) => updateCertificate("orientation", e.target.value as CertificateSettings["orientation"])}
+                  className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground mt-1"
+                >
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="title">Title</Label>
+              <Input
+                id="title"
+                value={certificate.title}
+                onChange={(e) => updateCertificate("title", e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="introText">Text above the name</Label>
+              <Input
+                id="introText"
+                value={certificate.introText}
+                onChange={(e) => updateCertificate("introText", e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="bodyText">Text below the name</Label>
+              <Textarea
+                id="bodyText"
+                value={certificate.bodyText}
+                onChange={(e) => updateCertificate("bodyText", e.target.value)}
+                rows={3}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Placeholders: {CERTIFICATE_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(", ")}
+              </p>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={certificate.showSignature}
+                onChange={(e) => updateCertificate("showSignature", e.target.checked)}
+              />
+              Show the signature and signatory from the event&apos;s branding
+            </label>
+            {hasPermission("events.manage") && (
+              <Button onClick={handleSaveDefault} disabled={saving} variant="outline" className="w-full sm:w-auto">
+                {saving ? "Saving..." : "Save as Event Default"}
+              </Button>
+            )}
+          </div>
+
+          <div className="bg-card border border-border rounded-lg p-4 sm:p-6">
+            <h2 className="text-lg font-semibold text-foreground mb-4">Preview</h2>
+            {previewMember ? (
+              <div className="border-4 border-double border-primary rounded p-6 text-center space-y-3">
+                <p className="text-xl font-bold text-primary">{certificate.title}</p>
+                <p className="italic text-muted-foreground">
+                  {fillCertificateText(certificate.introText, previewMember, previewEventName, draftSettings)}
+                </p>
+                <p className="text-2xl font-bold text-foreground">{previewMember.fullName}</p>
+                <p className="text-sm text-foreground">
+                  {fillCertificateText(certificate.bodyText, previewMember, previewEventName, draftSettings)}
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No attended members match the filters.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+          <Button
+            onClick={() => handleGenerate("pdf")}
+            disabled={generating || filteredRecords.length === 0}
+            className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto text-sm"
+          >
+            Download PDF
+          </Button>
+          <Button
+            onClick={() => handleGenerate("zip")}
+            disabled={generating || filteredRecords.length === 0}
+            className="bg-amber-600 hover:bg-amber-700 text-white w-full sm:w-auto text-sm"
+          >
+            Download ZIP
+          </Button>
+          {progress && (
+            <>
+              <span className="text-sm text-muted-foreground">
+                Certificates {progress.done} / {progress.total}
+              </span>
+              <div className="flex-1 h-2 bg-muted rounded overflow-hidden">
+                <div
+                  className="h-full bg-amber-600 transition-all"
+                  style={{ width: `${((progress.done / Math.max(1, progress.total)) * 100).toFixed(1)}%` }}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -1,21 +1,29 @@
 "use client"
 
 import { useEffect, useState, useMemo } from "react"
-import { getAttendanceRecords, removeAttendanceRecord, getSettings, getRegions, addAttendanceRecord, getTajneedMembers, saveTajneedMemberWithId, getCurrentEventId, findMemberByQRCodeId } from "@/lib/storage"
-import type { AttendanceRecord, Region, EventSettings, Tanzeem } from "@/lib/types"
+import { getAttendanceRecords, removeAttendanceRecord, getSettings, getRegions, addAttendanceRecord, getTajneedMembers, saveTajneedMemberWithId, getCurrentEventId, findMemberByQRCodeId, verifyScannedCard, prepareOfflineScanning, getSurplusBatchForCode, setTajneedMemberPhoto, getHouseholds } from "@/lib/storage"
+import { getHouseholdIdFromCardId, getHouseholdMembers, getHouseholdName } from "@/lib/households"
+import { memberCodeMatches } from "@/lib/member-codes"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import { CARD_REJECTION_TITLES } from "@/lib/qr-payload"
+import type { MemberProfile } from "@/lib/member-profile"
+import type { AttendanceRecord, Region, EventSettings, ScanSource, Tanzeem, TajneedMember } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import Link from "next/link"
-import { isAuthenticated, hasAnyRole } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { useRouter } from "next/navigation"
 import { exportAttendanceToPDF, exportAttendanceToExcel } from "@/lib/export"
 import { QRScanner } from "@/components/qr-scanner"
+import { useTypedMemberConfirmation } from "@/components/typed-member-confirm-dialog"
 import { EditMemberDialog } from "@/components/edit-member-dialog"
+import { FamilyCheckInDialog } from "@/components/family-check-in-dialog"
 import { toast } from "sonner"
 
 export default function AttendancePage() {
   const router = useRouter()
   const [records, setRecords] = useState<AttendanceRecord[]>([])
+  const [confirmTypedMember, typedMemberDialog] = useTypedMemberConfirmation()
   const [regions, setRegions] = useState<Region[]>([])
   const [searchTerm, setSearchTerm] = useState("")
   const [filterTanzeem, setFilterTanzeem] = useState<Tanzeem | "">("")
@@ -27,8 +35,10 @@ export default function AttendancePage() {
   const [showScanner, setShowScanner] = useState(false)
   const [showEditDialog, setShowEditDialog] = useState(false)
   const [scannedQrId, setScannedQrId] = useState<string | null>(null)
+  const [scannedTanzeem, setScannedTanzeem] = useState<Tanzeem | undefined>(undefined)
+  const [scannedFamily, setScannedFamily] = useState<{ name: string; members: TajneedMember[] } | null>(null)
 
-  const categories: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
+  const categories = getTanzeemNames(eventSettings)
 
   const loadData = async () => {
     try {
@@ -54,12 +64,14 @@ export default function AttendancePage() {
       return
     }
 
-    if (!hasAnyRole(["Admin", "Attendance Register"])) {
+    if (!hasPermission("attendance.view")) {
       router.push("/")
       return
     }
 
     loadData()
+    // Cache what scanning needs in case the connection drops
+    if (hasPermission("attendance.add")) prepareOfflineScanning()
 
     // Refresh data when page becomes visible (user switches back to tab)
     const handleVisibilityChange = () => {
@@ -103,7 +115,7 @@ export default function AttendancePage() {
       const member = record.member
       if (!member) return false
 
-  const matchesSearch = member.fullName.toLowerCase().includes(term)
+  const matchesSearch = member.fullName.toLowerCase().includes(term) || memberCodeMatches(member, term)
   const matchesCategory = !filterTanzeem || member.tanzeem === filterTanzeem
       const matchesRegion = !filterRegion || member.region === filterRegion
   const matchesMajlis = !filterMajlis || member.jamaat === filterMajlis
@@ -127,32 +139,61 @@ export default function AttendancePage() {
     }
   }
 
-  const handleQRScan = async (scannedText: string) => {
+  const handleQRScan = async (scannedText: string, source: ScanSource) => {
     try {
+      // Reject forged cards and cards issued for other events before any lookup
+      const card = await verifyScannedCard(scannedText, source)
+      if (!card.ok) {
+        toast.error(CARD_REJECTION_TITLES[card.reason], { description: card.message })
+        setShowScanner(false)
+        return
+      }
+      if (card.typedMember) {
+        setShowScanner(false)
+        if (!(await confirmTypedMember(card.typedMember))) return
+      }
+      const cardId = card.cardId
+
       // First, refresh records to ensure we have latest data
       const freshRecords = await getAttendanceRecords()
       setRecords(freshRecords)
+
+      // A family card checks in its household's members together
+      const householdId = getHouseholdIdFromCardId(cardId)
+      if (householdId) {
+        const [allMembers, households] = await Promise.all([getTajneedMembers(), getHouseholds()])
+        const familyMembers = getHouseholdMembers(householdId, allMembers)
+        setShowScanner(false)
+        if (familyMembers.length === 0) {
+          toast.error("Family not found", { description: "This family card does not match any registered household." })
+          return
+        }
+        setScannedFamily({ name: getHouseholdName(householdId, households, allMembers), members: familyMembers })
+        return
+      }
       
       // Find member by QR code ID (checks both direct ID and QR code mapping)
       // This function handles all the lookup logic including mapping
-      let member = await findMemberByQRCodeId(scannedText)
+      let member = await findMemberByQRCodeId(cardId)
 
       // If not found, wait a bit and try again (member might have just been saved)
       // This is important because the member might have been just registered
       if (!member) {
         await new Promise((resolve) => setTimeout(resolve, 300))
-        member = await findMemberByQRCodeId(scannedText)
+        member = await findMemberByQRCodeId(cardId)
       }
 
       // If still not found, try one more time with a longer delay
       if (!member) {
         await new Promise((resolve) => setTimeout(resolve, 500))
-        member = await findMemberByQRCodeId(scannedText)
+        member = await findMemberByQRCodeId(cardId)
       }
 
       if (!member) {
-        // Member not found - show edit dialog
-        setScannedQrId(scannedText)
+        // Member not found - show edit dialog, claiming the surplus card
+        const batch = await getSurplusBatchForCode(cardId)
+        setScannedTanzeem(batch?.tanzeem)
+        setScannedQrId(cardId)
         setShowEditDialog(true)
         setShowScanner(false)
         return
@@ -198,6 +239,8 @@ export default function AttendancePage() {
     tanzeem: Tanzeem
     region: string
     jamaat: string
+    profile: MemberProfile
+    photo: string
   }) => {
     try {
       const eventId = getCurrentEventId()
@@ -217,6 +260,7 @@ export default function AttendancePage() {
         tanzeem: memberData.tanzeem,
         region: memberData.region,
         jamaat: memberData.jamaat,
+        ...memberData.profile,
       })
 
       if (!savedMember) {
@@ -226,6 +270,10 @@ export default function AttendancePage() {
         return
       }
 
+      if (memberData.photo && !(await setTajneedMemberPhoto(savedMember.id, memberData.photo))) {
+        toast.warning("Photo not saved", { description: "The member was saved, but the photo could not be uploaded." })
+      }
+
       // Log successful save with mapping confirmation
       console.log("Member saved successfully:", { 
         qrCodeId: memberData.id, 
@@ -347,46 +395,59 @@ export default function AttendancePage() {
           <h1 className="text-2xl sm:text-3xl font-bold text-primary">Attendance</h1>
           <p className="text-muted-foreground mt-2 text-sm sm:text-base">Track members marked present</p>
           <div className="flex flex-col sm:flex-row gap-2 sm:gap-4 justify-center mt-4">
-            <Link href="/attendance/add" className="w-full sm:w-auto">
-              <Button className="bg-primary text-primary-foreground w-full sm:w-auto">+ Add Attendee</Button>
-            </Link>
-            <Button
-              onClick={() => setShowScanner(true)}
-              className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto"
-            >
-              📷 Scan QR Code
-            </Button>
+            {hasPermission("attendance.add") && (
+              <Link href="/attendance/add" className="w-full sm:w-auto">
+                <Button className="bg-primary text-primary-foreground w-full sm:w-auto">+ Add Attendee</Button>
+              </Link>
+            )}
+            {hasPermission("attendance.add") && (
+              <Button
+                onClick={() => setShowScanner(true)}
+                className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto"
+              >
+                📷 Scan QR Code
+              </Button>
+            )}
           </div>
         </div>
 
         {/* Export Buttons */}
         <div className="flex flex-col sm:flex-row flex-wrap gap-2 mb-6 justify-center px-2">
-          <Button
-            onClick={() => {
-              const parts: string[] = []
-              if (filterTanzeem) parts.push(filterTanzeem)
-              if (filterRegion) parts.push(filterRegion)
-              if (filterMajlis) parts.push(filterMajlis)
-              const recordLabel = parts.length ? `Attendance Records (${parts.join(' - ')})` : 'All Attendance Records'
-              exportAttendanceToPDF(filteredRecords, `attendance-records-${Date.now()}.pdf`, eventTitle, eventSettings, recordLabel)
-            }}
-            className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto text-sm"
-          >
-            Download PDF
-          </Button>
-          <Button
-            onClick={async () => {
-              const parts: string[] = []
-              if (filterTanzeem) parts.push(filterTanzeem)
-              if (filterRegion) parts.push(filterRegion)
-              if (filterMajlis) parts.push(filterMajlis)
-              const recordLabel = parts.length ? `Attendance Records (${parts.join(' - ')})` : 'All Attendance Records'
-              await exportAttendanceToExcel(filteredRecords, `attendance-records-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
-            }}
-            className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto text-sm"
-          >
-            Download Excel
-          </Button>
+          {hasPermission("attendance.export") && (
+            <Button
+              onClick={() => {
+                const parts: string[] = []
+                if (filterTanzeem) parts.push(filterTanzeem)
+                if (filterRegion) parts.push(filterRegion)
+                if (filterMajlis) parts.push(filterMajlis)
+                const recordLabel = parts.length ? `Attendance Records (${parts.join(' - ')})` : 'All Attendance Records'
+                exportAttendanceToPDF(filteredRecords, `attendance-records-${Date.now()}.pdf`, eventTitle, eventSettings, recordLabel)
+              }}
+              className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto text-sm"
+            >
+              Download PDF
+            </Button>
+          )}
+          {hasPermission("attendance.export") && (
+            <Button
+              onClick={async () => {
+                const parts: string[] = []
+                if (filterTanzeem) parts.push(filterTanzeem)
+                if (filterRegion) parts.push(filterRegion)
+                if (filterMajlis) parts.push(filterMajlis)
+                const recordLabel = parts.length ? `Attendance Records (${parts.join(' - ')})` : 'All Attendance Records'
+                await exportAttendanceToExcel(filteredRecords, `attendance-records-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
+              }}
+              className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto text-sm"
+            >
+              Download Excel
+            </Button>
+          )}
+          {hasPermission("attendance.export") && (
+            <Link href="/attendance/certificates" className="w-full sm:w-auto">
+              <Button className="bg-amber-600 hover:bg-amber-700 text-white w-full sm:w-auto text-sm">Certificates</Button>
+            </Link>
+          )}
         </div>
 
         {/* Search and Filters */}
@@ -396,7 +457,7 @@ export default function AttendancePage() {
               <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Search</label>
               <Input
                 type="text"
-                placeholder="Member name"
+                placeholder="Member name or code"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full text-sm"
@@ -493,13 +554,15 @@ export default function AttendancePage() {
                       </td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm">
                         <div className="flex items-center gap-2">
-                          <button
-                            onClick={() => handleRemoveRecord(record.id)}
-                            className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
-                            title="Remove"
-                          >
-                            Remove
-                          </button>
+                          {hasPermission("attendance.remove") && (
+                            <button
+                              onClick={() => handleRemoveRecord(record.id)}
+                              className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                              title="Remove"
+                            >
+                              Remove
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -527,13 +590,15 @@ export default function AttendancePage() {
                   <div className="flex-1 min-w-0">
                     <h3 className="text-sm font-semibold text-primary truncate">{record.member?.fullName || "Unknown"}</h3>
                   </div>
-                  <button
-                    onClick={() => handleRemoveRecord(record.id)}
-                    className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 ml-2 flex-shrink-0"
-                    title="Remove"
-                  >
-                    Remove
-                  </button>
+                  {hasPermission("attendance.remove") && (
+                    <button
+                      onClick={() => handleRemoveRecord(record.id)}
+                      className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 ml-2 flex-shrink-0"
+                      title="Remove"
+                    >
+                      Remove
+                    </button>
+                  )}
                 </div>
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div>
@@ -568,6 +633,8 @@ export default function AttendancePage() {
         )}
       </div>
 
+      {typedMemberDialog}
+
       {showScanner && (
         <QRScanner
           title="Scan Member ID for Attendance"
@@ -576,6 +643,16 @@ export default function AttendancePage() {
         />
       )}
 
+      {scannedFamily && (
+        <FamilyCheckInDialog
+          householdName={scannedFamily.name}
+          members={scannedFamily.members}
+          presentMemberIds={new Set(records.map((record) => record.memberId))}
+          onClose={() => setScannedFamily(null)}
+          onCheckedIn={loadData}
+        />
+      )}
+
       {showEditDialog && scannedQrId && (
         <EditMemberDialog
           qrCodeId={scannedQrId}
@@ -585,6 +662,7 @@ export default function AttendancePage() {
             setScannedQrId(null)
           }}
           initialRegions={regions}
+          initialTanzeem={scannedTanzeem}
         />
       )}
     </main>
@@ -1,33 +1,75 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
-import { getAttendanceRecords, addCateringRecord, getCateringRecords, findMemberByQRCodeId, findAttendanceRecordByQRCodeId } from "@/lib/storage"
-import type { AttendanceRecord, DayOfWeek, MealType } from "@/lib/types"
+import { getAttendanceRecords, addCateringRecord, getCateringRecords, findMemberByQRCodeId, findAttendanceRecordByQRCodeId, verifyScannedCard, prepareOfflineScanning, getHouseholds, getSettings } from "@/lib/storage"
+import {
+  formatCateringSession,
+  formatEventDay,
+  formatMealWindow,
+  getDefaultCateringSession,
+  getMealWindow,
+  isCateringSessionOpen,
+} from "@/lib/catering-sessions"
+import { getHouseholdIdFromCardId, getHouseholdName } from "@/lib/households"
+import { CARD_REJECTION_TITLES } from "@/lib/qr-payload"
+import type { AttendanceRecord, CateringOverrideApproval, EventDay, EventSettings, Household, MealType, ScanSource } from "@/lib/types"
 import { Button } from "@/components/ui/button"
-import { isAuthenticated, hasAnyRole } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { QRScanner } from "@/components/qr-scanner"
+import { useTypedMemberConfirmation } from "@/components/typed-member-confirm-dialog"
+import { OverrideApprovalDialog } from "@/components/override-approval-dialog"
+import { DietaryBadges } from "@/components/dietary-badges"
+import { formatDietaryRequirements, hasDietaryRequirements } from "@/lib/dietary"
 import { toast } from "sonner"
 
 export default function CateringCheckPage() {
   const router = useRouter()
   const searchParams = useSearchParams()
-  const day = (searchParams.get("day") || "Friday") as DayOfWeek
-  const meal = (searchParams.get("meal") || "Breakfast") as MealType
+  const day: EventDay = searchParams.get("day") || ""
+  const meal: MealType = searchParams.get("meal") || ""
+  const sessionLabel = formatCateringSession({ day, mealType: meal })
 
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([])
+  const [confirmTypedMember, typedMemberDialog] = useTypedMemberConfirmation()
   const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set())
   const [loading, setLoading] = useState(true)
   const [checking, setChecking] = useState<Record<string, boolean>>({})
   const [showScanner, setShowScanner] = useState(false)
+  const [households, setHouseholds] = useState<Household[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [now, setNow] = useState(() => new Date())
+  const [overrideApproval, setOverrideApproval] = useState<CateringOverrideApproval | null>(null)
+  const [showApproval, setShowApproval] = useState(false)
+
+  // Without the event's settings the window is unknown, so serving is held back
+  const settingsLoaded = !!eventSettings?.id
+  const sessionOpen = settingsLoaded && isCateringSessionOpen({ day, mealType: meal }, eventSettings, now)
+  const overrideApproved = !!overrideApproval
+  const mealWindow = getMealWindow(meal, eventSettings)
+  const openSession = getDefaultCateringSession(eventSettings, now)
+  const canOverride = hasPermission("catering.override")
+
+  const openDefaultSession = async () => {
+    const session = getDefaultCateringSession(await getSettings())
+    if (session) {
+      router.replace(`/catering/check?day=${session.day}&meal=${encodeURIComponent(session.mealType)}`)
+    } else {
+      router.push("/catering")
+    }
+  }
 
   const loadData = async () => {
     try {
-      const [records, existingRecords] = await Promise.all([
+      const [records, existingRecords, householdsData, settings] = await Promise.all([
         getAttendanceRecords(),
         getCateringRecords(day, meal),
+        getHouseholds(),
+        getSettings(),
       ])
       setAttendanceRecords(records)
+      setHouseholds(householdsData)
+      setEventSettings(settings)
       // Mark already checked records
       const checkedSet = new Set(existingRecords.map((r) => r.attendanceRecordId))
       setCheckedIds(checkedSet)
@@ -44,12 +86,20 @@ export default function CateringCheckPage() {
       return
     }
 
-    if (!hasAnyRole(["Admin", "Catering Service"])) {
+    if (!hasPermission("catering.serve")) {
       router.push("/")
       return
     }
 
+    // Without a session in the URL, open today's first one
+    if (!day || !meal) {
+      openDefaultSession()
+      return
+    }
+
     loadData()
+    // Cache what scanning needs in case the connection drops
+    prepareOfflineScanning()
 
     // Refresh data when page becomes visible (user switches back to tab)
     const handleVisibilityChange = () => {
@@ -65,28 +115,56 @@ export default function CateringCheckPage() {
 
     document.addEventListener("visibilitychange", handleVisibilityChange)
     window.addEventListener("focus", handleFocus)
+    // Re-check the serving window as time passes
+    const clock = setInterval(() => setNow(new Date()), 30000)
 
     return () => {
       document.removeEventListener("visibilitychange", handleVisibilityChange)
       window.removeEventListener("focus", handleFocus)
+      clearInterval(clock)
     }
   }, [router, day, meal])
 
+  // An approval covers this session only
+  useEffect(() => {
+    setOverrideApproval(null)
+  }, [day, meal])
+
+  // Outside the window nothing is served until someone allowed to approves it
+  const ensureServingAllowed = (): boolean => {
+    if (sessionOpen || overrideApproved) return true
+    const when = settingsLoaded
+      ? `${meal} is served ${formatMealWindow(mealWindow)} on ${formatEventDay(day)}.`
+      : "The event's meal times could not be loaded."
+    toast.error("Outside serving time", {
+      description: `${when} ${
+        canOverride ? "A supervisor must approve serving anyway first." : "Ask a supervisor to approve it."
+      }`,
+    })
+    return false
+  }
+
   const handleCheck = async (recordId: string) => {
     if (checkedIds.has(recordId)) {
       return // Already checked
     }
+    if (!ensureServingAllowed()) return
 
     setChecking((prev) => ({ ...prev, [recordId]: true }))
 
     try {
-      const success = await addCateringRecord(recordId, day, meal)
+      const success = await addCateringRecord(recordId, day, meal, { approval: overrideApproval ?? undefined })
       if (success) {
         setCheckedIds((prev) => new Set([...prev, recordId]))
         const record = attendanceRecords.find((r) => r.id === recordId)
         toast.success("Member marked as served", {
-          description: `${record?.member?.fullName || "Member"} has been checked for ${day} - ${meal}.`,
+          description: `${record?.member?.fullName || "Member"} has been checked for ${sessionLabel}.`,
         })
+        if (record?.member && hasDietaryRequirements(record.member)) {
+          toast.warning(`Special meal: ${record.member.dietaryRequirements!.join(", ")}`, {
+            description: record.member.dietaryNotes || `Serve ${record.member.fullName} their special meal.`,
+          })
+        }
       } else {
         toast.warning("Already checked", {
           description: "This attendee has already been checked for this meal.",
@@ -102,18 +180,98 @@ export default function CateringCheckPage() {
     }
   }
 
-  const handleQRScan = async (scannedText: string) => {
+  // Present members of each household and how many have been served this meal
+  const householdCounts = useMemo(() => {
+    const presentMembers = attendanceRecords.flatMap((record) => (record.member ? [record.member] : []))
+    const byHousehold = new Map<string, AttendanceRecord[]>()
+    attendanceRecords.forEach((record) => {
+      const householdId = record.member?.householdId
+      if (householdId) byHousehold.set(householdId, [...(byHousehold.get(householdId) || []), record])
+    })
+    return Array.from(byHousehold, ([householdId, records]) => ({
+      householdId,
+      name: getHouseholdName(householdId, households, presentMembers),
+      records,
+      served: records.filter((record) => checkedIds.has(record.id)).length,
+    })).sort((a, b) => a.name.localeCompare(b.name))
+  }, [attendanceRecords, households, checkedIds])
+
+  // Serves every present member of a household who has not eaten this meal yet
+  const handleServeHousehold = async (householdId: string) => {
+    const family = householdCounts.find((household) => household.householdId === householdId)
+    if (!family) {
+      toast.error("Family not present", {
+        description: "No member of this family is in the attendance list. Please check them in first.",
+      })
+      return
+    }
+    const toServe = family.records.filter((record) => !checkedIds.has(record.id))
+    if (toServe.length === 0) {
+      toast.warning("Already served", { description: `${family.name} has already been served ${sessionLabel}.` })
+      return
+    }
+    if (!ensureServingAllowed()) return
+
+    const served: string[] = []
+    for (const record of toServe) {
+      try {
+        if (await addCateringRecord(record.id, day, meal, { approval: overrideApproval ?? undefined })) {
+          served.push(record.id)
+        }
+      } catch (error) {
+        console.error("Error serving family member:", error)
+      }
+    }
+    setCheckedIds((prev) => new Set([...prev, ...served]))
+    if (served.length === toServe.length) {
+      toast.success("Family served", { description: `${served.length} member(s) of ${family.name} marked as served.` })
+    } else {
+      toast.error("Some family members were not served", {
+        description: `${served.length} of ${toServe.length} were marked. Please check the rest individually.`,
+      })
+    }
+    const specialMeals = toServe.filter((record) => served.includes(record.id) && hasDietaryRequirements(record.member))
+    if (specialMeals.length > 0) {
+      toast.warning("Special meals in this family", {
+        description: specialMeals
+          .map((record) => `${record.member!.fullName}: ${formatDietaryRequirements(record.member!)}`)
+          .join("; "),
+      })
+    }
+  }
+
+  const handleQRScan = async (scannedText: string, source: ScanSource) => {
     try {
+      // Reject forged cards and cards issued for other events before any lookup
+      const card = await verifyScannedCard(scannedText, source)
+      if (!card.ok) {
+        toast.error(CARD_REJECTION_TITLES[card.reason], { description: card.message })
+        setShowScanner(false)
+        return
+      }
+      if (card.typedMember) {
+        setShowScanner(false)
+        if (!(await confirmTypedMember(card.typedMember))) return
+      }
+      const cardId = card.cardId
+
+      const householdId = getHouseholdIdFromCardId(cardId)
+      if (householdId) {
+        setShowScanner(false)
+        await handleServeHousehold(householdId)
+        return
+      }
+
       // Find attendance record by QR code ID (this handles both direct ID and QR code mapping)
       // Refresh attendance records first to ensure we have the latest data
       const latestRecords = await getAttendanceRecords()
       setAttendanceRecords(latestRecords)
       
-      const record = await findAttendanceRecordByQRCodeId(scannedText)
+      const record = await findAttendanceRecordByQRCodeId(cardId)
 
       if (!record) {
         // Check if member exists but not in attendance
-        const member = await findMemberByQRCodeId(scannedText)
+        const member = await findMemberByQRCodeId(cardId)
         if (member) {
           toast.error("Member not found in attendance", {
             description: `${member.fullName} is not in the attendance list. Please add them to attendance first.`,
@@ -130,7 +288,7 @@ export default function CateringCheckPage() {
       // Check if already served
       if (checkedIds.has(record.id)) {
         toast.warning("Already served", {
-          description: `${record.member?.fullName || "Member"} has already been marked as served for ${day} - ${meal}.`,
+          description: `${record.member?.fullName || "Member"} has already been marked as served for ${sessionLabel}.`,
         })
         setShowScanner(false)
         return
@@ -148,7 +306,7 @@ export default function CateringCheckPage() {
   }
 
   const handleDone = () => {
-    router.push(`/catering?day=${day}&meal=${meal}`)
+    router.push("/catering")
   }
 
   if (loading) {
@@ -167,7 +325,7 @@ export default function CateringCheckPage() {
         <div className="mb-8 text-center">
           <h1 className="text-3xl font-bold text-primary">Check Attendees</h1>
           <p className="text-muted-foreground mt-2">
-            {day} - {meal}
+            {sessionLabel} · served {formatMealWindow(mealWindow)}
           </p>
           <Button
             onClick={() => setShowScanner(true)}
@@ -177,6 +335,40 @@ export default function CateringCheckPage() {
           </Button>
         </div>
 
+        {!sessionOpen && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 text-sm text-amber-900">
+            <p className="font-semibold">
+              {settingsLoaded
+                ? `${sessionLabel} is not being served right now.`
+                : `The event's meal times could not be loaded, so ${sessionLabel} is treated as closed.`}
+            </p>
+            <p className="mt-1">
+              {overrideApproval
+                ? `Serving outside the window, approved by ${overrideApproval.approverName}. Each serving is logged.`
+                : "Servings are blocked so they are not recorded under the wrong meal."}
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2 mt-3">
+              {openSession && (openSession.day !== day || openSession.mealType !== meal) && (
+                <Button
+                  onClick={() =>
+                    router.replace(
+                      `/catering/check?day=${openSession.day}&meal=${encodeURIComponent(openSession.mealType)}`,
+                    )
+                  }
+                  className="bg-primary text-primary-foreground"
+                >
+                  Switch to {formatCateringSession(openSession)}
+                </Button>
+              )}
+              {!overrideApproved && canOverride && (
+                <Button onClick={() => setShowApproval(true)} variant="outline">
+                  Serve Anyway
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Summary */}
         <div className="bg-card border border-border rounded-lg p-4 mb-6">
           <div className="flex items-center justify-between">
@@ -194,6 +386,36 @@ export default function CateringCheckPage() {
           </div>
         </div>
 
+        {/* Households */}
+        {householdCounts.length > 0 && (
+          <div className="bg-card border border-border rounded-lg p-4 mb-6">
+            <h2 className="text-lg font-semibold text-foreground mb-3">Families</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {householdCounts.map((household) => (
+                <div
+                  key={household.householdId}
+                  className="flex items-center justify-between gap-2 border border-border rounded-md px-3 py-2"
+                >
+                  <div className="text-sm">
+                    <p className="font-medium text-foreground">{household.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {household.served} of {household.records.length} present served
+                    </p>
+                  </div>
+                  {household.served < household.records.length && (
+                    <button
+                      onClick={() => handleServeHousehold(household.householdId)}
+                      className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 whitespace-nowrap"
+                    >
+                      Serve Family
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Attendees Table */}
         <div className="bg-card border border-border rounded-lg overflow-hidden">
           <div className="overflow-x-auto">
@@ -228,6 +450,11 @@ export default function CateringCheckPage() {
                       >
                         <td className="px-6 py-4 text-sm font-medium text-primary text-center">
                           {record.member?.fullName || "Unknown"}
+                          {hasDietaryRequirements(record.member) && (
+                            <span className="block mt-1">
+                              <DietaryBadges member={record.member} />
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 text-sm text-foreground text-center">
                           {record.member?.tanzeem || "-"}
@@ -262,13 +489,24 @@ export default function CateringCheckPage() {
           </div>
         </div>
 
+        {typedMemberDialog}
+
         {showScanner && (
           <QRScanner
-            title={`Scan Member ID for ${day} - ${meal}`}
+            title={`Scan Member ID for ${sessionLabel}`}
             onScanSuccess={handleQRScan}
             onClose={() => setShowScanner(false)}
           />
         )}
+
+        {showApproval && (
+          <OverrideApprovalDialog
+            day={day}
+            mealType={meal}
+            onClose={() => setShowApproval(false)}
+            onApproved={setOverrideApproval}
+          />
+        )}
       </div>
     </main>
   )
@@ -0,0 +1,232 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import {
+  getAttendanceRecords,
+  getCateringRecords,
+  getPreviousCateringHistory,
+  getSecurityMovements,
+  getSettings,
+} from "@/lib/storage"
+import { formatCateringSession, formatMealWindow, getMealWindow } from "@/lib/catering-sessions"
+import { buildKitchenForecast, type KitchenForecast } from "@/lib/kitchen-forecast"
+import type { EventSettings } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { TanzeemDot } from "@/components/tanzeem-dot"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { exportKitchenPrepSheetToExcel, exportKitchenPrepSheetToPDF } from "@/lib/export"
+import { toast } from "sonner"
+
+export default function KitchenForecastPage() {
+  const [forecast, setForecast] = useState<KitchenForecast | null>(null)
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [previousEvents, setPreviousEvents] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push("/login")
+      return
+    }
+
+    if (!hasPermission("catering.view")) {
+      router.push("/")
+      return
+    }
+
+    loadForecast()
+  }, [router])
+
+  const loadForecast = async () => {
+    try {
+      setLoading(true)
+      const [settings, attendanceRecords, movements, cateringRecords, history] = await Promise.all([
+        getSettings(),
+        getAttendanceRecords(),
+        getSecurityMovements(),
+        getCateringRecords(),
+        getPreviousCateringHistory(),
+      ])
+      setEventSettings(settings)
+      setPreviousEvents(history.events)
+      setForecast(
+        buildKitchenForecast({ settings, attendanceRecords, movements, cateringRecords, history: history.samples }),
+      )
+    } catch (error) {
+      console.error("Error loading kitchen forecast:", error)
+      toast.error("Failed to load kitchen forecast")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleExport = async (format: "pdf" | "excel") => {
+    if (!forecast) return
+    const eventTitle = eventSettings?.eventName || ""
+    try {
+      if (format === "pdf") {
+        await exportKitchenPrepSheetToPDF(forecast, eventTitle, eventSettings, "Kitchen Prep Sheet")
+      } else {
+        await exportKitchenPrepSheetToExcel(
+          forecast,
+          `kitchen-prep-sheet-${Date.now()}.xlsx`,
+          eventTitle,
+          eventSettings,
+          "Kitchen Prep Sheet",
+        )
+      }
+      toast.success("Prep sheet exported")
+    } catch (error) {
+      toast.error("Failed to export prep sheet")
+    }
+  }
+
+  if (loading && !forecast) {
+    return (
+      <main className="min-h-screen bg-background">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
+          <p>Loading kitchen forecast...</p>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-6 sm:mb-8 text-center px-2">
+          <h1 className="text-2xl sm:text-3xl font-bold text-primary">Kitchen Forecast</h1>
+          <p className="text-muted-foreground mt-2 text-sm sm:text-base">
+            Plates to prepare for upcoming meals, from who is on site and how many were served before
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2 justify-center mt-4">
+            <Link href="/catering">
+              <Button variant="outline" className="w-full sm:w-auto">
+                Back to Catering
+              </Button>
+            </Link>
+            <Button onClick={loadForecast} variant="outline" className="w-full sm:w-auto" disabled={loading}>
+              {loading ? "Refreshing..." : "Refresh"}
+            </Button>
+            {hasPermission("catering.export") && (
+              <Button
+                onClick={() => handleExport("pdf")}
+                className="bg-destructive hover:bg-destructive/90 text-white w-full sm:w-auto"
+                disabled={!forecast?.sessions.length}
+              >
+                Prep Sheet PDF
+              </Button>
+            )}
+            {hasPermission("catering.export") && (
+              <Button
+                onClick={() => handleExport("excel")}
+                className="bg-green-700 hover:bg-green-800 text-white w-full sm:w-auto"
+                disabled={!forecast?.sessions.length}
+              >
+                Prep Sheet Excel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {forecast && (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6">
+              <div className="bg-card border border-border rounded-lg p-4 text-center">
+                <p className="text-xs sm:text-sm text-muted-foreground">Attended</p>
+                <p className="text-2xl font-bold text-foreground">{forecast.present}</p>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-4 text-center">
+                <p className="text-xs sm:text-sm text-muted-foreground">On Site</p>
+                <p className="text-2xl font-bold text-green-700">{forecast.onSite}</p>
+              </div>
+              <div className="bg-card border border-border rounded-lg p-4 text-center">
+                <p className="text-xs sm:text-sm text-muted-foreground">Not In at the Gate</p>
+                <p className="text-2xl font-bold text-amber-700">{forecast.away}</p>
+              </div>
+            </div>
+
+            <div className="bg-card border border-border rounded-lg p-4 mb-6">
+              <h2 className="text-sm sm:text-base font-semibold text-foreground mb-2">Special Meals On Site</h2>
+              <div className="flex flex-wrap gap-2">
+                {forecast.specialMeals.map((count) => (
+                  <span key={count.requirement} className="px-2 py-1 text-xs rounded bg-orange-100 text-orange-800">
+                    {count.requirement}: {count.present}
+                  </span>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground mt-3">
+                Serving ratios come from earlier meals of this event
+                {previousEvents > 0 ? ` and ${previousEvents} previous event(s)` : ""}; meals without history assume
+                one plate per person on site.
+              </p>
+            </div>
+
+            {forecast.sessions.length === 0 ? (
+              <div className="bg-card border border-border rounded-lg p-8 text-center">
+                <p className="text-sm text-muted-foreground">No upcoming meal sessions for this event.</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {forecast.sessions.map((session) => (
+                  <div
+                    key={`${session.session.day}-${session.session.mealType}`}
+                    className="bg-card border border-border rounded-lg overflow-hidden"
+                  >
+                    <div className="p-4 border-b border-border flex items-start justify-between gap-2">
+                      <div>
+                        <h2 className="text-base font-semibold text-foreground">
+                          {formatCateringSession(session.session)}
+                        </h2>
+                        <p className="text-xs text-muted-foreground">
+                          {formatMealWindow(getMealWindow(session.session.mealType, eventSettings))} ·{" "}
+                          {session.observedSessions
+                            ? `based on ${session.observedSessions} earlier session(s)`
+                            : "no serving history yet"}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-2xl font-bold text-primary">{session.plates}</p>
+                        <p className="text-xs text-muted-foreground">plates</p>
+                      </div>
+                    </div>
+                    <table className="w-full">
+                      <thead className="bg-muted border-b border-border">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-semibold text-foreground">Tanzeem</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-foreground">On Site</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-foreground">Ratio</th>
+                          <th className="px-4 py-2 text-right text-xs font-semibold text-foreground">Plates</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {session.tanzeems.map((tanzeem) => (
+                          <tr key={tanzeem.tanzeem} className="border-b border-border">
+                            <td className="px-4 py-2 text-xs sm:text-sm text-foreground">
+                              <TanzeemDot tanzeem={tanzeem.tanzeem} eventSettings={eventSettings} />
+                              {tanzeem.tanzeem}
+                            </td>
+                            <td className="px-4 py-2 text-xs sm:text-sm text-right text-foreground">{tanzeem.onSite}</td>
+                            <td className="px-4 py-2 text-xs sm:text-sm text-right text-muted-foreground">
+                              {Math.round(tanzeem.ratio * 100)}%
+                            </td>
+                            <td className="px-4 py-2 text-xs sm:text-sm text-right font-medium text-foreground">
+                              {tanzeem.plates}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -1,24 +1,22 @@
 "use client"
 
 import { useState, useEffect, useMemo } from "react"
-import { getCateringRecords, removeCateringRecord, getRegions, getSettings } from "@/lib/storage"
-import type { CateringRecord, DayOfWeek, MealType, Region, Tanzeem } from "@/lib/types"
+import { getCateringRecords, removeCateringRecord, getRegions, getSettings, getAttendanceRecords } from "@/lib/storage"
+import { memberCodeMatches } from "@/lib/member-codes"
+import { formatEventDay, getDayMeals, getDefaultCateringSession, getEventDays, getMealTypes } from "@/lib/catering-sessions"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import type { CateringRecord, EventDay, MealType, Region, Tanzeem } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { isAuthenticated, hasAnyRole } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
-import { exportCateringToPDF, exportCateringToExcel } from "@/lib/export"
+import { exportCateringToPDF, exportCateringToExcel, exportSpecialMealsToPDF } from "@/lib/export"
 import { toast } from "sonner"
 
-const DAYS: DayOfWeek[] = ["Friday", "Saturday", "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday"]
-const MEAL_TYPES: MealType[] = ["Breakfast", "Lunch", "Dinner"]
-
-const TANZEEMS: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
-
 export default function CateringPage() {
-  const [selectedDay, setSelectedDay] = useState<DayOfWeek | "">("Friday")
-  const [selectedMealType, setSelectedMealType] = useState<MealType | "">("Breakfast")
+  const [selectedDay, setSelectedDay] = useState<EventDay | "">("")
+  const [selectedMealType, setSelectedMealType] = useState<MealType | "">("")
   const [records, setRecords] = useState<CateringRecord[]>([])
   const [regions, setRegions] = useState<Region[]>([])
   const [searchTerm, setSearchTerm] = useState("")
@@ -28,6 +26,7 @@ export default function CateringPage() {
   const [loading, setLoading] = useState(true)
   const [eventTitle, setEventTitle] = useState("")
   const [eventSettings, setEventSettings] = useState<any | undefined>(undefined)
+  const [settingsLoaded, setSettingsLoaded] = useState(false)
   const router = useRouter()
 
   useEffect(() => {
@@ -36,31 +35,42 @@ export default function CateringPage() {
       return
     }
 
-    if (!hasAnyRole(["Admin", "Catering Service"])) {
+    if (!hasPermission("catering.view")) {
       router.push("/")
       return
     }
 
-    // load regions once and records when filters change
+    // load regions and settings once, opening on today's first session
     const init = async () => {
       try {
         const [regs, settings] = await Promise.all([getRegions(), getSettings()])
         setRegions(regs)
         setEventTitle(settings?.eventName || "")
         setEventSettings(settings)
+        const session = getDefaultCateringSession(settings)
+        if (session) {
+          setSelectedDay(session.day)
+          setSelectedMealType(session.mealType)
+        }
       } catch (error) {
         console.error("Error loading regions:", error)
+      } finally {
+        setSettingsLoaded(true)
       }
     }
 
     init()
-    loadRecords()
-  }, [router, selectedDay, selectedMealType])
+  }, [router])
+
+  // records are reloaded when the session filters change
+  useEffect(() => {
+    if (settingsLoaded) loadRecords()
+  }, [settingsLoaded, selectedDay, selectedMealType])
 
   const loadRecords = async () => {
     try {
       setLoading(true)
-      const day = selectedDay === "" ? undefined : (selectedDay as DayOfWeek)
+      const day = selectedDay === "" ? undefined : (selectedDay as EventDay)
       const meal = selectedMealType === "" ? undefined : (selectedMealType as MealType)
       const data = await getCateringRecords(day, meal)
       setRecords(data)
@@ -92,7 +102,7 @@ export default function CateringPage() {
       const member = record.attendanceRecord?.member
       if (!member) return false
 
-      const matchesSearch = member.fullName.toLowerCase().includes(term)
+      const matchesSearch = member.fullName.toLowerCase().includes(term) || memberCodeMatches(member, term)
       const matchesTanzeem = !filterTanzeem || member.tanzeem === filterTanzeem
       const matchesRegion = !filterRegion || member.region === filterRegion
       const matchesJamaat = !filterJamaat || member.jamaat === filterJamaat
@@ -131,46 +141,76 @@ export default function CateringPage() {
           <h1 className="text-2xl sm:text-3xl font-bold text-primary">Catering - Meal Tracking</h1>
           <p className="text-muted-foreground mt-2 text-sm sm:text-base">Track attendees served during meals</p>
           <div className="flex flex-col sm:flex-row gap-2 justify-center mt-4">
-            <Button
-              onClick={() => {
-                try {
-                  const parts: string[] = []
-                  if (selectedDay) parts.push(selectedDay)
-                  if (selectedMealType) parts.push(selectedMealType)
-                  if (filterTanzeem) parts.push(filterTanzeem)
-                  if (filterRegion) parts.push(filterRegion)
-                  if (filterJamaat) parts.push(filterJamaat)
-                  const recordLabel = parts.length ? `Catering Records (${parts.join(' - ')})` : 'All Catering Records'
-                  exportCateringToPDF(filteredRecords, eventTitle, eventSettings, recordLabel)
-                  toast.success("PDF exported successfully")
-                } catch (error) {
-                  toast.error("Failed to export PDF")
-                }
-              }}
-              className="bg-destructive hover:bg-destructive/90 text-white w-full sm:w-auto"
-            >
-              Download PDF
-            </Button>
-            <Button
-              onClick={() => {
-                try {
-                  const parts: string[] = []
-                  if (selectedDay) parts.push(selectedDay)
-                  if (selectedMealType) parts.push(selectedMealType)
-                  if (filterTanzeem) parts.push(filterTanzeem)
-                  if (filterRegion) parts.push(filterRegion)
-                  if (filterJamaat) parts.push(filterJamaat)
-                  const recordLabel = parts.length ? `Catering Records (${parts.join(' - ')})` : 'All Catering Records'
-                  exportCateringToExcel(filteredRecords, `catering-records-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
-                  toast.success("Excel file exported successfully")
-                } catch (error) {
-                  toast.error("Failed to export Excel file")
-                }
-              }}
-              className="bg-green-700 hover:bg-green-800 text-white w-full sm:w-auto"
-            >
-              Download Excel
-            </Button>
+            {hasPermission("catering.export") && (
+              <Button
+                onClick={() => {
+                  try {
+                    const parts: string[] = []
+                    if (selectedDay) parts.push(formatEventDay(selectedDay))
+                    if (selectedMealType) parts.push(selectedMealType)
+                    if (filterTanzeem) parts.push(filterTanzeem)
+                    if (filterRegion) parts.push(filterRegion)
+                    if (filterJamaat) parts.push(filterJamaat)
+                    const recordLabel = parts.length ? `Catering Records (${parts.join(' - ')})` : 'All Catering Records'
+                    exportCateringToPDF(filteredRecords, eventTitle, eventSettings, recordLabel)
+                    toast.success("PDF exported successfully")
+                  } catch (error) {
+                    toast.error("Failed to export PDF")
+                  }
+                }}
+                className="bg-destructive hover:bg-destructive/90 text-white w-full sm:w-auto"
+              >
+                Download PDF
+              </Button>
+            )}
+            {hasPermission("catering.export") && (
+              <Button
+                onClick={() => {
+                  try {
+                    const parts: string[] = []
+                    if (selectedDay) parts.push(formatEventDay(selectedDay))
+                    if (selectedMealType) parts.push(selectedMealType)
+                    if (filterTanzeem) parts.push(filterTanzeem)
+                    if (filterRegion) parts.push(filterRegion)
+                    if (filterJamaat) parts.push(filterJamaat)
+                    const recordLabel = parts.length ? `Catering Records (${parts.join(' - ')})` : 'All Catering Records'
+                    exportCateringToExcel(filteredRecords, `catering-records-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
+                    toast.success("Excel file exported successfully")
+                  } catch (error) {
+                    toast.error("Failed to export Excel file")
+                  }
+                }}
+                className="bg-green-700 hover:bg-green-800 text-white w-full sm:w-auto"
+              >
+                Download Excel
+              </Button>
+            )}
+            {hasPermission("catering.export") && (
+              <Button
+                onClick={async () => {
+                  try {
+                    const parts: string[] = []
+                    if (selectedDay) parts.push(formatEventDay(selectedDay))
+                    if (selectedMealType) parts.push(selectedMealType)
+                    const recordLabel = parts.length ? `Special Meals (${parts.join(' - ')})` : 'Special Meals'
+                    const attendanceRecords = await getAttendanceRecords()
+                    const servedIds = new Set(records.map((record) => record.attendanceRecordId))
+                    await exportSpecialMealsToPDF(attendanceRecords, servedIds, eventTitle, eventSettings, recordLabel)
+                    toast.success("Special meal list exported")
+                  } catch (error) {
+                    toast.error("Failed to export special meal list")
+                  }
+                }}
+                className="bg-orange-600 hover:bg-orange-700 text-white w-full sm:w-auto"
+              >
+                Special Meals PDF
+              </Button>
+            )}
+            <Link href="/catering/forecast">
+              <Button variant="outline" className="w-full sm:w-auto">
+                Kitchen Forecast
+              </Button>
+            </Link>
           </div>
         </div>
 
@@ -181,7 +221,7 @@ export default function CateringPage() {
               <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Search</label>
               <Input
                 type="text"
-                placeholder="Member name"
+                placeholder="Member name or code"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full text-sm"
@@ -196,7 +236,7 @@ export default function CateringPage() {
                 className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
               >
                 <option value="">All Tanzeems</option>
-                {TANZEEMS.map((t) => (
+                {getTanzeemNames(eventSettings).map((t) => (
                   <option key={t} value={t}>
                     {t}
                   </option>
@@ -248,13 +288,19 @@ export default function CateringPage() {
               <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Day</label>
               <select
                 value={selectedDay}
-                onChange={(e) => setSelectedDay(e.target.value as DayOfWeek | "")}
+                onChange={(e) => {
+                  const day = e.target.value as EventDay | ""
+                  setSelectedDay(day)
+                  if (day && selectedMealType && !getDayMeals(day, eventSettings).includes(selectedMealType)) {
+                    setSelectedMealType("")
+                  }
+                }}
                 className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
               >
                 <option value="">All Days</option>
-                {DAYS.map((day) => (
+                {getEventDays(eventSettings).map((day) => (
                   <option key={day} value={day}>
-                    {day}
+                    {formatEventDay(day)}
                   </option>
                 ))}
               </select>
@@ -267,7 +313,7 @@ export default function CateringPage() {
                 className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
               >
                 <option value="">All Meals</option>
-                {MEAL_TYPES.map((meal) => (
+                {(selectedDay ? getDayMeals(selectedDay, eventSettings) : getMealTypes(eventSettings)).map((meal) => (
                   <option key={meal} value={meal}>
                     {meal}
                   </option>
@@ -275,14 +321,16 @@ export default function CateringPage() {
               </select>
             </div>
             <div>
-              <Link
-                href={`/catering/check?day=${selectedDay || "Friday"}&meal=${selectedMealType || "Breakfast"}`}
-                className="block"
-              >
-                <Button className="w-full bg-primary text-primary-foreground text-sm" disabled={!selectedDay || !selectedMealType}>
-                  Check Attendees
-                </Button>
-              </Link>
+              {hasPermission("catering.serve") && (
+                <Link
+                  href={`/catering/check?day=${selectedDay}&meal=${encodeURIComponent(selectedMealType)}`}
+                  className="block"
+                >
+                  <Button className="w-full bg-primary text-primary-foreground text-sm" disabled={!selectedDay || !selectedMealType}>
+                    Check Attendees
+                  </Button>
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -291,7 +339,7 @@ export default function CateringPage() {
         <div className="bg-card border border-border rounded-lg overflow-hidden hidden md:block">
           <div className="p-4 border-b border-border">
             <h2 className="text-base sm:text-lg font-semibold text-foreground">
-              {selectedDay === "" ? "All Days" : selectedDay} - {selectedMealType === "" ? "All Meals" : selectedMealType} ({records.length} served)
+              {selectedDay === "" ? "All Days" : formatEventDay(selectedDay)} - {selectedMealType === "" ? "All Meals" : selectedMealType} ({records.length} served)
             </h2>
           </div>
           <div className="overflow-x-auto">
@@ -316,7 +364,7 @@ export default function CateringPage() {
                 {records.length === 0 ? (
                   <tr>
                     <td colSpan={selectedDay === "" || selectedMealType === "" ? 8 : 6} className="px-6 py-8 text-center text-muted-foreground text-sm">
-                      No records found{selectedDay && selectedMealType ? ` for ${selectedDay} - ${selectedMealType}` : ""}. {selectedDay && selectedMealType ? 'Click "Check Attendees" to add records.' : "Select a specific day and meal type to check attendees."}
+                      No records found{selectedDay && selectedMealType ? ` for ${formatEventDay(selectedDay)} - ${selectedMealType}` : ""}. {selectedDay && selectedMealType ? 'Click "Check Attendees" to add records.' : "Select a specific day and meal type to check attendees."}
                     </td>
                   </tr>
                 ) : (
@@ -336,21 +384,26 @@ export default function CateringPage() {
                       </td>
                       {(selectedDay === "" || selectedMealType === "") && (
                         <>
-                          <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{record.day}</td>
+                          <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{formatEventDay(record.day)}</td>
                           <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{record.mealType}</td>
                         </>
                       )}
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">
                         {new Date(record.servedAt).toLocaleString()}
+                        {record.overrideBy && (
+                          <span className="block text-xs text-amber-700">Outside meal time, approved by {record.overrideByName || record.overrideBy}</span>
+                        )}
                       </td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm">
-                        <button
-                          onClick={() => handleRemoveRecord(record.id)}
-                          className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
-                          title="Remove"
-                        >
-                          Remove
-                        </button>
+                        {hasPermission("catering.undo") && (
+                          <button
+                            onClick={() => handleRemoveRecord(record.id)}
+                            className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                            title="Remove"
+                          >
+                            Remove
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))
@@ -364,14 +417,14 @@ export default function CateringPage() {
         <div className="md:hidden space-y-4">
           <div className="bg-card border border-border rounded-lg p-4">
             <h2 className="text-sm font-semibold text-foreground mb-2">
-              {selectedDay === "" ? "All Days" : selectedDay} - {selectedMealType === "" ? "All Meals" : selectedMealType}
+              {selectedDay === "" ? "All Days" : formatEventDay(selectedDay)} - {selectedMealType === "" ? "All Meals" : selectedMealType}
             </h2>
             <p className="text-xs text-muted-foreground">{records.length} served</p>
           </div>
           {records.length === 0 ? (
             <div className="bg-card border border-border rounded-lg p-8 text-center">
               <p className="text-sm text-muted-foreground">
-                No records found{selectedDay && selectedMealType ? ` for ${selectedDay} - ${selectedMealType}` : ""}. {selectedDay && selectedMealType ? 'Click "Check Attendees" to add records.' : "Select a specific day and meal type to check attendees."}
+                No records found{selectedDay && selectedMealType ? ` for ${formatEventDay(selectedDay)} - ${selectedMealType}` : ""}. {selectedDay && selectedMealType ? 'Click "Check Attendees" to add records.' : "Select a specific day and meal type to check attendees."}
               </p>
             </div>
           ) : (
@@ -381,13 +434,15 @@ export default function CateringPage() {
                   <div className="flex-1 min-w-0">
                     <h3 className="text-sm font-semibold text-primary truncate">{record.attendanceRecord?.member?.fullName || "Unknown"}</h3>
                   </div>
-                  <button
-                    onClick={() => handleRemoveRecord(record.id)}
-                    className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 ml-2 flex-shrink-0"
-                    title="Remove"
-                  >
-                    Remove
-                  </button>
+                  {hasPermission("catering.undo") && (
+                    <button
+                      onClick={() => handleRemoveRecord(record.id)}
+                      className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 ml-2 flex-shrink-0"
+                      title="Remove"
+                    >
+                      Remove
+                    </button>
+                  )}
                 </div>
                 <div className="grid grid-cols-2 gap-2 text-xs">
                     <div>
@@ -406,7 +461,7 @@ export default function CateringPage() {
                     <>
                       <div>
                         <span className="text-muted-foreground">Day: </span>
-                        <span className="text-foreground font-medium">{record.day}</span>
+                        <span className="text-foreground font-medium">{formatEventDay(record.day)}</span>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Meal: </span>
@@ -417,6 +472,9 @@ export default function CateringPage() {
                   <div className={selectedDay === "" || selectedMealType === "" ? "" : "col-span-2"}>
                     <span className="text-muted-foreground">Served: </span>
                     <span className="text-foreground font-medium text-[10px]">{new Date(record.servedAt).toLocaleString()}</span>
+                    {record.overrideBy && (
+                      <span className="block text-[10px] text-amber-700">Outside meal time, approved by {record.overrideByName || record.overrideBy}</span>
+                    )}
                   </div>
                 </div>
               </div>
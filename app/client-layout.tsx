@@ -8,6 +8,8 @@ import Navigation from "@/components/navigation"
 import Header from "@/components/header"
 import { isAuthenticated } from "@/lib/auth"
 import { Toaster } from "@/components/ui/sonner"
+import { startScanQueueSync, subscribeToSnapshotFailures } from "@/lib/offline-queue"
+import { toast } from "sonner"
 
 export default function ClientLayout({
   children,
@@ -25,6 +27,39 @@ export default function ClientLayout({
     setIsLoading(false)
   }, [pathname]) // Re-check auth when pathname changes (e.g., after login)
 
+  // Replay offline scans in the background and report the outcome
+  useEffect(() => {
+    return startScanQueueSync((result) => {
+      if (result.synced > 0) {
+        toast.success("Offline scans synced", {
+          description: `${result.synced} scan(s) uploaded to the server.`,
+        })
+      }
+      if (result.conflicts.length > 0) {
+        toast.warning("Sync conflicts resolved", {
+          description: result.conflicts.map((c) => `${c.label || "Member"}: ${c.resolution}`).join("\n"),
+        })
+      }
+      if (result.failed.length > 0) {
+        toast.error("Some offline scans failed to sync", {
+          description: `${result.failed.length} scan(s) need attention. Open the sync panel in the navigation bar.`,
+        })
+      }
+    })
+  }, [])
+
+  // Scanners rely on the offline copy when the connection drops; say so when
+  // it cannot be kept instead of failing quietly later
+  useEffect(() => {
+    return subscribeToSnapshotFailures(() => {
+      toast.error("Could not save data for offline use", {
+        id: "offline-snapshot",
+        description:
+          "Scanning works while online, but members and records will not be available if the connection drops. Free up browser storage and reload.",
+      })
+    })
+  }, [])
+
   const isLoginPage = pathname === "/login"
   const shouldShowLayout = isAuth && !isLoginPage
 
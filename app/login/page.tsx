@@ -2,13 +2,19 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { loginUser, getRedirectPathForRole } from "@/lib/auth"
+import { loginUser, getRedirectPathForRole, clearLocalSession } from "@/lib/auth"
+
+// Set by middleware.ts when it ends a session
+const SESSION_END_MESSAGES: Record<string, string> = {
+  expired: "Your session has expired. Please log in again.",
+  revoked: "Your account was changed or removed by an administrator. Please log in again.",
+}
 
 export default function LoginPage() {
   const router = useRouter()
@@ -17,6 +23,15 @@ export default function LoginPage() {
   const [error, setError] = useState("")
   const [loading, setLoading] = useState(false)
 
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get("reason")
+    if (reason && SESSION_END_MESSAGES[reason]) {
+      // The server-side session is gone; drop the stale UI copy too
+      clearLocalSession()
+      setError(SESSION_END_MESSAGES[reason])
+    }
+  }, [])
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
     setError("")
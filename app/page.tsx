@@ -12,9 +12,27 @@ import {
   getSecurityMovements,
   getCateringRecords,
 } from "@/lib/storage"
-import { isAuthenticated, getUserRole } from "@/lib/auth"
-import type { AttendanceRecord, Region, Tanzeem, SecurityMovement, CateringRecord, DayOfWeek, MealType } from "@/lib/types"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+import type {
+  AttendanceRecord,
+  Region,
+  Tanzeem,
+  SecurityMovement,
+  CateringRecord,
+  EventDay,
+  MealType,
+  EventSettings,
+} from "@/lib/types"
 import Link from "next/link"
+import { getTanzeemCategories } from "@/lib/tanzeem-categories"
+import { countDietaryRequirements } from "@/lib/dietary"
+import {
+  formatCateringSession,
+  formatEventDay,
+  getDayMeals,
+  getDefaultCateringSession,
+  getEventDays,
+} from "@/lib/catering-sessions"
 
 export default function Dashboard() {
   const router = useRouter()
@@ -24,14 +42,11 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true)
   const [eventId, setEventId] = useState("")
   const [hasEvents, setHasEvents] = useState(true)
-  const [userRole, setUserRole] = useState<string | null>(null)
+  const [events, setEvents] = useState<EventSettings[]>([]) // Only the events this user is assigned to
   const [securityMovements, setSecurityMovements] = useState<SecurityMovement[]>([])
   const [cateringRecords, setCateringRecords] = useState<CateringRecord[]>([])
-  const [selectedDay, setSelectedDay] = useState<DayOfWeek | "">("Friday")
-  const [selectedMealType, setSelectedMealType] = useState<MealType | "">("Breakfast")
-  
-  const DAYS: DayOfWeek[] = ["Friday", "Saturday", "Sunday", "Monday", "Tuesday", "Wednesday", "Thursday"]
-  const MEAL_TYPES: MealType[] = ["Breakfast", "Lunch", "Dinner"]
+  const [selectedDay, setSelectedDay] = useState<EventDay | "">("")
+  const [selectedMealType, setSelectedMealType] = useState<MealType | "">("")
 
   useEffect(() => {
     if (!isAuthenticated()) {
@@ -39,14 +54,11 @@ export default function Dashboard() {
       return
     }
 
-    // Get user role
-    const role = getUserRole()
-    setUserRole(role)
-
     const loadData = async () => {
       try {
         // First, check if there are any events
         const events = await getEventsList()
+        setEvents(events)
         setHasEvents(events.length > 0)
 
         if (events.length === 0) {
@@ -69,8 +81,7 @@ export default function Dashboard() {
           return
         }
 
-        // Load data based on user role
-        const role = getUserRole()
+        // Load data for the sections the user's permissions show
         const [attendanceData, regionsData, settingsData] = await Promise.all([
           getAttendanceRecords(),
           getRegions(),
@@ -81,18 +92,24 @@ export default function Dashboard() {
         setRegions(regionsData)
         setSettings(settingsData)
 
-        // Load security data for Security Check role
-        if (role === "Security Check" || role === "Admin") {
+        if (hasPermission("security.view")) {
           const securityData = await getSecurityMovements()
           setSecurityMovements(securityData)
         }
 
-        // Load catering data for Catering Service role (will be reloaded when filters change)
-        if (role === "Catering Service" || role === "Admin") {
-          const day = selectedDay === "" ? undefined : (selectedDay as DayOfWeek)
-          const meal = selectedMealType === "" ? undefined : (selectedMealType as MealType)
-          const cateringData = await getCateringRecords(day, meal)
-          setCateringRecords(cateringData)
+        // Catering data is reloaded when the day/meal filters change; until one
+        // is picked, today's first session of the event is shown
+        if (hasPermission("catering.view")) {
+          const session = selectedDay && selectedMealType
+            ? { day: selectedDay, mealType: selectedMealType }
+            : getDefaultCateringSession(settingsData)
+          if (session) {
+            setSelectedDay(session.day)
+            setSelectedMealType(session.mealType)
+            setCateringRecords(await getCateringRecords(session.day, session.mealType))
+          } else {
+            setCateringRecords([])
+          }
         }
       } catch (error) {
         console.error("Error loading dashboard data:", error)
@@ -102,9 +119,17 @@ export default function Dashboard() {
     }
 
     loadData()
-  }, [router, selectedDay, selectedMealType])
+  }, [router, eventId, selectedDay, selectedMealType])
+
+  const handleEventChange = (newEventId: string) => {
+    setCurrentEventId(newEventId)
+    setLoading(true)
+    setSelectedDay("")
+    setSelectedMealType("")
+    setEventId(newEventId)
+  }
 
-  const categories: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
+  const categories = getTanzeemCategories(settings || undefined)
 
   // Helper functions for Attendance Registrar
   const getCategoryCount = (category: Tanzeem) => {
@@ -181,10 +206,16 @@ export default function Dashboard() {
       <main className="min-h-screen bg-background">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 text-center">
           <h1 className="text-3xl font-bold text-primary mb-4">No Events Available</h1>
-          <p className="text-muted-foreground mb-6">Please create an event in Settings to get started.</p>
-          <Link href="/settings" className="text-primary hover:underline">
-            Go to Settings
-          </Link>
+          {hasPermission("events.manage") ? (
+            <>
+              <p className="text-muted-foreground mb-6">Please create an event in Settings to get started.</p>
+              <Link href="/settings" className="text-primary hover:underline">
+                Go to Settings
+              </Link>
+            </>
+          ) : (
+            <p className="text-muted-foreground mb-6">You are not assigned to any event yet. Please ask an administrator.</p>
+          )}
         </div>
       </main>
     )
@@ -204,233 +235,201 @@ export default function Dashboard() {
     )
   }
 
-  // Render role-based dashboard
-  const renderDashboard = () => {
-    if (userRole === "Attendance Register") {
-      return (
-        <>
-          <div className="mb-6 sm:mb-8 text-center px-2">
-            <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-primary mb-2">{settings?.eventName || "Jalsa Salana"}</h1>
-            <p className="text-muted-foreground text-sm sm:text-base lg:text-lg">{settings?.theme}</p>
-          </div>
-
-          {/* Quick Stats */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 sm:gap-4 mb-6 sm:mb-8">
-            <div className="bg-card border border-border rounded-lg p-4 sm:p-6 text-center">
-              <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-2">Total Present</p>
-              <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-primary">{attendanceRecords.length}</p>
-            </div>
-            <div className="bg-card border border-border rounded-lg p-4 sm:p-6 text-center">
-              <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-2">Total Regions</p>
-              <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-secondary">{activeRegions.length}</p>
-            </div>
-            <div className="bg-card border border-border rounded-lg p-4 sm:p-6 text-center">
-              <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-2">Total Jamaat</p>
-              <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-accent">{allMajlis.size}</p>
-            </div>
-          </div>
+  // Dashboard sections are composed from the user's permissions
+  const renderAttendanceSection = () => (
+    <>
+      {/* Quick Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 sm:gap-4 mb-6 sm:mb-8">
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 text-center">
+          <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-2">Total Present</p>
+          <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-primary">{attendanceRecords.length}</p>
+        </div>
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 text-center">
+          <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-2">Total Regions</p>
+          <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-secondary">{activeRegions.length}</p>
+        </div>
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 text-center">
+          <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-2">Total Jamaat</p>
+          <p className="text-2xl sm:text-3xl lg:text-4xl font-bold text-accent">{allMajlis.size}</p>
+        </div>
+      </div>
 
-          {/* Tanzeem Breakdown */}
-          <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6 sm:mb-8">
-            <h2 className="text-lg sm:text-xl font-bold text-foreground mb-4 text-center">Attendance by Tanzeem</h2>
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-7 gap-2 sm:gap-3 lg:gap-4">
-              {categories.map((category) => (
-                <div key={category} className="bg-muted rounded-lg p-3 sm:p-4 text-center">
-                  <p className="text-xs sm:text-sm font-medium text-muted-foreground mb-1 sm:mb-2">{category}</p>
-                  <p className="text-xl sm:text-2xl font-bold text-primary">{getCategoryCount(category)}</p>
-                </div>
-              ))}
+      {/* Tanzeem Breakdown */}
+      <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6 sm:mb-8">
+        <h2 className="text-lg sm:text-xl font-bold text-foreground mb-4 text-center">Attendance by Tanzeem</h2>
+        <div className="grid grid-cols-[repeat(auto-fit,minmax(7rem,1fr))] gap-2 sm:gap-3 lg:gap-4">
+          {categories.map((category) => (
+            <div
+              key={category.name}
+              className="bg-muted rounded-lg p-3 sm:p-4 text-center border-t-4"
+              style={{ borderTopColor: category.color }}
+            >
+              <p className="text-xs sm:text-sm font-medium text-muted-foreground mb-1 sm:mb-2">{category.name}</p>
+              <p className="text-xl sm:text-2xl font-bold text-primary">{getCategoryCount(category.name)}</p>
             </div>
-          </div>
-        </>
-      )
-    }
-
-    if (userRole === "Security Check") {
-      const totalAttendees = attendanceRecords.length
-      const currentlyIn = getCurrentlyIn()
-      const currentlyOut = getCurrentlyOut()
+          ))}
+        </div>
+      </div>
+    </>
+  )
 
-      return (
-        <>
-          <div className="mb-8 text-center">
-            <h1 className="text-4xl font-bold text-primary mb-2">{settings?.eventName || "Jalsa Salana"}</h1>
-            <p className="text-muted-foreground text-lg">{settings?.theme}</p>
-          </div>
+  const renderSecuritySection = () => (
+    <>
+      {/* Security Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <div className="bg-card border border-border rounded-lg p-6 text-center">
+          <p className="text-muted-foreground text-sm font-medium mb-2">Total Attendees</p>
+          <p className="text-4xl font-bold text-primary">{attendanceRecords.length}</p>
+        </div>
+        <div className="bg-card border border-border rounded-lg p-6 text-center">
+          <p className="text-muted-foreground text-sm font-medium mb-2">Currently In</p>
+          <p className="text-4xl font-bold text-green-600">{getCurrentlyIn()}</p>
+        </div>
+        <div className="bg-card border border-border rounded-lg p-6 text-center">
+          <p className="text-muted-foreground text-sm font-medium mb-2">Currently Out</p>
+          <p className="text-4xl font-bold text-red-600">{getCurrentlyOut()}</p>
+        </div>
+      </div>
+    </>
+  )
 
-          {/* Security Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-            <div className="bg-card border border-border rounded-lg p-6 text-center">
-              <p className="text-muted-foreground text-sm font-medium mb-2">Total Attendees</p>
-              <p className="text-4xl font-bold text-primary">{totalAttendees}</p>
-            </div>
-            <div className="bg-card border border-border rounded-lg p-6 text-center">
-              <p className="text-muted-foreground text-sm font-medium mb-2">Currently In</p>
-              <p className="text-4xl font-bold text-green-600">{currentlyIn}</p>
-            </div>
-            <div className="bg-card border border-border rounded-lg p-6 text-center">
-              <p className="text-muted-foreground text-sm font-medium mb-2">Currently Out</p>
-              <p className="text-4xl font-bold text-red-600">{currentlyOut}</p>
-            </div>
+  const renderCateringSection = () => (
+    <>
+      {/* Filter Controls */}
+      <div className="bg-card border border-border rounded-lg p-6 mb-8">
+        <h2 className="text-xl font-bold text-foreground mb-4 text-center">Filter by Day and Meal</h2>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2 text-center">Day</label>
+            <select
+              value={selectedDay}
+              onChange={(e) => {
+                const day = e.target.value as EventDay
+                const meals = getDayMeals(day, settings || undefined)
+                setSelectedDay(day)
+                if (!meals.includes(selectedMealType)) setSelectedMealType(meals[0] || "")
+              }}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+            >
+              {getEventDays(settings || undefined).map((day) => (
+                <option key={day} value={day}>
+                  {formatEventDay(day)}
+                </option>
+              ))}
+            </select>
           </div>
-        </>
-      )
-    }
-
-    if (userRole === "Catering Service") {
-      const totalAttendance = attendanceRecords.length
-      const served = getTotalServed()
-      const notServed = getNotServed()
-
-      return (
-        <>
-          <div className="mb-8 text-center">
-            <h1 className="text-4xl font-bold text-primary mb-2">{settings?.eventName || "Jalsa Salana"}</h1>
-            <p className="text-muted-foreground text-lg">{settings?.theme}</p>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-2 text-center">Meal Type</label>
+            <select
+              value={selectedMealType}
+              onChange={(e) => setSelectedMealType(e.target.value as MealType | "")}
+              className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+            >
+              {getDayMeals(selectedDay, settings || undefined).map((meal) => (
+                <option key={meal} value={meal}>
+                  {meal}
+                </option>
+              ))}
+            </select>
           </div>
+        </div>
+      </div>
 
-          {/* Filter Controls */}
-          <div className="bg-card border border-border rounded-lg p-6 mb-8">
-            <h2 className="text-xl font-bold text-foreground mb-4 text-center">Filter by Day and Meal</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2 text-center">Day</label>
-                <select
-                  value={selectedDay}
-                  onChange={(e) => setSelectedDay(e.target.value as DayOfWeek | "")}
-                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
-                >
-                  {DAYS.map((day) => (
-                    <option key={day} value={day}>
-                      {day}
-                    </option>
-                  ))}
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-foreground mb-2 text-center">Meal Type</label>
-                <select
-                  value={selectedMealType}
-                  onChange={(e) => setSelectedMealType(e.target.value as MealType | "")}
-                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
-                >
-                  {MEAL_TYPES.map((meal) => (
-                    <option key={meal} value={meal}>
-                      {meal}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </div>
-          </div>
+      {/* Catering Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+        <div className="bg-card border border-border rounded-lg p-6 text-center">
+          <p className="text-muted-foreground text-sm font-medium mb-2">Total Attendance</p>
+          <p className="text-4xl font-bold text-primary">{attendanceRecords.length}</p>
+        </div>
+        <div className="bg-card border border-border rounded-lg p-6 text-center">
+          <p className="text-muted-foreground text-sm font-medium mb-2">
+            Served ({formatCateringSession({ day: selectedDay, mealType: selectedMealType })})
+          </p>
+          <p className="text-4xl font-bold text-green-600">{getTotalServed()}</p>
+        </div>
+        <div className="bg-card border border-border rounded-lg p-6 text-center">
+          <p className="text-muted-foreground text-sm font-medium mb-2">
+            Not Served ({formatCateringSession({ day: selectedDay, mealType: selectedMealType })})
+          </p>
+          <p className="text-4xl font-bold text-orange-600">{getNotServed()}</p>
+        </div>
+      </div>
 
-          {/* Catering Stats */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-            <div className="bg-card border border-border rounded-lg p-6 text-center">
-              <p className="text-muted-foreground text-sm font-medium mb-2">Total Attendance</p>
-              <p className="text-4xl font-bold text-primary">{totalAttendance}</p>
+      {/* Special Diets */}
+      <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-8">
+        <h2 className="text-lg sm:text-xl font-bold text-foreground mb-4 text-center">
+          Special Diets ({formatCateringSession({ day: selectedDay, mealType: selectedMealType })})
+        </h2>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-3 lg:gap-4">
+          {countDietaryRequirements(
+            attendanceRecords,
+            new Set(cateringRecords.map((record) => record.attendanceRecordId)),
+          ).map((count) => (
+            <div key={count.requirement} className="bg-muted rounded-lg p-3 sm:p-4 text-center">
+              <p className="text-xs sm:text-sm font-medium text-muted-foreground mb-1 sm:mb-2">{count.requirement}</p>
+              <p className="text-xl sm:text-2xl font-bold text-primary">{count.present}</p>
+              <p className="text-xs text-muted-foreground">{count.served} served</p>
             </div>
-            <div className="bg-card border border-border rounded-lg p-6 text-center">
-              <p className="text-muted-foreground text-sm font-medium mb-2">
-                Served ({selectedDay} - {selectedMealType})
-              </p>
-              <p className="text-4xl font-bold text-green-600">{served}</p>
-            </div>
-            <div className="bg-card border border-border rounded-lg p-6 text-center">
-              <p className="text-muted-foreground text-sm font-medium mb-2">
-                Not Served ({selectedDay} - {selectedMealType})
-              </p>
-              <p className="text-4xl font-bold text-orange-600">{notServed}</p>
-            </div>
-          </div>
-        </>
-      )
-    }
-
-    // Admin or default dashboard
-    return (
-      <>
-        <div className="mb-8 text-center">
-          <h1 className="text-4xl font-bold text-primary mb-2">{settings?.eventName || "Jalsa Salana"}</h1>
-          <p className="text-muted-foreground text-lg">{settings?.theme}</p>
+          ))}
         </div>
+      </div>
+    </>
+  )
 
-        {/* Quick Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
-          <div className="bg-card border border-border rounded-lg p-6 text-center">
-            <p className="text-muted-foreground text-sm font-medium mb-2">Total Present</p>
-            <p className="text-4xl font-bold text-primary">{attendanceRecords.length}</p>
-          </div>
-          <div className="bg-card border border-border rounded-lg p-6 text-center">
-            <p className="text-muted-foreground text-sm font-medium mb-2">Total Regions</p>
-            <p className="text-4xl font-bold text-secondary">{activeRegions.length}</p>
-          </div>
-          <div className="bg-card border border-border rounded-lg p-6 text-center">
-            <p className="text-muted-foreground text-sm font-medium mb-2">Total Jamaat</p>
-            <p className="text-4xl font-bold text-accent">{allMajlis.size}</p>
-          </div>
-        </div>
+  const quickActions = [
+    { href: "/attendance/add", title: "Mark Attendance", description: "Add members from Tajneed", permission: "attendance.add", className: "bg-primary text-primary-foreground" },
+    { href: "/regions", title: "Add Region/Jamaat", description: "Manage locations", permission: "regions.manage", className: "bg-secondary text-secondary-foreground" },
+    { href: "/tajneed/register", title: "Add Tajneed Member", description: "Grow the base list", permission: "tajneed.edit", className: "bg-accent text-accent-foreground" },
+    { href: "/settings", title: "Settings", description: "Configure event", permission: "events.manage", className: "bg-muted text-foreground border border-border" },
+  ] as const
 
-        {/* Tanzeem Breakdown */}
-        <div className="bg-card border border-border rounded-lg p-6 mb-8">
-          <h2 className="text-xl font-bold text-foreground mb-4 text-center">Attendance by Tanzeem</h2>
-          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
-            {categories.map((category) => (
-              <div key={category} className="bg-muted rounded-lg p-4 text-center">
-                <p className="text-sm font-medium text-muted-foreground mb-2">{category}</p>
-                <p className="text-2xl font-bold text-primary">{getCategoryCount(category)}</p>
-              </div>
-            ))}
-          </div>
-        </div>
+  const renderQuickActions = () => {
+    const actions = quickActions.filter((action) => hasPermission(action.permission))
+    if (actions.length === 0) return null
 
-        {/* Quick Actions */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
-          <Link
-            href="/attendance/add"
-            className="bg-primary text-primary-foreground rounded-lg p-4 sm:p-6 hover:opacity-90 transition-opacity flex flex-col items-center justify-center text-center"
-          >
-            <div>
-              <p className="font-bold text-sm sm:text-base">Mark Attendance</p>
-              <p className="text-xs sm:text-sm opacity-90 mt-1">Add members from Tajneed</p>
-            </div>
-          </Link>
-          <Link
-            href="/regions"
-            className="bg-secondary text-secondary-foreground rounded-lg p-4 sm:p-6 hover:opacity-90 transition-opacity flex flex-col items-center justify-center text-center"
-          >
-            <div>
-              <p className="font-bold text-sm sm:text-base">Add Region/Jamaat</p>
-              <p className="text-xs sm:text-sm opacity-90 mt-1">Manage locations</p>
-            </div>
-          </Link>
-          <Link
-            href="/tajneed/register"
-            className="bg-accent text-accent-foreground rounded-lg p-4 sm:p-6 hover:opacity-90 transition-opacity flex flex-col items-center justify-center text-center"
-          >
-            <div>
-              <p className="font-bold text-sm sm:text-base">Add Tajneed Member</p>
-              <p className="text-xs sm:text-sm opacity-90 mt-1">Grow the base list</p>
-            </div>
-          </Link>
+    return (
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4">
+        {actions.map((action) => (
           <Link
-            href="/settings"
-            className="bg-muted text-foreground border border-border rounded-lg p-4 sm:p-6 hover:opacity-90 transition-opacity flex flex-col items-center justify-center text-center"
+            key={action.href}
+            href={action.href}
+            className={`${action.className} rounded-lg p-4 sm:p-6 hover:opacity-90 transition-opacity flex flex-col items-center justify-center text-center`}
           >
             <div>
-              <p className="font-bold text-sm sm:text-base">Settings</p>
-              <p className="text-xs sm:text-sm opacity-90 mt-1">Configure event</p>
+              <p className="font-bold text-sm sm:text-base">{action.title}</p>
+              <p className="text-xs sm:text-sm opacity-90 mt-1">{action.description}</p>
             </div>
           </Link>
-        </div>
-      </>
+        ))}
+      </div>
     )
   }
 
   return (
     <main className="min-h-screen bg-background">
       <div className="max-w-7xl mx-auto px-3 sm:px-4 lg:px-6 xl:px-8 py-4 sm:py-6 lg:py-8">
-        {renderDashboard()}
+        <div className="mb-6 sm:mb-8 text-center px-2">
+          <h1 className="text-2xl sm:text-3xl lg:text-4xl font-bold text-primary mb-2">{settings?.eventName || "Jalsa Salana"}</h1>
+          <p className="text-muted-foreground text-sm sm:text-base lg:text-lg">{settings?.theme}</p>
+          {events.length > 1 && (
+            <select
+              value={eventId}
+              onChange={(e) => handleEventChange(e.target.value)}
+              className="mt-4 px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              aria-label="Event"
+            >
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.eventName}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {hasPermission("attendance.view") && renderAttendanceSection()}
+        {hasPermission("security.view") && renderSecuritySection()}
+        {hasPermission("catering.view") && renderCateringSection()}
+        {renderQuickActions()}
       </div>
     </main>
   )
@@ -6,7 +6,7 @@ import { getRegions, updateRegion, deleteRegion, addJamaat, deleteJamaat } from
 import type { Region } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { isAuthenticated, isAdmin } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { Trash2, Plus, Edit2, X } from "lucide-react"
 
 export default function RegionsPage() {
@@ -22,7 +22,7 @@ export default function RegionsPage() {
       return
     }
 
-    if (!isAdmin()) {
+    if (!hasPermission("regions.manage")) {
       router.push("/")
       return
     }
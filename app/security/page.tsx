@@ -1,19 +1,26 @@
 "use client"
 
 import { useState, useEffect, useMemo } from "react"
-import { getAttendanceRecords, findMemberByQRCodeId, findAttendanceRecordByQRCodeId, getRegions, getSettings } from "@/lib/storage"
-import { getSecurityStatusForAttendance, toggleSecurityMovement } from "@/lib/storage"
-import type { AttendanceRecord, MovementStatus, Region, Tanzeem } from "@/lib/types"
+import { getAttendanceRecords, findMemberByQRCodeId, findAttendanceRecordByQRCodeId, verifyScannedCard, prepareOfflineScanning, getRegions, getSettings } from "@/lib/storage"
+import { memberCodeMatches } from "@/lib/member-codes"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import { getHouseholdIdFromCardId } from "@/lib/households"
+import { CARD_REJECTION_TITLES } from "@/lib/qr-payload"
+import { getSecurityStatusForAttendance, toggleSecurityMovement, getAssignedGates } from "@/lib/storage"
+import type { AttendanceRecord, MovementStatus, Region, ScanSource, Tanzeem } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { isAuthenticated, hasAnyRole, isAdmin } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { useRouter } from "next/navigation"
 import { QRScanner } from "@/components/qr-scanner"
+import { useTypedMemberConfirmation } from "@/components/typed-member-confirm-dialog"
 import { toast } from "sonner"
 import { exportSecurityToPDF, exportSecurityToExcel } from "@/lib/export"
+import { getAge } from "@/lib/member-profile"
 
 export default function SecurityPage() {
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([])
+  const [confirmTypedMember, typedMemberDialog] = useTypedMemberConfirmation()
   const [regions, setRegions] = useState<Region[]>([])
   const [searchTerm, setSearchTerm] = useState("")
   const [filterTanzeem, setFilterTanzeem] = useState<Tanzeem | "">("")
@@ -25,9 +32,11 @@ export default function SecurityPage() {
   const [eventSettings, setEventSettings] = useState<any | undefined>(undefined)
   const [updating, setUpdating] = useState<Record<string, boolean>>({})
   const [showScanner, setShowScanner] = useState(false)
+  const [assignedGates, setAssignedGates] = useState<string[] | null>(null)
+  const [selectedGate, setSelectedGate] = useState("")
+  const [scannedRecord, setScannedRecord] = useState<AttendanceRecord | null>(null)
   const router = useRouter()
 
-  const TANZEEMS: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
 
   const loadData = async () => {
     try {
@@ -56,11 +65,16 @@ export default function SecurityPage() {
       return
     }
 
-    if (!hasAnyRole(["Admin", "Security Check"])) {
+    if (!hasPermission("security.view")) {
       router.push("/")
       return
     }
 
+    // Users assigned to specific gates record every movement at one of them
+    const gates = getAssignedGates()
+    setAssignedGates(gates)
+    setSelectedGate(gates?.[0] || "")
+
     // load regions once
     const init = async () => {
       try {
@@ -73,6 +87,8 @@ export default function SecurityPage() {
 
     init()
     loadData()
+    // Cache what scanning needs in case the connection drops
+    if (hasPermission("security.toggle")) prepareOfflineScanning()
 
     // Refresh data when page becomes visible (user switches back to tab)
     const handleVisibilityChange = () => {
@@ -116,7 +132,7 @@ export default function SecurityPage() {
       const member = record.member
       if (!member) return false
 
-      const matchesSearch = member.fullName.toLowerCase().includes(term)
+      const matchesSearch = member.fullName.toLowerCase().includes(term) || memberCodeMatches(member, term)
       const matchesTanzeem = !filterTanzeem || member.tanzeem === filterTanzeem
       const matchesRegion = !filterRegion || member.region === filterRegion
       const matchesJamaat = !filterJamaat || member.jamaat === filterJamaat
@@ -132,7 +148,7 @@ export default function SecurityPage() {
     setUpdating((prev) => ({ ...prev, [recordId]: true }))
 
     try {
-      const success = await toggleSecurityMovement(recordId, newStatus)
+      const success = await toggleSecurityMovement(recordId, newStatus, selectedGate || undefined)
       if (success) {
         setStatusMap((prev) => ({ ...prev, [recordId]: newStatus }))
         const record = attendanceRecords.find((r) => r.id === recordId)
@@ -154,18 +170,38 @@ export default function SecurityPage() {
     }
   }
 
-  const handleQRScan = async (scannedText: string) => {
+  const handleQRScan = async (scannedText: string, source: ScanSource) => {
     try {
+      // Reject forged cards and cards issued for other events before any lookup
+      const card = await verifyScannedCard(scannedText, source)
+      if (!card.ok) {
+        toast.error(CARD_REJECTION_TITLES[card.reason], { description: card.message })
+        setShowScanner(false)
+        return
+      }
+      if (card.typedMember) {
+        setShowScanner(false)
+        if (!(await confirmTypedMember(card.typedMember))) return
+      }
+      const cardId = card.cardId
+      if (getHouseholdIdFromCardId(cardId)) {
+        toast.error("Family card", {
+          description: "Family cards are only for check-in. Please scan each member's own card at the gate.",
+        })
+        setShowScanner(false)
+        return
+      }
+
       // Refresh attendance records first to ensure we have the latest data
       const latestRecords = await getAttendanceRecords()
       setAttendanceRecords(latestRecords)
       
       // Find attendance record by QR code ID (this handles both direct ID and QR code mapping)
-      const record = await findAttendanceRecordByQRCodeId(scannedText)
+      const record = await findAttendanceRecordByQRCodeId(cardId)
 
       if (!record) {
         // Check if member exists but not in attendance
-        const member = await findMemberByQRCodeId(scannedText)
+        const member = await findMemberByQRCodeId(cardId)
         if (member) {
           toast.error("Member not found in attendance", {
             description: `${member.fullName} is not in the attendance list. Please add them to attendance first.`,
@@ -179,9 +215,10 @@ export default function SecurityPage() {
         return
       }
 
-      // Toggle the status
+      // Toggle the status and show who the card belongs to, so the guard can check the holder
       await handleToggleStatus(record.id)
       setShowScanner(false)
+      setScannedRecord(record)
     } catch (error) {
       console.error("Error processing QR scan:", error)
       toast.error("Error processing scan", {
@@ -206,49 +243,71 @@ export default function SecurityPage() {
         <div className="mb-6 sm:mb-8 text-center px-2">
           <h1 className="text-2xl sm:text-3xl font-bold text-primary">Security - Movement Tracking</h1>
           <p className="text-muted-foreground mt-2 text-sm sm:text-base">Track attendees entering and leaving the venue</p>
+          {assignedGates && (
+            <div className="flex items-center justify-center gap-2 mt-4">
+              <label className="text-xs sm:text-sm font-medium text-foreground">Gate</label>
+              <select
+                value={selectedGate}
+                onChange={(e) => setSelectedGate(e.target.value)}
+                className="px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                {assignedGates.map((gate) => (
+                  <option key={gate} value={gate}>
+                    {gate}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="flex flex-col sm:flex-row gap-2 justify-center mt-4">
-            <Button
-              onClick={() => setShowScanner(true)}
-              className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto"
-            >
-              📷 Scan QR Code
-            </Button>
-            <Button
-              onClick={() => {
-                try {
-                  const parts: string[] = []
-                  if (filterTanzeem) parts.push(filterTanzeem)
-                  if (filterRegion) parts.push(filterRegion)
-                  if (filterJamaat) parts.push(filterJamaat)
-                  const recordLabel = parts.length ? `Security Records (${parts.join(' - ')})` : 'All Security Records'
-                  exportSecurityToPDF(filteredRecords, statusMap, eventTitle, eventSettings, recordLabel)
-                  toast.success("PDF exported successfully")
-                } catch (error) {
-                  toast.error("Failed to export PDF")
-                }
-              }}
-              className="bg-destructive hover:bg-destructive/90 text-white w-full sm:w-auto"
-            >
-              Download PDF
-            </Button>
-            <Button
-              onClick={() => {
-                try {
-                  const parts: string[] = []
-                  if (filterTanzeem) parts.push(filterTanzeem)
-                  if (filterRegion) parts.push(filterRegion)
-                  if (filterJamaat) parts.push(filterJamaat)
-                  const recordLabel = parts.length ? `Security Records (${parts.join(' - ')})` : 'All Security Records'
-                  exportSecurityToExcel(filteredRecords, statusMap, `security-records-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
-                  toast.success("Excel file exported successfully")
-                } catch (error) {
-                  toast.error("Failed to export Excel file")
-                }
-              }}
-              className="bg-green-700 hover:bg-green-800 text-white w-full sm:w-auto"
-            >
-              Download Excel
-            </Button>
+            {hasPermission("security.toggle") && (
+              <Button
+                onClick={() => setShowScanner(true)}
+                className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto"
+              >
+                📷 Scan QR Code
+              </Button>
+            )}
+            {hasPermission("security.reports") && (
+              <Button
+                onClick={() => {
+                  try {
+                    const parts: string[] = []
+                    if (filterTanzeem) parts.push(filterTanzeem)
+                    if (filterRegion) parts.push(filterRegion)
+                    if (filterJamaat) parts.push(filterJamaat)
+                    const recordLabel = parts.length ? `Security Records (${parts.join(' - ')})` : 'All Security Records'
+                    exportSecurityToPDF(filteredRecords, statusMap, eventTitle, eventSettings, recordLabel)
+                    toast.success("PDF exported successfully")
+                  } catch (error) {
+                    toast.error("Failed to export PDF")
+                  }
+                }}
+                className="bg-destructive hover:bg-destructive/90 text-white w-full sm:w-auto"
+              >
+                Download PDF
+              </Button>
+            )}
+            {hasPermission("security.reports") && (
+              <Button
+                onClick={() => {
+                  try {
+                    const parts: string[] = []
+                    if (filterTanzeem) parts.push(filterTanzeem)
+                    if (filterRegion) parts.push(filterRegion)
+                    if (filterJamaat) parts.push(filterJamaat)
+                    const recordLabel = parts.length ? `Security Records (${parts.join(' - ')})` : 'All Security Records'
+                    exportSecurityToExcel(filteredRecords, statusMap, `security-records-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
+                    toast.success("Excel file exported successfully")
+                  } catch (error) {
+                    toast.error("Failed to export Excel file")
+                  }
+                }}
+                className="bg-green-700 hover:bg-green-800 text-white w-full sm:w-auto"
+              >
+                Download Excel
+              </Button>
+            )}
           </div>
         </div>
 
@@ -259,7 +318,7 @@ export default function SecurityPage() {
               <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Search</label>
               <Input
                 type="text"
-                placeholder="Member name"
+                placeholder="Member name or code"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full text-sm"
@@ -274,7 +333,7 @@ export default function SecurityPage() {
                 className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
               >
                 <option value="">All Tanzeems</option>
-                {TANZEEMS.map((t) => (
+                {getTanzeemNames(eventSettings).map((t) => (
                   <option key={t} value={t}>
                     {t}
                   </option>
@@ -367,14 +426,16 @@ export default function SecurityPage() {
                           </span>
                         </td>
                         <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm">
-                          <Button
-                            onClick={() => handleToggleStatus(record.id)}
-                            disabled={isUpdating}
-                            variant={status === "In" ? "destructive" : "default"}
-                            className="min-w-[80px] text-xs"
-                          >
-                            {isUpdating ? "Updating..." : status === "In" ? "Mark Out" : "Mark In"}
-                          </Button>
+                          {hasPermission("security.toggle") && (
+                            <Button
+                              onClick={() => handleToggleStatus(record.id)}
+                              disabled={isUpdating}
+                              variant={status === "In" ? "destructive" : "default"}
+                              className="min-w-[80px] text-xs"
+                            >
+                              {isUpdating ? "Updating..." : status === "In" ? "Mark Out" : "Mark In"}
+                            </Button>
+                          )}
                         </td>
                       </tr>
                     )
@@ -431,14 +492,16 @@ export default function SecurityPage() {
                     </div>
                   </div>
                   <div className="pt-2">
-                    <Button
-                      onClick={() => handleToggleStatus(record.id)}
-                      disabled={isUpdating}
-                      variant={status === "In" ? "destructive" : "default"}
-                      className="w-full text-xs"
-                    >
-                      {isUpdating ? "Updating..." : status === "In" ? "Mark Out" : "Mark In"}
-                    </Button>
+                    {hasPermission("security.toggle") && (
+                      <Button
+                        onClick={() => handleToggleStatus(record.id)}
+                        disabled={isUpdating}
+                        variant={status === "In" ? "destructive" : "default"}
+                        className="w-full text-xs"
+                      >
+                        {isUpdating ? "Updating..." : status === "In" ? "Mark Out" : "Mark In"}
+                      </Button>
+                    )}
                   </div>
                 </div>
               )
@@ -446,8 +509,8 @@ export default function SecurityPage() {
           )}
         </div>
 
-        {/* Summary - Only show for Admin users */}
-        {isAdmin() && attendanceRecords.length > 0 && (
+        {/* Summary - Only show to users who can view reports */}
+        {hasPermission("security.reports") && attendanceRecords.length > 0 && (
           <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="bg-card border border-border rounded-lg p-4">
               <p className="text-sm text-muted-foreground">Total Attendees</p>
@@ -468,6 +531,53 @@ export default function SecurityPage() {
           </div>
         )}
 
+        {scannedRecord?.member && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+            <div className="bg-card rounded-lg p-6 sm:p-8 max-w-md w-full my-4 text-center">
+              <p
+                className={`inline-block px-3 py-1 rounded-full text-sm font-semibold mb-4 ${
+                  statusMap[scannedRecord.id] === "Out" ? "bg-red-100 text-red-700" : "bg-green-100 text-green-700"
+                }`}
+              >
+                Marked {statusMap[scannedRecord.id] || "In"}
+              </p>
+              {scannedRecord.member.photoUrl ? (
+                <img
+                  src={scannedRecord.member.photoUrl}
+                  alt={scannedRecord.member.fullName}
+                  className="w-32 h-40 object-cover rounded-lg border border-border mx-auto mb-4"
+                />
+              ) : (
+                <div className="w-32 h-40 rounded-lg border border-dashed border-border mx-auto mb-4 flex items-center justify-center text-sm text-muted-foreground">
+                  No photo on file
+                </div>
+              )}
+              <h2 className="text-2xl font-bold text-primary">{scannedRecord.member.fullName}</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                {scannedRecord.member.tanzeem} · {scannedRecord.member.region} · {scannedRecord.member.jamaat}
+              </p>
+              <div className="grid grid-cols-2 gap-3 mt-4 text-left">
+                {[
+                  { label: "Gender", value: scannedRecord.member.gender },
+                  { label: "Age", value: getAge(scannedRecord.member.dateOfBirth)?.toString() },
+                  { label: "ID / AIMS No.", value: scannedRecord.member.aimsNumber },
+                  { label: "Phone", value: scannedRecord.member.phone },
+                ].map((field) => (
+                  <div key={field.label} className="bg-muted rounded-lg p-2">
+                    <p className="text-xs text-muted-foreground">{field.label}</p>
+                    <p className="text-sm font-semibold text-foreground break-all">{field.value || "-"}</p>
+                  </div>
+                ))}
+              </div>
+              <Button onClick={() => setScannedRecord(null)} className="w-full mt-6 bg-primary text-primary-foreground">
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {typedMemberDialog}
+
         {showScanner && (
           <QRScanner
             title="Scan Member ID for Security Check"
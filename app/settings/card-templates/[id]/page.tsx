@@ -0,0 +1,522 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import QRCode from "qrcode"
+import { updateEvent, getEventsList } from "@/lib/storage"
+import {
+  CARD_ELEMENT_KINDS,
+  createCardElement,
+  createDefaultCardTemplate,
+  getCardElementLabel,
+  getCardElementType,
+  validateCardTemplate,
+  type CardData,
+} from "@/lib/card-templates"
+import { getTanzeemCode, getTanzeemNames } from "@/lib/tanzeem-categories"
+import { formatMemberCode } from "@/lib/member-codes"
+import type { CardElement, CardElementKind, EventSettings, IDCardTemplate } from "@/lib/types"
+import { IDCardPreview } from "@/components/id-card-preview"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+// Number typed into a position or size field; NaN while the field is cleared
+const toNumber = (value: string) => Number.parseFloat(value)
+
+export default function CardTemplatesPage() {
+  const params = useParams()
+  const router = useRouter()
+  const eventId = params.id as string
+
+  const [event, setEvent] = useState<EventSettings | null>(null)
+  const [templates, setTemplates] = useState<IDCardTemplate[]>([])
+  const [activeTemplateId, setActiveTemplateId] = useState("")
+  const [selectedTemplateId, setSelectedTemplateId] = useState("")
+  const [selectedElementId, setSelectedElementId] = useState<string | null>(null)
+  const [newElementKind, setNewElementKind] = useState<CardElementKind>("text")
+  const [previewTanzeem, setPreviewTanzeem] = useState("")
+  const [previewSurplus, setPreviewSurplus] = useState(false)
+  const [previewQrCode, setPreviewQrCode] = useState<string | undefined>(undefined)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const loadEvent = async () => {
+      try {
+        const events = await getEventsList()
+        const found = events.find((e) => e.id === eventId)
+        if (found) {
+          setEvent(found)
+          setTemplates(found.cardTemplates || [])
+          setActiveTemplateId(found.activeCardTemplateId || "")
+          setSelectedTemplateId(found.activeCardTemplateId || found.cardTemplates?.[0]?.id || "")
+          setPreviewTanzeem(getTanzeemNames(found)[0] || "")
+        }
+        setPreviewQrCode(await QRCode.toDataURL("ID card template preview", { margin: 1 }))
+      } catch (error) {
+        console.error("Error loading card templates:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadEvent()
+  }, [eventId])
+
+  const template = templates.find((t) => t.id === selectedTemplateId) || null
+  const selectedElement = template?.elements.find((element) => element.id === selectedElementId) || null
+
+  const updateTemplate = (changes: Partial<IDCardTemplate>) => {
+    setTemplates((prev) => prev.map((t) => (t.id === selectedTemplateId ? { ...t, ...changes } : t)))
+  }
+
+  const updateElement = (id: string, changes: Partial<CardElement>) => {
+    setTemplates((prev) =>
+      prev.map((t) =>
+        t.id === selectedTemplateId
+          ? { ...t, elements: t.elements.map((element) => (element.id === id ? { ...element, ...changes } : element)) }
+          : t,
+      ),
+    )
+  }
+
+  const handleAddTemplate = () => {
+    const created = createDefaultCardTemplate(`Template ${templates.length + 1}`, event || undefined)
+    setTemplates((prev) => [...prev, created])
+    setSelectedTemplateId(created.id)
+    setSelectedElementId(null)
+  }
+
+  const handleDuplicateTemplate = () => {
+    if (!template) return
+    const copy: IDCardTemplate = {
+      ...template,
+      id: crypto.randomUUID(),
+      name: `${template.name} (copy)`,
+      tanzeemBackgrounds: { ...template.tanzeemBackgrounds },
+      elements: template.elements.map((element) => ({ ...element, id: crypto.randomUUID() })),
+    }
+    setTemplates((prev) => [...prev, copy])
+    setSelectedTemplateId(copy.id)
+    setSelectedElementId(null)
+  }
+
+  const handleDeleteTemplate = () => {
+    if (!template || !confirm(`Delete the template "${template.name}"?`)) return
+    const remaining = templates.filter((t) => t.id !== template.id)
+    setTemplates(remaining)
+    if (activeTemplateId === template.id) setActiveTemplateId("")
+    setSelectedTemplateId(remaining[0]?.id || "")
+    setSelectedElementId(null)
+  }
+
+  const handleAddElement = () => {
+    if (!template) return
+    const element = createCardElement(newElementKind)
+    updateTemplate({ elements: [...template.elements, element] })
+    setSelectedElementId(element.id)
+  }
+
+  const handleRemoveElement = () => {
+    if (!template || !selectedElement) return
+    updateTemplate({ elements: template.elements.filter((element) => element.id !== selectedElement.id) })
+    setSelectedElementId(null)
+  }
+
+  // Later elements are drawn on top of earlier ones
+  const handleMoveElement = (direction: -1 | 1) => {
+    if (!template || !selectedElement) return
+    const index = template.elements.indexOf(selectedElement)
+    const target = index + direction
+    if (target < 0 || target >= template.elements.length) return
+    const elements = [...template.elements]
+    ;[elements[index], elements[target]] = [elements[target], elements[index]]
+    updateTemplate({ elements })
+  }
+
+  const handleTanzeemBackgroundChange = (tanzeem: string, color: string | null) => {
+    if (!template) return
+    const tanzeemBackgrounds = { ...template.tanzeemBackgrounds }
+    if (color) tanzeemBackgrounds[tanzeem] = color
+    else delete tanzeemBackgrounds[tanzeem]
+    updateTemplate({ tanzeemBackgrounds })
+  }
+
+  const handleSave = async () => {
+    if (!event) return
+    for (const t of templates) {
+      const error = validateCardTemplate(t)
+      if (error) {
+        setSelectedTemplateId(t.id)
+        alert(`${t.name || "Template"}: ${error}`)
+        return
+      }
+    }
+
+    setSaving(true)
+    try {
+      const saved = { ...event, cardTemplates: templates, activeCardTemplateId: activeTemplateId || undefined }
+      if (await updateEvent(saved)) {
+        setEvent(saved)
+        alert("Card templates saved")
+      } else {
+        alert("Failed to save card templates")
+      }
+    } catch (error) {
+      console.error("Error saving card templates:", error)
+      alert("Failed to save card templates")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) return <div className="p-8">Loading...</div>
+  if (!event) return <div className="p-8">Event not found</div>
+
+  const previewData: CardData = {
+    name: "Ahmad Abdullah",
+    tanzeem: previewTanzeem,
+    region: "Nairobi",
+    jamaat: "Central",
+    memberCode: formatMemberCode(getTanzeemCode(previewTanzeem, event), 42),
+    photo: "/placeholder-user.jpg",
+    qrCode: previewQrCode,
+    blank: previewSurplus,
+  }
+  const selectedType = selectedElement ? getCardElementType(selectedElement.kind) : null
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-primary">ID Card Templates</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              {event.eventName}: drag elements on the card to place them and pull the corner handle to size them.
+              Positions are in millimetres on a 75 x 110 mm card.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" onClick={() => router.push("/settings")} variant="outline">
+              Back
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving} className="bg-primary">
+              {saving ? "Saving..." : "Save Templates"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-4 mb-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="activeTemplate" className="text-foreground">
+                Print ID cards with
+              </Label>
+              <select
+                id="activeTemplate"
+                value={activeTemplateId}
+                onChange={(e) => setActiveTemplateId(e.target.value)}
+                className="mt-2 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">Built-in layout</option>
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name || "Untitled"}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="editTemplate" className="text-foreground">
+                Edit template
+              </Label>
+              <select
+                id="editTemplate"
+                value={selectedTemplateId}
+                onChange={(e) => {
+                  setSelectedTemplateId(e.target.value)
+                  setSelectedElementId(null)
+                }}
+                className="mt-2 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+                disabled={templates.length === 0}
+              >
+                {templates.length === 0 && <option value="">No templates yet</option>}
+                {templates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name || "Untitled"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" onClick={handleAddTemplate} variant="outline">
+              + New Template
+            </Button>
+            <Button type="button" onClick={handleDuplicateTemplate} variant="outline" disabled={!template}>
+              Duplicate
+            </Button>
+            <Button type="button" onClick={handleDeleteTemplate} variant="outline" disabled={!template}>
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        {template && (
+          <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6">
+            <div className="space-y-3">
+              <div className="flex justify-center">
+                <IDCardPreview
+                  template={template}
+                  data={previewData}
+                  eventSettings={event}
+                  scale={4}
+                  selectedId={selectedElementId}
+                  onSelect={setSelectedElementId}
+                  onElementChange={updateElement}
+                />
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-foreground">
+                  Preview as
+                  <select
+                    value={previewTanzeem}
+                    onChange={(e) => setPreviewTanzeem(e.target.value)}
+                    className="px-2 py-1 text-sm border border-border rounded-md bg-background text-foreground"
+                  >
+                    {getTanzeemNames(event).map((tanzeem) => (
+                      <option key={tanzeem} value={tanzeem}>
+                        {tanzeem}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-1 text-foreground">
+                  <input type="checkbox" checked={previewSurplus} onChange={(e) => setPreviewSurplus(e.target.checked)} />
+                  Surplus card
+                </label>
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+                <h2 className="text-lg font-semibold text-foreground">Template</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-4">
+                  <div>
+                    <Label htmlFor="templateName" className="text-foreground">
+                      Name
+                    </Label>
+                    <Input
+                      id="templateName"
+                      value={template.name}
+                      onChange={(e) => updateTemplate({ name: e.target.value })}
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="templateBackground" className="text-foreground">
+                      Background
+                    </Label>
+                    <Input
+                      id="templateBackground"
+                      type="color"
+                      value={template.background}
+                      onChange={(e) => updateTemplate({ background: e.target.value })}
+                      className="mt-2 w-20 p-1"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Background per tanzeem (unticked: the card background)</p>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {getTanzeemNames(event).map((tanzeem) => {
+                      const color = template.tanzeemBackgrounds[tanzeem]
+                      return (
+                        <div key={tanzeem} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={!!color}
+                            onChange={(e) =>
+                              handleTanzeemBackgroundChange(tanzeem, e.target.checked ? template.background : null)
+                            }
+                            aria-label={`Own background for ${tanzeem}`}
+                          />
+                          <span className="flex-1 text-foreground">{tanzeem}</span>
+                          <Input
+                            type="color"
+                            value={color || template.background}
+                            onChange={(e) => handleTanzeemBackgroundChange(tanzeem, e.target.value)}
+                            className="w-16 h-8 p-1"
+                            disabled={!color}
+                            aria-label={`${tanzeem} background`}
+                          />
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              </div>
+
+              <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+                <h2 className="text-lg font-semibold text-foreground">Elements</h2>
+                <div className="flex gap-2">
+                  <select
+                    value={newElementKind}
+                    onChange={(e) => setNewElementKind(e.target.value as CardElementKind)}
+                    className="flex-1 px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+                    aria-label="Element to add"
+                  >
+                    {CARD_ELEMENT_KINDS.map((entry) => (
+                      <option key={entry.kind} value={entry.kind}>
+                        {entry.label}
+                      </option>
+                    ))}
+                  </select>
+                  <Button type="button" onClick={handleAddElement} variant="outline">
+                    + Add
+                  </Button>
+                </div>
+
+                {!selectedElement ? (
+                  <p className="text-sm text-muted-foreground">Click an element on the card to edit it.</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <p className="font-medium text-foreground">{getCardElementLabel(selectedElement.kind)}</p>
+                      <div className="flex gap-2">
+                        <Button type="button" onClick={() => handleMoveElement(-1)} variant="outline" size="sm">
+                          Send Back
+                        </Button>
+                        <Button type="button" onClick={() => handleMoveElement(1)} variant="outline" size="sm">
+                          Bring Forward
+                        </Button>
+                        <Button type="button" onClick={handleRemoveElement} variant="outline" size="sm">
+                          Remove
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                      {(
+                        [
+                          ["x", "Left (mm)"],
+                          ["y", "Top (mm)"],
+                          ["width", "Width (mm)"],
+                          ["height", "Height (mm)"],
+                        ] as ["x" | "y" | "width" | "height", string][]
+                      ).map(([field, label]) => (
+                        <div key={field}>
+                          <Label htmlFor={`element-${field}`} className="text-foreground text-xs">
+                            {label}
+                          </Label>
+                          <Input
+                            id={`element-${field}`}
+                            type="number"
+                            step={0.5}
+                            min={0}
+                            value={Number.isNaN(selectedElement[field]) ? "" : selectedElement[field]}
+                            onChange={(e) => updateElement(selectedElement.id, { [field]: toNumber(e.target.value) })}
+                            className="mt-1"
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    {selectedElement.kind === "text" && (
+                      <div>
+                        <Label htmlFor="element-text" className="text-foreground text-xs">
+                          Text
+                        </Label>
+                        <Input
+                          id="element-text"
+                          value={selectedElement.text || ""}
+                          onChange={(e) => updateElement(selectedElement.id, { text: e.target.value })}
+                          className="mt-1"
+                        />
+                      </div>
+                    )}
+
+                    {selectedType !== "image" && (
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+                        <div>
+                          <Label htmlFor="element-color" className="text-foreground text-xs">
+                            {selectedType === "box" ? "Fill" : "Colour"}
+                          </Label>
+                          <Input
+                            id="element-color"
+                            type="color"
+                            value={selectedElement.color || "#000000"}
+                            onChange={(e) => updateElement(selectedElement.id, { color: e.target.value })}
+                            className="mt-1 p-1"
+                          />
+                        </div>
+                        {selectedType === "text" && (
+                          <>
+                            <div>
+                              <Label htmlFor="element-fontSize" className="text-foreground text-xs">
+                                Font size (pt)
+                              </Label>
+                              <Input
+                                id="element-fontSize"
+                                type="number"
+                                min={1}
+                                value={Number.isNaN(selectedElement.fontSize) ? "" : (selectedElement.fontSize ?? 12)}
+                                onChange={(e) => updateElement(selectedElement.id, { fontSize: toNumber(e.target.value) })}
+                                className="mt-1"
+                              />
+                            </div>
+                            <div>
+                              <Label htmlFor="element-align" className="text-foreground text-xs">
+                                Align
+                              </Label>
+                              <select
+                                id="element-align"
+                                value={selectedElement.align || "left"}
+                                onChange={(e) =>
+                                  updateElement(selectedElement.id, { align: e.target.value as CardElement["align"] })
+                                }
+                                className="mt-1 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+                              >
+                                <option value="left">Left</option>
+                                <option value="center">Centre</option>
+                                <option value="right">Right</option>
+                              </select>
+                            </div>
+                            <div className="flex gap-3 text-sm pb-2">
+                              <label className="flex items-center gap-1 text-foreground">
+                                <input
+                                  type="checkbox"
+                                  checked={!!selectedElement.bold}
+                                  onChange={(e) => updateElement(selectedElement.id, { bold: e.target.checked })}
+                                />
+                                Bold
+                              </label>
+                              <label className="flex items-center gap-1 text-foreground">
+                                <input
+                                  type="checkbox"
+                                  checked={!!selectedElement.italic}
+                                  onChange={(e) => updateElement(selectedElement.id, { italic: e.target.checked })}
+                                />
+                                Italic
+                              </label>
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    {selectedType === "image" && (
+                      <p className="text-xs text-muted-foreground">
+                        Logos and the signature come from the event&apos;s branding; the photo and QR code from each
+                        member.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
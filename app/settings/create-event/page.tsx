@@ -3,7 +3,7 @@
 import type React from "react"
 
 import { useState } from "react"
-import { createEvent, setCurrentEventId } from "@/lib/storage"
+import { createEvent, getSettings, setCurrentEventId } from "@/lib/storage"
 import type { EventSettings } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -40,6 +40,8 @@ export default function CreateEventPage() {
     setLoading(true)
 
     try {
+      // The organisation's branding, printer setup and certificate wording carry over from the current event
+      const { branding, printProfiles, activePrintProfileId, certificate } = await getSettings()
       const newEvent: EventSettings = {
         id: "",
         eventName: formData.eventName,
@@ -47,6 +49,10 @@ export default function CreateEventPage() {
         duration: formData.duration,
         location: formData.location,
         theme: formData.theme,
+        branding,
+        printProfiles,
+        activePrintProfileId,
+        certificate,
         createdAt: new Date().toISOString(),
       }
 
@@ -5,11 +5,55 @@ import type React from "react"
 import { useEffect, useState } from "react"
 import { useParams, useRouter } from "next/navigation"
 import { updateEvent, getEventsList } from "@/lib/storage"
-import type { EventSettings } from "@/lib/types"
+import { getTanzeemAgeCutoffs, validateTanzeemAgeCutoffs } from "@/lib/tanzeem-rules"
+import {
+  DEFAULT_TANZEEM_CATEGORIES,
+  getTanzeemCategories,
+  validateTanzeemCategories,
+} from "@/lib/tanzeem-categories"
+import {
+  DEFAULT_MEAL_WINDOWS,
+  cleanDayMeals,
+  formatEventDay,
+  getBrowserTimeZone,
+  getDayMeals,
+  getEventDays,
+  getMealTypes,
+  isValidTimeZone,
+  validateMealTypes,
+  validateMealWindows,
+} from "@/lib/catering-sessions"
+import { DEFAULT_BRANDING, readBrandingImage, validateBranding } from "@/lib/branding"
+import { LEGACY_QR_GRACE_DAYS, getLegacyQrUntil } from "@/lib/qr-payload"
+import type {
+  BrandingProfile,
+  EventDay,
+  EventSettings,
+  MealType,
+  MealWindow,
+  TanzeemAgeCutoffs,
+  TanzeemCategory,
+} from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 
+// Categories in the order they were entered, so rows do not jump while a sort order is typed
+const getEditableCategories = (event: EventSettings): TanzeemCategory[] =>
+  event.tanzeemCategories?.length ? event.tanzeemCategories : getTanzeemCategories(event)
+
+// The saved profile over the defaults, keeping fields the user is clearing to retype
+const getEditableBranding = (event: EventSettings): BrandingProfile => ({ ...DEFAULT_BRANDING, ...event.branding })
+
+type BrandingImageField = "cardLogoUrl" | "reportLogoUrl" | "badgeLogoUrl" | "signatureUrl"
+
+const BRANDING_IMAGES: [BrandingImageField, string][] = [
+  ["cardLogoUrl", "ID card logo"],
+  ["reportLogoUrl", "Report logo"],
+  ["badgeLogoUrl", "ID card badge"],
+  ["signatureUrl", "Signature"],
+]
+
 export default function EditEventPage() {
   const params = useParams()
   const router = useRouter()
@@ -43,13 +87,169 @@ export default function EditEventPage() {
     setFormData((prev) => (prev ? { ...prev, [name]: value } : null))
   }
 
+  const handleCutoffChange = (field: keyof TanzeemAgeCutoffs, value: string) => {
+    setFormData((prev) =>
+      prev
+        ? { ...prev, tanzeemAgeCutoffs: { ...getTanzeemAgeCutoffs(prev), [field]: Number.parseInt(value, 10) } }
+        : null,
+    )
+  }
+
+  const handleCategoryChange = (index: number, changes: Partial<TanzeemCategory>) => {
+    setFormData((prev) =>
+      prev
+        ? {
+            ...prev,
+            tanzeemCategories: getEditableCategories(prev).map((category, i) =>
+              i === index ? { ...category, ...changes } : category,
+            ),
+          }
+        : null,
+    )
+  }
+
+  const handleAddCategory = () => {
+    setFormData((prev) => {
+      if (!prev) return null
+      const categories = getEditableCategories(prev)
+      const sortOrder = Math.max(0, ...categories.map((category) => category.sortOrder)) + 1
+      return { ...prev, tanzeemCategories: [...categories, { name: "", code: "", color: "#6b7280", sortOrder }] }
+    })
+  }
+
+  const handleRemoveCategory = (index: number) => {
+    setFormData((prev) =>
+      prev ? { ...prev, tanzeemCategories: getEditableCategories(prev).filter((_, i) => i !== index) } : null,
+    )
+  }
+
+  const handleMealTypeChange = (index: number, value: string) => {
+    setFormData((prev) => {
+      if (!prev) return null
+      const mealTypes = getMealTypes(prev)
+      const previous = mealTypes[index]
+      // Days that list the meal keep it under its new name
+      const dayMeals = Object.fromEntries(
+        Object.entries(prev.dayMeals || {}).map(([day, meals]) => [
+          day,
+          meals.map((meal) => (meal === previous ? value : meal)),
+        ]),
+      )
+      const windows = prev.mealWindows ?? DEFAULT_MEAL_WINDOWS
+      const mealWindows = Object.fromEntries(
+        Object.entries(windows).map(([meal, window]) => [meal === previous ? value : meal, window]),
+      )
+      return {
+        ...prev,
+        mealTypes: mealTypes.map((meal, i) => (i === index ? value : meal)),
+        dayMeals,
+        mealWindows,
+      }
+    })
+  }
+
+  const handleMealWindowChange = (meal: MealType, field: keyof MealWindow, value: string) => {
+    setFormData((prev) => {
+      if (!prev) return null
+      const windows = { ...(prev.mealWindows ?? DEFAULT_MEAL_WINDOWS) }
+      const window = { ...(windows[meal] ?? { start: "", end: "" }), [field]: value }
+      // Clearing both times serves the meal all day
+      if (!window.start && !window.end) delete windows[meal]
+      else windows[meal] = window
+      return { ...prev, mealWindows: windows }
+    })
+  }
+
+  const handleAddMealType = () => {
+    setFormData((prev) => (prev ? { ...prev, mealTypes: [...getMealTypes(prev), ""] } : null))
+  }
+
+  const handleRemoveMealType = (index: number) => {
+    setFormData((prev) => (prev ? { ...prev, mealTypes: getMealTypes(prev).filter((_, i) => i !== index) } : null))
+  }
+
+  const handleDayMealToggle = (day: EventDay, meal: MealType, served: boolean) => {
+    setFormData((prev) => {
+      if (!prev) return null
+      const meals = getDayMeals(day, prev)
+      return {
+        ...prev,
+        dayMeals: { ...prev.dayMeals, [day]: served ? [...meals, meal] : meals.filter((m) => m !== meal) },
+      }
+    })
+  }
+
+  const handleBrandingChange = (field: keyof BrandingProfile, value: string) => {
+    setFormData((prev) => (prev ? { ...prev, branding: { ...getEditableBranding(prev), [field]: value } } : null))
+  }
+
+  const handleBrandingImage = async (field: BrandingImageField, file: File | undefined) => {
+    if (!file) return
+    try {
+      handleBrandingChange(field, await readBrandingImage(file))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not read the image")
+    }
+  }
+
+  const handleRotateQrKey = () => {
+    if (!confirm("Change the QR key? Every ID card printed for this event so far will stop scanning.")) {
+      return
+    }
+    setFormData((prev) => (prev ? { ...prev, qrKeyVersion: (prev.qrKeyVersion ?? 1) + 1 } : null))
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!formData) return
 
+    const cutoffError = validateTanzeemAgeCutoffs(getTanzeemAgeCutoffs(formData))
+    if (cutoffError) {
+      alert(cutoffError)
+      return
+    }
+    const tanzeemCategories = getTanzeemCategories(formData).map((category) => ({
+      ...category,
+      name: category.name.trim(),
+    }))
+    const categoryError = validateTanzeemCategories(tanzeemCategories)
+    if (categoryError) {
+      alert(categoryError)
+      return
+    }
+
+    const mealTypes = getMealTypes(formData).map((meal) => meal.trim())
+    const mealError = validateMealTypes(mealTypes)
+    if (mealError) {
+      alert(mealError)
+      return
+    }
+    const dayMeals = cleanDayMeals({ ...formData, mealTypes })
+    // Only windows of meals the event still serves are kept
+    const mealWindows = Object.fromEntries(
+      Object.entries(formData.mealWindows ?? DEFAULT_MEAL_WINDOWS).filter(([meal]) => mealTypes.includes(meal)),
+    )
+    const windowError = validateMealWindows(mealWindows)
+    if (windowError) {
+      alert(windowError)
+      return
+    }
+    const timeZone = formData.timeZone?.trim() || getBrowserTimeZone()
+    if (!isValidTimeZone(timeZone)) {
+      alert(`${timeZone} is not a time zone. Use a name like Europe/London.`)
+      return
+    }
+
+    const branding = formData.branding ? getEditableBranding(formData) : undefined
+    const brandingError = branding ? validateBranding(branding) : null
+    if (brandingError) {
+      alert(brandingError)
+      return
+    }
+
     setSaving(true)
     try {
-      await updateEvent(formData)
+      await updateEvent({ ...formData, tanzeemCategories, mealTypes, dayMeals, mealWindows, timeZone, branding })
       setShowSuccess(true)
       setTimeout(() => {
         router.push("/settings")
@@ -64,6 +264,12 @@ export default function EditEventPage() {
   if (loading) return <div className="p-8">Loading...</div>
   if (!formData) return <div className="p-8">Event not found</div>
 
+  const cutoffs = getTanzeemAgeCutoffs(formData)
+  const categories = getEditableCategories(formData)
+  const mealTypes = getMealTypes(formData)
+  const mealWindows = formData.mealWindows ?? DEFAULT_MEAL_WINDOWS
+  const branding = getEditableBranding(formData)
+
   if (showSuccess) {
     return (
       <main className="min-h-screen bg-background flex items-center justify-center">
@@ -162,6 +368,342 @@ export default function EditEventPage() {
             <Input id="location" name="location" value={formData.location} onChange={handleChange} className="mt-2" />
           </div>
 
+          <div className="border-t border-border pt-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">ID Card QR Codes</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Cards are signed with key version {formData.qrKeyVersion ?? 1}. Changing the key makes every card
+                printed so far fail to scan, so only do it when cards have been lost or copied, and reprint afterwards.
+              </p>
+            </div>
+            <Button type="button" onClick={handleRotateQrKey} variant="outline">
+              Change QR Key
+            </Button>
+            <div>
+              <Label htmlFor="legacyQrUntil" className="text-foreground">
+                Accept cards printed before QR signing until
+              </Label>
+              <Input
+                id="legacyQrUntil"
+                name="legacyQrUntil"
+                type="date"
+                value={formData.legacyQrUntil || ""}
+                onChange={handleChange}
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave empty to accept them until {getLegacyQrUntil({ ...formData, legacyQrUntil: undefined })},{" "}
+                {LEGACY_QR_GRACE_DAYS} days after the event was created
+              </p>
+            </div>
+          </div>
+
+          <div className="border-t border-border pt-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Tanzeem Categories</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                The categories members are registered in, shown in sort order on every page, filter and export. The
+                short code starts each member code (e.g. KH-0042). Renaming a category does not move members already
+                registered under the old name.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="hidden sm:grid grid-cols-[1fr_5rem_4rem_5rem_auto] gap-2 text-xs text-muted-foreground">
+                <span>Name</span>
+                <span>Short code</span>
+                <span>Colour</span>
+                <span>Sort order</span>
+                <span />
+              </div>
+              {categories.map((category, index) => (
+                <div key={index} className="grid grid-cols-2 sm:grid-cols-[1fr_5rem_4rem_5rem_auto] gap-2 items-center">
+                  <Input
+                    aria-label="Category name"
+                    value={category.name}
+                    onChange={(e) => handleCategoryChange(index, { name: e.target.value })}
+                    className="col-span-2 sm:col-span-1"
+                    required
+                  />
+                  <Input
+                    aria-label="Short code"
+                    value={category.code}
+                    maxLength={4}
+                    onChange={(e) => handleCategoryChange(index, { code: e.target.value.toUpperCase() })}
+                    className="font-mono"
+                    required
+                  />
+                  <Input
+                    aria-label="Colour"
+                    type="color"
+                    value={category.color}
+                    onChange={(e) => handleCategoryChange(index, { color: e.target.value })}
+                    className="p-1"
+                  />
+                  <Input
+                    aria-label="Sort order"
+                    type="number"
+                    value={Number.isNaN(category.sortOrder) ? "" : category.sortOrder}
+                    onChange={(e) => handleCategoryChange(index, { sortOrder: Number.parseInt(e.target.value, 10) })}
+                    required
+                  />
+                  <Button
+                    type="button"
+                    onClick={() => handleRemoveCategory(index)}
+                    variant="outline"
+                    size="sm"
+                    disabled={categories.length === 1}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" onClick={handleAddCategory} variant="outline">
+                + Add Category
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setFormData({ ...formData, tanzeemCategories: DEFAULT_TANZEEM_CATEGORIES })}
+                variant="outline"
+              >
+                Reset to Defaults
+              </Button>
+            </div>
+          </div>
+
+          <div className="border-t border-border pt-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Meal Sessions</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                The meals catering serves, in serving order, the times each is served between, and which of them are
+                served on each day of the event. Serving outside a meal&apos;s times needs an approved override; leave
+                both times empty to serve it all day. A meal must end on the day it starts, by 23:59 at the latest;
+                to serve across midnight, end the meal at 23:59 and add the hours after midnight as a meal of their own.
+                Times are in the venue&apos;s time zone, which the database checks every serving against. Renaming a
+                meal does not move servings already recorded under the old name.
+              </p>
+            </div>
+            <div className="space-y-2">
+              {mealTypes.map((meal, index) => (
+                <div key={index} className="flex flex-wrap sm:flex-nowrap gap-2">
+                  <Input
+                    aria-label="Meal name"
+                    value={meal}
+                    placeholder="e.g. Iftar"
+                    onChange={(e) => handleMealTypeChange(index, e.target.value)}
+                    required
+                  />
+                  <Input
+                    aria-label="Served from"
+                    type="time"
+                    value={mealWindows[meal]?.start || ""}
+                    onChange={(e) => handleMealWindowChange(meal, "start", e.target.value)}
+                    className="w-32"
+                    disabled={!meal.trim()}
+                  />
+                  <Input
+                    aria-label="Served until"
+                    type="time"
+                    value={mealWindows[meal]?.end || ""}
+                    onChange={(e) => handleMealWindowChange(meal, "end", e.target.value)}
+                    className="w-32"
+                    disabled={!meal.trim()}
+                  />
+                  <Button
+                    type="button"
+                    onClick={() => handleRemoveMealType(index)}
+                    variant="outline"
+                    size="sm"
+                    disabled={mealTypes.length === 1}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button type="button" onClick={handleAddMealType} variant="outline">
+              + Add Meal
+            </Button>
+            <div className="max-w-xs">
+              <Label htmlFor="timeZone" className="text-foreground">
+                Venue Time Zone
+              </Label>
+              <Input
+                id="timeZone"
+                value={formData.timeZone ?? ""}
+                placeholder={getBrowserTimeZone()}
+                onChange={(e) => setFormData({ ...formData, timeZone: e.target.value })}
+                className="mt-2"
+              />
+            </div>
+            {getEventDays(formData).length > 0 && (
+              <div className="space-y-2">
+                {getEventDays(formData).map((day) => {
+                  const served = getDayMeals(day, formData)
+                  return (
+                    <div key={day} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                      <span className="w-24 font-medium text-foreground">{formatEventDay(day)}</span>
+                      {mealTypes.filter((meal) => meal.trim()).map((meal) => (
+                        <label key={meal} className="flex items-center gap-1 text-foreground">
+                          <input
+                            type="checkbox"
+                            checked={served.includes(meal)}
+                            onChange={(e) => handleDayMealToggle(day, meal, e.target.checked)}
+                          />
+                          {meal}
+                        </label>
+                      ))}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="border-t border-border pt-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Branding</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                The organisation every PDF, spreadsheet and ID card is printed for. The title line and country head
+                each export with the event&apos;s year, e.g. &quot;JALSA SALANA KENYA - 2025&quot;. New events start from
+                the current event&apos;s branding.
+              </p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {(
+                [
+                  ["titleLine", "Title line"],
+                  ["country", "Country"],
+                  ["organisationShortName", "Organisation short name"],
+                  ["signatoryName", "Signatory"],
+                ] as [keyof BrandingProfile, string][]
+              ).map(([field, label]) => (
+                <div key={field}>
+                  <Label htmlFor={`branding-${field}`} className="text-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`branding-${field}`}
+                    value={branding[field]}
+                    onChange={(e) => handleBrandingChange(field, e.target.value)}
+                    className="mt-2"
+                  />
+                </div>
+              ))}
+              <div>
+                <Label htmlFor="branding-cardHeaderColor" className="text-foreground">
+                  ID card header colour
+                </Label>
+                <Input
+                  id="branding-cardHeaderColor"
+                  type="color"
+                  value={branding.cardHeaderColor}
+                  onChange={(e) => handleBrandingChange("cardHeaderColor", e.target.value)}
+                  className="mt-2 p-1"
+                />
+                <p className="text-xs text-muted-foreground mt-1">The header text is white, so pick a dark colour</p>
+              </div>
+              <div>
+                <Label htmlFor="branding-tableHeaderColor" className="text-foreground">
+                  Table heading colour
+                </Label>
+                <Input
+                  id="branding-tableHeaderColor"
+                  type="color"
+                  value={branding.tableHeaderColor}
+                  onChange={(e) => handleBrandingChange("tableHeaderColor", e.target.value)}
+                  className="mt-2 p-1"
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="branding-footerText" className="text-foreground">
+                Footer text
+              </Label>
+              <Input
+                id="branding-footerText"
+                value={branding.footerText}
+                placeholder="e.g. Ahmadiyya Muslim Jamaat Kenya · www.example.org"
+                onChange={(e) => handleBrandingChange("footerText", e.target.value)}
+                className="mt-2"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Printed at the foot of every report; leave empty for none</p>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+              {BRANDING_IMAGES.map(([field, label]) => (
+                <div key={field} className="space-y-2">
+                  <Label htmlFor={`branding-${field}`} className="text-foreground">
+                    {label}
+                  </Label>
+                  <div className="h-20 border border-border rounded-md bg-muted flex items-center justify-center overflow-hidden">
+                    <img
+                      src={branding[field] || DEFAULT_BRANDING[field]}
+                      alt={label}
+                      className="max-h-full max-w-full object-contain"
+                    />
+                  </div>
+                  <Input
+                    id={`branding-${field}`}
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => handleBrandingImage(field, e.target.files?.[0])}
+                    className="text-xs"
+                  />
+                  {branding[field] !== DEFAULT_BRANDING[field] && (
+                    <Button
+                      type="button"
+                      onClick={() => handleBrandingChange(field, DEFAULT_BRANDING[field])}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Use Default
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <Button type="button" onClick={() => setFormData({ ...formData, branding: undefined })} variant="outline">
+              Reset to Defaults
+            </Button>
+          </div>
+
+          <div className="border-t border-border pt-6 space-y-4">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Tanzeem Age Cut-offs</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                The age, on the starting date, at which each tanzeem begins. Used to suggest a member&apos;s tanzeem
+                from their gender and date of birth and to flag members registered in the wrong one.
+              </p>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              {(
+                [
+                  ["atfal", "Atfal from"],
+                  ["khuddam", "Khuddam from"],
+                  ["ansar", "Ansar from"],
+                  ["nasrat", "Nasrat from"],
+                  ["lajna", "Lajna from"],
+                ] as [keyof TanzeemAgeCutoffs, string][]
+              ).map(([field, label]) => (
+                <div key={field}>
+                  <Label htmlFor={`cutoff-${field}`} className="text-foreground">
+                    {label}
+                  </Label>
+                  <Input
+                    id={`cutoff-${field}`}
+                    type="number"
+                    min={0}
+                    value={Number.isNaN(cutoffs[field]) ? "" : cutoffs[field]}
+                    onChange={(e) => handleCutoffChange(field, e.target.value)}
+                    className="mt-2"
+                    required
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="flex gap-4">
             <Button type="submit" disabled={saving} className="flex-1 bg-primary">
               {saving ? "Saving..." : "Save Changes"}
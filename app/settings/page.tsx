@@ -12,9 +12,9 @@ import {
 import type { EventSettings } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { useRouter } from "next/navigation"
-import { isAuthenticated, isAdmin } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import Link from "next/link"
-import { Trash2, Eye, Pencil } from "lucide-react"
+import { Trash2, Eye, Pencil, IdCard, Printer } from "lucide-react"
 
 export default function SettingsPage() {
   const router = useRouter()
@@ -29,7 +29,7 @@ export default function SettingsPage() {
       return
     }
 
-    if (!isAdmin()) {
+    if (!hasPermission("events.manage")) {
       router.push("/")
       return
     }
@@ -124,6 +124,16 @@ export default function SettingsPage() {
                       <Pencil className="w-4 h-4" />
                     </button>
                   </Link>
+                  <Link href={`/settings/card-templates/${event.id}`}>
+                    <button className="p-2 hover:bg-green-500/20 rounded transition-colors" title="ID card templates">
+                      <IdCard className="w-4 h-4" />
+                    </button>
+                  </Link>
+                  <Link href={`/settings/print-profiles/${event.id}`}>
+                    <button className="p-2 hover:bg-purple-500/20 rounded transition-colors" title="Print profiles">
+                      <Printer className="w-4 h-4" />
+                    </button>
+                  </Link>
                   <button
                     onClick={() => setDeleteConfirmId(event.id)}
                     className="p-2 hover:bg-red-500/20 rounded transition-colors"
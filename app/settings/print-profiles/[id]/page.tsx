@@ -0,0 +1,380 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { updateEvent, getEventsList } from "@/lib/storage"
+import {
+  BUILT_IN_PRINT_PROFILES,
+  PAPER_SIZES,
+  createPrintProfile,
+  getCardPosition,
+  getCardsPerPage,
+  getPrintPageSize,
+  getPrintProfiles,
+  validatePrintProfile,
+} from "@/lib/print-profiles"
+import { generatePrintCalibration } from "@/lib/export"
+import type { EventSettings, PrintProfile } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+
+// Number typed into a size or offset field; NaN while the field is cleared
+const toNumber = (value: string) => Number.parseFloat(value)
+
+// Pixels per millimetre of the page preview
+const PREVIEW_SCALE = 1.2
+
+type NumberField = "cardWidth" | "cardHeight" | "columns" | "rows" | "marginLeft" | "marginTop" | "gapX" | "gapY" | "offsetX" | "offsetY" | "dpi"
+
+export default function PrintProfilesPage() {
+  const params = useParams()
+  const router = useRouter()
+  const eventId = params.id as string
+
+  const [event, setEvent] = useState<EventSettings | null>(null)
+  const [profiles, setProfiles] = useState<PrintProfile[]>([])
+  const [activeProfileId, setActiveProfileId] = useState("")
+  const [selectedProfileId, setSelectedProfileId] = useState("")
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const loadEvent = async () => {
+      try {
+        const events = await getEventsList()
+        const found = events.find((e) => e.id === eventId)
+        if (found) {
+          const all = getPrintProfiles(found)
+          const active = all.find((p) => p.id === found.activePrintProfileId) || all[0]
+          setEvent(found)
+          setProfiles(all)
+          setActiveProfileId(active.id)
+          setSelectedProfileId(active.id)
+        }
+      } catch (error) {
+        console.error("Error loading print profiles:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadEvent()
+  }, [eventId])
+
+  const profile = profiles.find((p) => p.id === selectedProfileId) || null
+  const builtIn = BUILT_IN_PRINT_PROFILES.find((p) => p.id === selectedProfileId) || null
+
+  const updateProfile = (changes: Partial<PrintProfile>) => {
+    setProfiles((prev) => prev.map((p) => (p.id === selectedProfileId ? { ...p, ...changes } : p)))
+  }
+
+  const handleAddProfile = () => {
+    const created = createPrintProfile(`${profile?.name || "Profile"} (copy)`, profile || undefined)
+    setProfiles((prev) => [...prev, created])
+    setSelectedProfileId(created.id)
+  }
+
+  const handleDeleteProfile = () => {
+    if (!profile || builtIn || !confirm(`Delete the profile "${profile.name}"?`)) return
+    const remaining = profiles.filter((p) => p.id !== profile.id)
+    setProfiles(remaining)
+    if (activeProfileId === profile.id) setActiveProfileId(remaining[0].id)
+    setSelectedProfileId(remaining[0].id)
+  }
+
+  const handleResetProfile = () => {
+    if (!builtIn) return
+    setProfiles((prev) => prev.map((p) => (p.id === builtIn.id ? builtIn : p)))
+  }
+
+  const handleCalibration = async () => {
+    if (!profile) return
+    const error = validatePrintProfile(profile)
+    if (error) {
+      alert(error)
+      return
+    }
+    await generatePrintCalibration(profile)
+  }
+
+  const handleSave = async () => {
+    if (!event) return
+    for (const p of profiles) {
+      const error = validatePrintProfile(p)
+      if (error) {
+        setSelectedProfileId(p.id)
+        alert(`${p.name || "Profile"}: ${error}`)
+        return
+      }
+    }
+
+    setSaving(true)
+    try {
+      // Built-in profiles are only saved once edited
+      const printProfiles = profiles.filter((p) => {
+        const original = BUILT_IN_PRINT_PROFILES.find((b) => b.id === p.id)
+        return !original || JSON.stringify(original) !== JSON.stringify(p)
+      })
+      const saved = {
+        ...event,
+        printProfiles,
+        activePrintProfileId: activeProfileId === BUILT_IN_PRINT_PROFILES[0].id ? undefined : activeProfileId,
+      }
+      if (await updateEvent(saved)) {
+        setEvent(saved)
+        alert("Print profiles saved")
+      } else {
+        alert("Failed to save print profiles")
+      }
+    } catch (error) {
+      console.error("Error saving print profiles:", error)
+      alert("Failed to save print profiles")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) return <div className="p-8">Loading...</div>
+  if (!event) return <div className="p-8">Event not found</div>
+
+  const numberInput = (field: NumberField, label: string, step = 0.1) =>
+    profile && (
+      <div key={field}>
+        <Label htmlFor={`profile-${field}`} className="text-foreground text-xs">
+          {label}
+        </Label>
+        <Input
+          id={`profile-${field}`}
+          type="number"
+          step={step}
+          value={Number.isNaN(profile[field]) ? "" : profile[field]}
+          onChange={(e) => updateProfile({ [field]: toNumber(e.target.value) })}
+          className="mt-1"
+        />
+      </div>
+    )
+
+  const sheet = profile?.kind === "pdf" && profile.paper !== "card"
+  const page = profile ? getPrintPageSize(profile) : null
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-primary">Print Profiles</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              {event.eventName}: how ID cards are laid out for the printer in use. Sizes and offsets are in millimetres.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button type="button" onClick={() => router.push("/settings")} variant="outline">
+              Back
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={saving} className="bg-primary">
+              {saving ? "Saving..." : "Save Profiles"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-4 mb-6 space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="activeProfile" className="text-foreground">
+                Print ID cards with
+              </Label>
+              <select
+                id="activeProfile"
+                value={activeProfileId}
+                onChange={(e) => setActiveProfileId(e.target.value)}
+                className="mt-2 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name || "Untitled"}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="editProfile" className="text-foreground">
+                Edit profile
+              </Label>
+              <select
+                id="editProfile"
+                value={selectedProfileId}
+                onChange={(e) => setSelectedProfileId(e.target.value)}
+                className="mt-2 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name || "Untitled"}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" onClick={handleAddProfile} variant="outline">
+              + New Profile
+            </Button>
+            {builtIn ? (
+              <Button type="button" onClick={handleResetProfile} variant="outline">
+                Reset to Defaults
+              </Button>
+            ) : (
+              <Button type="button" onClick={handleDeleteProfile} variant="outline" disabled={!profile}>
+                Delete
+              </Button>
+            )}
+            <Button type="button" onClick={handleCalibration} variant="outline" disabled={!profile}>
+              Print Calibration {profile?.kind === "pdf" ? "Sheet" : "Label"}
+            </Button>
+          </div>
+        </div>
+
+        {profile && page && (
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_auto] gap-6">
+            <div className="space-y-6">
+              <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+                <h2 className="text-lg font-semibold text-foreground">Printer</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <Label htmlFor="profileName" className="text-foreground">
+                      Name
+                    </Label>
+                    <Input
+                      id="profileName"
+                      value={profile.name}
+                      onChange={(e) => updateProfile({ name: e.target.value })}
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="profileKind" className="text-foreground">
+                      Output
+                    </Label>
+                    <select
+                      id="profileKind"
+                      value={profile.kind}
+                      onChange={(e) => {
+                        const kind = e.target.value as PrintProfile["kind"]
+                        updateProfile(kind === "pdf" ? { kind } : { kind, paper: "card" })
+                      }}
+                      className="mt-2 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+                    >
+                      <option value="pdf">PDF</option>
+                      <option value="zpl">ZPL label printer</option>
+                      <option value="epl">EPL label printer</option>
+                    </select>
+                  </div>
+                  {profile.kind === "pdf" ? (
+                    <div>
+                      <Label htmlFor="profilePaper" className="text-foreground">
+                        Paper
+                      </Label>
+                      <select
+                        id="profilePaper"
+                        value={profile.paper}
+                        onChange={(e) => updateProfile({ paper: e.target.value as PrintProfile["paper"] })}
+                        className="mt-2 w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+                      >
+                        {Object.entries(PAPER_SIZES).map(([paper, size]) => (
+                          <option key={paper} value={paper}>
+                            {size.label} sheet
+                          </option>
+                        ))}
+                        <option value="card">One card per page</option>
+                      </select>
+                    </div>
+                  ) : (
+                    numberInput("dpi", "Resolution (dpi)", 1)
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+                <h2 className="text-lg font-semibold text-foreground">Layout</h2>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {numberInput("cardWidth", "Card width")}
+                  {numberInput("cardHeight", "Card height")}
+                  {sheet && (
+                    <>
+                      {numberInput("columns", "Columns", 1)}
+                      {numberInput("rows", "Rows", 1)}
+                      {numberInput("marginLeft", "Left margin")}
+                      {numberInput("marginTop", "Top margin")}
+                      {numberInput("gapX", "Gap across")}
+                      {numberInput("gapY", "Gap down")}
+                    </>
+                  )}
+                </div>
+                {profile.kind === "pdf" && (
+                  <label className="flex items-center gap-2 text-sm text-foreground">
+                    <input
+                      type="checkbox"
+                      checked={profile.cutMarks}
+                      onChange={(e) => updateProfile({ cutMarks: e.target.checked })}
+                    />
+                    Cut marks around each card
+                  </label>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {profile.kind === "pdf"
+                    ? "The built-in card layout is designed for 75 x 110 mm; for other sizes, print from an ID card template, which scales to the card."
+                    : "Label printers print the card's text and QR code; photos, logos and templates are PDF only."}
+                </p>
+              </div>
+
+              <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+                <h2 className="text-lg font-semibold text-foreground">Calibration</h2>
+                <p className="text-sm text-muted-foreground">
+                  Print a calibration {profile.kind === "pdf" ? "sheet" : "label"} on the card stock and measure how far
+                  the outline sits from the edge. Positive offsets move cards right and down.
+                </p>
+                <div className="grid grid-cols-2 gap-3 max-w-sm">
+                  {numberInput("offsetX", "Right (mm)")}
+                  {numberInput("offsetY", "Down (mm)")}
+                </div>
+              </div>
+            </div>
+
+            {/* The preview waits for a layout that can be printed */}
+            {profile.kind === "pdf" && !validatePrintProfile(profile) && (
+              <div className="flex justify-center items-start">
+                <div
+                  className="relative bg-white shadow-md border border-border"
+                  style={{ width: page.width * PREVIEW_SCALE, height: page.height * PREVIEW_SCALE }}
+                  title={`Page ${page.width} x ${page.height} mm`}
+                >
+                  {Array.from({ length: getCardsPerPage(profile) }, (_, i) => {
+                    const { x, y } = getCardPosition(profile, i)
+                    return (
+                      <div
+                        key={i}
+                        className="absolute border border-blue-500 bg-blue-50"
+                        style={{
+                          left: x * PREVIEW_SCALE,
+                          top: y * PREVIEW_SCALE,
+                          width: profile.cardWidth * PREVIEW_SCALE,
+                          height: profile.cardHeight * PREVIEW_SCALE,
+                        }}
+                      />
+                    )
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {builtIn && (
+          <p className="text-xs text-muted-foreground mt-4">
+            Built-in profiles can be adjusted for this event; Reset to Defaults restores them.
+          </p>
+        )}
+      </div>
+    </main>
+  )
+}
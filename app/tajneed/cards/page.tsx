@@ -0,0 +1,214 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { getIDCards, getTajneedMembers, getSettings } from "@/lib/storage"
+import { memberCodeMatches } from "@/lib/member-codes"
+import type { EventSettings, IDCard, IDCardStatus, TajneedMember } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ReissueCardDialog } from "@/components/reissue-card-dialog"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+
+const STATUS_BADGES: Record<IDCardStatus, string> = {
+  active: "bg-green-100 text-green-700",
+  revoked: "bg-red-100 text-red-700",
+  lost: "bg-orange-100 text-orange-700",
+}
+
+export default function IDCardRegistryPage() {
+  const router = useRouter()
+  const [cards, setCards] = useState<IDCard[]>([])
+  const [members, setMembers] = useState<TajneedMember[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [filterStatus, setFilterStatus] = useState<IDCardStatus | "">("")
+  const [reissuingMember, setReissuingMember] = useState<TajneedMember | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadData = async () => {
+    try {
+      const [cardsData, membersData, settings] = await Promise.all([getIDCards(), getTajneedMembers(), getSettings()])
+      setCards(cardsData)
+      setMembers(membersData)
+      setEventSettings(settings)
+    } catch (error) {
+      console.error("Error loading ID card registry:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push("/login")
+      return
+    }
+
+    if (!hasPermission("idcards.revoke")) {
+      router.push("/tajneed")
+      return
+    }
+
+    loadData()
+  }, [router])
+
+  const membersById = useMemo(() => new Map(members.map((member) => [member.id, member])), [members])
+
+  const filteredCards = useMemo(() => {
+    const term = searchTerm.toLowerCase()
+    return cards
+      .filter((card) => {
+        const member = membersById.get(card.memberId)
+        const name = member?.fullName || ""
+        const matchesSearch =
+          name.toLowerCase().includes(term) ||
+          card.id.toLowerCase().includes(term) ||
+          (!!member && memberCodeMatches(member, term))
+        return matchesSearch && (!filterStatus || card.status === filterStatus)
+      })
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt))
+  }, [cards, membersById, searchTerm, filterStatus])
+
+  const countByStatus = (status: IDCardStatus) => cards.filter((card) => card.status === status).length
+
+  if (loading) {
+    return <div className="p-8 text-center">Loading ID card registry...</div>
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col items-center justify-center mb-6 sm:mb-8 text-center px-2">
+          <h1 className="text-2xl sm:text-3xl font-bold text-primary">ID Card Registry</h1>
+          <p className="text-muted-foreground mt-2 text-sm sm:text-base">
+            Printed cards for this event. Revoked and lost cards are rejected at every scanner.
+          </p>
+          <Link href="/tajneed" className="w-full sm:w-auto mt-4">
+            <Button variant="outline" className="w-full sm:w-auto">
+              Back to Tajneed
+            </Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6">
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">Active</p>
+            <p className="text-2xl sm:text-3xl font-bold text-green-600">{countByStatus("active")}</p>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">Lost</p>
+            <p className="text-2xl sm:text-3xl font-bold text-orange-600">{countByStatus("lost")}</p>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">Revoked</p>
+            <p className="text-2xl sm:text-3xl font-bold text-red-600">{countByStatus("revoked")}</p>
+          </div>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Search</label>
+              <Input
+                type="text"
+                placeholder="Member name, member code or card code"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Status</label>
+              <select
+                value={filterStatus}
+                onChange={(e) => setFilterStatus(e.target.value as IDCardStatus | "")}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Statuses</option>
+                <option value="active">Active</option>
+                <option value="lost">Lost</option>
+                <option value="revoked">Revoked</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-card border border-border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Member</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Card Code</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Issued</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Status</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Reissues</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Replaced On</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredCards.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-muted-foreground">
+                      No ID cards found
+                    </td>
+                  </tr>
+                ) : (
+                  filteredCards.map((card) => {
+                    const member = membersById.get(card.memberId)
+                    return (
+                      <tr key={card.id} className="border-b border-border hover:bg-muted transition-colors">
+                        <td className="px-4 py-3 text-xs sm:text-sm font-medium text-primary">
+                          {member?.fullName || "Unknown member"}
+                        </td>
+                        <td className="px-4 py-3 text-xs font-mono text-muted-foreground" title={card.id}>
+                          {card.id.slice(0, 8)}
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">
+                          {new Date(card.issuedAt).toLocaleDateString()}
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm">
+                          <span className={`px-2 py-1 rounded text-xs font-medium capitalize ${STATUS_BADGES[card.status]}`}>
+                            {card.status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">{card.reissueCount}</td>
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">
+                          {card.revokedAt ? new Date(card.revokedAt).toLocaleDateString() : "–"}
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm">
+                          {card.status === "active" && member && (
+                            <button
+                              onClick={() => setReissuingMember(member)}
+                              className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                              title="Revoke and reissue"
+                            >
+                              Reissue
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {reissuingMember && (
+          <ReissueCardDialog
+            member={reissuingMember}
+            eventTitle={eventSettings?.eventName}
+            eventSettings={eventSettings}
+            onClose={() => setReissuingMember(null)}
+            onReissued={loadData}
+          />
+        )}
+      </div>
+    </main>
+  )
+}
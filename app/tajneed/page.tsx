@@ -7,25 +7,45 @@ import {
   getRegions,
   updateTajneedMember,
   getSettings,
+  setTajneedMemberPhoto,
+  assignMissingMemberCodes,
+  getHouseholds,
+  deleteHousehold,
 } from "@/lib/storage"
-import type { TajneedMember, Region, Tanzeem, EventSettings } from "@/lib/types"
+import { HOUSEHOLD_ROLES, getHouseholdMembers, getHouseholdName } from "@/lib/households"
+import { memberCodeMatches } from "@/lib/member-codes"
+import { cleanMemberProfile, getAge, getMemberProfile, validateMemberProfile } from "@/lib/member-profile"
+import type { TajneedMember, Region, Tanzeem, EventSettings, Household, HouseholdRole } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import Link from "next/link"
-import { isAuthenticated, hasAnyRole } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+import { ReissueCardDialog } from "@/components/reissue-card-dialog"
+import { TajneedImportWizard } from "@/components/tajneed-import-wizard"
+import { DuplicateMembersDialog } from "@/components/duplicate-members-dialog"
+import { MemberProfileFields } from "@/components/member-profile-fields"
+import { TanzeemSuggestionHint } from "@/components/tanzeem-suggestion-hint"
+import { TanzeemCheckDialog } from "@/components/tanzeem-check-dialog"
+import { TanzeemDot } from "@/components/tanzeem-dot"
+import { getTanzeemMismatch } from "@/lib/tanzeem-rules"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import { formatDietaryRequirements } from "@/lib/dietary"
+import { formatPrintProgress } from "@/lib/print-queue"
+import type { PrintProgress } from "@/lib/id-card-pdf"
 import { useRouter } from "next/navigation"
 import {
   exportTajneedToPDF,
   exportTajneedToExcel,
   generateTajneedIDCards,
   generateSingleTajneedIDCard,
-  generateSurplusIDCards,
+  generateHouseholdIDCard,
 } from "@/lib/export"
 
 export default function TajneedPage() {
   const router = useRouter()
   const [members, setMembers] = useState<TajneedMember[]>([])
   const [regions, setRegions] = useState<Region[]>([])
+  const [households, setHouseholds] = useState<Household[]>([])
   const [searchTerm, setSearchTerm] = useState("")
   const [filterTanzeem, setFilterTanzeem] = useState<Tanzeem | "">("")
   const [filterRegion, setFilterRegion] = useState("")
@@ -33,23 +53,31 @@ export default function TajneedPage() {
   const [viewingMember, setViewingMember] = useState<TajneedMember | null>(null)
   const [editingMember, setEditingMember] = useState<TajneedMember | null>(null)
   const [editFormData, setEditFormData] = useState<Partial<TajneedMember>>({})
+  const [editPhoto, setEditPhoto] = useState("")
   const [loading, setLoading] = useState(true)
   const [eventTitle, setEventTitle] = useState("")
   const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
   const [generatingIDs, setGeneratingIDs] = useState(false)
-  const [generatingSurplusIDs, setGeneratingSurplusIDs] = useState(false)
+  const [printProgress, setPrintProgress] = useState<PrintProgress | null>(null)
+  const [assigningCodes, setAssigningCodes] = useState(false)
+  const [reissuingMember, setReissuingMember] = useState<TajneedMember | null>(null)
+  const [showImport, setShowImport] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showTanzeemCheck, setShowTanzeemCheck] = useState(false)
 
-  const tanzeems: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
+  const tanzeems = getTanzeemNames(eventSettings)
 
   const loadData = async () => {
     try {
-      const [membersData, regionsData, settings] = await Promise.all([
+      const [membersData, regionsData, settings, householdsData] = await Promise.all([
         getTajneedMembers(),
         getRegions(),
         getSettings(),
+        getHouseholds(),
       ])
       setMembers(membersData)
       setRegions(regionsData)
+      setHouseholds(householdsData)
       setEventTitle(settings?.eventName || "")
       setEventSettings(settings)
     } catch (error) {
@@ -65,7 +93,7 @@ export default function TajneedPage() {
       return
     }
 
-    if (!hasAnyRole(["Admin"])) {
+    if (!hasPermission("tajneed.view")) {
       router.push("/")
       return
     }
@@ -126,17 +154,32 @@ export default function TajneedPage() {
   const handleEditMember = (member: TajneedMember) => {
     setEditingMember(member)
     setEditFormData(member)
+    setEditPhoto(member.photoUrl || "")
   }
 
   const handleSaveEdit = async () => {
     if (editingMember && editFormData.fullName && editFormData.region && editFormData.jamaat) {
+      const profileError = validateMemberProfile(editFormData)
+      if (profileError) {
+        alert(profileError)
+        return
+      }
+
       try {
         const success = await updateTajneedMember(editingMember.id, {
           fullName: editFormData.fullName,
           tanzeem: editFormData.tanzeem,
           region: editFormData.region,
           jamaat: editFormData.jamaat,
+          ...cleanMemberProfile(editFormData),
+          householdId: editFormData.householdId,
+          householdRole: editFormData.householdId ? editFormData.householdRole || "Other" : undefined,
         })
+        if (success && editPhoto !== (editingMember.photoUrl || "")) {
+          if (!(await setTajneedMemberPhoto(editingMember.id, editPhoto || null))) {
+            alert("Member details were saved, but the photo could not be updated. Please try again.")
+          }
+        }
 
         if (success) {
           const updated = await getTajneedMembers()
@@ -154,7 +197,7 @@ export default function TajneedPage() {
   const filteredMembers = useMemo(() => {
     const term = searchTerm.toLowerCase()
     return members.filter((member) => {
-      const matchesSearch = member.fullName.toLowerCase().includes(term)
+      const matchesSearch = member.fullName.toLowerCase().includes(term) || memberCodeMatches(member, term)
       const matchesTanzeem = !filterTanzeem || member.tanzeem === filterTanzeem
       const matchesRegion = !filterRegion || member.region === filterRegion
       const matchesJamaat = !filterJamaat || member.jamaat === filterJamaat
@@ -163,6 +206,21 @@ export default function TajneedPage() {
     })
   }, [members, searchTerm, filterTanzeem, filterRegion, filterJamaat])
 
+  const uncodedCount = members.filter((member) => !member.memberCode).length
+
+  const handleAssignCodes = async () => {
+    setAssigningCodes(true)
+    try {
+      const assigned = await assignMissingMemberCodes()
+      if (assigned < uncodedCount) {
+        alert(`${assigned} of ${uncodedCount} members were given a code. Please try again for the rest.`)
+      }
+      await loadData()
+    } finally {
+      setAssigningCodes(false)
+    }
+  }
+
   const handleGenerateAllIDs = async () => {
     if (members.length === 0) {
       alert("No members to generate IDs for")
@@ -170,11 +228,29 @@ export default function TajneedPage() {
     }
     setGeneratingIDs(true)
     try {
-      await generateTajneedIDCards(members, `tajneed-ids-${Date.now()}.pdf`, eventTitle, eventSettings)
+      await generateTajneedIDCards(members, `tajneed-ids-${Date.now()}.pdf`, eventTitle, eventSettings, setPrintProgress)
     } catch (error) {
       console.error("Error generating IDs:", error)
     } finally {
       setGeneratingIDs(false)
+      setPrintProgress(null)
+    }
+  }
+
+  const handlePrintFamilyCard = async (householdId: string) => {
+    const household = households.find((h) => h.id === householdId)
+    if (!household) return
+    await generateHouseholdIDCard(household, getHouseholdMembers(householdId, members), eventTitle, eventSettings)
+  }
+
+  const handleDeleteHousehold = async (householdId: string) => {
+    const name = getHouseholdName(householdId, households, members)
+    if (!confirm(`Delete the household "${name}"? Its members stay registered, and its family card stops working.`)) return
+    if (await deleteHousehold(householdId)) {
+      setViewingMember(null)
+      await loadData()
+    } else {
+      alert("Could not delete the household. Please try again.")
     }
   }
 
@@ -196,62 +272,101 @@ export default function TajneedPage() {
         <div className="flex flex-col items-center justify-center mb-6 sm:mb-8 text-center px-2">
           <h1 className="text-2xl sm:text-3xl font-bold text-primary">Tajneed</h1>
           <p className="text-muted-foreground mt-2 text-sm sm:text-base">Manage all registered members</p>
-          <Link href="/tajneed/register" className="w-full sm:w-auto mt-4">
-            <Button className="bg-primary text-primary-foreground w-full sm:w-auto">+ Add Member</Button>
-          </Link>
+          {hasPermission("tajneed.edit") && (
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto mt-4">
+              <Link href="/tajneed/register" className="w-full sm:w-auto">
+                <Button className="bg-primary text-primary-foreground w-full sm:w-auto">+ Add Member</Button>
+              </Link>
+              <Link href="/tajneed/register/family" className="w-full sm:w-auto">
+                <Button variant="outline" className="w-full sm:w-auto">
+                  + Register Family
+                </Button>
+              </Link>
+              <Button onClick={() => setShowImport(true)} variant="outline" className="w-full sm:w-auto">
+                Import from Excel / CSV
+              </Button>
+              <Button onClick={() => setShowDuplicates(true)} variant="outline" className="w-full sm:w-auto">
+                Find Duplicates
+              </Button>
+              <Button onClick={() => setShowTanzeemCheck(true)} variant="outline" className="w-full sm:w-auto">
+                Check Tanzeem
+              </Button>
+              {uncodedCount > 0 && (
+                <Button
+                  onClick={handleAssignCodes}
+                  disabled={assigningCodes}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                >
+                  {assigningCodes ? "Assigning..." : `Assign Member Codes (${uncodedCount})`}
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Export and ID Generation Buttons */}
         <div className="flex flex-col sm:flex-row flex-wrap gap-2 mb-6 justify-center px-2">
-          <Button
-            onClick={() => {
-              const parts: string[] = []
-              if (filterTanzeem) parts.push(filterTanzeem)
-              if (filterRegion) parts.push(filterRegion)
-              if (filterJamaat) parts.push(filterJamaat)
-              const recordLabel = parts.length ? `Tajneed Members (${parts.join(' - ')})` : 'All Tajneed Members'
-              exportTajneedToPDF(filteredMembers, `tajneed-members-${Date.now()}.pdf`, eventTitle, eventSettings, recordLabel)
-            }}
-            className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto text-sm"
-          >
-            Download PDF
-          </Button>
-          <Button
-            onClick={async () => {
-              const parts: string[] = []
-              if (filterTanzeem) parts.push(filterTanzeem)
-              if (filterRegion) parts.push(filterRegion)
-              if (filterJamaat) parts.push(filterJamaat)
-              const recordLabel = parts.length ? `Tajneed Members (${parts.join(' - ')})` : 'All Tajneed Members'
-              await exportTajneedToExcel(filteredMembers, `tajneed-members-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
-            }}
-            className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto text-sm"
-          >
-            Download Excel
-          </Button>
-          <Button
-            onClick={handleGenerateAllIDs}
-            disabled={generatingIDs || members.length === 0}
-            className="bg-purple-600 hover:bg-purple-700 text-white w-full sm:w-auto text-sm"
-          >
-            {generatingIDs ? "Generating..." : "Generate ID"}
-          </Button>
-          <Button
-            onClick={async () => {
-              setGeneratingSurplusIDs(true)
-              try {
-                await generateSurplusIDCards(eventTitle, eventSettings)
-              } catch (error) {
-                console.error("Error generating surplus IDs:", error)
-              } finally {
-                setGeneratingSurplusIDs(false)
-              }
-            }}
-            disabled={generatingSurplusIDs}
-            className="bg-orange-600 hover:bg-orange-700 text-white w-full sm:w-auto text-sm"
-          >
-            {generatingSurplusIDs ? "Generating..." : "Generate Surplus IDs"}
-          </Button>
+          {hasPermission("tajneed.export") && (
+            <Button
+              onClick={() => {
+                const parts: string[] = []
+                if (filterTanzeem) parts.push(filterTanzeem)
+                if (filterRegion) parts.push(filterRegion)
+                if (filterJamaat) parts.push(filterJamaat)
+                const recordLabel = parts.length ? `Tajneed Members (${parts.join(' - ')})` : 'All Tajneed Members'
+                exportTajneedToPDF(filteredMembers, `tajneed-members-${Date.now()}.pdf`, eventTitle, eventSettings, recordLabel)
+              }}
+              className="bg-red-600 hover:bg-red-700 text-white w-full sm:w-auto text-sm"
+            >
+              Download PDF
+            </Button>
+          )}
+          {hasPermission("tajneed.export") && (
+            <Button
+              onClick={async () => {
+                const parts: string[] = []
+                if (filterTanzeem) parts.push(filterTanzeem)
+                if (filterRegion) parts.push(filterRegion)
+                if (filterJamaat) parts.push(filterJamaat)
+                const recordLabel = parts.length ? `Tajneed Members (${parts.join(' - ')})` : 'All Tajneed Members'
+                await exportTajneedToExcel(filteredMembers, `tajneed-members-${Date.now()}.xlsx`, eventTitle, eventSettings, recordLabel)
+              }}
+              className="bg-green-600 hover:bg-green-700 text-white w-full sm:w-auto text-sm"
+            >
+              Download Excel
+            </Button>
+          )}
+          {hasPermission("idcards.print") && (
+            <Button
+              onClick={handleGenerateAllIDs}
+              disabled={generatingIDs || members.length === 0}
+              className="bg-purple-600 hover:bg-purple-700 text-white w-full sm:w-auto text-sm"
+            >
+              {generatingIDs ? (printProgress ? formatPrintProgress(printProgress) : "Generating...") : "Generate ID"}
+            </Button>
+          )}
+          {hasPermission("idcards.print") && (
+            <Link href="/tajneed/print-queue" className="w-full sm:w-auto">
+              <Button variant="outline" className="w-full sm:w-auto text-sm">
+                Print Queue
+              </Button>
+            </Link>
+          )}
+          {hasPermission("idcards.print") && (
+            <Link href="/tajneed/surplus" className="w-full sm:w-auto">
+              <Button className="bg-orange-600 hover:bg-orange-700 text-white w-full sm:w-auto text-sm">
+                Surplus ID Cards
+              </Button>
+            </Link>
+          )}
+          {hasPermission("idcards.revoke") && (
+            <Link href="/tajneed/cards" className="w-full sm:w-auto">
+              <Button variant="outline" className="w-full sm:w-auto text-sm">
+                ID Card Registry
+              </Button>
+            </Link>
+          )}
         </div>
 
         {/* Search and Filters */}
@@ -261,7 +376,7 @@ export default function TajneedPage() {
               <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Search</label>
               <Input
                 type="text"
-                placeholder="Member name"
+                placeholder="Member name or code"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-full text-sm"
@@ -344,19 +459,39 @@ export default function TajneedPage() {
                 ) : (
                   filteredMembers.map((member) => (
                     <tr key={member.id} className="border-b border-border hover:bg-muted transition-colors">
-                      <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm font-medium text-primary">{member.fullName}</td>
-                      <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{member.tanzeem}</td>
+                      <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm font-medium text-primary">
+                        {member.fullName}
+                        {member.memberCode && (
+                          <span className="block text-xs font-mono text-muted-foreground">{member.memberCode}</span>
+                        )}
+                      </td>
+                      <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">
+                        <TanzeemDot tanzeem={member.tanzeem} eventSettings={eventSettings} />
+                        {member.tanzeem}
+                        <TanzeemMismatchBadge member={member} eventSettings={eventSettings} />
+                      </td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{member.region}</td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{member.jamaat}</td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm">
                         <div className="flex items-center gap-1 sm:gap-2 flex-wrap">
-                          <button
-                            onClick={() => handleGenerateSingleID(member)}
-                            className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200 whitespace-nowrap"
-                            title="Generate ID Card"
-                          >
-                            ID
-                          </button>
+                          {hasPermission("idcards.print") && (
+                            <button
+                              onClick={() => handleGenerateSingleID(member)}
+                              className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200 whitespace-nowrap"
+                              title="Generate ID Card"
+                            >
+                              ID
+                            </button>
+                          )}
+                          {hasPermission("idcards.revoke") && (
+                            <button
+                              onClick={() => setReissuingMember(member)}
+                              className="px-2 py-1 text-xs bg-rose-100 text-rose-700 rounded hover:bg-rose-200 whitespace-nowrap"
+                              title="Revoke and reissue ID card"
+                            >
+                              Reissue
+                            </button>
+                          )}
                           <button
                             onClick={() => setViewingMember(member)}
                             className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 whitespace-nowrap"
@@ -364,20 +499,24 @@ export default function TajneedPage() {
                           >
                             View
                           </button>
-                          <button
-                            onClick={() => handleEditMember(member)}
-                            className="px-2 py-1 text-xs bg-amber-100 text-amber-700 rounded hover:bg-amber-200 whitespace-nowrap"
-                            title="Edit"
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDeleteMember(member.id)}
-                            className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
-                            title="Delete"
-                          >
-                            Delete
-                          </button>
+                          {hasPermission("tajneed.edit") && (
+                            <button
+                              onClick={() => handleEditMember(member)}
+                              className="px-2 py-1 text-xs bg-amber-100 text-amber-700 rounded hover:bg-amber-200 whitespace-nowrap"
+                              title="Edit"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {hasPermission("tajneed.edit") && (
+                            <button
+                              onClick={() => handleDeleteMember(member.id)}
+                              className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                              title="Delete"
+                            >
+                              Delete
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -400,12 +539,17 @@ export default function TajneedPage() {
                 <div className="flex items-start justify-between">
                   <div className="flex-1 min-w-0">
                     <h3 className="text-sm font-semibold text-primary truncate">{member.fullName}</h3>
+                    {member.memberCode && (
+                      <p className="text-xs font-mono text-muted-foreground">{member.memberCode}</p>
+                    )}
                   </div>
                 </div>
                 <div className="grid grid-cols-2 gap-2 text-xs">
                   <div>
                     <span className="text-muted-foreground">Tanzeem: </span>
+                    <TanzeemDot tanzeem={member.tanzeem} eventSettings={eventSettings} />
                     <span className="text-foreground font-medium">{member.tanzeem}</span>
+                    <TanzeemMismatchBadge member={member} eventSettings={eventSettings} />
                   </div>
                   <div>
                     <span className="text-muted-foreground">Region: </span>
@@ -417,13 +561,24 @@ export default function TajneedPage() {
                   </div>
                 </div>
                 <div className="flex flex-wrap gap-2 pt-2">
-                  <button
-                    onClick={() => handleGenerateSingleID(member)}
-                    className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200"
-                    title="Generate ID Card"
-                  >
-                    ID
-                  </button>
+                  {hasPermission("idcards.print") && (
+                    <button
+                      onClick={() => handleGenerateSingleID(member)}
+                      className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200"
+                      title="Generate ID Card"
+                    >
+                      ID
+                    </button>
+                  )}
+                  {hasPermission("idcards.revoke") && (
+                    <button
+                      onClick={() => setReissuingMember(member)}
+                      className="px-2 py-1 text-xs bg-rose-100 text-rose-700 rounded hover:bg-rose-200"
+                      title="Revoke and reissue ID card"
+                    >
+                      Reissue
+                    </button>
+                  )}
                   <button
                     onClick={() => setViewingMember(member)}
                     className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
@@ -431,20 +586,24 @@ export default function TajneedPage() {
                   >
                     View
                   </button>
-                  <button
-                    onClick={() => handleEditMember(member)}
-                    className="px-2 py-1 text-xs bg-amber-100 text-amber-700 rounded hover:bg-amber-200"
-                    title="Edit"
-                  >
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => handleDeleteMember(member.id)}
-                    className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
-                    title="Delete"
-                  >
-                    Delete
-                  </button>
+                  {hasPermission("tajneed.edit") && (
+                    <button
+                      onClick={() => handleEditMember(member)}
+                      className="px-2 py-1 text-xs bg-amber-100 text-amber-700 rounded hover:bg-amber-200"
+                      title="Edit"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {hasPermission("tajneed.edit") && (
+                    <button
+                      onClick={() => handleDeleteMember(member.id)}
+                      className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+                      title="Delete"
+                    >
+                      Delete
+                    </button>
+                  )}
                 </div>
               </div>
             ))
@@ -464,10 +623,23 @@ export default function TajneedPage() {
             <div className="bg-card rounded-lg p-6 sm:p-8 max-w-md w-full my-4">
               <h2 className="text-2xl font-bold text-primary mb-4 text-center">Member Details</h2>
               <div className="space-y-3">
+                {viewingMember.photoUrl && (
+                  <img
+                    src={viewingMember.photoUrl}
+                    alt={viewingMember.fullName}
+                    className="w-24 h-30 object-cover rounded border border-border mx-auto"
+                  />
+                )}
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground">Full Name</p>
                   <p className="text-lg font-semibold text-foreground">{viewingMember.fullName}</p>
                 </div>
+                {viewingMember.memberCode && (
+                  <div className="text-center">
+                    <p className="text-sm text-muted-foreground">Member Code</p>
+                    <p className="text-lg font-semibold font-mono text-foreground">{viewingMember.memberCode}</p>
+                  </div>
+                )}
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground">Tanzeem</p>
                   <p className="text-lg font-semibold text-foreground">{viewingMember.tanzeem}</p>
@@ -480,6 +652,59 @@ export default function TajneedPage() {
                   <p className="text-sm text-muted-foreground">Jamaat</p>
                   <p className="text-lg font-semibold text-foreground">{viewingMember.jamaat}</p>
                 </div>
+                {[
+                  { label: "Gender", value: viewingMember.gender },
+                  {
+                    label: "Date of Birth",
+                    value:
+                      viewingMember.dateOfBirth &&
+                      `${new Date(viewingMember.dateOfBirth).toLocaleDateString()} (age ${getAge(viewingMember.dateOfBirth)})`,
+                  },
+                  { label: "Phone", value: viewingMember.phone },
+                  { label: "Email", value: viewingMember.email },
+                  { label: "National ID / AIMS Number", value: viewingMember.aimsNumber },
+                  { label: "Dietary Requirements", value: formatDietaryRequirements(viewingMember) },
+                ]
+                  .filter((field) => field.value)
+                  .map((field) => (
+                    <div key={field.label} className="text-center">
+                      <p className="text-sm text-muted-foreground">{field.label}</p>
+                      <p className="text-lg font-semibold text-foreground break-all">{field.value}</p>
+                    </div>
+                  ))}
+                {viewingMember.householdId && (
+                  <div className="text-center">
+                    <p className="text-sm text-muted-foreground">Household</p>
+                    <p className="text-lg font-semibold text-foreground">
+                      {getHouseholdName(viewingMember.householdId, households, members)}
+                      {viewingMember.householdRole && ` (${viewingMember.householdRole})`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {getHouseholdMembers(viewingMember.householdId, members)
+                        .filter((member) => member.id !== viewingMember.id)
+                        .map((member) => member.fullName)
+                        .join(", ")}
+                    </p>
+                    <div className="flex justify-center gap-2 mt-2">
+                      {hasPermission("idcards.print") && (
+                        <button
+                          onClick={() => handlePrintFamilyCard(viewingMember.householdId!)}
+                          className="px-2 py-1 text-xs bg-purple-100 text-purple-700 rounded hover:bg-purple-200 whitespace-nowrap"
+                        >
+                          Print Family Card
+                        </button>
+                      )}
+                      {hasPermission("tajneed.edit") && (
+                        <button
+                          onClick={() => handleDeleteHousehold(viewingMember.householdId!)}
+                          className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                        >
+                          Delete Household
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <div className="text-center">
                   <p className="text-sm text-muted-foreground">Registered At</p>
                   <p className="text-lg font-semibold text-foreground">
@@ -494,6 +719,38 @@ export default function TajneedPage() {
           </div>
         )}
 
+        {showImport && (
+          <TajneedImportWizard
+            regions={regions}
+            members={members}
+            eventSettings={eventSettings}
+            onClose={() => setShowImport(false)}
+            onImported={loadData}
+          />
+        )}
+
+        {showDuplicates && (
+          <DuplicateMembersDialog members={members} onClose={() => setShowDuplicates(false)} onMerged={loadData} />
+        )}
+
+        {showTanzeemCheck && (
+          <TanzeemCheckDialog
+            members={members}
+            eventSettings={eventSettings}
+            onClose={() => setShowTanzeemCheck(false)}
+            onReclassified={loadData}
+          />
+        )}
+
+        {reissuingMember && (
+          <ReissueCardDialog
+            member={reissuingMember}
+            eventTitle={eventTitle}
+            eventSettings={eventSettings}
+            onClose={() => setReissuingMember(null)}
+          />
+        )}
+
         {/* Edit Modal */}
         {editingMember && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
@@ -522,6 +779,12 @@ export default function TajneedPage() {
                       </option>
                     ))}
                   </select>
+                  <TanzeemSuggestionHint
+                    member={{ ...editingMember, ...editFormData }}
+                    tanzeem={editFormData.tanzeem || ""}
+                    eventSettings={eventSettings}
+                    onUse={(tanzeem) => setEditFormData({ ...editFormData, tanzeem })}
+                  />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-foreground mb-2 text-center">Region</label>
@@ -554,6 +817,48 @@ export default function TajneedPage() {
                     ))}
                   </select>
                 </div>
+                {households.length > 0 && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-2 text-center">Household</label>
+                      <select
+                        value={editFormData.householdId || ""}
+                        onChange={(e) => setEditFormData({ ...editFormData, householdId: e.target.value || undefined })}
+                        className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                      >
+                        <option value="">None</option>
+                        {households.map((household) => (
+                          <option key={household.id} value={household.id}>
+                            {household.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-2 text-center">Role</label>
+                      <select
+                        value={editFormData.householdRole || "Other"}
+                        onChange={(e) =>
+                          setEditFormData({ ...editFormData, householdRole: e.target.value as HouseholdRole })
+                        }
+                        className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                        disabled={!editFormData.householdId}
+                      >
+                        {HOUSEHOLD_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+                <MemberProfileFields
+                  profile={getMemberProfile({ ...editingMember, ...editFormData })}
+                  onProfileChange={(profile) => setEditFormData({ ...editFormData, ...profile })}
+                  photo={editPhoto}
+                  onPhotoChange={setEditPhoto}
+                />
               </div>
               <div className="flex gap-2 mt-6">
                 <Button onClick={handleSaveEdit} className="flex-1 bg-primary text-primary-foreground">
@@ -571,3 +876,17 @@ export default function TajneedPage() {
   )
 }
 
+
+// Flags a member whose gender and age call for a different tanzeem
+function TanzeemMismatchBadge({ member, eventSettings }: { member: TajneedMember; eventSettings?: EventSettings }) {
+  const mismatch = getTanzeemMismatch(member, eventSettings)
+  if (!mismatch) return null
+  return (
+    <span
+      title={`Age ${mismatch.age} suggests ${mismatch.tanzeem}`}
+      className="ml-1 px-1.5 py-0.5 text-[10px] bg-amber-100 text-amber-800 rounded whitespace-nowrap"
+    >
+      → {mismatch.tanzeem}
+    </span>
+  )
+}
@@ -0,0 +1,393 @@
+"use client"
+
+import { Fragment, useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { getCardPrints, getIDCards, getRegions, getSettings, getTajneedMembers, markIDCardsPrinted } from "@/lib/storage"
+import {
+  PRINT_QUEUE_REASONS,
+  formatPrintProgress,
+  getPrintQueue,
+  getPrintsByMember,
+  type PrintQueueReason,
+} from "@/lib/print-queue"
+import { generateTajneedIDCards } from "@/lib/export"
+import type { PrintProgress } from "@/lib/id-card-pdf"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import type { CardPrint, EventSettings, IDCard, Region, Tanzeem, TajneedMember } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { TanzeemDot } from "@/components/tanzeem-dot"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+
+const REASON_BADGES: Record<PrintQueueReason, string> = {
+  never: "bg-blue-100 text-blue-700",
+  reissued: "bg-red-100 text-red-700",
+  changed: "bg-amber-100 text-amber-700",
+}
+
+const formatPrint = (print: CardPrint) =>
+  `${new Date(print.printedAt).toLocaleString()}${print.printedBy ? ` · ${print.printedBy}` : ""}`
+
+export default function PrintQueuePage() {
+  const router = useRouter()
+  const [members, setMembers] = useState<TajneedMember[]>([])
+  const [cards, setCards] = useState<IDCard[]>([])
+  const [prints, setPrints] = useState<CardPrint[]>([])
+  const [regions, setRegions] = useState<Region[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [showAll, setShowAll] = useState(false)
+  const [filterTanzeem, setFilterTanzeem] = useState<Tanzeem | "">("")
+  const [filterRegion, setFilterRegion] = useState("")
+  const [filterJamaat, setFilterJamaat] = useState("")
+  const [filterReason, setFilterReason] = useState<PrintQueueReason | "">("")
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<PrintProgress | null>(null)
+  const [printing, setPrinting] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const loadData = async () => {
+    try {
+      const [membersData, cardsData, printsData, regionsData, settings] = await Promise.all([
+        getTajneedMembers(),
+        getIDCards(),
+        getCardPrints(),
+        getRegions(),
+        getSettings(),
+      ])
+      setMembers(membersData)
+      setCards(cardsData)
+      setPrints(printsData)
+      setRegions(regionsData)
+      setEventSettings(settings)
+    } catch (error) {
+      console.error("Error loading print queue:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push("/login")
+      return
+    }
+
+    if (!hasPermission("idcards.print")) {
+      router.push("/tajneed")
+      return
+    }
+
+    loadData()
+  }, [router])
+
+  const queue = useMemo(() => getPrintQueue(members, cards, prints), [members, cards, prints])
+  const reasons = useMemo(() => new Map(queue.map((entry) => [entry.member.id, entry.reason])), [queue])
+  const printsByMember = useMemo(() => getPrintsByMember(prints), [prints])
+
+  const filteredMembers = useMemo(
+    () =>
+      members
+        .filter((member) => {
+          const reason = reasons.get(member.id)
+          if (!showAll && !reason) return false
+          if (filterReason && reason !== filterReason) return false
+          return (
+            (!filterTanzeem || member.tanzeem === filterTanzeem) &&
+            (!filterRegion || member.region === filterRegion) &&
+            (!filterJamaat || member.jamaat === filterJamaat)
+          )
+        })
+        .sort((a, b) => a.fullName.localeCompare(b.fullName)),
+    [members, reasons, showAll, filterReason, filterTanzeem, filterRegion, filterJamaat],
+  )
+
+  const selectedMembers = filteredMembers.filter((member) => selectedIds.has(member.id))
+  const allSelected = filteredMembers.length > 0 && selectedMembers.length === filteredMembers.length
+
+  const jamaats = filterRegion
+    ? regions.find((r) => r.name === filterRegion)?.jamaat || []
+    : Array.from(new Set(regions.flatMap((r) => r.jamaat))).sort()
+
+  const countByReason = (reason: PrintQueueReason) => queue.filter((entry) => entry.reason === reason).length
+
+  const toggleSelected = (memberId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(memberId)) next.delete(memberId)
+      else next.add(memberId)
+      return next
+    })
+  }
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(filteredMembers.map((member) => member.id)))
+  }
+
+  const handlePrint = async () => {
+    if (selectedMembers.length === 0) return
+    setPrinting(true)
+    try {
+      await generateTajneedIDCards(
+        selectedMembers,
+        `tajneed-ids-${Date.now()}.pdf`,
+        eventSettings?.eventName,
+        eventSettings,
+        setProgress,
+      )
+      setSelectedIds(new Set())
+      await loadData()
+    } finally {
+      setPrinting(false)
+      setProgress(null)
+    }
+  }
+
+  const handleMarkPrinted = async () => {
+    if (selectedMembers.length === 0) return
+    if (!confirm(`Mark ${selectedMembers.length} member(s) as printed without printing their cards?`)) return
+    setPrinting(true)
+    try {
+      if (await markIDCardsPrinted(selectedMembers)) {
+        setSelectedIds(new Set())
+        await loadData()
+      } else {
+        alert("Could not mark the cards as printed. Please try again.")
+      }
+    } finally {
+      setPrinting(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="p-8 text-center">Loading print queue...</div>
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col items-center justify-center mb-6 sm:mb-8 text-center px-2">
+          <h1 className="text-2xl sm:text-3xl font-bold text-primary">ID Card Print Queue</h1>
+          <p className="text-muted-foreground mt-2 text-sm sm:text-base">
+            Members without a printed card, or whose card was reissued or details changed since it was printed.
+          </p>
+          <Link href="/tajneed" className="w-full sm:w-auto mt-4">
+            <Button variant="outline" className="w-full sm:w-auto">
+              Back to Tajneed
+            </Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6">
+          {(Object.keys(PRINT_QUEUE_REASONS) as PrintQueueReason[]).map((reason) => (
+            <div key={reason} className="bg-card border border-border rounded-lg p-4 text-center">
+              <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">{PRINT_QUEUE_REASONS[reason]}</p>
+              <p className="text-2xl sm:text-3xl font-bold text-primary">{countByReason(reason)}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Tanzeem</label>
+              <select
+                value={filterTanzeem}
+                onChange={(e) => setFilterTanzeem(e.target.value as Tanzeem | "")}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Tanzeems</option>
+                {getTanzeemNames(eventSettings).map((tanzeem) => (
+                  <option key={tanzeem} value={tanzeem}>
+                    {tanzeem}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Region</label>
+              <select
+                value={filterRegion}
+                onChange={(e) => {
+                  setFilterRegion(e.target.value)
+                  setFilterJamaat("")
+                }}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Regions</option>
+                {regions.map((r) => (
+                  <option key={r.id} value={r.name}>
+                    {r.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Jamaat</label>
+              <select
+                value={filterJamaat}
+                onChange={(e) => setFilterJamaat(e.target.value)}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">All Jamaat</option>
+                {jamaats.map((j) => (
+                  <option key={j} value={j}>
+                    {j}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Reason</label>
+              <select
+                value={filterReason}
+                onChange={(e) => setFilterReason(e.target.value as PrintQueueReason | "")}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">Any Reason</option>
+                {(Object.keys(PRINT_QUEUE_REASONS) as PrintQueueReason[]).map((reason) => (
+                  <option key={reason} value={reason}>
+                    {PRINT_QUEUE_REASONS[reason]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <label className="flex items-center gap-2 mt-4 text-sm text-foreground">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show members whose cards are printed (print log)
+          </label>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-4">
+          <Button
+            onClick={handlePrint}
+            disabled={printing || selectedMembers.length === 0}
+            className="bg-purple-600 hover:bg-purple-700 text-white w-full sm:w-auto text-sm"
+          >
+            {printing && progress ? formatPrintProgress(progress) : `Print Selected (${selectedMembers.length})`}
+          </Button>
+          <Button
+            onClick={handleMarkPrinted}
+            disabled={printing || selectedMembers.length === 0}
+            variant="outline"
+            className="w-full sm:w-auto text-sm"
+          >
+            Mark as Printed
+          </Button>
+          {progress && (
+            <div className="flex-1 h-2 bg-muted rounded overflow-hidden" aria-label={formatPrintProgress(progress)}>
+              <div
+                className="h-full bg-purple-600 transition-all"
+                style={{
+                  // Preparing fills the first half of the bar, rendering the second
+                  width: `${((progress.stage === "rendering" ? 50 : 0) + (progress.done / Math.max(1, progress.total)) * 50).toFixed(1)}%`,
+                }}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="bg-card border border-border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 text-left">
+                    <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all" />
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Member</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Tanzeem</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Region</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Jamaat</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Status</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Last Printed</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Prints</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredMembers.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-muted-foreground">
+                      {showAll ? "No members found" : "Every card is printed"}
+                    </td>
+                  </tr>
+                ) : (
+                  filteredMembers.map((member) => {
+                    const reason = reasons.get(member.id)
+                    const memberPrints = printsByMember.get(member.id) || []
+                    return (
+                      <Fragment key={member.id}>
+                        <tr className="border-b border-border hover:bg-muted transition-colors">
+                          <td className="px-4 py-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(member.id)}
+                              onChange={() => toggleSelected(member.id)}
+                              aria-label={`Select ${member.fullName}`}
+                            />
+                          </td>
+                          <td className="px-4 py-3 text-xs sm:text-sm font-medium text-primary">{member.fullName}</td>
+                          <td className="px-4 py-3 text-xs sm:text-sm text-foreground">
+                            <TanzeemDot tanzeem={member.tanzeem} eventSettings={eventSettings} />
+                            {member.tanzeem}
+                          </td>
+                          <td className="px-4 py-3 text-xs sm:text-sm text-foreground">{member.region}</td>
+                          <td className="px-4 py-3 text-xs sm:text-sm text-foreground">{member.jamaat}</td>
+                          <td className="px-4 py-3 text-xs sm:text-sm">
+                            {reason ? (
+                              <span className={`px-2 py-1 rounded text-xs font-medium ${REASON_BADGES[reason]}`}>
+                                {PRINT_QUEUE_REASONS[reason]}
+                              </span>
+                            ) : (
+                              <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-700">
+                                Printed
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3 text-xs sm:text-sm text-foreground">
+                            {memberPrints[0] ? formatPrint(memberPrints[0]) : "–"}
+                          </td>
+                          <td className="px-4 py-3 text-xs sm:text-sm">
+                            {memberPrints.length > 0 ? (
+                              <button
+                                onClick={() => setExpandedId(expandedId === member.id ? null : member.id)}
+                                className="text-primary hover:underline"
+                                title="Show print log"
+                              >
+                                {memberPrints.length}
+                              </button>
+                            ) : (
+                              0
+                            )}
+                          </td>
+                        </tr>
+                        {expandedId === member.id && (
+                          <tr className="border-b border-border bg-muted/50">
+                            <td />
+                            <td colSpan={7} className="px-4 py-3">
+                              <ul className="space-y-1 text-xs text-foreground">
+                                {memberPrints.map((print) => (
+                                  <li key={print.id}>
+                                    {formatPrint(print)}
+                                    <span className="ml-2 font-mono text-muted-foreground" title={print.cardId}>
+                                      {print.cardId.slice(0, 8)}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
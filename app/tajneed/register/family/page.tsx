@@ -0,0 +1,389 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import { registerHousehold, getRegions, getSettings } from "@/lib/storage"
+import { suggestTanzeem } from "@/lib/tanzeem-rules"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import { GENDERS, validateMemberProfile } from "@/lib/member-profile"
+import { HOUSEHOLD_ROLES, getHouseholdMembers } from "@/lib/households"
+import { generateHouseholdIDCard } from "@/lib/export"
+import type { TajneedMember, Region, Tanzeem, EventSettings, Gender, Household, HouseholdRole } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { TanzeemSuggestionHint } from "@/components/tanzeem-suggestion-hint"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { CheckCircle2 } from "lucide-react"
+
+interface FamilyMemberRow {
+  key: number
+  fullName: string
+  householdRole: HouseholdRole
+  tanzeem: Tanzeem | ""
+  gender?: Gender
+  dateOfBirth: string
+}
+
+let nextRowKey = 0
+const newRow = (householdRole: HouseholdRole): FamilyMemberRow => ({
+  key: nextRowKey++,
+  fullName: "",
+  householdRole,
+  tanzeem: "",
+  dateOfBirth: "",
+})
+
+export default function RegisterFamilyPage() {
+  const router = useRouter()
+  const [regions, setRegions] = useState<Region[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [pageLoading, setPageLoading] = useState(true)
+  const [registered, setRegistered] = useState<{ household: Household; members: TajneedMember[]; failed: number } | null>(
+    null,
+  )
+
+  const [householdName, setHouseholdName] = useState("")
+  const [region, setRegion] = useState("")
+  const [jamaat, setJamaat] = useState("")
+  const [rows, setRows] = useState<FamilyMemberRow[]>(() => [newRow("Head"), newRow("Spouse")])
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push("/login")
+      return
+    }
+
+    if (!hasPermission("tajneed.edit")) {
+      router.push("/")
+      return
+    }
+
+    const loadData = async () => {
+      try {
+        const [regionsData, settings] = await Promise.all([getRegions(), getSettings()])
+        setRegions(regionsData)
+        setEventSettings(settings)
+      } catch (error) {
+        console.error("Error loading regions:", error)
+      } finally {
+        setPageLoading(false)
+      }
+    }
+
+    loadData()
+  }, [router])
+
+  const getJamaatForRegion = (regionName: string) => {
+    const match = regions.find((r) => r.name === regionName)
+    return match?.jamaat || []
+  }
+
+  // Like the single-member form, the tanzeem is filled in from gender and date of birth unless already chosen
+  const updateRow = (key: number, changes: Partial<FamilyMemberRow>) => {
+    setRows((current) =>
+      current.map((row) => {
+        if (row.key !== key) return row
+        const next = { ...row, ...changes }
+        const suggestion = suggestTanzeem(next, eventSettings)
+        return suggestion && !next.tanzeem ? { ...next, tanzeem: suggestion.tanzeem } : next
+      }),
+    )
+  }
+
+  const resetForm = () => {
+    setHouseholdName("")
+    setRegion("")
+    setJamaat("")
+    setRows([newRow("Head"), newRow("Spouse")])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    const members = rows.filter((row) => row.fullName.trim())
+    if (!householdName.trim()) {
+      setError("Family name is required")
+      return
+    }
+    if (!region || !jamaat) {
+      setError("Region and Jamaat are required")
+      return
+    }
+    if (members.length === 0) {
+      setError("Add at least one family member")
+      return
+    }
+    const missingTanzeem = members.find((row) => !row.tanzeem)
+    if (missingTanzeem) {
+      setError(`Choose a tanzeem for ${missingTanzeem.fullName}`)
+      return
+    }
+    for (const row of members) {
+      const profileError = validateMemberProfile(row)
+      if (profileError) {
+        setError(`${row.fullName}: ${profileError}`)
+        return
+      }
+    }
+
+    setLoading(true)
+    try {
+      const result = await registerHousehold(
+        householdName.trim(),
+        members.map((row) => ({
+          fullName: row.fullName.trim(),
+          tanzeem: row.tanzeem as Tanzeem,
+          region,
+          jamaat,
+          householdRole: row.householdRole,
+          gender: row.gender,
+          dateOfBirth: row.dateOfBirth || undefined,
+        })),
+      )
+      if (!result) {
+        setError("Failed to register family")
+        return
+      }
+      setRegistered({
+        household: result.household,
+        members: getHouseholdMembers(result.household.id, result.members),
+        failed: members.length - result.members.length,
+      })
+      resetForm()
+    } catch (err) {
+      setError("Failed to register family")
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (pageLoading) {
+    return <div className="p-8 text-center">Loading...</div>
+  }
+
+  if (registered) {
+    return (
+      <main className="min-h-screen bg-background">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="bg-card border border-border rounded-2xl p-8 shadow-lg">
+            <div className="flex flex-col items-center gap-6 text-center">
+              <CheckCircle2 className="h-16 w-16 text-green-600" />
+              <div className="space-y-2">
+                <h1 className="text-3xl font-bold text-primary">{registered.household.name} Registered</h1>
+                <p className="text-muted-foreground">
+                  {registered.members.length} member(s) were added to Tajneed.
+                  {registered.failed > 0 && ` ${registered.failed} could not be saved; please add them individually.`}
+                </p>
+              </div>
+
+              <div className="w-full rounded-xl border border-border/70 bg-background/70 p-6 text-left shadow-sm space-y-2">
+                {registered.members.map((member) => (
+                  <div key={member.id} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="font-semibold text-foreground">{member.fullName}</span>
+                    <span className="text-muted-foreground">
+                      {member.householdRole} · {member.tanzeem}
+                      {member.memberCode && <span className="font-mono"> · {member.memberCode}</span>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex w-full flex-col gap-3 sm:flex-row sm:justify-center">
+                {hasPermission("idcards.print") && registered.members.length > 0 && (
+                  <Button
+                    onClick={async () => {
+                      const settings = await getSettings()
+                      await generateHouseholdIDCard(registered.household, registered.members, settings.eventName, settings)
+                    }}
+                    className="w-full sm:w-auto bg-primary text-primary-foreground"
+                  >
+                    Print Family Card
+                  </Button>
+                )}
+                <Button onClick={() => setRegistered(null)} variant="outline" className="w-full sm:w-auto">
+                  Register Another Family
+                </Button>
+                <Link href="/tajneed" className="w-full sm:w-auto">
+                  <Button variant="outline" className="w-full sm:w-auto">
+                    Back to Tajneed
+                  </Button>
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl font-bold text-primary mb-2">Register a Family</h1>
+        <p className="text-muted-foreground mb-8">
+          Members registered together share a region and jamaat and can be checked in at once with a family card.
+        </p>
+
+        <div className="bg-card border border-border rounded-lg p-6 sm:p-8">
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-foreground mb-2">Family Name</label>
+              <Input
+                type="text"
+                value={householdName}
+                onChange={(e) => setHouseholdName(e.target.value)}
+                placeholder="e.g. Ahmad Family"
+                className="w-full"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Region</label>
+                <select
+                  value={region}
+                  onChange={(e) => {
+                    setRegion(e.target.value)
+                    setJamaat("")
+                  }}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                >
+                  <option value="">Select Region</option>
+                  {regions.map((r) => (
+                    <option key={r.id} value={r.name}>
+                      {r.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-foreground mb-2">Jamaat</label>
+                <select
+                  value={jamaat}
+                  onChange={(e) => setJamaat(e.target.value)}
+                  className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                  disabled={!region}
+                >
+                  <option value="">Select Jamaat</option>
+                  {getJamaatForRegion(region).map((j) => (
+                    <option key={j} value={j}>
+                      {j}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h2 className="text-lg font-semibold text-foreground">Family Members</h2>
+              {rows.map((row) => (
+                <div key={row.key} className="border border-border rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div className="sm:col-span-2">
+                      <label className="block text-xs font-medium text-foreground mb-1">Full Name</label>
+                      <Input
+                        type="text"
+                        value={row.fullName}
+                        onChange={(e) => updateRow(row.key, { fullName: e.target.value })}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-foreground mb-1">Role</label>
+                      <select
+                        value={row.householdRole}
+                        onChange={(e) => updateRow(row.key, { householdRole: e.target.value as HouseholdRole })}
+                        className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                      >
+                        {HOUSEHOLD_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-foreground mb-1">Gender</label>
+                      <select
+                        value={row.gender || ""}
+                        onChange={(e) => updateRow(row.key, { gender: (e.target.value as Gender) || undefined })}
+                        className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                      >
+                        <option value="">Not specified</option>
+                        {GENDERS.map((gender) => (
+                          <option key={gender} value={gender}>
+                            {gender}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-foreground mb-1">Date of Birth</label>
+                      <Input
+                        type="date"
+                        value={row.dateOfBirth}
+                        onChange={(e) => updateRow(row.key, { dateOfBirth: e.target.value })}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-foreground mb-1">Tanzeem</label>
+                      <select
+                        value={row.tanzeem}
+                        onChange={(e) => updateRow(row.key, { tanzeem: e.target.value as Tanzeem })}
+                        className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+                      >
+                        <option value="">Select Tanzeem</option>
+                        {getTanzeemNames(eventSettings).map((cat) => (
+                          <option key={cat} value={cat}>
+                            {cat}
+                          </option>
+                        ))}
+                      </select>
+                      <TanzeemSuggestionHint
+                        member={row}
+                        tanzeem={row.tanzeem}
+                        eventSettings={eventSettings}
+                        onUse={(tanzeem) => updateRow(row.key, { tanzeem })}
+                      />
+                    </div>
+                  </div>
+                  {rows.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setRows(rows.filter((r) => r.key !== row.key))}
+                      className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+              <Button type="button" variant="outline" onClick={() => setRows([...rows, newRow("Child")])}>
+                + Add Family Member
+              </Button>
+            </div>
+
+            {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>}
+
+            <div className="flex gap-4">
+              <Button type="submit" disabled={loading} className="bg-primary text-primary-foreground">
+                {loading ? "Saving..." : "Register Family"}
+              </Button>
+              <Button type="button" onClick={() => router.back()} variant="outline">
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </main>
+  )
+}
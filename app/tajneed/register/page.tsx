@@ -3,18 +3,25 @@
 import type React from "react"
 
 import { useEffect, useState } from "react"
-import { saveTajneedMember, getRegions, getCurrentEventId } from "@/lib/storage"
-import type { TajneedMember, Region, Tanzeem } from "@/lib/types"
+import { saveTajneedMember, getRegions, getCurrentEventId, setTajneedMemberPhoto, getSettings } from "@/lib/storage"
+import { suggestTanzeem } from "@/lib/tanzeem-rules"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import { EMPTY_MEMBER_PROFILE, cleanMemberProfile, validateMemberProfile, type MemberProfile } from "@/lib/member-profile"
+import type { TajneedMember, Region, Tanzeem, EventSettings } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { isAuthenticated, hasAnyRole } from "@/lib/auth"
+import { MemberProfileFields } from "@/components/member-profile-fields"
+import { TanzeemSuggestionHint } from "@/components/tanzeem-suggestion-hint"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { CheckCircle2 } from "lucide-react"
+import { toast } from "sonner"
 
 export default function RegisterTajneedMemberPage() {
   const router = useRouter()
   const [regions, setRegions] = useState<Region[]>([])
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
   const [pageLoading, setPageLoading] = useState(true)
@@ -26,8 +33,10 @@ export default function RegisterTajneedMemberPage() {
     region: "",
     jamaat: "",
   })
+  const [profile, setProfile] = useState<MemberProfile>(EMPTY_MEMBER_PROFILE)
+  const [photo, setPhoto] = useState("")
 
-  const categories: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
+  const categories = getTanzeemNames(eventSettings)
 
   useEffect(() => {
     if (!isAuthenticated()) {
@@ -35,15 +44,16 @@ export default function RegisterTajneedMemberPage() {
       return
     }
 
-    if (!hasAnyRole(["Admin"])) {
+    if (!hasPermission("tajneed.edit")) {
       router.push("/")
       return
     }
 
     const loadData = async () => {
       try {
-        const regionsData = await getRegions()
+        const [regionsData, settings] = await Promise.all([getRegions(), getSettings()])
         setRegions(regionsData)
+        setEventSettings(settings)
       } catch (error) {
         console.error("Error loading regions:", error)
       } finally {
@@ -54,6 +64,13 @@ export default function RegisterTajneedMemberPage() {
     loadData()
   }, [router])
 
+  // Fill in the tanzeem once gender and date of birth give one, unless it was already chosen
+  const handleProfileChange = (next: MemberProfile) => {
+    setProfile(next)
+    const suggestion = suggestTanzeem(next, eventSettings)
+    if (suggestion && !formData.tanzeem) setFormData({ ...formData, tanzeem: suggestion.tanzeem })
+  }
+
   const getJamaatForRegion = (regionName: string) => {
     const region = regions.find((r) => r.name === regionName)
     return region?.jamaat || []
@@ -75,6 +92,11 @@ export default function RegisterTajneedMemberPage() {
       setError("Jamaat is required")
       return
     }
+    const profileError = validateMemberProfile(profile)
+    if (profileError) {
+      setError(profileError)
+      return
+    }
 
     setLoading(true)
 
@@ -91,16 +113,22 @@ export default function RegisterTajneedMemberPage() {
         tanzeem: formData.tanzeem,
         region: formData.region,
         jamaat: formData.jamaat,
+        ...cleanMemberProfile(profile),
       })
 
       if (savedMember) {
+        if (photo && !(await setTajneedMemberPhoto(savedMember.id, photo))) {
+          toast.warning("Photo not saved", { description: "The member was added, but the photo could not be uploaded." })
+        }
         setSuccessfulMember(savedMember)
         setFormData({
           fullName: "",
-          tanzeem: "Khuddam",
+          tanzeem: "" as Tanzeem,
           region: "",
           jamaat: "",
         })
+        setProfile(EMPTY_MEMBER_PROFILE)
+        setPhoto("")
       } else {
         setError("Failed to register member")
       }
@@ -152,6 +180,12 @@ export default function RegisterTajneedMemberPage() {
                     <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Jamaat</p>
                     <p className="text-base font-semibold text-foreground">{successfulMember.jamaat}</p>
                   </div>
+                  {successfulMember.memberCode && (
+                    <div>
+                      <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Member Code</p>
+                      <p className="text-base font-semibold font-mono text-foreground">{successfulMember.memberCode}</p>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -206,6 +240,12 @@ export default function RegisterTajneedMemberPage() {
                   </option>
                 ))}
               </select>
+              <TanzeemSuggestionHint
+                member={profile}
+                tanzeem={formData.tanzeem}
+                eventSettings={eventSettings}
+                onUse={(tanzeem) => setFormData({ ...formData, tanzeem })}
+              />
             </div>
 
             <div>
@@ -243,6 +283,8 @@ export default function RegisterTajneedMemberPage() {
               </select>
             </div>
 
+            <MemberProfileFields profile={profile} onProfileChange={handleProfileChange} photo={photo} onPhotoChange={setPhoto} />
+
             {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">{error}</div>}
 
             <div className="flex gap-4">
@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { getSurplusBatches, getSurplusClaimCounts, createSurplusBatch, voidSurplusBatch, getSettings } from "@/lib/storage"
+import { generateSurplusIDCards } from "@/lib/export"
+import { MAX_SURPLUS_BATCH_SIZE, getSurplusCardCode } from "@/lib/surplus-cards"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import type { EventSettings, SurplusBatch, Tanzeem } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
+import { toast } from "sonner"
+
+export default function SurplusCardsPage() {
+  const router = useRouter()
+  const [batches, setBatches] = useState<SurplusBatch[]>([])
+  const [claims, setClaims] = useState<Record<string, number>>({})
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
+  const [count, setCount] = useState("100")
+  const [tanzeem, setTanzeem] = useState<Tanzeem | "">("")
+  const [printingBatchId, setPrintingBatchId] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  const loadData = async () => {
+    try {
+      const [batchesData, claimsData, settings] = await Promise.all([
+        getSurplusBatches(),
+        getSurplusClaimCounts(),
+        getSettings(),
+      ])
+      setBatches(batchesData)
+      setClaims(claimsData)
+      setEventSettings(settings)
+    } catch (error) {
+      console.error("Error loading surplus batches:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!isAuthenticated()) {
+      router.push("/login")
+      return
+    }
+
+    if (!hasPermission("idcards.print")) {
+      router.push("/tajneed")
+      return
+    }
+
+    loadData()
+  }, [router])
+
+  const printBatch = async (batch: SurplusBatch) => {
+    setPrintingBatchId(batch.id)
+    try {
+      await generateSurplusIDCards(batch, eventSettings?.eventName, eventSettings)
+    } catch (error) {
+      console.error("Error generating surplus IDs:", error)
+    } finally {
+      setPrintingBatchId(null)
+    }
+  }
+
+  const handleCreateBatch = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const cardCount = Number(count)
+    if (!Number.isInteger(cardCount) || cardCount < 1 || cardCount > MAX_SURPLUS_BATCH_SIZE) {
+      toast.error(`Enter a number of cards between 1 and ${MAX_SURPLUS_BATCH_SIZE}`)
+      return
+    }
+
+    setCreating(true)
+    try {
+      const batch = await createSurplusBatch(cardCount, tanzeem || undefined)
+      if (!batch) {
+        toast.error("Failed to create batch", { description: "Please select an event and try again." })
+        return
+      }
+      toast.success(`Batch of ${cardCount} surplus cards created`)
+      await loadData()
+      await printBatch(batch)
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleVoidBatch = async (batch: SurplusBatch) => {
+    if (!confirm(`Void this batch of ${batch.count} cards? None of its cards will scan afterwards.`)) {
+      return
+    }
+    const success = await voidSurplusBatch(batch.id)
+    if (success) {
+      toast.success("Batch voided")
+      await loadData()
+    } else {
+      toast.error("Failed to void batch", { description: "Batches with claimed cards cannot be voided." })
+    }
+  }
+
+  if (loading) {
+    return <div className="p-8 text-center">Loading surplus cards...</div>
+  }
+
+  const activeBatches = batches.filter((batch) => !batch.voidedAt)
+  const totalIssued = activeBatches.reduce((sum, batch) => sum + batch.count, 0)
+  const totalClaimed = activeBatches.reduce((sum, batch) => sum + Math.min(claims[batch.code] || 0, batch.count), 0)
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col items-center justify-center mb-6 sm:mb-8 text-center px-2">
+          <h1 className="text-2xl sm:text-3xl font-bold text-primary">Surplus ID Cards</h1>
+          <p className="text-muted-foreground mt-2 text-sm sm:text-base">
+            Blank cards for walk-ins. A card is claimed when it is scanned and registered on the Attendance page.
+          </p>
+          <Link href="/tajneed" className="w-full sm:w-auto mt-4">
+            <Button variant="outline" className="w-full sm:w-auto">
+              Back to Tajneed
+            </Button>
+          </Link>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6">
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">Issued</p>
+            <p className="text-2xl sm:text-3xl font-bold text-primary">{totalIssued}</p>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">Claimed</p>
+            <p className="text-2xl sm:text-3xl font-bold text-green-600">{totalClaimed}</p>
+          </div>
+          <div className="bg-card border border-border rounded-lg p-4 text-center">
+            <p className="text-muted-foreground text-xs sm:text-sm font-medium mb-1">Remaining</p>
+            <p className="text-2xl sm:text-3xl font-bold text-orange-600">{totalIssued - totalClaimed}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleCreateBatch} className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6">
+          <h2 className="text-lg sm:text-xl font-semibold text-foreground mb-4">New Batch</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 items-end">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Number of Cards</label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_SURPLUS_BATCH_SIZE}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="w-full text-sm"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Tanzeem (optional)</label>
+              <select
+                value={tanzeem}
+                onChange={(e) => setTanzeem(e.target.value as Tanzeem | "")}
+                className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+              >
+                <option value="">Any Tanzeem</option>
+                {getTanzeemNames(eventSettings).map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button
+              type="submit"
+              disabled={creating || !!printingBatchId}
+              className="bg-orange-600 hover:bg-orange-700 text-white w-full text-sm"
+            >
+              {creating ? "Generating..." : "Create & Print Batch"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="bg-card border border-border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted border-b border-border">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Created</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Codes</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Tanzeem</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Cards</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Claimed</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Status</th>
+                  <th className="px-4 py-3 text-left text-xs sm:text-sm font-semibold text-foreground">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-8 text-center text-muted-foreground">
+                      No surplus batches yet
+                    </td>
+                  </tr>
+                ) : (
+                  batches.map((batch) => {
+                    const claimed = claims[batch.code] || 0
+                    return (
+                      <tr key={batch.id} className="border-b border-border hover:bg-muted transition-colors">
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">
+                          {new Date(batch.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3 text-xs font-mono text-muted-foreground">
+                          {getSurplusCardCode(batch, 0)} – {getSurplusCardCode(batch, batch.count - 1)}
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">{batch.tanzeem || "Any"}</td>
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">{batch.count}</td>
+                        <td className="px-4 py-3 text-xs sm:text-sm text-foreground">
+                          {claimed} / {batch.count}
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm">
+                          {batch.voidedAt ? (
+                            <span className="px-2 py-1 rounded text-xs font-medium bg-red-100 text-red-700">
+                              Voided {new Date(batch.voidedAt).toLocaleDateString()}
+                            </span>
+                          ) : (
+                            <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-700">Active</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-xs sm:text-sm">
+                          {!batch.voidedAt && (
+                            <div className="flex items-center gap-1 sm:gap-2 flex-wrap">
+                              <button
+                                onClick={() => printBatch(batch)}
+                                disabled={!!printingBatchId}
+                                className="px-2 py-1 text-xs bg-orange-100 text-orange-700 rounded hover:bg-orange-200 whitespace-nowrap"
+                                title="Print again"
+                              >
+                                {printingBatchId === batch.id ? "Printing..." : "Reprint"}
+                              </button>
+                              {hasPermission("idcards.revoke") && claimed === 0 && (
+                                <button
+                                  onClick={() => handleVoidBatch(batch)}
+                                  className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200 whitespace-nowrap"
+                                  title="Void unused batch"
+                                >
+                                  Void
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
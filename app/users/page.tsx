@@ -1,17 +1,38 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { getUsers, createUser, updateUser, deleteUser } from "@/lib/storage"
-import type { User, UserRole } from "@/lib/types"
+import {
+  getUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+  getRoles,
+  getEventsList,
+  getUserAssignments,
+} from "@/lib/storage"
+import type { EventAssignment, EventSettings, RoleDefinition, User, UserRole } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { isAuthenticated, isAdmin } from "@/lib/auth"
+import { isAuthenticated, hasPermission } from "@/lib/auth"
 import { useRouter } from "next/navigation"
+import { RolesManager } from "@/components/roles-manager"
+import { EventAssignmentsEditor } from "@/components/event-assignments-editor"
+import { ADMIN_ROLE } from "@/lib/permissions"
 
-const ROLES: UserRole[] = ["Attendance Register", "Security Check", "Catering Service"]
+const ROLE_BADGE_CLASSES: Record<string, string> = {
+  Admin: "bg-purple-100 text-purple-800",
+  "Attendance Register": "bg-blue-100 text-blue-800",
+  "Security Check": "bg-orange-100 text-orange-800",
+  "Catering Service": "bg-green-100 text-green-800",
+}
+
+const getRoleBadgeClass = (role: UserRole) => ROLE_BADGE_CLASSES[role] || "bg-slate-100 text-slate-800"
 
 export default function UsersPage() {
   const [users, setUsers] = useState<User[]>([])
+  const [roles, setRoles] = useState<RoleDefinition[]>([])
+  const [events, setEvents] = useState<EventSettings[]>([])
+  const [assignments, setAssignments] = useState<EventAssignment[]>([])
   const [loading, setLoading] = useState(true)
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [editingUser, setEditingUser] = useState<User | null>(null)
@@ -21,6 +42,12 @@ export default function UsersPage() {
     fullName: "",
     role: "Attendance Register" as UserRole,
   })
+  // Admins sign in through Supabase Auth, so system users get any other role
+  const assignableRoles = roles.filter((role) => role.name !== ADMIN_ROLE)
+  // Roles that manage events see every event, so they need no assignment
+  const selectedRoleSeesAllEvents = !!roles
+    .find((role) => role.name === formData.role)
+    ?.permissions.includes("events.manage")
   const [error, setError] = useState("")
   const router = useRouter()
 
@@ -30,7 +57,7 @@ export default function UsersPage() {
       return
     }
 
-    if (!isAdmin()) {
+    if (!hasPermission("users.manage")) {
       router.push("/")
       return
     }
@@ -40,8 +67,10 @@ export default function UsersPage() {
 
   const loadUsers = async () => {
     try {
-      const data = await getUsers()
+      const [data, rolesData, eventsData] = await Promise.all([getUsers(), getRoles(), getEventsList()])
       setUsers(data)
+      setRoles(rolesData)
+      setEvents(eventsData)
     } catch (error) {
       console.error("Error loading users:", error)
     } finally {
@@ -57,6 +86,10 @@ export default function UsersPage() {
       setError("All fields are required")
       return
     }
+    if (assignments.length === 0 && !selectedRoleSeesAllEvents) {
+      setError("Assign the user to at least one event")
+      return
+    }
 
     try {
       const success = await createUser({
@@ -64,11 +97,13 @@ export default function UsersPage() {
         password: formData.password,
         role: formData.role,
         fullName: formData.fullName,
+        assignments,
       })
 
       if (success) {
         setShowCreateForm(false)
         setFormData({ username: "", password: "", fullName: "", role: "Attendance Register" })
+        setAssignments([])
         await loadUsers()
       } else {
         setError("Username already exists")
@@ -79,8 +114,9 @@ export default function UsersPage() {
     }
   }
 
-  const handleEditUser = (user: User) => {
+  const handleEditUser = async (user: User) => {
     setEditingUser(user)
+    setAssignments(await getUserAssignments(user.id))
     setFormData({
       username: user.username,
       password: "", // Don't pre-fill password
@@ -99,12 +135,17 @@ export default function UsersPage() {
       setError("Username and Full Name are required")
       return
     }
+    if (assignments.length === 0 && !selectedRoleSeesAllEvents) {
+      setError("Assign the user to at least one event")
+      return
+    }
 
     try {
       const updateData: Partial<User> = {
         username: formData.username,
         fullName: formData.fullName,
         role: formData.role,
+        assignments,
       }
 
       // Only update password if provided
@@ -118,6 +159,7 @@ export default function UsersPage() {
         setEditingUser(null)
         setShowCreateForm(false)
         setFormData({ username: "", password: "", fullName: "", role: "Attendance Register" })
+        setAssignments([])
         await loadUsers()
       } else {
         setError("Username already exists or update failed")
@@ -148,6 +190,7 @@ export default function UsersPage() {
     setShowCreateForm(false)
     setEditingUser(null)
     setFormData({ username: "", password: "", fullName: "", role: "Attendance Register" })
+    setAssignments([])
     setError("")
   }
 
@@ -167,7 +210,7 @@ export default function UsersPage() {
         <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-6 sm:mb-8 text-center md:text-left gap-4 px-2">
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold text-primary">User Management</h1>
-            <p className="text-muted-foreground mt-2 text-sm sm:text-base">Manage system users and their roles</p>
+            <p className="text-muted-foreground mt-2 text-sm sm:text-base">Manage system users, roles and permissions</p>
           </div>
           {!showCreateForm && (
             <Button onClick={() => setShowCreateForm(true)} className="bg-primary text-primary-foreground w-full sm:w-auto">
@@ -226,14 +269,20 @@ export default function UsersPage() {
                     onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                     className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
                   >
-                    {ROLES.map((role) => (
-                      <option key={role} value={role}>
-                        {role}
+                    {assignableRoles.map((role) => (
+                      <option key={role.name} value={role.name}>
+                        {role.name}
                       </option>
                     ))}
                   </select>
                 </div>
               </div>
+              <div>
+                <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">
+                  Events {selectedRoleSeesAllEvents && "(this role manages events and sees all of them)"}
+                </label>
+                <EventAssignmentsEditor events={events} value={assignments} onChange={setAssignments} />
+              </div>
               <div className="flex flex-col sm:flex-row gap-2">
                 <Button type="submit" className="bg-primary text-primary-foreground w-full sm:w-auto text-sm">
                   {editingUser ? "Update User" : "Create User"}
@@ -246,6 +295,8 @@ export default function UsersPage() {
           </div>
         )}
 
+        <RolesManager roles={roles} users={users} onChange={loadUsers} />
+
         {/* Users Table - Desktop */}
         <div className="bg-card border border-border rounded-lg overflow-hidden hidden md:block">
           <div className="overflow-x-auto">
@@ -267,21 +318,13 @@ export default function UsersPage() {
                     </td>
                   </tr>
                 ) : (
-                  users.filter((user) => user.role !== "Admin").map((user) => (
+                  users.filter((user) => user.role !== ADMIN_ROLE).map((user) => (
                     <tr key={user.id} className="border-b border-border hover:bg-muted transition-colors">
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm font-medium text-primary">{user.username}</td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">{user.fullName}</td>
                       <td className="px-4 lg:px-6 py-4 text-xs sm:text-sm text-foreground">
                         <span
-                          className={`inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs font-semibold ${
-                            user.role === "Admin"
-                              ? "bg-purple-100 text-purple-800"
-                              : user.role === "Attendance Register"
-                                ? "bg-blue-100 text-blue-800"
-                                : user.role === "Security Check"
-                                  ? "bg-orange-100 text-orange-800"
-                                  : "bg-green-100 text-green-800"
-                          }`}
+                          className={`inline-flex items-center px-2 sm:px-3 py-1 rounded-full text-xs font-semibold ${getRoleBadgeClass(user.role)}`}
                         >
                           {user.role}
                         </span>
@@ -322,7 +365,7 @@ export default function UsersPage() {
               <p className="text-muted-foreground">No users found. Create a user to get started.</p>
             </div>
           ) : (
-            users.filter((user) => user.role !== "Admin").map((user) => (
+            users.filter((user) => user.role !== ADMIN_ROLE).map((user) => (
               <div key={user.id} className="bg-card border border-border rounded-lg p-4 space-y-2">
                 <div className="flex items-start justify-between">
                   <div className="flex-1 min-w-0">
@@ -330,15 +373,7 @@ export default function UsersPage() {
                     <p className="text-xs text-muted-foreground mt-1">{user.fullName}</p>
                   </div>
                   <span
-                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ml-2 flex-shrink-0 ${
-                      user.role === "Admin"
-                        ? "bg-purple-100 text-purple-800"
-                        : user.role === "Attendance Register"
-                          ? "bg-blue-100 text-blue-800"
-                          : user.role === "Security Check"
-                            ? "bg-orange-100 text-orange-800"
-                            : "bg-green-100 text-green-800"
-                    }`}
+                    className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold ml-2 flex-shrink-0 ${getRoleBadgeClass(user.role)}`}
                   >
                     {user.role}
                   </span>
@@ -0,0 +1,17 @@
+"use client"
+
+import type { TajneedMember } from "@/lib/types"
+
+// Special-meal badges for a member; renders nothing without dietary requirements
+export function DietaryBadges({ member }: { member?: Pick<TajneedMember, "dietaryRequirements" | "dietaryNotes"> }) {
+  if (!member?.dietaryRequirements?.length) return null
+  return (
+    <span className="inline-flex flex-wrap gap-1 align-middle" title={member.dietaryNotes || undefined}>
+      {member.dietaryRequirements.map((need) => (
+        <span key={need} className="px-1.5 py-0.5 text-[10px] font-semibold bg-orange-100 text-orange-800 rounded whitespace-nowrap">
+          {need}
+        </span>
+      ))}
+    </span>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { getAttendanceRecords, mergeTajneedMembers } from "@/lib/storage"
+import { DEFAULT_DUPLICATE_THRESHOLD, findDuplicateMembers } from "@/lib/member-duplicates"
+import type { TajneedMember } from "@/lib/types"
+import { toast } from "sonner"
+import { X } from "lucide-react"
+
+interface DuplicateMembersDialogProps {
+  members: TajneedMember[]
+  onClose: () => void
+  onMerged: () => void
+}
+
+const THRESHOLDS = [
+  { label: "Close matches", value: 0.92 },
+  { label: "Likely matches", value: DEFAULT_DUPLICATE_THRESHOLD },
+  { label: "Loose matches", value: 0.75 },
+]
+
+// Lists probable duplicate registrations and merges the one not kept into the other
+export function DuplicateMembersDialog({ members, onClose, onMerged }: DuplicateMembersDialogProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD)
+  const [mergedIds, setMergedIds] = useState<Set<string>>(new Set())
+  const [attendedIds, setAttendedIds] = useState<Set<string>>(new Set())
+  const [merging, setMerging] = useState(false)
+
+  useEffect(() => {
+    getAttendanceRecords()
+      .then((records) => setAttendedIds(new Set(records.map((record) => record.memberId))))
+      .catch((error) => console.error("Error loading attendance records:", error))
+  }, [])
+
+  const pairs = useMemo(
+    () => findDuplicateMembers(members.filter((member) => !mergedIds.has(member.id)), threshold),
+    [members, mergedIds, threshold],
+  )
+
+  const handleMerge = async (keep: TajneedMember, duplicate: TajneedMember) => {
+    if (
+      !confirm(
+        `Keep "${keep.fullName}" and delete "${duplicate.fullName}"? Attendance, security movements, meals and ID cards of the deleted registration move to the one kept.`,
+      )
+    ) {
+      return
+    }
+
+    setMerging(true)
+    try {
+      const success = await mergeTajneedMembers(keep.id, duplicate.id)
+      if (success) {
+        toast.success("Members merged", { description: `${duplicate.fullName} was merged into ${keep.fullName}.` })
+        setMergedIds((ids) => new Set(ids).add(duplicate.id))
+        onMerged()
+      } else {
+        toast.error("Failed to merge members", {
+          description: "Make sure you are online and any queued scans have synced, then try again.",
+        })
+      }
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const renderMember = (member: TajneedMember, other: TajneedMember) => (
+    <div className="flex-1 bg-muted rounded-lg p-3 space-y-1">
+      <p className="text-sm font-semibold text-primary">{member.fullName}</p>
+      <p className="text-xs text-muted-foreground">
+        {member.tanzeem} · {member.region} · {member.jamaat}
+      </p>
+      <p className="text-xs text-muted-foreground">Registered {new Date(member.createdAt).toLocaleString()}</p>
+      <p className={`text-xs ${attendedIds.has(member.id) ? "text-green-700" : "text-muted-foreground"}`}>
+        {attendedIds.has(member.id) ? "Attendance marked" : "No attendance"}
+      </p>
+      <button
+        onClick={() => handleMerge(member, other)}
+        disabled={merging}
+        className="mt-2 px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200 whitespace-nowrap"
+      >
+        Keep this one
+      </button>
+    </div>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-card rounded-lg p-6 sm:p-8 max-w-3xl w-full my-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-primary">Duplicate Members</h2>
+          <Button variant="ghost" size="icon" onClick={onClose} disabled={merging}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-4">
+          <p className="text-sm text-muted-foreground flex-1">
+            Members in the same jamaat and tanzeem with similar names. Choose the registration to keep.
+          </p>
+          <select
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+            className="px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+          >
+            {THRESHOLDS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-3">
+          {pairs.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No probable duplicates found</p>
+          ) : (
+            pairs.map(({ members: [a, b], similarity }) => (
+              <div key={`${a.id}-${b.id}`} className="border border-border rounded-lg p-3">
+                <p className="text-xs text-muted-foreground mb-2">{Math.round(similarity * 100)}% similar</p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  {renderMember(a, b)}
+                  {renderMember(b, a)}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,8 +3,13 @@
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import type { Tanzeem, Region } from "@/lib/types"
-import { getRegions } from "@/lib/storage"
+import type { Tanzeem, Region, EventSettings } from "@/lib/types"
+import { getRegions, getSettings } from "@/lib/storage"
+import { suggestTanzeem } from "@/lib/tanzeem-rules"
+import { getTanzeemNames } from "@/lib/tanzeem-categories"
+import { EMPTY_MEMBER_PROFILE, cleanMemberProfile, validateMemberProfile, type MemberProfile } from "@/lib/member-profile"
+import { MemberProfileFields } from "@/components/member-profile-fields"
+import { TanzeemSuggestionHint } from "@/components/tanzeem-suggestion-hint"
 import { X } from "lucide-react"
 
 interface EditMemberDialogProps {
@@ -15,22 +20,28 @@ interface EditMemberDialogProps {
     tanzeem: Tanzeem
     region: string
   jamaat: string
+    profile: MemberProfile
+    photo: string
   }) => Promise<void>
   onClose: () => void
   initialRegions?: Region[]
+  initialTanzeem?: Tanzeem // Pre-assigned by the surplus batch the card came from
 }
 
-export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [] }: EditMemberDialogProps) {
+export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [], initialTanzeem }: EditMemberDialogProps) {
   const [regions, setRegions] = useState<Region[]>(initialRegions)
   const [loading, setLoading] = useState(false)
   const [formData, setFormData] = useState({
     fullName: "",
-  tanzeem: "" as Tanzeem,
+  tanzeem: initialTanzeem || ("" as Tanzeem),
     region: "",
   jamaat: "",
   })
+  const [profile, setProfile] = useState<MemberProfile>(EMPTY_MEMBER_PROFILE)
+  const [photo, setPhoto] = useState("")
+  const [eventSettings, setEventSettings] = useState<EventSettings | undefined>(undefined)
 
-  const categories: Tanzeem[] = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar", "Guests"]
+  const categories = getTanzeemNames(eventSettings)
 
   useEffect(() => {
     // Only fetch regions if not provided
@@ -47,6 +58,19 @@ export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [
     }
   }, [initialRegions])
 
+  useEffect(() => {
+    getSettings()
+      .then(setEventSettings)
+      .catch((error) => console.error("Error loading event settings:", error))
+  }, [])
+
+  // Fill in the tanzeem once gender and date of birth give one, unless it was already chosen
+  const handleProfileChange = (next: MemberProfile) => {
+    setProfile(next)
+    const suggestion = suggestTanzeem(next, eventSettings)
+    if (suggestion && !formData.tanzeem) setFormData({ ...formData, tanzeem: suggestion.tanzeem })
+  }
+
   const getJamaatForRegion = (regionName: string) => {
     const region = regions.find((r) => r.name === regionName)
     return region?.jamaat || []
@@ -67,6 +91,11 @@ export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [
       alert("Jamaat is required")
       return
     }
+    const profileError = validateMemberProfile(profile)
+    if (profileError) {
+      alert(profileError)
+      return
+    }
 
     setLoading(true)
     try {
@@ -76,6 +105,8 @@ export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [
   tanzeem: formData.tanzeem,
         region: formData.region,
   jamaat: formData.jamaat,
+        profile: cleanMemberProfile(profile),
+        photo,
       })
     } catch (error) {
       console.error("Error saving member:", error)
@@ -87,7 +118,7 @@ export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
-      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md mx-4">
+      <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md mx-4 max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-bold text-primary">Register Member from QR Code</h2>
           <Button variant="ghost" size="icon" onClick={onClose}>
@@ -126,6 +157,12 @@ export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [
                 </option>
               ))}
             </select>
+            <TanzeemSuggestionHint
+              member={profile}
+              tanzeem={formData.tanzeem}
+              eventSettings={eventSettings}
+              onUse={(tanzeem) => setFormData({ ...formData, tanzeem })}
+            />
           </div>
 
           <div>
@@ -165,6 +202,8 @@ export function EditMemberDialog({ qrCodeId, onSave, onClose, initialRegions = [
             </select>
           </div>
 
+          <MemberProfileFields profile={profile} onProfileChange={handleProfileChange} photo={photo} onPhotoChange={setPhoto} />
+
           <div className="flex gap-2 mt-6">
             <Button type="submit" disabled={loading} className="flex-1 bg-primary text-primary-foreground">
               {loading ? "Saving..." : "Save & Add"}
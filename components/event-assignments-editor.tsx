@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { getRegionsForEvent } from "@/lib/storage"
+import type { EventAssignment, EventSettings, Region } from "@/lib/types"
+
+interface EventAssignmentsEditorProps {
+  events: EventSettings[]
+  value: EventAssignment[]
+  onChange: (assignments: EventAssignment[]) => void
+}
+
+// Pick the events a user works and, within each, optionally the regions and
+// gates they are limited to
+export function EventAssignmentsEditor({ events, value, onChange }: EventAssignmentsEditorProps) {
+  const [regionsByEvent, setRegionsByEvent] = useState<Record<string, Region[]>>({})
+  // Gates are typed as a comma separated list; keep the raw text while editing
+  const [gateText, setGateText] = useState<Record<string, string>>(() =>
+    Object.fromEntries(value.map((assignment) => [assignment.eventId, assignment.gates.join(", ")])),
+  )
+
+  useEffect(() => {
+    const missing = value.map((a) => a.eventId).filter((eventId) => !regionsByEvent[eventId])
+    if (missing.length === 0) return
+
+    Promise.all(missing.map(async (eventId) => [eventId, await getRegionsForEvent(eventId)] as const))
+      .then((loaded) => setRegionsByEvent((current) => ({ ...current, ...Object.fromEntries(loaded) })))
+      .catch((error) => console.error("Error loading regions for assignments:", error))
+  }, [value, regionsByEvent])
+
+  const findAssignment = (eventId: string) => value.find((assignment) => assignment.eventId === eventId)
+
+  const updateAssignment = (eventId: string, updates: Partial<EventAssignment>) => {
+    onChange(value.map((assignment) => (assignment.eventId === eventId ? { ...assignment, ...updates } : assignment)))
+  }
+
+  const toggleEvent = (eventId: string, checked: boolean) => {
+    onChange(
+      checked
+        ? [...value, { eventId, regions: [], gates: [] }]
+        : value.filter((assignment) => assignment.eventId !== eventId),
+    )
+  }
+
+  const toggleRegion = (assignment: EventAssignment, region: string, checked: boolean) => {
+    updateAssignment(assignment.eventId, {
+      regions: checked ? [...assignment.regions, region] : assignment.regions.filter((r) => r !== region),
+    })
+  }
+
+  const handleGatesChange = (eventId: string, text: string) => {
+    setGateText((current) => ({ ...current, [eventId]: text }))
+    updateAssignment(eventId, {
+      gates: text
+        .split(",")
+        .map((gate) => gate.trim())
+        .filter(Boolean),
+    })
+  }
+
+  if (events.length === 0) {
+    return <p className="text-xs sm:text-sm text-muted-foreground">No events yet. Create an event in Settings first.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {events.map((event) => {
+        const assignment = findAssignment(event.id)
+        const regions = regionsByEvent[event.id] || []
+
+        return (
+          <div key={event.id} className="border border-border rounded-md p-3">
+            <label className="flex items-center gap-2 text-xs sm:text-sm font-medium text-foreground">
+              <Checkbox checked={!!assignment} onCheckedChange={(checked) => toggleEvent(event.id, checked === true)} />
+              {event.eventName}
+              <span className="text-xs font-normal text-muted-foreground">{event.startingDate}</span>
+            </label>
+
+            {assignment && (
+              <div className="mt-3 pl-6 space-y-3">
+                <div>
+                  <p className="text-xs font-medium text-foreground mb-1">Regions (none selected: all regions)</p>
+                  {regions.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No regions set up for this event</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-3">
+                      {regions.map((region) => (
+                        <label key={region.id} className="flex items-center gap-1 text-xs text-foreground">
+                          <Checkbox
+                            checked={assignment.regions.includes(region.name)}
+                            onCheckedChange={(checked) => toggleRegion(assignment, region.name, checked === true)}
+                          />
+                          {region.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-foreground mb-1">Gates (comma separated, blank: any gate)</p>
+                  <Input
+                    type="text"
+                    value={gateText[event.id] ?? assignment.gates.join(", ")}
+                    onChange={(e) => handleGatesChange(event.id, e.target.value)}
+                    placeholder="e.g. Main Gate, Gate 2"
+                    className="w-full text-sm"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { addHouseholdAttendance } from "@/lib/storage"
+import type { TajneedMember } from "@/lib/types"
+import { toast } from "sonner"
+import { X } from "lucide-react"
+
+interface FamilyCheckInDialogProps {
+  householdName: string
+  members: TajneedMember[] // Head first (see getHouseholdMembers)
+  presentMemberIds: Set<string> // Members already in attendance
+  onClose: () => void
+  onCheckedIn: () => void
+}
+
+// Shown after a family card is scanned: every member not yet present is ticked,
+// and whoever has not come can be unticked before checking the family in
+export function FamilyCheckInDialog({
+  householdName,
+  members,
+  presentMemberIds,
+  onClose,
+  onCheckedIn,
+}: FamilyCheckInDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(
+    () => new Set(members.filter((member) => !presentMemberIds.has(member.id)).map((member) => member.id)),
+  )
+  const [saving, setSaving] = useState(false)
+
+  const toggle = (memberId: string, checked: boolean) => {
+    setSelectedIds((ids) => {
+      const next = new Set(ids)
+      if (checked) next.add(memberId)
+      else next.delete(memberId)
+      return next
+    })
+  }
+
+  const handleCheckIn = async () => {
+    setSaving(true)
+    try {
+      const added = await addHouseholdAttendance(Array.from(selectedIds))
+      if (added === selectedIds.size) {
+        toast.success("Family checked in", { description: `${added} member(s) of ${householdName} are now present.` })
+      } else {
+        toast.error("Some members were not checked in", {
+          description: `${added} of ${selectedIds.size} were added. Please scan their own cards.`,
+        })
+      }
+      onCheckedIn()
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-card rounded-lg p-6 sm:p-8 max-w-md w-full my-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-primary">{householdName}</h2>
+          <Button variant="ghost" size="icon" onClick={onClose} disabled={saving}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">Untick anyone who has not arrived.</p>
+
+        <div className="space-y-2 mb-6">
+          {members.map((member) => {
+            const present = presentMemberIds.has(member.id)
+            return (
+              <label
+                key={member.id}
+                className="flex items-center gap-3 border border-border rounded-md px-3 py-2 text-sm cursor-pointer"
+              >
+                <Checkbox
+                  checked={present || selectedIds.has(member.id)}
+                  disabled={present}
+                  onCheckedChange={(checked) => toggle(member.id, checked === true)}
+                />
+                <span className="flex-1 text-foreground">
+                  {member.fullName}
+                  <span className="block text-xs text-muted-foreground">
+                    {member.householdRole || "Member"} · {member.tanzeem}
+                  </span>
+                </span>
+                {present && <span className="text-xs text-green-700">Already present</span>}
+              </label>
+            )
+          })}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            onClick={handleCheckIn}
+            disabled={saving || selectedIds.size === 0}
+            className="bg-primary text-primary-foreground w-full sm:w-auto"
+          >
+            {saving ? "Checking in..." : `Check In ${selectedIds.size} Member(s)`}
+          </Button>
+          <Button onClick={onClose} variant="outline" className="w-full sm:w-auto" disabled={saving}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
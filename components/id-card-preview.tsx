@@ -0,0 +1,169 @@
+"use client"
+
+import type React from "react"
+
+import { useRef } from "react"
+import {
+  CARD_HEIGHT,
+  CARD_WIDTH,
+  getCardBackground,
+  getCardElementImage,
+  getCardElementLabel,
+  getCardElementText,
+  getCardElementType,
+  isBlankCardElement,
+  type CardData,
+} from "@/lib/card-templates"
+import type { CardElement, EventSettings, IDCardTemplate } from "@/lib/types"
+
+const PT_TO_MM = 0.352778
+
+// Half-millimetre steps keep dragged positions tidy
+const snap = (value: number) => Math.round(value * 2) / 2
+
+interface Drag {
+  element: CardElement
+  mode: "move" | "resize"
+  startX: number
+  startY: number
+}
+
+// A card template drawn at `scale` pixels per millimetre with the same content
+// the PDF prints. With onElementChange, elements can be dragged to move them
+// and resized from their bottom right corner.
+export function IDCardPreview({
+  template,
+  data,
+  eventSettings,
+  eventTitle,
+  scale = 4,
+  selectedId,
+  onSelect,
+  onElementChange,
+}: {
+  template: IDCardTemplate
+  data: CardData
+  eventSettings?: EventSettings
+  eventTitle?: string
+  scale?: number
+  selectedId?: string | null
+  onSelect?: (id: string | null) => void
+  onElementChange?: (id: string, changes: Partial<CardElement>) => void
+}) {
+  const cardRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+
+  const startDrag = (e: React.PointerEvent, element: CardElement, mode: Drag["mode"]) => {
+    e.stopPropagation()
+    onSelect?.(element.id)
+    if (!onElementChange) return
+    dragRef.current = { element, mode, startX: e.clientX, startY: e.clientY }
+    cardRef.current?.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag || !onElementChange) return
+    const dx = (e.clientX - drag.startX) / scale
+    const dy = (e.clientY - drag.startY) / scale
+    const { element } = drag
+    if (drag.mode === "move") {
+      onElementChange(element.id, {
+        x: snap(Math.min(Math.max(0, element.x + dx), CARD_WIDTH - element.width)),
+        y: snap(Math.min(Math.max(0, element.y + dy), CARD_HEIGHT - element.height)),
+      })
+    } else {
+      onElementChange(element.id, {
+        width: snap(Math.min(Math.max(0.5, element.width + dx), CARD_WIDTH - element.x)),
+        height: snap(Math.min(Math.max(0.3, element.height + dy), CARD_HEIGHT - element.y)),
+      })
+    }
+  }
+
+  const endDrag = (e: React.PointerEvent) => {
+    if (!dragRef.current) return
+    dragRef.current = null
+    cardRef.current?.releasePointerCapture(e.pointerId)
+  }
+
+  const renderContent = (element: CardElement) => {
+    const type = getCardElementType(element.kind)
+    if (type === "box") {
+      return <div className="w-full h-full" style={{ backgroundColor: element.color }} />
+    }
+    if (type === "image") {
+      const image = getCardElementImage(element, data, eventSettings)
+      return image ? (
+        <img src={image} alt={getCardElementLabel(element.kind)} className="w-full h-full" draggable={false} />
+      ) : (
+        <div className="w-full h-full border border-dashed border-gray-400 flex items-center justify-center text-[10px] text-gray-500">
+          {getCardElementLabel(element.kind)}
+        </div>
+      )
+    }
+    if (isBlankCardElement(element, data)) {
+      return <div className="w-full h-full border-b border-dashed border-black" />
+    }
+    const align = element.align || "left"
+    return (
+      <div
+        className="w-full h-full flex items-center overflow-hidden whitespace-nowrap"
+        style={{
+          justifyContent: align === "center" ? "center" : align === "right" ? "flex-end" : "flex-start",
+          fontFamily: "Georgia, 'Times New Roman', serif",
+          fontSize: (element.fontSize || 12) * PT_TO_MM * scale,
+          fontWeight: element.bold ? "bold" : "normal",
+          fontStyle: element.italic ? "italic" : "normal",
+          color: element.color || "#000000",
+          lineHeight: 1,
+        }}
+      >
+        {getCardElementText(element, data, eventSettings, eventTitle)}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={cardRef}
+      className="relative shadow-md border border-border select-none touch-none"
+      style={{
+        width: CARD_WIDTH * scale,
+        height: CARD_HEIGHT * scale,
+        backgroundColor: getCardBackground(template, data.tanzeem),
+      }}
+      onPointerDown={() => onSelect?.(null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      {template.elements.map((element) => {
+        const selected = element.id === selectedId
+        return (
+          <div
+            key={element.id}
+            className={`absolute ${onElementChange ? "cursor-move" : ""} ${
+              selected ? "outline outline-2 outline-blue-500" : onSelect ? "hover:outline hover:outline-1 hover:outline-blue-300" : ""
+            }`}
+            style={{
+              left: element.x * scale,
+              top: element.y * scale,
+              width: element.width * scale,
+              height: element.height * scale,
+            }}
+            onPointerDown={(e) => startDrag(e, element, "move")}
+            title={getCardElementLabel(element.kind)}
+          >
+            {renderContent(element)}
+            {selected && onElementChange && (
+              <div
+                className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-blue-500 border border-white cursor-se-resize"
+                onPointerDown={(e) => startDrag(e, element, "resize")}
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
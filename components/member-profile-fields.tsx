@@ -0,0 +1,152 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { DIETARY_REQUIREMENTS, GENDERS, resizeMemberPhoto, type MemberProfile } from "@/lib/member-profile"
+import type { DietaryRequirement, Gender } from "@/lib/types"
+import { toast } from "sonner"
+
+interface MemberProfileFieldsProps {
+  profile: MemberProfile
+  onProfileChange: (profile: MemberProfile) => void
+  photo: string // Current photo URL or a new data URL; "" for none
+  onPhotoChange: (photo: string) => void
+  labelClassName?: string
+}
+
+// Contact, identity, dietary and photo inputs shared by every form that edits a member
+export function MemberProfileFields({
+  profile,
+  onProfileChange,
+  photo,
+  onPhotoChange,
+  labelClassName = "block text-sm font-medium text-foreground mb-2",
+}: MemberProfileFieldsProps) {
+  const handlePhotoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+    try {
+      onPhotoChange(await resizeMemberPhoto(file))
+    } catch (error) {
+      console.error("Error reading member photo:", error)
+      toast.error("Could not use this photo", { description: "Choose a JPEG or PNG image." })
+    }
+  }
+
+  const toggleDietaryRequirement = (need: DietaryRequirement, checked: boolean) => {
+    const current = profile.dietaryRequirements || []
+    onProfileChange({
+      ...profile,
+      dietaryRequirements: checked ? [...current, need] : current.filter((n) => n !== need),
+    })
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClassName}>Photo (optional)</label>
+        <div className="flex items-center gap-3">
+          {photo ? (
+            <img src={photo} alt="Member photo" className="w-16 h-20 object-cover rounded border border-border" />
+          ) : (
+            <div className="w-16 h-20 rounded border border-dashed border-border flex items-center justify-center text-xs text-muted-foreground">
+              No photo
+            </div>
+          )}
+          <div className="flex flex-col gap-2">
+            <label className="px-3 py-1.5 text-xs bg-muted text-foreground rounded cursor-pointer hover:bg-muted/80 text-center">
+              {photo ? "Change Photo" : "Upload or Take Photo"}
+              <input type="file" accept="image/*" capture="user" onChange={handlePhotoFile} className="hidden" />
+            </label>
+            {photo && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => onPhotoChange("")} className="text-xs">
+                Remove Photo
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClassName}>Gender (optional)</label>
+          <select
+            value={profile.gender || ""}
+            onChange={(e) => onProfileChange({ ...profile, gender: (e.target.value as Gender) || undefined })}
+            className="w-full px-3 py-2 border border-border rounded-md bg-background text-foreground"
+          >
+            <option value="">Not specified</option>
+            {GENDERS.map((gender) => (
+              <option key={gender} value={gender}>
+                {gender}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClassName}>Date of Birth (optional)</label>
+          <Input
+            type="date"
+            value={profile.dateOfBirth || ""}
+            onChange={(e) => onProfileChange({ ...profile, dateOfBirth: e.target.value })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Phone (optional)</label>
+          <Input
+            type="tel"
+            value={profile.phone || ""}
+            onChange={(e) => onProfileChange({ ...profile, phone: e.target.value })}
+            className="w-full"
+          />
+        </div>
+        <div>
+          <label className={labelClassName}>Email (optional)</label>
+          <Input
+            type="email"
+            value={profile.email || ""}
+            onChange={(e) => onProfileChange({ ...profile, email: e.target.value })}
+            className="w-full"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClassName}>National ID / AIMS Number (optional)</label>
+        <Input
+          type="text"
+          value={profile.aimsNumber || ""}
+          onChange={(e) => onProfileChange({ ...profile, aimsNumber: e.target.value })}
+          className="w-full"
+        />
+      </div>
+
+      <div>
+        <label className={labelClassName}>Dietary Requirements (optional)</label>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 text-sm text-foreground">
+          {DIETARY_REQUIREMENTS.map((need) => (
+            <label key={need} className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={profile.dietaryRequirements?.includes(need) || false}
+                onChange={(e) => toggleDietaryRequirement(need, e.target.checked)}
+              />
+              {need}
+            </label>
+          ))}
+        </div>
+        {(profile.dietaryRequirements?.length || 0) > 0 && (
+          <Input
+            type="text"
+            placeholder="Details for the kitchen, e.g. nut allergy"
+            value={profile.dietaryNotes || ""}
+            onChange={(e) => onProfileChange({ ...profile, dietaryNotes: e.target.value })}
+            className="w-full mt-2"
+          />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,47 +2,48 @@
 
 import Link from "next/link"
 import { useRouter, usePathname } from "next/navigation"
-import { logoutUser, getUserRole, isAdmin, getCurrentUser } from "@/lib/auth"
-import type { UserRole } from "@/lib/types"
+import { logoutUser, getCurrentUser, refreshCurrentUser } from "@/lib/auth"
+import type { Permission } from "@/lib/permissions"
+import { NAV_LINKS } from "@/lib/route-access"
 import { useEffect, useState } from "react"
 import { Menu, X } from "lucide-react"
+import { SyncStatus } from "@/components/sync-status"
 
 export default function Navigation() {
   const pathname = usePathname()
   const router = useRouter()
-  const [userRole, setUserRole] = useState<UserRole | null>(null)
+  const [permissions, setPermissions] = useState<Permission[] | null>(null)
   const [username, setUsername] = useState<string>("")
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
 
   useEffect(() => {
-    setUserRole(getUserRole())
     const user = getCurrentUser()
     if (user) {
+      setPermissions(user.permissions || [])
       setUsername(user.username || user.email || user.fullName || "User")
     }
   }, [])
 
+  // Pick up permission edits made on /users while this user is signed in
+  useEffect(() => {
+    refreshCurrentUser().then((user) => {
+      if (user) {
+        setPermissions(user.permissions || [])
+      } else {
+        router.push("/login")
+      }
+    })
+  }, [pathname, router])
+
   // Close mobile menu when route changes
   useEffect(() => {
     setMobileMenuOpen(false)
   }, [pathname])
 
-  const allLinks = [
-    { href: "/", label: "Dashboard", roles: ["Admin", "Attendance Register", "Security Check", "Catering Service"] },
-  { href: "/settings", label: "Jalsa Settings", roles: ["Admin"] },
-  { href: "/regions", label: "Region & Jamaat", roles: ["Admin"] },
-    { href: "/users", label: "Users", roles: ["Admin"] },
-    { href: "/tajneed", label: "Tajneed", roles: ["Admin"] },
-    { href: "/attendance", label: "Attendance", roles: ["Admin", "Attendance Register"] },
-    { href: "/security", label: "Security", roles: ["Admin", "Security Check"] },
-    { href: "/catering", label: "Catering", roles: ["Admin", "Catering Service"] },
-  ]
-
-  // Filter links based on user role
-  const links = allLinks.filter((link) => {
-    if (!userRole) return false
-    if (isAdmin()) return true // Admin can see all
-    return link.roles.includes(userRole)
+  // Filter links based on the user's permissions
+  const links = NAV_LINKS.filter((link) => {
+    if (!permissions) return false
+    return !link.permission || permissions.includes(link.permission)
   })
 
   const handleLogout = async () => {
@@ -64,6 +65,7 @@ export default function Navigation() {
                 </>
               )}
             </span>
+            <SyncStatus />
           </div>
 
           {/* Desktop Navigation links */}
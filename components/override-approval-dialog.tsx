@@ -0,0 +1,89 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { approveCateringOverride } from "@/lib/storage"
+import { formatCateringSession } from "@/lib/catering-sessions"
+import type { CateringOverrideApproval, EventDay, MealType } from "@/lib/types"
+
+interface OverrideApprovalDialogProps {
+  day: EventDay
+  mealType: MealType
+  onClose: () => void
+  onApproved: (approval: CateringOverrideApproval) => void
+}
+
+// A supervisor allowed to approve overrides signs off on serving a meal
+// outside its window with their own username and password
+export function OverrideApprovalDialog({ day, mealType, onClose, onApproved }: OverrideApprovalDialogProps) {
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState("")
+  const [working, setWorking] = useState(false)
+
+  const handleApprove = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setWorking(true)
+    setError("")
+    try {
+      const result = await approveCateringOverride(day, mealType, username, password)
+      if (!result.approval) {
+        setError(result.error || "The approval could not be checked")
+        return
+      }
+      onApproved(result.approval)
+      onClose()
+    } finally {
+      setPassword("")
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <form onSubmit={handleApprove} className="bg-card rounded-lg p-6 sm:p-8 max-w-md w-full my-4">
+        <h2 className="text-2xl font-bold text-primary mb-2 text-center">Supervisor Approval</h2>
+        <p className="text-sm text-muted-foreground text-center mb-4">
+          Serving {formatCateringSession({ day, mealType })} outside its serving time needs a supervisor. Every serving
+          from now on is logged as approved by them.
+        </p>
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="supervisor-username">Supervisor username</Label>
+            <Input
+              id="supervisor-username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              autoComplete="off"
+              className="mt-1"
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="supervisor-password">Password</Label>
+            <Input
+              id="supervisor-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="off"
+              className="mt-1"
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+        <div className="flex gap-2 mt-6">
+          <Button type="submit" disabled={working || !username || !password} className="flex-1">
+            {working ? "Checking..." : "Approve"}
+          </Button>
+          <Button type="button" onClick={onClose} variant="outline" className="flex-1" disabled={working}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
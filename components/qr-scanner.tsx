@@ -3,10 +3,12 @@
 import { useEffect, useRef, useState } from "react"
 import { Html5Qrcode } from "html5-qrcode"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { X } from "lucide-react"
+import type { ScanSource } from "@/lib/types"
 
 interface QRScannerProps {
-  onScanSuccess: (memberId: string) => void
+  onScanSuccess: (scannedText: string, source: ScanSource) => void
   onClose: () => void
   title?: string
 }
@@ -17,6 +19,7 @@ export function QRScanner({ onScanSuccess, onClose, title = "Scan QR Code" }: QR
   const onScanSuccessRef = useRef(onScanSuccess)
   const [isScanning, setIsScanning] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [typedCode, setTypedCode] = useState("")
   // Use a unique ID for each scanner instance to avoid conflicts
   const scannerIdRef = useRef(`qr-reader-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`)
 
@@ -104,7 +107,7 @@ export function QRScanner({ onScanSuccess, onClose, title = "Scan QR Code" }: QR
             // Successfully scanned
             if (isMountedRef.current) {
               await stopScanner()
-              onScanSuccessRef.current(decodedText)
+              onScanSuccessRef.current(decodedText, "camera")
             }
           },
           (errorMessage) => {
@@ -191,6 +194,13 @@ export function QRScanner({ onScanSuccess, onClose, title = "Scan QR Code" }: QR
     onClose()
   }
 
+  // A typed member code goes to the same handler, marked as typed so it is
+  // never taken for a scanned card
+  const handleTypedCode = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (typedCode.trim()) onScanSuccessRef.current(typedCode.trim(), "typed")
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm">
       <div className="bg-card border border-border rounded-lg p-6 w-full max-w-md mx-4">
@@ -274,6 +284,18 @@ export function QRScanner({ onScanSuccess, onClose, title = "Scan QR Code" }: QR
             Position the QR code within the frame to scan
           </p>
         </div>
+
+        <form onSubmit={handleTypedCode} className="mt-4 flex gap-2">
+          <Input
+            value={typedCode}
+            onChange={(e) => setTypedCode(e.target.value)}
+            placeholder="Or type a member code, e.g. KH-0042"
+            className="flex-1"
+          />
+          <Button type="submit" variant="outline" disabled={!typedCode.trim()}>
+            Use Code
+          </Button>
+        </form>
       </div>
     </div>
   )
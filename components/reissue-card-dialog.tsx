@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { reissueIDCard } from "@/lib/storage"
+import { generateSingleTajneedIDCard } from "@/lib/export"
+import type { EventSettings, IDCardStatus, TajneedMember } from "@/lib/types"
+import { toast } from "sonner"
+
+interface ReissueCardDialogProps {
+  member: TajneedMember
+  eventTitle?: string
+  eventSettings?: EventSettings
+  onClose: () => void
+  onReissued?: () => void
+}
+
+// Retires a member's current card and prints its replacement
+export function ReissueCardDialog({ member, eventTitle, eventSettings, onClose, onReissued }: ReissueCardDialogProps) {
+  const [reason, setReason] = useState<Exclude<IDCardStatus, "active">>("lost")
+  const [working, setWorking] = useState(false)
+
+  const handleReissue = async () => {
+    setWorking(true)
+    try {
+      const replacement = await reissueIDCard(member.id, reason)
+      if (!replacement) {
+        toast.error("Failed to revoke card", { description: "The card registry could not be updated. Please try again." })
+        return
+      }
+
+      toast.success("Card revoked", { description: `The old card for ${member.fullName} will no longer scan.` })
+      await generateSingleTajneedIDCard(member, `tajneed-id-${member.id}-${Date.now()}.pdf`, eventTitle, eventSettings)
+      onReissued?.()
+      onClose()
+    } catch (error) {
+      console.error("Error reissuing ID card:", error)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-card rounded-lg p-6 sm:p-8 max-w-md w-full my-4">
+        <h2 className="text-2xl font-bold text-primary mb-2 text-center">Reissue ID Card</h2>
+        <p className="text-sm text-muted-foreground text-center mb-4">
+          {member.fullName}'s current card stops working and a replacement with a new code is printed.
+        </p>
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input type="radio" checked={reason === "lost"} onChange={() => setReason("lost")} />
+            Card was lost
+          </label>
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input type="radio" checked={reason === "revoked"} onChange={() => setReason("revoked")} />
+            Revoke card (damaged, misused or handed to the wrong person)
+          </label>
+        </div>
+        <div className="flex gap-2 mt-6">
+          <Button
+            onClick={handleReissue}
+            disabled={working}
+            className="flex-1 bg-destructive text-destructive-foreground"
+          >
+            {working ? "Reissuing..." : "Revoke & Print Replacement"}
+          </Button>
+          <Button onClick={onClose} variant="outline" className="flex-1" disabled={working}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
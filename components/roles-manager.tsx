@@ -0,0 +1,229 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { saveRole, deleteRole } from "@/lib/storage"
+import { ADMIN_ROLE, PERMISSIONS, type Permission } from "@/lib/permissions"
+import type { RoleDefinition, User } from "@/lib/types"
+import { toast } from "sonner"
+
+interface RolesManagerProps {
+  roles: RoleDefinition[]
+  users: User[]
+  onChange: () => Promise<void>
+}
+
+const PERMISSION_GROUPS = Array.from(new Set(PERMISSIONS.map((permission) => permission.group)))
+
+const emptyForm = { name: "", description: "", permissions: [] as Permission[] }
+
+// Editable permission matrix: one row per permission, one column per role
+export function RolesManager({ roles, users, onChange }: RolesManagerProps) {
+  const [editingRole, setEditingRole] = useState<RoleDefinition | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [formData, setFormData] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  const countUsers = (roleName: string) => users.filter((user) => user.role === roleName).length
+
+  const handleEditRole = (role: RoleDefinition) => {
+    setEditingRole(role)
+    setFormData({ name: role.name, description: role.description || "", permissions: [...role.permissions] })
+    setShowForm(true)
+  }
+
+  const handleCancel = () => {
+    setEditingRole(null)
+    setShowForm(false)
+    setFormData(emptyForm)
+  }
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setFormData((current) => ({
+      ...current,
+      permissions: checked
+        ? [...current.permissions, permission]
+        : current.permissions.filter((p) => p !== permission),
+    }))
+  }
+
+  const handleSaveRole = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = formData.name.trim()
+    if (!name) {
+      toast.error("Role name is required")
+      return
+    }
+    if (!editingRole && roles.some((role) => role.name.toLowerCase() === name.toLowerCase())) {
+      toast.error("A role with this name already exists")
+      return
+    }
+
+    setSaving(true)
+    try {
+      const success = await saveRole({
+        name,
+        description: formData.description.trim() || undefined,
+        permissions: formData.permissions,
+        builtIn: editingRole?.builtIn ?? false,
+        createdAt: editingRole?.createdAt,
+      })
+      if (success) {
+        toast.success(editingRole ? "Role updated" : "Role created")
+        handleCancel()
+        await onChange()
+      } else {
+        toast.error("Failed to save role")
+      }
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteRole = async (role: RoleDefinition) => {
+    if (countUsers(role.name) > 0) {
+      toast.error("Reassign the users in this role before deleting it")
+      return
+    }
+    if (!confirm(`Are you sure you want to delete the "${role.name}" role?`)) {
+      return
+    }
+
+    const success = await deleteRole(role.name)
+    if (success) {
+      toast.success("Role deleted")
+      await onChange()
+    } else {
+      toast.error("Failed to delete role")
+    }
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 sm:p-6 mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-semibold text-foreground">Roles & Permissions</h2>
+          <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+            Changes apply to signed-in users within a minute
+          </p>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} variant="outline" className="w-full sm:w-auto text-sm">
+            + Create Role
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSaveRole} className="space-y-4 mb-6 border border-border rounded-lg p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 sm:gap-4">
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Role Name</label>
+              <Input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                disabled={!!editingRole} // Users reference roles by name
+                placeholder="e.g. Gate Supervisor"
+                required
+                className="w-full text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">Description</label>
+              <Input
+                type="text"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                className="w-full text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {PERMISSION_GROUPS.map((group) => (
+              <div key={group}>
+                <p className="text-xs sm:text-sm font-semibold text-foreground mb-2">{group}</p>
+                <div className="space-y-2">
+                  {PERMISSIONS.filter((permission) => permission.group === group).map((permission) => (
+                    <label key={permission.key} className="flex items-center gap-2 text-xs sm:text-sm text-foreground">
+                      <Checkbox
+                        checked={formData.permissions.includes(permission.key)}
+                        onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                      />
+                      {permission.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button type="submit" disabled={saving} className="bg-primary text-primary-foreground w-full sm:w-auto text-sm">
+              {saving ? "Saving..." : editingRole ? "Update Role" : "Create Role"}
+            </Button>
+            <Button type="button" onClick={handleCancel} variant="outline" className="w-full sm:w-auto text-sm">
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-muted border-b border-border">
+            <tr>
+              <th className="px-3 py-2 text-left text-xs sm:text-sm font-semibold text-foreground">Permission</th>
+              {roles.map((role) => (
+                <th key={role.name} className="px-3 py-2 text-center text-xs sm:text-sm font-semibold text-foreground">
+                  <div>{role.name}</div>
+                  <div className="text-xs font-normal text-muted-foreground">{countUsers(role.name)} user(s)</div>
+                  {role.name !== ADMIN_ROLE && (
+                    <div className="flex justify-center gap-1 mt-1">
+                      <button
+                        onClick={() => handleEditRole(role)}
+                        className="px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded hover:bg-amber-200"
+                        title="Edit"
+                      >
+                        Edit
+                      </button>
+                      {!role.builtIn && (
+                        <button
+                          onClick={() => handleDeleteRole(role)}
+                          className="px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+                          title="Delete"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PERMISSIONS.map((permission) => (
+              <tr key={permission.key} className="border-b border-border">
+                <td className="px-3 py-2 text-xs sm:text-sm text-foreground">
+                  {permission.label}
+                  <span className="ml-2 text-xs text-muted-foreground">{permission.key}</span>
+                </td>
+                {roles.map((role) => (
+                  <td key={role.name} className="px-3 py-2 text-center text-xs sm:text-sm">
+                    {role.permissions.includes(permission.key) ? (
+                      <span className="text-green-600 font-bold">✓</span>
+                    ) : (
+                      <span className="text-muted-foreground">–</span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
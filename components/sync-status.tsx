@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Button } from "@/components/ui/button"
+import {
+  subscribeToScanQueue,
+  getOwnQueuedScans,
+  replayScanQueue,
+  retryQueuedScan,
+  dismissQueuedScan,
+} from "@/lib/offline-queue"
+import { formatCateringSession } from "@/lib/catering-sessions"
+import type { QueuedScan, ScanQueueStats } from "@/lib/types"
+import { CloudOff, RefreshCw } from "lucide-react"
+
+const describeScan = (entry: QueuedScan) => {
+  switch (entry.kind) {
+    case "attendance":
+      return "Attendance"
+    case "security":
+      return `Security (${entry.payload.status})`
+    case "catering":
+      return `Catering (${formatCateringSession(entry.payload)})`
+  }
+}
+
+// Pending / failed / conflicting offline scans, shown in the navigation bar
+export function SyncStatus() {
+  const [stats, setStats] = useState<ScanQueueStats>({ pending: 0, failed: 0, conflicts: 0 })
+  const [entries, setEntries] = useState<QueuedScan[]>([])
+  const [syncing, setSyncing] = useState(false)
+
+  useEffect(() => {
+    return subscribeToScanQueue(setStats)
+  }, [])
+
+  const loadEntries = async () => {
+    setEntries(await getOwnQueuedScans())
+  }
+
+  const handleSyncNow = async () => {
+    setSyncing(true)
+    try {
+      await replayScanQueue()
+      await loadEntries()
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const total = stats.pending + stats.failed + stats.conflicts
+  if (total === 0) return null
+
+  return (
+    <Popover onOpenChange={(open) => open && loadEntries()}>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium text-foreground hover:bg-muted transition-colors"
+          title="Offline scans waiting to sync"
+        >
+          <CloudOff className="w-4 h-4" />
+          {stats.pending > 0 && (
+            <span className="px-1.5 rounded-full bg-amber-100 text-amber-800">{stats.pending} pending</span>
+          )}
+          {stats.failed > 0 && <span className="px-1.5 rounded-full bg-red-100 text-red-800">{stats.failed} failed</span>}
+          {stats.conflicts > 0 && (
+            <span className="px-1.5 rounded-full bg-orange-100 text-orange-800">{stats.conflicts} conflicts</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm font-semibold text-foreground">Offline scans</p>
+          <Button size="sm" variant="outline" onClick={handleSyncNow} disabled={syncing}>
+            <RefreshCw className={`w-3 h-3 ${syncing ? "animate-spin" : ""}`} />
+            {syncing ? "Syncing..." : "Sync now"}
+          </Button>
+        </div>
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {entries.map((entry) => (
+            <div key={entry.id} className="border border-border rounded-md p-2 text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-foreground truncate">{entry.label || "Unknown member"}</span>
+                <span
+                  className={`px-1.5 rounded-full ${
+                    entry.status === "pending"
+                      ? "bg-amber-100 text-amber-800"
+                      : entry.status === "failed"
+                        ? "bg-red-100 text-red-800"
+                        : "bg-orange-100 text-orange-800"
+                  }`}
+                >
+                  {entry.status}
+                </span>
+              </div>
+              <p className="text-muted-foreground">
+                {describeScan(entry)} · {new Date(entry.clientTimestamp).toLocaleString()}
+              </p>
+              {entry.status === "failed" && entry.lastError && <p className="text-red-700">{entry.lastError}</p>}
+              {entry.status === "conflict" && entry.resolution && <p className="text-orange-700">{entry.resolution}</p>}
+              {entry.status !== "pending" && (
+                <div className="flex gap-2 pt-1">
+                  {entry.status === "failed" && (
+                    <button
+                      onClick={async () => {
+                        await retryQueuedScan(entry.id)
+                        await loadEntries()
+                      }}
+                      className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+                    >
+                      Retry
+                    </button>
+                  )}
+                  <button
+                    onClick={async () => {
+                      await dismissQueuedScan(entry.id)
+                      await loadEntries()
+                    }}
+                    className="px-2 py-0.5 bg-muted text-foreground rounded hover:bg-muted/80"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export default SyncStatus
@@ -0,0 +1,312 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { importTajneedMembers } from "@/lib/storage"
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  readImportFile,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportSheet,
+} from "@/lib/tajneed-import"
+import type { EventSettings, Region, TajneedImportBatch, TajneedImportResult, TajneedMember } from "@/lib/types"
+import { X } from "lucide-react"
+
+interface TajneedImportWizardProps {
+  regions: Region[]
+  members: TajneedMember[]
+  eventSettings?: EventSettings
+  onClose: () => void
+  onImported: () => void
+}
+
+type Step = "upload" | "map" | "preview" | "importing" | "done"
+
+// Upload a jamaat's spreadsheet, map its columns, review every row, then import
+export function TajneedImportWizard({ regions, members, eventSettings, onClose, onImported }: TajneedImportWizardProps) {
+  const [step, setStep] = useState<Step>("upload")
+  const [fileName, setFileName] = useState("")
+  const [sheet, setSheet] = useState<ImportSheet | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [includeDuplicates, setIncludeDuplicates] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [result, setResult] = useState<TajneedImportResult | null>(null)
+  const [error, setError] = useState("")
+
+  const validRows = rows.filter((row) => row.errors.length === 0)
+  const rowsToImport = validRows.filter((row) => includeDuplicates || !row.duplicateOf)
+  const invalidCount = rows.length - validRows.length
+  const duplicateCount = validRows.filter((row) => row.duplicateOf).length
+
+  // Spreadsheet rows a batch covers, e.g. "Rows 2-101"
+  const describeBatch = (batch: TajneedImportBatch) => {
+    const rowNumbers = batch.members
+      .map((member) => rowsToImport.find((row) => row.member === member)?.rowNumber)
+      .filter((rowNumber): rowNumber is number => rowNumber !== undefined)
+    if (rowNumbers.length === 0) return `${batch.members.length} member(s)`
+    const first = Math.min(...rowNumbers)
+    const last = Math.max(...rowNumbers)
+    return first === last ? `Row ${first}` : `Rows ${first}-${last}`
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setError("")
+    try {
+      const data = await readImportFile(file)
+      if (data.headers.length === 0 || data.rows.length === 0) {
+        setError("The file has no rows to import.")
+        return
+      }
+      setFileName(file.name)
+      setSheet(data)
+      setMapping(guessColumnMapping(data.headers))
+      setStep("map")
+    } catch (err) {
+      console.error("Error reading import file:", err)
+      setError(err instanceof Error ? err.message : "Could not read the file.")
+    }
+  }
+
+  const handlePreview = () => {
+    if (!sheet || !mapping) return
+    if (IMPORT_FIELDS.some((field) => field.required && mapping[field.key] === null)) {
+      setError("Choose a column for every required field.")
+      return
+    }
+    if (mapping.tanzeem === null && (mapping.gender === null || mapping.dateOfBirth === null)) {
+      setError("Choose a Tanzeem column, or Gender and Date of Birth columns to work it out from.")
+      return
+    }
+    setError("")
+    setRows(validateImportRows(sheet, mapping, regions, members, eventSettings))
+    setStep("preview")
+  }
+
+  const handleImport = async () => {
+    setStep("importing")
+    setProgress({ done: 0, total: rowsToImport.length })
+    try {
+      const importResult = await importTajneedMembers(
+        rowsToImport.map((row) => row.member),
+        (done, total) => setProgress({ done, total }),
+      )
+      setResult(importResult)
+      if (importResult.imported.length > 0) onImported()
+    } catch (err) {
+      // importTajneedMembers reports failed batches itself, so this only
+      // happens before any batch was saved
+      console.error("Error importing tajneed members:", err)
+      setResult({
+        imported: [],
+        failed: rowsToImport.map((row) => ({ member: row.member, reason: "Import failed" })),
+        batches: [],
+      })
+    } finally {
+      setStep("done")
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-card rounded-lg p-6 sm:p-8 max-w-4xl w-full my-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-primary">Import Tajneed</h2>
+          <Button variant="ghost" size="icon" onClick={onClose} disabled={step === "importing"}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+
+        {error && <p className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</p>}
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Upload the list a jamaat sent in as an Excel (.xlsx) or CSV file. The first row must hold the column
+              headers; members are added to the current event.
+            </p>
+            <input
+              type="file"
+              accept=".xlsx,.csv,.txt"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-foreground file:mr-4 file:px-4 file:py-2 file:rounded-md file:border-0 file:bg-primary file:text-primary-foreground"
+            />
+          </div>
+        )}
+
+        {step === "map" && sheet && mapping && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: {sheet.rows.length} row(s). Match each member field to a column in the file.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <label className="block text-xs sm:text-sm font-medium text-foreground mb-2">
+                    {field.label}
+                    {!field.required && " (optional)"}
+                  </label>
+                  <select
+                    value={mapping[field.key] ?? ""}
+                    onChange={(e) =>
+                      setMapping({ ...mapping, [field.key]: e.target.value === "" ? null : Number(e.target.value) })
+                    }
+                    className="w-full px-3 py-2 text-sm border border-border rounded-md bg-background text-foreground"
+                  >
+                    <option value="">{field.required ? "Select column" : "Not in file"}</option>
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={handlePreview} className="bg-primary text-primary-foreground w-full sm:w-auto">
+                Preview Rows
+              </Button>
+              <Button onClick={() => setStep("upload")} variant="outline" className="w-full sm:w-auto">
+                Choose Another File
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-muted rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">Ready</p>
+                <p className="text-xl font-bold text-green-600">{validRows.length - duplicateCount}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">Probable duplicates</p>
+                <p className="text-xl font-bold text-amber-600">{duplicateCount}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">Errors (skipped)</p>
+                <p className="text-xl font-bold text-red-600">{invalidCount}</p>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-auto border border-border rounded-lg">
+              <table className="w-full">
+                <thead className="bg-muted border-b border-border sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Full Name</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Tanzeem</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Region</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Jamaat</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Check</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr
+                      key={row.rowNumber}
+                      className={`border-b border-border ${
+                        row.errors.length > 0 ? "bg-red-50" : row.duplicateOf || row.warnings.length > 0 ? "bg-amber-50" : ""
+                      }`}
+                    >
+                      <td className="px-3 py-2 text-xs text-muted-foreground">{row.rowNumber}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">{row.member.fullName}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">{row.member.tanzeem}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">{row.member.region}</td>
+                      <td className="px-3 py-2 text-xs text-foreground">{row.member.jamaat}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-700">{row.errors.join("; ")}</span>
+                        ) : row.duplicateOf || row.warnings.length > 0 ? (
+                          <span className="text-amber-700">
+                            {[row.duplicateOf && `Probably ${row.duplicateOf}`, ...row.warnings].filter(Boolean).join("; ")}
+                          </span>
+                        ) : (
+                          <span className="text-green-700">OK</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {duplicateCount > 0 && (
+              <label className="flex items-center gap-2 text-sm text-foreground">
+                <Checkbox checked={includeDuplicates} onCheckedChange={(checked) => setIncludeDuplicates(checked === true)} />
+                Import probable duplicates as well
+              </label>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button
+                onClick={handleImport}
+                disabled={rowsToImport.length === 0}
+                className="bg-primary text-primary-foreground w-full sm:w-auto"
+              >
+                Import {rowsToImport.length} Member(s)
+              </Button>
+              <Button onClick={() => setStep("map")} variant="outline" className="w-full sm:w-auto">
+                Back to Columns
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "importing" && (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            Importing... {progress.done} of {progress.total}
+          </p>
+        )}
+
+        {step === "done" && result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-muted rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">Imported</p>
+                <p className="text-xl font-bold text-green-600">{result.imported.length}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">Failed</p>
+                <p className="text-xl font-bold text-red-600">{result.failed.length}</p>
+              </div>
+              <div className="bg-muted rounded-lg p-3 text-center">
+                <p className="text-xs text-muted-foreground">Skipped</p>
+                <p className="text-xl font-bold text-amber-600">{rows.length - rowsToImport.length}</p>
+              </div>
+            </div>
+            {result.batches.length > 1 && (
+              <div className="border border-border rounded-lg p-3 space-y-1">
+                {result.batches.map((batch, i) => (
+                  <p key={i} className={`text-xs ${batch.reason ? "text-red-700" : "text-green-700"}`}>
+                    {describeBatch(batch)}: {batch.reason ? `not imported (${batch.reason})` : `${batch.imported} imported`}
+                  </p>
+                ))}
+              </div>
+            )}
+            {result.failed.length > 0 && (
+              <div className="max-h-60 overflow-auto border border-border rounded-lg p-3 space-y-1">
+                {result.failed.map((failure, i) => (
+                  <p key={i} className="text-xs text-red-700">
+                    {failure.member.fullName} ({failure.member.jamaat}): {failure.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+            <Button onClick={onClose} className="bg-primary text-primary-foreground w-full sm:w-auto">
+              Close
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { reclassifyTajneedMembers } from "@/lib/storage"
+import { getTanzeemMismatch } from "@/lib/tanzeem-rules"
+import type { EventSettings, TajneedMember } from "@/lib/types"
+import { toast } from "sonner"
+import { X } from "lucide-react"
+
+interface TanzeemCheckDialogProps {
+  members: TajneedMember[]
+  eventSettings?: EventSettings
+  onClose: () => void
+  onReclassified: () => void
+}
+
+// Members whose tanzeem does not match their gender and age, with a bulk move to the suggested one
+export function TanzeemCheckDialog({ members, eventSettings, onClose, onReclassified }: TanzeemCheckDialogProps) {
+  const mismatches = useMemo(
+    () =>
+      members
+        .map((member) => ({ member, suggestion: getTanzeemMismatch(member, eventSettings) }))
+        .filter((row) => row.suggestion)
+        .map((row) => ({ member: row.member, suggestion: row.suggestion! })),
+    [members, eventSettings],
+  )
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(mismatches.map((row) => row.member.id)))
+  const [saving, setSaving] = useState(false)
+  const checkedCount = members.filter((member) => member.gender && member.dateOfBirth).length
+
+  const toggle = (memberId: string, checked: boolean) => {
+    setSelectedIds((ids) => {
+      const next = new Set(ids)
+      if (checked) next.add(memberId)
+      else next.delete(memberId)
+      return next
+    })
+  }
+
+  const handleReclassify = async () => {
+    const changes = mismatches
+      .filter((row) => selectedIds.has(row.member.id))
+      .map((row) => ({ memberId: row.member.id, tanzeem: row.suggestion.tanzeem }))
+    if (!confirm(`Move ${changes.length} member(s) to the suggested tanzeem?`)) return
+
+    setSaving(true)
+    try {
+      const updated = await reclassifyTajneedMembers(changes)
+      if (updated === changes.length) {
+        toast.success(`${updated} member(s) reclassified`)
+      } else {
+        toast.error("Some members were not reclassified", {
+          description: `${updated} of ${changes.length} were updated. Please try the rest again.`,
+        })
+      }
+      onReclassified()
+      onClose()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-card rounded-lg p-6 sm:p-8 max-w-3xl w-full my-4">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-primary">Tanzeem Check</h2>
+          <Button variant="ghost" size="icon" onClick={onClose} disabled={saving}>
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          {checkedCount} of {members.length} members have a gender and date of birth to check.{" "}
+          {mismatches.length} are registered in a different tanzeem than their age suggests. Guests are not checked.
+        </p>
+
+        {mismatches.length > 0 && (
+          <div className="max-h-[50vh] overflow-auto border border-border rounded-lg mb-4">
+            <table className="w-full">
+              <thead className="bg-muted border-b border-border sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 w-8"></th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Full Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Jamaat</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Age</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Registered As</th>
+                  <th className="px-3 py-2 text-left text-xs font-semibold text-foreground">Suggested</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mismatches.map(({ member, suggestion }) => (
+                  <tr key={member.id} className="border-b border-border">
+                    <td className="px-3 py-2">
+                      <Checkbox
+                        checked={selectedIds.has(member.id)}
+                        onCheckedChange={(checked) => toggle(member.id, checked === true)}
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-xs text-foreground">{member.fullName}</td>
+                    <td className="px-3 py-2 text-xs text-foreground">{member.jamaat}</td>
+                    <td className="px-3 py-2 text-xs text-foreground">
+                      {suggestion.age} ({member.gender})
+                    </td>
+                    <td className="px-3 py-2 text-xs text-red-700">{member.tanzeem}</td>
+                    <td className="px-3 py-2 text-xs text-green-700 font-medium">{suggestion.tanzeem}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          {mismatches.length > 0 && (
+            <Button
+              onClick={handleReclassify}
+              disabled={saving || selectedIds.size === 0}
+              className="bg-primary text-primary-foreground w-full sm:w-auto"
+            >
+              {saving ? "Saving..." : `Reclassify ${selectedIds.size} Selected`}
+            </Button>
+          )}
+          <Button onClick={onClose} variant="outline" className="w-full sm:w-auto" disabled={saving}>
+            Close
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+"use client"
+
+import { getTanzeemColor } from "@/lib/tanzeem-categories"
+import type { EventSettings } from "@/lib/types"
+
+// Small swatch in the tanzeem category's colour, shown before its name
+export function TanzeemDot({ tanzeem, eventSettings }: { tanzeem: string; eventSettings?: EventSettings }) {
+  return (
+    <span
+      aria-hidden="true"
+      className="inline-block h-2.5 w-2.5 rounded-full mr-1.5 align-middle shrink-0"
+      style={{ backgroundColor: getTanzeemColor(tanzeem, eventSettings) }}
+    />
+  )
+}
@@ -0,0 +1,30 @@
+"use client"
+
+import { suggestTanzeem } from "@/lib/tanzeem-rules"
+import type { EventSettings, TajneedMember, Tanzeem } from "@/lib/types"
+
+interface TanzeemSuggestionHintProps {
+  member: Pick<TajneedMember, "gender" | "dateOfBirth">
+  tanzeem: Tanzeem | ""
+  eventSettings?: EventSettings
+  onUse: (tanzeem: Tanzeem) => void
+}
+
+// Shown under a Tanzeem dropdown once gender and date of birth are known
+export function TanzeemSuggestionHint({ member, tanzeem, eventSettings, onUse }: TanzeemSuggestionHintProps) {
+  const suggestion = suggestTanzeem(member, eventSettings)
+  if (!suggestion || tanzeem === "Guests") return null
+
+  if (suggestion.tanzeem === tanzeem) {
+    return <p className="text-xs text-green-700 mt-1">Matches age {suggestion.age}</p>
+  }
+
+  return (
+    <p className="text-xs text-amber-700 mt-1">
+      Age {suggestion.age} suggests {suggestion.tanzeem}.{" "}
+      <button type="button" onClick={() => onUse(suggestion.tanzeem)} className="underline font-medium">
+        Use {suggestion.tanzeem}
+      </button>
+    </p>
+  )
+}
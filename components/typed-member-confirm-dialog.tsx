@@ -0,0 +1,61 @@
+"use client"
+
+import { useRef, useState, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import type { TajneedMember } from "@/lib/types"
+
+// A typed member code is only a claim, unlike a signed card, so the operator
+// compares the person in front of them with the member's photo and name
+// before they are let through. Returns a confirm function that resolves once
+// the operator decides, and the dialog to render for it.
+export function useTypedMemberConfirmation(): [(member: TajneedMember) => Promise<boolean>, ReactNode] {
+  const [member, setMember] = useState<TajneedMember | null>(null)
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null)
+
+  const confirm = (typed: TajneedMember) =>
+    new Promise<boolean>((resolve) => {
+      resolveRef.current?.(false)
+      resolveRef.current = resolve
+      setMember(typed)
+    })
+
+  const decide = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed)
+    resolveRef.current = null
+    setMember(null)
+  }
+
+  const dialog = member ? (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50 overflow-y-auto">
+      <div className="bg-card rounded-lg p-6 sm:p-8 max-w-md w-full my-4 text-center">
+        <h2 className="text-2xl font-bold text-primary mb-2">Confirm Member</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          A typed code is not an ID card. Check that this is the person in front of you.
+        </p>
+        {member.photoUrl ? (
+          <img
+            src={member.photoUrl}
+            alt={member.fullName}
+            className="w-32 h-40 object-cover rounded-md border border-border mx-auto mb-3"
+          />
+        ) : (
+          <p className="text-sm text-amber-700 mb-3">No photo on file. Ask for another form of ID.</p>
+        )}
+        <p className="text-xl font-semibold text-foreground">{member.fullName}</p>
+        <p className="text-sm text-muted-foreground">
+          {[member.memberCode, member.tanzeem, member.jamaat].filter(Boolean).join(" · ")}
+        </p>
+        <div className="flex gap-2 mt-6">
+          <Button onClick={() => decide(true)} className="flex-1 bg-primary text-primary-foreground">
+            This Is Them
+          </Button>
+          <Button onClick={() => decide(false)} variant="outline" className="flex-1">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  ) : null
+
+  return [confirm, dialog]
+}
@@ -1,6 +1,7 @@
-import { supabase, isSupabaseConfigured } from "./supabase"
-import { getUserByUsername } from "./storage"
-import type { User, UserRole } from "./types"
+import { clearAccessToken } from "./supabase"
+import type { UserRole } from "./types"
+import type { Permission } from "./permissions"
+import type { EventScope } from "./event-scope"
 
 export interface LoginCredentials {
   email: string
@@ -13,78 +14,43 @@ export interface AuthUser {
   username?: string
   role: UserRole
   fullName: string
+  permissions: Permission[] // Resolved from the role when the session is issued
+  eventScope: EventScope // Assigned events, regions and gates (null: every event)
 }
 
+// Signs in through the login route handler, which checks Supabase Auth (Main
+// Admin users) and then the users table, and sets the signed HTTP-only
+// session cookie that middleware.ts enforces. The auth_user copy in
+// localStorage is only used to render the UI; the database applies the event
+// scope from the session itself (see lib/supabase-token.ts).
 export const loginUser = async (
   credentials: LoginCredentials,
 ): Promise<{ user: AuthUser | null; error: string | null }> => {
   try {
-    // Clear any existing Supabase Auth session before attempting new login
-    // This prevents conflicts when switching between accounts
-    if (isSupabaseConfigured) {
-      try {
-        await supabase.auth.signOut()
-      } catch (error) {
-        // Ignore errors when clearing session (might not have an active session)
-        console.log("No active session to clear or error clearing session:", error)
-      }
-    }
-
-    // Step 1: First, try Supabase Authentication (for Main Admin Users)
-    if (isSupabaseConfigured) {
-      const { data, error } = await supabase.auth.signInWithPassword({
-        email: credentials.email,
-        password: credentials.password,
-      })
-
-      if (!error && data.user) {
-        // This is a Supabase Auth user (Main Admin)
-        const user: AuthUser = {
-          id: data.user.id,
-          email: data.user.email || "",
-          role: "Admin", // Default to Admin for Supabase auth users
-          fullName: data.user.email || "Admin User",
-        }
-
-        if (typeof window !== "undefined") {
-          localStorage.setItem("auth_user", JSON.stringify(user))
-          localStorage.setItem("auth_token", data.session?.access_token || "")
-        }
-
-        return {
-          user,
-          error: null,
-        }
+    const response = await fetch("/api/auth/login", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: credentials.email, password: credentials.password }), // Using email field for username
+    })
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: null }))
+      return {
+        user: null,
+        error: error || "An error occurred during login",
       }
     }
 
-    // Step 2: If Supabase Auth fails, check users table in Supabase database
-    // (for system-created users: Attendance Register, Security Check, Catering Service)
-    const customUser = await getUserByUsername(credentials.email) // Using email field for username
-
-    if (customUser && customUser.password === credentials.password) {
-      // Simple password check (in production, use hashing)
-      const user: AuthUser = {
-        id: customUser.id,
-        username: customUser.username,
-        role: customUser.role,
-        fullName: customUser.fullName,
-      }
-
-      if (typeof window !== "undefined") {
-        localStorage.setItem("auth_user", JSON.stringify(user))
-      }
+    const { user } = (await response.json()) as { user: AuthUser }
+    clearAccessToken()
 
-      return {
-        user,
-        error: null,
-      }
+    if (typeof window !== "undefined") {
+      localStorage.setItem("auth_user", JSON.stringify(user))
     }
 
-    // If neither authentication method succeeds
     return {
-      user: null,
-      error: "Invalid username or password",
+      user,
+      error: null,
     }
   } catch (err) {
     console.error("Login error:", err)
@@ -103,41 +69,43 @@ export const getCurrentUser = (): AuthUser | null => {
   return userStr ? JSON.parse(userStr) : null
 }
 
-// Logout function
-export const logoutUser = async (): Promise<void> => {
-  // Clear Supabase Auth session if configured
-  if (isSupabaseConfigured && typeof window !== "undefined") {
-    try {
-      await supabase.auth.signOut()
-    } catch (error) {
-      console.error("Error signing out from Supabase:", error)
-    }
-  }
-
-  // Clear local storage
+// Drop the UI copy of the signed-in user and their Supabase access token (the
+// session cookie is cleared server-side)
+export const clearLocalSession = (): void => {
+  clearAccessToken()
   if (typeof window !== "undefined") {
     localStorage.removeItem("auth_user")
     localStorage.removeItem("auth_token")
   }
 }
 
+// Logout function
+export const logoutUser = async (): Promise<void> => {
+  try {
+    await fetch("/api/auth/logout", { method: "POST" })
+  } catch (error) {
+    console.error("Error ending session:", error)
+  }
+
+  clearLocalSession()
+}
+
 // Check if user is authenticated
 export const isAuthenticated = (): boolean => {
   return getCurrentUser() !== null
 }
 
-// Check if user has specific role
-export const hasRole = (role: UserRole): boolean => {
+// Check if user has a specific permission
+export const hasPermission = (permission: Permission): boolean => {
   const user = getCurrentUser()
-  return user?.role === role || user?.role === "Admin"
+  return user?.permissions?.includes(permission) ?? false
 }
 
-// Check if user has any of the specified roles
-export const hasAnyRole = (roles: UserRole[]): boolean => {
+// Check if user has any of the specified permissions
+export const hasAnyPermission = (permissions: Permission[]): boolean => {
   const user = getCurrentUser()
-  if (!user) return false
-  if (user.role === "Admin") return true
-  return roles.includes(user.role)
+  if (!user?.permissions) return false
+  return permissions.some((permission) => user.permissions.includes(permission))
 }
 
 // Get user role
@@ -146,9 +114,33 @@ export const getUserRole = (): UserRole | null => {
   return user?.role || null
 }
 
-// Check if user is admin
-export const isAdmin = (): boolean => {
-  return hasRole("Admin")
+// Events the signed-in user may work (null: every event)
+export const getEventScope = (): EventScope => {
+  return getCurrentUser()?.eventScope ?? null
+}
+
+// Re-read the session from the server so role and assignment edits made on
+// /users show up without signing in again. Returns null (and clears the local copy) when the
+// session has ended.
+export const refreshCurrentUser = async (): Promise<AuthUser | null> => {
+  try {
+    const response = await fetch("/api/auth/session")
+    if (response.status === 401) {
+      clearLocalSession()
+      return null
+    }
+    if (!response.ok) return getCurrentUser()
+
+    const { user } = (await response.json()) as { user: AuthUser }
+    // New assignments: fetch a token carrying them rather than wait for expiry
+    if (JSON.stringify(user.eventScope) !== JSON.stringify(getEventScope())) clearAccessToken()
+    localStorage.setItem("auth_user", JSON.stringify(user))
+    return user
+  } catch (error) {
+    // Offline at the venue: keep using the local copy
+    console.error("Error refreshing session:", error)
+    return getCurrentUser()
+  }
 }
 
 // Get redirect path based on user role
@@ -0,0 +1,94 @@
+import type { BrandingProfile, EventSettings } from "./types"
+
+// The organisation an event's PDFs, spreadsheets and ID cards are branded for.
+// Each event keeps its own profile (new events start from the current one's);
+// fields left empty fall back to the Jalsa Salana Kenya branding the system
+// was built with.
+
+export const DEFAULT_BRANDING: BrandingProfile = {
+  titleLine: "Jalsa Salana",
+  country: "Kenya",
+  organisationShortName: "AMJ",
+  cardLogoUrl: "/minarat.png",
+  reportLogoUrl: "/logo.png",
+  badgeLogoUrl: "/amj.png",
+  signatureUrl: "/signature.png",
+  signatoryName: "Afsar Jalsa",
+  cardHeaderColor: "#000000",
+  tableHeaderColor: "#0a66cc",
+  footerText: "",
+}
+
+// Logos and signatures are stored as data URLs, so uploads are scaled down to this
+const MAX_IMAGE_SIZE = 600
+
+export const getBranding = (settings?: EventSettings): BrandingProfile => {
+  const saved = settings?.branding
+  if (!saved) return DEFAULT_BRANDING
+  // Text fields fall back when cleared; the footer may be left empty on purpose
+  const filled = Object.fromEntries(
+    Object.entries(saved).filter(([field, value]) => field === "footerText" || (typeof value === "string" && value.trim())),
+  )
+  return { ...DEFAULT_BRANDING, ...filled }
+}
+
+// The event's year, from its starting date rather than today's, so reprints
+// after New Year keep the event's year
+export const getEventYear = (settings?: EventSettings): number => {
+  const year = Number.parseInt(settings?.startingDate?.slice(0, 4) || "", 10)
+  return Number.isNaN(year) ? new Date().getFullYear() : year
+}
+
+// "JALSA SALANA KENYA - 2025"
+export const getBrandingTitle = (settings?: EventSettings): string => {
+  const branding = getBranding(settings)
+  return `${branding.titleLine} ${branding.country}`.trim().toUpperCase() + ` - ${getEventYear(settings)}`
+}
+
+// Title used when an export is not given one, e.g. "Jalsa Salana Management System"
+export const getSystemTitle = (settings?: EventSettings): string => `${getBranding(settings).titleLine} Management System`
+
+// [r, g, b] of a #RRGGBB colour
+export const hexToRGB = (color: string): [number, number, number] => [
+  Number.parseInt(color.slice(1, 3), 16),
+  Number.parseInt(color.slice(3, 5), 16),
+  Number.parseInt(color.slice(5, 7), 16),
+]
+
+// ExcelJS colour ("FF0A66CC") of a #RRGGBB colour
+export const hexToARGB = (color: string): string => `FF${color.slice(1).toUpperCase()}`
+
+// First problem with the profile, or null when it can be saved
+export const validateBranding = (branding: BrandingProfile): string | null => {
+  if (!branding.titleLine.trim()) return "The title line is required"
+  if (!/^#[0-9a-fA-F]{6}$/.test(branding.cardHeaderColor) || !/^#[0-9a-fA-F]{6}$/.test(branding.tableHeaderColor)) {
+    return "Colours must be #RRGGBB"
+  }
+  return null
+}
+
+// Reads an uploaded logo or signature as a PNG data URL, keeping transparency
+export const readBrandingImage = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.width, image.height))
+      const canvas = document.createElement("canvas")
+      canvas.width = Math.round(image.width * scale)
+      canvas.height = Math.round(image.height * scale)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        reject(new Error("Could not process the image"))
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL("image/png"))
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Could not read the image"))
+    }
+    image.src = url
+  })
@@ -0,0 +1,218 @@
+import { getBranding } from "./branding"
+import type { CardElement, CardElementKind, EventSettings, IDCardTemplate } from "./types"
+
+// ID card templates are designed under Settings → ID Card Templates and saved
+// on the event. Elements are positioned in millimetres on a CARD_WIDTH x
+// CARD_HEIGHT card; cards printed at another size are scaled to fit. The
+// designer's preview and the PDF generators both read element content here,
+// so what is previewed is what prints.
+
+export const CARD_WIDTH = 75
+export const CARD_HEIGHT = 110
+
+export const CARD_ELEMENT_KINDS: { kind: CardElementKind; label: string; type: "text" | "image" | "box" }[] = [
+  { kind: "name", label: "Name", type: "text" },
+  { kind: "tanzeem", label: "Tanzeem", type: "text" },
+  { kind: "region", label: "Region", type: "text" },
+  { kind: "jamaat", label: "Jamaat", type: "text" },
+  { kind: "memberCode", label: "Member code", type: "text" },
+  { kind: "photo", label: "Photo", type: "image" },
+  { kind: "qr", label: "QR code", type: "image" },
+  { kind: "cardLogo", label: "ID card logo", type: "image" },
+  { kind: "badgeLogo", label: "Badge logo", type: "image" },
+  { kind: "signature", label: "Signature", type: "image" },
+  { kind: "signatory", label: "Signatory", type: "text" },
+  { kind: "organisation", label: "Organisation short name", type: "text" },
+  { kind: "country", label: "Country", type: "text" },
+  { kind: "eventTitle", label: "Event title", type: "text" },
+  { kind: "eventDates", label: "Event dates", type: "text" },
+  { kind: "theme", label: "Theme", type: "text" },
+  { kind: "text", label: "Free text", type: "text" },
+  { kind: "box", label: "Box", type: "box" },
+]
+
+// Member details printed as dashed lines on blank (surplus) cards, to be filled in by hand
+const BLANK_ON_SURPLUS: CardElementKind[] = ["name", "tanzeem", "region", "jamaat"]
+
+// What a card is printed for
+export interface CardData {
+  name: string
+  tanzeem: string
+  region: string
+  jamaat: string
+  memberCode?: string
+  photo?: string // Data URL
+  qrCode?: string // Data URL
+  blank?: boolean // Surplus card with its details left to fill in
+}
+
+export const getCardElementType = (kind: CardElementKind) =>
+  CARD_ELEMENT_KINDS.find((entry) => entry.kind === kind)?.type ?? "text"
+
+export const getCardElementLabel = (kind: CardElementKind) =>
+  CARD_ELEMENT_KINDS.find((entry) => entry.kind === kind)?.label ?? kind
+
+// "6TH-7TH DECEMBER 2025", or both dates in full across months
+export const formatCardEventDates = (settings: EventSettings): string => {
+  const startDate = new Date(settings.startingDate)
+  const endDate = new Date(startDate)
+  endDate.setDate(endDate.getDate() + (settings.duration - 1))
+
+  // Helper to produce ordinal suffix (1ST, 2ND, 3RD, 4TH...)
+  const ordinal = (n: number) => {
+    const s = ["th", "st", "nd", "rd"]
+    const v = n % 100
+    return n + (s[(v - 20) % 10] || s[v] || s[0]).toUpperCase()
+  }
+  const month = (d: Date) => d.toLocaleDateString("en-GB", { month: "long" }).toUpperCase()
+
+  if (startDate.getMonth() === endDate.getMonth() && startDate.getFullYear() === endDate.getFullYear()) {
+    return `${ordinal(startDate.getDate())}-${ordinal(endDate.getDate())} ${month(startDate)} ${startDate.getFullYear()}`
+  }
+  return `${ordinal(startDate.getDate())} ${month(startDate)} ${startDate.getFullYear()} - ${ordinal(endDate.getDate())} ${month(endDate)} ${endDate.getFullYear()}`
+}
+
+// True when the element prints as a dashed line rather than text
+export const isBlankCardElement = (element: CardElement, data: CardData): boolean =>
+  !!data.blank && BLANK_ON_SURPLUS.includes(element.kind)
+
+// Text a text element prints
+export const getCardElementText = (
+  element: CardElement,
+  data: CardData,
+  settings?: EventSettings,
+  eventTitle?: string,
+): string => {
+  const branding = getBranding(settings)
+  switch (element.kind) {
+    case "name":
+      return data.name
+    case "tanzeem":
+      return data.tanzeem
+    case "region":
+      return data.region
+    case "jamaat":
+      return data.jamaat
+    case "memberCode":
+      return data.memberCode || ""
+    case "signatory":
+      return branding.signatoryName.toUpperCase()
+    case "organisation":
+      return branding.organisationShortName
+    case "country":
+      return branding.country.toUpperCase()
+    case "eventTitle":
+      return eventTitle || settings?.eventName || ""
+    case "eventDates":
+      return settings ? formatCardEventDates(settings) : ""
+    case "theme":
+      return settings?.theme || ""
+    case "text":
+      return element.text || ""
+    default:
+      return ""
+  }
+}
+
+// Image an image element prints, or undefined when there is none for this card
+export const getCardElementImage = (element: CardElement, data: CardData, settings?: EventSettings) => {
+  const branding = getBranding(settings)
+  switch (element.kind) {
+    case "photo":
+      return data.photo
+    case "qr":
+      return data.qrCode
+    case "cardLogo":
+      return branding.cardLogoUrl
+    case "badgeLogo":
+      return branding.badgeLogoUrl
+    case "signature":
+      return branding.signatureUrl
+    default:
+      return undefined
+  }
+}
+
+export const getCardBackground = (template: IDCardTemplate, tanzeem: string): string =>
+  template.tanzeemBackgrounds[tanzeem] || template.background
+
+// The template ID cards of the event are printed from, or null for the built-in layout
+export const getActiveCardTemplate = (settings?: EventSettings): IDCardTemplate | null =>
+  settings?.cardTemplates?.find((template) => template.id === settings.activeCardTemplateId) ?? null
+
+export const createCardElement = (kind: CardElementKind): CardElement => {
+  const type = getCardElementType(kind)
+  const base = { id: crypto.randomUUID(), kind, x: 5, y: 40 }
+  if (type === "image") return { ...base, width: kind === "signature" ? 34 : 20, height: kind === "signature" ? 6 : 20 }
+  if (type === "box") return { ...base, width: 30, height: 10, color: "#e5e7eb" }
+  return {
+    ...base,
+    width: 40,
+    height: 6,
+    fontSize: 12,
+    color: "#000000",
+    align: "left",
+    ...(kind === "text" ? { text: "Text" } : {}),
+  }
+}
+
+// A template laid out like the built-in card, as a starting point to edit
+export const createDefaultCardTemplate = (name: string, settings?: EventSettings): IDCardTemplate => {
+  const element = (kind: CardElementKind, changes: Partial<CardElement>): CardElement => ({
+    ...createCardElement(kind),
+    ...changes,
+  })
+  const white = "#ffffff"
+  const green = "#006400"
+  return {
+    id: crypto.randomUUID(),
+    name,
+    background: "#ffffff",
+    tanzeemBackgrounds: {},
+    elements: [
+      element("box", { x: 2, y: 2, width: 71, height: 28, color: getBranding(settings).cardHeaderColor }),
+      element("cardLogo", { x: 2, y: 2, width: 9, height: 28 }),
+      element("eventTitle", { x: 11, y: 4, width: 60, height: 6, fontSize: 13, bold: true, color: white, align: "center" }),
+      element("eventDates", { x: 11, y: 12, width: 60, height: 5, fontSize: 11, color: white, align: "center" }),
+      element("theme", { x: 11, y: 19, width: 60, height: 6, fontSize: 12, italic: true, color: white, align: "center" }),
+      element("text", { x: 6, y: 34, width: 30, height: 6, fontSize: 14, text: "Name" }),
+      element("name", { x: 6, y: 40, width: 40, height: 6, fontSize: 14, color: green }),
+      element("text", { x: 6, y: 48, width: 30, height: 6, fontSize: 14, text: "Region" }),
+      element("region", { x: 6, y: 54, width: 38, height: 6, fontSize: 14, color: green }),
+      element("text", { x: 6, y: 62, width: 30, height: 6, fontSize: 14, text: "Jamaat" }),
+      element("jamaat", { x: 6, y: 68, width: 38, height: 6, fontSize: 14, color: green }),
+      element("photo", { x: 48, y: 32, width: 21, height: 26 }),
+      element("memberCode", { x: 44, y: 59, width: 29, height: 4, fontSize: 10, align: "center" }),
+      element("qr", { x: 44, y: 63, width: 29, height: 29 }),
+      element("badgeLogo", { x: 3, y: 95, width: 9, height: 9 }),
+      element("organisation", { x: 1, y: 104, width: 13, height: 3, fontSize: 8, bold: true, align: "center" }),
+      element("country", { x: 1, y: 106.5, width: 13, height: 2.5, fontSize: 5, bold: true, align: "center" }),
+      element("signature", { x: 40, y: 97, width: 34, height: 6 }),
+      element("box", { x: 40, y: 104, width: 34, height: 0.3, color: "#000000" }),
+      element("signatory", { x: 40, y: 105, width: 34, height: 3, fontSize: 7, align: "center" }),
+    ],
+  }
+}
+
+// First problem with the template, or null when it can be saved
+export const validateCardTemplate = (template: IDCardTemplate): string | null => {
+  if (!template.name.trim()) return "Every template needs a name"
+  const colors = [
+    template.background,
+    ...Object.values(template.tanzeemBackgrounds),
+    ...template.elements.flatMap((element) => (element.color ? [element.color] : [])),
+  ]
+  if (colors.some((color) => !/^#[0-9a-fA-F]{6}$/.test(color))) return "Colours must be #RRGGBB"
+  for (const element of template.elements) {
+    const label = getCardElementLabel(element.kind)
+    if ([element.x, element.y, element.width, element.height].some((value) => !Number.isFinite(value))) {
+      return `${label} needs a position and size`
+    }
+    if (element.width <= 0 || element.height <= 0) return `${label} must be larger than zero`
+    if (element.x < 0 || element.y < 0 || element.x + element.width > CARD_WIDTH || element.y + element.height > CARD_HEIGHT) {
+      return `${label} must fit on the card`
+    }
+    if (element.fontSize !== undefined && !(element.fontSize > 0)) return `${label} needs a font size`
+  }
+  return null
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import {
+  cleanDayMeals,
+  getCateringSessions,
+  getDefaultCateringSession,
+  getEventDays,
+  isCateringSessionOpen,
+  isCateringSessionUpcoming,
+  isSameEventDay,
+  toLocalDay,
+  validateMealWindows,
+} from "./catering-sessions"
+import type { EventSettings } from "./types"
+
+// Nairobi is UTC+3 all year, so venue times below are three hours ahead of the UTC moments
+const EVENT = {
+  id: "event-1",
+  eventName: "Jalsa Salana Kenya",
+  startingDate: "2025-08-22",
+  duration: 3,
+  location: "Nairobi",
+  theme: "",
+  timeZone: "Africa/Nairobi",
+  createdAt: "2025-01-01T00:00:00Z",
+} as EventSettings
+
+const LUNCH = { day: "2025-08-22", mealType: "Lunch" }
+
+describe("event days and sessions", () => {
+  it("lists each day of the event with its meals", () => {
+    expect(getEventDays(EVENT)).toEqual(["2025-08-22", "2025-08-23", "2025-08-24"])
+    expect(getCateringSessions(EVENT)).toHaveLength(9)
+  })
+
+  it("serves only the listed meals on days with their own list", () => {
+    const settings = { ...EVENT, dayMeals: { "2025-08-24": ["Breakfast", "Lunch"] } }
+    expect(getCateringSessions(settings)).toHaveLength(8)
+    expect(cleanDayMeals(settings)).toEqual({ "2025-08-24": ["Breakfast", "Lunch"] })
+    expect(cleanDayMeals(EVENT)).toBeUndefined()
+  })
+
+  it("treats records carrying a weekday name as served on that event day", () => {
+    expect(isSameEventDay("Friday", "2025-08-22")).toBe(true)
+    expect(isSameEventDay("Saturday", "2025-08-22")).toBe(false)
+  })
+})
+
+describe("meal windows in the venue's time zone", () => {
+  it("takes the event day from the venue, not the browser", () => {
+    expect(toLocalDay(new Date("2025-08-21T22:00:00Z"), "Africa/Nairobi")).toBe("2025-08-22")
+    expect(toLocalDay(new Date("2025-08-21T22:00:00Z"), "UTC")).toBe("2025-08-21")
+  })
+
+  it("opens a meal from the start of its window until its end", () => {
+    expect(isCateringSessionOpen(LUNCH, EVENT, new Date("2025-08-22T08:59:00Z"))).toBe(false)
+    expect(isCateringSessionOpen(LUNCH, EVENT, new Date("2025-08-22T09:00:00Z"))).toBe(true)
+    expect(isCateringSessionOpen(LUNCH, EVENT, new Date("2025-08-22T11:59:00Z"))).toBe(true)
+    expect(isCateringSessionOpen(LUNCH, EVENT, new Date("2025-08-22T12:00:00Z"))).toBe(false)
+  })
+
+  it("keeps a meal closed on other days", () => {
+    expect(isCateringSessionOpen(LUNCH, EVENT, new Date("2025-08-23T10:00:00Z"))).toBe(false)
+  })
+
+  it("serves meals without a window all day", () => {
+    const settings = { ...EVENT, mealWindows: { Breakfast: { start: "06:00", end: "10:00" } } }
+    expect(isCateringSessionOpen(LUNCH, settings, new Date("2025-08-22T19:00:00Z"))).toBe(true)
+  })
+
+  it("counts a meal as upcoming until its window closes", () => {
+    expect(isCateringSessionUpcoming(LUNCH, EVENT, new Date("2025-08-21T10:00:00Z"))).toBe(true)
+    expect(isCateringSessionUpcoming(LUNCH, EVENT, new Date("2025-08-22T11:00:00Z"))).toBe(true)
+    expect(isCateringSessionUpcoming(LUNCH, EVENT, new Date("2025-08-22T12:00:00Z"))).toBe(false)
+  })
+})
+
+describe("getDefaultCateringSession", () => {
+  it("opens on the meal being served, else today's next one", () => {
+    expect(getDefaultCateringSession(EVENT, new Date("2025-08-22T10:00:00Z"))).toEqual(LUNCH)
+    expect(getDefaultCateringSession(EVENT, new Date("2025-08-22T13:00:00Z"))).toEqual({
+      day: "2025-08-22",
+      mealType: "Dinner",
+    })
+  })
+
+  it("opens on the event's first session before it starts", () => {
+    expect(getDefaultCateringSession(EVENT, new Date("2025-08-01T10:00:00Z"))).toEqual({
+      day: "2025-08-22",
+      mealType: "Breakfast",
+    })
+  })
+})
+
+describe("validateMealWindows", () => {
+  it("needs both times of a window", () => {
+    expect(validateMealWindows({ Lunch: { start: "12:00", end: "15:00" } })).toBeNull()
+    expect(validateMealWindows({ Lunch: { start: "12:00", end: "" } })).toMatch(/both a start and an end/)
+  })
+
+  it("rejects a window that ends before it starts or crosses midnight", () => {
+    expect(validateMealWindows({ Lunch: { start: "15:00", end: "12:00" } })).toMatch(/end after it starts/)
+    expect(validateMealWindows({ Suhoor: { start: "23:00", end: "01:00" } })).toMatch(/on the same day/)
+  })
+})
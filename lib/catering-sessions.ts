@@ -0,0 +1,181 @@
+import type { EventDay, EventSettings, MealType, MealWindow } from "./types"
+
+// A catering session is one meal on one event day, e.g. "Fri 6 Dec – Lunch".
+// The days come from the event's starting date and duration; the meals are the
+// event's meal types, narrowed per day where settings say so.
+
+export const DEFAULT_MEAL_TYPES: MealType[] = ["Breakfast", "Lunch", "Dinner"]
+
+// Serving windows for the default meals; meals without a window are served all day
+export const DEFAULT_MEAL_WINDOWS: Record<MealType, MealWindow> = {
+  Breakfast: { start: "06:00", end: "10:00" },
+  Lunch: { start: "12:00", end: "15:00" },
+  Dinner: { start: "18:00", end: "22:00" },
+}
+
+export interface CateringSession {
+  day: EventDay
+  mealType: MealType
+}
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+// Dates are handled in UTC so the browser's time zone never shifts an event day
+const toDate = (day: EventDay): Date => new Date(`${day}T00:00:00Z`)
+
+export const getEventDays = (settings?: EventSettings): EventDay[] => {
+  const start = settings?.startingDate?.slice(0, 10)
+  if (!start || !ISO_DATE.test(start) || Number.isNaN(toDate(start).getTime())) return []
+  const duration = Math.max(1, Math.floor(Number(settings?.duration)) || 1)
+  return Array.from({ length: duration }, (_, i) => {
+    const date = toDate(start)
+    date.setUTCDate(date.getUTCDate() + i)
+    return date.toISOString().slice(0, 10)
+  })
+}
+
+// The meals the event serves, in serving order
+export const getMealTypes = (settings?: EventSettings): MealType[] =>
+  settings?.mealTypes?.length ? settings.mealTypes : DEFAULT_MEAL_TYPES
+
+// The meals served on one day; days without their own list serve every meal
+export const getDayMeals = (day: EventDay, settings?: EventSettings): MealType[] => {
+  const meals = settings?.dayMeals?.[day]
+  const all = getMealTypes(settings)
+  return meals ? all.filter((meal) => meals.includes(meal)) : all
+}
+
+export const getCateringSessions = (settings?: EventSettings): CateringSession[] =>
+  getEventDays(settings).flatMap((day) => getDayMeals(day, settings).map((mealType) => ({ day, mealType })))
+
+// "Fri 6 Dec". Records served before event days were dated hold a weekday
+// name instead, which is shown as it is.
+export const formatEventDay = (day: EventDay): string =>
+  ISO_DATE.test(day)
+    ? toDate(day).toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" })
+    : day
+
+export const formatCateringSession = (session: CateringSession): string =>
+  `${formatEventDay(session.day)} – ${session.mealType}`
+
+// True when a record's day is the given event day, including records that
+// still carry the weekday name they were served under
+export const isSameEventDay = (recordDay: EventDay, day: EventDay): boolean =>
+  recordDay === day || (ISO_DATE.test(day) && recordDay === WEEKDAYS[toDate(day).getUTCDay()])
+
+// The event's window for a meal, or null when it is served all day
+export const getMealWindow = (mealType: MealType, settings?: EventSettings): MealWindow | null => {
+  const windows = settings?.mealWindows ?? DEFAULT_MEAL_WINDOWS
+  return windows[mealType] ?? null
+}
+
+export const formatMealWindow = (window: MealWindow | null): string =>
+  window ? `${window.start}–${window.end}` : "all day"
+
+// The browser's time zone, recorded as a new event's timeZone. Scanners and the
+// database (jalsa_protect_catering_override) check meal windows in that zone.
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-GB", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Event day and HH:MM of a moment in the venue's time zone: the event's, or
+// the browser's for events that have not recorded one
+const toVenueParts = (now: Date, timeZone?: string): Record<string, string> =>
+  Object.fromEntries(
+    new Intl.DateTimeFormat("en-GB", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  )
+
+export const toLocalDay = (now: Date, timeZone?: string): EventDay => {
+  const { year, month, day } = toVenueParts(now, timeZone)
+  return `${year}-${month}-${day}`
+}
+const toLocalTime = (now: Date, timeZone?: string): string => {
+  const { hour, minute } = toVenueParts(now, timeZone)
+  return `${hour}:${minute}`
+}
+
+// True while a session can be served without an override
+export const isCateringSessionOpen = (session: CateringSession, settings?: EventSettings, now = new Date()): boolean => {
+  if (session.day !== toLocalDay(now, settings?.timeZone)) return false
+  const window = getMealWindow(session.mealType, settings)
+  if (!window) return true
+  const time = toLocalTime(now, settings?.timeZone)
+  return time >= window.start && time < window.end
+}
+
+// True until a session's serving window has closed; meals served all day stay
+// upcoming until their day is over
+export const isCateringSessionUpcoming = (session: CateringSession, settings?: EventSettings, now = new Date()): boolean => {
+  const today = toLocalDay(now, settings?.timeZone)
+  if (session.day !== today) return session.day > today
+  const window = getMealWindow(session.mealType, settings)
+  return !window || toLocalTime(now, settings?.timeZone) < window.end
+}
+
+// Session to open a catering page on: the one being served now, else today's
+// next one, else today's first or the event's next day; before and after the
+// event, its first session
+export const getDefaultCateringSession = (settings?: EventSettings, now = new Date()): CateringSession | null => {
+  const sessions = getCateringSessions(settings)
+  const today = toLocalDay(now, settings?.timeZone)
+  const time = toLocalTime(now, settings?.timeZone)
+  const todays = sessions.filter((session) => session.day === today)
+  return (
+    todays.find((session) => isCateringSessionOpen(session, settings, now)) ||
+    todays.find((session) => (getMealWindow(session.mealType, settings)?.start ?? "") > time) ||
+    todays[0] ||
+    sessions.find((session) => session.day > today) ||
+    sessions[0] ||
+    null
+  )
+}
+
+// First problem with the meal types, or null when they can be saved
+export const validateMealTypes = (mealTypes: MealType[]): string | null => {
+  if (mealTypes.length === 0) return "Add at least one meal"
+  if (mealTypes.some((meal) => !meal.trim())) return "Every meal needs a name"
+  const names = mealTypes.map((meal) => meal.trim().toLowerCase())
+  if (new Set(names).size !== names.length) return "Meal names must be different"
+  return null
+}
+
+// First problem with the serving windows, or null when they can be saved.
+// A session belongs to one event day, so its window cannot cross midnight.
+export const validateMealWindows = (windows: Record<MealType, MealWindow>): string | null => {
+  for (const [meal, window] of Object.entries(windows)) {
+    if (!/^\d{2}:\d{2}$/.test(window.start) || !/^\d{2}:\d{2}$/.test(window.end)) {
+      return `Give ${meal} both a start and an end time, or neither`
+    }
+    if (window.start >= window.end) return `${meal} must end after it starts, on the same day (23:59 at the latest)`
+  }
+  return null
+}
+
+// Per-day meal lists worth saving: only event days that skip a meal, and only
+// meals the event still serves
+export const cleanDayMeals = (settings: EventSettings): Record<EventDay, MealType[]> | undefined => {
+  const all = getMealTypes(settings)
+  const entries = getEventDays(settings)
+    .map((day) => [day, getDayMeals(day, settings)] as const)
+    .filter(([, meals]) => meals.length !== all.length)
+  return entries.length ? Object.fromEntries(entries.map(([day, meals]) => [day, [...meals]])) : undefined
+}
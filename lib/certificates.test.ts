@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { fillCertificateText } from "./certificates"
+import type { TajneedMember } from "./types"
+
+const MEMBER = {
+  id: "member-1",
+  eventId: "event-1",
+  fullName: "Amina Hassan",
+  tanzeem: "Lajna",
+  region: "Nairobi",
+  jamaat: "Central",
+  createdAt: "2025-01-01T00:00:00Z",
+} as TajneedMember
+
+describe("fillCertificateText", () => {
+  it("fills the member's and event's details", () => {
+    expect(fillCertificateText("{name} of {jamaat} attended {event}", MEMBER, "Jalsa Salana")).toBe(
+      "Amina Hassan of Central attended Jalsa Salana",
+    )
+  })
+
+  it("leaves unknown placeholders as typed, including object properties", () => {
+    expect(fillCertificateText("{age} {constructor} {toString}", MEMBER, "Jalsa Salana")).toBe(
+      "{age} {constructor} {toString}",
+    )
+  })
+})
@@ -0,0 +1,63 @@
+import type { CertificateSettings, EventSettings, TajneedMember } from "./types"
+
+// Certificates of participation for members with an attendance record. Each
+// event may reword or resize them (saved on the event's settings); fields left
+// unset fall back to these defaults.
+
+export const DEFAULT_CERTIFICATE: CertificateSettings = {
+  paper: "a4",
+  orientation: "landscape",
+  title: "Certificate of Participation",
+  introText: "This is to certify that",
+  bodyText: "of {jamaat}, {region} ({tanzeem}) participated in {event} held at {location} on {dates}.",
+  showSignature: true,
+}
+
+export const CERTIFICATE_PLACEHOLDERS = ["name", "tanzeem", "region", "jamaat", "event", "location", "dates"] as const
+
+export const getCertificateSettings = (settings?: EventSettings): CertificateSettings => ({
+  ...DEFAULT_CERTIFICATE,
+  ...settings?.certificate,
+})
+
+// "26 August - 28 August 2025", from the event's starting date and duration. The
+// date parses as UTC midnight, so it is counted and formatted in UTC too
+// (as in lib/catering-sessions.ts) or browsers west of UTC show the day before.
+export const formatEventDateRange = (settings?: EventSettings): string => {
+  if (!settings?.startingDate) return ""
+  const start = new Date(settings.startingDate)
+  const end = new Date(start)
+  end.setUTCDate(end.getUTCDate() + Math.max((settings.duration || 1) - 1, 0))
+  const endText = end.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" })
+  if (end.getTime() === start.getTime()) return endText
+  return `${start.toLocaleDateString("en-GB", { day: "numeric", month: "long", timeZone: "UTC" })} - ${endText}`
+}
+
+// Replaces {name}, {jamaat}, ... with the member's and event's details;
+// unknown placeholders are left as typed
+export const fillCertificateText = (text: string, member: TajneedMember, eventName: string, settings?: EventSettings): string => {
+  const values: Record<(typeof CERTIFICATE_PLACEHOLDERS)[number], string> = {
+    name: member.fullName,
+    tanzeem: member.tanzeem,
+    region: member.region,
+    jamaat: member.jamaat,
+    event: eventName,
+    location: settings?.location || "",
+    dates: formatEventDateRange(settings),
+  }
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    Object.hasOwn(values, key) ? values[key as keyof typeof values] : match,
+  )
+}
+
+// "Amina_Hassan_KH-0042.pdf" for a member's certificate in a ZIP
+export const getCertificateFileName = (member: TajneedMember): string => {
+  const name = [member.fullName, member.memberCode].filter(Boolean).join(" ")
+  return `${name.replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || member.id}.pdf`
+}
+
+export const validateCertificateSettings = (settings: CertificateSettings): string | null => {
+  if (!settings.title.trim()) return "The certificate needs a title"
+  if (!settings.bodyText.trim() && !settings.introText.trim()) return "The certificate needs some wording around the member's name"
+  return null
+}
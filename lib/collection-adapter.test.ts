@@ -0,0 +1,199 @@
+import { mkdtempSync } from "node:fs"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { createLocalStorageAdapter, createMemoryAdapter } from "./collection-adapter"
+import { createFileAdapter } from "./file-adapter"
+import type { StorageAdapter } from "./storage-adapter"
+import type { EventSettings, TajneedMember } from "./types"
+
+// The memory, localStorage and file adapters share one implementation, but
+// each runs the same cases so a backend-specific store cannot drift.
+
+// Minimal window.localStorage for the localStorage adapter under Node
+const installLocalStorage = () => {
+  const data = new Map<string, string>()
+  const localStorage = {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => data.set(key, value),
+    removeItem: (key: string) => data.delete(key),
+  }
+  Object.assign(globalThis, { window: globalThis, localStorage })
+}
+
+const removeLocalStorage = () => {
+  const global = globalThis as Record<string, unknown>
+  delete global.window
+  delete global.localStorage
+}
+
+const EVENT: Omit<EventSettings, "id" | "createdAt"> = {
+  eventName: "Jalsa Salana Kenya",
+  startingDate: "2025-08-22",
+  duration: 3,
+  location: "Nairobi",
+  theme: "",
+}
+
+const memberFields = (eventId: string, fullName: string): Omit<TajneedMember, "id" | "createdAt"> => ({
+  eventId,
+  fullName,
+  tanzeem: "Khuddam",
+  region: "Nairobi",
+  jamaat: "Central",
+})
+
+describe.each([
+  ["memory", createMemoryAdapter],
+  ["local", createLocalStorageAdapter],
+  ["file", () => createFileAdapter(mkdtempSync(path.join(tmpdir(), "jalsa-")))],
+] as const)("%s adapter", (_name, createAdapter) => {
+  let storage: StorageAdapter
+  let eventId: string
+
+  beforeEach(async () => {
+    installLocalStorage()
+    storage = createAdapter()
+    eventId = (await storage.createEvent(EVENT))!.id
+  })
+
+  afterEach(removeLocalStorage)
+
+  // A member marked present, with a movement, a meal, a card and a print
+  const addAttendedMember = async (fullName: string) => {
+    const member = (await storage.insertMember(memberFields(eventId, fullName)))!
+    const record = (await storage.insertAttendance({ eventId, memberId: member.id }))!
+    await storage.insertSecurityMovement({
+      id: crypto.randomUUID(),
+      eventId,
+      attendanceRecordId: record.id,
+      status: "In",
+      timestamp: new Date().toISOString(),
+    })
+    await storage.insertCateringRecord({
+      id: crypto.randomUUID(),
+      eventId,
+      attendanceRecordId: record.id,
+      day: "2025-08-22",
+      mealType: "Lunch",
+      servedAt: new Date().toISOString(),
+    })
+    await storage.saveQRMapping(member.id, member.id, eventId)
+    await storage.saveCardPrints([
+      {
+        id: crypto.randomUUID(),
+        eventId,
+        memberId: member.id,
+        cardId: member.id,
+        printedAt: new Date().toISOString(),
+        fingerprint: "",
+      },
+    ])
+    return { member, record }
+  }
+
+  it("joins the member onto attendance records", async () => {
+    const { member, record } = await addAttendedMember("Amina Hassan")
+
+    const found = await storage.findAttendance(eventId, member.id)
+    expect(found?.id).toBe(record.id)
+    expect(found?.member?.fullName).toBe("Amina Hassan")
+  })
+
+  it("records a member present only once per event", async () => {
+    const { member } = await addAttendedMember("Amina Hassan")
+
+    expect(await storage.insertAttendance({ eventId, memberId: member.id })).toBeNull()
+    expect(await storage.listAttendance(eventId)).toHaveLength(1)
+  })
+
+  it("reports the latest security movement", async () => {
+    const { record } = await addAttendedMember("Amina Hassan")
+    await storage.insertSecurityMovement({
+      id: crypto.randomUUID(),
+      eventId,
+      attendanceRecordId: record.id,
+      status: "Out",
+      timestamp: new Date(Date.now() + 60000).toISOString(),
+    })
+
+    expect(await storage.getLatestSecurityStatus(eventId, record.id)).toBe("Out")
+  })
+
+  it("filters catering records by day and meal", async () => {
+    await addAttendedMember("Amina Hassan")
+
+    expect(await storage.listCateringRecords(eventId, { day: "2025-08-22", mealType: "Lunch" })).toHaveLength(1)
+    expect(await storage.listCateringRecords(eventId, { mealType: "Dinner" })).toHaveLength(0)
+  })
+
+  it("removes security and catering records with their attendance record", async () => {
+    const { record } = await addAttendedMember("Amina Hassan")
+    const other = await addAttendedMember("Yusuf Ali")
+
+    expect(await storage.deleteAttendance(record.id)).toBe(true)
+
+    expect((await storage.listAttendance(eventId)).map((r) => r.id)).toEqual([other.record.id])
+    expect((await storage.listSecurityMovements(eventId)).map((m) => m.attendanceRecordId)).toEqual([other.record.id])
+    expect((await storage.listCateringRecords(eventId)).map((c) => c.attendanceRecordId)).toEqual([other.record.id])
+  })
+
+  it("removes a deleted member's attendance, movements, meals, cards and prints", async () => {
+    const { member } = await addAttendedMember("Amina Hassan")
+    const other = await addAttendedMember("Yusuf Ali")
+
+    expect(await storage.deleteMember(member.id)).toBe(true)
+
+    expect(await storage.getMember(member.id)).toBeNull()
+    expect((await storage.listAttendance(eventId)).map((r) => r.memberId)).toEqual([other.member.id])
+    expect(await storage.listSecurityMovements(eventId)).toHaveLength(1)
+    expect(await storage.listCateringRecords(eventId)).toHaveLength(1)
+    expect((await storage.listCards(eventId)).map((card) => card.memberId)).toEqual([other.member.id])
+    expect((await storage.listCardPrints(eventId)).map((print) => print.memberId)).toEqual([other.member.id])
+    expect(await storage.getQRMapping(member.id, eventId)).toBeNull()
+  })
+
+  it("moves a duplicate's history onto the kept member, serving each meal once", async () => {
+    const kept = await addAttendedMember("Amina Hassan")
+    const duplicate = await addAttendedMember("Aminah Hasan")
+
+    expect(await storage.mergeMember(duplicate.member.id, kept.member.id)).toBe(true)
+
+    expect(await storage.getMember(duplicate.member.id)).toBeNull()
+    expect((await storage.listAttendance(eventId)).map((r) => r.id)).toEqual([kept.record.id])
+    expect((await storage.listSecurityMovements(eventId)).every((m) => m.attendanceRecordId === kept.record.id)).toBe(true)
+    expect(await storage.listSecurityMovements(eventId)).toHaveLength(2)
+    expect(await storage.listCateringRecords(eventId)).toHaveLength(1)
+    expect(await storage.getQRMapping(duplicate.member.id, eventId)).toBe(kept.member.id)
+    expect((await storage.listCardPrints(eventId)).map((print) => print.memberId)).toEqual([kept.member.id])
+  })
+
+  it("carries on a tanzeem's member codes after it is renamed", async () => {
+    // Codes given while the tanzeem was still called Khuddam
+    await storage.insertMembers([
+      { ...memberFields(eventId, "Amina Hassan"), memberCode: "KH-0001" },
+      { ...memberFields(eventId, "Yusuf Ali"), memberCode: "KH-0007" },
+      { ...memberFields(eventId, "Omar Said"), tanzeem: "Atfal", memberCode: "AT-0012" },
+    ])
+
+    // The counter is keyed by the short code the renamed tanzeem keeps
+    expect(await storage.incrementCounter(eventId, "KH", 2)).toBe(9)
+    expect(await storage.incrementCounter(eventId, "KH")).toBe(10)
+    expect(await storage.incrementCounter(eventId, "AT")).toBe(13)
+    expect(await storage.incrementCounter(eventId, "LI")).toBe(1)
+  })
+
+  it("removes everything scoped to a deleted event", async () => {
+    await addAttendedMember("Amina Hassan")
+
+    expect(await storage.deleteEvent(eventId)).toBe(true)
+
+    expect(await storage.getEvent(eventId)).toBeNull()
+    expect(await storage.listMembers(eventId)).toHaveLength(0)
+    expect(await storage.listAttendance(eventId)).toHaveLength(0)
+    expect(await storage.listSecurityMovements(eventId)).toHaveLength(0)
+    expect(await storage.listCateringRecords(eventId)).toHaveLength(0)
+    expect(await storage.listCards(eventId)).toHaveLength(0)
+    expect(await storage.listCardPrints(eventId)).toHaveLength(0)
+  })
+})
@@ -0,0 +1,604 @@
+import type {
+  TajneedMember,
+  AttendanceRecord,
+  Region,
+  EventSettings,
+  SecurityMovement,
+  CateringRecord,
+  User,
+  RoleDefinition,
+  EventAssignment,
+  IDCard,
+  CardPrint,
+  SurplusBatch,
+  Household,
+} from "./types"
+import type { StorageAdapter, StorageAdapterName } from "./storage-adapter"
+import { isSameEventDay } from "./catering-sessions"
+import { getHighestMemberNumber } from "./member-codes"
+
+// Storage adapter that keeps each table as a JSON array under a key. Backed by
+// localStorage in the browser when Supabase is not configured, by a plain Map
+// for unit tests and server-side rendering, or by JSON files for route
+// handlers in local mode (see lib/file-adapter.ts).
+
+export interface CollectionStore {
+  read<T>(key: string, defaultValue: T): T
+  write(key: string, value: unknown): void
+  remove(key: string): void
+}
+
+// Keys match the ones used before the adapter split so existing browser data keeps working
+const EVENTS_KEY = "events_list"
+const TAJNEED_KEY = "tajneed_members"
+const ATTENDANCE_KEY = "attendance_records"
+const REGIONS_KEY = "regions"
+const SECURITY_KEY = "security_movements"
+const CATERING_KEY = "catering_records"
+const USERS_KEY = "users"
+const ROLES_KEY = "roles"
+const ASSIGNMENTS_KEY = "user_event_assignments"
+
+type StoredAssignment = EventAssignment & { userId: string }
+const QR_CODE_MAPPING_KEY = "qr_code_member_mapping" // Maps QR code IDs to member IDs
+const CARDS_KEY = "id_cards"
+const CARD_PRINTS_KEY = "card_prints"
+const SURPLUS_BATCHES_KEY = "surplus_batches"
+const HOUSEHOLDS_KEY = "households"
+const countersKey = (eventId: string) => `counters_${eventId}`
+
+const localStorageStore: CollectionStore = {
+  read(key, defaultValue) {
+    if (typeof window === "undefined") return defaultValue
+    const item = localStorage.getItem(key)
+    return item ? JSON.parse(item) : defaultValue
+  },
+  write(key, value) {
+    if (typeof window === "undefined") return
+    localStorage.setItem(key, JSON.stringify(value))
+  },
+  remove(key) {
+    if (typeof window === "undefined") return
+    localStorage.removeItem(key)
+  },
+}
+
+const createMapStore = (): CollectionStore => {
+  const data = new Map<string, string>()
+  return {
+    // Values are serialised so callers never share references with the store
+    read(key, defaultValue) {
+      const item = data.get(key)
+      return item ? JSON.parse(item) : defaultValue
+    },
+    write(key, value) {
+      data.set(key, JSON.stringify(value))
+    },
+    remove(key) {
+      data.delete(key)
+    },
+  }
+}
+
+export const createCollectionAdapter = (name: StorageAdapterName, store: CollectionStore): StorageAdapter => {
+  const members = () => store.read<TajneedMember[]>(TAJNEED_KEY, [])
+  const attendance = () => store.read<AttendanceRecord[]>(ATTENDANCE_KEY, [])
+  const regions = () => store.read<Region[]>(REGIONS_KEY, [])
+  const events = () => store.read<EventSettings[]>(EVENTS_KEY, [])
+  const users = () => store.read<User[]>(USERS_KEY, [])
+  const roles = () => store.read<RoleDefinition[]>(ROLES_KEY, [])
+  const assignments = () => store.read<StoredAssignment[]>(ASSIGNMENTS_KEY, [])
+  const cards = () => store.read<IDCard[]>(CARDS_KEY, [])
+  const cardPrints = () => store.read<CardPrint[]>(CARD_PRINTS_KEY, [])
+  const surplusBatches = () => store.read<SurplusBatch[]>(SURPLUS_BATCHES_KEY, [])
+  const households = () => store.read<Household[]>(HOUSEHOLDS_KEY, [])
+
+  // Join the member onto stored attendance records (stored rows carry a stale copy)
+  const withMember = (record: AttendanceRecord, allMembers: TajneedMember[]): AttendanceRecord => ({
+    ...record,
+    member: allMembers.find((member) => member.id === record.memberId),
+  })
+
+  // Attendance records go with their security movements and catering records,
+  // as ON DELETE CASCADE does in Supabase
+  const removeAttendance = (shouldRemove: (record: AttendanceRecord) => boolean) => {
+    const allRecords = attendance()
+    const removedIds = new Set(allRecords.filter(shouldRemove).map((record) => record.id))
+    if (removedIds.size === 0) return
+    store.write(ATTENDANCE_KEY, allRecords.filter((record) => !removedIds.has(record.id)))
+    store.write(
+      SECURITY_KEY,
+      store.read<SecurityMovement[]>(SECURITY_KEY, []).filter((movement) => !removedIds.has(movement.attendanceRecordId)),
+    )
+    store.write(
+      CATERING_KEY,
+      store.read<CateringRecord[]>(CATERING_KEY, []).filter((record) => !removedIds.has(record.attendanceRecordId)),
+    )
+  }
+
+  const attendanceById = (eventId: string) => {
+    const allMembers = members()
+    return new Map(
+      attendance()
+        .filter((record) => record.eventId === eventId)
+        .map((record) => [record.id, withMember(record, allMembers)] as const),
+    )
+  }
+
+  return {
+    name,
+
+    // Events
+    async listEvents() {
+      return events()
+    },
+
+    async getEvent(eventId) {
+      return events().find((event) => event.id === eventId) || null
+    },
+
+    async createEvent(event) {
+      const newEvent: EventSettings = {
+        ...event,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+      }
+      store.write(EVENTS_KEY, [...events(), newEvent])
+      return newEvent
+    },
+
+    async updateEvent(event) {
+      const allEvents = events()
+      const index = allEvents.findIndex((e) => e.id === event.id)
+      if (index === -1) return false
+      allEvents[index] = event
+      store.write(EVENTS_KEY, allEvents)
+      return true
+    },
+
+    async deleteEvent(eventId) {
+      const notInEvent = <T extends { eventId: string }>(row: T) => row.eventId !== eventId
+
+      const eventMemberIds = new Set(members().filter((member) => member.eventId === eventId).map((m) => m.id))
+      const mappings = store.read<Record<string, string>>(QR_CODE_MAPPING_KEY, {})
+      const remainingMappings = Object.fromEntries(
+        Object.entries(mappings).filter(([, memberId]) => !eventMemberIds.has(memberId)),
+      )
+
+      store.write(EVENTS_KEY, events().filter((event) => event.id !== eventId))
+      store.write(TAJNEED_KEY, members().filter(notInEvent))
+      store.write(ATTENDANCE_KEY, attendance().filter(notInEvent))
+      store.write(REGIONS_KEY, regions().filter(notInEvent))
+      store.write(SECURITY_KEY, store.read<SecurityMovement[]>(SECURITY_KEY, []).filter(notInEvent))
+      store.write(CATERING_KEY, store.read<CateringRecord[]>(CATERING_KEY, []).filter(notInEvent))
+      store.write(QR_CODE_MAPPING_KEY, remainingMappings)
+      store.write(ASSIGNMENTS_KEY, assignments().filter(notInEvent))
+      store.write(CARDS_KEY, cards().filter(notInEvent))
+      store.write(CARD_PRINTS_KEY, cardPrints().filter(notInEvent))
+      store.write(SURPLUS_BATCHES_KEY, surplusBatches().filter(notInEvent))
+      store.write(HOUSEHOLDS_KEY, households().filter(notInEvent))
+      store.remove(countersKey(eventId))
+      return true
+    },
+
+    // Tajneed members
+    async listMembers(eventId) {
+      return members().filter((member) => member.eventId === eventId)
+    },
+
+    async getMember(memberId) {
+      return members().find((member) => member.id === memberId) || null
+    },
+
+    async insertMember(member) {
+      const allMembers = members()
+      if (member.id && allMembers.some((m) => m.id === member.id)) return null
+
+      const newMember: TajneedMember = {
+        ...member,
+        id: member.id || crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+      }
+      store.write(TAJNEED_KEY, [...allMembers, newMember])
+      return newMember
+    },
+
+    async insertMembers(newMembers) {
+      const createdAt = new Date().toISOString()
+      const inserted: TajneedMember[] = newMembers.map((member) => ({ ...member, id: crypto.randomUUID(), createdAt }))
+      store.write(TAJNEED_KEY, [...members(), ...inserted])
+      return inserted
+    },
+
+    async updateMember(memberId, updates) {
+      const allMembers = members()
+      const index = allMembers.findIndex((member) => member.id === memberId)
+      if (index === -1) return null
+      allMembers[index] = { ...allMembers[index], ...updates }
+      store.write(TAJNEED_KEY, allMembers)
+      return allMembers[index]
+    },
+
+    // The member's attendance (with its movements and meals), ID cards and
+    // print log go with them
+    async deleteMember(memberId) {
+      store.write(TAJNEED_KEY, members().filter((member) => member.id !== memberId))
+      removeAttendance((record) => record.memberId === memberId)
+      store.write(CARDS_KEY, cards().filter((card) => card.memberId !== memberId))
+      store.write(CARD_PRINTS_KEY, cardPrints().filter((print) => print.memberId !== memberId))
+      const mappings = store.read<Record<string, string>>(QR_CODE_MAPPING_KEY, {})
+      store.write(
+        QR_CODE_MAPPING_KEY,
+        Object.fromEntries(Object.entries(mappings).filter(([, mappedMemberId]) => mappedMemberId !== memberId)),
+      )
+      return true
+    },
+
+    // Without file storage the photo itself (a small data URL) is the URL
+    async uploadMemberPhoto(_member, photo) {
+      return photo
+    },
+
+    async removeMemberPhoto() {
+      return true
+    },
+
+    async signMemberPhoto(member) {
+      return members().find((m) => m.id === member.id)?.photoUrl || null
+    },
+
+    async mergeMember(duplicateId, keepId) {
+      const duplicate = members().find((member) => member.id === duplicateId)
+      const kept = members().find((member) => member.id === keepId)
+      if (!duplicate || !kept || duplicate.eventId !== kept.eventId || duplicateId === keepId) return false
+
+      // The duplicate's cards, and its own id as printed on its first card, now scan as the kept member
+      const movedCards = cards().map((card) => (card.memberId === duplicateId ? { ...card, memberId: keepId } : card))
+      if (!movedCards.some((card) => card.id === duplicateId)) {
+        const issuedAt = new Date().toISOString()
+        const eventId = duplicate.eventId
+        movedCards.push({ id: duplicateId, memberId: keepId, eventId, status: "active", issuedAt, reissueCount: 0 })
+      }
+      store.write(CARDS_KEY, movedCards)
+      const mappings = store.read<Record<string, string>>(QR_CODE_MAPPING_KEY, {})
+      Object.keys(mappings).forEach((qrCodeId) => {
+        if (mappings[qrCodeId] === duplicateId) mappings[qrCodeId] = keepId
+      })
+      mappings[duplicateId] = keepId
+      store.write(QR_CODE_MAPPING_KEY, mappings)
+      store.write(CARD_PRINTS_KEY, cardPrints().filter((print) => print.memberId !== duplicateId))
+
+      const allRecords = attendance()
+      const duplicateRecord = allRecords.find((record) => record.memberId === duplicateId)
+      const keptRecord = allRecords.find((record) => record.memberId === keepId)
+
+      if (duplicateRecord && !keptRecord) {
+        duplicateRecord.memberId = keepId
+        store.write(ATTENDANCE_KEY, allRecords)
+      } else if (duplicateRecord && keptRecord) {
+        const movements = store.read<SecurityMovement[]>(SECURITY_KEY, [])
+        store.write(
+          SECURITY_KEY,
+          movements.map((movement) =>
+            movement.attendanceRecordId === duplicateRecord.id ? { ...movement, attendanceRecordId: keptRecord.id } : movement,
+          ),
+        )
+
+        const meals = store.read<CateringRecord[]>(CATERING_KEY, [])
+        const servedKept = new Set(
+          meals.filter((meal) => meal.attendanceRecordId === keptRecord.id).map((meal) => `${meal.day}|${meal.mealType}`),
+        )
+        store.write(
+          CATERING_KEY,
+          meals
+            .filter((meal) => meal.attendanceRecordId !== duplicateRecord.id || !servedKept.has(`${meal.day}|${meal.mealType}`))
+            .map((meal) => (meal.attendanceRecordId === duplicateRecord.id ? { ...meal, attendanceRecordId: keptRecord.id } : meal)),
+        )
+        store.write(ATTENDANCE_KEY, allRecords.filter((record) => record.id !== duplicateRecord.id))
+      }
+
+      store.write(TAJNEED_KEY, members().filter((member) => member.id !== duplicateId))
+      return true
+    },
+
+    // Attendance
+    async listAttendance(eventId) {
+      return Array.from(attendanceById(eventId).values())
+    },
+
+    async findAttendance(eventId, memberId) {
+      const record = attendance().find((r) => r.eventId === eventId && r.memberId === memberId)
+      return record ? withMember(record, members()) : null
+    },
+
+    async insertAttendance(record) {
+      const allRecords = attendance()
+      if (allRecords.some((r) => r.eventId === record.eventId && r.memberId === record.memberId)) return null
+
+      const newRecord: AttendanceRecord = {
+        id: record.id || crypto.randomUUID(),
+        eventId: record.eventId,
+        memberId: record.memberId,
+        recordedAt: record.recordedAt || new Date().toISOString(),
+      }
+      store.write(ATTENDANCE_KEY, [...allRecords, newRecord])
+      return withMember(newRecord, members())
+    },
+
+    async deleteAttendance(recordId) {
+      removeAttendance((record) => record.id === recordId)
+      return true
+    },
+
+    // Regions and jamaat
+    async listRegions(eventId) {
+      return regions().filter((region) => region.eventId === eventId)
+    },
+
+    async insertRegion(region) {
+      const newRegion: Region = { ...region, jamaat: region.jamaat || [], id: crypto.randomUUID() }
+      store.write(REGIONS_KEY, [...regions(), newRegion])
+      return newRegion
+    },
+
+    async updateRegion(regionId, updates) {
+      const allRegions = regions()
+      const index = allRegions.findIndex((region) => region.id === regionId)
+      if (index === -1) return false
+      allRegions[index] = { ...allRegions[index], ...updates }
+      store.write(REGIONS_KEY, allRegions)
+      return true
+    },
+
+    async deleteRegion(regionId) {
+      store.write(REGIONS_KEY, regions().filter((region) => region.id !== regionId))
+      return true
+    },
+
+    async addJamaat(regionId, jamaatName) {
+      const allRegions = regions()
+      const region = allRegions.find((r) => r.id === regionId)
+      if (!region || region.jamaat.includes(jamaatName)) return false
+      region.jamaat.push(jamaatName)
+      store.write(REGIONS_KEY, allRegions)
+      return true
+    },
+
+    async deleteJamaat(regionId, jamaatName) {
+      const allRegions = regions()
+      const region = allRegions.find((r) => r.id === regionId)
+      if (!region) return false
+      region.jamaat = region.jamaat.filter((j) => j !== jamaatName)
+      store.write(REGIONS_KEY, allRegions)
+      return true
+    },
+
+    // Tanzeem counters
+    async getCounters(eventId) {
+      return store.read<Record<string, number>>(countersKey(eventId), {})
+    },
+
+    async incrementCounter(eventId, tanzeemCode, count = 1) {
+      const counters = store.read<Record<string, number>>(countersKey(eventId), {})
+      const given = getHighestMemberNumber(
+        members().filter((member) => member.eventId === eventId),
+        tanzeemCode,
+      )
+      counters[tanzeemCode] = Math.max(counters[tanzeemCode] || 0, given) + count
+      store.write(countersKey(eventId), counters)
+      return counters[tanzeemCode]
+    },
+
+    async resetCounters(eventId) {
+      store.remove(countersKey(eventId))
+      return true
+    },
+
+    // Security movements
+    async listSecurityMovements(eventId) {
+      const records = attendanceById(eventId)
+      return store
+        .read<SecurityMovement[]>(SECURITY_KEY, [])
+        .filter((movement) => movement.eventId === eventId)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .map((movement) => ({ ...movement, attendanceRecord: records.get(movement.attendanceRecordId) }))
+    },
+
+    async getLatestSecurityStatus(eventId, attendanceRecordId) {
+      const latest = store
+        .read<SecurityMovement[]>(SECURITY_KEY, [])
+        .filter((movement) => movement.eventId === eventId && movement.attendanceRecordId === attendanceRecordId)
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0]
+      return latest?.status || null
+    },
+
+    async insertSecurityMovement(movement) {
+      store.write(SECURITY_KEY, [...store.read<SecurityMovement[]>(SECURITY_KEY, []), movement])
+      return true
+    },
+
+    // Catering records
+    async listCateringRecords(eventId, filters = {}) {
+      const records = attendanceById(eventId)
+      return store
+        .read<CateringRecord[]>(CATERING_KEY, [])
+        .filter(
+          (record) =>
+            record.eventId === eventId &&
+            (!filters.day || isSameEventDay(record.day, filters.day)) &&
+            (!filters.mealType || record.mealType === filters.mealType),
+        )
+        .sort((a, b) => new Date(b.servedAt).getTime() - new Date(a.servedAt).getTime())
+        .map((record) => ({ ...record, attendanceRecord: records.get(record.attendanceRecordId) }))
+    },
+
+    async insertCateringRecord(record) {
+      store.write(CATERING_KEY, [...store.read<CateringRecord[]>(CATERING_KEY, []), record])
+      return true
+    },
+
+    async deleteCateringRecord(eventId, recordId) {
+      store.write(
+        CATERING_KEY,
+        store
+          .read<CateringRecord[]>(CATERING_KEY, [])
+          .filter((record) => !(record.id === recordId && record.eventId === eventId)),
+      )
+      return true
+    },
+
+    // System users
+    async listUsers() {
+      return users().map(({ password, ...user }) => user)
+    },
+
+    async getUser(userId) {
+      return users().find((user) => user.id === userId) || null
+    },
+
+    async getUserByUsername(username) {
+      return users().find((user) => user.username === username) || null
+    },
+
+    async insertUser(user) {
+      store.write(USERS_KEY, [...users(), user])
+      return true
+    },
+
+    async updateUser(userId, updates) {
+      const allUsers = users()
+      const index = allUsers.findIndex((user) => user.id === userId)
+      if (index === -1) return false
+      allUsers[index] = { ...allUsers[index], ...updates, updatedAt: updates.updatedAt || new Date().toISOString() }
+      store.write(USERS_KEY, allUsers)
+      return true
+    },
+
+    async deleteUser(userId) {
+      store.write(USERS_KEY, users().filter((user) => user.id !== userId))
+      store.write(ASSIGNMENTS_KEY, assignments().filter((assignment) => assignment.userId !== userId))
+      return true
+    },
+
+    // Event assignments
+    async listUserAssignments(userId) {
+      return assignments()
+        .filter((assignment) => assignment.userId === userId)
+        .map(({ userId: _userId, ...assignment }) => assignment)
+    },
+
+    async setUserAssignments(userId, userAssignments) {
+      store.write(ASSIGNMENTS_KEY, [
+        ...assignments().filter((assignment) => assignment.userId !== userId),
+        ...userAssignments.map((assignment) => ({ ...assignment, userId })),
+      ])
+      return true
+    },
+
+    // Roles
+    async listRoles() {
+      return roles()
+    },
+
+    async saveRole(role) {
+      const now = new Date().toISOString()
+      const existing = roles().find((r) => r.name === role.name)
+      const saved = { ...role, createdAt: existing?.createdAt || role.createdAt || now, updatedAt: now }
+      store.write(ROLES_KEY, [...roles().filter((r) => r.name !== role.name), saved])
+      return true
+    },
+
+    async deleteRole(name) {
+      store.write(ROLES_KEY, roles().filter((role) => role.name !== name))
+      return true
+    },
+
+    // QR mappings
+    async getQRMapping(qrCodeId) {
+      return store.read<Record<string, string>>(QR_CODE_MAPPING_KEY, {})[qrCodeId] || null
+    },
+
+    async saveQRMapping(qrCodeId, memberId, eventId) {
+      const mappings = store.read<Record<string, string>>(QR_CODE_MAPPING_KEY, {})
+      mappings[qrCodeId] = memberId
+      store.write(QR_CODE_MAPPING_KEY, mappings)
+
+      // As in Supabase, where every qr_mappings row is a card, a mapped code is an issued card
+      if (eventId && !cards().some((card) => card.id === qrCodeId)) {
+        const issuedAt = new Date().toISOString()
+        store.write(CARDS_KEY, [...cards(), { id: qrCodeId, memberId, eventId, status: "active", issuedAt, reissueCount: 0 }])
+      }
+    },
+
+    // ID card registry; every card is also a QR mapping so lookups find replacements
+    async listCards(eventId) {
+      return cards().filter((card) => card.eventId === eventId)
+    },
+
+    async getCard(cardId) {
+      return cards().find((card) => card.id === cardId) || null
+    },
+
+    async saveCards(updated) {
+      const ids = new Set(updated.map((card) => card.id))
+      store.write(CARDS_KEY, [...cards().filter((card) => !ids.has(card.id)), ...updated])
+
+      const mappings = store.read<Record<string, string>>(QR_CODE_MAPPING_KEY, {})
+      updated.forEach((card) => {
+        mappings[card.id] = card.memberId
+      })
+      store.write(QR_CODE_MAPPING_KEY, mappings)
+      return true
+    },
+
+    // Card print log
+    async listCardPrints(eventId) {
+      return cardPrints().filter((print) => print.eventId === eventId)
+    },
+
+    async saveCardPrints(prints) {
+      store.write(CARD_PRINTS_KEY, [...cardPrints(), ...prints])
+      return true
+    },
+
+    // Surplus batches
+    async listSurplusBatches(eventId) {
+      return surplusBatches()
+        .filter((batch) => batch.eventId === eventId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    },
+
+    async saveSurplusBatch(batch) {
+      store.write(SURPLUS_BATCHES_KEY, [...surplusBatches().filter((b) => b.id !== batch.id), batch])
+      return true
+    },
+
+    // Households
+    async listHouseholds(eventId) {
+      return households()
+        .filter((household) => household.eventId === eventId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    },
+
+    async saveHousehold(household) {
+      store.write(HOUSEHOLDS_KEY, [...households().filter((h) => h.id !== household.id), household])
+      return true
+    },
+
+    async deleteHousehold(householdId) {
+      store.write(HOUSEHOLDS_KEY, households().filter((household) => household.id !== householdId))
+      store.write(
+        TAJNEED_KEY,
+        members().map((member) =>
+          member.householdId === householdId ? { ...member, householdId: undefined, householdRole: undefined } : member,
+        ),
+      )
+      return true
+    },
+  }
+}
+
+export const createLocalStorageAdapter = (): StorageAdapter => createCollectionAdapter("local", localStorageStore)
+
+// Each call returns an isolated, empty store
+export const createMemoryAdapter = (): StorageAdapter => createCollectionAdapter("memory", createMapStore())
@@ -0,0 +1,90 @@
+import { createClient as createSupabaseClient, type SupabaseClient } from "@supabase/supabase-js"
+import { LOCAL_ADMIN_ID, getAuthUserRole, getLocalAdmin, usesSupabase } from "./server-storage"
+import { verifyPassword } from "./password"
+import { ALL_PERMISSIONS, mergeRoles, resolvePermissions } from "./permissions"
+import { resolveEventScope } from "./event-scope"
+import type { StorageAdapter } from "./storage-adapter"
+import type { SessionSource } from "./session"
+import type { AuthUser } from "./auth"
+import type { User } from "./types"
+
+export interface VerifiedAccount {
+  user: AuthUser
+  source: SessionSource
+  // The users row whose plain-text password should be hashed now
+  needsRehash?: User
+}
+
+// Supabase client for checking a password without keeping the session it
+// returns, e.g. a supervisor approving an override on someone else's device
+export const createSignInClient = (): SupabaseClient | null => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!usesSupabase() || !url || !anonKey) return null
+  return createSupabaseClient(url, anonKey, { auth: { persistSession: false, autoRefreshToken: false } })
+}
+
+// Checks a username and password against Supabase Auth (main admins), the
+// local admin account and the users table, in that order, and returns the
+// account with its role's permissions and event assignments. Null when none
+// of them match.
+export const verifyCredentials = async (
+  storage: StorageAdapter,
+  authClient: Pick<SupabaseClient, "auth"> | null,
+  username: string,
+  password: string,
+): Promise<VerifiedAccount | null> => {
+  const authResult = authClient ? await authClient.auth.signInWithPassword({ email: username, password }) : null
+  const authUser = authResult && !authResult.error ? authResult.data.user : null
+  if (authUser) {
+    // Admin unless app_metadata.role names another role (see middleware.ts)
+    const role = getAuthUserRole(authUser)
+    const permissions = resolvePermissions(role, mergeRoles(await storage.listRoles()))
+    return {
+      user: {
+        id: authUser.id,
+        email: authUser.email || "",
+        role,
+        fullName: authUser.email || "Admin User",
+        permissions,
+        eventScope: resolveEventScope(permissions, []),
+      },
+      source: "supabase-auth",
+    }
+  }
+
+  // The local mode admin account from LOCAL_ADMIN_USERNAME / LOCAL_ADMIN_PASSWORD
+  const localAdmin = getLocalAdmin()
+  if (localAdmin && username === localAdmin.username && (await verifyPassword(password, localAdmin.password)).valid) {
+    return {
+      user: {
+        id: LOCAL_ADMIN_ID,
+        username,
+        role: "Admin",
+        fullName: "Local Admin",
+        permissions: ALL_PERMISSIONS,
+        eventScope: null,
+      },
+      source: "local-admin",
+    }
+  }
+
+  // System-created users in the users table
+  const user = await storage.getUserByUsername(username)
+  const check = await verifyPassword(password, user?.password)
+  if (!user || !check.valid) return null
+
+  const permissions = resolvePermissions(user.role, mergeRoles(await storage.listRoles()))
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+      fullName: user.fullName,
+      permissions,
+      eventScope: resolveEventScope(permissions, await storage.listUserAssignments(user.id)),
+    },
+    source: "users",
+    needsRehash: check.needsRehash ? user : undefined,
+  }
+}
@@ -0,0 +1,36 @@
+import { DIETARY_REQUIREMENTS } from "./member-profile"
+import type { AttendanceRecord, DietaryRequirement, TajneedMember } from "./types"
+
+// Special meals the kitchen prepares, from the dietary requirements captured
+// on each member (see lib/member-profile.ts)
+
+export interface DietaryCount {
+  requirement: DietaryRequirement
+  present: number // Attendees with the requirement
+  served: number // Of those, how many have been served the session
+}
+
+export const hasDietaryRequirements = (member?: Pick<TajneedMember, "dietaryRequirements">): boolean =>
+  !!member?.dietaryRequirements?.length
+
+// "Diabetic, Allergy (nuts)"
+export const formatDietaryRequirements = (
+  member: Pick<TajneedMember, "dietaryRequirements" | "dietaryNotes">,
+): string => {
+  const needs = (member.dietaryRequirements || []).join(", ")
+  return member.dietaryNotes ? `${needs} (${member.dietaryNotes})` : needs
+}
+
+// Present attendees per requirement; a member with two requirements counts towards both
+export const countDietaryRequirements = (
+  attendanceRecords: AttendanceRecord[],
+  servedRecordIds: Set<string>,
+): DietaryCount[] =>
+  DIETARY_REQUIREMENTS.map((requirement) => {
+    const records = attendanceRecords.filter((record) => record.member?.dietaryRequirements?.includes(requirement))
+    return {
+      requirement,
+      present: records.length,
+      served: records.filter((record) => servedRecordIds.has(record.id)).length,
+    }
+  })
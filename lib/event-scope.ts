@@ -0,0 +1,58 @@
+import type { EventAssignment } from "./types"
+import type { Permission } from "./permissions"
+
+// Which events (and within them, which regions and gates) a signed-in user
+// may work. A null scope means every event: Supabase Auth admins and any role
+// allowed to manage events. Everyone else only sees the events they were
+// assigned to on the Users page.
+
+export type EventScope = EventAssignment[] | null
+
+export const resolveEventScope = (permissions: Permission[], assignments: EventAssignment[]): EventScope =>
+  permissions.includes("events.manage") ? null : assignments
+
+export const findAssignment = (scope: EventScope, eventId: string): EventAssignment | null =>
+  scope ? scope.find((assignment) => assignment.eventId === eventId) || null : null
+
+export const canAccessEvent = (scope: EventScope, eventId: string): boolean =>
+  !scope || scope.some((assignment) => assignment.eventId === eventId)
+
+// Regions the user is limited to within an event, or null for all of them
+export const getRegionScope = (scope: EventScope, eventId: string): string[] | null => {
+  const regions = findAssignment(scope, eventId)?.regions
+  return regions && regions.length > 0 ? regions : null
+}
+
+// Gates the user is limited to within an event, or null for any gate
+export const getGateScope = (scope: EventScope, eventId: string): string[] | null => {
+  const gates = findAssignment(scope, eventId)?.gates
+  return gates && gates.length > 0 ? gates : null
+}
+
+export const isRegionInScope = (scope: EventScope, eventId: string, region: string | undefined): boolean => {
+  const regions = getRegionScope(scope, eventId)
+  return !regions || (!!region && regions.includes(region))
+}
+
+const toNameList = (value: unknown): string[] | null => {
+  if (value === undefined) return []
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) return null
+  return Array.from(new Set(value.map((item) => item.trim()).filter(Boolean)))
+}
+
+// Validates assignments sent to the user route handlers; null when malformed
+export const parseAssignments = (value: unknown): EventAssignment[] | null => {
+  if (!Array.isArray(value)) return null
+
+  const assignments: EventAssignment[] = []
+  for (const item of value) {
+    const eventId = typeof item?.eventId === "string" ? item.eventId.trim() : ""
+    const regions = toNameList(item?.regions)
+    const gates = toNameList(item?.gates)
+    if (!eventId || !regions || !gates) return null
+    if (!assignments.some((assignment) => assignment.eventId === eventId)) {
+      assignments.push({ eventId, regions, gates })
+    }
+  }
+  return assignments
+}
@@ -2,9 +2,10 @@ import jsPDF from "jspdf"
 import autoTable from "jspdf-autotable"
 import QRCode from "qrcode"
 import ExcelJS from "exceljs"
+import JSZip from "jszip"
 
 // Helper to add a unified Excel header matching the PDF header design
-async function addUnifiedExcelHeader(worksheet: any, headerCols: string[], eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string, logoUrl: string = LOGO_URL) {
+async function addUnifiedExcelHeader(worksheet: any, headerCols: string[], eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string, logoUrl: string = getBranding(eventSettings).cardLogoUrl) {
   const lastCol = headerCols[headerCols.length - 1];
   let currentRow = 1;
 
@@ -18,9 +19,8 @@ async function addUnifiedExcelHeader(worksheet: any, headerCols: string[], event
     return tableColumnLabels.some(lbl => lbl.toLowerCase() === lower || lower.includes(lbl.toLowerCase()));
   };
 
-  // Main title - Always "JALSA SALANA KENYA - [Current Year]"
-  const currentYear = new Date().getFullYear();
-  const mainTitle = `JALSA SALANA KENYA - ${currentYear}`;
+  // Main title from the event's branding, e.g. "JALSA SALANA KENYA - 2025"
+  const mainTitle = getBrandingTitle(eventSettings);
   worksheet.mergeCells(`A${currentRow}:${lastCol}${currentRow}`);
   const titleCell = worksheet.getCell(`A${currentRow}`);
   titleCell.value = mainTitle;
@@ -80,15 +80,43 @@ async function addUnifiedExcelHeader(worksheet: any, headerCols: string[], event
     ft.font = { name: 'Georgia', italic: true, size: 11 };
     currentRow++;
   }
+  // Branding footer on every printed page
+  const footerText = getBranding(eventSettings).footerText;
+  if (footerText) {
+    worksheet.headerFooter.oddFooter = `&C${footerText.replace(/&/g, '&&')}`;
+  }
   // Blank row before table headers
   currentRow++;
   return currentRow;
 }
-import type { TajneedMember, AttendanceRecord, EventSettings, CateringRecord } from "./types"
+import type { TajneedMember, AttendanceRecord, EventSettings, CateringRecord, SurplusBatch, Household, PrintProfile } from "./types"
+import { issueIDCards, recordCardPrints, signCardPayloads } from "./storage"
+import { getSurplusCardCodes } from "./surplus-cards"
+import { getHouseholdCardId } from "./households"
+import { getBranding, getBrandingTitle, getSystemTitle, hexToARGB, hexToRGB } from "./branding"
+import type { CardData } from "./card-templates"
+import {
+  drawCutMarks,
+  renderIDCardsPDF,
+  type IDCardWorkerMessage,
+  type IDCardWorkerRequest,
+  type PrintProgress,
+} from "./id-card-pdf"
+import { formatCateringSession, formatEventDay, formatMealWindow, getMealWindow } from "./catering-sessions"
+import type { KitchenForecast } from "./kitchen-forecast"
+import {
+  getActivePrintProfile,
+  getCalibrationLabelCommands,
+  getCardPosition,
+  getCardsPerPage,
+  getLabelCommands,
+  getPrintFileExtension,
+  getPrintPageSize,
+  type LabelCard,
+} from "./print-profiles"
+import { countDietaryRequirements, hasDietaryRequirements } from "./dietary"
+import { fillCertificateText, getCertificateFileName, getCertificateSettings } from "./certificates"
 
-const LOGO_URL = "/minarat.png" // Used for ID cards (registered, surplus, individual)
-const DEFAULT_LOGO_URL = "/logo.png" // Used for other PDFs (Attendance, Tajneed, Security, Catering)
-const SYSTEM_TITLE = "Jalsa Salana Management System"
 
 // Ensure Georgia and Playfair fonts are available in jsPDF when provided.
 // NOTE: fetching TTF files directly from the browser can cause 404s if the
@@ -151,7 +179,7 @@ const ensureGeorgiaFont = async (doc: jsPDF) => {
 }
 
 // Helper to draw a centered header with logo, title, theme and date.
-const drawCenteredPDFHeader = async (doc: jsPDF, eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string, logoUrl: string = DEFAULT_LOGO_URL) => {
+const drawCenteredPDFHeader = async (doc: jsPDF, eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string, logoUrl: string = getBranding(eventSettings).reportLogoUrl) => {
   await ensureGeorgiaFont(doc)
   const pageWidth = doc.internal.pageSize.getWidth()
   const startY = 12
@@ -172,7 +200,7 @@ const drawCenteredPDFHeader = async (doc: jsPDF, eventTitle?: string, eventSetti
     try { doc.setFont('Georgia', 'bold') } catch { doc.setFont('times', 'bold') }
   }
   doc.setTextColor(0, 0, 0)
-  const title = eventTitle || SYSTEM_TITLE
+  const title = eventTitle || getSystemTitle(eventSettings)
   // Center title in the entire page width
   // small helper to convert points -> mm (1pt = 0.352778 mm)
   const ptsToMm = (pt: number) => pt * 0.352778
@@ -230,408 +258,32 @@ const drawCenteredPDFHeader = async (doc: jsPDF, eventTitle?: string, eventSetti
   return currentY + 8
 }
 
-// Shared function to generate ID card content for all types (Attendance, Tajneed, Surplus)
-const generateCommonIDCardContent = async (
-  doc: jsPDF,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  eventTitle: string | undefined,
-  qrCodeDataURL: string | undefined,
-  eventSettings: EventSettings | undefined,
-  details: {
-    name: string,
-    tanzeem: string,
-    region: string,
-    jamaat: string
-  }
-) => {
-  // Add a bold off-white border (inset slightly so the stroke sits inside the card)
-  const borderColor = 0xF5; // Very light gray (almost white)
-  doc.setDrawColor(borderColor, borderColor, borderColor);
-  // Thicker border for stronger frame appearance
-  doc.setLineWidth(2.2);
-  // Draw the rect inset by 0.5mm so the stroke sits inside the card edges
-  doc.rect(x + 0.5, y + 0.5, width - 1, height - 1);
-
-  const padding = 2 // Small padding for content inside border
-  const contentWidth = width - (padding * 2)
-  const contentHeight = height - (padding * 2)
-  const contentX = x + padding
-  const contentY = y + padding
-
-  // ========== HEADER SECTION (Logo and title on same level) ==========
-  // Black header background with height 25mm to cover logo and content
-  const headerHeight = 28 // Fixed 28mm height
-  const headerY = contentY
-  const headerBottomY = headerY + headerHeight
-
-  // Logo positioned at left border with dimensions 9mm x 30mm (moved 1mm closer to left)
-  const logoWidth = 9
-  const logoHeight = 30
-  const logoX = contentX // 0mm from left border (moved 2mm left total: 1mm - 1mm adjustment)
-  const logoY = headerY + (headerHeight - logoHeight) / 2 // Vertically centered in header
-
-  // Add black background to header section (25mm height)
-  doc.setFillColor(0, 0, 0) // Black background
-  doc.rect(contentX, headerY, contentWidth, headerHeight, 'F') // Fill the header area
-
-  try {
-    doc.addImage(LOGO_URL, "PNG", logoX, logoY, logoWidth, logoHeight)
-  } catch (e) {
-    // Logo might not load, continue without it
-  }
-
-  // Title area starts at logo width (no gap, moved closer to left border)
-  const rightX = logoX + logoWidth // No spacing gap (moved 2mm left from previous 2mm offset)
-  const rightWidth = contentX + contentWidth - rightX - 4 // Added right margin
-  
-  // Title - single line with truncation if needed
-  // Use Gill Sans MT Condensed at 13pt for card title (reduced by 1pt), WHITE text
-  const titleFontSize = 13
-  doc.setFontSize(titleFontSize)
-  try { doc.setFont("GillSansMT", "bold") } catch {
-    try { doc.setFont("Georgia", "bold") } catch { doc.setFont("times", "bold") }
-  }
-  doc.setTextColor(255, 255, 255) // WHITE text
-  const title = eventTitle || SYSTEM_TITLE
-  // Truncate to keep the title to a single line within card bounds
-  const truncatedTitle = title.length > 50 ? title.substring(0, 47) + "..." : title
-  // Event details (theme + dates)
-  const detailLines: string[] = []
-  if (eventSettings) {
-    const startDate = new Date(eventSettings.startingDate)
-    const endDate = new Date(startDate)
-    endDate.setDate(endDate.getDate() + (eventSettings.duration - 1))
-
-    const themeText = eventSettings.theme.length > 45 ? eventSettings.theme.substring(0, 42) + "..." : eventSettings.theme
-
-    // Helper to produce ordinal suffix (1ST, 2ND, 3RD, 4TH...)
-    const ordinal = (n: number) => {
-      const s = ["th", "st", "nd", "rd"]
-      const v = n % 100
-      return n + (s[(v - 20) % 10] || s[v] || s[0]).toUpperCase()
-    }
-
-    const formatMonthYear = (d: Date) => d.toLocaleDateString('en-GB', { month: 'long' }).toUpperCase() + ' ' + d.getFullYear()
-
-    let dateText = ''
-    // If same month and year: format as "6TH-7TH DECEMBER 2025"
-    if (startDate.getMonth() === endDate.getMonth() && startDate.getFullYear() === endDate.getFullYear()) {
-      const startOrd = ordinal(startDate.getDate())
-      const endOrd = ordinal(endDate.getDate())
-      dateText = `${startOrd}-${endOrd} ${formatMonthYear(startDate)}`
-    } else {
-      // Different month/year: fall back to per-date ordinal with month/year each side
-      const startOrd = ordinal(startDate.getDate())
-      const endOrd = ordinal(endDate.getDate())
-      dateText = `${startOrd} ${startDate.toLocaleDateString('en-GB', { month: 'long' }).toUpperCase()} ${startDate.getFullYear()} - ${endOrd} ${endDate.toLocaleDateString('en-GB', { month: 'long' }).toUpperCase()} ${endDate.getFullYear()}`
-    }
-
-    detailLines.push(themeText)
-    detailLines.push(dateText)
-  }
-
-  // Calculate positions for centered alignment and use 1.5 line spacing
-  const ptsToMm = (pt: number) => pt * 0.352778
-  let startY = headerY + 5 // Start 5mm from top of header background (moved 2mm closer to top)
-
-  // Render single-line title (titleFontSize defined above)
-  const detailFontSize = 10
-  doc.setFontSize(titleFontSize)
-  doc.text(truncatedTitle, rightX + rightWidth / 2, startY, { align: "center" })
-  // Move down by 2 * title font size (converted to mm) for 2 line spacing
-  startY += ptsToMm(titleFontSize) * 2
-
-  // Render event details in the order: Date (normal) then Theme (italic), separated by 2 line spacing, WHITE text
-  // We constructed `detailLines` earlier as [themeText, dateText] originally; use the explicit variables if available
-  try {
-  // Use detailLines array: index 1 is date (if present), index 0 is theme
-  const dateLine = detailLines[1] || ''
-  const themeLine = detailLines[0] || ''
-
-    if (dateLine) {
-      // Date: white color, use Georgia (normal) to preserve condensed font for Title only
-      try { doc.setFont("Georgia", "normal") } catch { doc.setFont("times", "normal") }
-      doc.setTextColor(255, 255, 255)
-      doc.setFontSize(11) // reduced by 1pt
-      doc.text(dateLine, rightX + rightWidth / 2, startY, { align: "center" })
-      startY += ptsToMm(11) * 2
-    }
-
-    if (themeLine) {
-      // Theme: white color, render in italic using Georgia (keep condensed font reserved for Title)
-      try { doc.setFont("Georgia", "italic") } catch { doc.setFont("times", "italic") }
-      doc.setTextColor(255, 255, 255)
-      doc.setFontSize(12)
-      doc.text(themeLine, rightX + rightWidth / 2, startY, { align: "center" })
-      startY += ptsToMm(12) * 2
-    }
-  } catch (e) {
-    // Fallback: render any lines present in detailLines in order
-    for (let i = 0; i < detailLines.length; i++) {
-      try { doc.setFont("GillSansMT", "normal") } catch { try { doc.setFont("Georgia", "normal") } catch { doc.setFont("times", "normal") } }
-      doc.setTextColor(255,255,255)
-      doc.setFontSize(12)
-      doc.text(detailLines[i], rightX + rightWidth / 2, startY, { align: "center" })
-      startY += ptsToMm(12) * 1.5
-    }
-  }
-
-  // Separator line removed as per design update
-
-  // ========== MEMBER DETAILS SECTION ==========
-  // Spacing between header and member details: 1 line spacing
-  const headerToMemberSpacing = ptsToMm(14 * 1) // 1 line spacing using label font size (14pt)
-  const memberDetailsStartY = headerBottomY + headerToMemberSpacing
-  const memberDetailsHeight = contentHeight - headerHeight - headerToMemberSpacing - 2 // Adjusted for new spacing
-  const memberDetailsY = memberDetailsStartY
-
-  // QR code area dimensions - increased size
-  const qrAreaWidth = Math.min(contentWidth * 0.42, 42) // Increased from 0.36/36
-  const detailsWidth = contentWidth - qrAreaWidth - 4 // Reduced padding
-  const leftMargin = contentX + 4
-  let currentY = memberDetailsStartY + 2
-
-  // Text styles for ID card details
-  // Use Aptos Narrow 14pt for member details, labels unbold
-  const labelFontSize = 14
-  const valueFontSize = 14
-  // New spacing requirements:
-  // - label-to-value: 2 line spacing
-  // - detail-to-detail: 3 line spacing
-  const lineSpacing = 2 // label-to-value spacing multiplier
-  const detailSpacing = 3 // spacing between member detail groups
-
-  // Convert line spacing values to mm (1pt line spacing ≈ 0.352778mm)
-  const ptsToMmSpacing = (pt: number) => pt * 0.352778
-  const labelToValueSpacing = ptsToMmSpacing(labelFontSize * lineSpacing) - 1 // Reduced by 1mm
-  const detailToDetailSpacing = ptsToMmSpacing(labelFontSize * detailSpacing) - 1 // Reduced by 1mm
-
-  // Function to draw dashed line
-  const drawDashedLine = (x: number, y: number, width: number) => {
-    doc.setDrawColor(0, 0, 0);
-    doc.setLineWidth(0.2);
-    
-    const dashLength = 3;
-    const gapLength = 2;
-    let currentX = x;
-    
-    while (currentX < x + width) {
-      const endX = Math.min(currentX + dashLength, x + width);
-      doc.line(currentX, y, endX, y);
-      currentX += dashLength + gapLength;
-    }
-  };
-
-  // Name
-  try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
-  doc.setFontSize(labelFontSize)
-  doc.setTextColor(0, 0, 0) // Black label
-  doc.text("Name", leftMargin, currentY)
-  currentY += labelToValueSpacing
-  if (details.name.startsWith("SURPLUS-")) {
-    drawDashedLine(leftMargin, currentY, detailsWidth - 8)
-  } else {
-    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
-    doc.setFontSize(valueFontSize)
-    doc.setTextColor(0, 100, 0) // Dark green value
-    doc.text(details.name.length > 30 ? details.name.substring(0, 30) + "..." : details.name, leftMargin, currentY)
-  }
-  currentY += detailToDetailSpacing
-
-  // Tanzeem removed from ID card details as per design update
-
-  // Region
-  try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
-  doc.setFontSize(labelFontSize)
-  doc.setTextColor(0, 0, 0) // Black label
-  doc.text("Region", leftMargin, currentY)
-  currentY += labelToValueSpacing
-  if (details.name.startsWith("SURPLUS-")) {
-    drawDashedLine(leftMargin, currentY, detailsWidth - 8)
-  } else {
-    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
-    doc.setFontSize(valueFontSize)
-    doc.setTextColor(0, 100, 0) // Dark green value
-    doc.text(details.region, leftMargin, currentY)
-  }
-  currentY += detailToDetailSpacing
-
-  // Jamaat
-  try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
-  doc.setFontSize(labelFontSize)
-  doc.setTextColor(0, 0, 0) // Black label
-  doc.text("Jamaat", leftMargin, currentY)
-  currentY += labelToValueSpacing
-  if (details.name.startsWith("SURPLUS-")) {
-    drawDashedLine(leftMargin, currentY, detailsWidth - 8)
-  } else {
-    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
-    doc.setFontSize(valueFontSize)
-    doc.setTextColor(0, 100, 0) // Dark green value
-    doc.text(details.jamaat, leftMargin, currentY)
-  }
-
-  // Prepare QR code position variables in outer scope so signature placement can reference them
-  let qrSize = 0
-  let qrX = 0
-  let qrY = 0
-  if (qrCodeDataURL) {
-    qrSize = Math.min(qrAreaWidth - 2, memberDetailsHeight - 6, 63) // Reduced max size by 2mm (was 65)
-    qrX = contentX + contentWidth - qrAreaWidth + 1 // Adjusted position
-    // Position QR near bottom area close to signature:
-    // signature top approximates to y + height - signatureImageHeightReduced - 6 (signatureImageHeightReduced = 6)
-    // We want the QR bottom to sit ~1mm above the signature top.
-    // Therefore: qrY + qrSize = y + height - signatureImageHeightReduced - 6 - 1
-    // With signatureImageHeightReduced == 6 this simplifies to:
-  qrY = y + height - qrSize - 18 // move QR 5mm further away from bottom
-    try {
-      doc.addImage(qrCodeDataURL, "PNG", qrX, qrY, qrSize, qrSize)
-    } catch (e) {
-      // QR code might fail, continue without it
-      qrSize = 0
-      qrX = 0
-      qrY = 0
-    }
-  }
-
-  // ========== AMJ IMAGE AND TEXT AT BOTTOM LEFT ==========
-  // AMJ image: 9mm x 9mm size
-  const amjImageSize = 9 // 9mm x 9mm size
-  
-  // Position AMJ uniformly: 6mm from bottom border (3mm + 3mm additional), 3mm from left border
-  const amjImageY = y + height - amjImageSize - 6 // 6mm from bottom
-  const amjImageX = x + 3 // 3mm from left border
-  
-  try {
-    doc.addImage('/amj.png', 'PNG', amjImageX, amjImageY, amjImageSize, amjImageSize)
-  } catch (e) {
-    // AMJ image might fail, continue without it
-  }
-
-  // Add "AMJ" (bigger) above "KENYA" (smaller) below the image
-  const amjTextX = amjImageX + amjImageSize / 2 // Center with image
-  const amjTopFontSize = 8 // AMJ bigger
-  const amjBottomFontSize = 5 // KENYA smaller
-  const amjTextTopY = amjImageY + amjImageSize + 1.9 // moved AMJ 0.9mm towards KENYA (now 1.9mm below image)
-  const amjTextBottomY = amjTextTopY + 1.6 // reduced gap so KENYA sits 1.6mm below AMJ
-
-  try { doc.setFont("AptosNarrow", "bold") } catch { doc.setFont("Georgia", "bold") }
-  doc.setTextColor(0, 0, 0)
-  doc.setFontSize(amjTopFontSize)
-  doc.text("AMJ", amjTextX, amjTextTopY, { align: "center" })
-  doc.setFontSize(amjBottomFontSize)
-  doc.text("KENYA", amjTextX, amjTextBottomY, { align: "center" })
-
-  // ========== SIGNATURE SECTION ==========
-  // Position signature uniformly: 6mm from bottom border (3mm more), 1mm from right border
-  const signatureImageHeightReduced = 6 // Reduced signature image height
-  const signatureWidthReduced = 34 // Reduced signature image width
-  
-  // Position from bottom: 6mm gap (3mm + 3mm additional)
-  const signatureImageY = y + height - signatureImageHeightReduced - 6
-  
-  // Position from right: 1mm from border
-  const signatureX = x + width - signatureWidthReduced - 1 // 1mm from right border
-  
-  try {
-    // Attempt to add the image from public/; if it fails (missing or cross-origin), ignore and fall back to text-only
-    doc.addImage('/signature.png', 'PNG', signatureX, signatureImageY, signatureWidthReduced, signatureImageHeightReduced)
-  } catch (e) {
-    // ignore image errors
+// Branding footer text centred at the foot of every page; call once the table is drawn
+const drawBrandingFooter = (doc: jsPDF, eventSettings?: EventSettings) => {
+  const footerText = getBranding(eventSettings).footerText
+  if (!footerText) return
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page)
+    doc.setFontSize(8)
+    try { doc.setFont('Georgia', 'normal') } catch { doc.setFont('times', 'normal') }
+    doc.setTextColor(100, 100, 100)
+    doc.text(footerText, pageWidth / 2, pageHeight - 5, { align: 'center' })
   }
-
-  // Draw signature line (placed below the image, uniformly positioned)
-  const signatureY = signatureImageY + signatureImageHeightReduced + 1
-  doc.setDrawColor(0, 0, 0)
-  doc.setLineWidth(0.3)
-  doc.line(signatureX, signatureY, signatureX + signatureWidthReduced, signatureY)
-
-  // Add signature text "AFSAR JALSA" uniformly positioned
-  try { doc.setFont("Georgia", "normal") } catch { doc.setFont("times", "normal") }
-  doc.setFontSize(7)
-  doc.setTextColor(0, 0, 0)
-  doc.text("AFSAR JALSA", signatureX + signatureWidthReduced / 2, signatureY + 3, { align: "center" })
 }
 
-// Generate ID cards for attendance records (4 per A4 page)
+// Generate ID cards for attendance records, laid out by the active print profile
 export const generateAttendanceIDCards = async (
   records: AttendanceRecord[],
   filename: string,
   eventTitle?: string,
   eventSettings?: EventSettings,
+  onProgress?: (progress: PrintProgress) => void,
 ) => {
   try {
-    const doc = new jsPDF({
-      orientation: "portrait",
-      unit: "mm",
-      format: "a4",
-    })
-
-    const pageWidth = doc.internal.pageSize.getWidth()
-    const pageHeight = doc.internal.pageSize.getHeight()
-    
-    const margin = 8
-    const bottomMargin = 6
-    const spacing = 4
-    const availableWidth = pageWidth - margin * 2
-    const availableHeight = pageHeight - margin - bottomMargin
-    const cols = 2
-    const rows = 2
-  const actualCardWidth = 75
-    const actualCardHeight = 110
-
-    const validRecords = records.filter((record) => record.member)
-
-    for (let i = 0; i < validRecords.length; i++) {
-      const record = validRecords[i]
-      if (!record.member) continue
-
-      const cardsPerPage = cols * rows
-      const cardIndex = i % cardsPerPage
-      const row = Math.floor(cardIndex / cols)
-      const col = cardIndex % cols
-
-      if (i > 0 && cardIndex === 0) {
-        doc.addPage()
-      }
-
-      const x = margin + col * (actualCardWidth + spacing)
-      const y = margin + row * (actualCardHeight + spacing)
-
-      const qrData = JSON.stringify({
-        id: record.id,
-        memberId: record.member.id,
-        name: record.member.fullName,
-        region: record.member.region,
-        jamaat: record.member.jamaat,
-  tanzeem: record.member.tanzeem,
-        recordedAt: record.recordedAt,
-      })
-
-      const qrCodeDataURL = await generateQRCodeDataURL(qrData)
-
-      await generateCommonIDCardContent(
-        doc,
-        x,
-        y,
-        actualCardWidth,
-        actualCardHeight,
-        eventTitle,
-        qrCodeDataURL,
-        eventSettings,
-        {
-          name: record.member.fullName,
-          tanzeem: record.member.tanzeem,
-          region: record.member.region,
-          jamaat: record.member.jamaat
-        }
-      )
-    }
-
-    doc.save(filename)
+    const members = records.flatMap((record) => (record.member ? [record.member] : []))
+    await printMemberCards(members, filename, eventTitle, eventSettings, onProgress)
   } catch (error) {
     console.error("Error generating ID cards:", error)
     alert("Failed to generate ID cards. Please try again.")
@@ -651,49 +303,7 @@ export const generateSingleAttendanceIDCard = async (
       return
     }
 
-    const qrData = JSON.stringify({
-      id: record.id,
-      memberId: record.member.id,
-      name: record.member.fullName,
-      region: record.member.region,
-      jamaat: record.member.jamaat,
-  tanzeem: record.member.tanzeem,
-      recordedAt: record.recordedAt,
-    })
-
-    const qrCodeDataURL = await generateQRCodeDataURL(qrData)
-
-    const doc = new jsPDF({
-      orientation: "portrait",
-      unit: "mm",
-      format: "a4",
-    })
-
-  const cardWidth = 75
-    const cardHeight = 110
-    const pageWidth = doc.internal.pageSize.getWidth()
-    const pageHeight = doc.internal.pageSize.getHeight()
-    const x = (pageWidth - cardWidth) / 2
-    const y = (pageHeight - cardHeight) / 2
-
-    await generateCommonIDCardContent(
-      doc,
-      x,
-      y,
-      cardWidth,
-      cardHeight,
-      eventTitle,
-      qrCodeDataURL,
-      eventSettings,
-      {
-        name: record.member.fullName,
-  tanzeem: record.member.tanzeem,
-        region: record.member.region,
-        jamaat: record.member.jamaat
-      }
-    )
-
-    doc.save(filename)
+    await printMemberCards([record.member], filename, eventTitle, eventSettings)
   } catch (error) {
     console.error("Error generating ID card:", error)
     alert("Failed to generate ID card. Please try again.")
@@ -725,10 +335,10 @@ export async function exportAttendanceToPDF(
     const pageHeight = doc.internal.pageSize.getHeight()
 
     // draw centered header (logo + title + optional theme/date)
-  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle, eventSettings, recordLabel, filtersText, DEFAULT_LOGO_URL)
+  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle, eventSettings, recordLabel, filtersText)
 
     autoTable(doc, {
-      head: [["S/N", "Full Name", "Tanzeem", "Region", "Jamaat"]],
+      head: [["S/N", "Full Name", "Tanzeem", "Region", "Jamaat", "Gender", "Date of Birth", "Phone", "Email", "ID / AIMS No."]],
       body: data,
       startY: tableStartY,
       styles: { 
@@ -738,7 +348,7 @@ export async function exportAttendanceToPDF(
         lineWidth: 0.1
       },
       headStyles: { 
-        fillColor: [10, 102, 204],
+        fillColor: hexToRGB(getBranding(eventSettings).tableHeaderColor),
         lineWidth: 0.2,
         fontSize: 10,
         font: 'Georgia',
@@ -772,6 +382,7 @@ export async function exportAttendanceToPDF(
       },
     })
 
+    drawBrandingFooter(doc, eventSettings)
     doc.save(filename)
   } catch (error) {
     console.error("Error exporting attendance to PDF:", error)
@@ -834,7 +445,7 @@ export async function exportAttendanceToExcel(records: AttendanceRecord[], filen
       cell.fill = {
         type: 'pattern',
         pattern: 'solid',
-        fgColor: { argb: 'FF0A66CC' },
+        fgColor: { argb: hexToARGB(getBranding(eventSettings).tableHeaderColor) },
       };
       cell.font = { name: 'Georgia', bold: true, size: 11, color: { argb: 'FFFFFFFF' } };
       cell.alignment = { horizontal: 'center', vertical: 'middle' };
@@ -861,70 +472,16 @@ export async function exportAttendanceToExcel(records: AttendanceRecord[], filen
   }
 }
 
-// Generate ID cards for Tajneed members (4 per A4 page)
+// Generate ID cards for Tajneed members, laid out by the active print profile
 export const generateTajneedIDCards = async (
   members: TajneedMember[],
   filename: string,
   eventTitle?: string,
   eventSettings?: EventSettings,
+  onProgress?: (progress: PrintProgress) => void,
 ) => {
   try {
-    const doc = new jsPDF({
-      orientation: "portrait",
-      unit: "mm",
-      format: "a4",
-    })
-
-    const pageWidth = doc.internal.pageSize.getWidth()
-    const pageHeight = doc.internal.pageSize.getHeight()
-    
-    const margin = 8
-    const bottomMargin = 6
-  const spacing = 30
-    const availableWidth = pageWidth - margin * 2
-    const availableHeight = pageHeight - margin - bottomMargin
-    const cols = 2
-    const rows = 2
-  const actualCardWidth = 75
-    const actualCardHeight = 110
-
-    for (let i = 0; i < members.length; i++) {
-      const member = members[i]
-
-      const cardsPerPage = cols * rows
-      const cardIndex = i % cardsPerPage
-      const row = Math.floor(cardIndex / cols)
-      const col = cardIndex % cols
-
-      if (i > 0 && cardIndex === 0) {
-        doc.addPage()
-      }
-
-      const x = margin + col * (actualCardWidth + spacing)
-      const y = margin + row * (actualCardHeight + spacing)
-
-      const qrData = member.id
-      const qrCodeDataURL = await generateQRCodeDataURL(qrData)
-
-      await generateCommonIDCardContent(
-        doc,
-        x,
-        y,
-        actualCardWidth,
-        actualCardHeight,
-        eventTitle,
-        qrCodeDataURL,
-        eventSettings,
-        {
-          name: member.fullName,
-          tanzeem: member.tanzeem,
-          region: member.region,
-          jamaat: member.jamaat
-        }
-      )
-    }
-
-    doc.save(filename)
+    await printMemberCards(members, filename, eventTitle, eventSettings, onProgress)
   } catch (error) {
     console.error("Error generating ID cards:", error)
     alert("Failed to generate ID cards. Please try again.")
@@ -939,126 +496,283 @@ export const generateSingleTajneedIDCard = async (
   eventSettings?: EventSettings,
 ) => {
   try {
-    const qrData = member.id
-    const qrCodeDataURL = await generateQRCodeDataURL(qrData)
+    await printMemberCards([member], filename, eventTitle, eventSettings)
+  } catch (error) {
+    console.error("Error generating ID card:", error)
+    alert("Failed to generate ID card. Please try again.")
+  }
+}
 
-    const doc = new jsPDF({
-      orientation: "portrait",
-      unit: "mm",
-      format: "a4",
-    })
+// Generate a family card whose QR code checks in every member of the household
+export const generateHouseholdIDCard = async (
+  household: Household,
+  members: TajneedMember[], // Head first (see getHouseholdMembers)
+  eventTitle?: string,
+  eventSettings?: EventSettings,
+) => {
+  try {
+    const [qrPayload] = await signQRPayloads([
+      { eventId: household.eventId, cardId: getHouseholdCardId(household) },
+    ])
 
-  const cardWidth = 75
-    const cardHeight = 110
-    const pageWidth = doc.internal.pageSize.getWidth()
-    const pageHeight = doc.internal.pageSize.getHeight()
-    const x = (pageWidth - cardWidth) / 2
-    const y = (pageHeight - cardHeight) / 2
-
-    await generateCommonIDCardContent(
-      doc,
-      x,
-      y,
-      cardWidth,
-      cardHeight,
+    await printIDCards(
+      [
+        {
+          name: `${household.name} (${members.length})`,
+          tanzeem: "",
+          region: members[0]?.region || "",
+          jamaat: members[0]?.jamaat || "",
+          qrPayload,
+        },
+      ],
+      `family-card-${household.id}-${Date.now()}.pdf`,
       eventTitle,
-      qrCodeDataURL,
       eventSettings,
-      {
-        name: member.fullName,
-        tanzeem: member.tanzeem,
-        region: member.region,
-        jamaat: member.jamaat
-      }
     )
+  } catch (error) {
+    console.error("Error generating family card:", error)
+    alert("Failed to generate family card. Please try again.")
+  }
+}
 
-    doc.save(filename)
+// Generate the surplus ID cards of a batch (see createSurplusBatch) with QR codes and empty fields
+export const generateSurplusIDCards = async (batch: SurplusBatch, eventTitle?: string, eventSettings?: EventSettings) => {
+  try {
+    // Generate all card IDs and their signed QR payloads first
+    const cardIds = getSurplusCardCodes(batch)
+    const payloads = await signQRPayloads(cardIds.map((cardId) => ({ eventId: batch.eventId, cardId })))
+
+    await printIDCards(
+      cardIds.map((cardId, i) => ({
+        name: cardId,
+        tanzeem: "",
+        region: "",
+        jamaat: "",
+        qrPayload: payloads[i],
+        blank: true,
+      })),
+      `surplus-id-cards-${batch.code}.pdf`,
+      eventTitle,
+      eventSettings,
+    )
   } catch (error) {
-    console.error("Error generating ID card:", error)
-    alert("Failed to generate ID card. Please try again.")
+    console.error("Error generating surplus ID cards:", error)
+    alert("Failed to generate surplus ID cards. Please try again.")
+  }
+}
+
+// A card to print: what it shows, the signed text its QR code carries and the member's photo
+interface PrintCard extends LabelCard {
+  photoUrl?: string
+}
+
+const getMemberPrintCard = (member: TajneedMember, qrPayload: string): PrintCard => ({
+  name: member.fullName,
+  tanzeem: member.tanzeem,
+  region: member.region,
+  jamaat: member.jamaat,
+  memberCode: member.memberCode,
+  photoUrl: member.photoUrl,
+  qrPayload,
+})
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const link = document.createElement("a")
+  link.href = URL.createObjectURL(blob)
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+const downloadTextFile = (text: string, filename: string) => downloadBlob(new Blob([text], { type: "text/plain" }), filename)
+
+// Renders the PDF in lib/id-card-worker.ts, or on the page where the worker
+// cannot start
+const renderIDCardsInWorker = (request: IDCardWorkerRequest, onProgress: (done: number, total: number) => void) => {
+  if (typeof Worker === "undefined") return renderIDCardsPDF(request, onProgress)
+
+  return new Promise<Blob>((resolve, reject) => {
+    const worker = new Worker(new URL("./id-card-worker.ts", import.meta.url))
+    worker.onmessage = (event: MessageEvent<IDCardWorkerMessage>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        onProgress(message.done, message.total)
+        return
+      }
+      worker.terminate()
+      if (message.type === "done") resolve(message.blob)
+      else reject(new Error(message.message))
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      console.warn("ID card worker failed, rendering on the page:", event.message)
+      resolve(renderIDCardsPDF(request, onProgress))
+    }
+    worker.postMessage(request)
+  })
+}
+
+// Print cards with the event's active print profile (see lib/print-profiles.ts):
+// PDF pages for the profile's paper, or a ZPL/EPL file for label printers.
+// The filename's extension follows the profile.
+const printIDCards = async (
+  cards: PrintCard[],
+  filename: string,
+  eventTitle?: string,
+  eventSettings?: EventSettings,
+  onProgress?: (progress: PrintProgress) => void,
+) => {
+  const profile = getActivePrintProfile(eventSettings)
+  const file = `${filename.replace(/\.pdf$/i, "")}.${getPrintFileExtension(profile)}`
+
+  if (profile.kind !== "pdf") {
+    downloadTextFile(getLabelCommands(profile, cards, eventTitle || getBrandingTitle(eventSettings)), file)
+    return
   }
+
+  // QR codes are drawn on a canvas and photos and branding images fetched
+  // with the session, so all are prepared here before the worker draws the pages
+  const prepared: CardData[] = []
+  for (const card of cards) {
+    prepared.push({
+      name: card.name,
+      tanzeem: card.tanzeem,
+      region: card.region,
+      jamaat: card.jamaat,
+      memberCode: card.memberCode,
+      photo: await loadImageDataURL(card.photoUrl),
+      qrCode: await generateQRCodeDataURL(card.qrPayload),
+    })
+    onProgress?.({ stage: "preparing", done: prepared.length, total: cards.length })
+  }
+
+  const request = { cards: prepared, profile, eventTitle, eventSettings: await withBrandingImageData(eventSettings) }
+  const blob = await renderIDCardsInWorker(request, (done, total) => onProgress?.({ stage: "rendering", done, total }))
+  downloadBlob(blob, file)
 }
 
-// Generate 100 surplus ID cards with QR codes and empty fields
-export const generateSurplusIDCards = async (eventTitle?: string, eventSettings?: EventSettings) => {
+// A test print for a profile: each card outlined with a cross at its centre,
+// to measure how far the printer is off before setting calibration offsets
+export const generatePrintCalibration = async (profile: PrintProfile) => {
   try {
+    const file = `print-calibration-${profile.id}.${getPrintFileExtension(profile)}`
+    if (profile.kind !== "pdf") {
+      downloadTextFile(getCalibrationLabelCommands(profile), file)
+      return
+    }
+
+    const page = getPrintPageSize(profile)
     const doc = new jsPDF({
-      orientation: "portrait",
+      orientation: page.width > page.height ? "landscape" : "portrait",
       unit: "mm",
-      format: "a4",
+      format: [page.width, page.height],
     })
+    doc.setFontSize(7)
+    doc.setTextColor(0, 0, 0)
+    for (let i = 0; i < getCardsPerPage(profile); i++) {
+      const { x, y } = getCardPosition(profile, i)
+      const centreX = x + profile.cardWidth / 2
+      const centreY = y + profile.cardHeight / 2
+      doc.setDrawColor(0, 0, 0)
+      doc.setLineWidth(0.2)
+      doc.rect(x, y, profile.cardWidth, profile.cardHeight)
+      doc.line(centreX - 5, centreY, centreX + 5, centreY)
+      doc.line(centreX, centreY - 5, centreX, centreY + 5)
+      doc.text(`Offset ${profile.offsetX} / ${profile.offsetY} mm`, centreX, centreY + 9, { align: "center" })
+      if (profile.cutMarks) drawCutMarks(doc, x, y, profile.cardWidth, profile.cardHeight)
+    }
+    doc.save(file)
+  } catch (error) {
+    console.error("Error generating calibration sheet:", error)
+    alert("Failed to generate the calibration sheet. Please try again.")
+  }
+}
 
-    const pageWidth = doc.internal.pageSize.getWidth()
-    const pageHeight = doc.internal.pageSize.getHeight()
-    
-    const margin = 8
-    const bottomMargin = 6
-  const spacing = 30
-    const availableWidth = pageWidth - margin * 2
-    const availableHeight = pageHeight - margin - bottomMargin
-    const cols = 2
-    const rows = 2
-  const actualCardWidth = 75
-  const actualCardHeight = 110
-
-    const totalCards = 100
-    const baseTimestamp = Date.now()
-
-    // Generate all card IDs and their QR codes first
-    const cardData = await Promise.all(
-      Array.from({ length: totalCards }, async (_, i) => {
-        const cardId = `SURPLUS-${baseTimestamp}-${String(i).padStart(3, '0')}`
-        const qrCodeDataURL = await generateQRCodeDataURL(cardId)
-        return { cardId, qrCodeDataURL }
-      })
-    )
+// Signed QR payloads for a batch of ID cards, in the order given. Throws
+// when the payloads cannot be signed, so no unsigned card is ever printed.
+const signQRPayloads = async (cards: { eventId: string; cardId: string }[]): Promise<string[]> => {
+  const payloads = new Map<string, string>()
+  const eventIds = Array.from(new Set(cards.map((card) => card.eventId)))
+
+  for (const eventId of eventIds) {
+    const cardIds = cards.filter((card) => card.eventId === eventId).map((card) => card.cardId)
+    const signed = eventId ? await signCardPayloads(eventId, cardIds) : null
+    if (!signed) throw new Error("Could not sign ID card QR codes")
+    cardIds.forEach((cardId, i) => payloads.set(`${eventId}:${cardId}`, signed[i]))
+  }
 
-    // Now create the cards with the pre-generated QR codes
-    // Process in batches to prevent UI from freezing
-    const batchSize = 10
-    for (let i = 0; i < cardData.length; i++) {
-      const { cardId, qrCodeDataURL } = cardData[i]
-      
-      const cardsPerPage = cols * rows
-      const cardIndex = i % cardsPerPage
-      const row = Math.floor(cardIndex / cols)
-      const col = cardIndex % cols
-
-      if (i > 0 && cardIndex === 0) {
-        doc.addPage()
-      }
+  return cards.map((card) => payloads.get(`${card.eventId}:${card.cardId}`) || "")
+}
 
-      const x = margin + col * (actualCardWidth + spacing)
-      const y = margin + row * (actualCardHeight + spacing)
-
-      // Call without await - this is a synchronous operation
-      generateCommonIDCardContent(
-        doc,
-        x,
-        y,
-        actualCardWidth,
-        actualCardHeight,
-        eventTitle,
-        qrCodeDataURL,
-        eventSettings,
-        {
-          name: cardId,
-          tanzeem: "",
-          region: "",
-          jamaat: ""
-        }
-      )
+// Prints members' current cards (recorded in the ID card registry) and logs
+// them as printed for the print queue
+const printMemberCards = async (
+  members: TajneedMember[],
+  filename: string,
+  eventTitle?: string,
+  eventSettings?: EventSettings,
+  onProgress?: (progress: PrintProgress) => void,
+) => {
+  const cardIds = await issueIDCards(members)
+  if (!cardIds) throw new Error("Could not record the ID cards being printed")
+  const payloads = await signQRPayloads(members.map((member, i) => ({ eventId: member.eventId, cardId: cardIds[i] })))
+
+  await printIDCards(
+    members.map((member, i) => getMemberPrintCard(member, payloads[i])),
+    filename,
+    eventTitle,
+    eventSettings,
+    onProgress,
+  )
+  if (!(await recordCardPrints(members, cardIds))) {
+    console.warn("Could not log the ID cards printed; they stay in the print queue")
+  }
+}
 
-      // Yield to the browser every batchSize cards to prevent "not responding" errors
-      if ((i + 1) % batchSize === 0) {
-        await new Promise(resolve => setTimeout(resolve, 0))
-      }
+// jsPDF needs image data and the worker cannot fetch relative URLs, so
+// stored photos and branding images under /public are fetched before drawing
+const loadImageDataURL = async (url?: string, description = "member photo"): Promise<string | undefined> => {
+  if (!url) return undefined
+  if (url.startsWith("data:")) return url
+  try {
+    // Stored photos come through a route that checks the session first
+    const response = await fetch(url)
+    if (!response.ok) {
+      console.warn(`Could not load ${description} (${response.status})`)
+      return undefined
     }
-
-    doc.save(`surplus-id-cards-${Date.now()}.pdf`)
+    const blob = await response.blob()
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(blob)
+    })
   } catch (error) {
-    console.error("Error generating surplus ID cards:", error)
-    alert("Failed to generate surplus ID cards. Please try again.")
+    console.warn(`Could not load ${description}:`, error)
+    return undefined
+  }
+}
+
+// The event's settings with the card logo, badge logo and signature the ID
+// cards draw turned into data URLs for the worker
+const withBrandingImageData = async (settings?: EventSettings): Promise<EventSettings | undefined> => {
+  if (!settings) return settings
+  const branding = getBranding(settings)
+  const [cardLogoUrl, badgeLogoUrl, signatureUrl] = await Promise.all([
+    loadImageDataURL(branding.cardLogoUrl, "card logo"),
+    loadImageDataURL(branding.badgeLogoUrl, "badge logo"),
+    loadImageDataURL(branding.signatureUrl, "signature"),
+  ])
+  return {
+    ...settings,
+    branding: {
+      ...branding,
+      cardLogoUrl: cardLogoUrl || branding.cardLogoUrl,
+      badgeLogoUrl: badgeLogoUrl || branding.badgeLogoUrl,
+      signatureUrl: signatureUrl || branding.signatureUrl,
+    },
   }
 }
 
@@ -1091,7 +805,7 @@ async function exportTajneedToExcel(
   try {
     const workbook = new ExcelJS.Workbook();
     const worksheet = workbook.addWorksheet("Tajneed Members");
-    const headerCols = ["A", "B", "C", "D", "E"];
+    const headerCols = ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J"];
     let currentRow = await addUnifiedExcelHeader(worksheet, headerCols, eventTitle, eventSettings, recordLabel, filtersText);
     worksheet.columns = [
       { header: "S/N", key: "sn", width: 10 },
@@ -1099,9 +813,14 @@ async function exportTajneedToExcel(
       { header: "Tanzeem", key: "tanzeem", width: 15 },
       { header: "Region", key: "region", width: 20 },
       { header: "Jamaat", key: "jamaat", width: 20 },
+      { header: "Gender", key: "gender", width: 10 },
+      { header: "Date of Birth", key: "dateOfBirth", width: 14 },
+      { header: "Phone", key: "phone", width: 18 },
+      { header: "Email", key: "email", width: 28 },
+      { header: "National ID / AIMS No.", key: "aimsNumber", width: 22 },
     ];
     // insert header row
-    const headers = ["S/N", "Full Name", "Tanzeem", "Region", "Jamaat"];
+    const headers = ["S/N", "Full Name", "Tanzeem", "Region", "Jamaat", "Gender", "Date of Birth", "Phone", "Email", "National ID / AIMS No."];
     worksheet.insertRow(currentRow, headers);
     const headerRowNumber = currentRow;
     currentRow++;
@@ -1112,12 +831,17 @@ async function exportTajneedToExcel(
         tanzeem: member.tanzeem,
         region: member.region,
         jamaat: member.jamaat,
+        gender: member.gender || "",
+        dateOfBirth: member.dateOfBirth || "",
+        phone: member.phone || "",
+        email: member.email || "",
+        aimsNumber: member.aimsNumber || "",
       });
     });
     // style header row
     const headerRow = worksheet.getRow(headerRowNumber);
     headerRow.eachCell((cell) => {
-      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0A66CC' } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: hexToARGB(getBranding(eventSettings).tableHeaderColor) } };
       cell.font = { name: 'Georgia', bold: true, color: { argb: 'FFFFFFFF' } };
       cell.alignment = { horizontal: 'center' };
     });
@@ -1148,8 +872,8 @@ async function exportTajneedToPDF(
   filtersText?: string,
 ) {
   try {
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
+    // Landscape to fit the contact and identity columns
+    const doc = new jsPDF({ orientation: "landscape" });
 
     // Prepare table data (no ID / Created At)
     const data = members.map((member, index) => [
@@ -1158,10 +882,15 @@ async function exportTajneedToPDF(
       member.tanzeem,
       member.region,
       member.jamaat,
+      member.gender || "",
+      member.dateOfBirth || "",
+      member.phone || "",
+      member.email || "",
+      member.aimsNumber || "",
     ]);
 
     // draw centered header
-  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Tajneed Members List', eventSettings, recordLabel, filtersText, DEFAULT_LOGO_URL)
+  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Tajneed Members List', eventSettings, recordLabel, filtersText)
 
     // Add table
     doc.setFontSize(11);
@@ -1176,7 +905,7 @@ async function exportTajneedToPDF(
         lineWidth: 0.1
       },
       headStyles: { 
-        fillColor: [10, 102, 204],
+        fillColor: hexToRGB(getBranding(eventSettings).tableHeaderColor),
         lineWidth: 0.2,
         fontSize: 10,
         font: 'Georgia',
@@ -1190,11 +919,16 @@ async function exportTajneedToPDF(
         fillColor: [249, 249, 249]
       },
       columnStyles: {
-        0: { cellWidth: 15 }, // S/N (increased for better fit)
-        1: { cellWidth: 57 }, // Full Name (slightly reduced to accommodate wider S/N)
-        2: { cellWidth: 30 }, // Tanzeem
-        3: { cellWidth: 40 }, // Region
+        0: { cellWidth: 13 }, // S/N
+        1: { cellWidth: 46 }, // Full Name
+        2: { cellWidth: 22 }, // Tanzeem
+        3: { cellWidth: 30 }, // Region
         4: { cellWidth: 30 }, // Jamaat
+        5: { cellWidth: 18 }, // Gender
+        6: { cellWidth: 24 }, // Date of Birth
+        7: { cellWidth: 27 }, // Phone
+        8: { cellWidth: 38 }, // Email
+        9: { cellWidth: 21 }, // National ID / AIMS number
       },
       didDrawPage: (data) => {
         try {
@@ -1212,6 +946,7 @@ async function exportTajneedToPDF(
       }
     });
 
+    drawBrandingFooter(doc, eventSettings);
     doc.save(filename);
   } catch (error) {
     console.error("Error exporting Tajneed to PDF:", error);
@@ -1257,7 +992,7 @@ export const exportSecurityToExcel = async (records: AttendanceRecord[], statusM
     // style header row
     const headerRow = worksheet.getRow(headerRowNumber);
     headerRow.eachCell((cell) => {
-      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0A66CC' } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: hexToARGB(getBranding(eventSettings).tableHeaderColor) } };
       cell.font = { name: 'Georgia', bold: true, size: 11, color: { argb: 'FFFFFFFF' } };
       cell.alignment = { horizontal: 'center' };
     });
@@ -1296,7 +1031,7 @@ export const exportSecurityToPDF = async (records: AttendanceRecord[], statusMap
     ])
 
   // draw centered header
-  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Security Movement Records', eventSettings, recordLabel, filtersText, DEFAULT_LOGO_URL)
+  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Security Movement Records', eventSettings, recordLabel, filtersText)
 
     autoTable(doc, {
       head: [['S/N', 'Name', 'Tanzeem', 'Region', 'Jamaat', 'Current Status', 'Last Updated']],
@@ -1309,7 +1044,7 @@ export const exportSecurityToPDF = async (records: AttendanceRecord[], statusMap
         lineWidth: 0.1
       },
       headStyles: { 
-        fillColor: [10, 102, 204],
+        fillColor: hexToRGB(getBranding(eventSettings).tableHeaderColor),
         lineWidth: 0.2,
         fontSize: 10,
         font: 'Georgia',
@@ -1347,6 +1082,7 @@ export const exportSecurityToPDF = async (records: AttendanceRecord[], statusMap
       }
     })
 
+    drawBrandingFooter(doc, eventSettings);
     doc.save(`security-records-${new Date().toISOString().split('T')[0]}.pdf`);
   } catch (error) {
     console.error('Error exporting Security to PDF:', error);
@@ -1384,14 +1120,14 @@ export const exportCateringToExcel = async (records: CateringRecord[], filename?
         tanzeem: record.attendanceRecord.member.tanzeem,
         region: record.attendanceRecord.member.region,
         jamaat: record.attendanceRecord.member.jamaat,
-        day: record.day,
+        day: formatEventDay(record.day),
         mealType: record.mealType
       });
     });
     // style header row
     const headerRow = worksheet.getRow(headerRowNumber);
     headerRow.eachCell((cell) => {
-      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF0A66CC' } };
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: hexToARGB(getBranding(eventSettings).tableHeaderColor) } };
       cell.font = { name: 'Georgia', bold: true, size: 11, color: { argb: 'FFFFFFFF' } };
       cell.alignment = { horizontal: 'center' };
     });
@@ -1424,12 +1160,12 @@ export const exportCateringToPDF = async (records: CateringRecord[], eventTitle?
       record.attendanceRecord!.member!.tanzeem,
       record.attendanceRecord!.member!.region,
       record.attendanceRecord!.member!.jamaat,
-      record.day,
+      formatEventDay(record.day),
       record.mealType
     ])
 
     // draw centered header
-  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Catering Records', eventSettings, recordLabel, filtersText, DEFAULT_LOGO_URL)
+  const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Catering Records', eventSettings, recordLabel, filtersText)
 
     // Add table
     autoTable(doc, {
@@ -1437,7 +1173,7 @@ export const exportCateringToPDF = async (records: CateringRecord[], eventTitle?
       body: data,
       startY: tableStartY,
       styles: { fontSize: 9 },
-      headStyles: { fillColor: [10, 102, 204] },
+      headStyles: { fillColor: hexToRGB(getBranding(eventSettings).tableHeaderColor) },
       columnStyles: {
         0: { cellWidth: 15 }, // S/N (increased for better fit)
         1: { cellWidth: 47 }, // Name (slightly reduced)
@@ -1463,6 +1199,7 @@ export const exportCateringToPDF = async (records: CateringRecord[], eventTitle?
       }
     })
 
+    drawBrandingFooter(doc, eventSettings);
     doc.save(`catering-records-${new Date().toISOString().split('T')[0]}.pdf`);
   } catch (error) {
     console.error('Error exporting Catering to PDF:', error);
@@ -1470,6 +1207,311 @@ export const exportCateringToPDF = async (records: CateringRecord[], eventTitle?
   }
 };
 
+// Export the special-meal list: present attendees with dietary requirements,
+// marking who has been served the session the records were loaded for
+export const exportSpecialMealsToPDF = async (attendanceRecords: AttendanceRecord[], servedRecordIds: Set<string>, eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string) => {
+  try {
+    const doc = new jsPDF();
+
+    const special = attendanceRecords
+      .filter(record => hasDietaryRequirements(record.member))
+      .sort((a, b) => a.member!.fullName.localeCompare(b.member!.fullName))
+    const data = special.map((record, index) => [
+      index + 1,
+      record.member!.fullName,
+      record.member!.tanzeem,
+      record.member!.region,
+      (record.member!.dietaryRequirements || []).join(', '),
+      record.member!.dietaryNotes || '',
+      servedRecordIds.has(record.id) ? 'Yes' : 'No'
+    ])
+
+    // draw centered header
+    const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Special Meals', eventSettings, recordLabel, filtersText)
+
+    // Totals per requirement above the list, for the kitchen
+    const totals = countDietaryRequirements(attendanceRecords, servedRecordIds)
+      .map(count => `${count.requirement}: ${count.present}`)
+      .join('   ')
+    doc.setFontSize(10)
+    doc.setTextColor(0, 0, 0)
+    doc.text(totals, 14, tableStartY)
+
+    autoTable(doc, {
+      head: [['S/N', 'Name', 'Tanzeem', 'Region', 'Requirements', 'Notes', 'Served']],
+      body: data,
+      startY: tableStartY + 4,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: hexToRGB(getBranding(eventSettings).tableHeaderColor) },
+      columnStyles: {
+        0: { cellWidth: 12 }, // S/N
+        1: { cellWidth: 42 }, // Name
+        2: { cellWidth: 22 }, // Tanzeem
+        3: { cellWidth: 28 }, // Region
+        4: { cellWidth: 30 }, // Requirements
+        5: { cellWidth: 34 }, // Notes
+        6: { cellWidth: 14 }, // Served
+      },
+    })
+
+    drawBrandingFooter(doc, eventSettings);
+    doc.save(`special-meals-${new Date().toISOString().split('T')[0]}.pdf`);
+  } catch (error) {
+    console.error('Error exporting special meals to PDF:', error);
+    throw new Error('Failed to export special meals to PDF');
+  }
+};
+
+// Rows of the kitchen prep sheet: each upcoming session's tanzeems, then its total
+const getPrepSheetRows = (forecast: KitchenForecast, eventSettings?: EventSettings) =>
+  forecast.sessions.flatMap((session) => [
+    ...session.tanzeems.map((tanzeem) => ({
+      session: formatCateringSession(session.session),
+      mealTime: formatMealWindow(getMealWindow(session.session.mealType, eventSettings)),
+      tanzeem: tanzeem.tanzeem,
+      onSite: tanzeem.onSite,
+      ratio: `${Math.round(tanzeem.ratio * 100)}%`,
+      plates: tanzeem.plates,
+      total: false,
+    })),
+    {
+      session: formatCateringSession(session.session),
+      mealTime: formatMealWindow(getMealWindow(session.session.mealType, eventSettings)),
+      tanzeem: 'Total',
+      onSite: session.onSite,
+      ratio: session.observedSessions ? `from ${session.observedSessions} earlier session(s)` : 'no history',
+      plates: session.plates,
+      total: true,
+    },
+  ])
+
+const getSpecialMealsText = (forecast: KitchenForecast) =>
+  `Special meals: ${forecast.specialMeals.map(count => `${count.requirement} ${count.present}`).join(', ')}`
+
+// Export the kitchen prep sheet (see lib/kitchen-forecast.ts) to Excel
+export const exportKitchenPrepSheetToExcel = async (forecast: KitchenForecast, filename?: string, eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string) => {
+  try {
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet('Kitchen Prep Sheet');
+    const headerCols = ["A", "B", "C", "D", "E", "F"];
+    let currentRow = await addUnifiedExcelHeader(worksheet, headerCols, eventTitle, eventSettings, recordLabel, filtersText);
+    worksheet.columns = [
+      { header: 'Session', key: 'session', width: 24 },
+      { header: 'Meal Time', key: 'mealTime', width: 14 },
+      { header: 'Tanzeem', key: 'tanzeem', width: 20 },
+      { header: 'On Site', key: 'onSite', width: 10 },
+      { header: 'Serving Ratio', key: 'ratio', width: 28 },
+      { header: 'Plates', key: 'plates', width: 10 },
+    ];
+    // special meal totals above the table
+    worksheet.mergeCells(`A${currentRow}:F${currentRow}`);
+    const special = worksheet.getCell(`A${currentRow}`);
+    special.value = getSpecialMealsText(forecast);
+    special.font = { name: 'Georgia', size: 11 };
+    currentRow += 2;
+    // insert header row
+    const headers = ['Session', 'Meal Time', 'Tanzeem', 'On Site', 'Serving Ratio', 'Plates'];
+    worksheet.insertRow(currentRow, headers);
+    const headerRowNumber = currentRow;
+    currentRow++;
+    // Add data, session totals in bold
+    getPrepSheetRows(forecast, eventSettings).forEach(({ total, ...row }) => {
+      const added = worksheet.addRow(row);
+      if (total) added.font = { bold: true };
+    });
+    // style header row
+    const headerRow = worksheet.getRow(headerRowNumber);
+    headerRow.eachCell((cell) => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: hexToARGB(getBranding(eventSettings).tableHeaderColor) } };
+      cell.font = { name: 'Georgia', bold: true, size: 11, color: { argb: 'FFFFFFFF' } };
+      cell.alignment = { horizontal: 'center' };
+    });
+    worksheet.views = [{ state: 'frozen', ySplit: headerRowNumber }];
+    // Generate buffer
+    const buffer = await workbook.xlsx.writeBuffer();
+    const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename || `kitchen-prep-sheet-${new Date().toISOString().split('T')[0]}.xlsx`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error exporting kitchen prep sheet to Excel:', error);
+    throw new Error('Failed to export kitchen prep sheet to Excel');
+  }
+}
+
+// Export the kitchen prep sheet (see lib/kitchen-forecast.ts) to PDF
+export const exportKitchenPrepSheetToPDF = async (forecast: KitchenForecast, eventTitle?: string, eventSettings?: EventSettings, recordLabel?: string, filtersText?: string) => {
+  try {
+    const doc = new jsPDF();
+
+    const rows = getPrepSheetRows(forecast, eventSettings)
+    const data = rows.map(row => [row.session, row.mealTime, row.tanzeem, row.onSite, row.ratio, row.plates])
+
+    // draw centered header
+    const tableStartY = await drawCenteredPDFHeader(doc, eventTitle || 'Kitchen Prep Sheet', eventSettings, recordLabel, filtersText)
+
+    doc.setFontSize(10)
+    doc.setTextColor(0, 0, 0)
+    doc.text(getSpecialMealsText(forecast), 14, tableStartY)
+
+    autoTable(doc, {
+      head: [['Session', 'Meal Time', 'Tanzeem', 'On Site', 'Serving Ratio', 'Plates']],
+      body: data,
+      startY: tableStartY + 4,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: hexToRGB(getBranding(eventSettings).tableHeaderColor) },
+      columnStyles: {
+        0: { cellWidth: 38 }, // Session
+        1: { cellWidth: 24 }, // Meal Time
+        2: { cellWidth: 30 }, // Tanzeem
+        3: { cellWidth: 18 }, // On Site
+        4: { cellWidth: 52 }, // Serving Ratio
+        5: { cellWidth: 20 }, // Plates
+      },
+      didParseCell: (data) => {
+        if (data.section === 'body' && rows[data.row.index]?.total) data.cell.styles.fontStyle = 'bold'
+      },
+    })
+
+    drawBrandingFooter(doc, eventSettings);
+    doc.save(`kitchen-prep-sheet-${new Date().toISOString().split('T')[0]}.pdf`);
+  } catch (error) {
+    console.error('Error exporting kitchen prep sheet to PDF:', error);
+    throw new Error('Failed to export kitchen prep sheet to PDF');
+  }
+};
+
+// One member's certificate on the current page: the report header, a border in
+// the branding colour, the wording around their name and the signature
+const drawCertificatePage = async (doc: jsPDF, member: TajneedMember, eventTitle?: string, eventSettings?: EventSettings) => {
+  const certificate = getCertificateSettings(eventSettings)
+  const branding = getBranding(eventSettings)
+  const [r, g, b] = hexToRGB(branding.tableHeaderColor)
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const pageHeight = doc.internal.pageSize.getHeight()
+  const textWidth = pageWidth - 50
+
+  doc.setDrawColor(r, g, b)
+  doc.setLineWidth(1.2)
+  doc.rect(6, 6, pageWidth - 12, pageHeight - 12)
+  doc.setLineWidth(0.3)
+  doc.rect(8.5, 8.5, pageWidth - 17, pageHeight - 17)
+
+  const eventName = eventTitle || getBrandingTitle(eventSettings)
+  let y = (await drawCenteredPDFHeader(doc, eventTitle, eventSettings)) + 6
+
+  doc.setFontSize(24)
+  try { doc.setFont('PlayfairDisplay', 'black') } catch {
+    try { doc.setFont('Georgia', 'bold') } catch { doc.setFont('times', 'bold') }
+  }
+  doc.setTextColor(r, g, b)
+  doc.text(certificate.title, pageWidth / 2, y, { align: 'center' })
+  y += 14
+
+  const intro = fillCertificateText(certificate.introText, member, eventName, eventSettings)
+  if (intro.trim()) {
+    doc.setFontSize(13)
+    try { doc.setFont('Georgia', 'italic') } catch { doc.setFont('times', 'italic') }
+    doc.setTextColor(60, 60, 60)
+    doc.text(intro, pageWidth / 2, y, { align: 'center', maxWidth: textWidth })
+    y += 13
+  }
+
+  doc.setFontSize(22)
+  try { doc.setFont('Georgia', 'bold') } catch { doc.setFont('times', 'bold') }
+  doc.setTextColor(0, 0, 0)
+  doc.text(member.fullName, pageWidth / 2, y, { align: 'center', maxWidth: textWidth })
+  doc.setDrawColor(r, g, b)
+  doc.setLineWidth(0.4)
+  doc.line(pageWidth / 2 - 60, y + 3, pageWidth / 2 + 60, y + 3)
+  y += 13
+
+  const body = fillCertificateText(certificate.bodyText, member, eventName, eventSettings)
+  if (body.trim()) {
+    doc.setFontSize(13)
+    try { doc.setFont('Georgia', 'normal') } catch { doc.setFont('times', 'normal') }
+    doc.setTextColor(40, 40, 40)
+    const lines = doc.splitTextToSize(body, textWidth) as string[]
+    doc.text(lines, pageWidth / 2, y, { align: 'center', lineHeightFactor: 1.5 })
+  }
+
+  if (certificate.showSignature) {
+    const signatureWidth = 40
+    const signatureHeight = 16
+    const lineY = pageHeight - 24
+    const x = pageWidth / 2 - signatureWidth / 2
+    try {
+      doc.addImage(branding.signatureUrl, 'PNG', x, lineY - signatureHeight - 1, signatureWidth, signatureHeight)
+    } catch (e) {
+      // ignore image errors
+    }
+    doc.setDrawColor(0, 0, 0)
+    doc.setLineWidth(0.3)
+    doc.line(x - 10, lineY, x + signatureWidth + 10, lineY)
+    doc.setFontSize(10)
+    try { doc.setFont('Georgia', 'bold') } catch { doc.setFont('times', 'bold') }
+    doc.setTextColor(0, 0, 0)
+    doc.text(branding.signatoryName.toUpperCase(), pageWidth / 2, lineY + 5, { align: 'center' })
+  }
+}
+
+// Certificates of participation for the attended members, as one merged PDF or
+// a ZIP with a PDF per member; onProgress reports certificates drawn
+export const generateParticipationCertificates = async (
+  records: AttendanceRecord[],
+  output: "pdf" | "zip",
+  eventTitle?: string,
+  eventSettings?: EventSettings,
+  onProgress?: (done: number, total: number) => void,
+) => {
+  try {
+    const members = [...new Map(records.flatMap((record) => (record.member ? [[record.member.id, record.member] as const] : []))).values()]
+    if (members.length === 0) throw new Error("No attended members to certify")
+
+    const certificate = getCertificateSettings(eventSettings)
+    const newDocument = () => new jsPDF({ orientation: certificate.orientation, unit: "mm", format: certificate.paper })
+    const date = new Date().toISOString().split("T")[0]
+    const merged = output === "pdf" ? newDocument() : null
+    const zip = output === "zip" ? new JSZip() : null
+    const usedNames = new Set<string>()
+
+    for (let i = 0; i < members.length; i++) {
+      const member = members[i]
+      if (merged) {
+        if (i > 0) merged.addPage(certificate.paper, certificate.orientation)
+        await drawCertificatePage(merged, member, eventTitle, eventSettings)
+      } else if (zip) {
+        const doc = newDocument()
+        await drawCertificatePage(doc, member, eventTitle, eventSettings)
+        drawBrandingFooter(doc, eventSettings)
+        // Members sharing a name and code still get a file each
+        let name = getCertificateFileName(member)
+        for (let n = 2; usedNames.has(name); n++) name = getCertificateFileName(member).replace(/\.pdf$/, `_${n}.pdf`)
+        usedNames.add(name)
+        zip.file(name, doc.output("blob"))
+      }
+
+      onProgress?.(i + 1, members.length)
+      if ((i + 1) % 10 === 0) {
+        await new Promise(resolve => setTimeout(resolve, 0))
+      }
+    }
+
+    if (merged) {
+      drawBrandingFooter(merged, eventSettings)
+      merged.save(`participation-certificates-${date}.pdf`)
+    } else if (zip) {
+      downloadBlob(await zip.generateAsync({ type: "blob" }), `participation-certificates-${date}.zip`)
+    }
+  } catch (error) {
+    console.error("Error generating participation certificates:", error)
+    throw new Error("Failed to generate participation certificates")
+  }
+}
+
 // Export main functions
 export {
   generateAttendanceIDCards as generateIDCards,
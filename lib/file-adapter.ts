@@ -0,0 +1,37 @@
+import { mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs"
+import path from "node:path"
+import { createCollectionAdapter, type CollectionStore } from "./collection-adapter"
+import type { StorageAdapter } from "./storage-adapter"
+
+// Server-only collection store for local mode: each key is a JSON file under
+// LOCAL_DATA_DIR (default .data/ in the project). Route handlers keep system
+// users, roles and event assignments here when the browser stores everything
+// else in localStorage, so logins are still checked on the server.
+
+const getDataDir = () => path.resolve(process.env.LOCAL_DATA_DIR || ".data")
+
+const keyFile = (dir: string, key: string) => path.join(dir, `${key.replace(/[^\w-]/g, "_")}.json`)
+
+const createFileStore = (dir: string): CollectionStore => ({
+  read(key, defaultValue) {
+    try {
+      return JSON.parse(readFileSync(keyFile(dir, key), "utf8"))
+    } catch (err: any) {
+      if (err?.code !== "ENOENT") console.error("Error reading local data file:", { key, err })
+      return defaultValue
+    }
+  },
+  write(key, value) {
+    mkdirSync(dir, { recursive: true })
+    // Write then rename, so a crash never leaves a half-written file
+    const file = keyFile(dir, key)
+    writeFileSync(`${file}.tmp`, JSON.stringify(value))
+    renameSync(`${file}.tmp`, file)
+  },
+  remove(key) {
+    rmSync(keyFile(dir, key), { force: true })
+  },
+})
+
+export const createFileAdapter = (dir: string = getDataDir()): StorageAdapter =>
+  createCollectionAdapter("file", createFileStore(dir))
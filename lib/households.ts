@@ -0,0 +1,39 @@
+import type { Household, HouseholdRole, TajneedMember } from "./types"
+
+// Family cards carry HOUSEHOLD-<household id> where a member card carries the
+// member's card id, so they are signed and verified like any other card.
+
+export const HOUSEHOLD_PREFIX = "HOUSEHOLD-"
+
+export const HOUSEHOLD_ROLES: HouseholdRole[] = ["Head", "Spouse", "Child", "Other"]
+
+export const getHouseholdCardId = (household: Pick<Household, "id">): string => `${HOUSEHOLD_PREFIX}${household.id}`
+
+// Household id of a family card id, or null for any other card
+export const getHouseholdIdFromCardId = (cardId: string): string | null =>
+  cardId.startsWith(HOUSEHOLD_PREFIX) ? cardId.slice(HOUSEHOLD_PREFIX.length) || null : null
+
+const ROLE_ORDER: Record<HouseholdRole, number> = { Head: 0, Spouse: 1, Child: 2, Other: 3 }
+
+// A household's members, head first and then by role and name
+export const getHouseholdMembers = (householdId: string, members: TajneedMember[]): TajneedMember[] =>
+  members
+    .filter((member) => member.householdId === householdId)
+    .sort(
+      (a, b) =>
+        ROLE_ORDER[a.householdRole || "Other"] - ROLE_ORDER[b.householdRole || "Other"] ||
+        a.fullName.localeCompare(b.fullName),
+    )
+
+// Name to show for a household, falling back to its head when the household
+// list could not be loaded (e.g. offline)
+export const getHouseholdName = (
+  householdId: string,
+  households: Household[],
+  members: TajneedMember[],
+): string => {
+  const household = households.find((h) => h.id === householdId)
+  if (household) return household.name
+  const [head] = getHouseholdMembers(householdId, members)
+  return head ? `${head.fullName}'s family` : "Family"
+}
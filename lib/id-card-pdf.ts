@@ -0,0 +1,495 @@
+import jsPDF from "jspdf"
+import { getBranding, getSystemTitle, hexToRGB } from "./branding"
+import {
+  CARD_HEIGHT,
+  CARD_WIDTH,
+  formatCardEventDates,
+  getActiveCardTemplate,
+  getCardBackground,
+  getCardElementImage,
+  getCardElementText,
+  getCardElementType,
+  isBlankCardElement,
+  type CardData,
+} from "./card-templates"
+import { getCardPosition, getCardsPerPage, getPrintPageSize } from "./print-profiles"
+import { getTanzeemColor } from "./tanzeem-categories"
+import type { EventSettings, IDCardTemplate, PrintProfile } from "./types"
+
+// ID card pages drawn with jsPDF. Nothing here reads storage or the page, so
+// lib/export.ts prepares each card's QR code and photo, and the event's
+// branding images, as data URLs and the drawing runs in
+// lib/id-card-worker.ts, keeping the page responsive through large batches.
+
+// Progress of an ID card print: QR codes and photos are prepared, then pages rendered
+export interface PrintProgress {
+  stage: "preparing" | "rendering"
+  done: number
+  total: number
+}
+
+export interface IDCardWorkerRequest {
+  cards: CardData[]
+  profile: PrintProfile
+  eventTitle?: string
+  eventSettings?: EventSettings // Its branding images already data URLs
+}
+
+export type IDCardWorkerMessage =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; blob: Blob }
+  | { type: "error"; message: string }
+
+// Dashed line standing in for a detail to be filled in by hand on surplus cards
+const drawDashedLine = (doc: jsPDF, x: number, y: number, width: number) => {
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.2);
+
+  const dashLength = 3;
+  const gapLength = 2;
+  let currentX = x;
+
+  while (currentX < x + width) {
+    const endX = Math.min(currentX + dashLength, x + width);
+    doc.line(currentX, y, endX, y);
+    currentX += dashLength + gapLength;
+  }
+};
+
+// Draw an ID card from a saved template (see lib/card-templates.ts), scaled to the card size
+const drawTemplateCard = (
+  doc: jsPDF,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  template: IDCardTemplate,
+  eventSettings: EventSettings | undefined,
+  eventTitle: string | undefined,
+  data: CardData,
+) => {
+  const scaleX = width / CARD_WIDTH
+  const scaleY = height / CARD_HEIGHT
+
+  doc.setFillColor(...hexToRGB(getCardBackground(template, data.tanzeem)))
+  doc.rect(x, y, width, height, 'F')
+
+  for (const element of template.elements) {
+    const left = x + element.x * scaleX
+    const top = y + element.y * scaleY
+    const elementWidth = element.width * scaleX
+    const elementHeight = element.height * scaleY
+    const type = getCardElementType(element.kind)
+
+    if (type === "box") {
+      doc.setFillColor(...hexToRGB(element.color || "#000000"))
+      doc.rect(left, top, elementWidth, elementHeight, 'F')
+      continue
+    }
+
+    if (type === "image") {
+      const image = getCardElementImage(element, data, eventSettings)
+      if (!image) continue
+      try {
+        doc.addImage(image, image.startsWith("data:image/jpeg") ? "JPEG" : "PNG", left, top, elementWidth, elementHeight)
+      } catch (e) {
+        // Image might not load, continue without it
+      }
+      continue
+    }
+
+    if (isBlankCardElement(element, data)) {
+      drawDashedLine(doc, left, top + elementHeight - 0.5, elementWidth)
+      continue
+    }
+
+    const text = getCardElementText(element, data, eventSettings, eventTitle)
+    if (!text) continue
+    const style = element.bold && element.italic ? "bolditalic" : element.bold ? "bold" : element.italic ? "italic" : "normal"
+    try { doc.setFont("Georgia", style) } catch { doc.setFont("times", style) }
+    doc.setFontSize((element.fontSize || 12) * Math.min(scaleX, scaleY))
+    doc.setTextColor(...hexToRGB(element.color || "#000000"))
+    const align = element.align || "left"
+    const textX = align === "center" ? left + elementWidth / 2 : align === "right" ? left + elementWidth : left
+    // Single line, cut to the element's width
+    const line = doc.splitTextToSize(text, elementWidth)[0] || ""
+    doc.text(line, textX, top + elementHeight / 2, { align, baseline: "middle" })
+  }
+}
+
+// Shared function to generate ID card content for all types (Attendance, Tajneed, Surplus)
+const generateCommonIDCardContent = async (
+  doc: jsPDF,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  eventTitle: string | undefined,
+  qrCodeDataURL: string | undefined,
+  eventSettings: EventSettings | undefined,
+  details: {
+    name: string,
+    tanzeem: string,
+    region: string,
+    jamaat: string,
+    photo?: string // Data URL from loadImageDataURL
+    memberCode?: string // e.g. KH-0042, typed in when a card will not scan
+  }
+) => {
+  // Events with an active card template print from it instead of the layout below
+  const template = getActiveCardTemplate(eventSettings)
+  if (template) {
+    drawTemplateCard(doc, x, y, width, height, template, eventSettings, eventTitle, {
+      ...details,
+      qrCode: qrCodeDataURL,
+      blank: details.name.startsWith("SURPLUS-"),
+    })
+    return
+  }
+
+  // Add a bold off-white border (inset slightly so the stroke sits inside the card)
+  const borderColor = 0xF5; // Very light gray (almost white)
+  doc.setDrawColor(borderColor, borderColor, borderColor);
+  // Thicker border for stronger frame appearance
+  doc.setLineWidth(2.2);
+  // Draw the rect inset by 0.5mm so the stroke sits inside the card edges
+  doc.rect(x + 0.5, y + 0.5, width - 1, height - 1);
+
+  const padding = 2 // Small padding for content inside border
+  const contentWidth = width - (padding * 2)
+  const contentHeight = height - (padding * 2)
+  const contentX = x + padding
+  const contentY = y + padding
+
+  // ========== HEADER SECTION (Logo and title on same level) ==========
+  // Black header background with height 25mm to cover logo and content
+  const headerHeight = 28 // Fixed 28mm height
+  const headerY = contentY
+  const headerBottomY = headerY + headerHeight
+
+  // Logo positioned at left border with dimensions 9mm x 30mm (moved 1mm closer to left)
+  const logoWidth = 9
+  const logoHeight = 30
+  const logoX = contentX // 0mm from left border (moved 2mm left total: 1mm - 1mm adjustment)
+  const logoY = headerY + (headerHeight - logoHeight) / 2 // Vertically centered in header
+
+  const branding = getBranding(eventSettings)
+
+  // Header background in the branding colour (black by default)
+  doc.setFillColor(...hexToRGB(branding.cardHeaderColor))
+  doc.rect(contentX, headerY, contentWidth, headerHeight, 'F') // Fill the header area
+
+  try {
+    doc.addImage(branding.cardLogoUrl, "PNG", logoX, logoY, logoWidth, logoHeight)
+  } catch (e) {
+    // Logo might not load, continue without it
+  }
+
+  // Title area starts at logo width (no gap, moved closer to left border)
+  const rightX = logoX + logoWidth // No spacing gap (moved 2mm left from previous 2mm offset)
+  const rightWidth = contentX + contentWidth - rightX - 4 // Added right margin
+  
+  // Title - single line with truncation if needed
+  // Use Gill Sans MT Condensed at 13pt for card title (reduced by 1pt), WHITE text
+  const titleFontSize = 13
+  doc.setFontSize(titleFontSize)
+  try { doc.setFont("GillSansMT", "bold") } catch {
+    try { doc.setFont("Georgia", "bold") } catch { doc.setFont("times", "bold") }
+  }
+  doc.setTextColor(255, 255, 255) // WHITE text
+  const title = eventTitle || getSystemTitle(eventSettings)
+  // Truncate to keep the title to a single line within card bounds
+  const truncatedTitle = title.length > 50 ? title.substring(0, 47) + "..." : title
+  // Event details (theme + dates)
+  const detailLines: string[] = []
+  if (eventSettings) {
+    const themeText = eventSettings.theme.length > 45 ? eventSettings.theme.substring(0, 42) + "..." : eventSettings.theme
+
+    const dateText = formatCardEventDates(eventSettings)
+
+    detailLines.push(themeText)
+    detailLines.push(dateText)
+  }
+
+  // Calculate positions for centered alignment and use 1.5 line spacing
+  const ptsToMm = (pt: number) => pt * 0.352778
+  let startY = headerY + 5 // Start 5mm from top of header background (moved 2mm closer to top)
+
+  // Render single-line title (titleFontSize defined above)
+  const detailFontSize = 10
+  doc.setFontSize(titleFontSize)
+  doc.text(truncatedTitle, rightX + rightWidth / 2, startY, { align: "center" })
+  // Move down by 2 * title font size (converted to mm) for 2 line spacing
+  startY += ptsToMm(titleFontSize) * 2
+
+  // Render event details in the order: Date (normal) then Theme (italic), separated by 2 line spacing, WHITE text
+  // We constructed `detailLines` earlier as [themeText, dateText] originally; use the explicit variables if available
+  try {
+  // Use detailLines array: index 1 is date (if present), index 0 is theme
+  const dateLine = detailLines[1] || ''
+  const themeLine = detailLines[0] || ''
+
+    if (dateLine) {
+      // Date: white color, use Georgia (normal) to preserve condensed font for Title only
+      try { doc.setFont("Georgia", "normal") } catch { doc.setFont("times", "normal") }
+      doc.setTextColor(255, 255, 255)
+      doc.setFontSize(11) // reduced by 1pt
+      doc.text(dateLine, rightX + rightWidth / 2, startY, { align: "center" })
+      startY += ptsToMm(11) * 2
+    }
+
+    if (themeLine) {
+      // Theme: white color, render in italic using Georgia (keep condensed font reserved for Title)
+      try { doc.setFont("Georgia", "italic") } catch { doc.setFont("times", "italic") }
+      doc.setTextColor(255, 255, 255)
+      doc.setFontSize(12)
+      doc.text(themeLine, rightX + rightWidth / 2, startY, { align: "center" })
+      startY += ptsToMm(12) * 2
+    }
+  } catch (e) {
+    // Fallback: render any lines present in detailLines in order
+    for (let i = 0; i < detailLines.length; i++) {
+      try { doc.setFont("GillSansMT", "normal") } catch { try { doc.setFont("Georgia", "normal") } catch { doc.setFont("times", "normal") } }
+      doc.setTextColor(255,255,255)
+      doc.setFontSize(12)
+      doc.text(detailLines[i], rightX + rightWidth / 2, startY, { align: "center" })
+      startY += ptsToMm(12) * 1.5
+    }
+  }
+
+  // Stripe in the tanzeem category's colour along the bottom of the header
+  if (details.tanzeem) {
+    doc.setFillColor(...hexToRGB(getTanzeemColor(details.tanzeem, eventSettings)))
+    doc.rect(contentX, headerBottomY, contentWidth, 1.5, 'F')
+  }
+
+  // Separator line removed as per design update
+
+  // ========== MEMBER DETAILS SECTION ==========
+  // Spacing between header and member details: 1 line spacing
+  const headerToMemberSpacing = ptsToMm(14 * 1) // 1 line spacing using label font size (14pt)
+  const memberDetailsStartY = headerBottomY + headerToMemberSpacing
+  const memberDetailsHeight = contentHeight - headerHeight - headerToMemberSpacing - 2 // Adjusted for new spacing
+  const memberDetailsY = memberDetailsStartY
+
+  // QR code area dimensions - increased size
+  const qrAreaWidth = Math.min(contentWidth * 0.42, 42) // Increased from 0.36/36
+  const detailsWidth = contentWidth - qrAreaWidth - 4 // Reduced padding
+  const leftMargin = contentX + 4
+  let currentY = memberDetailsStartY + 2
+
+  // Text styles for ID card details
+  // Use Aptos Narrow 14pt for member details, labels unbold
+  const labelFontSize = 14
+  const valueFontSize = 14
+  // New spacing requirements:
+  // - label-to-value: 2 line spacing
+  // - detail-to-detail: 3 line spacing
+  const lineSpacing = 2 // label-to-value spacing multiplier
+  const detailSpacing = 3 // spacing between member detail groups
+
+  // Convert line spacing values to mm (1pt line spacing ≈ 0.352778mm)
+  const ptsToMmSpacing = (pt: number) => pt * 0.352778
+  const labelToValueSpacing = ptsToMmSpacing(labelFontSize * lineSpacing) - 1 // Reduced by 1mm
+  const detailToDetailSpacing = ptsToMmSpacing(labelFontSize * detailSpacing) - 1 // Reduced by 1mm
+
+  // Name
+  try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+  doc.setFontSize(labelFontSize)
+  doc.setTextColor(0, 0, 0) // Black label
+  doc.text("Name", leftMargin, currentY)
+  currentY += labelToValueSpacing
+  if (details.name.startsWith("SURPLUS-")) {
+    drawDashedLine(doc, leftMargin, currentY, detailsWidth - 8)
+  } else {
+    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+    doc.setFontSize(valueFontSize)
+    doc.setTextColor(0, 100, 0) // Dark green value
+    doc.text(details.name.length > 30 ? details.name.substring(0, 30) + "..." : details.name, leftMargin, currentY)
+  }
+  currentY += detailToDetailSpacing
+
+  // Tanzeem removed from ID card details as per design update
+
+  // Region
+  try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+  doc.setFontSize(labelFontSize)
+  doc.setTextColor(0, 0, 0) // Black label
+  doc.text("Region", leftMargin, currentY)
+  currentY += labelToValueSpacing
+  if (details.name.startsWith("SURPLUS-")) {
+    drawDashedLine(doc, leftMargin, currentY, detailsWidth - 8)
+  } else {
+    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+    doc.setFontSize(valueFontSize)
+    doc.setTextColor(0, 100, 0) // Dark green value
+    doc.text(details.region, leftMargin, currentY)
+  }
+  currentY += detailToDetailSpacing
+
+  // Jamaat
+  try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+  doc.setFontSize(labelFontSize)
+  doc.setTextColor(0, 0, 0) // Black label
+  doc.text("Jamaat", leftMargin, currentY)
+  currentY += labelToValueSpacing
+  if (details.name.startsWith("SURPLUS-")) {
+    drawDashedLine(doc, leftMargin, currentY, detailsWidth - 8)
+  } else {
+    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+    doc.setFontSize(valueFontSize)
+    doc.setTextColor(0, 100, 0) // Dark green value
+    doc.text(details.jamaat, leftMargin, currentY)
+  }
+
+  // Prepare QR code position variables in outer scope so signature placement can reference them
+  let qrSize = 0
+  let qrX = 0
+  let qrY = 0
+  if (qrCodeDataURL) {
+    qrSize = Math.min(qrAreaWidth - 2, memberDetailsHeight - 6, 63) // Reduced max size by 2mm (was 65)
+    qrX = contentX + contentWidth - qrAreaWidth + 1 // Adjusted position
+    // Position QR near bottom area close to signature:
+    // signature top approximates to y + height - signatureImageHeightReduced - 6 (signatureImageHeightReduced = 6)
+    // We want the QR bottom to sit ~1mm above the signature top.
+    // Therefore: qrY + qrSize = y + height - signatureImageHeightReduced - 6 - 1
+    // With signatureImageHeightReduced == 6 this simplifies to:
+  qrY = y + height - qrSize - 18 // move QR 5mm further away from bottom
+    try {
+      doc.addImage(qrCodeDataURL, "PNG", qrX, qrY, qrSize, qrSize)
+    } catch (e) {
+      // QR code might fail, continue without it
+      qrSize = 0
+      qrX = 0
+      qrY = 0
+    }
+  }
+
+  // Member code centred just above the QR code, so it can be read off and typed in at a scanner
+  if (details.memberCode && qrSize > 0) {
+    try { doc.setFont("AptosNarrow", "normal") } catch { doc.setFont("Georgia", "normal") }
+    doc.setFontSize(10)
+    doc.setTextColor(0, 0, 0)
+    doc.text(details.memberCode, qrX + qrSize / 2, qrY - 1.5, { align: "center" })
+  }
+
+  // ========== MEMBER PHOTO ==========
+  // Passport-style photo in the free space between the header and the QR code
+  if (details.photo) {
+    const photoHeight = 26
+    const photoWidth = photoHeight * 0.8 // Photos are stored at 4:5 (see resizeMemberPhoto)
+    const photoX = contentX + contentWidth - qrAreaWidth + 1 + (qrAreaWidth - 2 - photoWidth) / 2
+    const photoY = headerBottomY + 2
+    try {
+      doc.addImage(details.photo, "JPEG", photoX, photoY, photoWidth, photoHeight)
+    } catch (e) {
+      // Photo might fail, continue without it
+    }
+  }
+
+  // ========== AMJ IMAGE AND TEXT AT BOTTOM LEFT ==========
+  // AMJ image: 9mm x 9mm size
+  const amjImageSize = 9 // 9mm x 9mm size
+  
+  // Position AMJ uniformly: 6mm from bottom border (3mm + 3mm additional), 3mm from left border
+  const amjImageY = y + height - amjImageSize - 6 // 6mm from bottom
+  const amjImageX = x + 3 // 3mm from left border
+  
+  try {
+    doc.addImage(branding.badgeLogoUrl, 'PNG', amjImageX, amjImageY, amjImageSize, amjImageSize)
+  } catch (e) {
+    // AMJ image might fail, continue without it
+  }
+
+  // Add the organisation's short name (bigger, e.g. "AMJ") above the country (smaller) below the image
+  const amjTextX = amjImageX + amjImageSize / 2 // Center with image
+  const amjTopFontSize = 8 // AMJ bigger
+  const amjBottomFontSize = 5 // KENYA smaller
+  const amjTextTopY = amjImageY + amjImageSize + 1.9 // moved AMJ 0.9mm towards KENYA (now 1.9mm below image)
+  const amjTextBottomY = amjTextTopY + 1.6 // reduced gap so KENYA sits 1.6mm below AMJ
+
+  try { doc.setFont("AptosNarrow", "bold") } catch { doc.setFont("Georgia", "bold") }
+  doc.setTextColor(0, 0, 0)
+  doc.setFontSize(amjTopFontSize)
+  doc.text(branding.organisationShortName, amjTextX, amjTextTopY, { align: "center" })
+  doc.setFontSize(amjBottomFontSize)
+  doc.text(branding.country.toUpperCase(), amjTextX, amjTextBottomY, { align: "center" })
+
+  // ========== SIGNATURE SECTION ==========
+  // Position signature uniformly: 6mm from bottom border (3mm more), 1mm from right border
+  const signatureImageHeightReduced = 6 // Reduced signature image height
+  const signatureWidthReduced = 34 // Reduced signature image width
+  
+  // Position from bottom: 6mm gap (3mm + 3mm additional)
+  const signatureImageY = y + height - signatureImageHeightReduced - 6
+  
+  // Position from right: 1mm from border
+  const signatureX = x + width - signatureWidthReduced - 1 // 1mm from right border
+  
+  try {
+    // Attempt to add the image from public/; if it fails (missing or cross-origin), ignore and fall back to text-only
+    doc.addImage(branding.signatureUrl, 'PNG', signatureX, signatureImageY, signatureWidthReduced, signatureImageHeightReduced)
+  } catch (e) {
+    // ignore image errors
+  }
+
+  // Draw signature line (placed below the image, uniformly positioned)
+  const signatureY = signatureImageY + signatureImageHeightReduced + 1
+  doc.setDrawColor(0, 0, 0)
+  doc.setLineWidth(0.3)
+  doc.line(signatureX, signatureY, signatureX + signatureWidthReduced, signatureY)
+
+  // Add the signatory (e.g. "AFSAR JALSA") uniformly positioned
+  try { doc.setFont("Georgia", "normal") } catch { doc.setFont("times", "normal") }
+  doc.setFontSize(7)
+  doc.setTextColor(0, 0, 0)
+  doc.text(branding.signatoryName.toUpperCase(), signatureX + signatureWidthReduced / 2, signatureY + 3, { align: "center" })
+}
+
+// Corner marks just outside a card, to cut along on plain paper
+export const drawCutMarks = (doc: jsPDF, x: number, y: number, width: number, height: number) => {
+  const gap = 1
+  const length = 4
+  doc.setDrawColor(0, 0, 0)
+  doc.setLineWidth(0.2)
+  for (const cornerX of [x, x + width]) {
+    for (const cornerY of [y, y + height]) {
+      const outX = cornerX === x ? -1 : 1
+      const outY = cornerY === y ? -1 : 1
+      doc.line(cornerX + outX * gap, cornerY, cornerX + outX * (gap + length), cornerY)
+      doc.line(cornerX, cornerY + outY * gap, cornerX, cornerY + outY * (gap + length))
+    }
+  }
+}
+
+
+// PDF of cards laid out by a PDF print profile, calling onProgress after each card
+export const renderIDCardsPDF = async (
+  { cards, profile, eventTitle, eventSettings }: IDCardWorkerRequest,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  const page = getPrintPageSize(profile)
+  const orientation = page.width > page.height ? "landscape" : "portrait"
+  const doc = new jsPDF({ orientation, unit: "mm", format: [page.width, page.height] })
+  const cardsPerPage = getCardsPerPage(profile)
+
+  // Yield every batchSize cards so progress (and, off the worker, the page) can update
+  const batchSize = 10
+  for (let i = 0; i < cards.length; i++) {
+    const card = cards[i]
+    if (i > 0 && i % cardsPerPage === 0) {
+      doc.addPage([page.width, page.height], orientation)
+    }
+
+    const { x, y } = getCardPosition(profile, i)
+    await generateCommonIDCardContent(doc, x, y, profile.cardWidth, profile.cardHeight, eventTitle, card.qrCode, eventSettings, card)
+    if (profile.cutMarks) drawCutMarks(doc, x, y, profile.cardWidth, profile.cardHeight)
+
+    onProgress?.(i + 1, cards.length)
+    if ((i + 1) % batchSize === 0) {
+      await new Promise(resolve => setTimeout(resolve, 0))
+    }
+  }
+
+  return doc.output("blob")
+}
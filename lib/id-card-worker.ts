@@ -0,0 +1,15 @@
+import { renderIDCardsPDF, type IDCardWorkerMessage, type IDCardWorkerRequest } from "./id-card-pdf"
+
+// Web worker rendering ID card PDFs for lib/export.ts, posting progress after
+// each card and the finished PDF at the end
+
+const post = (message: IDCardWorkerMessage) => self.postMessage(message)
+
+self.addEventListener("message", async (event: MessageEvent<IDCardWorkerRequest>) => {
+  try {
+    const blob = await renderIDCardsPDF(event.data, (done, total) => post({ type: "progress", done, total }))
+    post({ type: "done", blob })
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+})
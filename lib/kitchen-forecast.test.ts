@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildKitchenForecast,
+  getOnSiteRecords,
+  loadCateringHistory,
+  summarizeCateringHistory,
+  type ServingSample,
+} from "./kitchen-forecast"
+import { createMemoryAdapter } from "./collection-adapter"
+import type { AttendanceRecord, CateringRecord, EventSettings, SecurityMovement } from "./types"
+
+const EVENT = {
+  id: "event-2025",
+  eventName: "Jalsa Salana Kenya",
+  startingDate: "2025-08-22",
+  duration: 2,
+  location: "Nairobi",
+  theme: "",
+  timeZone: "Africa/Nairobi",
+  createdAt: "2025-01-01T00:00:00Z",
+} as EventSettings
+
+const attended = (eventId: string, id: string, tanzeem: string, recordedAt: string): AttendanceRecord => ({
+  id,
+  eventId,
+  memberId: `member-${id}`,
+  recordedAt,
+  member: {
+    id: `member-${id}`,
+    eventId,
+    fullName: `Member ${id}`,
+    tanzeem,
+    region: "Nairobi",
+    jamaat: "Central",
+    createdAt: recordedAt,
+  },
+})
+
+const served = (record: AttendanceRecord, day: string, mealType: string): CateringRecord => ({
+  id: `${record.id}-${day}-${mealType}`,
+  eventId: record.eventId,
+  attendanceRecordId: record.id,
+  day,
+  mealType,
+  servedAt: `${day}T10:00:00Z`,
+})
+
+const moved = (record: AttendanceRecord, status: "In" | "Out", timestamp: string): SecurityMovement => ({
+  id: `${record.id}-${timestamp}`,
+  eventId: record.eventId,
+  attendanceRecordId: record.id,
+  status,
+  timestamp,
+})
+
+// Two Khuddam and two Lajna arrived on the first morning
+const ARRIVED = "2025-08-22T05:00:00Z"
+const ATTENDANCE = [
+  attended(EVENT.id, "k1", "Khuddam", ARRIVED),
+  attended(EVENT.id, "k2", "Khuddam", ARRIVED),
+  attended(EVENT.id, "l1", "Lajna", ARRIVED),
+  attended(EVENT.id, "l2", "Lajna", ARRIVED),
+]
+const [K1, K2, L1] = ATTENDANCE
+// 18:00 at the venue on the first day: lunch is over, dinner is being served
+const NOW = new Date("2025-08-22T15:00:00Z")
+
+const forecast = (fields: {
+  movements?: SecurityMovement[]
+  cateringRecords?: CateringRecord[]
+  history?: ServingSample[]
+}) =>
+  buildKitchenForecast({
+    settings: EVENT,
+    attendanceRecords: ATTENDANCE,
+    movements: fields.movements ?? [],
+    cateringRecords: fields.cateringRecords ?? [],
+    history: fields.history ?? [],
+    now: NOW,
+  })
+
+describe("getOnSiteRecords", () => {
+  it("counts everyone who attended until the gate is in use", () => {
+    expect(getOnSiteRecords(ATTENDANCE, [])).toHaveLength(4)
+  })
+
+  it("then counts only attendees whose latest movement is In", () => {
+    const movements = [
+      moved(K1, "In", "2025-08-22T06:00:00Z"),
+      moved(K1, "Out", "2025-08-22T07:00:00Z"),
+      moved(K2, "Out", "2025-08-22T06:00:00Z"),
+      moved(K2, "In", "2025-08-22T07:00:00Z"),
+    ]
+    expect(getOnSiteRecords(ATTENDANCE, movements).map((record) => record.id)).toEqual(["k2"])
+  })
+})
+
+describe("buildKitchenForecast", () => {
+  it("forecasts only sessions whose window has not closed", () => {
+    const { sessions } = forecast({})
+    expect(sessions.map(({ session }) => `${session.day} ${session.mealType}`)).toEqual([
+      "2025-08-22 Dinner",
+      "2025-08-23 Breakfast",
+      "2025-08-23 Lunch",
+      "2025-08-23 Dinner",
+    ])
+  })
+
+  it("plans a plate for everyone on site without history", () => {
+    const dinner = forecast({}).sessions[0]
+    expect(dinner.plates).toBe(4)
+    expect(dinner.observedSessions).toBe(0)
+  })
+
+  it("scales each tanzeem by the share served the same meal earlier in the event", () => {
+    const cateringRecords = [K1, K2, L1].map((record) => served(record, "2025-08-22", "Lunch"))
+    const lunch = forecast({ cateringRecords }).sessions.find(
+      ({ session }) => session.day === "2025-08-23" && session.mealType === "Lunch",
+    )!
+    expect(lunch.tanzeems).toEqual([
+      { tanzeem: "Khuddam", onSite: 2, ratio: 1, plates: 2 },
+      { tanzeem: "Lajna", onSite: 2, ratio: 0.5, plates: 1 },
+    ])
+    expect(lunch.plates).toBe(3)
+    expect(lunch.observedSessions).toBe(1)
+  })
+
+  it("learns from previous events too", () => {
+    const previous = { ...EVENT, id: "event-2024", startingDate: "2024-08-23" }
+    const before = ["p1", "p2"].map((id) => attended(previous.id, id, "Lajna", "2024-08-23T05:00:00Z"))
+    const history = summarizeCateringHistory(
+      [{ event: previous, attendanceRecords: before, cateringRecords: [served(before[0], "2024-08-23", "Dinner")] }],
+      NOW,
+    )
+    expect(history.events).toBe(1)
+    const dinner = forecast({ history: history.samples }).sessions[0]
+    expect(dinner.tanzeems.find((t) => t.tanzeem === "Lajna")).toMatchObject({ ratio: 0.5, plates: 1 })
+    // Khuddam have no dinner history of their own and eat like the meal's attendees overall
+    expect(dinner.tanzeems.find((t) => t.tanzeem === "Khuddam")).toMatchObject({ ratio: 0.5, plates: 1 })
+  })
+
+  it("leaves out attendees who signed out at the gate", () => {
+    const movements = ATTENDANCE.map((record) => moved(record, record === K1 ? "Out" : "In", "2025-08-22T06:00:00Z"))
+    const result = forecast({ movements })
+    expect(result).toMatchObject({ present: 4, onSite: 3, away: 1 })
+  })
+})
+
+describe("loadCateringHistory", () => {
+  it("summarizes every event that started before this one", async () => {
+    const storage = createMemoryAdapter()
+    const { id, createdAt, ...fields } = EVENT
+    const current = (await storage.createEvent(fields))!
+    const earlier = (await storage.createEvent({ ...fields, startingDate: "2024-08-23" }))!
+    await storage.createEvent({ ...fields, startingDate: "2026-08-21" })
+
+    const member = (await storage.insertMember({
+      eventId: earlier.id,
+      fullName: "Amina Hassan",
+      tanzeem: "Lajna",
+      region: "Nairobi",
+      jamaat: "Central",
+    }))!
+    const record = (await storage.insertAttendance({
+      eventId: earlier.id,
+      memberId: member.id,
+      recordedAt: "2024-08-23T05:00:00Z",
+    }))!
+    await storage.insertCateringRecord({
+      id: "served-1",
+      eventId: earlier.id,
+      attendanceRecordId: record.id,
+      day: "2024-08-23",
+      mealType: "Dinner",
+      servedAt: "2024-08-23T16:00:00Z",
+    })
+
+    const history = (await loadCateringHistory(storage, current.id, NOW))!
+    expect(history.events).toBe(1)
+    expect(history.samples).toContainEqual(
+      expect.objectContaining({ mealType: "Dinner", tanzeem: "Lajna", attendees: 1, served: 1 }),
+    )
+    expect(await loadCateringHistory(storage, "missing", NOW)).toBeNull()
+  })
+})
@@ -0,0 +1,212 @@
+import {
+  getCateringSessions,
+  isCateringSessionUpcoming,
+  isSameEventDay,
+  toLocalDay,
+  type CateringSession,
+} from "./catering-sessions"
+import { countDietaryRequirements, type DietaryCount } from "./dietary"
+import { getTanzeemNames } from "./tanzeem-categories"
+import type { StorageAdapter } from "./storage-adapter"
+import type { AttendanceRecord, CateringRecord, EventSettings, MealType, SecurityMovement } from "./types"
+
+// Plates the kitchen should prepare for each upcoming catering session. The
+// people expected to eat are the attendees on site (see getOnSiteRecords),
+// split by tanzeem; each tanzeem's count is scaled by the share of attendees
+// that was actually served the same meal in earlier sessions of this event
+// and of previous events.
+
+// Attendance and catering records of one event, as observed history
+export interface EventCateringHistory {
+  event: EventSettings
+  attendanceRecords: AttendanceRecord[]
+  cateringRecords: CateringRecord[]
+}
+
+export interface TanzeemForecast {
+  tanzeem: string
+  onSite: number
+  ratio: number // Share of attendees served this meal before (1 without history)
+  plates: number
+}
+
+export interface SessionForecast {
+  session: CateringSession
+  onSite: number
+  plates: number
+  tanzeems: TanzeemForecast[]
+  observedSessions: number // Earlier sessions of this meal the ratios come from
+}
+
+export interface KitchenForecast {
+  present: number // Attendance records at the event
+  onSite: number // Of those, counted as eating on site
+  away: number // Not signed in at the gate
+  specialMeals: DietaryCount[] // Dietary requirements among those on site
+  sessions: SessionForecast[]
+}
+
+// One tanzeem's attendees and servings in one past session
+export interface ServingSample {
+  sessionKey: string
+  mealType: MealType
+  tanzeem: string
+  attendees: number
+  served: number
+}
+
+// Attendees expected at meals. Once the gate is in use, only those whose
+// latest security movement is "In"; before that, everyone who has attended.
+export const getOnSiteRecords = (
+  attendanceRecords: AttendanceRecord[],
+  movements: SecurityMovement[],
+): AttendanceRecord[] => {
+  if (movements.length === 0) return attendanceRecords
+
+  const latest = new Map<string, SecurityMovement>()
+  for (const movement of movements) {
+    const current = latest.get(movement.attendanceRecordId)
+    if (!current || movement.timestamp > current.timestamp) latest.set(movement.attendanceRecordId, movement)
+  }
+  return attendanceRecords.filter((record) => latest.get(record.id)?.status === "In")
+}
+
+const countByTanzeem = (tanzeems: (string | undefined)[]): Map<string, number> => {
+  const counts = new Map<string, number>()
+  for (const tanzeem of tanzeems) {
+    if (tanzeem) counts.set(tanzeem, (counts.get(tanzeem) || 0) + 1)
+  }
+  return counts
+}
+
+// What previous events add to the forecast: counts only, so a user scoped to
+// one event or region learns nothing about other events' members
+export interface CateringHistory {
+  events: number // Previous events the samples come from
+  samples: ServingSample[]
+}
+
+// Servings per tanzeem in each finished session of an event, against the
+// attendees who had arrived by that day. Sessions nobody was served in are
+// left out, as the meal was not tracked rather than not eaten.
+const getServingSamples = (history: EventCateringHistory, now: Date): ServingSample[] => {
+  const tanzeemOf = new Map(history.attendanceRecords.map((record) => [record.id, record.member?.tanzeem]))
+
+  return getCateringSessions(history.event)
+    .filter((session) => !isCateringSessionUpcoming(session, history.event, now))
+    .flatMap((session) => {
+      const served = history.cateringRecords.filter(
+        (record) => record.mealType === session.mealType && isSameEventDay(record.day, session.day),
+      )
+      if (served.length === 0) return []
+
+      const attendees = countByTanzeem(
+        history.attendanceRecords
+          .filter((record) => toLocalDay(new Date(record.recordedAt), history.event.timeZone) <= session.day)
+          .map((record) => record.member?.tanzeem),
+      )
+      const servings = countByTanzeem(
+        served.map((record) => record.attendanceRecord?.member?.tanzeem || tanzeemOf.get(record.attendanceRecordId)),
+      )
+      const sessionKey = `${history.event.id}|${session.day}|${session.mealType}`
+      return Array.from(attendees, ([tanzeem, count]) => ({
+        sessionKey,
+        mealType: session.mealType,
+        tanzeem,
+        attendees: count,
+        served: servings.get(tanzeem) || 0,
+      }))
+    })
+}
+
+export const summarizeCateringHistory = (histories: EventCateringHistory[], now = new Date()): CateringHistory => ({
+  events: histories.length,
+  samples: histories.flatMap((history) => getServingSamples(history, now)),
+})
+
+// Every event of the organisation that started before this one, summarized.
+// Called by /api/catering/history with the service role, as the browser can
+// only read the events its user is assigned to; null for an unknown event.
+export const loadCateringHistory = async (
+  storage: StorageAdapter,
+  eventId: string,
+  now = new Date(),
+): Promise<CateringHistory | null> => {
+  const current = await storage.getEvent(eventId)
+  if (!current) return null
+
+  const previous = (await storage.listEvents()).filter(
+    (event) => event.id !== eventId && !!current.startingDate && event.startingDate < current.startingDate,
+  )
+  const histories = await Promise.all(
+    previous.map(async (event) => {
+      const [attendanceRecords, cateringRecords] = await Promise.all([
+        storage.listAttendance(event.id),
+        storage.listCateringRecords(event.id),
+      ])
+      return { event, attendanceRecords, cateringRecords }
+    }),
+  )
+  return summarizeCateringHistory(histories, now)
+}
+
+// Share of attendees served, pooled over the samples; null without any
+const getServingRatio = (samples: ServingSample[]): number | null => {
+  const attendees = samples.reduce((sum, sample) => sum + sample.attendees, 0)
+  if (attendees === 0) return null
+  return samples.reduce((sum, sample) => sum + sample.served, 0) / attendees
+}
+
+export const buildKitchenForecast = ({
+  settings,
+  attendanceRecords,
+  movements,
+  cateringRecords,
+  history,
+  now = new Date(),
+}: {
+  settings: EventSettings
+  attendanceRecords: AttendanceRecord[]
+  movements: SecurityMovement[]
+  cateringRecords: CateringRecord[]
+  history: ServingSample[] // From previous events (see summarizeCateringHistory)
+  now?: Date
+}): KitchenForecast => {
+  const onSiteRecords = getOnSiteRecords(attendanceRecords, movements)
+  const onSiteByTanzeem = countByTanzeem(onSiteRecords.map((record) => record.member?.tanzeem))
+  // The event's categories first, then any left over from renamed or removed ones
+  const tanzeems = [
+    ...getTanzeemNames(settings).filter((tanzeem) => onSiteByTanzeem.has(tanzeem)),
+    ...Array.from(onSiteByTanzeem.keys()).filter((tanzeem) => !getTanzeemNames(settings).includes(tanzeem)),
+  ]
+
+  const samples = [...getServingSamples({ event: settings, attendanceRecords, cateringRecords }, now), ...history]
+
+  const sessions = getCateringSessions(settings)
+    .filter((session) => isCateringSessionUpcoming(session, settings, now))
+    .map((session) => {
+      const mealSamples = samples.filter((sample) => sample.mealType === session.mealType)
+      const mealRatio = getServingRatio(mealSamples) ?? 1
+      // A tanzeem without history of its own eats like the meal's attendees overall
+      const forecasts = tanzeems.map((tanzeem) => {
+        const onSite = onSiteByTanzeem.get(tanzeem) || 0
+        const ratio = getServingRatio(mealSamples.filter((sample) => sample.tanzeem === tanzeem)) ?? mealRatio
+        return { tanzeem, onSite, ratio, plates: Math.ceil(onSite * ratio) }
+      })
+      return {
+        session,
+        onSite: onSiteRecords.length,
+        plates: forecasts.reduce((sum, forecast) => sum + forecast.plates, 0),
+        tanzeems: forecasts,
+        observedSessions: new Set(mealSamples.map((sample) => sample.sessionKey)).size,
+      }
+    })
+
+  return {
+    present: attendanceRecords.length,
+    onSite: onSiteRecords.length,
+    away: attendanceRecords.length - onSiteRecords.length,
+    specialMeals: countDietaryRequirements(onSiteRecords, new Set()),
+    sessions,
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { formatMemberCode, getHighestMemberNumber, memberCodeMatches, normalizeMemberCode } from "./member-codes"
+
+describe("formatMemberCode", () => {
+  it("pads the number to four digits", () => {
+    expect(formatMemberCode("KH", 42)).toBe("KH-0042")
+    expect(formatMemberCode("KH", 12345)).toBe("KH-12345")
+  })
+})
+
+describe("normalizeMemberCode", () => {
+  it("reads typed codes with any case, spacing or dash", () => {
+    expect(normalizeMemberCode("kh 42", ["KH", "LJ"])).toBe("KH-0042")
+    expect(normalizeMemberCode(" LJ-0007 ", ["KH", "LJ"])).toBe("LJ-0007")
+    expect(normalizeMemberCode("lj7", ["KH", "LJ"])).toBe("LJ-0007")
+  })
+
+  it("prefers the longest short code that matches", () => {
+    expect(normalizeMemberCode("KHA 5", ["KH", "KHA"])).toBe("KHA-0005")
+  })
+
+  it("rejects unknown short codes and text that is not a number", () => {
+    expect(normalizeMemberCode("AN-0001", ["KH"])).toBeNull()
+    expect(normalizeMemberCode("KH-ABC", ["KH"])).toBeNull()
+    expect(normalizeMemberCode("KH-1234567", ["KH"])).toBeNull()
+    expect(normalizeMemberCode("Amina", ["KH"])).toBeNull()
+  })
+})
+
+describe("getHighestMemberNumber", () => {
+  it("finds the highest number given under one short code only", () => {
+    const members = [
+      { memberCode: "KH-0003" },
+      { memberCode: "KH-0012" },
+      { memberCode: "KHA-0099" },
+      { memberCode: "LJ-0040" },
+      { memberCode: undefined },
+    ]
+    expect(getHighestMemberNumber(members, "KH")).toBe(12)
+    expect(getHighestMemberNumber(members, "AN")).toBe(0)
+  })
+})
+
+describe("memberCodeMatches", () => {
+  it("matches part of a code or the same code typed another way", () => {
+    const member = { memberCode: "KH-0042" }
+    expect(memberCodeMatches(member, "0042")).toBe(true)
+    expect(memberCodeMatches(member, "kh 42")).toBe(true)
+    expect(memberCodeMatches(member, "KH-0043")).toBe(false)
+    expect(memberCodeMatches({ memberCode: undefined }, "KH")).toBe(false)
+  })
+})
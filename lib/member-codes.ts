@@ -0,0 +1,40 @@
+import type { TajneedMember } from "./types"
+
+// Member codes are the tanzeem category's short code and the member's number
+// from that tanzeem's counter in the event, e.g. KH-0042. They are printed on
+// ID cards and can be typed in wherever a QR code is scanned.
+
+export const formatMemberCode = (tanzeemCode: string, number: number): string =>
+  `${tanzeemCode}-${String(number).padStart(4, "0")}`
+
+// Highest number already given under a short code, so a counter that was
+// reset or keyed differently never hands out a code that is in use
+export const getHighestMemberNumber = (members: Pick<TajneedMember, "memberCode">[], tanzeemCode: string): number =>
+  members.reduce((highest, { memberCode }) => {
+    const prefix = `${tanzeemCode}-`
+    const number = memberCode?.startsWith(prefix) ? memberCode.slice(prefix.length) : ""
+    return /^\d+$/.test(number) ? Math.max(highest, Number.parseInt(number, 10)) : highest
+  }, 0)
+
+// Canonical form of a typed code ("kh 42" -> "KH-0042") for one of the given
+// short codes, or null when the text is not a member code
+export const normalizeMemberCode = (text: string, tanzeemCodes: string[]): string | null => {
+  const typed = text.trim().toUpperCase().replace(/\s+/g, "")
+  // Longest first, so a code that starts with a shorter one is not misread
+  for (const code of [...tanzeemCodes].sort((a, b) => b.length - a.length)) {
+    if (!typed.startsWith(code)) continue
+    const number = typed.slice(code.length).replace(/^-/, "")
+    if (/^\d{1,6}$/.test(number)) return formatMemberCode(code, Number.parseInt(number, 10))
+  }
+  return null
+}
+
+// Search helper for list pages: true when the member's code contains the search term
+export const memberCodeMatches = (member: Pick<TajneedMember, "memberCode">, term: string): boolean => {
+  if (!member.memberCode || !term) return false
+  const [prefix] = member.memberCode.split("-")
+  return (
+    member.memberCode.toLowerCase().includes(term.toLowerCase()) ||
+    normalizeMemberCode(term, [prefix]) === member.memberCode
+  )
+}
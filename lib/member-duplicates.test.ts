@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { findDuplicateMembers, nameSimilarity } from "./member-duplicates"
+import type { TajneedMember } from "./types"
+
+const member = (id: string, fullName: string, fields: Partial<TajneedMember> = {}): TajneedMember => ({
+  id,
+  eventId: "event-1",
+  fullName,
+  tanzeem: "Lajna",
+  region: "Nairobi",
+  jamaat: "Central",
+  createdAt: "2025-01-01T00:00:00Z",
+  ...fields,
+})
+
+describe("nameSimilarity", () => {
+  it("ignores case, punctuation, accents and word order", () => {
+    expect(nameSimilarity("Amina Hassan", "HASSAN, amina")).toBe(1)
+    expect(nameSimilarity("Amīna Hassan", "Amina Hassan")).toBe(1)
+  })
+
+  it("scores spelling variants close and different names far apart", () => {
+    expect(nameSimilarity("Amina Hassan", "Amina Hasan")).toBeGreaterThan(0.9)
+    expect(nameSimilarity("Amina Hassan", "Fatima Ali")).toBeLessThan(0.5)
+  })
+
+  it("compares names in non-Latin scripts", () => {
+    expect(nameSimilarity("محمد احمد", "احمد محمد")).toBe(1)
+    expect(nameSimilarity("محمد احمد", "علی حسن")).toBeLessThan(0.5)
+  })
+
+  it("never matches a name with no letters or digits", () => {
+    expect(nameSimilarity("", "")).toBe(0)
+    expect(nameSimilarity("--", "?")).toBe(0)
+  })
+})
+
+describe("findDuplicateMembers", () => {
+  it("pairs similar names within a jamaat and tanzeem, most similar first", () => {
+    const members = [
+      member("1", "Amina Hassan"),
+      member("2", "Amina Hasan"),
+      member("3", "Hassan Amina"),
+      member("4", "Fatima Ali"),
+    ]
+    const pairs = findDuplicateMembers(members)
+    expect(pairs.map((pair) => pair.members.map((m) => m.id))).toEqual([
+      ["1", "3"],
+      ["1", "2"],
+      ["2", "3"],
+    ])
+  })
+
+  it("leaves members in other jamaats or tanzeems alone", () => {
+    const members = [
+      member("1", "Amina Hassan"),
+      member("2", "Amina Hassan", { jamaat: "Eastleigh" }),
+      member("3", "Amina Hassan", { tanzeem: "Nasrat" }),
+    ]
+    expect(findDuplicateMembers(members)).toEqual([])
+  })
+
+  it("does not pair members whose names have nothing to compare", () => {
+    expect(findDuplicateMembers([member("1", "..."), member("2", "-")])).toEqual([])
+  })
+})
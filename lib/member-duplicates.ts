@@ -0,0 +1,77 @@
+import type { TajneedMember } from "./types"
+
+// Fuzzy duplicate detection for Tajneed: the same person registered twice
+// (from /tajneed/register, an unknown-card scan or a surplus card) usually
+// differs only in spelling, so names are compared within a jamaat and tanzeem.
+
+export interface DuplicatePair {
+  members: [TajneedMember, TajneedMember]
+  similarity: number // 0 to 1, 1 meaning the normalized names are identical
+}
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.85
+
+// Lower case without accents or other combining marks, so "Amīna" matches
+// "Amina". Letters of every script are kept: Arabic and Urdu names compare
+// like Latin ones.
+export const foldText = (text: string) => text.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase()
+
+const normalizeName = (name: string) =>
+  foldText(name)
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .split(/\s+/)
+    .filter(Boolean)
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const ratio = (a: string, b: string) => {
+  const length = Math.max(a.length, b.length)
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length
+}
+
+// Edit-distance similarity of two names, ignoring case, accents, punctuation
+// and word order. A name with nothing left to compare matches no other name.
+export const nameSimilarity = (a: string, b: string): number => {
+  const wordsA = normalizeName(a)
+  const wordsB = normalizeName(b)
+  if (wordsA.length === 0 || wordsB.length === 0) return 0
+  return Math.max(
+    ratio(wordsA.join(" "), wordsB.join(" ")),
+    ratio([...wordsA].sort().join(" "), [...wordsB].sort().join(" ")),
+  )
+}
+
+// Pairs of members in the same jamaat and tanzeem whose names are at least
+// `threshold` similar, most similar first
+export const findDuplicateMembers = (
+  members: TajneedMember[],
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD,
+): DuplicatePair[] => {
+  const groups = new Map<string, TajneedMember[]>()
+  members.forEach((member) => {
+    const key = `${member.jamaat.trim().toLowerCase()}|${member.tanzeem}`
+    groups.set(key, [...(groups.get(key) || []), member])
+  })
+
+  const pairs: DuplicatePair[] = []
+  groups.forEach((group) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const similarity = nameSimilarity(group[i].fullName, group[j].fullName)
+        if (similarity >= threshold) pairs.push({ members: [group[i], group[j]], similarity })
+      }
+    }
+  })
+  return pairs.sort((a, b) => b.similarity - a.similarity)
+}
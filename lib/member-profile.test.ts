@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest"
+import { isAcceptedPhotoDataUrl } from "./member-profile"
+
+const dataUrl = (type: string, bytes: number[]) => `data:${type};base64,${Buffer.from(bytes).toString("base64")}`
+
+const JPEG = [0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01]
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]
+const WEBP = [...Buffer.from("RIFF"), 0x24, 0x00, 0x00, 0x00, ...Buffer.from("WEBPVP8 ")]
+
+describe("isAcceptedPhotoDataUrl", () => {
+  it("accepts JPEG, PNG and WebP photos", () => {
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/jpeg", JPEG))).toBe(true)
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/png", PNG))).toBe(true)
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/webp", WEBP))).toBe(true)
+  })
+
+  it("rejects other image types, even when they are real images", () => {
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/gif", [...Buffer.from("GIF89a"), 0, 0, 0, 0, 0, 0]))).toBe(false)
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/svg+xml", [...Buffer.from("<svg onload=alert(1)>")]))).toBe(false)
+  })
+
+  it("rejects bytes that do not match the declared type", () => {
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/png", JPEG))).toBe(false)
+    expect(isAcceptedPhotoDataUrl(dataUrl("image/jpeg", [...Buffer.from("<html><script></script></html>")]))).toBe(false)
+  })
+
+  it("rejects data URLs that are not base64", () => {
+    expect(isAcceptedPhotoDataUrl("data:image/jpeg,%FF%D8%FF")).toBe(false)
+    expect(isAcceptedPhotoDataUrl("data:image/jpeg;base64,not base64!")).toBe(false)
+    expect(isAcceptedPhotoDataUrl("https://example.com/photo.jpg")).toBe(false)
+  })
+})
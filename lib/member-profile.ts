@@ -0,0 +1,138 @@
+import type { DietaryRequirement, Gender, TajneedMember } from "./types"
+
+// Optional contact and identity details of a Tajneed member, captured on the
+// register page and the member dialogs (see components/member-profile-fields.tsx)
+
+export type MemberProfile = Pick<
+  TajneedMember,
+  "phone" | "email" | "gender" | "dateOfBirth" | "aimsNumber" | "dietaryRequirements" | "dietaryNotes"
+>
+
+export const GENDERS: Gender[] = ["Male", "Female"]
+
+export const DIETARY_REQUIREMENTS: DietaryRequirement[] = ["Diabetic", "Vegetarian", "Soft food", "Allergy"]
+
+export const EMPTY_MEMBER_PROFILE: MemberProfile = {
+  phone: "",
+  email: "",
+  gender: undefined,
+  dateOfBirth: "",
+  aimsNumber: "",
+  dietaryRequirements: [],
+  dietaryNotes: "",
+}
+
+// Photos are cropped to passport proportions and kept small enough to load
+// quickly at the security desk and in ID card batches
+const PHOTO_WIDTH = 240
+const PHOTO_HEIGHT = 300
+const PHOTO_QUALITY = 0.85
+
+export const getMemberProfile = (member: TajneedMember): MemberProfile => ({
+  phone: member.phone || "",
+  email: member.email || "",
+  gender: member.gender,
+  dateOfBirth: member.dateOfBirth || "",
+  aimsNumber: member.aimsNumber || "",
+  dietaryRequirements: member.dietaryRequirements || [],
+  dietaryNotes: member.dietaryNotes || "",
+})
+
+// Trimmed copy of the profile with every field present, so saving an emptied
+// field clears it
+export const cleanMemberProfile = (profile: MemberProfile): MemberProfile => ({
+  phone: profile.phone?.trim() || "",
+  email: profile.email?.trim() || "",
+  gender: profile.gender || undefined,
+  dateOfBirth: profile.dateOfBirth || "",
+  aimsNumber: profile.aimsNumber?.trim() || "",
+  dietaryRequirements: DIETARY_REQUIREMENTS.filter((need) => profile.dietaryRequirements?.includes(need)),
+  dietaryNotes: profile.dietaryNotes?.trim() || "",
+})
+
+// First problem with the profile, or null when it can be saved
+export const validateMemberProfile = (profile: MemberProfile): string | null => {
+  if (profile.email?.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(profile.email.trim())) {
+    return "Email address is not valid"
+  }
+  if (profile.dateOfBirth) {
+    const dateOfBirth = new Date(profile.dateOfBirth)
+    if (Number.isNaN(dateOfBirth.getTime()) || dateOfBirth > new Date() || dateOfBirth.getFullYear() < 1900) {
+      return "Date of birth is not valid"
+    }
+  }
+  return null
+}
+
+// Completed years on the given date, or null without a valid date of birth
+export const getAge = (dateOfBirth: string | undefined, on: Date = new Date()): number | null => {
+  if (!dateOfBirth) return null
+  const born = new Date(dateOfBirth)
+  if (Number.isNaN(born.getTime())) return null
+
+  let age = on.getFullYear() - born.getFullYear()
+  const birthdayPassed =
+    on.getMonth() > born.getMonth() || (on.getMonth() === born.getMonth() && on.getDate() >= born.getDate())
+  if (!birthdayPassed) age--
+  return age >= 0 ? age : null
+}
+
+// Crops an uploaded or captured image to passport proportions and returns it as a JPEG data URL
+export const resizeMemberPhoto = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const scale = Math.max(PHOTO_WIDTH / image.width, PHOTO_HEIGHT / image.height)
+      const sourceWidth = PHOTO_WIDTH / scale
+      const sourceHeight = PHOTO_HEIGHT / scale
+
+      const canvas = document.createElement("canvas")
+      canvas.width = PHOTO_WIDTH
+      canvas.height = PHOTO_HEIGHT
+      const context = canvas.getContext("2d")
+      if (!context) {
+        reject(new Error("Could not process the photo"))
+        return
+      }
+      context.drawImage(
+        image,
+        (image.width - sourceWidth) / 2,
+        (image.height - sourceHeight) / 2,
+        sourceWidth,
+        sourceHeight,
+        0,
+        0,
+        PHOTO_WIDTH,
+        PHOTO_HEIGHT,
+      )
+      resolve(canvas.toDataURL("image/jpeg", PHOTO_QUALITY))
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("The file is not an image"))
+    }
+    image.src = url
+  })
+
+// Stored photos are one of these, recognised by their first bytes, so a file
+// that only claims to be an image (e.g. HTML or SVG) is never stored
+const PHOTO_SIGNATURES: Record<string, (bytes: string) => boolean> = {
+  "image/jpeg": (bytes) => bytes.startsWith("\xff\xd8\xff"),
+  "image/png": (bytes) => bytes.startsWith("\x89PNG\r\n\x1a\n"),
+  "image/webp": (bytes) => bytes.startsWith("RIFF") && bytes.slice(8, 12) === "WEBP",
+}
+
+// Whether a data URL is a base64 JPEG, PNG or WebP whose bytes match its declared type
+export const isAcceptedPhotoDataUrl = (photo: string): boolean => {
+  const match = /^data:(image\/[a-z]+);base64,([A-Za-z0-9+/]+={0,2})$/.exec(photo)
+  const matchesSignature = match && PHOTO_SIGNATURES[match[1]]
+  if (!matchesSignature) return false
+  try {
+    // 16 base64 characters decode to the first 12 bytes
+    return matchesSignature(atob(match[2].slice(0, 16)))
+  } catch {
+    return false
+  }
+}
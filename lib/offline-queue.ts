@@ -0,0 +1,520 @@
+import type { QueuedScan, QueuedScanStatus, ScanQueueStats } from "./types"
+import { supabase, isSupabaseConfigured } from "./supabase"
+import { formatCateringSession } from "./catering-sessions"
+import { getCurrentUser } from "./auth"
+
+// Persistent outbox for scan actions (attendance, security, catering).
+// Entries are written to IndexedDB when the Supabase call cannot reach the
+// server, and replayed in client-timestamp order once connectivity returns.
+// Each entry belongs to the user who scanned it and only replays under their
+// session, so a shared scanner never writes one user's scans as another's.
+// The same database keeps the offline snapshots: the last successful reads
+// scanners fall back on, which are too large for localStorage.
+
+const DB_NAME = "jalsa_offline"
+const DB_VERSION = 2 // 2: offline snapshots moved here from localStorage
+const STORE_NAME = "scan_queue"
+const SNAPSHOT_STORE_NAME = "offline_snapshots"
+const LEGACY_SNAPSHOT_PREFIX = "offline_snapshot_" // localStorage keys of the old snapshots
+const LOCAL_SCAN_QUEUE_KEY = "scan_queue" // Fallback when IndexedDB is unavailable
+const MAX_ATTEMPTS = 5
+const SYNC_INTERVAL_MS = 30000
+
+const ATTENDANCE_TABLE = "attendance_records"
+const SECURITY_TABLE = "security_movements"
+const CATERED_TABLE = "catering_records"
+
+type QueueListener = (stats: ScanQueueStats) => void
+type SnapshotFailureListener = (error: unknown) => void
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never
+
+const listeners = new Set<QueueListener>()
+const snapshotFailureListeners = new Set<SnapshotFailureListener>()
+let dbPromise: Promise<IDBDatabase | null> | null = null
+let replaying = false
+
+// Supabase-js reports transport failures (offline, DNS, timeouts) as errors
+// without a Postgres error code, or throws a TypeError from fetch.
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true
+  if (!error) return false
+  const message = String(
+    typeof error === "object" && "message" in error && error.message ? error.message : error,
+  ).toLowerCase()
+  return (
+    message.includes("failed to fetch") ||
+    message.includes("fetch failed") ||
+    message.includes("networkerror") ||
+    message.includes("network request failed") ||
+    message.includes("load failed") ||
+    message.includes("timeout")
+  )
+}
+
+export const isOffline = (): boolean => typeof navigator !== "undefined" && navigator.onLine === false
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof window === "undefined" || !("indexedDB" in window)) {
+      resolve(null)
+      return
+    }
+
+    try {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "id" })
+        }
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE_NAME)) {
+          db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: "key" })
+          removeLegacySnapshots()
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn("Could not open offline scan queue database, using localStorage:", request.error)
+        resolve(null)
+      }
+    } catch (err) {
+      console.warn("IndexedDB unavailable, using localStorage for the scan queue:", err)
+      resolve(null)
+    }
+  })
+
+  return dbPromise
+}
+
+const removeLegacySnapshots = () => {
+  try {
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(LEGACY_SNAPSHOT_PREFIX))
+      .forEach((key) => localStorage.removeItem(key))
+  } catch {
+    // Storage disabled; nothing to free
+  }
+}
+
+const readLocalQueue = (): QueuedScan[] => {
+  if (typeof window === "undefined") return []
+  try {
+    const item = localStorage.getItem(LOCAL_SCAN_QUEUE_KEY)
+    return item ? JSON.parse(item) : []
+  } catch {
+    return []
+  }
+}
+
+const writeLocalQueue = (entries: QueuedScan[]) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(LOCAL_SCAN_QUEUE_KEY, JSON.stringify(entries))
+}
+
+const runTransaction = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void,
+  storeName = STORE_NAME,
+): Promise<T | undefined> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+// Get every queued entry (pending, failed and conflicts) from every user on
+// this device, oldest first
+export const getQueuedScans = async (): Promise<QueuedScan[]> => {
+  const db = await openDatabase()
+  let entries: QueuedScan[]
+  if (db) {
+    entries = ((await runTransaction<QueuedScan[]>(db, "readonly", (store) => store.getAll())) || []) as QueuedScan[]
+  } else {
+    entries = readLocalQueue()
+  }
+  return entries.sort((a, b) => a.clientTimestamp.localeCompare(b.clientTimestamp))
+}
+
+const getQueuedScan = async (id: string): Promise<QueuedScan | undefined> => {
+  const db = await openDatabase()
+  if (db) return (await runTransaction<QueuedScan | undefined>(db, "readonly", (store) => store.get(id))) || undefined
+  return readLocalQueue().find((e) => e.id === id)
+}
+
+const putQueuedScan = async (entry: QueuedScan): Promise<void> => {
+  const db = await openDatabase()
+  if (db) {
+    await runTransaction(db, "readwrite", (store) => store.put(entry))
+    return
+  }
+  const entries = readLocalQueue().filter((e) => e.id !== entry.id)
+  entries.push(entry)
+  writeLocalQueue(entries)
+}
+
+const deleteQueuedScan = async (id: string): Promise<void> => {
+  const db = await openDatabase()
+  if (db) {
+    await runTransaction(db, "readwrite", (store) => store.delete(id))
+    return
+  }
+  writeLocalQueue(readLocalQueue().filter((e) => e.id !== id))
+}
+
+// The signed-in user's own entries: the ones they can sync, retry or dismiss
+export const getOwnQueuedScans = async (): Promise<QueuedScan[]> => {
+  const userId = getCurrentUser()?.id
+  if (!userId) return []
+  return (await getQueuedScans()).filter((e) => e.userId === userId)
+}
+
+export const getScanQueueStats = async (): Promise<ScanQueueStats> => {
+  const entries = await getOwnQueuedScans()
+  return {
+    pending: entries.filter((e) => e.status === "pending").length,
+    failed: entries.filter((e) => e.status === "failed").length,
+    conflicts: entries.filter((e) => e.status === "conflict").length,
+  }
+}
+
+const notifyListeners = async () => {
+  if (listeners.size === 0) return
+  const stats = await getScanQueueStats()
+  listeners.forEach((listener) => listener(stats))
+}
+
+// Subscribe to queue count changes. Returns an unsubscribe function.
+export const subscribeToScanQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener)
+  getScanQueueStats().then(listener).catch(() => {})
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Add a scan action to the outbox. The entry keeps the client timestamp so the
+// replayed row records when the scan actually happened, not when it synced,
+// and the signed-in user so it replays under their session.
+export const enqueueScan = async (
+  entry: DistributiveOmit<QueuedScan, "status" | "attempts" | "id" | "userId"> & { id?: string },
+): Promise<QueuedScan> => {
+  const userId = getCurrentUser()?.id
+  if (!userId) throw new Error("Sign in to record scans")
+
+  const queued = {
+    ...entry,
+    id: entry.id || crypto.randomUUID(),
+    userId,
+    status: "pending" as QueuedScanStatus,
+    attempts: 0,
+  } as QueuedScan
+  await putQueuedScan(queued)
+  await notifyListeners()
+  return queued
+}
+
+// Put a failed entry back in the pending state so the next replay retries it
+export const retryQueuedScan = async (id: string): Promise<void> => {
+  const entry = await getQueuedScan(id)
+  if (!entry) return
+  await putQueuedScan({ ...entry, status: "pending", attempts: 0, lastError: undefined })
+  await notifyListeners()
+}
+
+// Remove a failed or conflicting entry once the user has acknowledged it
+export const dismissQueuedScan = async (id: string): Promise<void> => {
+  await deleteQueuedScan(id)
+  await notifyListeners()
+}
+
+// Point queued security/catering scans at the attendance record that won a conflict
+const remapAttendanceRecordId = async (fromId: string, toId: string) => {
+  const entries = await getQueuedScans()
+  for (const entry of entries) {
+    if (entry.kind === "attendance") continue
+    if (entry.payload.attendanceRecordId !== fromId) continue
+    await putQueuedScan({ ...entry, payload: { ...entry.payload, attendanceRecordId: toId } } as QueuedScan)
+  }
+}
+
+interface OfflineSnapshot {
+  key: string
+  rows: unknown[]
+  savedAt: string
+}
+
+// Keep a copy of the last successful read under the given key. Failures (no
+// IndexedDB, quota exceeded) are reported to the snapshot failure listeners
+// so the user learns that scanning will not work offline.
+export const saveOfflineSnapshot = async (key: string, rows: unknown[]): Promise<boolean> => {
+  try {
+    const db = await openDatabase()
+    if (!db) throw new Error("IndexedDB is unavailable")
+    const snapshot: OfflineSnapshot = { key, rows, savedAt: new Date().toISOString() }
+    await runTransaction(db, "readwrite", (store) => store.put(snapshot), SNAPSHOT_STORE_NAME)
+    return true
+  } catch (err) {
+    console.warn("Could not save offline snapshot:", { key, err })
+    snapshotFailureListeners.forEach((listener) => listener(err))
+    return false
+  }
+}
+
+// The rows last saved under the key, or none
+export const getOfflineSnapshot = async <T>(key: string): Promise<T[]> => {
+  try {
+    const db = await openDatabase()
+    if (!db) return []
+    const snapshot = await runTransaction<OfflineSnapshot | undefined>(
+      db,
+      "readonly",
+      (store) => store.get(key),
+      SNAPSHOT_STORE_NAME,
+    )
+    return (snapshot?.rows as T[]) || []
+  } catch (err) {
+    console.warn("Could not read offline snapshot:", { key, err })
+    return []
+  }
+}
+
+// Subscribe to failed snapshot saves. Returns an unsubscribe function.
+export const subscribeToSnapshotFailures = (listener: SnapshotFailureListener): (() => void) => {
+  snapshotFailureListeners.add(listener)
+  return () => {
+    snapshotFailureListeners.delete(listener)
+  }
+}
+
+type ReplayOutcome =
+  | { type: "synced" }
+  | { type: "conflict"; resolution: string }
+  | { type: "offline" }
+  | { type: "unauthorized" }
+  | { type: "error"; message: string }
+
+const UNIQUE_VIOLATION = "23505"
+const INSUFFICIENT_PRIVILEGE = "42501" // Includes row-level security denials
+const JWT_ERROR_PREFIX = "PGRST30" // PostgREST: missing, expired or invalid JWT
+
+// Errors that say nothing about the scan itself: no database session (signed
+// out, token expired or rejected). Like going offline, replay waits for these
+// to clear instead of counting them against the entry.
+const isAuthError = (error: unknown): boolean => {
+  if (!error || typeof error !== "object" || !("code" in error)) return false
+  const code = String(error.code)
+  return code === INSUFFICIENT_PRIVILEGE || code.startsWith(JWT_ERROR_PREFIX)
+}
+
+const toErrorOutcome = (error: { message: string }): ReplayOutcome => {
+  if (isNetworkError(error)) return { type: "offline" }
+  if (isAuthError(error)) return { type: "unauthorized" }
+  return { type: "error", message: error.message }
+}
+
+const replayAttendance = async (entry: Extract<QueuedScan, { kind: "attendance" }>): Promise<ReplayOutcome> => {
+  const { error } = await supabase.from(ATTENDANCE_TABLE).insert({
+    id: entry.payload.recordId,
+    event_id: entry.eventId,
+    member_id: entry.payload.memberId,
+    recorded_at: entry.clientTimestamp,
+  })
+
+  if (!error) return { type: "synced" }
+
+  if (error.code === UNIQUE_VIOLATION) {
+    // Same id already synced (a previous replay succeeded but we went offline
+    // before deleting the entry) or another device recorded this member first.
+    const { data: existing, error: lookupError } = await supabase
+      .from(ATTENDANCE_TABLE)
+      .select("id, recorded_at")
+      .eq("event_id", entry.eventId)
+      .eq("member_id", entry.payload.memberId)
+      .maybeSingle()
+
+    if (lookupError) return toErrorOutcome(lookupError)
+    if (!existing || existing.id === entry.payload.recordId) return { type: "synced" }
+
+    // The server record wins; move dependent scans onto it
+    await remapAttendanceRecordId(entry.payload.recordId, existing.id)
+    return {
+      type: "conflict",
+      resolution: `Already marked present at ${new Date(existing.recorded_at).toLocaleString()} on another device. Kept the existing record.`,
+    }
+  }
+
+  return toErrorOutcome(error)
+}
+
+const replaySecurity = async (entry: Extract<QueuedScan, { kind: "security" }>): Promise<ReplayOutcome> => {
+  const { error } = await supabase.from(SECURITY_TABLE).insert({
+    id: entry.payload.movementId,
+    event_id: entry.eventId,
+    attendance_record_id: entry.payload.attendanceRecordId,
+    status: entry.payload.status,
+    timestamp: entry.clientTimestamp,
+    gate: entry.payload.gate || null,
+  })
+
+  if (!error) return { type: "synced" }
+  // Replaying a movement that was already inserted is harmless
+  if (error.code === UNIQUE_VIOLATION) return { type: "synced" }
+  return toErrorOutcome(error)
+}
+
+const replayCatering = async (entry: Extract<QueuedScan, { kind: "catering" }>): Promise<ReplayOutcome> => {
+  const { error } = await supabase.from(CATERED_TABLE).insert({
+    id: entry.payload.recordId,
+    event_id: entry.eventId,
+    attendance_record_id: entry.payload.attendanceRecordId,
+    day: entry.payload.day,
+    meal_type: entry.payload.mealType,
+    served_at: entry.clientTimestamp,
+  })
+
+  if (!error) return { type: "synced" }
+
+  if (error.code === UNIQUE_VIOLATION) {
+    // UNIQUE(event_id, attendance_record_id, day, meal_type): one serving per
+    // meal. The server record wins, as with attendance: scanners may not
+    // rewrite a recorded serving.
+    const { data: existing, error: lookupError } = await supabase
+      .from(CATERED_TABLE)
+      .select("id, served_at")
+      .eq("event_id", entry.eventId)
+      .eq("attendance_record_id", entry.payload.attendanceRecordId)
+      .eq("day", entry.payload.day)
+      .eq("meal_type", entry.payload.mealType)
+      .maybeSingle()
+
+    if (lookupError) return toErrorOutcome(lookupError)
+    if (!existing || existing.id === entry.payload.recordId) return { type: "synced" }
+
+    const servedAt = new Date(existing.served_at).toLocaleString()
+    return {
+      type: "conflict",
+      resolution: `Already served ${formatCateringSession(entry.payload)} at ${servedAt} on another device. Kept the existing serving.`,
+    }
+  }
+
+  return toErrorOutcome(error)
+}
+
+const replayEntry = async (entry: QueuedScan): Promise<ReplayOutcome> => {
+  try {
+    switch (entry.kind) {
+      case "attendance":
+        return await replayAttendance(entry)
+      case "security":
+        return await replaySecurity(entry)
+      case "catering":
+        return await replayCatering(entry)
+    }
+  } catch (err) {
+    if (isNetworkError(err)) return { type: "offline" }
+    if (isAuthError(err)) return { type: "unauthorized" }
+    return { type: "error", message: err instanceof Error ? err.message : String(err) }
+  }
+}
+
+export interface ScanQueueReplayResult {
+  synced: number
+  conflicts: QueuedScan[]
+  failed: QueuedScan[]
+}
+
+// The attendance record a queued scan belongs to
+const getScanRecordId = (entry: QueuedScan): string =>
+  entry.kind === "attendance" ? entry.payload.recordId : entry.payload.attendanceRecordId
+
+// Replay the signed-in user's pending entries to Supabase in the order they
+// were scanned. Stops at the first connectivity failure or error so later
+// scans are never applied before earlier ones. Without a session (signed out,
+// on the login page, token rejected) nothing is replayed and no attempt is
+// counted. Once an entry has failed for good, later scans for the same
+// attendance record are held back until it is retried or dismissed; scans
+// for other members carry on.
+export const replayScanQueue = async (): Promise<ScanQueueReplayResult> => {
+  const result: ScanQueueReplayResult = { synced: 0, conflicts: [], failed: [] }
+  if (!isSupabaseConfigured || replaying || isOffline()) return result
+  const userId = getCurrentUser()?.id
+  if (!userId) return result
+
+  replaying = true
+  try {
+    const queued = await getOwnQueuedScans()
+    const pending = queued.filter((e) => e.status === "pending")
+    const heldRecordIds = new Set(queued.filter((e) => e.status === "failed").map(getScanRecordId))
+
+    for (const { id } of pending) {
+      // Re-read the entry: a previous attendance conflict may have remapped it
+      const entry = await getQueuedScan(id)
+      if (!entry || entry.status !== "pending" || entry.userId !== userId) continue
+      if (heldRecordIds.has(getScanRecordId(entry))) continue
+
+      const outcome = await replayEntry(entry)
+
+      if (outcome.type === "offline" || outcome.type === "unauthorized") break
+
+      if (outcome.type === "synced") {
+        await deleteQueuedScan(entry.id)
+        result.synced++
+      } else if (outcome.type === "conflict") {
+        const conflict = { ...entry, status: "conflict" as QueuedScanStatus, resolution: outcome.resolution }
+        await putQueuedScan(conflict)
+        result.conflicts.push(conflict)
+      } else {
+        const attempts = entry.attempts + 1
+        const updated = {
+          ...entry,
+          attempts,
+          lastError: outcome.message,
+          status: (attempts >= MAX_ATTEMPTS ? "failed" : "pending") as QueuedScanStatus,
+        }
+        await putQueuedScan(updated)
+        if (updated.status === "failed") result.failed.push(updated)
+        console.error("Failed to replay queued scan:", { id: entry.id, kind: entry.kind, error: outcome.message, attempts })
+        break
+      }
+    }
+  } catch (err) {
+    console.error("Unexpected error replaying scan queue:", err)
+  } finally {
+    replaying = false
+    await notifyListeners()
+  }
+
+  return result
+}
+
+// Replay the queue whenever the browser comes back online and on a timer as a
+// safety net (navigator.onLine is not reliable on captive-portal networks).
+// Returns a function that stops the background sync.
+export const startScanQueueSync = (onReplayed?: (result: ScanQueueReplayResult) => void): (() => void) => {
+  if (typeof window === "undefined") return () => {}
+
+  const sync = async () => {
+    const result = await replayScanQueue()
+    if (onReplayed && (result.synced > 0 || result.conflicts.length > 0 || result.failed.length > 0)) {
+      onReplayed(result)
+    }
+  }
+
+  const handleOnline = () => {
+    sync()
+  }
+
+  window.addEventListener("online", handleOnline)
+  const interval = window.setInterval(sync, SYNC_INTERVAL_MS)
+  sync()
+
+  return () => {
+    window.removeEventListener("online", handleOnline)
+    window.clearInterval(interval)
+  }
+}
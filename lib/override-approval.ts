@@ -0,0 +1,29 @@
+import { signToken, verifyToken } from "./session"
+import type { EventDay, MealType } from "./types"
+
+// A supervisor's approval to serve one meal outside its window, issued by
+// app/api/catering/override after checking their password on the server.
+// It is signed like the session cookie and only the scanner it was issued to
+// can use it, for that event's meal, until it expires.
+
+const APPROVAL_PURPOSE = "catering-override"
+export const OVERRIDE_APPROVAL_TTL_SECONDS = 2 * 60 * 60 // Long enough for one late meal
+
+export interface OverrideApproval {
+  approverId: string
+  approverName: string
+  requesterId: string // The scanner's user id
+  eventId: string
+  day: EventDay
+  mealType: MealType
+  exp: number // Absolute expiry (unix seconds)
+}
+
+export const signOverrideApproval = (approval: Omit<OverrideApproval, "exp">): Promise<string> =>
+  signToken<OverrideApproval>(
+    { ...approval, exp: Math.floor(Date.now() / 1000) + OVERRIDE_APPROVAL_TTL_SECONDS },
+    APPROVAL_PURPOSE,
+  )
+
+export const verifyOverrideApproval = (token: string | undefined): Promise<OverrideApproval | null> =>
+  verifyToken<OverrideApproval>(token, APPROVAL_PURPOSE)
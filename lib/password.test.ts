@@ -0,0 +1,33 @@
+import { scryptSync } from "node:crypto"
+import { describe, expect, it } from "vitest"
+import { hashPassword, isPasswordHash, verifyPassword } from "./password"
+
+describe("password hashing", () => {
+  it("verifies the password a hash was made from, and no other", async () => {
+    const stored = await hashPassword("correct horse")
+    expect(isPasswordHash(stored)).toBe(true)
+    expect(await verifyPassword("correct horse", stored)).toEqual({ valid: true, needsRehash: false })
+    expect(await verifyPassword("wrong horse", stored)).toEqual({ valid: false, needsRehash: false })
+  })
+
+  it("salts each hash", async () => {
+    expect(await hashPassword("correct horse")).not.toBe(await hashPassword("correct horse"))
+  })
+
+  it("accepts legacy plain-text passwords once, asking for a hash in their place", async () => {
+    expect(await verifyPassword("secret", "secret")).toEqual({ valid: true, needsRehash: true })
+    expect(await verifyPassword("secret", "Secret")).toEqual({ valid: false, needsRehash: false })
+  })
+
+  it("asks to rehash passwords hashed with weaker parameters", async () => {
+    const [prefix, , r, p, salt] = (await hashPassword("correct horse")).split("$")
+    // The same password under N=1024, built with the salt of a fresh hash
+    const key = scryptSync("correct horse", Buffer.from(salt, "base64"), 64, { N: 1024, r: Number(r), p: Number(p) })
+    const weak = [prefix, 1024, r, p, salt, key.toString("base64")].join("$")
+    expect(await verifyPassword("correct horse", weak)).toEqual({ valid: true, needsRehash: true })
+  })
+
+  it("never accepts a missing password", async () => {
+    expect(await verifyPassword("", undefined)).toEqual({ valid: false, needsRehash: false })
+  })
+})
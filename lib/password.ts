@@ -0,0 +1,53 @@
+import { randomBytes, scrypt, timingSafeEqual, type BinaryLike, type ScryptOptions } from "node:crypto"
+
+// Server-only password hashing for system users (route handlers under app/api).
+// Stored format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+
+const SCRYPT_PREFIX = "scrypt"
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 }
+const KEY_LENGTH = 64
+const SALT_BYTES = 16
+
+const deriveKey = (password: BinaryLike, salt: BinaryLike, options: ScryptOptions): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (err, key) => (err ? reject(err) : resolve(key)))
+  })
+
+export const isPasswordHash = (stored: string): boolean => stored.startsWith(`${SCRYPT_PREFIX}$`)
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_BYTES)
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS)
+  const { N, r, p } = SCRYPT_PARAMS
+  return [SCRYPT_PREFIX, N, r, p, salt.toString("base64"), key.toString("base64")].join("$")
+}
+
+export interface PasswordCheck {
+  valid: boolean
+  // True when the stored value is legacy plain text (or weaker parameters) and
+  // should be replaced with a fresh hash now that the password is known
+  needsRehash: boolean
+}
+
+export const verifyPassword = async (password: string, stored: string | undefined): Promise<PasswordCheck> => {
+  if (!stored) return { valid: false, needsRehash: false }
+
+  if (!isPasswordHash(stored)) {
+    // Rows created before hashing was introduced hold the password verbatim
+    const given = Buffer.from(password)
+    const expected = Buffer.from(stored)
+    const valid = given.length === expected.length && timingSafeEqual(given, expected)
+    return { valid, needsRehash: valid }
+  }
+
+  const [, N, r, p, salt, hash] = stored.split("$")
+  const expected = Buffer.from(hash, "base64")
+  const options = { N: Number(N), r: Number(r), p: Number(p) }
+  const key = await deriveKey(password, Buffer.from(salt, "base64"), options)
+  const valid = key.length === expected.length && timingSafeEqual(key, expected)
+
+  return {
+    valid,
+    needsRehash: valid && (options.N < SCRYPT_PARAMS.N || options.r !== SCRYPT_PARAMS.r || options.p !== SCRYPT_PARAMS.p),
+  }
+}
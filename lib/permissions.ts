@@ -0,0 +1,83 @@
+import type { RoleDefinition, UserRole } from "./types"
+
+// Named permissions that roles are composed from. Pages, the navigation bar
+// and middleware.ts check these instead of role names.
+
+export const PERMISSIONS = [
+  { key: "events.manage", label: "Create, edit and switch events", group: "Administration" },
+  { key: "regions.manage", label: "Manage regions and jamaat", group: "Administration" },
+  { key: "users.manage", label: "Manage users and roles", group: "Administration" },
+  { key: "tajneed.view", label: "View Tajneed", group: "Tajneed" },
+  { key: "tajneed.edit", label: "Add, edit and delete members", group: "Tajneed" },
+  { key: "tajneed.export", label: "Download Tajneed PDF / Excel", group: "Tajneed" },
+  { key: "idcards.print", label: "Generate ID cards", group: "Tajneed" },
+  { key: "idcards.revoke", label: "Revoke and reissue ID cards", group: "Tajneed" },
+  { key: "attendance.view", label: "View attendance", group: "Attendance" },
+  { key: "attendance.add", label: "Mark attendance (scan or add)", group: "Attendance" },
+  { key: "attendance.remove", label: "Remove attendance records", group: "Attendance" },
+  { key: "attendance.export", label: "Download attendance PDF / Excel", group: "Attendance" },
+  { key: "security.view", label: "View security movements", group: "Security" },
+  { key: "security.toggle", label: "Mark members in / out", group: "Security" },
+  { key: "security.reports", label: "View security summary and reports", group: "Security" },
+  { key: "catering.view", label: "View catering records", group: "Catering" },
+  { key: "catering.serve", label: "Serve meals (scan or check)", group: "Catering" },
+  { key: "catering.override", label: "Approve serving outside meal times", group: "Catering" },
+  { key: "catering.undo", label: "Undo a serving", group: "Catering" },
+  { key: "catering.export", label: "Download catering PDF / Excel", group: "Catering" },
+] as const
+
+export type Permission = (typeof PERMISSIONS)[number]["key"]
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSIONS.map((permission) => permission.key)
+
+export const ADMIN_ROLE: UserRole = "Admin"
+
+// Roles that always exist. Admin holds every permission and cannot be edited;
+// the others start with the access they had before roles became editable.
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+  {
+    name: ADMIN_ROLE,
+    description: "Full access to every section",
+    permissions: ALL_PERMISSIONS,
+    builtIn: true,
+  },
+  {
+    name: "Attendance Register",
+    description: "Marks attendance at registration desks",
+    permissions: ["attendance.view", "attendance.add", "attendance.remove", "attendance.export"],
+    builtIn: true,
+  },
+  {
+    name: "Security Check",
+    description: "Tracks movement in and out of the venue",
+    permissions: ["security.view", "security.toggle", "security.reports"],
+    builtIn: true,
+  },
+  {
+    name: "Catering Service",
+    description: "Serves meals and keeps the catering records",
+    permissions: ["catering.view", "catering.serve", "catering.override", "catering.undo", "catering.export"],
+    builtIn: true,
+  },
+]
+
+export const isPermission = (value: string): value is Permission => (ALL_PERMISSIONS as string[]).includes(value)
+
+// Built-in roles overlaid with any saved changes, followed by custom roles
+export const mergeRoles = (stored: RoleDefinition[]): RoleDefinition[] => {
+  const builtIn = BUILT_IN_ROLES.map((role) => {
+    const saved = stored.find((s) => s.name === role.name)
+    if (!saved || role.name === ADMIN_ROLE) return role
+    return { ...role, description: saved.description ?? role.description, permissions: saved.permissions }
+  })
+  const custom = stored
+    .filter((role) => !BUILT_IN_ROLES.some((b) => b.name === role.name))
+    .map((role) => ({ ...role, builtIn: false }))
+  return [...builtIn, ...custom]
+}
+
+export const resolvePermissions = (roleName: UserRole, roles: RoleDefinition[]): Permission[] => {
+  if (roleName === ADMIN_ROLE) return ALL_PERMISSIONS
+  const role = roles.find((r) => r.name === roleName)
+  return role ? role.permissions.filter(isPermission) : []
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import {
+  BUILT_IN_PRINT_PROFILES,
+  getActivePrintProfile,
+  getCardPosition,
+  getCardsPerPage,
+  getLabelCommands,
+  getPrintProfiles,
+  validatePrintProfile,
+} from "./print-profiles"
+import type { EventSettings, PrintProfile } from "./types"
+
+const builtIn = (id: string): PrintProfile => BUILT_IN_PRINT_PROFILES.find((p) => p.id === id)!
+
+const EVENT = {
+  id: "event-1",
+  eventName: "Jalsa Salana Kenya",
+  startingDate: "2025-08-22",
+  duration: 3,
+  location: "Nairobi",
+  theme: "",
+  createdAt: "2025-01-01T00:00:00Z",
+} as EventSettings
+
+const CARD = {
+  name: "Amina Hassan",
+  tanzeem: "Lajna",
+  region: "Nairobi",
+  jamaat: "Central",
+  memberCode: "LJ-0007",
+  qrPayload: "JS2.event-1.member-1.1.c2ln",
+}
+
+describe("print profiles", () => {
+  it("keeps the event's edits to built-in profiles and adds its own", () => {
+    const own = { ...builtIn("a4-2x2"), id: "own", name: "Own" }
+    const printProfiles = [{ ...builtIn("cr80"), offsetX: 1.5 }, own]
+    const settings = { ...EVENT, printProfiles, activePrintProfileId: "own" }
+    const profiles = getPrintProfiles(settings)
+    expect(profiles).toHaveLength(BUILT_IN_PRINT_PROFILES.length + 1)
+    expect(profiles.find((p) => p.id === "cr80")?.offsetX).toBe(1.5)
+    expect(getActivePrintProfile(settings).id).toBe("own")
+    expect(getActivePrintProfile(EVENT).id).toBe(BUILT_IN_PRINT_PROFILES[0].id)
+  })
+
+  it("places cards row by row with calibration offsets", () => {
+    const p = { ...builtIn("a4-2x2"), offsetX: 1, offsetY: -2 }
+    expect(getCardsPerPage(p)).toBe(4)
+    expect(getCardPosition(p, 0)).toEqual({ x: 21, y: 26.5 })
+    expect(getCardPosition(p, 1)).toEqual({ x: 116, y: 26.5 })
+    expect(getCardPosition(p, 2)).toEqual({ x: 21, y: 156.5 })
+    expect(getCardPosition(p, 4)).toEqual(getCardPosition(p, 0))
+  })
+
+  it("accepts the built-in profiles", () => {
+    BUILT_IN_PRINT_PROFILES.forEach((p) => expect(validatePrintProfile(p)).toBeNull())
+  })
+
+  it("rejects cards that do not fit the paper and offsets beyond 20 mm", () => {
+    expect(validatePrintProfile({ ...builtIn("a4-2x2"), columns: 3 })).toBe("The cards do not fit on A4 paper")
+    expect(validatePrintProfile({ ...builtIn("cr80"), offsetY: 25 })).toBe("Calibration offsets must be within 20 mm")
+    expect(validatePrintProfile({ ...builtIn("zebra-zpl"), dpi: 100 })).toMatch(/between 150 and 600 dpi/)
+  })
+})
+
+describe("getLabelCommands", () => {
+  it("writes one ZPL label per card with escaped text and the QR payload", () => {
+    const zpl = getLabelCommands(builtIn("zebra-zpl"), [CARD, { ...CARD, name: "Ali_Khan" }], "JALSA SALANA")
+    expect(zpl.match(/\^XA/g)).toHaveLength(2)
+    expect(zpl).toContain("^FDAmina Hassan^FS")
+    expect(zpl).toContain("^FDAli_5FKhan^FS")
+    expect(zpl).toContain(`^FDMA,${CARD.qrPayload}^FS`)
+  })
+
+  it("writes EPL labels with quoted text", () => {
+    const epl = getLabelCommands(builtIn("zebra-epl"), [{ ...CARD, name: 'Amina "Mina" Hassan' }], "JALSA SALANA")
+    expect(epl).toContain('"Amina \\"Mina\\" Hassan"')
+    expect(epl).toContain(`"${CARD.qrPayload}"`)
+    expect(epl.trim().endsWith("P1")).toBe(true)
+  })
+})
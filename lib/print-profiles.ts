@@ -0,0 +1,306 @@
+import QRCode from "qrcode"
+import type { CardData } from "./card-templates"
+import type { EventSettings, PrintProfile } from "./types"
+
+// How ID cards are laid out for the printer in use, chosen under Settings →
+// Print Profiles. PDF profiles place cards on A4, Letter or card-sized pages;
+// ZPL and EPL profiles produce command files sent straight to Zebra-style
+// label printers. Each profile keeps its own calibration offsets, so a
+// printer that feeds a little off can be corrected without touching the layout.
+
+export const PAPER_SIZES: Record<Exclude<PrintProfile["paper"], "card">, { label: string; width: number; height: number }> = {
+  a4: { label: "A4", width: 210, height: 297 },
+  letter: { label: "Letter", width: 215.9, height: 279.4 },
+}
+
+const profile = (fields: Partial<PrintProfile> & Pick<PrintProfile, "id" | "name">): PrintProfile => ({
+  kind: "pdf",
+  paper: "a4",
+  cardWidth: 75,
+  cardHeight: 110,
+  columns: 2,
+  rows: 2,
+  marginLeft: 0,
+  marginTop: 0,
+  gapX: 0,
+  gapY: 0,
+  cutMarks: false,
+  offsetX: 0,
+  offsetY: 0,
+  dpi: 203,
+  ...fields,
+})
+
+export const BUILT_IN_PRINT_PROFILES: PrintProfile[] = [
+  profile({
+    id: "a4-2x2",
+    name: "A4, 4 cards with cut marks",
+    marginLeft: 20,
+    marginTop: 28.5,
+    gapX: 20,
+    gapY: 20,
+    cutMarks: true,
+  }),
+  profile({
+    id: "cr80",
+    name: "CR80 PVC card printer",
+    paper: "card",
+    cardWidth: 54,
+    cardHeight: 85.6,
+    columns: 1,
+    rows: 1,
+  }),
+  profile({
+    id: "avery-l7169",
+    name: "Avery L7169 (A4, 4 labels)",
+    cardWidth: 99.1,
+    cardHeight: 139,
+    marginLeft: 4.65,
+    marginTop: 9.5,
+    gapX: 2.5,
+  }),
+  profile({
+    id: "avery-5168",
+    name: "Avery 5168 (Letter, 4 labels)",
+    paper: "letter",
+    cardWidth: 88.9,
+    cardHeight: 127,
+    marginLeft: 12.7,
+    marginTop: 12.7,
+    gapX: 12.7,
+  }),
+  profile({
+    id: "zebra-zpl",
+    name: "Zebra badge printer (ZPL)",
+    kind: "zpl",
+    paper: "card",
+    cardWidth: 54,
+    cardHeight: 86,
+    columns: 1,
+    rows: 1,
+  }),
+  profile({
+    id: "zebra-epl",
+    name: "Zebra badge printer (EPL)",
+    kind: "epl",
+    paper: "card",
+    cardWidth: 54,
+    cardHeight: 86,
+    columns: 1,
+    rows: 1,
+  }),
+]
+
+export const isBuiltInPrintProfile = (id: string) => BUILT_IN_PRINT_PROFILES.some((p) => p.id === id)
+
+// Built-in profiles (with the event's edits) followed by the event's own
+export const getPrintProfiles = (settings?: EventSettings): PrintProfile[] => {
+  const saved = settings?.printProfiles || []
+  const builtIn = BUILT_IN_PRINT_PROFILES.map((p) => ({ ...p, ...saved.find((s) => s.id === p.id) }))
+  return [...builtIn, ...saved.filter((s) => !isBuiltInPrintProfile(s.id))]
+}
+
+export const getActivePrintProfile = (settings?: EventSettings): PrintProfile => {
+  const profiles = getPrintProfiles(settings)
+  return profiles.find((p) => p.id === settings?.activePrintProfileId) || profiles[0]
+}
+
+export const createPrintProfile = (name: string, from: PrintProfile = BUILT_IN_PRINT_PROFILES[0]): PrintProfile => ({
+  ...from,
+  id: crypto.randomUUID(),
+  name,
+})
+
+// Page size in millimetres
+export const getPrintPageSize = (p: PrintProfile): { width: number; height: number } =>
+  p.paper === "card" ? { width: p.cardWidth, height: p.cardHeight } : PAPER_SIZES[p.paper]
+
+export const getCardsPerPage = (p: PrintProfile) => (p.paper === "card" ? 1 : p.columns * p.rows)
+
+// Top left corner of the nth card on its page, calibration included
+export const getCardPosition = (p: PrintProfile, index: number): { x: number; y: number } => {
+  if (p.paper === "card") return { x: p.offsetX, y: p.offsetY }
+  const slot = index % getCardsPerPage(p)
+  const column = slot % p.columns
+  const row = Math.floor(slot / p.columns)
+  return {
+    x: p.marginLeft + column * (p.cardWidth + p.gapX) + p.offsetX,
+    y: p.marginTop + row * (p.cardHeight + p.gapY) + p.offsetY,
+  }
+}
+
+export const getPrintFileExtension = (p: PrintProfile) => (p.kind === "pdf" ? "pdf" : p.kind)
+
+// First problem with the profile, or null when it can be saved
+export const validatePrintProfile = (p: PrintProfile): string | null => {
+  if (!p.name.trim()) return "Every profile needs a name"
+  const numbers = [p.cardWidth, p.cardHeight, p.columns, p.rows, p.marginLeft, p.marginTop, p.gapX, p.gapY, p.offsetX, p.offsetY, p.dpi]
+  if (numbers.some((value) => !Number.isFinite(value))) return "Every size, margin and offset needs a value"
+  if (p.cardWidth <= 0 || p.cardHeight <= 0) return "The card size must be larger than zero"
+  if (Math.abs(p.offsetX) > 20 || Math.abs(p.offsetY) > 20) return "Calibration offsets must be within 20 mm"
+  if (p.kind !== "pdf") {
+    if (p.dpi < 150 || p.dpi > 600) return "The printer resolution must be between 150 and 600 dpi"
+    return null
+  }
+  if (p.paper === "card") return null
+  if (!Number.isInteger(p.columns) || !Number.isInteger(p.rows) || p.columns < 1 || p.rows < 1) {
+    return "Columns and rows must be whole numbers of at least 1"
+  }
+  if (p.marginLeft < 0 || p.marginTop < 0 || p.gapX < 0 || p.gapY < 0) return "Margins and gaps cannot be negative"
+  const page = getPrintPageSize(p)
+  const width = p.marginLeft + p.columns * p.cardWidth + (p.columns - 1) * p.gapX
+  const height = p.marginTop + p.rows * p.cardHeight + (p.rows - 1) * p.gapY
+  if (width > page.width + 0.01 || height > page.height + 0.01) {
+    return `The cards do not fit on ${PAPER_SIZES[p.paper].label} paper`
+  }
+  return null
+}
+
+// What a label printer prints for a card: its details and the signed QR text
+export interface LabelCard extends Omit<CardData, "photo" | "qrCode"> {
+  qrPayload: string
+}
+
+const mmToDots = (mm: number, dpi: number) => Math.round((mm * dpi) / 25.4)
+
+// Largest QR module size (in dots) that keeps the code, with its quiet zone,
+// within `space` dots, and the size of the code it draws
+const fitQRCode = (payload: string, space: number) => {
+  const modules = QRCode.create(payload || " ", { errorCorrectionLevel: "M" }).modules.size
+  const magnification = Math.max(1, Math.min(10, Math.floor(space / (modules + 8))))
+  return { magnification, size: modules * magnification }
+}
+
+const BLANK_LINE = "________________"
+
+// Lines printed above the QR code, with their heights in millimetres
+const getLabelLines = (card: LabelCard, title: string): { text: string; height: number }[] => [
+  { text: title, height: 3.5 },
+  { text: card.blank ? `Tanzeem ${BLANK_LINE}` : card.tanzeem, height: 3 },
+  { text: card.blank ? `Name ${BLANK_LINE}` : card.name, height: 4.5 },
+  { text: card.blank ? `Region ${BLANK_LINE}` : [card.region, card.jamaat].filter(Boolean).join(" - "), height: 3 },
+  { text: card.blank ? card.name : card.memberCode || "", height: 3 },
+]
+
+// ^FH lets _XX hex escapes stand in for the characters ZPL reserves
+const zplText = (text: string) =>
+  text.replace(/[_^~]/g, (c) => `_${c.charCodeAt(0).toString(16).toUpperCase()}`)
+
+// EPL quotes field data; quotes and backslashes inside it are escaped
+const eplText = (text: string) => text.replace(/[\\"]/g, (c) => `\\${c}`)
+
+// EPL font number and its character size in dots at 203 dpi, by text height
+const EPL_FONTS = [
+  { font: 1, width: 8, height: 12 },
+  { font: 2, width: 10, height: 16 },
+  { font: 3, width: 12, height: 20 },
+  { font: 4, width: 14, height: 24 },
+]
+
+const getEPLFont = (height: number, dpi: number) => {
+  const scale = dpi / 203
+  const fitting = EPL_FONTS.filter((f) => f.height * scale <= height)
+  const f = fitting[fitting.length - 1] || EPL_FONTS[0]
+  return { font: f.font, width: Math.round(f.width * scale), height: Math.round(f.height * scale) }
+}
+
+const buildZPLLabel = (p: PrintProfile, card: LabelCard, title: string) => {
+  const width = mmToDots(p.cardWidth, p.dpi)
+  const offsetX = mmToDots(p.offsetX, p.dpi)
+  const offsetY = mmToDots(p.offsetY, p.dpi)
+  // ZPL positions cannot be negative, so offsets stop at the label edge
+  const at = (x: number, y: number) => `^FO${Math.max(0, x + offsetX)},${Math.max(0, y + offsetY)}`
+  const commands = ["^XA", "^CI28", `^PW${width}`, `^LL${mmToDots(p.cardHeight, p.dpi)}`]
+
+  let y = mmToDots(3, p.dpi)
+  for (const line of getLabelLines(card, title)) {
+    const height = mmToDots(line.height, p.dpi)
+    if (line.text) commands.push(`${at(0, y)}^A0N,${height},${height}^FB${width},1,0,C,0^FH^FD${zplText(line.text)}^FS`)
+    y += height + mmToDots(1.5, p.dpi)
+  }
+
+  const space = Math.min(width - mmToDots(4, p.dpi), mmToDots(p.cardHeight - 3, p.dpi) - y)
+  const { magnification, size } = fitQRCode(card.qrPayload, space)
+  commands.push(`${at(Math.round((width - size) / 2), y)}^BQN,2,${magnification}^FH^FDMA,${zplText(card.qrPayload)}^FS`)
+  commands.push("^XZ")
+  return commands.join("\n")
+}
+
+const buildEPLLabel = (p: PrintProfile, card: LabelCard, title: string) => {
+  const width = mmToDots(p.cardWidth, p.dpi)
+  const offsetX = mmToDots(p.offsetX, p.dpi)
+  const offsetY = mmToDots(p.offsetY, p.dpi)
+  const at = (x: number, y: number) => `${Math.max(0, x + offsetX)},${Math.max(0, y + offsetY)}`
+  const commands = ["", "N", `q${width}`, `Q${mmToDots(p.cardHeight, p.dpi)},${mmToDots(3, p.dpi)}`]
+
+  let y = mmToDots(3, p.dpi)
+  for (const line of getLabelLines(card, title)) {
+    const font = getEPLFont(mmToDots(line.height, p.dpi), p.dpi)
+    // EPL cannot centre text, so lines are cut to the label and centred by character count
+    const text = line.text.slice(0, Math.floor(width / font.width))
+    if (text) {
+      const x = Math.round((width - text.length * font.width) / 2)
+      commands.push(`A${at(x, y)},0,${font.font},1,1,N,"${eplText(text)}"`)
+    }
+    y += font.height + mmToDots(1.5, p.dpi)
+  }
+
+  const space = Math.min(width - mmToDots(4, p.dpi), mmToDots(p.cardHeight - 3, p.dpi) - y)
+  const { magnification, size } = fitQRCode(card.qrPayload, space)
+  commands.push(`b${at(Math.round((width - size) / 2), y)},Q,m2,s${magnification},eM,iA,"${eplText(card.qrPayload)}"`)
+  commands.push("P1")
+  return commands.join("\n")
+}
+
+// Commands for a ZPL or EPL profile printing one label per card
+export const getLabelCommands = (p: PrintProfile, cards: LabelCard[], title: string): string => {
+  const build = p.kind === "epl" ? buildEPLLabel : buildZPLLabel
+  return cards.map((card) => build(p, card, title)).join("\n") + "\n"
+}
+
+// A label outlining the printable area with a cross at its centre, to measure
+// how far the printer feeds off before setting the calibration offsets
+export const getCalibrationLabelCommands = (p: PrintProfile): string => {
+  const width = mmToDots(p.cardWidth, p.dpi)
+  const height = mmToDots(p.cardHeight, p.dpi)
+  const inset = mmToDots(2, p.dpi)
+  const cross = mmToDots(10, p.dpi)
+  const half = Math.round(cross / 2)
+  const line = Math.max(2, mmToDots(0.3, p.dpi))
+  const offsetX = mmToDots(p.offsetX, p.dpi)
+  const offsetY = mmToDots(p.offsetY, p.dpi)
+  const centreX = Math.round(width / 2)
+  const centreY = Math.round(height / 2)
+  const note = `Offset ${p.offsetX} / ${p.offsetY} mm`
+
+  if (p.kind === "epl") {
+    const at = (x: number, y: number) => `${Math.max(0, x + offsetX)},${Math.max(0, y + offsetY)}`
+    const font = getEPLFont(mmToDots(3, p.dpi), p.dpi)
+    return [
+      "",
+      "N",
+      `q${width}`,
+      `Q${height},${mmToDots(3, p.dpi)}`,
+      `X${at(inset, inset)},${line},${width - inset},${height - inset}`,
+      `LO${at(centreX - half, centreY)},${cross},${line}`,
+      `LO${at(centreX, centreY - half)},${line},${cross}`,
+      `A${at(Math.round((width - note.length * font.width) / 2), centreY + cross)},0,${font.font},1,1,N,"${note}"`,
+      "P1",
+      "",
+    ].join("\n")
+  }
+
+  const at = (x: number, y: number) => `^FO${Math.max(0, x + offsetX)},${Math.max(0, y + offsetY)}`
+  const textHeight = mmToDots(3, p.dpi)
+  return [
+    "^XA",
+    `^PW${width}`,
+    `^LL${height}`,
+    `${at(inset, inset)}^GB${width - inset * 2},${height - inset * 2},${line}^FS`,
+    `${at(centreX - half, centreY)}^GB${cross},${line},${line}^FS`,
+    `${at(centreX, centreY - half)}^GB${line},${cross},${line}^FS`,
+    `${at(0, centreY + cross)}^A0N,${textHeight},${textHeight}^FB${width},1,0,C,0^FD${note}^FS`,
+    "^XZ",
+    "",
+  ].join("\n")
+}
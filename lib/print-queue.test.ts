@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { getCardFingerprint, getPrintQueue } from "./print-queue"
+import type { CardPrint, IDCard, TajneedMember } from "./types"
+
+const member = (id: string, fields: Partial<TajneedMember> = {}): TajneedMember => ({
+  id,
+  eventId: "event-1",
+  fullName: `Member ${id}`,
+  tanzeem: "Khuddam",
+  region: "Nairobi",
+  jamaat: "Central",
+  memberCode: "KH-0001",
+  createdAt: "2025-01-01T00:00:00Z",
+  ...fields,
+})
+
+const card = (
+  id: string,
+  memberId: string,
+  status: IDCard["status"] = "active",
+  issuedAt = "2025-08-01T00:00:00Z",
+): IDCard => ({
+  id,
+  memberId,
+  eventId: "event-1",
+  status,
+  issuedAt,
+  reissueCount: 0,
+})
+
+const printed = (subject: TajneedMember, cardId: string, printedAt = "2025-08-02T00:00:00Z"): CardPrint => ({
+  id: `${cardId}-${printedAt}`,
+  eventId: "event-1",
+  memberId: subject.id,
+  cardId,
+  printedAt,
+  fingerprint: getCardFingerprint(subject),
+})
+
+describe("getPrintQueue", () => {
+  it("queues members whose card was never printed", () => {
+    const queue = getPrintQueue([member("a")], [card("a", "a")], [])
+    expect(queue.map((entry) => [entry.member.id, entry.reason])).toEqual([["a", "never"]])
+  })
+
+  it("leaves out members whose latest card is printed as it is", () => {
+    const a = member("a")
+    expect(getPrintQueue([a], [card("a", "a")], [printed(a, "a")])).toEqual([])
+  })
+
+  it("queues members whose card was reissued after printing", () => {
+    const a = member("a")
+    const cards = [card("a", "a", "revoked"), card("a-2", "a", "active", "2025-08-03T00:00:00Z")]
+    const [entry] = getPrintQueue([a], cards, [printed(a, "a")])
+    expect(entry.reason).toBe("reissued")
+  })
+
+  it("queues members whose printed details changed, going by their latest print", () => {
+    const before = member("a")
+    const after = member("a", { jamaat: "Eastleigh" })
+    const prints = [printed(before, "a", "2025-08-02T00:00:00Z")]
+    expect(getPrintQueue([after], [card("a", "a")], prints)[0].reason).toBe("changed")
+    prints.push(printed(after, "a", "2025-08-03T00:00:00Z"))
+    expect(getPrintQueue([after], [card("a", "a")], prints)).toEqual([])
+  })
+})
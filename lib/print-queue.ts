@@ -0,0 +1,67 @@
+import type { PrintProgress } from "./id-card-pdf"
+import type { CardPrint, IDCard, TajneedMember } from "./types"
+
+// Members still needing an ID card: never printed, printed before their card
+// was reissued, or printed with details that have since changed. Every member
+// card printed is logged (see recordCardPrints) with a fingerprint of what it
+// showed, so an edit to a printed detail puts the member back in the queue.
+
+export type PrintQueueReason = "never" | "reissued" | "changed"
+
+export const PRINT_QUEUE_REASONS: Record<PrintQueueReason, string> = {
+  never: "Never printed",
+  reissued: "Card reissued",
+  changed: "Details changed",
+}
+
+export interface PrintQueueEntry {
+  member: TajneedMember
+  reason: PrintQueueReason
+  lastPrint?: CardPrint
+}
+
+// The details printed on a member's card
+export const getCardFingerprint = (member: TajneedMember): string =>
+  [member.fullName, member.tanzeem, member.region, member.jamaat, member.memberCode || "", member.photoUrl || ""].join("|")
+
+// Each member's prints, latest first
+export const getPrintsByMember = (prints: CardPrint[]): Map<string, CardPrint[]> => {
+  const byMember = new Map<string, CardPrint[]>()
+  for (const print of [...prints].sort((a, b) => b.printedAt.localeCompare(a.printedAt))) {
+    const memberPrints = byMember.get(print.memberId)
+    if (memberPrints) memberPrints.push(print)
+    else byMember.set(print.memberId, [print])
+  }
+  return byMember
+}
+
+// Why the member needs a card, or null when their latest card is printed as is
+export const getPrintQueueReason = (
+  member: TajneedMember,
+  activeCard: IDCard | undefined,
+  lastPrint: CardPrint | undefined,
+): PrintQueueReason | null => {
+  if (!lastPrint) return "never"
+  if (activeCard && activeCard.id !== lastPrint.cardId) return "reissued"
+  if (lastPrint.fingerprint !== getCardFingerprint(member)) return "changed"
+  return null
+}
+
+export const getPrintQueue = (members: TajneedMember[], cards: IDCard[], prints: CardPrint[]): PrintQueueEntry[] => {
+  const activeCards = new Map<string, IDCard>()
+  cards
+    .filter((card) => card.status === "active")
+    .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt))
+    .forEach((card) => activeCards.set(card.memberId, card)) // Latest card wins
+  const printsByMember = getPrintsByMember(prints)
+
+  return members.flatMap((member) => {
+    const lastPrint = printsByMember.get(member.id)?.[0]
+    const reason = getPrintQueueReason(member, activeCards.get(member.id), lastPrint)
+    return reason ? [{ member, reason, lastPrint }] : []
+  })
+}
+
+// "Preparing cards 120 / 500", shown while a batch prints
+export const formatPrintProgress = (progress: PrintProgress): string =>
+  `${progress.stage === "preparing" ? "Preparing cards" : "Rendering pages"} ${progress.done} / ${progress.total}`
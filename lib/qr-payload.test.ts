@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { getLegacyQrUntil, parseQRPayload, readLegacyCardId, verifyQRPayload } from "./qr-payload"
+import { getEventPublicKey, signQRPayloads } from "./qr-signing"
+
+// Cards are signed with the event's private key on the server and checked on
+// scanners with nothing but the public key.
+
+const signCard = async (eventId: string, cardId: string, keyVersion = 1) => {
+  const [text] = await signQRPayloads(eventId, [cardId], keyVersion)
+  return parseQRPayload(text)!
+}
+
+describe("signed QR payloads", () => {
+  it("verifies a card against its event's public key", async () => {
+    const payload = await signCard("event-1", "member-1")
+    expect(payload).toMatchObject({ eventId: "event-1", cardId: "member-1", keyVersion: 1 })
+    expect(await verifyQRPayload(payload, getEventPublicKey("event-1", 1))).toBe(true)
+  })
+
+  it("rejects a card whose text was changed after signing", async () => {
+    const payload = await signCard("event-1", "member-1")
+    expect(await verifyQRPayload({ ...payload, cardId: "member-2" }, getEventPublicKey("event-1", 1))).toBe(false)
+  })
+
+  it("rejects a card signed for another event or key version", async () => {
+    const payload = await signCard("event-1", "member-1")
+    expect(await verifyQRPayload(payload, getEventPublicKey("event-2", 1))).toBe(false)
+    expect(await verifyQRPayload(payload, getEventPublicKey("event-1", 2))).toBe(false)
+  })
+
+  it("rejects keys and signatures that are not P-256", async () => {
+    const payload = await signCard("event-1", "member-1")
+    expect(await verifyQRPayload(payload, "not-a-key")).toBe(false)
+    expect(await verifyQRPayload({ ...payload, signature: "AAAA" }, getEventPublicKey("event-1", 1))).toBe(false)
+  })
+})
+
+describe("parseQRPayload", () => {
+  it("needs the prefix, five parts and a positive key version", () => {
+    expect(parseQRPayload("JS2.event.card.1.sig")).toEqual({
+      eventId: "event",
+      cardId: "card",
+      keyVersion: 1,
+      signature: "sig",
+    })
+    expect(parseQRPayload("JS1.event.card.1.sig")).toBeNull()
+    expect(parseQRPayload("JS2.event.card.sig")).toBeNull()
+    expect(parseQRPayload("JS2.event.card.0.sig")).toBeNull()
+    expect(parseQRPayload("JS2.event.card.1.5.sig")).toBeNull()
+  })
+})
+
+describe("readLegacyCardId", () => {
+  it("reads bare ids, attendance JSON and retired HMAC cards as unsigned cards", () => {
+    expect(readLegacyCardId(" member-1 ")).toBe("member-1")
+    expect(readLegacyCardId('{"memberId":"member-1"}')).toBe("member-1")
+    expect(readLegacyCardId("JS1.event.member-1.1.sig")).toBe("member-1")
+    expect(readLegacyCardId("{not json")).toBeNull()
+    expect(readLegacyCardId("")).toBeNull()
+  })
+})
+
+describe("getLegacyQrUntil", () => {
+  it("prefers the event's own date, else a grace period after it was created", () => {
+    expect(getLegacyQrUntil({ legacyQrUntil: "2025-09-01", createdAt: "2025-01-01T00:00:00Z" })).toBe("2025-09-01")
+    expect(getLegacyQrUntil({ createdAt: "2025-01-01T00:00:00Z" })).toBe("2025-01-31")
+  })
+})
@@ -0,0 +1,106 @@
+import { fromBase64Url } from "./session"
+import type { EventSettings, ScannedCardRejection } from "./types"
+
+// Signed QR payloads printed on ID cards, so a look-alike card with a guessed
+// or photographed member id no longer scans.
+// Format: JS2.<event id>.<card id>.<key version>.<base64url ECDSA P-256 signature>
+// The card id is a member id or a SURPLUS-... id. Each event and key version
+// has its own key pair (see lib/qr-signing.ts): only the route handlers under
+// app/api/qr hold private keys and sign, while scanners get the public key to
+// check cards offline. Parsing and verifying are safe anywhere.
+
+export const QR_PAYLOAD_PREFIX = "JS2"
+// Cards signed with a shared HMAC key, which scanners were also given, so they
+// prove no more than an unsigned card and are read as one
+const HMAC_PAYLOAD_PREFIX = "JS1"
+const ECDSA_P256 = { name: "ECDSA", namedCurve: "P-256" } as const
+
+export interface QRPayload {
+  eventId: string
+  cardId: string
+  keyVersion: number
+  signature: string
+}
+
+// An event's current key and legacy window as /api/qr/key hands them to a
+// scanner, which keeps them to check cards while offline
+export interface ScannerQRKey {
+  eventId: string
+  keyVersion: number
+  publicKey: string // base64url raw P-256 public key; it can check cards but not sign them
+  legacyQrUntil: string // YYYY-MM-DD
+}
+
+// Cards printed before signing stay accepted this long after the event was
+// created, unless the event sets its own legacyQrUntil
+export const LEGACY_QR_GRACE_DAYS = 30
+
+export const getLegacyQrUntil = (event: Pick<EventSettings, "legacyQrUntil" | "createdAt">): string => {
+  if (event.legacyQrUntil) return event.legacyQrUntil
+  const created = new Date(event.createdAt)
+  created.setUTCDate(created.getUTCDate() + LEGACY_QR_GRACE_DAYS)
+  return created.toISOString().split("T")[0]
+}
+
+// Toast titles for the scanner pages when verifyScannedCard rejects a card
+export const CARD_REJECTION_TITLES: Record<ScannedCardRejection, string> = {
+  forged: "Forged card",
+  "foreign-event": "Card from another event",
+  "retired-key": "Card no longer valid",
+  "legacy-expired": "Card needs reprinting",
+  revoked: "Card revoked",
+  voided: "Card voided",
+  unverifiable: "Could not verify card",
+  "unknown-code": "Member code not found",
+}
+
+export const isSignedQRText = (text: string): boolean => text.trim().startsWith(`${QR_PAYLOAD_PREFIX}.`)
+
+// Card ids end up between dots in the payload
+export const isValidCardId = (cardId: string): boolean => cardId.length > 0 && !cardId.includes(".")
+
+export const parseQRPayload = (text: string): QRPayload | null => {
+  const parts = text.trim().split(".")
+  if (parts.length !== 5 || parts[0] !== QR_PAYLOAD_PREFIX) return null
+
+  const [, eventId, cardId, version, signature] = parts
+  const keyVersion = Number(version)
+  if (!eventId || !cardId || !signature || !Number.isInteger(keyVersion) || keyVersion < 1) return null
+  return { eventId, cardId, keyVersion, signature }
+}
+
+// Cards printed before signing carry a bare member id, a SURPLUS-... id, or
+// (attendance cards) a JSON object with the member id. Cards signed with the
+// retired HMAC keys count as unsigned too.
+export const readLegacyCardId = (text: string): string | null => {
+  const value = text.trim()
+  if (!value) return null
+  if (value.startsWith(`${HMAC_PAYLOAD_PREFIX}.`)) return value.split(".")[2] || null
+  if (!value.startsWith("{")) return value
+
+  try {
+    const data = JSON.parse(value)
+    return typeof data?.memberId === "string" ? data.memberId : null
+  } catch {
+    return null
+  }
+}
+
+// The text a card's signature covers
+export const getSignedText = (eventId: string, cardId: string, keyVersion: number): string =>
+  `${QR_PAYLOAD_PREFIX}.${eventId}.${cardId}.${keyVersion}`
+
+// Checks a card against its event's public key (ScannerQRKey.publicKey)
+export const verifyQRPayload = async (payload: QRPayload, publicKey: string): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey("raw", fromBase64Url(publicKey), ECDSA_P256, false, ["verify"])
+    return await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      fromBase64Url(payload.signature),
+      new TextEncoder().encode(getSignedText(payload.eventId, payload.cardId, payload.keyVersion)),
+    )
+  } catch {
+    return false // Not base64url, or not a P-256 key or signature
+  }
+}
@@ -0,0 +1,71 @@
+import { createECDH, createHmac } from "node:crypto"
+import { getSignedText } from "./qr-payload"
+import { toBase64Url } from "./session"
+
+// Server-only: the private keys ID cards are signed with. Each event and key
+// version gets its own P-256 key pair, derived from QR_SIGNING_SECRET so no
+// key material is stored, and raising an event's version retires its printed
+// cards without touching other events. Scanners only ever see public keys
+// (see /api/qr/key), which cannot sign.
+
+const DEVELOPMENT_SECRET = "development-only-qr-signing-secret"
+// Order of the P-256 group; a private key must be below it
+const P256_ORDER = Buffer.from("ffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551", "hex")
+const ECDSA_P256 = { name: "ECDSA", namedCurve: "P-256" } as const
+
+const getSecret = (): string => {
+  const secret = process.env.QR_SIGNING_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("QR_SIGNING_SECRET must be set in production")
+  }
+  return DEVELOPMENT_SECRET
+}
+
+interface EventKeyPair {
+  privateKey: Buffer // 32-byte scalar
+  publicKey: Buffer // Uncompressed point: 0x04 || x || y
+}
+
+const deriveKeyPair = (eventId: string, keyVersion: number): EventKeyPair => {
+  // An HMAC output is a valid scalar all but once in about 2^32 tries
+  for (let attempt = 0; ; attempt++) {
+    const privateKey = createHmac("sha256", getSecret()).update(`qr:${eventId}:v${keyVersion}:${attempt}`).digest()
+    if (privateKey.every((byte) => byte === 0) || Buffer.compare(privateKey, P256_ORDER) >= 0) continue
+
+    const ecdh = createECDH("prime256v1")
+    ecdh.setPrivateKey(privateKey)
+    return { privateKey, publicKey: ecdh.getPublicKey() }
+  }
+}
+
+// The event's public key for this version, as scanners keep it (base64url)
+export const getEventPublicKey = (eventId: string, keyVersion: number): string =>
+  toBase64Url(deriveKeyPair(eventId, keyVersion).publicKey)
+
+// Signs every card in one go with the event's private key for this version
+export const signQRPayloads = async (eventId: string, cardIds: string[], keyVersion: number): Promise<string[]> => {
+  const { privateKey, publicKey } = deriveKeyPair(eventId, keyVersion)
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    {
+      kty: "EC",
+      crv: "P-256",
+      d: toBase64Url(privateKey),
+      x: toBase64Url(publicKey.subarray(1, 33)),
+      y: toBase64Url(publicKey.subarray(33)),
+    },
+    ECDSA_P256,
+    false,
+    ["sign"],
+  )
+
+  const encoder = new TextEncoder()
+  return Promise.all(
+    cardIds.map(async (cardId) => {
+      const text = getSignedText(eventId, cardId, keyVersion)
+      const signature = await crypto.subtle.sign({ name: "ECDSA", hash: "SHA-256" }, key, encoder.encode(text))
+      return `${text}.${toBase64Url(new Uint8Array(signature))}`
+    }),
+  )
+}
@@ -0,0 +1,56 @@
+import type { Permission } from "./permissions"
+
+// Which permission opens each section. Drives both the navigation bar and the
+// route protection in middleware.ts, so the two cannot drift apart.
+
+export interface NavLink {
+  href: string
+  label: string
+  permission: Permission | null // null: any signed-in user
+}
+
+export const NAV_LINKS: NavLink[] = [
+  { href: "/", label: "Dashboard", permission: null },
+  { href: "/settings", label: "Jalsa Settings", permission: "events.manage" },
+  { href: "/regions", label: "Region & Jamaat", permission: "regions.manage" },
+  { href: "/users", label: "Users", permission: "users.manage" },
+  { href: "/tajneed", label: "Tajneed", permission: "tajneed.view" },
+  { href: "/attendance", label: "Attendance", permission: "attendance.view" },
+  { href: "/security", label: "Security", permission: "security.view" },
+  { href: "/catering", label: "Catering", permission: "catering.view" },
+]
+
+// Pages and route handlers below a section that need more than viewing it
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: "/api/users", permission: "users.manage" },
+  { prefix: "/api/roles", permission: "users.manage" },
+  { prefix: "/api/qr/sign", permission: "idcards.print" },
+  { prefix: "/tajneed/register", permission: "tajneed.edit" },
+  { prefix: "/tajneed/cards", permission: "idcards.revoke" },
+  { prefix: "/tajneed/surplus", permission: "idcards.print" },
+  { prefix: "/tajneed/print-queue", permission: "idcards.print" },
+  { prefix: "/attendance/add", permission: "attendance.add" },
+  { prefix: "/attendance/certificates", permission: "attendance.export" },
+  { prefix: "/catering/check", permission: "catering.serve" },
+]
+
+// Reachable without a session
+export const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/logout"]
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  prefix === "/" ? pathname === "/" : pathname === prefix || pathname.startsWith(`${prefix}/`)
+
+export const isPublicPath = (pathname: string): boolean => PUBLIC_PATHS.some((path) => matchesPrefix(pathname, path))
+
+// Permission needed on a path, or null when any signed-in user may open it
+export const getRequiredPermission = (pathname: string): Permission | null => {
+  const rule =
+    ROUTE_PERMISSIONS.find((route) => matchesPrefix(pathname, route.prefix)) ||
+    NAV_LINKS.filter((link) => link.href !== "/").find((link) => matchesPrefix(pathname, link.href))
+  return rule ? rule.permission : null
+}
+
+export const canAccessPath = (permissions: Permission[], pathname: string): boolean => {
+  const required = getRequiredPermission(pathname)
+  return !required || permissions.includes(required)
+}
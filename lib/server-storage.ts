@@ -0,0 +1,53 @@
+import { createAdminClient } from "./supabase-admin"
+import { createSupabaseAdapter } from "./supabase-adapter"
+import { createFileAdapter } from "./file-adapter"
+import { resolveStorageAdapterName, type StorageAdapter } from "./storage-adapter"
+import { ADMIN_ROLE, mergeRoles } from "./permissions"
+
+const isSupabaseConfigured = !!(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)
+
+// Whether the deployment keeps its data in Supabase, as the browser decides it
+export const usesSupabase = (): boolean => resolveStorageAdapterName(isSupabaseConfigured) === "supabase"
+
+// Storage adapter for route handlers and middleware.ts. With Supabase it uses
+// the service role client; in local mode (no Supabase, or
+// NEXT_PUBLIC_STORAGE_ADAPTER=local) it is the file store in lib/file-adapter.ts.
+// Returns null when Supabase is in use but SUPABASE_SERVICE_ROLE_KEY is not set.
+export const getServerStorageAdapter = async (): Promise<StorageAdapter | null> => {
+  if (!usesSupabase()) return createFileAdapter()
+  const client = createAdminClient()
+  return client ? createSupabaseAdapter(client) : null
+}
+
+export const SERVER_STORAGE_UNAVAILABLE = "SUPABASE_SERVICE_ROLE_KEY must be set on the server"
+
+export const LOCAL_ADMIN_ID = "local-admin"
+
+// Local mode has no Supabase Auth, so its admin account comes from
+// LOCAL_ADMIN_USERNAME (default "admin") and LOCAL_ADMIN_PASSWORD (plain text
+// or a scrypt hash from lib/password.ts). Null when no password is set.
+export const getLocalAdmin = (): { username: string; password: string } | null => {
+  if (usesSupabase()) return null
+  const password = process.env.LOCAL_ADMIN_PASSWORD
+  if (!password) return null
+  return { username: process.env.LOCAL_ADMIN_USERNAME || "admin", password }
+}
+
+// Roles that can be given to rows in the users table: any defined role except
+// Admin (Admins sign in through Supabase Auth, or as the local admin)
+export const isAssignableRole = async (storage: StorageAdapter, role: unknown): Promise<boolean> => {
+  if (typeof role !== "string" || role === ADMIN_ROLE) return false
+  const roles = mergeRoles(await storage.listRoles())
+  return roles.some((r) => r.name === role)
+}
+
+// Supabase Auth users are Admins unless app_metadata.role names another
+// role, so removing an admin's access is a matter of setting or changing it
+export const getAuthUserRole = (user: { app_metadata?: Record<string, unknown> }): string => {
+  const role = user.app_metadata?.role
+  return typeof role === "string" && role ? role : ADMIN_ROLE
+}
+
+// Whether a Supabase Auth user may still sign in: not deleted or banned
+export const isAuthUserActive = (user: { deleted_at?: string; banned_until?: string }): boolean =>
+  !user.deleted_at && !(user.banned_until && new Date(user.banned_until).getTime() > Date.now())
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+  SESSION_COOKIE,
+  SESSION_REVALIDATE_SECONDS,
+  createSessionPayload,
+  getSessionUser,
+  needsRevalidation,
+  requireSession,
+  signSession,
+  signToken,
+  verifySession,
+  verifyToken,
+} from "./session"
+import type { AuthUser } from "./auth"
+
+const USER: AuthUser = {
+  id: "user-1",
+  username: "gate1",
+  role: "scanner",
+  fullName: "Gate One",
+  permissions: ["attendance.add"],
+  eventScope: [{ eventId: "event-1", regions: [], gates: ["Main"] }],
+}
+
+const requestWith = (token?: string) =>
+  new NextRequest("http://localhost/api/test", token ? { headers: { cookie: `${SESSION_COOKIE}=${token}` } } : {})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("session tokens", () => {
+  it("round-trips the signed-in user", async () => {
+    const session = await verifySession(await signSession(createSessionPayload(USER, "users")))
+    expect(session && getSessionUser(session)).toEqual(USER)
+  })
+
+  it("rejects tokens whose payload or signature was changed", async () => {
+    const [body, signature] = (await signSession(createSessionPayload(USER, "users"))).split(".")
+    const raised = { ...createSessionPayload(USER, "users"), permissions: ["users.manage"] }
+    const forged = Buffer.from(JSON.stringify(raised)).toString("base64url")
+    expect(await verifySession(`${forged}.${signature}`)).toBeNull()
+    expect(await verifySession(`${body}.${signature.slice(0, -2)}AA`)).toBeNull()
+    expect(await verifySession("not-a-token")).toBeNull()
+    expect(await verifySession(undefined)).toBeNull()
+  })
+
+  it("rejects expired tokens", async () => {
+    const token = await signSession(createSessionPayload(USER, "users"))
+    vi.useFakeTimers({ now: Date.now() + 13 * 60 * 60 * 1000 })
+    expect(await verifySession(token)).toBeNull()
+  })
+
+  it("keeps tokens signed for one purpose from passing as another", async () => {
+    const token = await signToken({ exp: Math.floor(Date.now() / 1000) + 60 }, "override")
+    expect(await verifyToken(token, "override")).not.toBeNull()
+    expect(await verifyToken(token)).toBeNull()
+  })
+
+  it("asks for the account to be checked again once the revalidation interval passes", () => {
+    const session = createSessionPayload(USER, "users")
+    expect(needsRevalidation(session)).toBe(false)
+    expect(needsRevalidation({ ...session, checkedAt: session.checkedAt - SESSION_REVALIDATE_SECONDS })).toBe(true)
+  })
+})
+
+describe("requireSession", () => {
+  it("answers 401 without a valid session cookie", async () => {
+    const { response } = await requireSession(requestWith())
+    expect(response?.status).toBe(401)
+  })
+
+  it("answers 403 when the role lacks the permission", async () => {
+    const token = await signSession(createSessionPayload(USER, "users"))
+    const { response } = await requireSession(requestWith(token), "users.manage")
+    expect(response?.status).toBe(403)
+  })
+
+  it("returns the session when the role has the permission", async () => {
+    const token = await signSession(createSessionPayload(USER, "users"))
+    const { session, response } = await requireSession(requestWith(token), "attendance.add")
+    expect(response).toBeUndefined()
+    expect(session?.sub).toBe("user-1")
+  })
+})
@@ -0,0 +1,163 @@
+import { NextResponse, type NextRequest } from "next/server"
+import type { UserRole } from "./types"
+import type { AuthUser } from "./auth"
+import type { Permission } from "./permissions"
+import type { EventScope } from "./event-scope"
+
+// Signed session cookie shared by the login route handler and middleware.ts.
+// Uses Web Crypto only, so it runs in both the Node and Edge runtimes.
+// Token format: <base64url JSON payload>.<base64url HMAC-SHA256 signature>
+
+export const SESSION_COOKIE = "jalsa_session"
+export const SESSION_TTL_SECONDS = 12 * 60 * 60 // One working day at the venue
+// How often middleware re-reads the account behind a session (users row,
+// Supabase Auth user or local admin), its role and event assignments, so
+// deleted users, role changes, permission edits and new assignments take
+// effect without waiting for the session to expire
+export const SESSION_REVALIDATE_SECONDS = 60
+
+export type SessionSource = "users" | "supabase-auth" | "local-admin"
+
+export interface SessionPayload {
+  sub: string // User id
+  role: UserRole
+  permissions: Permission[]
+  eventScope: EventScope
+  fullName: string
+  username?: string
+  email?: string
+  source: SessionSource
+  iat: number // Issued at (unix seconds)
+  exp: number // Absolute expiry (unix seconds)
+  checkedAt: number // Last time the account was confirmed unchanged
+}
+
+const DEVELOPMENT_SECRET = "development-only-session-secret"
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+const getSecret = (): string => {
+  const secret = process.env.SESSION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production")
+  }
+  return DEVELOPMENT_SECRET
+}
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/")
+  const binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+const getKey = () =>
+  crypto.subtle.importKey("raw", encoder.encode(getSecret()), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+    "verify",
+  ])
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000)
+
+// The signed text; a purpose keeps other tokens (see lib/override-approval.ts)
+// from passing as sessions and the other way round
+const signedText = (body: string, purpose: string) => encoder.encode(purpose ? `${purpose}.${body}` : body)
+
+// Any payload with an absolute expiry, signed with the session secret in the
+// session token format
+export const signToken = async <T extends { exp: number }>(payload: T, purpose = ""): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), signedText(body, purpose))
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+// Returns the payload when the signature is valid and it has not expired
+export const verifyToken = async <T extends { exp: number }>(
+  token: string | undefined,
+  purpose = "",
+): Promise<T | null> => {
+  if (!token) return null
+  const [body, signature] = token.split(".")
+  if (!body || !signature) return null
+
+  try {
+    const valid = await crypto.subtle.verify("HMAC", await getKey(), fromBase64Url(signature), signedText(body, purpose))
+    if (!valid) return null
+
+    const payload = JSON.parse(decoder.decode(fromBase64Url(body))) as T
+    if (!payload.exp || payload.exp <= nowInSeconds()) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+export const signSession = (payload: SessionPayload): Promise<string> => signToken(payload)
+
+export const verifySession = (token: string | undefined): Promise<SessionPayload | null> => verifyToken<SessionPayload>(token)
+
+export const createSessionPayload = (user: AuthUser, source: SessionSource): SessionPayload => {
+  const issuedAt = nowInSeconds()
+  return {
+    sub: user.id,
+    role: user.role,
+    permissions: user.permissions,
+    eventScope: user.eventScope,
+    fullName: user.fullName,
+    username: user.username,
+    email: user.email,
+    source,
+    iat: issuedAt,
+    exp: issuedAt + SESSION_TTL_SECONDS,
+    checkedAt: issuedAt,
+  }
+}
+
+export const getSessionUser = (session: SessionPayload): AuthUser => ({
+  id: session.sub,
+  username: session.username,
+  email: session.email,
+  role: session.role,
+  fullName: session.fullName,
+  permissions: session.permissions,
+  eventScope: session.eventScope,
+})
+
+export const needsRevalidation = (session: SessionPayload): boolean =>
+  nowInSeconds() - session.checkedAt >= SESSION_REVALIDATE_SECONDS
+
+export const markRevalidated = (session: SessionPayload): SessionPayload => ({ ...session, checkedAt: nowInSeconds() })
+
+// The cookie lives exactly as long as the session it carries
+export const getSessionCookieOptions = (session: SessionPayload) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: Math.max(session.exp - nowInSeconds(), 0),
+})
+
+// For route handlers: the request's session when it holds the permission, or
+// the 401/403 response to send instead. middleware.ts applies the same rules;
+// handlers that change users, roles or records check again themselves.
+export const requireSession = async (
+  request: NextRequest,
+  permission?: Permission,
+): Promise<{ session: SessionPayload; response?: undefined } | { session?: undefined; response: NextResponse }> => {
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return { response: NextResponse.json({ error: "Not signed in" }, { status: 401 }) }
+  }
+  if (permission && !session.permissions.includes(permission)) {
+    return { response: NextResponse.json({ error: "Your role does not have permission for this" }, { status: 403 }) }
+  }
+  return { session }
+}
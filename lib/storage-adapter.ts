@@ -0,0 +1,166 @@
+import type {
+  TajneedMember,
+  AttendanceRecord,
+  Region,
+  EventSettings,
+  SecurityMovement,
+  CateringRecord,
+  MovementStatus,
+  MealType,
+  EventDay,
+  User,
+  RoleDefinition,
+  EventAssignment,
+  IDCard,
+  CardPrint,
+  SurplusBatch,
+  Household,
+} from "./types"
+
+// Data-access contract behind the exported functions in lib/storage.ts.
+// Adapters only read and write rows; business rules (duplicate checks, the
+// offline scan queue, current event selection) live in lib/storage.ts so every
+// backend behaves the same way.
+//
+// Adapters throw StorageOfflineError when the backing store cannot be reached.
+// Any other failure is logged and reported as null / false / [].
+
+export type StorageAdapterName = "supabase" | "local" | "memory" | "file"
+
+// Backend the browser uses: NEXT_PUBLIC_STORAGE_ADAPTER when set (e.g. "local"
+// for a single-laptop event without internet), else Supabase when configured,
+// else localStorage. Route handlers follow the same choice (see lib/server-storage.ts).
+export const resolveStorageAdapterName = (supabaseConfigured: boolean): StorageAdapterName => {
+  const requested = process.env.NEXT_PUBLIC_STORAGE_ADAPTER
+  if (requested === "memory" || requested === "local") return requested
+  if (requested === "supabase" && !supabaseConfigured) {
+    console.warn("NEXT_PUBLIC_STORAGE_ADAPTER is 'supabase' but Supabase is not configured; using localStorage")
+  }
+  return supabaseConfigured ? "supabase" : "local"
+}
+
+export interface CateringFilters {
+  day?: EventDay
+  mealType?: MealType
+}
+
+export interface StorageAdapter {
+  readonly name: StorageAdapterName
+
+  // Events
+  listEvents(): Promise<EventSettings[]>
+  getEvent(eventId: string): Promise<EventSettings | null>
+  createEvent(event: Omit<EventSettings, "id" | "createdAt">): Promise<EventSettings | null>
+  updateEvent(event: EventSettings): Promise<boolean>
+  // Removes the event and everything scoped to it (members, attendance,
+  // regions, counters, security, catering and QR mappings)
+  deleteEvent(eventId: string): Promise<boolean>
+
+  // Tajneed members
+  listMembers(eventId: string): Promise<TajneedMember[]>
+  getMember(memberId: string): Promise<TajneedMember | null>
+  // When `id` is given the adapter tries to keep it; returns null if it cannot
+  insertMember(member: Omit<TajneedMember, "id" | "createdAt"> & { id?: string }): Promise<TajneedMember | null>
+  // All or nothing: returns every inserted member, or [] when the batch failed
+  insertMembers(members: Omit<TajneedMember, "id" | "createdAt">[]): Promise<TajneedMember[]>
+  updateMember(memberId: string, updates: Partial<Omit<TajneedMember, "id" | "createdAt">>): Promise<TajneedMember | null>
+  // Also removes the member's attendance (with its security movements and
+  // catering records), ID cards and card print log
+  deleteMember(memberId: string): Promise<boolean>
+  // Stores a photo (a data URL) for the member and returns the URL to keep in
+  // photoUrl. With Supabase the bucket is private, so only the service role
+  // (app/api/members/[id]/photo) can store, remove or sign photos.
+  uploadMemberPhoto(member: Pick<TajneedMember, "id" | "eventId">, photo: string): Promise<string | null>
+  removeMemberPhoto(member: Pick<TajneedMember, "id" | "eventId">): Promise<boolean>
+  // A short-lived URL the browser can load the stored photo from, or null
+  signMemberPhoto(member: Pick<TajneedMember, "id" | "eventId">): Promise<string | null>
+  // Moves the duplicate's ID cards (registering its own id as one of the kept
+  // member's cards, so its printed card keeps scanning) and its attendance,
+  // with its security movements and catering records, onto the kept member,
+  // then deletes the duplicate and its card prints. Meals both were served are
+  // kept once. Both members must be in the same event; nothing changes if a
+  // step fails.
+  mergeMember(duplicateId: string, keepId: string): Promise<boolean>
+
+  // Attendance (records are returned with their member joined)
+  listAttendance(eventId: string): Promise<AttendanceRecord[]>
+  findAttendance(eventId: string, memberId: string): Promise<AttendanceRecord | null>
+  insertAttendance(record: Omit<AttendanceRecord, "id" | "recordedAt" | "member"> & { id?: string; recordedAt?: string }): Promise<AttendanceRecord | null>
+  // Also removes the record's security movements and catering records
+  deleteAttendance(recordId: string): Promise<boolean>
+
+  // Regions and jamaat
+  listRegions(eventId: string): Promise<Region[]>
+  insertRegion(region: Omit<Region, "id">): Promise<Region | null>
+  updateRegion(regionId: string, updates: Partial<Region>): Promise<boolean>
+  deleteRegion(regionId: string): Promise<boolean>
+  addJamaat(regionId: string, jamaatName: string): Promise<boolean>
+  deleteJamaat(regionId: string, jamaatName: string): Promise<boolean>
+
+  // Tanzeem counters
+  getCounters(eventId: string): Promise<Record<string, number>>
+  // Counters are keyed by tanzeem short code (KH), as codes are, so renaming a
+  // tanzeem or giving its code to another one carries on the same numbers.
+  // Adds count (default 1) to the counter, never below the highest code
+  // already given, in one step and returns the new value; 0 on failure
+  incrementCounter(eventId: string, tanzeemCode: string, count?: number): Promise<number>
+  resetCounters(eventId: string): Promise<boolean>
+
+  // Security movements (returned with their attendance record joined)
+  listSecurityMovements(eventId: string): Promise<SecurityMovement[]>
+  getLatestSecurityStatus(eventId: string, attendanceRecordId: string): Promise<MovementStatus | null>
+  insertSecurityMovement(movement: Omit<SecurityMovement, "attendanceRecord">): Promise<boolean>
+
+  // Catering records (returned with their attendance record joined)
+  listCateringRecords(eventId: string, filters?: CateringFilters): Promise<CateringRecord[]>
+  insertCateringRecord(record: Omit<CateringRecord, "attendanceRecord">): Promise<boolean>
+  deleteCateringRecord(eventId: string, recordId: string): Promise<boolean>
+
+  // System users (listUsers leaves out password hashes). Only route handlers
+  // read and write users, roles and assignments (see lib/server-storage.ts).
+  listUsers(): Promise<User[]>
+  getUser(userId: string): Promise<User | null>
+  getUserByUsername(username: string): Promise<User | null>
+  insertUser(user: User): Promise<boolean>
+  updateUser(userId: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<boolean>
+  deleteUser(userId: string): Promise<boolean>
+
+  // Events a system user is assigned to (removed with the user or the event)
+  listUserAssignments(userId: string): Promise<EventAssignment[]>
+  setUserAssignments(userId: string, assignments: EventAssignment[]): Promise<boolean>
+
+  // Saved role definitions (built-in defaults are merged in by lib/storage.ts)
+  listRoles(): Promise<RoleDefinition[]>
+  saveRole(role: RoleDefinition): Promise<boolean>
+  deleteRole(name: string): Promise<boolean>
+
+  // QR code id -> member id mappings
+  getQRMapping(qrCodeId: string, eventId: string): Promise<string | null>
+  saveQRMapping(qrCodeId: string, memberId: string, eventId: string): Promise<void>
+
+  // ID card registry (printed cards and their status), kept with the QR mappings
+  listCards(eventId: string): Promise<IDCard[]>
+  getCard(cardId: string): Promise<IDCard | null>
+  saveCards(cards: IDCard[]): Promise<boolean>
+
+  // Log of member ID cards printed
+  listCardPrints(eventId: string): Promise<CardPrint[]>
+  saveCardPrints(prints: CardPrint[]): Promise<boolean>
+
+  // Surplus (blank) ID card batches
+  listSurplusBatches(eventId: string): Promise<SurplusBatch[]>
+  saveSurplusBatch(batch: SurplusBatch): Promise<boolean>
+
+  // Households (families); deleting one leaves its members without a household
+  listHouseholds(eventId: string): Promise<Household[]>
+  saveHousehold(household: Household): Promise<boolean>
+  deleteHousehold(householdId: string): Promise<boolean>
+}
+
+export class StorageOfflineError extends Error {
+  constructor(operation: string, cause?: unknown) {
+    super(`Storage unreachable during ${operation}`)
+    this.name = "StorageOfflineError"
+    this.cause = cause
+  }
+}
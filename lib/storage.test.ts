@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  addCateringRecord,
+  createEvent,
+  getCateringRecords,
+  getSecurityStatusForAttendance,
+  getStorageAdapter,
+  setStorageAdapter,
+  toggleSecurityMovement,
+} from "./storage"
+import { createMemoryAdapter } from "./collection-adapter"
+import type { AuthUser } from "./auth"
+import type { Permission } from "./permissions"
+import type { CateringOverrideApproval, EventAssignment, EventSettings } from "./types"
+
+// The rules the storage facade applies before writing, run against the
+// in-memory adapter with a signed-in user in localStorage.
+
+// Minimal window.localStorage, as the facade keeps the user and current event there
+const installLocalStorage = () => {
+  const data = new Map<string, string>()
+  const localStorage = {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => data.set(key, value),
+    removeItem: (key: string) => data.delete(key),
+  }
+  Object.assign(globalThis, { window: globalThis, localStorage })
+}
+
+const removeLocalStorage = () => {
+  const global = globalThis as Record<string, unknown>
+  delete global.window
+  delete global.localStorage
+}
+
+const signIn = (permissions: Permission[], eventScope: EventAssignment[] | null = null) => {
+  const user: AuthUser = { id: "user-1", role: "custom", fullName: "Gate One", permissions, eventScope }
+  localStorage.setItem("auth_user", JSON.stringify(user))
+}
+
+// Nairobi is UTC+3, so lunch (12:00–15:00 at the venue) is 09:00–12:00 UTC
+const EVENT: Omit<EventSettings, "id" | "createdAt"> = {
+  eventName: "Jalsa Salana Kenya",
+  startingDate: "2025-08-22",
+  duration: 3,
+  location: "Nairobi",
+  theme: "",
+  timeZone: "Africa/Nairobi",
+}
+const DAY = "2025-08-22"
+const DURING_LUNCH = new Date("2025-08-22T10:00:00Z")
+const AFTER_LUNCH = new Date("2025-08-22T13:00:00Z")
+
+const APPROVAL: CateringOverrideApproval = {
+  token: "signed-approval",
+  approverId: "supervisor-1",
+  approverName: "Supervisor",
+  day: DAY,
+  mealType: "Lunch",
+}
+
+let eventId: string
+let recordId: string
+
+beforeEach(async () => {
+  installLocalStorage()
+  signIn(["catering.serve", "security.toggle"])
+  setStorageAdapter(createMemoryAdapter())
+  eventId = (await createEvent(EVENT as EventSettings))!.id
+
+  const storage = getStorageAdapter()
+  const member = (await storage.insertMember({
+    eventId,
+    fullName: "Amina Hassan",
+    tanzeem: "Lajna",
+    region: "Nairobi",
+    jamaat: "Central",
+  }))!
+  recordId = (await storage.insertAttendance({ eventId, memberId: member.id }))!.id
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  removeLocalStorage()
+})
+
+// Only Date is faked, so the adapter's promises still resolve
+const setNow = (now: Date) => {
+  vi.useFakeTimers({ toFake: ["Date"] })
+  vi.setSystemTime(now)
+}
+
+describe("addCateringRecord", () => {
+  it("serves a member once per meal", async () => {
+    setNow(DURING_LUNCH)
+    expect(await addCateringRecord(recordId, DAY, "Lunch")).toBe(true)
+    expect(await addCateringRecord(recordId, DAY, "Lunch")).toBe(false)
+    expect(await getCateringRecords(DAY, "Lunch")).toHaveLength(1)
+  })
+
+  it("refuses a meal outside its window in the venue's time zone", async () => {
+    setNow(AFTER_LUNCH)
+    expect(await addCateringRecord(recordId, DAY, "Lunch")).toBe(false)
+    expect(await addCateringRecord(recordId, "2025-08-23", "Lunch")).toBe(false)
+    expect(await getCateringRecords()).toEqual([])
+  })
+
+  it("serves outside the window under a supervisor's approval and records who gave it", async () => {
+    signIn(["catering.serve", "catering.override"])
+    setNow(AFTER_LUNCH)
+    expect(await addCateringRecord(recordId, DAY, "Lunch", { approval: APPROVAL })).toBe(true)
+    const [record] = await getCateringRecords(DAY, "Lunch")
+    expect(record).toMatchObject({ overrideBy: "supervisor-1", overrideByName: "Supervisor" })
+  })
+
+  it("ignores an approval without catering.override or for another meal", async () => {
+    setNow(AFTER_LUNCH)
+    expect(await addCateringRecord(recordId, DAY, "Lunch", { approval: APPROVAL })).toBe(false)
+    signIn(["catering.serve", "catering.override"])
+    expect(await addCateringRecord(recordId, DAY, "Dinner", { approval: APPROVAL })).toBe(false)
+  })
+
+  it("does not record an approver for servings inside the window", async () => {
+    signIn(["catering.serve", "catering.override"])
+    setNow(DURING_LUNCH)
+    expect(await addCateringRecord(recordId, DAY, "Lunch", { approval: APPROVAL })).toBe(true)
+    const [record] = await getCateringRecords(DAY, "Lunch")
+    expect(record.overrideBy).toBeUndefined()
+  })
+})
+
+describe("toggleSecurityMovement", () => {
+  it("records each movement and reports the latest", async () => {
+    setNow(DURING_LUNCH)
+    expect(await toggleSecurityMovement(recordId, "In")).toBe(true)
+    expect(await getSecurityStatusForAttendance(recordId)).toBe("In")
+    setNow(AFTER_LUNCH)
+    expect(await toggleSecurityMovement(recordId, "Out")).toBe(true)
+    expect(await getSecurityStatusForAttendance(recordId)).toBe("Out")
+  })
+
+  it("records movements only at the user's assigned gates", async () => {
+    signIn(["security.toggle"], [{ eventId, regions: [], gates: ["Main"] }])
+    expect(await toggleSecurityMovement(recordId, "In")).toBe(false)
+    expect(await toggleSecurityMovement(recordId, "In", "Side")).toBe(false)
+    expect(await toggleSecurityMovement(recordId, "In", "Main")).toBe(true)
+  })
+
+  it("refuses members outside the user's assigned regions", async () => {
+    signIn(["security.toggle"], [{ eventId, regions: ["Mombasa"], gates: [] }])
+    expect(await toggleSecurityMovement(recordId, "In")).toBe(false)
+    expect(await getSecurityStatusForAttendance(recordId)).toBeNull()
+  })
+})
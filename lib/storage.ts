@@ -5,13 +5,92 @@ import type {
   EventSettings,
   SecurityMovement,
   CateringRecord,
+  CateringOverrideApproval,
   MovementStatus,
   MealType,
-  DayOfWeek,
+  EventDay,
   User,
-  UserRole,
+  RoleDefinition,
+  EventAssignment,
+  QueuedAttendanceScan,
+  QueuedSecurityScan,
+  QueuedCateringScan,
+  ScannedCardCheck,
+  ScannedCardRejection,
+  ScanSource,
+  IDCard,
+  IDCardStatus,
+  CardPrint,
+  SurplusBatch,
+  Household,
+  Tanzeem,
+  TajneedImportMember,
+  TajneedImportResult,
 } from "./types"
-import { supabase, isSupabaseConfigured } from "./supabase"
+import { isSupabaseConfigured } from "./supabase"
+import {
+  enqueueScan,
+  getOfflineSnapshot as readOfflineSnapshot,
+  getQueuedScans,
+  isNetworkError,
+  isOffline,
+  saveOfflineSnapshot as writeOfflineSnapshot,
+} from "./offline-queue"
+import { StorageOfflineError, resolveStorageAdapterName, type StorageAdapter } from "./storage-adapter"
+import { createSupabaseAdapter } from "./supabase-adapter"
+import { createLocalStorageAdapter, createMemoryAdapter } from "./collection-adapter"
+import { ADMIN_ROLE, BUILT_IN_ROLES, mergeRoles } from "./permissions"
+import { getCurrentUser, getEventScope } from "./auth"
+import { canAccessEvent, getGateScope, getRegionScope, isRegionInScope } from "./event-scope"
+import {
+  getLegacyQrUntil,
+  isSignedQRText,
+  parseQRPayload,
+  readLegacyCardId,
+  verifyQRPayload,
+  type QRPayload,
+  type ScannerQRKey,
+} from "./qr-payload"
+import { MAX_SURPLUS_BATCH_SIZE, getSurplusBatchCode, getSurplusCardCodes, isSurplusCode } from "./surplus-cards"
+import { formatMemberCode, normalizeMemberCode } from "./member-codes"
+import { getTanzeemCategories, getTanzeemCode } from "./tanzeem-categories"
+import { getBrowserTimeZone, isCateringSessionOpen } from "./catering-sessions"
+import { loadCateringHistory, type CateringHistory } from "./kitchen-forecast"
+import { getCardFingerprint } from "./print-queue"
+
+const createDefaultAdapter = (): StorageAdapter => {
+  const name = resolveStorageAdapterName(isSupabaseConfigured)
+  if (name === "memory") return createMemoryAdapter()
+  return name === "supabase" ? createSupabaseAdapter() : createLocalStorageAdapter()
+}
+
+// Selected once when the module loads. Every exported function below goes
+// through it, so pages never need to know which backend is in use.
+let storage: StorageAdapter = createDefaultAdapter()
+
+export const getStorageAdapter = (): StorageAdapter => storage
+
+// Swap the backend, e.g. createMemoryAdapter() in unit tests
+export const setStorageAdapter = (adapter: StorageAdapter): void => {
+  storage = adapter
+}
+
+// Only the Supabase backend can lose connectivity, so only it uses the
+// offline scan queue and cached snapshots
+const usesScanQueue = () => storage.name === "supabase"
+
+const isOfflineError = (err: unknown): err is StorageOfflineError => err instanceof StorageOfflineError
+
+// Resolve to `fallback` instead of failing when the backend is unreachable
+const unlessOffline = async <T>(operation: Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await operation
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    console.warn(err.message)
+    return fallback
+  }
+}
 
 let currentEventId: string | null = null
 const LOCAL_CURRENT_EVENT_KEY = "current_event_id"
@@ -30,7 +109,7 @@ if (typeof window !== "undefined") {
   }
 }
 
-const getCurrentEventId = (): string => {
+const readCurrentEventId = (): string => {
   if (currentEventId) return currentEventId
 
   // Fallback to localStorage in case module state was reset (page refresh)
@@ -49,7 +128,20 @@ const getCurrentEventId = (): string => {
   return ""
 }
 
+// An event the signed-in user is not assigned to is never the current one, so
+// every read and write below stays inside the user's events. This only shapes
+// the UI: with Supabase the policies in scripts/enforce-event-scope.sql check
+// the scope carried by the session's access token.
+const getCurrentEventId = (): string => {
+  const eventId = readCurrentEventId()
+  return eventId && canAccessEvent(getEventScope(), eventId) ? eventId : ""
+}
+
 const setCurrentEventId = (eventId: string): void => {
+  if (!canAccessEvent(getEventScope(), eventId)) {
+    console.warn("Not assigned to event, keeping the current one:", eventId)
+    return
+  }
   currentEventId = eventId
   if (typeof window !== "undefined") {
     try {
@@ -71,86 +163,83 @@ const saveToLocalStorage = (key: string, value: any) => {
   localStorage.setItem(key, JSON.stringify(value))
 }
 
-const LOCAL_TAJNEED_KEY = "tajneed_members"
-const LOCAL_ATTENDANCE_KEY = "attendance_records"
-const LOCAL_SECURITY_KEY = "security_movements"
-const LOCAL_CATERING_KEY = "catering_records"
-const LOCAL_USERS_KEY = "users"
-const LOCAL_QR_CODE_MAPPING_KEY = "qr_code_member_mapping" // Maps QR code IDs to member IDs
-const TAJNEED_TABLE = "tajneed_members"
-const ATTENDANCE_TABLE = "attendance_records"
-const SECURITY_TABLE = "security_movements"
-const CATERED_TABLE = "catering_records"
-const USERS_TABLE = "users"
-
-// Events List Management
-export const getEventsList = async (): Promise<EventSettings[]> => {
-  if (!isSupabaseConfigured) {
-    return getFromLocalStorage("events_list", [])
-  }
+const MEMBERS_SNAPSHOT = "tajneed_members"
+const ATTENDANCE_SNAPSHOT = "attendance_records"
+const CATERING_SNAPSHOT = "catering_records"
+const CARDS_SNAPSHOT = "id_cards"
+const EVENT_SNAPSHOT = "event" // The event's settings, for meal windows offline
+const SURPLUS_SNAPSHOT = "surplus_batches"
+const LOCAL_QR_KEY_PREFIX = "qr_public_key" // The event's ScannerQRKey, for checking cards offline
+const RETIRED_QR_KEY_PREFIX = "qr_key" // Held the event's signing key before cards were signed with key pairs
+
+// Keep a copy of the last successful Supabase read (in IndexedDB, see
+// offline-queue) so scanners can keep resolving members and attendance
+// records when connectivity drops. Saved in the background.
+const saveOfflineSnapshot = (name: string, eventId: string, rows: unknown[]) => {
+  if (!usesScanQueue()) return
+  void writeOfflineSnapshot(`${name}_${eventId}`, rows)
+}
 
-  const { data, error } = await supabase.from("events").select("*").order("created_at", { ascending: false })
+const getOfflineSnapshot = <T>(name: string, eventId: string): Promise<T[]> =>
+  readOfflineSnapshot<T>(`${name}_${eventId}`)
 
-  if (error) {
-    console.error("Error fetching events:", error)
-    return []
-  }
+// Scans waiting in the offline queue for the given event
+const getPendingScans = async (eventId: string) => {
+  if (!usesScanQueue()) return []
+  const queued = await getQueuedScans()
+  return queued.filter((entry) => entry.eventId === eventId && entry.status === "pending")
+}
 
-  return (
-  data?.map((event: any) => ({
-      id: event.id,
-      eventName: event.event_name,
-      startingDate: event.starting_date,
-      duration: event.duration,
-      location: event.location,
-      theme: event.theme,
-      createdAt: event.created_at,
-    })) || []
+const getQueuedAttendanceRecords = async (eventId: string): Promise<AttendanceRecord[]> => {
+  const pending = (await getPendingScans(eventId)).filter(
+    (entry): entry is QueuedAttendanceScan => entry.kind === "attendance",
   )
+  if (pending.length === 0) return []
+
+  const members = await getOfflineSnapshot<TajneedMember>(MEMBERS_SNAPSHOT, eventId)
+  return pending.map((entry) => ({
+    id: entry.payload.recordId,
+    eventId,
+    memberId: entry.payload.memberId,
+    recordedAt: entry.clientTimestamp,
+    member: members.find((member) => member.id === entry.payload.memberId),
+  }))
 }
 
-export const createEvent = async (event: EventSettings): Promise<EventSettings | null> => {
-  if (!isSupabaseConfigured) {
-    const events = getFromLocalStorage("events_list", [])
-    const newEvent = {
-      ...event,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-    }
-    events.push(newEvent)
-    saveToLocalStorage("events_list", events)
-    setCurrentEventId(newEvent.id)
-    return newEvent
-  }
-
-  const { data, error } = await supabase
-    .from("events")
-    .insert([
-      {
-        event_name: event.eventName,
-        starting_date: event.startingDate,
-        duration: event.duration,
-        location: event.location,
-        theme: event.theme,
-      },
-    ])
-    .select()
-    .single()
-
-  if (error) {
-    console.error("Error creating event:", error)
-    return null
-  }
+// Queued records first (most recent scans), skipping members the server already has
+const mergeQueuedAttendance = (records: AttendanceRecord[], queued: AttendanceRecord[]): AttendanceRecord[] => [
+  ...queued.filter((q) => !records.some((record) => record.memberId === q.memberId)),
+  ...records,
+]
+
+// Drop rows outside the regions the user is assigned to within the event
+const inRegionScope = <T>(eventId: string, rows: T[], getRegion: (row: T) => string | undefined): T[] => {
+  const scope = getEventScope()
+  if (!getRegionScope(scope, eventId)) return rows
+  return rows.filter((row) => isRegionInScope(scope, eventId, getRegion(row)))
+}
 
-  const newEvent: EventSettings = {
-    id: data.id,
-    eventName: data.event_name,
-    startingDate: data.starting_date,
-    duration: data.duration,
-    location: data.location,
-    theme: data.theme,
-    createdAt: data.created_at,
-  }
+const isMemberInScope = (eventId: string, member: Pick<TajneedMember, "region">) =>
+  isRegionInScope(getEventScope(), eventId, member.region)
+
+// Attendance records (and the security / catering rows hanging off them) are
+// only writable when the member is in one of the user's regions
+const isAttendanceRecordInScope = async (eventId: string, attendanceRecordId: string): Promise<boolean> => {
+  if (!getRegionScope(getEventScope(), eventId)) return true
+  const records = await getAttendanceRecords()
+  return records.some((record) => record.id === attendanceRecordId)
+}
+
+// Events List Management (only the events the user is assigned to)
+export const getEventsList = async (): Promise<EventSettings[]> => {
+  const events = await unlessOffline(storage.listEvents(), [])
+  const scope = getEventScope()
+  return events.filter((event) => canAccessEvent(scope, event.id))
+}
+
+export const createEvent = async (event: EventSettings): Promise<EventSettings | null> => {
+  const newEvent = await unlessOffline(storage.createEvent({ ...event, timeZone: event.timeZone || getBrowserTimeZone() }), null)
+  if (!newEvent) return null
 
   setCurrentEventId(newEvent.id)
   return newEvent
@@ -160,78 +249,27 @@ export const switchEvent = (eventId: string): void => {
   setCurrentEventId(eventId)
 }
 
+// Deletes the event together with its members, attendance, regions,
+// counters, security movements, catering records and QR mappings
 export const deleteEvent = async (eventId: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const events = getFromLocalStorage("events_list", [])
-    const filtered = events.filter((e: EventSettings) => e.id !== eventId)
-    saveToLocalStorage("events_list", filtered)
-
-    // Also delete associated tajneed members, attendance records, and regions
-    const allMembers = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-    const filteredMembers = allMembers.filter((member: TajneedMember) => member.eventId !== eventId)
-    saveToLocalStorage("tajneed_members", filteredMembers)
-
-    const allAttendanceRecords = getFromLocalStorage(LOCAL_ATTENDANCE_KEY, [])
-    const filteredAttendance = allAttendanceRecords.filter((record: AttendanceRecord) => record.eventId !== eventId)
-    saveToLocalStorage("attendance_records", filteredAttendance)
-
-    const allRegions = getFromLocalStorage("regions", [])
-    const filteredRegions = allRegions.filter((r: Region) => r.eventId !== eventId)
-    saveToLocalStorage("regions", filteredRegions)
-
-    return true
-  }
-
-  const { error } = await supabase.from("events").delete().eq("id", eventId)
-
-  if (error) {
-    console.error("Error deleting event:", error)
-    return false
-  }
-
-  return true
+  return unlessOffline(storage.deleteEvent(eventId), false)
 }
 
 // Tajneed Members
 export const getTajneedMembers = async (): Promise<TajneedMember[]> => {
-  try {
-    const eventId = getCurrentEventId()
-    if (!eventId) return []
-
-    if (!isSupabaseConfigured) {
-      const allMembers = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-      return allMembers.filter((member: TajneedMember) => member.eventId === eventId)
-    }
-
-    const { data, error } = await supabase
-      .from(TAJNEED_TABLE)
-      .select("*")
-      .eq("event_id", eventId)
-      .order("created_at", { ascending: false })
-
-    if (error) {
-      console.error("Error fetching tajneed members:", {
-        message: error.message,
-        code: error.code,
-        details: error.details,
-        hint: error.hint,
-        error: error,
-      })
-      return []
-    }
+  const eventId = getCurrentEventId()
+  if (!eventId) return []
 
-    return (
-  data?.map((member: any) => ({
-        id: member.id,
-        eventId: member.event_id,
-        fullName: member.full_name,
-  tanzeem: member.tanzeem,
-        region: member.region,
-        jamaat: member.jamaat,
-        createdAt: member.created_at ?? new Date().toISOString(),
-      })) || []
-    )
+  try {
+    const members = await storage.listMembers(eventId)
+    saveOfflineSnapshot(MEMBERS_SNAPSHOT, eventId, members)
+    return inRegionScope(eventId, members, (member) => member.region)
   } catch (err) {
+    if (isOfflineError(err)) {
+      console.warn("Offline: using cached tajneed members")
+      const cached = await getOfflineSnapshot<TajneedMember>(MEMBERS_SNAPSHOT, eventId)
+      return inRegionScope(eventId, cached, (member) => member.region)
+    }
     console.error("Unexpected error fetching tajneed members:", {
       error: err,
       message: err instanceof Error ? err.message : String(err),
@@ -241,203 +279,170 @@ export const getTajneedMembers = async (): Promise<TajneedMember[]> => {
   }
 }
 
+// Gives members without a code the next numbers from their tanzeem code's
+// counter, reserving a whole group in one step. Members keep no code when the
+// counter cannot be reached; "Assign Member Codes" on /tajneed fills them in later.
+const withMemberCodes = async <T extends Pick<TajneedMember, "tanzeem" | "memberCode">>(
+  eventId: string,
+  members: T[],
+): Promise<T[]> => {
+  const coded = [...members]
+  if (members.every((member) => member.memberCode)) return coded
+
+  const settings = (await unlessOffline(storage.getEvent(eventId), null)) || undefined
+  const byCode = new Map<string, number[]>()
+  members.forEach((member, index) => {
+    if (member.memberCode) return
+    const code = getTanzeemCode(member.tanzeem, settings)
+    byCode.set(code, [...(byCode.get(code) || []), index])
+  })
+
+  for (const [code, indexes] of byCode) {
+    try {
+      const last = await storage.incrementCounter(eventId, code, indexes.length)
+      if (!last) continue
+      indexes.forEach((index, i) => {
+        coded[index] = { ...coded[index], memberCode: formatMemberCode(code, last - indexes.length + 1 + i) }
+      })
+    } catch (err) {
+      if (!isOfflineError(err)) throw err
+      console.warn("Offline: saving members without a member code")
+    }
+  }
+  return coded
+}
+
 export const saveTajneedMember = async (
   member: Omit<TajneedMember, "id" | "createdAt">,
 ): Promise<TajneedMember | null> => {
-  if (!isSupabaseConfigured) {
-    const allMembers = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-    const newMember: TajneedMember = {
-      ...member,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-    }
-    allMembers.push(newMember)
-    saveToLocalStorage(LOCAL_TAJNEED_KEY, allMembers)
-    return newMember
-  }
-
-  const { data, error } = await supabase
-    .from(TAJNEED_TABLE)
-    .insert([
-      {
-        event_id: member.eventId,
-        full_name: member.fullName,
-        tanzeem: member.tanzeem,
-        region: member.region,
-        jamaat: member.jamaat,
-      },
-    ])
-    .select()
-    .single()
-
-  if (error) {
-    console.error("Error saving tajneed member:", error)
+  if (!canAccessEvent(getEventScope(), member.eventId) || !isMemberInScope(member.eventId, member)) {
+    console.warn("Member is outside your assigned events or regions:", member.fullName)
     return null
   }
+  const [coded] = await withMemberCodes(member.eventId, [member])
+  return unlessOffline(storage.insertMember(coded), null)
+}
 
-    return {
-    id: data.id,
-    eventId: data.event_id,
-    fullName: data.full_name,
-    tanzeem: data.tanzeem,
-    region: data.region,
-    jamaat: data.jamaat,
-    createdAt: data.created_at ?? new Date().toISOString(),
+const IMPORT_BATCH_SIZE = 100
+
+// Inserts validated import rows into the current event in batches of
+// IMPORT_BATCH_SIZE. A failed batch is reported and the import carries on
+// with the next one; a lost connection fails everything not yet saved. Each
+// batch's outcome is in result.batches, so earlier batches stay reported as
+// saved whatever happens to later ones.
+export const importTajneedMembers = async (
+  members: TajneedImportMember[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<TajneedImportResult> => {
+  const result: TajneedImportResult = { imported: [], failed: [], batches: [] }
+  const eventId = getCurrentEventId()
+  if (!eventId) {
+    result.failed = members.map((member) => ({ member, reason: "No event selected" }))
+    return result
   }
-}
 
-// Helper function to store QR code ID to member ID mapping
-export const saveQRCodeMapping = async (qrCodeId: string, memberId: string): Promise<void> => {
-  const mappings = getFromLocalStorage(LOCAL_QR_CODE_MAPPING_KEY, {})
-  mappings[qrCodeId] = memberId
-  saveToLocalStorage(LOCAL_QR_CODE_MAPPING_KEY, mappings)
-  console.log("QR Code mapping saved to localStorage:", { qrCodeId, memberId })
-
-  // If Supabase is configured, attempt to persist the mapping server-side so
-  // it becomes available across devices. Use a dedicated `qr_mappings` table
-  // if present. If the table doesn't exist or the request fails, we silently
-  // fall back to localStorage (preserve existing behavior).
-  if (isSupabaseConfigured) {
-    // Wait for Supabase persistence to complete
-    // This ensures the mapping is saved before returning
+  const toInsert = members.filter((member) => {
+    if (isMemberInScope(eventId, member)) return true
+    result.failed.push({ member, reason: "Region is outside your assignment" })
+    return false
+  })
+
+  const failBatch = (batch: TajneedImportMember[], reason: string) => {
+    result.failed.push(...batch.map((member) => ({ member, reason })))
+    result.batches.push({ members: batch, imported: 0, reason })
+  }
+
+  for (let start = 0; start < toInsert.length; start += IMPORT_BATCH_SIZE) {
+    const batch = toInsert.slice(start, start + IMPORT_BATCH_SIZE)
     try {
-      const eventId = getCurrentEventId()
-      await persistQRMappingToSupabase(qrCodeId, memberId, eventId)
+      const coded = await withMemberCodes(eventId, batch)
+      const saved = await storage.insertMembers(coded.map((member) => ({ ...member, eventId })))
+      if (saved.length === batch.length) {
+        result.imported.push(...saved)
+        result.batches.push({ members: batch, imported: saved.length })
+      } else {
+        failBatch(batch, "Could not be saved")
+      }
     } catch (err) {
-      // Log the error but don't throw — localStorage fallback is available
-      console.warn("Failed to persist QR mapping to Supabase, but localStorage fallback is available:", err)
+      if (isOfflineError(err)) {
+        for (let rest = start; rest < toInsert.length; rest += IMPORT_BATCH_SIZE) {
+          failBatch(toInsert.slice(rest, rest + IMPORT_BATCH_SIZE), "Connection lost")
+        }
+        break
+      }
+      console.error("Error importing tajneed batch:", err)
+      failBatch(batch, err instanceof Error ? err.message : "Could not be saved")
     }
+    onProgress?.(Math.min(start + batch.length, toInsert.length), toInsert.length)
   }
+  return result
 }
 
-// Async helper to persist QR mapping to Supabase with retry logic
-const persistQRMappingToSupabase = async (qrCodeId: string, memberId: string, eventId?: string, attempt: number = 1): Promise<void> => {
-  const MAX_ATTEMPTS = 3
-  const BASE_DELAY = 100 // Start with 100ms
-
-  try {
-    if (!supabase) {
-      console.warn("Supabase client not configured")
-      return
-    }
+// Households
+export const getHouseholds = async (): Promise<Household[]> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return []
 
-    // Prepare payload with snake_case column names (Supabase convention)
-    // Include event_id if available to scope mappings per event
-    const payload = {
-      qr_code_id: qrCodeId,
-      member_id: memberId,
-      event_id: eventId || null, // Include event_id if available, otherwise null
-    }
+  return unlessOffline(storage.listHouseholds(eventId), [])
+}
 
-    // Use upsert to insert or update. Supabase upsert syntax:
-    // .upsert(data, options) where options.onConflict specifies the unique column
-    console.log(`[Attempt ${attempt}/${MAX_ATTEMPTS}] Attempting to upsert QR mapping to Supabase:`, { qrCodeId, memberId, eventId })
-    
-    const { error } = await supabase
-      .from("qr_mappings")
-      .upsert(payload, { onConflict: "qr_code_id" })
-
-    if (error) {
-      // Check if this is a retryable error
-      const isRetryable = 
-        error.code === "PGRST301" || // Table not found - might be eventual consistency
-        error.code === "42P01" || // Undefined table (may be timing issue)
-        error.message?.includes("connection") ||
-        error.message?.includes("timeout") ||
-        error.message?.includes("temporarily unavailable")
-
-      if (isRetryable && attempt < MAX_ATTEMPTS) {
-        // Exponential backoff: 100ms, 200ms, 400ms
-        const delay = BASE_DELAY * Math.pow(2, attempt - 1)
-        console.warn(`[Attempt ${attempt}/${MAX_ATTEMPTS}] Retryable error encountered, retrying after ${delay}ms:`, {
-          qrCodeId,
-          memberId,
-          eventId,
-          errorMessage: error.message,
-          errorCode: error.code,
-        })
-        
-        await new Promise((resolve) => setTimeout(resolve, delay))
-        return persistQRMappingToSupabase(qrCodeId, memberId, eventId, attempt + 1)
-      }
+// Creates a household in the current event and registers its members into
+// it. Members that cannot be saved are left out of the result, so callers can
+// compare its length with what they passed in.
+export const registerHousehold = async (
+  name: string,
+  members: Omit<TajneedMember, "id" | "eventId" | "createdAt" | "householdId">[],
+): Promise<{ household: Household; members: TajneedMember[] } | null> => {
+  const eventId = getCurrentEventId()
+  if (!eventId || !canAccessEvent(getEventScope(), eventId)) return null
+  if (members.some((member) => !isMemberInScope(eventId, member))) {
+    console.warn("Household has members outside your assigned regions:", name)
+    return null
+  }
 
-      // Non-retryable error or max attempts reached
-      console.error(`[Attempt ${attempt}/${MAX_ATTEMPTS}] Supabase upsert error for QR mapping:`, {
-        qrCodeId,
-        memberId,
-        eventId,
-        errorMessage: error.message,
-        errorDetails: error.details,
-        errorCode: error.code,
-        errorHint: error.hint,
-        isRetryable,
-        maxAttemptsReached: attempt >= MAX_ATTEMPTS,
-      })
-      
-      // Throw error so caller knows it failed
-      throw new Error(`Failed to persist QR mapping to Supabase after ${attempt} attempt(s): ${error.message}`)
-    }
+  const household: Household = { id: crypto.randomUUID(), eventId, name, createdAt: new Date().toISOString() }
+  if (!(await unlessOffline(storage.saveHousehold(household), false))) return null
 
-    console.log("✅ QR Code mapping successfully persisted to Supabase:", { qrCodeId, memberId, eventId })
-  } catch (err) {
-    console.error("Unexpected error while saving QR mapping to Supabase:", err)
-    throw err
+  const saved: TajneedMember[] = []
+  for (const member of members) {
+    const savedMember = await saveTajneedMember({ ...member, eventId, householdId: household.id })
+    if (savedMember) saved.push(savedMember)
   }
+  return { household, members: saved }
 }
 
-// Helper function to get member ID from QR code ID
-export const getMemberIdFromQRCode = async (qrCodeId: string): Promise<string | null> => {
-  // Try Supabase first so mappings are available across devices
-  if (isSupabaseConfigured && supabase) {
-    try {
-      const eventId = getCurrentEventId()
-      console.log("Querying Supabase for QR mapping:", { qrCodeId, eventId })
-      
-      // Query with event_id filter to get event-specific mapping
-      let query = supabase
-        .from("qr_mappings")
-        .select("member_id")
-        .eq("qr_code_id", qrCodeId)
-
-      // If we have an event ID, filter by it
-      if (eventId) {
-        query = query.eq("event_id", eventId)
-      }
+// Deletes a household; its members stay registered without one
+export const deleteHousehold = async (householdId: string): Promise<boolean> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return false
 
-      const { data, error } = await query.maybeSingle()
+  const members = await unlessOffline(storage.listMembers(eventId), null)
+  if (!members) return false
+  if (!members.filter((m) => m.householdId === householdId).every((member) => isMemberInScope(eventId, member))) {
+    console.warn("Household has members outside your assigned regions:", householdId)
+    return false
+  }
+  return unlessOffline(storage.deleteHousehold(householdId), false)
+}
 
-      if (error) {
-        // If the table doesn't exist or another DB error occurs, log and fall
-        // back to localStorage. Do not throw — keep user flow resilient.
-        console.warn("Error querying qr_mappings from Supabase (falling back to local):", {
-          qrCodeId,
-          eventId,
-          errorMessage: error.message,
-          errorDetails: error.details,
-          errorCode: error.code,
-          errorHint: error.hint,
-        })
-      } else if (data && (data as any).member_id) {
-        const mappedId = (data as any).member_id as string
-        console.log("✅ QR Code mapping found in Supabase:", { qrCodeId, mappedId, eventId })
-        return mappedId
-      } else {
-        console.log("No QR mapping found in Supabase, trying localStorage:", { qrCodeId, eventId })
-      }
-    } catch (err) {
-      console.warn("Unexpected error when querying Supabase for QR mapping, falling back to localStorage:", err)
-    }
-  } else {
-    console.log("Supabase not configured or unavailable, using localStorage for QR mapping:", { qrCodeId })
+// Helper function to store QR code ID to member ID mapping
+export const saveQRCodeMapping = async (qrCodeId: string, memberId: string): Promise<void> => {
+  try {
+    await storage.saveQRMapping(qrCodeId, memberId, getCurrentEventId())
+    console.log("QR Code mapping saved:", { qrCodeId, memberId })
+  } catch (err) {
+    console.warn("Failed to save QR mapping:", { qrCodeId, memberId, err })
   }
+}
 
-  // Local fallback (existing behavior)
-  const mappings = getFromLocalStorage(LOCAL_QR_CODE_MAPPING_KEY, {})
-  const mappedId = mappings[qrCodeId] || null
+// Helper function to get member ID from QR code ID
+export const getMemberIdFromQRCode = async (qrCodeId: string): Promise<string | null> => {
+  const eventId = getCurrentEventId()
+  const mappedId = await unlessOffline(storage.getQRMapping(qrCodeId, eventId), null)
   if (mappedId) {
-    console.log("✅ QR Code mapping found in localStorage:", { qrCodeId, mappedId })
+    console.log("✅ QR Code mapping found:", { qrCodeId, mappedId, eventId })
   } else {
-    console.log("❌ QR Code mapping NOT found (neither Supabase nor localStorage):", { qrCodeId })
+    console.log("❌ QR Code mapping NOT found:", { qrCodeId, eventId })
   }
   return mappedId
 }
@@ -446,21 +451,21 @@ export const getMemberIdFromQRCode = async (qrCodeId: string): Promise<string |
 export const findMemberByQRCodeId = async (qrCodeId: string): Promise<TajneedMember | null> => {
   // Get fresh members list
   let members = await getTajneedMembers()
-  
+
   // First, try direct lookup
   let member = members.find((m) => m.id === qrCodeId)
   if (member) {
     console.log("Member found by direct ID:", { qrCodeId, memberName: member.fullName })
     return member
   }
-  
+
   // If not found, check QR code mapping (this may query Supabase)
   const mappedId = await getMemberIdFromQRCode(qrCodeId)
   if (mappedId) {
     console.log("QR code mapping found:", { qrCodeId, mappedId })
     // Try to find member with mapped ID (even if it's the same as qrCodeId)
     member = members.find((m) => m.id === mappedId)
-    
+
     // If still not found, the member might have been just created
     // Try one more time with a fresh fetch
     if (!member) {
@@ -471,9 +476,9 @@ export const findMemberByQRCodeId = async (qrCodeId: string): Promise<TajneedMem
       if (member) {
         console.log("Member found by mapped ID after refresh:", { qrCodeId, mappedId, memberName: member.fullName })
       } else {
-        console.log("Member not found even with mapped ID:", { 
-          qrCodeId, 
-          mappedId, 
+        console.log("Member not found even with mapped ID:", {
+          qrCodeId,
+          mappedId,
           totalMembers: members.length,
           memberIds: members.slice(0, 5).map(m => m.id) // Log first 5 IDs for debugging
         })
@@ -491,11 +496,11 @@ export const findMemberByQRCodeId = async (qrCodeId: string): Promise<TajneedMem
       console.log("Member found by direct ID after refresh (no mapping):", { qrCodeId, memberName: member.fullName })
     }
   }
-  
+
   if (!member) {
     console.log("Member not found for QR code ID:", qrCodeId)
   }
-  
+
   return member || null
 }
 
@@ -506,685 +511,765 @@ export const findAttendanceRecordByQRCodeId = async (qrCodeId: string): Promise<
   if (!member) {
     return null
   }
-  
+
   // Then find attendance record by member ID
   const records = await getAttendanceRecords()
   return records.find((r) => r.memberId === member.id) || null
 }
 
-// Save tajneed member with a specific ID (for QR code registration)
-export const saveTajneedMemberWithId = async (
-  member: Omit<TajneedMember, "createdAt">,
-): Promise<TajneedMember | null> => {
-  const qrCodeId = member.id // Store the QR code ID before potentially changing it
-  
-  if (!isSupabaseConfigured) {
-    const allMembers = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-    // Check if member with this ID already exists
-    const existingIndex = allMembers.findIndex((m: TajneedMember) => m.id === member.id)
-    const newMember: TajneedMember = {
-      ...member,
-      id: member.id, // Use the QR code ID as the member ID for localStorage
-      createdAt: new Date().toISOString(),
-    }
-    
-     if (existingIndex !== -1) {
-      // Update existing member
-      allMembers[existingIndex] = newMember
-    } else {
-      // Add new member
-      allMembers.push(newMember)
-    }
-    saveToLocalStorage(LOCAL_TAJNEED_KEY, allMembers)
-    
-    // Store QR code mapping (always store it, even if ID matches, for consistency)
-    await saveQRCodeMapping(qrCodeId, newMember.id)
-    
-    console.log("Member saved to localStorage:", { 
-      qrCodeId, 
-      memberId: newMember.id, 
-      memberName: newMember.fullName,
-      totalMembers: allMembers.length 
-    })
-    
-    return newMember
-  }
+const rejectCard = (reason: ScannedCardRejection, message: string): ScannedCardCheck => ({ ok: false, reason, message })
 
-  // For Supabase, use upsert to handle both insert and update
-  // Note: If Supabase ID is auto-generated, we'll need to store the QR code ID in a separate field
-  // For now, try to use the ID directly, but fall back to regular insert if it fails
-  try {
-    // First, try to check if member exists
-    const { data: existing, error: checkError } = await supabase
-      .from(TAJNEED_TABLE)
-      .select("*")
-      .eq("id", member.id)
-      .maybeSingle()
-
-    if (existing) {
-      // Update existing member
-      const { data, error } = await supabase
-        .from(TAJNEED_TABLE)
-        .update({
-            event_id: member.eventId,
-            full_name: member.fullName,
-            tanzeem: member.tanzeem,
-            region: member.region,
-             jamaat: member.jamaat,
-          })
-        .eq("id", member.id)
-        .select()
-        .single()
-
-      if (error) {
-        console.error("Error updating tajneed member:", error)
-        return null
-      }
+const OFFLINE_UNPREPARED_MESSAGE =
+  "This device cannot check cards offline yet. Reconnect and reopen the scanner so it can prepare."
 
-      const savedMember = {
-        id: data.id,
-        eventId: data.event_id,
-        fullName: data.full_name,
-        tanzeem: data.tanzeem,
-        region: data.region,
-         jamaat: data.jamaat,
-        createdAt: data.created_at ?? new Date().toISOString(),
-      }
-      
-      // Store QR code mapping - await it to ensure it completes
-      await saveQRCodeMapping(qrCodeId, savedMember.id)
-      
-      return savedMember
-    } else {
-      // Try to insert with specific ID first
-      const { data, error } = await supabase
-        .from(TAJNEED_TABLE)
-        .insert([
-          {
-            id: member.id,
-            event_id: member.eventId,
-            full_name: member.fullName,
-            tanzeem: member.tanzeem,
-            region: member.region,
-             jamaat: member.jamaat,
-          },
-        ])
-        .select()
-        .single()
-
-      if (error) {
-        // If insert with custom ID fails (e.g., ID is auto-generated), 
-        // fall back to regular insert and store the QR code ID in a note or use it as a reference
-        console.warn("Could not insert with custom ID, using regular insert:", {
-          error,
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
-          code: error.code,
-        })
-        
-        // Use regular insert (Supabase will generate the ID)
-        const { data: newData, error: insertError } = await supabase
-          .from(TAJNEED_TABLE)
-          .insert([
-            {
-              event_id: member.eventId,
-              full_name: member.fullName,
-              tanzeem: member.tanzeem,
-              region: member.region,
-               jamaat: member.jamaat,
-            },
-          ])
-          .select()
-          .single()
-
-        if (insertError) {
-          console.error("Error saving tajneed member:", {
-            error: insertError,
-            message: insertError.message,
-            details: insertError.details,
-            hint: insertError.hint,
-            code: insertError.code,
-          })
-          return null
-        }
+// The event's card registry, or the copy prepareOfflineScanning kept while offline
+const getScanCards = async (eventId: string): Promise<IDCard[]> => {
+  try {
+    return await storage.listCards(eventId)
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    return getOfflineSnapshot<IDCard>(CARDS_SNAPSHOT, eventId)
+  }
+}
 
-        // Return with the generated ID and store QR code mapping
-        const savedMember = {
-          id: newData.id,
-          eventId: newData.event_id,
-          fullName: newData.full_name,
-          tanzeem: newData.tanzeem,
-          region: newData.region,
-           jamaat: newData.jamaat,
-          createdAt: newData.created_at ?? new Date().toISOString(),
-        }
-        
-        // Store QR code mapping so we can find this member by QR code ID later - await it
-        await saveQRCodeMapping(qrCodeId, savedMember.id)
-        
-        return savedMember
-      }
+const findScanCard = async (eventId: string, cardId: string): Promise<IDCard | null> => {
+  try {
+    return await storage.getCard(cardId)
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    return (await getOfflineSnapshot<IDCard>(CARDS_SNAPSHOT, eventId)).find((card) => card.id === cardId) || null
+  }
+}
 
-      const savedMember = {
-        id: data.id,
-        eventId: data.event_id,
-        fullName: data.full_name,
-        tanzeem: data.tanzeem,
-        region: data.region,
-         jamaat: data.jamaat,
-        createdAt: data.created_at ?? new Date().toISOString(),
-      }
-      
-      // Store QR code mapping - await it to ensure it completes
-      await saveQRCodeMapping(qrCodeId, savedMember.id)
-      
-      return savedMember
-    }
-  } catch (err: any) {
-    console.error("Error in saveTajneedMemberWithId:", err)
+const getCachedQRKey = (eventId: string): ScannerQRKey | null => {
+  try {
+    const cached = getFromLocalStorage(`${LOCAL_QR_KEY_PREFIX}_${eventId}`) as ScannerQRKey | null
+    return cached?.eventId === eventId && cached.publicKey ? cached : null
+  } catch {
     return null
   }
 }
 
-export const updateTajneedMember = async (
-  id: string,
-  updates: Partial<Omit<TajneedMember, "id" | "eventId" | "createdAt">>,
-): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const allMembers = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-    const index = allMembers.findIndex((member: TajneedMember) => member.id === id)
-    if (index !== -1) {
-      allMembers[index] = { ...allMembers[index], ...updates }
-      saveToLocalStorage(LOCAL_TAJNEED_KEY, allMembers)
-      return true
+// Called when a scanner page opens. Keeps what verifyScannedCard needs once
+// the connection drops: the event's card registry, its surplus batches, and
+// its public QR key and legacy window from /api/qr/key. The event's settings are
+// kept too, so meal windows are still enforced.
+export const prepareOfflineScanning = async (): Promise<void> => {
+  const eventId = getCurrentEventId()
+  if (!eventId || !usesScanQueue()) return
+  localStorage.removeItem(`${RETIRED_QR_KEY_PREFIX}_${eventId}`)
+
+  try {
+    saveOfflineSnapshot(CARDS_SNAPSHOT, eventId, await storage.listCards(eventId))
+    await getSurplusBatches()
+    await getSettings()
+
+    const response = await fetch(`/api/qr/key?eventId=${encodeURIComponent(eventId)}`)
+    if (!response.ok) {
+      // No longer allowed to scan this event: forget its key
+      localStorage.removeItem(`${LOCAL_QR_KEY_PREFIX}_${eventId}`)
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error fetching the event's QR key (${response.status}):`, error)
+      return
     }
-    return false
+    saveToLocalStorage(`${LOCAL_QR_KEY_PREFIX}_${eventId}`, await response.json())
+  } catch (err) {
+    if (isOfflineError(err) || isNetworkError(err)) {
+      console.warn("Offline: scanning with the data cached earlier")
+      return
+    }
+    console.error("Error preparing offline scanning:", err)
   }
+}
 
-  const updateData: Record<string, any> = {}
-
-  if (updates.fullName) updateData.full_name = updates.fullName
-  if (updates.tanzeem) updateData.tanzeem = updates.tanzeem
-  if (updates.region) updateData.region = updates.region
-  if (updates.jamaat) updateData.jamaat = updates.jamaat
-
-  const { error } = await supabase.from(TAJNEED_TABLE).update(updateData).eq("id", id)
-
-  if (error) {
-    console.error("Error updating tajneed member:", error)
-    return false
+// Revoked and lost cards are rejected; cards the registry has never seen were
+// printed before it existed and are still accepted
+const acceptCard = async (cardId: string, card: IDCard | null, legacy: boolean): Promise<ScannedCardCheck> => {
+  if (card && card.status !== "active") {
+    const what = card.status === "lost" ? "reported lost" : "revoked"
+    const when = card.revokedAt ? new Date(card.revokedAt).toLocaleDateString() : ""
+    return rejectCard(
+      "revoked",
+      card.replacedBy
+        ? `This card was ${what}. A replacement was issued on ${when}.`
+        : `This card was ${what}${when ? ` on ${when}` : ""}.`,
+    )
   }
 
-  return true
+  const batch = await getSurplusBatchForCode(cardId)
+  if (batch?.voidedAt) {
+    return rejectCard("voided", `This surplus card's batch was voided on ${new Date(batch.voidedAt).toLocaleDateString()}.`)
+  }
+  return { ok: true, cardId, legacy }
 }
 
-export const deleteTajneedMember = async (id: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const allMembers = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-    const filtered = allMembers.filter((member: TajneedMember) => member.id !== id)
-    saveToLocalStorage(LOCAL_TAJNEED_KEY, filtered)
-    return true
+// Unsigned cards carry nothing to verify, so only ids the event already knows
+// are read: a card in its registry, a registered member, or a code from one of
+// its surplus batches
+const isKnownLegacyCard = async (eventId: string, cardId: string, card: IDCard | null): Promise<boolean> => {
+  if (card) return card.eventId === eventId
+  if (isSurplusCode(cardId)) {
+    const batch = await getSurplusBatchForCode(cardId)
+    return !!batch && getSurplusCardCodes(batch).includes(cardId)
   }
+  return (await getTajneedMembers()).some((member) => member.id === cardId)
+}
 
-  const { error } = await supabase.from(TAJNEED_TABLE).delete().eq("id", id)
+// Null when the signature is valid. Online the route handler checks it;
+// offline the public key prepareOfflineScanning cached does.
+const checkSignature = async (
+  payload: QRPayload,
+  scannedText: string,
+  cachedKey: ScannerQRKey | null,
+): Promise<ScannedCardCheck | null> => {
+  const forged = rejectCard("forged", "This card's signature does not match. It may be forged.")
+  try {
+    const response = await fetch("/api/qr/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ payload: scannedText.trim() }),
+    })
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error verifying QR code (${response.status}):`, error)
+      return rejectCard("unverifiable", "The card could not be verified. Please try again.")
+    }
 
-  if (error) {
-    console.error("Error deleting tajneed member:", error)
-    return false
+    const { valid } = await response.json()
+    return valid ? null : forged
+  } catch (err) {
+    if (!isOffline() && !isNetworkError(err)) {
+      console.error("Error verifying QR code:", err)
+      return rejectCard("unverifiable", "The card could not be verified. Please try again.")
+    }
+    if (!cachedKey || cachedKey.keyVersion !== payload.keyVersion) {
+      return rejectCard("unverifiable", OFFLINE_UNPREPARED_MESSAGE)
+    }
+    return (await verifyQRPayload(payload, cachedKey.publicKey)) ? null : forged
   }
-
-  return true
 }
 
-// Attendance Records
-export const getAttendanceRecords = async (): Promise<AttendanceRecord[]> => {
+// Checks a scanned ID card before it is looked up. Signed cards must belong to
+// the current event, carry its current key version and a valid signature.
+// Cards printed before signing must name a card the event knows, and are only
+// read until the event's legacy window closes (see getLegacyQrUntil). A typed
+// member code (KH-0042) is looked up in the current event instead. Every path
+// rejects revoked and lost cards. Offline, the public key, registry and
+// legacy window cached by prepareOfflineScanning stand in; a device without
+// them refuses the card.
+// Member codes are only read when typed: a QR code carrying "KH-0042" is
+// not a card anyone signed. The typed member comes back for the operator to
+// check against the person before letting them through.
+export const verifyScannedCard = async (scannedText: string, source: ScanSource): Promise<ScannedCardCheck> => {
   const eventId = getCurrentEventId()
-  if (!eventId) return []
-
-  if (!isSupabaseConfigured) {
-    const records = getFromLocalStorage(LOCAL_ATTENDANCE_KEY, [])
-    const members = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
-    return records
-      .filter((record: AttendanceRecord) => record.eventId === eventId)
-      .map((record: AttendanceRecord) => ({
-        ...record,
-        member: members.find((member: TajneedMember) => member.id === record.memberId),
-      }))
-  }
-
-  const { data, error } = await supabase
-    .from(ATTENDANCE_TABLE)
-    .select(
-      `
-      id,
-      event_id,
-      member_id,
-      recorded_at,
-      member:${TAJNEED_TABLE}(
-        id,
-        event_id,
-        full_name,
-        tanzeem,
-        region,
-         jamaat,
-        created_at
-      )
-    `,
+  if (!eventId) return rejectCard("unverifiable", "Select an event before scanning cards.")
+  const settings = await getSettings()
+
+  const memberCode =
+    source === "typed" &&
+    normalizeMemberCode(
+      scannedText,
+      getTanzeemCategories(settings).map((category) => category.code),
     )
-    .eq("event_id", eventId)
-    .order("recorded_at", { ascending: false })
-
-  if (error) {
-    console.error("Error fetching attendance records:", error)
-    return []
+  if (memberCode) {
+    const member = (await getTajneedMembers()).find((m) => m.memberCode === memberCode)
+    if (!member) return rejectCard("unknown-code", `No member with code ${memberCode} is registered for this event.`)
+
+    // A member whose every card was revoked or lost cannot be let in by code
+    const cards = (await getScanCards(eventId)).filter((card) => card.memberId === member.id)
+    if (cards.length > 0 && !cards.some((card) => card.status === "active")) {
+      return rejectCard("revoked", `${member.fullName}'s ID card was revoked or reported lost.`)
+    }
+    return { ok: true, cardId: member.id, legacy: false, typedMember: member }
   }
 
-  return (
-  data?.map((record: any) => ({
-      id: record.id,
-      eventId: record.event_id,
-      memberId: record.member_id,
-      recordedAt: record.recorded_at,
-        member: record.member
-        ? {
-            id: record.member.id,
-            eventId: record.member.event_id,
-            fullName: record.member.full_name,
-            tanzeem: record.member.tanzeem,
-            region: record.member.region,
-           jamaat: record.member.jamaat,
-            createdAt: record.member.created_at,
-          }
-        : undefined,
-    })) || []
-  )
-}
-
-export const addAttendanceRecord = async (memberId: string): Promise<AttendanceRecord | null> => {
-  const eventId = getCurrentEventId()
-  if (!eventId) return null
+  // Offline the event's settings cannot be read, so the scanner's cached key
+  // and legacy window stand in for them
+  const knowsSettings = settings.id === eventId
+  const cachedKey = getCachedQRKey(eventId)
+  const keyVersion = knowsSettings ? (settings.qrKeyVersion ?? 1) : cachedKey?.keyVersion
+  const legacyQrUntil = knowsSettings ? getLegacyQrUntil(settings) : cachedKey?.legacyQrUntil
 
-  if (!isSupabaseConfigured) {
-    const records = getFromLocalStorage(LOCAL_ATTENDANCE_KEY, [])
-    const members = getFromLocalStorage(LOCAL_TAJNEED_KEY, [])
+  if (!isSignedQRText(scannedText)) {
+    const cardId = readLegacyCardId(scannedText)
+    if (!cardId) return rejectCard("forged", "This QR code is not a Jalsa ID card.")
+    if (!legacyQrUntil) return rejectCard("unverifiable", OFFLINE_UNPREPARED_MESSAGE)
 
-    const exists = records.some(
-      (record: AttendanceRecord) => record.eventId === eventId && record.memberId === memberId,
-    )
-    if (exists) {
-      return null
+    const today = new Date().toISOString().split("T")[0]
+    if (today > legacyQrUntil) {
+      return rejectCard("legacy-expired", "Cards printed before QR signing are no longer accepted. Please reprint this card.")
     }
 
-    const member = members.find((m: TajneedMember) => m.id === memberId)
-    if (!member) return null
-
-    const newRecord: AttendanceRecord = {
-      id: Date.now().toString(),
-      eventId,
-      memberId,
-      recordedAt: new Date().toISOString(),
-      member,
+    const card = await findScanCard(eventId, cardId)
+    if (!(await isKnownLegacyCard(eventId, cardId, card))) {
+      return rejectCard("forged", "This card is not registered for this event. It may be forged.")
     }
+    return acceptCard(cardId, card, true)
+  }
 
-    records.push(newRecord)
-    saveToLocalStorage(LOCAL_ATTENDANCE_KEY, records)
-    return newRecord
-  }
-
-  // Check if member exists first
-  const { data: memberExists, error: memberCheckError } = await supabase
-    .from(TAJNEED_TABLE)
-    .select("id")
-    .eq("id", memberId)
-    .maybeSingle()
-
-  if (memberCheckError) {
-    console.error("Error checking member existence:", {
-      error: memberCheckError,
-      message: memberCheckError.message,
-      details: memberCheckError.details,
-      hint: memberCheckError.hint,
-      code: memberCheckError.code,
-    })
+  const payload = parseQRPayload(scannedText)
+  if (!payload) return rejectCard("forged", "This QR code has been altered and cannot be trusted.")
+  if (payload.eventId !== eventId) {
+    return rejectCard("foreign-event", "This card was issued for a different event.")
   }
 
-  if (!memberExists) {
-    console.warn("Member not found in database:", memberId)
-    return null
+  if (keyVersion === undefined) return rejectCard("unverifiable", OFFLINE_UNPREPARED_MESSAGE)
+  if (payload.keyVersion < keyVersion) {
+    return rejectCard("retired-key", "This card was printed before the event's QR key was changed. Please reprint it.")
+  }
+  if (payload.keyVersion > keyVersion) {
+    // Offline, the key may have been changed since this device cached it
+    return knowsSettings
+      ? rejectCard("forged", "This card's QR key does not exist for this event.")
+      : rejectCard("unverifiable", OFFLINE_UNPREPARED_MESSAGE)
   }
 
-  // Check if attendance record already exists
-  const { data: existingRecord } = await supabase
-    .from(ATTENDANCE_TABLE)
-    .select("id")
-    .eq("event_id", eventId)
-    .eq("member_id", memberId)
-    .maybeSingle()
+  const rejection = await checkSignature(payload, scannedText, cachedKey)
+  if (rejection) return rejection
+  return acceptCard(payload.cardId, await findScanCard(eventId, payload.cardId), false)
+}
 
-  if (existingRecord) {
-    console.warn("Attendance record already exists for member:", memberId)
-    return null
-  }
+const QR_SIGN_BATCH_SIZE = 500
 
-  const { data, error } = await supabase
-    .from(ATTENDANCE_TABLE)
-    .insert([
-      {
-        event_id: eventId,
-        member_id: memberId,
-      },
-    ])
-    .select(
-      `
-      id,
-      event_id,
-      member_id,
-      recorded_at,
-      member:${TAJNEED_TABLE}(
-        id,
-        event_id,
-        full_name,
-        tanzeem,
-        region,
-        jamaat,
-        created_at
-      )
-    `,
-    )
-    .single()
-
-  if (error) {
-    console.error("Error adding attendance record:", {
-      error,
-      message: error.message,
-      details: error.details,
-      hint: error.hint,
-      code: error.code,
-      memberId,
-      eventId,
-    })
+// Signed QR payloads for a batch of ID cards, in the order of cardIds.
+// Signing happens server-side, with the key version the route reads from the
+// event, so the private key never reaches the browser.
+export const signCardPayloads = async (eventId: string, cardIds: string[]): Promise<string[] | null> => {
+  const event = await unlessOffline(storage.getEvent(eventId), null)
+  if (!event) {
+    console.error("Cannot sign ID cards for an unknown event:", eventId)
     return null
   }
 
-  return {
-    id: data.id,
-    eventId: data.event_id,
-    memberId: data.member_id,
-    recordedAt: data.recorded_at,
-      member: data.member
-      ? {
-          id: data.member.id,
-          eventId: data.member.event_id,
-          fullName: data.member.full_name,
-          tanzeem: data.member.tanzeem,
-          region: data.member.region,
-          jamaat: data.member.jamaat,
-          createdAt: data.member.created_at,
-        }
-      : undefined,
+  try {
+    const payloads: string[] = []
+    // The route signs at most 1000 cards per request
+    for (let start = 0; start < cardIds.length; start += QR_SIGN_BATCH_SIZE) {
+      const response = await fetch("/api/qr/sign", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          eventId,
+          cardIds: cardIds.slice(start, start + QR_SIGN_BATCH_SIZE),
+          // Only read in local mode; with Supabase the route reads the event
+          keyVersion: event.qrKeyVersion ?? 1,
+        }),
+      })
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: response.statusText }))
+        console.error(`Error signing ID cards (${response.status}):`, error)
+        return null
+      }
+      const { payloads: batch } = await response.json()
+      payloads.push(...batch)
+    }
+    return payloads
+  } catch (err) {
+    console.error("Error signing ID cards:", err)
+    return null
   }
 }
 
-export const removeAttendanceRecord = async (recordId: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const records = getFromLocalStorage(LOCAL_ATTENDANCE_KEY, [])
-    const filtered = records.filter((record: AttendanceRecord) => record.id !== recordId)
-    saveToLocalStorage(LOCAL_ATTENDANCE_KEY, filtered)
-    return true
-  }
+// ID card registry
+// Cards of the current event's members the user can see
+export const getIDCards = async (): Promise<IDCard[]> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return []
 
-  const { error } = await supabase.from(ATTENDANCE_TABLE).delete().eq("id", recordId)
+  const [cards, members] = await Promise.all([unlessOffline(storage.listCards(eventId), []), getTajneedMembers()])
+  const memberIds = new Set(members.map((member) => member.id))
+  return cards.filter((card) => memberIds.has(card.memberId))
+}
 
-  if (error) {
-    console.error("Error removing attendance record:", error)
-    return false
-  }
+// Card codes to print for each member, in the order given. A member's current
+// active card is reprinted as is; members without a card are issued one whose
+// code is their member id (what cards carried before the registry existed).
+export const issueIDCards = async (members: Pick<TajneedMember, "id" | "eventId">[]): Promise<string[] | null> => {
+  const eventIds = Array.from(new Set(members.map((member) => member.eventId)))
+  const lists = await Promise.all(eventIds.map((eventId) => unlessOffline(storage.listCards(eventId), null)))
+  if (lists.some((list) => !list)) return null
+  const cards = lists.flat() as IDCard[]
+
+  const activeCardIds = new Map<string, string>()
+  cards
+    .filter((card) => card.status === "active")
+    .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt))
+    .forEach((card) => activeCardIds.set(card.memberId, card.id)) // Latest card wins
+
+  const issuedAt = new Date().toISOString()
+  const newCards: IDCard[] = members
+    .filter((member) => !activeCardIds.has(member.id))
+    .map((member) => ({
+      id: cards.some((card) => card.id === member.id) ? crypto.randomUUID() : member.id,
+      memberId: member.id,
+      eventId: member.eventId,
+      status: "active",
+      issuedAt,
+      reissueCount: 0,
+    }))
+  if (newCards.length > 0 && !(await unlessOffline(storage.saveCards(newCards), false))) return null
 
-  return true
+  newCards.forEach((card) => activeCardIds.set(card.memberId, card.id))
+  return members.map((member) => activeCardIds.get(member.id) || member.id)
 }
 
-// Regions
-export const getRegions = async (): Promise<Region[]> => {
+// Retires every active card of a member (marking it revoked or lost) and
+// issues a replacement with a new code. Print the member's card afterwards to
+// get the replacement.
+export const reissueIDCard = async (
+  memberId: string,
+  status: Exclude<IDCardStatus, "active">,
+): Promise<IDCard | null> => {
   const eventId = getCurrentEventId()
-  if (!eventId) return []
+  if (!eventId || !(await isMemberIdInScope(memberId))) return null
 
-  if (!isSupabaseConfigured) {
-    const allRegions = getFromLocalStorage("regions", [])
-    return allRegions.filter((r: Region) => r.eventId === eventId)
-  }
+  const cards = await unlessOffline(storage.listCards(eventId), null)
+  if (!cards) return null
 
-  const { data, error } = await supabase
-    .from("regions")
-    .select(
-      `
-      id,
-      event_id,
-      name,
-  jamaat(name)
-    `,
-    )
-    .eq("event_id", eventId)
-    .order("name", { ascending: true })
+  const memberCards = cards.filter((card) => card.memberId === memberId)
+  const now = new Date().toISOString()
+  const replacement: IDCard = {
+    id: crypto.randomUUID(),
+    memberId,
+    eventId,
+    status: "active",
+    issuedAt: now,
+    reissueCount: Math.max(0, ...memberCards.map((card) => card.reissueCount + 1)),
+  }
 
-  if (error) {
-    console.error("Error fetching regions:", error)
-    return []
+  const retired: IDCard[] = memberCards
+    .filter((card) => card.status === "active")
+    .map((card) => ({ ...card, status, revokedAt: now, replacedBy: replacement.id }))
+  // A card printed before the registry existed carries the member id
+  if (!memberCards.some((card) => card.id === memberId)) {
+    retired.push({ id: memberId, memberId, eventId, status, issuedAt: now, reissueCount: 0, revokedAt: now, replacedBy: replacement.id })
+    replacement.reissueCount = Math.max(replacement.reissueCount, 1)
   }
 
-  return (
-  data?.map((region: any) => ({
-      id: region.id,
-      eventId: region.event_id,
-      name: region.name,
-  jamaat: region.jamaat?.map((m: any) => m.name) || [],
-    })) || []
-  )
+  const saved = await unlessOffline(storage.saveCards([...retired, replacement]), false)
+  return saved ? replacement : null
 }
 
-export const saveRegion = async (region: Region): Promise<Region | null> => {
-  if (!isSupabaseConfigured) {
-    const allRegions = getFromLocalStorage("regions", [])
-    const newRegion = {
-      ...region,
-      id: Date.now().toString(),
-    }
-    allRegions.push(newRegion)
-    saveToLocalStorage("regions", allRegions)
-    return newRegion
-  }
-
-  const { data: regionData, error: regionError } = await supabase
-    .from("regions")
-    .insert([
-      {
-        event_id: region.eventId,
-        name: region.name,
-      },
-    ])
-    .select()
-    .single()
-
-  if (regionError) {
-    console.error("Error saving region:", regionError)
-    return null
-  }
+// Print log of the current event's members the user can see (see lib/print-queue.ts)
+export const getCardPrints = async (): Promise<CardPrint[]> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return []
 
-  // Insert jamaat
-  if (region.jamaat && region.jamaat.length > 0) {
-    const jamaatData = region.jamaat.map((m) => ({
-      region_id: regionData.id,
-      name: m,
-    }))
+  const [prints, members] = await Promise.all([unlessOffline(storage.listCardPrints(eventId), []), getTajneedMembers()])
+  const memberIds = new Set(members.map((member) => member.id))
+  return prints.filter((print) => memberIds.has(print.memberId))
+}
 
-    const { error: jamaatError } = await supabase.from("jamaat").insert(jamaatData)
+// Logs each member's card (cardIds[i] for members[i]) as printed by the current user
+export const recordCardPrints = async (members: TajneedMember[], cardIds: string[]): Promise<boolean> => {
+  const user = getCurrentUser()
+  const printedAt = new Date().toISOString()
+  const prints: CardPrint[] = members.map((member, i) => ({
+    id: crypto.randomUUID(),
+    eventId: member.eventId,
+    memberId: member.id,
+    cardId: cardIds[i],
+    printedAt,
+    printedBy: user ? user.fullName || user.username || user.email : undefined,
+    fingerprint: getCardFingerprint(member),
+  }))
+  return unlessOffline(storage.saveCardPrints(prints), false)
+}
 
-    if (jamaatError) {
-      console.error("Error saving jamaat:", jamaatError)
-    }
-  }
+// Logs members' current cards as printed without printing them, for cards
+// printed before the log existed
+export const markIDCardsPrinted = async (members: TajneedMember[]): Promise<boolean> => {
+  const cardIds = await issueIDCards(members)
+  if (!cardIds) return false
+  return recordCardPrints(members, cardIds)
+}
 
-  return {
-    id: regionData.id,
-    eventId: regionData.event_id,
-    name: regionData.name,
-    jamaat: region.jamaat || [],
+// Surplus card batches
+export const getSurplusBatches = async (): Promise<SurplusBatch[]> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return []
+
+  try {
+    const batches = await storage.listSurplusBatches(eventId)
+    saveOfflineSnapshot(SURPLUS_SNAPSHOT, eventId, batches)
+    return batches
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    console.warn(err.message)
+    return getOfflineSnapshot<SurplusBatch>(SURPLUS_SNAPSHOT, eventId)
   }
 }
 
-export const updateRegion = async (id: string, updates: Partial<Region>): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const allRegions = getFromLocalStorage("regions", [])
-    const index = allRegions.findIndex((r: Region) => r.id === id)
-    if (index !== -1) {
-      allRegions[index] = { ...allRegions[index], ...updates }
-      saveToLocalStorage("regions", allRegions)
-      return true
-    }
-    return false
+// Batch a surplus card code belongs to; null for other codes and for surplus
+// cards printed before batches were recorded
+export const getSurplusBatchForCode = async (code: string): Promise<SurplusBatch | null> => {
+  const batchCode = getSurplusBatchCode(code)
+  if (!batchCode) return null
+  const batches = await getSurplusBatches()
+  return batches.find((batch) => batch.code === batchCode) || null
+}
+
+// Records a new batch; print it with generateSurplusIDCards
+export const createSurplusBatch = async (count: number, tanzeem?: Tanzeem): Promise<SurplusBatch | null> => {
+  const eventId = getCurrentEventId()
+  if (!eventId || !Number.isInteger(count) || count < 1 || count > MAX_SURPLUS_BATCH_SIZE) return null
+
+  const createdAt = new Date()
+  const batch: SurplusBatch = {
+    id: crypto.randomUUID(),
+    eventId,
+    code: String(createdAt.getTime()), // Same shape as the codes on batches printed before they were recorded
+    count,
+    tanzeem,
+    createdAt: createdAt.toISOString(),
   }
+  const saved = await unlessOffline(storage.saveSurplusBatch(batch), false)
+  return saved ? batch : null
+}
 
-  const updateData: Record<string, any> = {}
+// Claimed surplus cards per batch code. A card is claimed once it is mapped
+// to a member, which makes it a card in the registry.
+export const getSurplusClaimCounts = async (): Promise<Record<string, number>> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return {}
 
-  if (updates.name) updateData.name = updates.name
+  const cards = await unlessOffline(storage.listCards(eventId), [])
+  const counts: Record<string, number> = {}
+  cards.forEach((card) => {
+    const batchCode = getSurplusBatchCode(card.id)
+    if (batchCode) counts[batchCode] = (counts[batchCode] || 0) + 1
+  })
+  return counts
+}
 
-  const { error } = await supabase.from("regions").update(updateData).eq("id", id)
+// Only batches nobody has claimed a card from can be voided
+export const voidSurplusBatch = async (batchId: string): Promise<boolean> => {
+  const batch = (await getSurplusBatches()).find((b) => b.id === batchId)
+  if (!batch || batch.voidedAt) return false
 
-  if (error) {
-    console.error("Error updating region:", error)
+  const claims = await getSurplusClaimCounts()
+  if (claims[batch.code]) {
+    console.warn("Cannot void a surplus batch with claimed cards:", batch.code)
     return false
   }
-
-  return true
+  return unlessOffline(storage.saveSurplusBatch({ ...batch, voidedAt: new Date().toISOString() }), false)
 }
 
-export const deleteRegion = async (id: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const allRegions = getFromLocalStorage("regions", [])
-    const filtered = allRegions.filter((r: Region) => r.id !== id)
-    saveToLocalStorage("regions", filtered)
-    return true
+// Save tajneed member with a specific ID (for QR code registration)
+export const saveTajneedMemberWithId = async (
+  member: Omit<TajneedMember, "createdAt">,
+): Promise<TajneedMember | null> => {
+  const { id: qrCodeId, ...fields } = member
+  if (!canAccessEvent(getEventScope(), member.eventId) || !isMemberInScope(member.eventId, member)) {
+    console.warn("Member is outside your assigned events or regions:", member.fullName)
+    return null
   }
 
-  const { error } = await supabase.from("regions").delete().eq("id", id)
+  try {
+    const existing = await storage.getMember(qrCodeId)
+    const [coded] = existing ? [member] : await withMemberCodes(member.eventId, [member])
+    let savedMember = existing
+      ? await storage.updateMember(qrCodeId, fields)
+      : await storage.insertMember(coded)
+
+    if (!savedMember && !existing) {
+      // The backend may generate its own ids; save without one and keep the
+      // QR code id reachable through the mapping below
+      savedMember = await storage.insertMember({ ...fields, memberCode: coded.memberCode })
+    }
+    if (!savedMember) return null
 
-  if (error) {
-    console.error("Error deleting region:", error)
-    return false
+    // Store QR code mapping (always store it, even if ID matches, for consistency)
+    await saveQRCodeMapping(qrCodeId, savedMember.id)
+    return savedMember
+  } catch (err) {
+    console.error("Error in saveTajneedMemberWithId:", err)
+    return null
   }
+}
+
+export const updateTajneedMember = async (
+  id: string,
+  updates: Partial<Omit<TajneedMember, "id" | "eventId" | "createdAt">>,
+): Promise<boolean> => {
+  if (!(await isMemberIdInScope(id))) return false
+  if (updates.region !== undefined && !isMemberInScope(getCurrentEventId(), { region: updates.region })) return false
 
-  return true
+  return !!(await unlessOffline(storage.updateMember(id, updates), null))
 }
 
-export const addJamaat = async (regionId: string, jamaatName: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const allRegions = getFromLocalStorage("regions", [])
-    const region = allRegions.find((r: Region) => r.id === regionId)
-    if (region) {
-      if (!region.jamaat.includes(jamaatName)) {
-        region.jamaat.push(jamaatName)
-        saveToLocalStorage("regions", allRegions)
-        return true
-      }
-    }
-    return false
-  }
+export const deleteTajneedMember = async (id: string): Promise<boolean> => {
+  if (!(await isMemberIdInScope(id))) return false
+
+  const member = await unlessOffline(storage.getMember(id), null)
+  // The photo goes first, while the route can still check the member's event
+  if (member?.photoUrl && usesScanQueue()) await sendMemberPhoto(id, "DELETE")
+  const deleted = await unlessOffline(storage.deleteMember(id), false)
+  if (deleted && member?.photoUrl && !usesScanQueue()) await unlessOffline(storage.removeMemberPhoto(member), false)
+  return deleted
+}
 
-  const { error } = await supabase.from("jamaat").insert([
-    {
-      region_id: regionId,
-      name: jamaatName,
-    },
-  ])
+// Gives every member of the current event who has no code one, in
+// registration order, and returns how many were coded
+export const assignMissingMemberCodes = async (): Promise<number> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return 0
 
-  if (error) {
-    console.error("Error adding jamaat:", error)
-    return false
+  const uncoded = (await getTajneedMembers())
+    .filter((member) => !member.memberCode)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  const coded = await withMemberCodes(eventId, uncoded)
+
+  let assigned = 0
+  for (const member of coded) {
+    if (!member.memberCode) continue
+    if (await unlessOffline(storage.updateMember(member.id, { memberCode: member.memberCode }), null)) assigned++
   }
+  return assigned
+}
 
-  return true
+// Moves members to new tanzeems (see the Tanzeem check on /tajneed) and
+// returns how many were updated
+export const reclassifyTajneedMembers = async (changes: { memberId: string; tanzeem: Tanzeem }[]): Promise<number> => {
+  let updated = 0
+  for (const change of changes) {
+    if (await updateTajneedMember(change.memberId, { tanzeem: change.tanzeem })) updated++
+  }
+  return updated
 }
 
-export const deleteJamaat = async (regionId: string, jamaatName: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const allRegions = getFromLocalStorage("regions", [])
-    const region = allRegions.find((r: Region) => r.id === regionId)
-    if (region) {
-      region.jamaat = region.jamaat.filter((m: string) => m !== jamaatName)
-      saveToLocalStorage("regions", allRegions)
-      return true
+// With Supabase, photos are stored and removed by the route handler, which
+// checks the session; the browser cannot write to the private bucket
+const sendMemberPhoto = async (memberId: string, method: "PUT" | "DELETE", photo?: string): Promise<boolean> => {
+  try {
+    const response = await fetch(`/api/members/${encodeURIComponent(memberId)}/photo`, {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: photo ? JSON.stringify({ photo }) : undefined,
+    })
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error saving member photo (${response.status}):`, error)
+      return false
     }
+    return true
+  } catch (err) {
+    console.error("Error saving member photo:", err)
     return false
   }
+}
+
+// Stores a member's photo (a data URL from resizeMemberPhoto) and records
+// where it lives on the member; null removes the photo
+export const setTajneedMemberPhoto = async (memberId: string, photo: string | null): Promise<boolean> => {
+  if (!(await isMemberIdInScope(memberId))) return false
+  if (usesScanQueue()) return sendMemberPhoto(memberId, photo ? "PUT" : "DELETE", photo ?? undefined)
+
+  const member = await unlessOffline(storage.getMember(memberId), null)
+  if (!member) return false
+
+  if (!photo) {
+    if (member.photoUrl && !(await unlessOffline(storage.removeMemberPhoto(member), false))) return false
+    return !!(await unlessOffline(storage.updateMember(memberId, { photoUrl: "" }), null))
+  }
 
-  const { error } = await supabase.from("jamaat").delete().eq("region_id", regionId).eq("name", jamaatName)
+  const photoUrl = await unlessOffline(storage.uploadMemberPhoto(member, photo), null)
+  if (!photoUrl) return false
+  return !!(await unlessOffline(storage.updateMember(memberId, { photoUrl }), null))
+}
 
-  if (error) {
-    console.error("Error deleting jamaat:", error)
+// Merges a duplicate registration into the member being kept. The duplicate's
+// ID cards (including a pre-registry card carrying its member id) are moved
+// first so every card already printed keeps scanning, then its attendance,
+// security and catering history follow and the duplicate is deleted.
+export const mergeTajneedMembers = async (keepId: string, duplicateId: string): Promise<boolean> => {
+  const eventId = getCurrentEventId()
+  if (!eventId || keepId === duplicateId) return false
+  if ((await getPendingScans(eventId)).length > 0) {
+    console.warn("Sync queued scans before merging members")
     return false
   }
 
-  return true
+  const [kept, duplicate] = await Promise.all([
+    unlessOffline(storage.getMember(keepId), null),
+    unlessOffline(storage.getMember(duplicateId), null),
+  ])
+  if (!kept || !duplicate || kept.eventId !== eventId || duplicate.eventId !== eventId) return false
+  if (!(await isMemberIdInScope(keepId)) || !(await isMemberIdInScope(duplicateId))) return false
+
+  return unlessOffline(storage.mergeMember(duplicateId, keepId), false)
 }
 
-// Settings
-export const getSettings = async (): Promise<EventSettings> => {
+// Members of other events, or outside the user's regions, cannot be changed
+const isMemberIdInScope = async (memberId: string): Promise<boolean> => {
+  const member = await unlessOffline(storage.getMember(memberId), null)
+  if (!member) return true // Nothing to protect; the write itself will fail
+  return canAccessEvent(getEventScope(), member.eventId) && isMemberInScope(member.eventId, member)
+}
+
+// Attendance Records
+export const getAttendanceRecords = async (): Promise<AttendanceRecord[]> => {
   const eventId = getCurrentEventId()
-  if (!eventId) return getDefaultSettings()
+  if (!eventId) return []
 
-  if (!isSupabaseConfigured) {
-    const events = getFromLocalStorage("events_list", [])
-    const event = events.find((e: EventSettings) => e.id === eventId)
-    return event || getDefaultSettings()
+  try {
+    const records = await storage.listAttendance(eventId)
+    saveOfflineSnapshot(ATTENDANCE_SNAPSHOT, eventId, records)
+    const merged = mergeQueuedAttendance(records, await getQueuedAttendanceRecords(eventId))
+    return inRegionScope(eventId, merged, (record) => record.member?.region)
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    console.warn("Offline: using cached attendance records")
+    const cached = await getOfflineSnapshot<AttendanceRecord>(ATTENDANCE_SNAPSHOT, eventId)
+    const merged = mergeQueuedAttendance(cached, await getQueuedAttendanceRecords(eventId))
+    return inRegionScope(eventId, merged, (record) => record.member?.region)
   }
+}
 
-  const { data, error } = await supabase.from("events").select("*").eq("id", eventId).single()
+// Record an attendance scan in the offline queue. The record id is generated
+// here so security and catering scans made before sync can reference it.
+const queueAttendanceRecord = async (eventId: string, memberId: string): Promise<AttendanceRecord | null> => {
+  const existing = await getAttendanceRecords()
+  if (existing.some((record) => record.memberId === memberId)) {
+    return null
+  }
 
-  if (error || !data) {
-    console.error("Error fetching settings:", error)
-    return getDefaultSettings()
+  const member = (await getOfflineSnapshot<TajneedMember>(MEMBERS_SNAPSHOT, eventId)).find((m) => m.id === memberId)
+  if (!member) {
+    console.warn("Offline: member not in cached tajneed list, cannot queue attendance:", memberId)
+    return null
   }
+  if (!isMemberInScope(eventId, member)) {
+    console.warn("Member is outside your assigned regions:", member.fullName)
+    return null
+  }
+
+  const recordId = crypto.randomUUID()
+  const entry = await enqueueScan({
+    kind: "attendance",
+    eventId,
+    clientTimestamp: new Date().toISOString(),
+    label: member.fullName,
+    payload: { recordId, memberId },
+  })
 
   return {
-    id: data.id,
-    eventName: data.event_name,
-    startingDate: data.starting_date,
-    duration: data.duration,
-    location: data.location,
-    theme: data.theme,
-    createdAt: data.created_at,
+    id: recordId,
+    eventId,
+    memberId,
+    recordedAt: entry.clientTimestamp,
+    member,
   }
 }
 
-export const updateSettings = async (settings: EventSettings): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const events = getFromLocalStorage("events_list", [])
-    const index = events.findIndex((e: EventSettings) => e.id === settings.id)
-    if (index !== -1) {
-      events[index] = settings
-      saveToLocalStorage("events_list", events)
-      return true
+export const addAttendanceRecord = async (memberId: string): Promise<AttendanceRecord | null> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return null
+
+  if (usesScanQueue() && isOffline()) {
+    return queueAttendanceRecord(eventId, memberId)
+  }
+
+  try {
+    const member = await storage.getMember(memberId)
+    if (!member) {
+      console.warn("Member not found:", memberId)
+      return null
     }
-    return false
+    if (!isMemberInScope(eventId, member)) {
+      console.warn("Member is outside your assigned regions:", member.fullName)
+      return null
+    }
+
+    const existingRecord = await storage.findAttendance(eventId, memberId)
+    if (existingRecord) {
+      console.warn("Attendance record already exists for member:", memberId)
+      return null
+    }
+
+    return await storage.insertAttendance({ eventId, memberId })
+  } catch (err) {
+    if (isOfflineError(err) && usesScanQueue()) {
+      return queueAttendanceRecord(eventId, memberId)
+    }
+    throw err
   }
+}
 
-  const { error } = await supabase
-    .from("events")
-    .update({
-      event_name: settings.eventName,
-      starting_date: settings.startingDate,
-      duration: settings.duration,
-      location: settings.location,
-      theme: settings.theme,
-    })
-    .eq("id", settings.id)
+// Checks in the given members of a family (see the family card on /attendance)
+// and returns how many were added
+export const addHouseholdAttendance = async (memberIds: string[]): Promise<number> => {
+  let added = 0
+  for (const memberId of memberIds) {
+    if (await addAttendanceRecord(memberId)) added++
+  }
+  return added
+}
 
-  if (error) {
-    console.error("Error updating settings:", error)
-    return false
+export const removeAttendanceRecord = async (recordId: string): Promise<boolean> => {
+  const eventId = getCurrentEventId()
+  if (!eventId || !(await isAttendanceRecordInScope(eventId, recordId))) return false
+
+  return unlessOffline(storage.deleteAttendance(recordId), false)
+}
+
+// Regions
+export const getRegions = async (): Promise<Region[]> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return []
+
+  const regions = await unlessOffline(storage.listRegions(eventId), [])
+  return inRegionScope(eventId, regions, (region) => region.name)
+}
+
+// Regions of any event the user may access, e.g. when assigning users to it
+export const getRegionsForEvent = async (eventId: string): Promise<Region[]> => {
+  if (!canAccessEvent(getEventScope(), eventId)) return []
+
+  const regions = await unlessOffline(storage.listRegions(eventId), [])
+  return inRegionScope(eventId, regions, (region) => region.name)
+}
+
+export const saveRegion = async (region: Region): Promise<Region | null> => {
+  return unlessOffline(storage.insertRegion(region), null)
+}
+
+export const updateRegion = async (id: string, updates: Partial<Region>): Promise<boolean> => {
+  return unlessOffline(storage.updateRegion(id, updates), false)
+}
+
+export const deleteRegion = async (id: string): Promise<boolean> => {
+  return unlessOffline(storage.deleteRegion(id), false)
+}
+
+export const addJamaat = async (regionId: string, jamaatName: string): Promise<boolean> => {
+  return unlessOffline(storage.addJamaat(regionId, jamaatName), false)
+}
+
+export const deleteJamaat = async (regionId: string, jamaatName: string): Promise<boolean> => {
+  return unlessOffline(storage.deleteJamaat(regionId, jamaatName), false)
+}
+
+// Settings
+// Offline this is the copy from the last successful read, and the defaults
+// (with no id) when there is none
+export const getSettings = async (): Promise<EventSettings> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return getDefaultSettings()
+
+  try {
+    const event = await storage.getEvent(eventId)
+    if (event) saveOfflineSnapshot(EVENT_SNAPSHOT, eventId, [event])
+    return event || getDefaultSettings()
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    console.warn(err.message)
+    return (await getOfflineSnapshot<EventSettings>(EVENT_SNAPSHOT, eventId))[0] || getDefaultSettings()
   }
+}
 
-  return true
+export const updateSettings = async (settings: EventSettings): Promise<boolean> => {
+  return unlessOffline(storage.updateEvent(settings), false)
 }
 
 export const updateEvent = updateSettings
@@ -1204,323 +1289,241 @@ export const getTanzeemCounters = async (): Promise<Record<string, number>> => {
   const eventId = getCurrentEventId()
   if (!eventId) return {}
 
-  if (!isSupabaseConfigured) {
-    const counters = getFromLocalStorage(`counters_${eventId}`, {})
-    return counters
-  }
-
-  const { data, error } = await supabase.from("tanzeem_counters").select("*").eq("event_id", eventId)
-
-  if (error) {
-    console.error("Error fetching tanzeem counters:", error)
-    return {}
-  }
-
-  const counters: Record<string, number> = {}
-  data?.forEach((item: any) => {
-    counters[item.tanzeem] = item.counter
-  })
-
-  return counters
+  return unlessOffline(storage.getCounters(eventId), {})
 }
-export const incrementTanzeemCounter = async (tanzeem: string): Promise<number> => {
+
+export const incrementTanzeemCounter = async (tanzeemCode: string): Promise<number> => {
   const eventId = getCurrentEventId()
   if (!eventId) return 0
 
-  if (!isSupabaseConfigured) {
-    const counters = getFromLocalStorage(`counters_${eventId}`, {})
-    const newCounter = (counters[tanzeem] || 0) + 1
-    counters[tanzeem] = newCounter
-    saveToLocalStorage(`counters_${eventId}`, counters)
-    return newCounter
-  }
-
-  // Get current counter
-  const { data: existing } = await supabase
-    .from("tanzeem_counters")
-    .select("counter")
-    .eq("event_id", eventId)
-    .eq("tanzeem", tanzeem)
-    .single()
-
-  const newCounter = (existing?.counter || 0) + 1
-
-  // Upsert the counter
-  const { error } = await supabase.from("tanzeem_counters").upsert(
-    {
-      event_id: eventId,
-      tanzeem,
-      counter: newCounter,
-    },
-    { onConflict: "event_id,tanzeem" },
-  )
-
-  if (error) {
-    console.error("Error incrementing counter:", error)
-    return 0
-  }
-
-  return newCounter
+  return unlessOffline(storage.incrementCounter(eventId, tanzeemCode), 0)
 }
 
 export const resetTanzeemCounters = async (): Promise<boolean> => {
   const eventId = getCurrentEventId()
   if (!eventId) return false
 
-  if (!isSupabaseConfigured) {
-    localStorage.removeItem(`counters_${eventId}`)
-    return true
-  }
-
-  const { error } = await supabase.from("tanzeem_counters").delete().eq("event_id", eventId)
-
-  if (error) {
-    console.error("Error resetting counters:", error)
-    return false
-  }
-
-  return true
+  return unlessOffline(storage.resetCounters(eventId), false)
 }
 
 // Security Movements Management
 export const getSecurityMovements = async (): Promise<SecurityMovement[]> => {
   const eventId = getCurrentEventId()
   if (!eventId) return []
-  if (!isSupabaseConfigured) {
-    const allMovements = getFromLocalStorage(LOCAL_SECURITY_KEY, [])
-    const movements = allMovements.filter((movement: SecurityMovement) => movement.eventId === eventId)
-    const attendanceRecords = await getAttendanceRecords()
-    return movements.map((movement: SecurityMovement) => ({
-      ...movement,
-      attendanceRecord: attendanceRecords.find((record) => record.id === movement.attendanceRecordId),
-    }))
-  }
-
-  const { data, error } = await supabase
-    .from(SECURITY_TABLE)
-    .select(
-      `
-      id,
-      event_id,
-      attendance_record_id,
-      status,
-      timestamp,
-      attendance_record:${ATTENDANCE_TABLE}(
-        id,
-        event_id,
-        member_id,
-        recorded_at,
-        member:${TAJNEED_TABLE}(
-            id,
-            event_id,
-            full_name,
-            tanzeem,
-            region,
-            jamaat,
-            created_at
-          )
-      )
-    `,
-    )
-    .eq("event_id", eventId)
-    .order("timestamp", { ascending: false })
 
-  if (error) {
-    console.error("Error fetching security movements:", error)
-    return []
-  }
+  const queuedMovements: SecurityMovement[] = (await getPendingScans(eventId))
+    .filter((entry): entry is QueuedSecurityScan => entry.kind === "security")
+    .map((entry) => ({
+      id: entry.payload.movementId,
+      eventId,
+      attendanceRecordId: entry.payload.attendanceRecordId,
+      status: entry.payload.status,
+      timestamp: entry.clientTimestamp,
+      gate: entry.payload.gate,
+    }))
 
-  return (
-  data?.map((movement: any) => ({
-      id: movement.id,
-      eventId: movement.event_id,
-      attendanceRecordId: movement.attendance_record_id,
-      status: movement.status as MovementStatus,
-      timestamp: movement.timestamp,
-      attendanceRecord: movement.attendance_record
-        ? {
-            id: movement.attendance_record.id,
-            eventId: movement.attendance_record.event_id,
-            memberId: movement.attendance_record.member_id,
-            recordedAt: movement.attendance_record.recorded_at,
-            member: movement.attendance_record.member
-              ? {
-                  id: movement.attendance_record.member.id,
-                  eventId: movement.attendance_record.member.event_id,
-                  fullName: movement.attendance_record.member.full_name,
-                  tanzeem: movement.attendance_record.member.tanzeem,
-                  region: movement.attendance_record.member.region,
-                  jamaat: movement.attendance_record.member.jamaat,
-                  createdAt: movement.attendance_record.member.created_at,
-                }
-              : undefined,
-          }
-        : undefined,
-    })) || []
-  )
+  const movements = await unlessOffline(storage.listSecurityMovements(eventId), [])
+  // Queued movements were scanned on this device, so they are already in scope
+  return [...queuedMovements, ...inRegionScope(eventId, movements, (m) => m.attendanceRecord?.member?.region)]
 }
 
 export const getSecurityStatusForAttendance = async (attendanceRecordId: string): Promise<MovementStatus | null> => {
   const eventId = getCurrentEventId()
   if (!eventId) return null
 
-  if (!isSupabaseConfigured) {
-    const allMovements = getFromLocalStorage(LOCAL_SECURITY_KEY, [])
-    const latest = allMovements
-      .filter(
-        (movement: SecurityMovement) =>
-          movement.eventId === eventId && movement.attendanceRecordId === attendanceRecordId,
-      )
-      .sort((a: SecurityMovement, b: SecurityMovement) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0]
-    return latest?.status || null
-  }
+  // A queued movement is always newer than anything already on the server
+  const queued = (await getPendingScans(eventId))
+    .filter(
+      (entry): entry is QueuedSecurityScan =>
+        entry.kind === "security" && entry.payload.attendanceRecordId === attendanceRecordId,
+    )
+    .pop()
+  if (queued) return queued.payload.status
 
-  const { data, error } = await supabase
-    .from(SECURITY_TABLE)
-    .select("status")
-    .eq("event_id", eventId)
-    .eq("attendance_record_id", attendanceRecordId)
-    .order("timestamp", { ascending: false })
-    .limit(1)
-    .single()
+  return unlessOffline(storage.getLatestSecurityStatus(eventId, attendanceRecordId), null)
+}
 
-  if (error || !data) return null
-  return data.status as MovementStatus
+// Gates the signed-in user is restricted to at the current event (null: any gate)
+export const getAssignedGates = (): string[] | null => {
+  const eventId = getCurrentEventId()
+  return eventId ? getGateScope(getEventScope(), eventId) : null
 }
 
 export const toggleSecurityMovement = async (
   attendanceRecordId: string,
   newStatus: MovementStatus,
+  gate?: string,
 ): Promise<boolean> => {
   const eventId = getCurrentEventId()
   if (!eventId) return false
 
+  const gates = getGateScope(getEventScope(), eventId)
+  if (gates && (!gate || !gates.includes(gate))) {
+    console.warn("Movement must be recorded at one of your assigned gates:", gates)
+    return false
+  }
+  if (!(await isAttendanceRecordInScope(eventId, attendanceRecordId))) return false
+
   const movement: SecurityMovement = {
     id: crypto.randomUUID(),
     eventId,
     attendanceRecordId,
     status: newStatus,
     timestamp: new Date().toISOString(),
+    gate: gate || undefined,
   }
 
-  if (!isSupabaseConfigured) {
-    const allMovements = getFromLocalStorage(LOCAL_SECURITY_KEY, [])
-    allMovements.push(movement)
-    saveToLocalStorage(LOCAL_SECURITY_KEY, allMovements)
+  const queueMovement = async () => {
+    const attendanceRecord = (await getAttendanceRecords()).find((r) => r.id === attendanceRecordId)
+    await enqueueScan({
+      kind: "security",
+      eventId,
+      clientTimestamp: movement.timestamp,
+      label: attendanceRecord?.member?.fullName,
+      payload: { movementId: movement.id, attendanceRecordId, status: newStatus, gate: movement.gate },
+    })
     return true
   }
 
-  const { error } = await supabase.from(SECURITY_TABLE).insert({
-    id: movement.id,
-    event_id: eventId,
-    attendance_record_id: attendanceRecordId,
-    status: newStatus,
-    timestamp: movement.timestamp,
-  })
-
-  if (error) {
-    console.error("Error saving security movement:", error)
-    return false
+  if (usesScanQueue() && isOffline()) {
+    return queueMovement()
   }
 
-  return true
+  try {
+    return await storage.insertSecurityMovement(movement)
+  } catch (err) {
+    if (isOfflineError(err) && usesScanQueue()) {
+      return queueMovement()
+    }
+    throw err
+  }
 }
 
 // Catering Records Management
-export const getCateringRecords = async (day?: DayOfWeek, mealType?: MealType): Promise<CateringRecord[]> => {
+export const getCateringRecords = async (day?: EventDay, mealType?: MealType): Promise<CateringRecord[]> => {
   const eventId = getCurrentEventId()
   if (!eventId) return []
 
-  if (!isSupabaseConfigured) {
-    let allRecords = getFromLocalStorage(LOCAL_CATERING_KEY, [])
-    allRecords = allRecords.filter((record: CateringRecord) => record.eventId === eventId)
-    if (day) allRecords = allRecords.filter((record: CateringRecord) => record.day === day)
-    if (mealType) allRecords = allRecords.filter((record: CateringRecord) => record.mealType === mealType)
+  const snapshotName = `${CATERING_SNAPSHOT}_${day || "all"}_${mealType || "all"}`
+  const queuedRecords = await getQueuedCateringRecords(eventId, day, mealType)
 
-    const attendanceRecords = await getAttendanceRecords()
-    return allRecords.map((record: CateringRecord) => ({
-      ...record,
-      attendanceRecord: attendanceRecords.find((r) => r.id === record.attendanceRecordId),
-    }))
+  try {
+    const records = await storage.listCateringRecords(eventId, { day, mealType })
+    saveOfflineSnapshot(snapshotName, eventId, records)
+    return [...queuedRecords, ...inRegionScope(eventId, records, (r) => r.attendanceRecord?.member?.region)]
+  } catch (err) {
+    if (!isOfflineError(err)) throw err
+    console.warn("Offline: using cached catering records")
+    const cached = await getOfflineSnapshot<CateringRecord>(snapshotName, eventId)
+    return [...queuedRecords, ...inRegionScope(eventId, cached, (r) => r.attendanceRecord?.member?.region)]
   }
+}
 
-  let query = supabase
-    .from(CATERED_TABLE)
-    .select(
-      `
-      id,
-      event_id,
-      attendance_record_id,
-      day,
-      meal_type,
-      served_at,
-      attendance_record:${ATTENDANCE_TABLE}(
-        id,
-        event_id,
-        member_id,
-        recorded_at,
-        member:${TAJNEED_TABLE}(
-          id,
-          event_id,
-          full_name,
-          tanzeem,
-          region,
-          jamaat,
-          created_at
-        )
-      )
-    `,
-    )
-    .eq("event_id", eventId)
+const getQueuedCateringRecords = async (
+  eventId: string,
+  day?: EventDay,
+  mealType?: MealType,
+): Promise<CateringRecord[]> => {
+  const pending = (await getPendingScans(eventId)).filter(
+    (entry): entry is QueuedCateringScan =>
+      entry.kind === "catering" &&
+      (!day || entry.payload.day === day) &&
+      (!mealType || entry.payload.mealType === mealType),
+  )
+  if (pending.length === 0) return []
 
-  if (day) query = query.eq("day", day)
-  if (mealType) query = query.eq("meal_type", mealType)
+  const attendanceRecords = await getAttendanceRecords()
+  return pending.map((entry) => ({
+    id: entry.payload.recordId,
+    eventId,
+    attendanceRecordId: entry.payload.attendanceRecordId,
+    day: entry.payload.day,
+    mealType: entry.payload.mealType,
+    servedAt: entry.clientTimestamp,
+    attendanceRecord: attendanceRecords.find((r) => r.id === entry.payload.attendanceRecordId),
+  }))
+}
 
-  const { data, error } = await query.order("served_at", { ascending: false })
+// A supervisor approves serving a meal outside its window with their own
+// username and password, which the route handler checks. The approval is for
+// this scanner and meal only; the error explains a refusal.
+export const approveCateringOverride = async (
+  day: EventDay,
+  mealType: MealType,
+  username: string,
+  password: string,
+): Promise<{ approval?: CateringOverrideApproval; error?: string }> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return { error: "No event selected" }
 
-  if (error) {
-    console.error("Error fetching catering records:", error)
-    return []
+  try {
+    const response = await fetch("/api/catering/override", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ eventId, day, mealType, username, password }),
+    })
+    const body = await response.json().catch(() => ({ error: response.statusText }))
+    if (!response.ok) return { error: body.error || "The approval could not be checked" }
+    return {
+      approval: { token: body.approval, approverId: body.approverId, approverName: body.approverName, day, mealType },
+    }
+  } catch (err) {
+    console.error("Error approving catering override:", err)
+    return { error: "The approval could not be checked. Overrides need a connection." }
   }
+}
 
-  return (
-  data?.map((record: any) => ({
-      id: record.id,
-      eventId: record.event_id,
-      attendanceRecordId: record.attendance_record_id,
-      day: record.day as DayOfWeek,
-      mealType: record.meal_type as MealType,
-      servedAt: record.served_at,
-      attendanceRecord: record.attendance_record
-        ? {
-            id: record.attendance_record.id,
-            eventId: record.attendance_record.event_id,
-            memberId: record.attendance_record.member_id,
-            recordedAt: record.attendance_record.recorded_at,
-            member: record.attendance_record.member
-              ? {
-                  id: record.attendance_record.member.id,
-                  eventId: record.attendance_record.member.event_id,
-                  fullName: record.attendance_record.member.full_name,
-                  tanzeem: record.attendance_record.member.tanzeem,
-                  region: record.attendance_record.member.region,
-                  jamaat: record.attendance_record.member.jamaat,
-                  createdAt: record.attendance_record.member.created_at,
-                }
-              : undefined,
-          }
-        : undefined,
-    })) || []
-  )
+// With Supabase the route handler records servings under an approval, so
+// browsers never write an approver themselves
+const serveWithApproval = async (attendanceRecordId: string, approval: CateringOverrideApproval): Promise<boolean> => {
+  try {
+    const response = await fetch("/api/catering/override/serve", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ approval: approval.token, attendanceRecordId }),
+    })
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error serving with an override (${response.status}):`, error)
+      return false
+    }
+    return true
+  } catch (err) {
+    console.error("Error serving with an override:", err)
+    return false
+  }
 }
 
+// Serving outside the meal's window needs a supervisor's approval from
+// approveCateringOverride, and the scanner must hold catering.override too.
+// The approver's id is recorded on the serving.
 export const addCateringRecord = async (
   attendanceRecordId: string,
-  day: DayOfWeek,
+  day: EventDay,
   mealType: MealType,
+  options: { approval?: CateringOverrideApproval } = {},
 ): Promise<boolean> => {
   const eventId = getCurrentEventId()
   if (!eventId) return false
+  if (!(await isAttendanceRecordInScope(eventId, attendanceRecordId))) return false
+
+  // Without the event's settings (offline, and never read on this device) the
+  // meal's window is unknown, so it counts as closed
+  const settings = await getSettings()
+  const sessionOpen = settings.id === eventId && isCateringSessionOpen({ day, mealType }, settings)
+  const approval = sessionOpen ? undefined : options.approval
+  if (!sessionOpen) {
+    const user = getCurrentUser()
+    if (
+      !approval ||
+      approval.day !== day ||
+      approval.mealType !== mealType ||
+      !user?.permissions.includes("catering.override")
+    ) {
+      console.warn("Meal is outside its serving window and needs an approved override:", day, mealType)
+      return false
+    }
+  }
 
   // Check if already served
   const existing = await getCateringRecords(day, mealType)
@@ -1535,207 +1538,160 @@ export const addCateringRecord = async (
     day,
     mealType,
     servedAt: new Date().toISOString(),
+    overrideBy: approval?.approverId,
+    overrideByName: approval?.approverName,
   }
+  if (approval && usesScanQueue()) return serveWithApproval(attendanceRecordId, approval)
 
-  if (!isSupabaseConfigured) {
-    const allRecords = getFromLocalStorage(LOCAL_CATERING_KEY, [])
-    allRecords.push(record)
-    saveToLocalStorage(LOCAL_CATERING_KEY, allRecords)
+  const queueServing = async () => {
+    const attendanceRecord = (await getAttendanceRecords()).find((r) => r.id === attendanceRecordId)
+    await enqueueScan({
+      kind: "catering",
+      eventId,
+      clientTimestamp: record.servedAt,
+      label: attendanceRecord?.member?.fullName,
+      payload: { recordId: record.id, attendanceRecordId, day, mealType },
+    })
     return true
   }
 
-  const { error } = await supabase.from(CATERED_TABLE).insert({
-    id: record.id,
-    event_id: eventId,
-    attendance_record_id: attendanceRecordId,
-    day,
-    meal_type: mealType,
-    served_at: record.servedAt,
-  })
-
-  if (error) {
-    console.error("Error saving catering record:", error)
-    return false
+  if (usesScanQueue() && isOffline()) {
+    return queueServing()
   }
 
-  return true
+  try {
+    return await storage.insertCateringRecord(record)
+  } catch (err) {
+    if (isOfflineError(err) && usesScanQueue()) {
+      return queueServing()
+    }
+    throw err
+  }
 }
 
 export const removeCateringRecord = async (recordId: string): Promise<boolean> => {
   const eventId = getCurrentEventId()
   if (!eventId) return false
-
-  if (!isSupabaseConfigured) {
-    const allRecords = getFromLocalStorage(LOCAL_CATERING_KEY, [])
-    const filtered = allRecords.filter((record: CateringRecord) => record.id !== recordId)
-    saveToLocalStorage(LOCAL_CATERING_KEY, filtered)
-    return true
+  if (getRegionScope(getEventScope(), eventId)) {
+    const records = await getCateringRecords()
+    if (!records.some((record) => record.id === recordId)) return false
   }
 
-  const { error } = await supabase.from(CATERED_TABLE).delete().eq("id", recordId).eq("event_id", eventId)
-
-  if (error) {
-    console.error("Error removing catering record:", error)
-    return false
-  }
-
-  return true
+  return unlessOffline(storage.deleteCateringRecord(eventId, recordId), false)
 }
 
-// Users Management
-export const getUsers = async (): Promise<User[]> => {
-  if (!isSupabaseConfigured) {
-    return getFromLocalStorage(LOCAL_USERS_KEY, [])
-  }
-
-  const { data, error } = await supabase.from(USERS_TABLE).select("*").order("created_at", { ascending: false })
+const NO_CATERING_HISTORY: CateringHistory = { events: 0, samples: [] }
 
-  if (error) {
-    console.error("Error fetching users:", error)
-    return []
+// Serving counts from the organisation's events that started before the
+// current one, for the kitchen forecast's ratios. With Supabase they come from
+// /api/catering/history, which can read events the user is not assigned to;
+// in local mode every event is on this device already.
+export const getPreviousCateringHistory = async (): Promise<CateringHistory> => {
+  const eventId = getCurrentEventId()
+  if (!eventId) return NO_CATERING_HISTORY
+  if (!usesScanQueue()) {
+    return (await unlessOffline(loadCateringHistory(storage, eventId), null)) ?? NO_CATERING_HISTORY
   }
 
-  return (
-  data?.map((user: any) => ({
-      id: user.id,
-      username: user.username,
-      password: user.password,
-      role: user.role as UserRole,
-      fullName: user.full_name,
-      createdAt: user.created_at,
-      updatedAt: user.updated_at,
-    })) || []
-  )
-}
-
-export const getUserByUsername = async (username: string): Promise<User | null> => {
-  if (!isSupabaseConfigured) {
-    const users = getFromLocalStorage(LOCAL_USERS_KEY, [])
-    return users.find((user: User) => user.username === username) || null
+  try {
+    const response = await fetch(`/api/catering/history?eventId=${encodeURIComponent(eventId)}`)
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error loading previous events' catering (${response.status}):`, error)
+      return NO_CATERING_HISTORY
+    }
+    return (await response.json()) as CateringHistory
+  } catch (err) {
+    if (isOfflineError(err) || isNetworkError(err)) return NO_CATERING_HISTORY
+    console.error("Error loading previous events' catering:", err)
+    return NO_CATERING_HISTORY
   }
+}
 
-  const { data, error } = await supabase.from(USERS_TABLE).select("*").eq("username", username).single()
-
-  if (error || !data) {
-    return null
-  }
+// Users Management
+// Users, roles and assignments only live on the server (Supabase via the
+// service role, or the local data files), so every call goes through the
+// route handlers under app/api/users and app/api/roles, which check the session.
 
-  return {
-    id: data.id,
-    username: data.username,
-    password: data.password,
-    role: data.role as UserRole,
-    fullName: data.full_name,
-    createdAt: data.created_at,
-    updatedAt: data.updated_at,
+const readAdminData = async <T>(url: string, key: string, fallback: T): Promise<T> => {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error loading ${key} (${response.status}):`, error)
+      return fallback
+    }
+    return ((await response.json())[key] as T) ?? fallback
+  } catch (err) {
+    console.error(`Error loading ${key}:`, err)
+    return fallback
   }
 }
 
-export const createUser = async (userData: Omit<User, "id" | "createdAt" | "updatedAt">): Promise<boolean> => {
-  const user: User = {
-    id: crypto.randomUUID(),
-    ...userData,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-  }
-
-  if (!isSupabaseConfigured) {
-    const users = getFromLocalStorage(LOCAL_USERS_KEY, [])
-    // Check if username already exists
-    if (users.some((u: User) => u.username === user.username)) {
+const sendAdminRequest = async (url: string, method: "POST" | "PATCH" | "PUT" | "DELETE", body?: unknown): Promise<boolean> => {
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: response.statusText }))
+      console.error(`Error saving (${response.status}):`, error)
       return false
     }
-    users.push(user)
-    saveToLocalStorage(LOCAL_USERS_KEY, users)
     return true
-  }
-
-  // Check if username already exists
-  const existing = await getUserByUsername(user.username)
-  if (existing) {
+  } catch (err) {
+    console.error("Error saving:", err)
     return false
   }
+}
 
-  const { error } = await supabase.from(USERS_TABLE).insert({
-    id: user.id,
-    username: user.username,
-    password: user.password,
-    role: user.role,
-    full_name: user.fullName,
-    created_at: user.createdAt,
-    updated_at: user.updatedAt,
-  })
+const userUrl = (userId: string) => `/api/users/${encodeURIComponent(userId)}`
+const roleUrl = (name: string) => `/api/roles/${encodeURIComponent(name)}`
 
-  if (error) {
-    console.error("Error creating user:", error)
-    return false
-  }
+export const getUsers = async (): Promise<User[]> => {
+  return readAdminData<User[]>("/api/users", "users", [])
+}
 
-  return true
+// Passwords are hashed server-side
+export const createUser = async (
+  userData: Omit<User, "id" | "createdAt" | "updatedAt"> & { password: string },
+): Promise<boolean> => {
+  return sendAdminRequest("/api/users", "POST", userData)
 }
 
 export const updateUser = async (userId: string, userData: Partial<Omit<User, "id" | "createdAt">>): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const users = getFromLocalStorage(LOCAL_USERS_KEY, [])
-    const index = users.findIndex((u: User) => u.id === userId)
-    if (index === -1) return false
-
-    // Check if username already exists (for other users)
-    if (userData.username && users.some((u: User, i: number) => u.username === userData.username && i !== index)) {
-      return false
-    }
-
-    users[index] = {
-      ...users[index],
-      ...userData,
-      updatedAt: new Date().toISOString(),
-    }
-    saveToLocalStorage(LOCAL_USERS_KEY, users)
-    return true
-  }
-
-  // Check if username already exists (for other users)
-  if (userData.username) {
-    const existing = await getUserByUsername(userData.username)
-    if (existing && existing.id !== userId) {
-      return false
-    }
-  }
-
-  const updateData: any = {
-    updated_at: new Date().toISOString(),
-  }
-  if (userData.username) updateData.username = userData.username
-  if (userData.password) updateData.password = userData.password
-  if (userData.role) updateData.role = userData.role
-  if (userData.fullName) updateData.full_name = userData.fullName
+  return sendAdminRequest(userUrl(userId), "PATCH", userData)
+}
 
-  const { error } = await supabase.from(USERS_TABLE).update(updateData).eq("id", userId)
+export const deleteUser = async (userId: string): Promise<boolean> => {
+  return sendAdminRequest(userUrl(userId), "DELETE")
+}
 
-  if (error) {
-    console.error("Error updating user:", error)
-    return false
-  }
+// Assignments are saved together with the user
+export const getUserAssignments = async (userId: string): Promise<EventAssignment[]> => {
+  return readAdminData<EventAssignment[]>(userUrl(userId), "assignments", [])
+}
 
-  return true
+// Roles Management
+export const getRoles = async (): Promise<RoleDefinition[]> => {
+  return readAdminData<RoleDefinition[]>("/api/roles", "roles", mergeRoles([]))
 }
 
-export const deleteUser = async (userId: string): Promise<boolean> => {
-  if (!isSupabaseConfigured) {
-    const users = getFromLocalStorage(LOCAL_USERS_KEY, [])
-    const filtered = users.filter((u: User) => u.id !== userId)
-    saveToLocalStorage(LOCAL_USERS_KEY, filtered)
-    return true
-  }
+// Admin always keeps every permission; any other role (built-in or custom) can be edited
+export const saveRole = async (role: RoleDefinition): Promise<boolean> => {
+  const name = role.name.trim()
+  if (!name || name === ADMIN_ROLE) return false
 
-  const { error } = await supabase.from(USERS_TABLE).delete().eq("id", userId)
+  return sendAdminRequest(roleUrl(name), "PUT", { description: role.description, permissions: role.permissions })
+}
 
-  if (error) {
-    console.error("Error deleting user:", error)
-    return false
-  }
+// Built-in roles cannot be removed, nor can a role that users are still assigned to
+export const deleteRole = async (name: string): Promise<boolean> => {
+  if (BUILT_IN_ROLES.some((role) => role.name === name)) return false
 
-  return true
+  return sendAdminRequest(roleUrl(name), "DELETE")
 }
 
 export { getCurrentEventId, setCurrentEventId }
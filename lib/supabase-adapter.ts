@@ -0,0 +1,1195 @@
+import type {
+  TajneedMember,
+  AttendanceRecord,
+  Region,
+  EventSettings,
+  SecurityMovement,
+  CateringRecord,
+  MovementStatus,
+  MealType,
+  EventDay,
+  User,
+  UserRole,
+  RoleDefinition,
+  EventAssignment,
+  IDCard,
+  CardPrint,
+  SurplusBatch,
+  Household,
+} from "./types"
+import { supabase } from "./supabase"
+import { isNetworkError } from "./offline-queue"
+import { StorageOfflineError, type StorageAdapter } from "./storage-adapter"
+
+const TAJNEED_TABLE = "tajneed_members"
+const ATTENDANCE_TABLE = "attendance_records"
+const SECURITY_TABLE = "security_movements"
+const CATERED_TABLE = "catering_records"
+const USERS_TABLE = "users"
+const QR_MAPPINGS_TABLE = "qr_mappings"
+const ROLES_TABLE = "roles"
+const ASSIGNMENTS_TABLE = "user_event_assignments"
+const SURPLUS_BATCHES_TABLE = "surplus_batches"
+const CARD_PRINTS_TABLE = "card_prints"
+const HOUSEHOLDS_TABLE = "households"
+const MEMBER_PHOTOS_BUCKET = "member-photos"
+const MEMBER_PHOTO_URL_TTL_SECONDS = 60
+const USER_COLUMNS = "id, username, role, full_name, created_at, updated_at" // Everything except the password hash
+const LOCAL_QR_CODE_MAPPING_KEY = "qr_code_member_mapping" // Device-local copy of QR mappings
+
+const MEMBER_COLUMNS = `
+  id,
+  event_id,
+  full_name,
+  tanzeem,
+  region,
+  jamaat,
+  phone,
+  email,
+  gender,
+  date_of_birth,
+  aims_number,
+  dietary_requirements,
+  dietary_notes,
+  photo_url,
+  member_code,
+  household_id,
+  household_role,
+  created_at
+`
+const ATTENDANCE_COLUMNS = `
+  id,
+  event_id,
+  member_id,
+  recorded_at,
+  member:${TAJNEED_TABLE}(${MEMBER_COLUMNS})
+`
+const SECURITY_COLUMNS = `
+  id,
+  event_id,
+  attendance_record_id,
+  status,
+  timestamp,
+  gate,
+  attendance_record:${ATTENDANCE_TABLE}(${ATTENDANCE_COLUMNS})
+`
+const CATERING_COLUMNS = `
+  id,
+  event_id,
+  attendance_record_id,
+  day,
+  meal_type,
+  served_at,
+  override_by,
+  override_by_name,
+  attendance_record:${ATTENDANCE_TABLE}(${ATTENDANCE_COLUMNS})
+`
+
+// Photos are small JPEGs stored as <event id>/<member id>.jpg
+const memberPhotoPath = (member: Pick<TajneedMember, "id" | "eventId">) => `${member.eventId}/${member.id}.jpg`
+
+// Row mappers (snake_case columns -> camelCase types)
+const toEvent = (row: any): EventSettings => ({
+  id: row.id,
+  eventName: row.event_name,
+  startingDate: row.starting_date,
+  duration: row.duration,
+  location: row.location,
+  theme: row.theme,
+  qrKeyVersion: row.qr_key_version ?? undefined,
+  legacyQrUntil: row.legacy_qr_until ?? undefined,
+  tanzeemAgeCutoffs: row.tanzeem_age_cutoffs ?? undefined,
+  tanzeemCategories: row.tanzeem_categories ?? undefined,
+  mealTypes: row.meal_types ?? undefined,
+  dayMeals: row.day_meals ?? undefined,
+  mealWindows: row.meal_windows ?? undefined,
+  timeZone: row.time_zone ?? undefined,
+  branding: row.branding ?? undefined,
+  cardTemplates: row.card_templates ?? undefined,
+  activeCardTemplateId: row.active_card_template_id ?? undefined,
+  printProfiles: row.print_profiles ?? undefined,
+  activePrintProfileId: row.active_print_profile_id ?? undefined,
+  certificate: row.certificate ?? undefined,
+  createdAt: row.created_at,
+})
+
+const toMember = (row: any): TajneedMember => ({
+  id: row.id,
+  eventId: row.event_id,
+  fullName: row.full_name,
+  tanzeem: row.tanzeem,
+  region: row.region,
+  jamaat: row.jamaat,
+  phone: row.phone || undefined,
+  email: row.email || undefined,
+  gender: row.gender || undefined,
+  dateOfBirth: row.date_of_birth || undefined,
+  aimsNumber: row.aims_number || undefined,
+  dietaryRequirements: row.dietary_requirements?.length ? row.dietary_requirements : undefined,
+  dietaryNotes: row.dietary_notes || undefined,
+  photoUrl: row.photo_url || undefined,
+  memberCode: row.member_code || undefined,
+  householdId: row.household_id || undefined,
+  householdRole: row.household_role || undefined,
+  createdAt: row.created_at ?? new Date().toISOString(),
+})
+
+const toMemberRow = (member: Partial<TajneedMember>): Record<string, any> => {
+  const row: Record<string, any> = {}
+  if (member.id !== undefined) row.id = member.id
+  if (member.eventId !== undefined) row.event_id = member.eventId
+  if (member.fullName !== undefined) row.full_name = member.fullName
+  if (member.tanzeem !== undefined) row.tanzeem = member.tanzeem
+  if (member.region !== undefined) row.region = member.region
+  if (member.jamaat !== undefined) row.jamaat = member.jamaat
+  // Optional profile fields are cleared when given but empty
+  if ("phone" in member) row.phone = member.phone || null
+  if ("email" in member) row.email = member.email || null
+  if ("gender" in member) row.gender = member.gender || null
+  if ("dateOfBirth" in member) row.date_of_birth = member.dateOfBirth || null
+  if ("aimsNumber" in member) row.aims_number = member.aimsNumber || null
+  if ("dietaryRequirements" in member) {
+    row.dietary_requirements = member.dietaryRequirements?.length ? member.dietaryRequirements : null
+  }
+  if ("dietaryNotes" in member) row.dietary_notes = member.dietaryNotes || null
+  if ("photoUrl" in member) row.photo_url = member.photoUrl || null
+  if ("memberCode" in member) row.member_code = member.memberCode || null
+  if ("householdId" in member) row.household_id = member.householdId || null
+  if ("householdRole" in member) row.household_role = member.householdRole || null
+  return row
+}
+
+const toAttendanceRecord = (row: any): AttendanceRecord => ({
+  id: row.id,
+  eventId: row.event_id,
+  memberId: row.member_id,
+  recordedAt: row.recorded_at,
+  member: row.member ? toMember(row.member) : undefined,
+})
+
+const toSecurityMovement = (row: any): SecurityMovement => ({
+  id: row.id,
+  eventId: row.event_id,
+  attendanceRecordId: row.attendance_record_id,
+  status: row.status as MovementStatus,
+  timestamp: row.timestamp,
+  gate: row.gate || undefined,
+  attendanceRecord: row.attendance_record ? toAttendanceRecord(row.attendance_record) : undefined,
+})
+
+const toCateringRecord = (row: any): CateringRecord => ({
+  id: row.id,
+  eventId: row.event_id,
+  attendanceRecordId: row.attendance_record_id,
+  day: row.day as EventDay,
+  mealType: row.meal_type as MealType,
+  servedAt: row.served_at,
+  overrideBy: row.override_by || undefined,
+  overrideByName: row.override_by_name || undefined,
+  attendanceRecord: row.attendance_record ? toAttendanceRecord(row.attendance_record) : undefined,
+})
+
+const toUser = (row: any): User => ({
+  id: row.id,
+  username: row.username,
+  password: row.password,
+  role: row.role as UserRole,
+  fullName: row.full_name,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+const toEventAssignment = (row: any): EventAssignment => ({
+  eventId: row.event_id,
+  regions: row.regions || [],
+  gates: row.gates || [],
+})
+
+const toRoleDefinition = (row: any): RoleDefinition => ({
+  name: row.name,
+  description: row.description || undefined,
+  permissions: row.permissions || [],
+  builtIn: false,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+const toIDCard = (row: any): IDCard => ({
+  id: row.qr_code_id,
+  memberId: row.member_id,
+  eventId: row.event_id,
+  status: row.status || "active",
+  issuedAt: row.issued_at || row.created_at,
+  reissueCount: row.reissue_count ?? 0,
+  revokedAt: row.revoked_at || undefined,
+  replacedBy: row.replaced_by || undefined,
+})
+
+const toHousehold = (row: any): Household => ({
+  id: row.id,
+  eventId: row.event_id,
+  name: row.name,
+  createdAt: row.created_at,
+})
+
+const toCardPrint = (row: any): CardPrint => ({
+  id: row.id,
+  eventId: row.event_id,
+  memberId: row.member_id,
+  cardId: row.card_id,
+  printedAt: row.printed_at,
+  printedBy: row.printed_by || undefined,
+  fingerprint: row.fingerprint || "",
+})
+
+const toSurplusBatch = (row: any): SurplusBatch => ({
+  id: row.id,
+  eventId: row.event_id,
+  code: row.code,
+  count: row.count,
+  tanzeem: row.tanzeem || undefined,
+  createdAt: row.created_at,
+  voidedAt: row.voided_at || undefined,
+})
+
+// Network failures surface as StorageOfflineError so lib/storage.ts can fall
+// back to the offline snapshot / scan queue; anything else is logged here.
+const reportError = (context: string, error: any) => {
+  if (isNetworkError(error)) {
+    throw new StorageOfflineError(context, error)
+  }
+  console.error(`Error ${context}:`, {
+    message: error?.message,
+    code: error?.code,
+    details: error?.details,
+    hint: error?.hint,
+    error,
+  })
+}
+
+const getLocalQRMappings = (): Record<string, string> => {
+  if (typeof window === "undefined") return {}
+  try {
+    const item = localStorage.getItem(LOCAL_QR_CODE_MAPPING_KEY)
+    return item ? JSON.parse(item) : {}
+  } catch {
+    return {}
+  }
+}
+
+const saveLocalQRMapping = (qrCodeId: string, memberId: string) => {
+  if (typeof window === "undefined") return
+  const mappings = getLocalQRMappings()
+  mappings[qrCodeId] = memberId
+  localStorage.setItem(LOCAL_QR_CODE_MAPPING_KEY, JSON.stringify(mappings))
+}
+
+// Persist QR mapping to Supabase with retry logic
+const persistQRMapping = async (
+  client: any,
+  qrCodeId: string,
+  memberId: string,
+  eventId: string,
+  attempt: number = 1,
+): Promise<void> => {
+  const MAX_ATTEMPTS = 3
+  const BASE_DELAY = 100 // Start with 100ms
+
+  // Include event_id if available to scope mappings per event
+  const payload = {
+    qr_code_id: qrCodeId,
+    member_id: memberId,
+    event_id: eventId || null,
+  }
+
+  console.log(`[Attempt ${attempt}/${MAX_ATTEMPTS}] Attempting to upsert QR mapping to Supabase:`, { qrCodeId, memberId, eventId })
+
+  const { error } = await client.from(QR_MAPPINGS_TABLE).upsert(payload, { onConflict: "qr_code_id" })
+
+  if (!error) {
+    console.log("✅ QR Code mapping successfully persisted to Supabase:", { qrCodeId, memberId, eventId })
+    return
+  }
+
+  // Check if this is a retryable error
+  const isRetryable =
+    error.code === "PGRST301" || // Table not found - might be eventual consistency
+    error.code === "42P01" || // Undefined table (may be timing issue)
+    error.message?.includes("connection") ||
+    error.message?.includes("timeout") ||
+    error.message?.includes("temporarily unavailable")
+
+  if (isRetryable && attempt < MAX_ATTEMPTS) {
+    // Exponential backoff: 100ms, 200ms, 400ms
+    const delay = BASE_DELAY * Math.pow(2, attempt - 1)
+    console.warn(`[Attempt ${attempt}/${MAX_ATTEMPTS}] Retryable error encountered, retrying after ${delay}ms:`, {
+      qrCodeId,
+      memberId,
+      eventId,
+      errorMessage: error.message,
+      errorCode: error.code,
+    })
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    return persistQRMapping(client, qrCodeId, memberId, eventId, attempt + 1)
+  }
+
+  console.error(`[Attempt ${attempt}/${MAX_ATTEMPTS}] Supabase upsert error for QR mapping:`, {
+    qrCodeId,
+    memberId,
+    eventId,
+    errorMessage: error.message,
+    errorDetails: error.details,
+    errorCode: error.code,
+    errorHint: error.hint,
+    isRetryable,
+    maxAttemptsReached: attempt >= MAX_ATTEMPTS,
+  })
+  throw new Error(`Failed to persist QR mapping to Supabase after ${attempt} attempt(s): ${error.message}`)
+}
+
+// `client` defaults to the browser client; route handlers pass a server client
+export const createSupabaseAdapter = (client: any = supabase): StorageAdapter => ({
+  name: "supabase",
+
+  // Events
+  async listEvents() {
+    const { data, error } = await client.from("events").select("*").order("created_at", { ascending: false })
+    if (error) {
+      reportError("fetching events", error)
+      return []
+    }
+    return data?.map(toEvent) || []
+  },
+
+  async getEvent(eventId) {
+    const { data, error } = await client.from("events").select("*").eq("id", eventId).maybeSingle()
+    if (error) {
+      reportError("fetching event", error)
+      return null
+    }
+    return data ? toEvent(data) : null
+  },
+
+  async createEvent(event) {
+    const { data, error } = await client
+      .from("events")
+      .insert([
+        {
+          event_name: event.eventName,
+          starting_date: event.startingDate,
+          duration: event.duration,
+          location: event.location,
+          theme: event.theme,
+          qr_key_version: event.qrKeyVersion ?? 1,
+          legacy_qr_until: event.legacyQrUntil || null,
+          tanzeem_age_cutoffs: event.tanzeemAgeCutoffs || null,
+          tanzeem_categories: event.tanzeemCategories?.length ? event.tanzeemCategories : null,
+          meal_types: event.mealTypes?.length ? event.mealTypes : null,
+          day_meals: event.dayMeals && Object.keys(event.dayMeals).length ? event.dayMeals : null,
+          meal_windows: event.mealWindows ?? null,
+          time_zone: event.timeZone || null,
+          branding: event.branding && Object.keys(event.branding).length ? event.branding : null,
+          card_templates: event.cardTemplates?.length ? event.cardTemplates : null,
+          active_card_template_id: event.activeCardTemplateId || null,
+          print_profiles: event.printProfiles?.length ? event.printProfiles : null,
+          active_print_profile_id: event.activePrintProfileId || null,
+          certificate: event.certificate ?? null,
+        },
+      ])
+      .select()
+      .single()
+    if (error) {
+      reportError("creating event", error)
+      return null
+    }
+    return toEvent(data)
+  },
+
+  async updateEvent(event) {
+    const { error } = await client
+      .from("events")
+      .update({
+        event_name: event.eventName,
+        starting_date: event.startingDate,
+        duration: event.duration,
+        location: event.location,
+        theme: event.theme,
+        qr_key_version: event.qrKeyVersion ?? 1,
+        legacy_qr_until: event.legacyQrUntil || null,
+        tanzeem_age_cutoffs: event.tanzeemAgeCutoffs || null,
+        tanzeem_categories: event.tanzeemCategories?.length ? event.tanzeemCategories : null,
+        meal_types: event.mealTypes?.length ? event.mealTypes : null,
+        day_meals: event.dayMeals && Object.keys(event.dayMeals).length ? event.dayMeals : null,
+        meal_windows: event.mealWindows ?? null,
+        time_zone: event.timeZone || null,
+        branding: event.branding && Object.keys(event.branding).length ? event.branding : null,
+        card_templates: event.cardTemplates?.length ? event.cardTemplates : null,
+        active_card_template_id: event.activeCardTemplateId || null,
+        print_profiles: event.printProfiles?.length ? event.printProfiles : null,
+        active_print_profile_id: event.activePrintProfileId || null,
+        certificate: event.certificate ?? null,
+      })
+      .eq("id", event.id)
+    if (error) {
+      reportError("updating event", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteEvent(eventId) {
+    // qr_mappings has no foreign key to events, so it is not covered by ON DELETE CASCADE
+    const { error: mappingError } = await client.from(QR_MAPPINGS_TABLE).delete().eq("event_id", eventId)
+    if (mappingError) {
+      console.warn("Could not delete QR mappings for event:", { eventId, mappingError })
+    }
+
+    const { error } = await client.from("events").delete().eq("id", eventId)
+    if (error) {
+      reportError("deleting event", error)
+      return false
+    }
+    return true
+  },
+
+  // Tajneed members
+  async listMembers(eventId) {
+    const { data, error } = await client
+      .from(TAJNEED_TABLE)
+      .select("*")
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+    if (error) {
+      reportError("fetching tajneed members", error)
+      return []
+    }
+    return data?.map(toMember) || []
+  },
+
+  async getMember(memberId) {
+    const { data, error } = await client.from(TAJNEED_TABLE).select("*").eq("id", memberId).maybeSingle()
+    if (error) {
+      reportError("checking member existence", error)
+      return null
+    }
+    return data ? toMember(data) : null
+  },
+
+  async insertMember(member) {
+    const { data, error } = await client.from(TAJNEED_TABLE).insert([toMemberRow(member)]).select().single()
+    if (error) {
+      if (member.id && !isNetworkError(error)) {
+        // The id column may be generated by the database; the caller retries without it
+        console.warn("Could not insert with custom ID:", {
+          message: error.message,
+          details: error.details,
+          hint: error.hint,
+          code: error.code,
+        })
+        return null
+      }
+      reportError("saving tajneed member", error)
+      return null
+    }
+    return toMember(data)
+  },
+
+  async insertMembers(members) {
+    if (members.length === 0) return []
+    const { data, error } = await client.from(TAJNEED_TABLE).insert(members.map(toMemberRow)).select()
+    if (error) {
+      reportError("importing tajneed members", error)
+      return []
+    }
+    return data?.map(toMember) || []
+  },
+
+  async updateMember(memberId, updates) {
+    const { data, error } = await client
+      .from(TAJNEED_TABLE)
+      .update(toMemberRow(updates))
+      .eq("id", memberId)
+      .select()
+      .maybeSingle()
+    if (error) {
+      reportError("updating tajneed member", error)
+      return null
+    }
+    return data ? toMember(data) : null
+  },
+
+  async deleteMember(memberId) {
+    // Attendance, security, catering and card prints cascade in the database;
+    // qr_mappings has no foreign key (surplus codes are mapped later)
+    const { error } = await client.from(TAJNEED_TABLE).delete().eq("id", memberId)
+    if (error) {
+      reportError("deleting tajneed member", error)
+      return false
+    }
+    const { error: cardError } = await client.from(QR_MAPPINGS_TABLE).delete().eq("member_id", memberId)
+    if (cardError) {
+      reportError("deleting member ID cards", cardError)
+      return false
+    }
+    return true
+  },
+
+  async uploadMemberPhoto(member, photo) {
+    const blob = await (await fetch(photo)).blob()
+    const { error } = await client.storage
+      .from(MEMBER_PHOTOS_BUCKET)
+      .upload(memberPhotoPath(member), blob, { upsert: true, contentType: blob.type || "image/jpeg" })
+    if (error) {
+      reportError("uploading member photo", error)
+      return null
+    }
+    // The bucket is private: photos load through the route, which checks the
+    // session and redirects to a signed URL. The version busts caches holding
+    // the previous photo.
+    return `/api/members/${member.id}/photo?v=${Date.now()}`
+  },
+
+  async removeMemberPhoto(member) {
+    const { error } = await client.storage.from(MEMBER_PHOTOS_BUCKET).remove([memberPhotoPath(member)])
+    if (error) {
+      reportError("removing member photo", error)
+      return false
+    }
+    return true
+  },
+
+  async signMemberPhoto(member) {
+    const { data, error } = await client.storage
+      .from(MEMBER_PHOTOS_BUCKET)
+      .createSignedUrl(memberPhotoPath(member), MEMBER_PHOTO_URL_TTL_SECONDS)
+    if (error) {
+      reportError("signing member photo URL", error)
+      return null
+    }
+    return data.signedUrl
+  },
+
+  async mergeMember(duplicateId, keepId) {
+    // One transaction in the database (scripts/create-merge-members.sql), so a
+    // failure part way leaves both members as they were
+    const { data, error } = await client.rpc("merge_tajneed_members", {
+      p_duplicate_id: duplicateId,
+      p_keep_id: keepId,
+    })
+    if (error) {
+      reportError("merging tajneed members", error)
+      return false
+    }
+    return data === true
+  },
+
+  // Attendance
+  async listAttendance(eventId) {
+    const { data, error } = await client
+      .from(ATTENDANCE_TABLE)
+      .select(ATTENDANCE_COLUMNS)
+      .eq("event_id", eventId)
+      .order("recorded_at", { ascending: false })
+    if (error) {
+      reportError("fetching attendance records", error)
+      return []
+    }
+    return data?.map(toAttendanceRecord) || []
+  },
+
+  async findAttendance(eventId, memberId) {
+    const { data, error } = await client
+      .from(ATTENDANCE_TABLE)
+      .select(ATTENDANCE_COLUMNS)
+      .eq("event_id", eventId)
+      .eq("member_id", memberId)
+      .maybeSingle()
+    if (error) {
+      reportError("checking attendance record", error)
+      return null
+    }
+    return data ? toAttendanceRecord(data) : null
+  },
+
+  async insertAttendance(record) {
+    const row: Record<string, any> = { event_id: record.eventId, member_id: record.memberId }
+    if (record.id) row.id = record.id
+    if (record.recordedAt) row.recorded_at = record.recordedAt
+
+    const { data, error } = await client.from(ATTENDANCE_TABLE).insert([row]).select(ATTENDANCE_COLUMNS).single()
+    if (error) {
+      reportError("adding attendance record", error)
+      return null
+    }
+    return toAttendanceRecord(data)
+  },
+
+  async deleteAttendance(recordId) {
+    const { error } = await client.from(ATTENDANCE_TABLE).delete().eq("id", recordId)
+    if (error) {
+      reportError("removing attendance record", error)
+      return false
+    }
+    return true
+  },
+
+  // Regions and jamaat
+  async listRegions(eventId) {
+    const { data, error } = await client
+      .from("regions")
+      .select(
+        `
+        id,
+        event_id,
+        name,
+        jamaat(name)
+      `,
+      )
+      .eq("event_id", eventId)
+      .order("name", { ascending: true })
+    if (error) {
+      reportError("fetching regions", error)
+      return []
+    }
+    return (
+      data?.map((region: any) => ({
+        id: region.id,
+        eventId: region.event_id,
+        name: region.name,
+        jamaat: region.jamaat?.map((m: any) => m.name) || [],
+      })) || []
+    )
+  },
+
+  async insertRegion(region) {
+    const { data, error } = await client
+      .from("regions")
+      .insert([{ event_id: region.eventId, name: region.name }])
+      .select()
+      .single()
+    if (error) {
+      reportError("saving region", error)
+      return null
+    }
+
+    if (region.jamaat && region.jamaat.length > 0) {
+      const { error: jamaatError } = await client
+        .from("jamaat")
+        .insert(region.jamaat.map((name) => ({ region_id: data.id, name })))
+      if (jamaatError) {
+        console.error("Error saving jamaat:", jamaatError)
+      }
+    }
+
+    return {
+      id: data.id,
+      eventId: data.event_id,
+      name: data.name,
+      jamaat: region.jamaat || [],
+    }
+  },
+
+  async updateRegion(regionId, updates) {
+    const updateData: Record<string, any> = {}
+    if (updates.name) updateData.name = updates.name
+
+    const { error } = await client.from("regions").update(updateData).eq("id", regionId)
+    if (error) {
+      reportError("updating region", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteRegion(regionId) {
+    const { error } = await client.from("regions").delete().eq("id", regionId)
+    if (error) {
+      reportError("deleting region", error)
+      return false
+    }
+    return true
+  },
+
+  async addJamaat(regionId, jamaatName) {
+    const { error } = await client.from("jamaat").insert([{ region_id: regionId, name: jamaatName }])
+    if (error) {
+      reportError("adding jamaat", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteJamaat(regionId, jamaatName) {
+    const { error } = await client.from("jamaat").delete().eq("region_id", regionId).eq("name", jamaatName)
+    if (error) {
+      reportError("deleting jamaat", error)
+      return false
+    }
+    return true
+  },
+
+  // Tanzeem counters
+  async getCounters(eventId) {
+    const { data, error } = await client.from("tanzeem_counters").select("*").eq("event_id", eventId)
+    if (error) {
+      reportError("fetching tanzeem counters", error)
+      return {}
+    }
+    const counters: Record<string, number> = {}
+    data?.forEach((item: any) => {
+      counters[item.tanzeem] = item.counter
+    })
+    return counters
+  },
+
+  async incrementCounter(eventId, tanzeemCode, count = 1) {
+    // Done in the database (scripts/key-member-code-counters.sql) so concurrent
+    // registrations never read the same value
+    const { data, error } = await client.rpc("increment_tanzeem_counter", {
+      p_event_id: eventId,
+      p_code: tanzeemCode,
+      p_count: count,
+    })
+    if (error) {
+      reportError("incrementing counter", error)
+      return 0
+    }
+    return data ?? 0
+  },
+
+  async resetCounters(eventId) {
+    const { error } = await client.from("tanzeem_counters").delete().eq("event_id", eventId)
+    if (error) {
+      reportError("resetting counters", error)
+      return false
+    }
+    return true
+  },
+
+  // Security movements
+  async listSecurityMovements(eventId) {
+    const { data, error } = await client
+      .from(SECURITY_TABLE)
+      .select(SECURITY_COLUMNS)
+      .eq("event_id", eventId)
+      .order("timestamp", { ascending: false })
+    if (error) {
+      reportError("fetching security movements", error)
+      return []
+    }
+    return data?.map(toSecurityMovement) || []
+  },
+
+  async getLatestSecurityStatus(eventId, attendanceRecordId) {
+    const { data, error } = await client
+      .from(SECURITY_TABLE)
+      .select("status")
+      .eq("event_id", eventId)
+      .eq("attendance_record_id", attendanceRecordId)
+      .order("timestamp", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (error) {
+      reportError("fetching security status", error)
+      return null
+    }
+    return data ? (data.status as MovementStatus) : null
+  },
+
+  async insertSecurityMovement(movement) {
+    const { error } = await client.from(SECURITY_TABLE).insert({
+      id: movement.id,
+      event_id: movement.eventId,
+      attendance_record_id: movement.attendanceRecordId,
+      status: movement.status,
+      timestamp: movement.timestamp,
+      gate: movement.gate || null,
+    })
+    if (error) {
+      reportError("saving security movement", error)
+      return false
+    }
+    return true
+  },
+
+  // Catering records
+  async listCateringRecords(eventId, filters = {}) {
+    let query = client.from(CATERED_TABLE).select(CATERING_COLUMNS).eq("event_id", eventId)
+    if (filters.day) query = query.eq("day", filters.day)
+    if (filters.mealType) query = query.eq("meal_type", filters.mealType)
+
+    const { data, error } = await query.order("served_at", { ascending: false })
+    if (error) {
+      reportError("fetching catering records", error)
+      return []
+    }
+    return data?.map(toCateringRecord) || []
+  },
+
+  async insertCateringRecord(record) {
+    const { error } = await client.from(CATERED_TABLE).insert({
+      id: record.id,
+      event_id: record.eventId,
+      attendance_record_id: record.attendanceRecordId,
+      day: record.day,
+      meal_type: record.mealType,
+      served_at: record.servedAt,
+      override_by: record.overrideBy || null,
+      override_by_name: record.overrideByName || null,
+    })
+    if (error) {
+      reportError("saving catering record", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteCateringRecord(eventId, recordId) {
+    const { error } = await client.from(CATERED_TABLE).delete().eq("id", recordId).eq("event_id", eventId)
+    if (error) {
+      reportError("removing catering record", error)
+      return false
+    }
+    return true
+  },
+
+  // System users
+  async listUsers() {
+    const { data, error } = await client.from(USERS_TABLE).select(USER_COLUMNS).order("created_at", { ascending: false })
+    if (error) {
+      reportError("fetching users", error)
+      return []
+    }
+    return data?.map(toUser) || []
+  },
+
+  async getUser(userId) {
+    const { data, error } = await client.from(USERS_TABLE).select("*").eq("id", userId).maybeSingle()
+    if (error) {
+      reportError("fetching user", error)
+      return null
+    }
+    return data ? toUser(data) : null
+  },
+
+  async getUserByUsername(username) {
+    const { data, error } = await client.from(USERS_TABLE).select("*").eq("username", username).maybeSingle()
+    if (error) {
+      reportError("fetching user", error)
+      return null
+    }
+    return data ? toUser(data) : null
+  },
+
+  async insertUser(user) {
+    const { error } = await client.from(USERS_TABLE).insert({
+      id: user.id,
+      username: user.username,
+      password: user.password,
+      role: user.role,
+      full_name: user.fullName,
+      created_at: user.createdAt,
+      updated_at: user.updatedAt,
+    })
+    if (error) {
+      reportError("creating user", error)
+      return false
+    }
+    return true
+  },
+
+  async updateUser(userId, updates) {
+    const updateData: Record<string, any> = {
+      updated_at: updates.updatedAt || new Date().toISOString(),
+    }
+    if (updates.username) updateData.username = updates.username
+    if (updates.password) updateData.password = updates.password
+    if (updates.role) updateData.role = updates.role
+    if (updates.fullName) updateData.full_name = updates.fullName
+
+    const { error } = await client.from(USERS_TABLE).update(updateData).eq("id", userId)
+    if (error) {
+      reportError("updating user", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteUser(userId) {
+    const { error } = await client.from(USERS_TABLE).delete().eq("id", userId)
+    if (error) {
+      reportError("deleting user", error)
+      return false
+    }
+    return true
+  },
+
+  // Event assignments (rows cascade when the user or event is deleted)
+  async listUserAssignments(userId) {
+    const { data, error } = await client.from(ASSIGNMENTS_TABLE).select("*").eq("user_id", userId)
+    if (error) {
+      reportError("fetching event assignments", error)
+      return []
+    }
+    return data?.map(toEventAssignment) || []
+  },
+
+  async setUserAssignments(userId, assignments) {
+    const { error: deleteError } = await client.from(ASSIGNMENTS_TABLE).delete().eq("user_id", userId)
+    if (deleteError) {
+      reportError("clearing event assignments", deleteError)
+      return false
+    }
+    if (assignments.length === 0) return true
+
+    const { error } = await client.from(ASSIGNMENTS_TABLE).insert(
+      assignments.map((assignment) => ({
+        user_id: userId,
+        event_id: assignment.eventId,
+        regions: assignment.regions,
+        gates: assignment.gates,
+      })),
+    )
+    if (error) {
+      reportError("saving event assignments", error)
+      return false
+    }
+    return true
+  },
+
+  // Roles
+  async listRoles() {
+    const { data, error } = await client.from(ROLES_TABLE).select("*").order("created_at", { ascending: true })
+    if (error) {
+      reportError("fetching roles", error)
+      return []
+    }
+    return data?.map(toRoleDefinition) || []
+  },
+
+  async saveRole(role) {
+    const now = new Date().toISOString()
+    const { error } = await client.from(ROLES_TABLE).upsert(
+      {
+        name: role.name,
+        description: role.description || null,
+        permissions: role.permissions,
+        created_at: role.createdAt || now,
+        updated_at: now,
+      },
+      { onConflict: "name" },
+    )
+    if (error) {
+      reportError("saving role", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteRole(name) {
+    const { error } = await client.from(ROLES_TABLE).delete().eq("name", name)
+    if (error) {
+      reportError("deleting role", error)
+      return false
+    }
+    return true
+  },
+
+  // QR mappings: Supabase first so mappings are available across devices,
+  // with a device-local copy for when the table is missing or unreachable
+  async getQRMapping(qrCodeId, eventId) {
+    try {
+      let query = client.from(QR_MAPPINGS_TABLE).select("member_id").eq("qr_code_id", qrCodeId)
+      if (eventId) {
+        query = query.eq("event_id", eventId)
+      }
+
+      const { data, error } = await query.maybeSingle()
+      if (error) {
+        console.warn("Error querying qr_mappings from Supabase (falling back to local):", {
+          qrCodeId,
+          eventId,
+          errorMessage: error.message,
+          errorDetails: error.details,
+          errorCode: error.code,
+          errorHint: error.hint,
+        })
+      } else if (data?.member_id) {
+        return data.member_id as string
+      }
+    } catch (err) {
+      console.warn("Unexpected error when querying Supabase for QR mapping, falling back to localStorage:", err)
+    }
+
+    return getLocalQRMappings()[qrCodeId] || null
+  },
+
+  async saveQRMapping(qrCodeId, memberId, eventId) {
+    saveLocalQRMapping(qrCodeId, memberId)
+    try {
+      await persistQRMapping(client, qrCodeId, memberId, eventId)
+    } catch (err) {
+      // The local copy is still available on this device
+      console.warn("Failed to persist QR mapping to Supabase, but localStorage fallback is available:", err)
+    }
+  },
+
+  // ID card registry: each qr_mappings row is a printed card
+  async listCards(eventId) {
+    const { data, error } = await client
+      .from(QR_MAPPINGS_TABLE)
+      .select("*")
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: true })
+    if (error) {
+      reportError("fetching ID cards", error)
+      return []
+    }
+    return data?.map(toIDCard) || []
+  },
+
+  async getCard(cardId) {
+    const { data, error } = await client.from(QR_MAPPINGS_TABLE).select("*").eq("qr_code_id", cardId).maybeSingle()
+    if (error) {
+      reportError("fetching ID card", error)
+      return null
+    }
+    return data ? toIDCard(data) : null
+  },
+
+  async saveCards(cards) {
+    if (cards.length === 0) return true
+    const { error } = await client.from(QR_MAPPINGS_TABLE).upsert(
+      cards.map((card) => ({
+        qr_code_id: card.id,
+        member_id: card.memberId,
+        event_id: card.eventId,
+        status: card.status,
+        issued_at: card.issuedAt,
+        reissue_count: card.reissueCount,
+        revoked_at: card.revokedAt || null,
+        replaced_by: card.replacedBy || null,
+      })),
+      { onConflict: "qr_code_id" },
+    )
+    if (error) {
+      reportError("saving ID cards", error)
+      return false
+    }
+    cards.forEach((card) => saveLocalQRMapping(card.id, card.memberId))
+    return true
+  },
+
+  // Card print log
+  async listCardPrints(eventId) {
+    const { data, error } = await client
+      .from(CARD_PRINTS_TABLE)
+      .select("*")
+      .eq("event_id", eventId)
+      .order("printed_at", { ascending: true })
+    if (error) {
+      reportError("fetching card print log", error)
+      return []
+    }
+    return data?.map(toCardPrint) || []
+  },
+
+  async saveCardPrints(prints) {
+    if (prints.length === 0) return true
+    const { error } = await client.from(CARD_PRINTS_TABLE).insert(
+      prints.map((print) => ({
+        id: print.id,
+        event_id: print.eventId,
+        member_id: print.memberId,
+        card_id: print.cardId,
+        printed_at: print.printedAt,
+        printed_by: print.printedBy || null,
+        fingerprint: print.fingerprint,
+      })),
+    )
+    if (error) {
+      reportError("saving card print log", error)
+      return false
+    }
+    return true
+  },
+
+  // Surplus batches
+  async listSurplusBatches(eventId) {
+    const { data, error } = await client
+      .from(SURPLUS_BATCHES_TABLE)
+      .select("*")
+      .eq("event_id", eventId)
+      .order("created_at", { ascending: false })
+    if (error) {
+      reportError("fetching surplus batches", error)
+      return []
+    }
+    return data?.map(toSurplusBatch) || []
+  },
+
+  async saveSurplusBatch(batch) {
+    const { error } = await client.from(SURPLUS_BATCHES_TABLE).upsert(
+      {
+        id: batch.id,
+        event_id: batch.eventId,
+        code: batch.code,
+        count: batch.count,
+        tanzeem: batch.tanzeem || null,
+        created_at: batch.createdAt,
+        voided_at: batch.voidedAt || null,
+      },
+      { onConflict: "id" },
+    )
+    if (error) {
+      reportError("saving surplus batch", error)
+      return false
+    }
+    return true
+  },
+
+  // Households
+  async listHouseholds(eventId) {
+    const { data, error } = await client.from(HOUSEHOLDS_TABLE).select("*").eq("event_id", eventId).order("name")
+    if (error) {
+      reportError("fetching households", error)
+      return []
+    }
+    return data?.map(toHousehold) || []
+  },
+
+  async saveHousehold(household) {
+    const { error } = await client.from(HOUSEHOLDS_TABLE).upsert(
+      {
+        id: household.id,
+        event_id: household.eventId,
+        name: household.name,
+        created_at: household.createdAt,
+      },
+      { onConflict: "id" },
+    )
+    if (error) {
+      reportError("saving household", error)
+      return false
+    }
+    return true
+  },
+
+  async deleteHousehold(householdId) {
+    const { error: membersError } = await client
+      .from(TAJNEED_TABLE)
+      .update({ household_id: null, household_role: null })
+      .eq("household_id", householdId)
+    if (membersError) {
+      reportError("removing members from household", membersError)
+      return false
+    }
+
+    const { error } = await client.from(HOUSEHOLDS_TABLE).delete().eq("id", householdId)
+    if (error) {
+      reportError("deleting household", error)
+      return false
+    }
+    return true
+  },
+})
@@ -0,0 +1,19 @@
+import { createClient } from "@supabase/supabase-js"
+
+// Server-only Supabase client with the service role key. Route handlers and
+// middleware.ts use it for the users, roles and user_event_assignments tables,
+// which the browser cannot reach (see scripts/restrict-user-tables.sql).
+// Returns null when either the URL or SUPABASE_SERVICE_ROLE_KEY is missing.
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+export const createAdminClient = () => {
+  if (!supabaseUrl || !serviceRoleKey) {
+    return null
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,43 @@
+import { toBase64Url, type SessionPayload } from "./session"
+
+// Short-lived Supabase access tokens minted from the signed session, so the
+// browser's queries run as the "authenticated" role with the session's event
+// scope and permissions as claims. The policies in
+// scripts/enforce-event-scope.sql read them; without a token the anon key
+// reaches no event data.
+// Signed HS256 with the project's JWT secret (Project Settings → API).
+
+// Short enough that revoked sessions and new assignments reach the database
+// within minutes; /api/auth/token goes through middleware.ts revalidation
+export const SUPABASE_TOKEN_TTL_SECONDS = 5 * 60
+
+const encoder = new TextEncoder()
+
+const encodeJson = (value: unknown) => toBase64Url(encoder.encode(JSON.stringify(value)))
+
+// Null when SUPABASE_JWT_SECRET is not set
+export const signSupabaseToken = async (
+  session: SessionPayload,
+): Promise<{ token: string; expiresAt: number } | null> => {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret) return null
+
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const expiresAt = Math.min(issuedAt + SUPABASE_TOKEN_TTL_SECONDS, session.exp)
+  const header = encodeJson({ alg: "HS256", typ: "JWT" })
+  const claims = encodeJson({
+    sub: session.sub,
+    role: "authenticated",
+    aud: "authenticated",
+    iat: issuedAt,
+    exp: expiresAt,
+    event_scope: session.eventScope, // null: every event
+    permissions: session.permissions,
+  })
+
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ])
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${claims}`))
+  return { token: `${header}.${claims}.${toBase64Url(new Uint8Array(signature))}`, expiresAt }
+}
@@ -1,12 +1,44 @@
-import { createBrowserClient } from "@supabase/ssr"
+import { createClient } from "@supabase/supabase-js"
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
+// Queries run with a short-lived token minted from the session cookie by
+// /api/auth/token, which carries the user's event scope for the database's
+// policies. Fetched again a minute before it expires.
+const TOKEN_REFRESH_MARGIN_SECONDS = 60
+
+let cachedToken: { token: string; expiresAt: number } | null = null
+
+const getAccessToken = async (): Promise<string | null> => {
+  const now = Math.floor(Date.now() / 1000)
+  if (cachedToken && cachedToken.expiresAt - now > TOKEN_REFRESH_MARGIN_SECONDS) return cachedToken.token
+
+  try {
+    const response = await fetch("/api/auth/token")
+    if (!response.ok) {
+      // Signed out or revoked: fall back to the anon key, which the policies refuse
+      cachedToken = null
+      return null
+    }
+    cachedToken = await response.json()
+    return cachedToken!.token
+  } catch (error) {
+    // Offline at the venue: the queries fail too and go to the scan queue
+    console.warn("Could not fetch a Supabase access token:", error)
+    return cachedToken?.token ?? null
+  }
+}
+
+// Forget the token of the user who just signed out
+export const clearAccessToken = (): void => {
+  cachedToken = null
+}
+
 let supabase: any = null
 
 if (supabaseUrl && supabaseAnonKey) {
-  supabase = createBrowserClient(supabaseUrl, supabaseAnonKey)
+  supabase = createClient(supabaseUrl, supabaseAnonKey, { accessToken: getAccessToken })
 }
 
 export { supabase }
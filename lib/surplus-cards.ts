@@ -0,0 +1,27 @@
+import type { SurplusBatch } from "./types"
+
+// Codes printed on surplus (blank) ID cards: SURPLUS-<batch code>-<number>.
+// Batches printed before they were recorded used Date.now() as the batch code
+// and 100 cards numbered 000-099, so the same format covers both.
+
+export const SURPLUS_PREFIX = "SURPLUS-"
+export const MAX_SURPLUS_BATCH_SIZE = 1000
+
+export const isSurplusCode = (code: string): boolean => code.startsWith(SURPLUS_PREFIX)
+
+const formatCardNumber = (batch: Pick<SurplusBatch, "count">, index: number) =>
+  String(index).padStart(Math.max(3, String(batch.count - 1).length), "0")
+
+export const getSurplusCardCode = (batch: Pick<SurplusBatch, "code" | "count">, index: number): string =>
+  `${SURPLUS_PREFIX}${batch.code}-${formatCardNumber(batch, index)}`
+
+export const getSurplusCardCodes = (batch: Pick<SurplusBatch, "code" | "count">): string[] =>
+  Array.from({ length: batch.count }, (_, i) => getSurplusCardCode(batch, i))
+
+// Batch code of a surplus card code, or null for any other code
+export const getSurplusBatchCode = (code: string): string | null => {
+  if (!isSurplusCode(code)) return null
+  const rest = code.slice(SURPLUS_PREFIX.length)
+  const separator = rest.lastIndexOf("-")
+  return separator > 0 ? rest.slice(0, separator) : null
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import { guessColumnMapping, readImportFile, validateImportRows, type ImportSheet } from "./tajneed-import"
+import type { Region, TajneedMember } from "./types"
+
+const REGIONS: Region[] = [{ id: "region-1", eventId: "event-1", name: "Nairobi", jamaat: ["Central", "مسجد"] }]
+
+const readCSV = (text: string) => readImportFile(new File([text], "tajneed.csv", { type: "text/csv" }))
+
+// One row per case, with the usual columns mapped from the headers
+const validate = (rows: string[][], existingMembers: TajneedMember[] = []) => {
+  const sheet: ImportSheet = { headers: ["Name", "Tanzeem", "Region", "Jamaat", "Gender", "DOB"], rows }
+  return validateImportRows(sheet, guessColumnMapping(sheet.headers), REGIONS, existingMembers)
+}
+
+describe("readImportFile", () => {
+  it("splits CSV rows, honouring quotes, escaped quotes and line breaks inside fields", async () => {
+    const sheet = await readCSV('Name,Notes\r\n"Hassan, Amina","said ""hi""\nthen left"\nAli,\n')
+    expect(sheet.headers).toEqual(["Name", "Notes"])
+    expect(sheet.rows).toEqual([
+      ["Hassan, Amina", 'said "hi"\nthen left'],
+      ["Ali", ""],
+    ])
+  })
+
+  it("picks semicolons as the delimiter when the header uses them", async () => {
+    const sheet = await readCSV("Name;Region\nAmina;Nairobi")
+    expect(sheet.rows).toEqual([["Amina", "Nairobi"]])
+  })
+
+  it("refuses other file types", async () => {
+    await expect(readImportFile(new File(["x"], "tajneed.pdf"))).rejects.toThrow("Unsupported file type")
+  })
+})
+
+describe("guessColumnMapping", () => {
+  it("matches headers to fields ignoring case and punctuation", () => {
+    expect(guessColumnMapping(["S/N", "Full-Name", "JAMA'AT", "Region", "D.O.B"])).toEqual({
+      fullName: 1,
+      tanzeem: null,
+      region: 3,
+      jamaat: 2,
+      gender: null,
+      dateOfBirth: 4,
+    })
+  })
+})
+
+describe("validateImportRows", () => {
+  it("reads ISO and day-first dates of birth", () => {
+    const [iso, dayFirst, dotted] = validate([
+      ["Amina", "Lajna", "Nairobi", "Central", "F", "1990-03-04"],
+      ["Fatima", "Lajna", "Nairobi", "Central", "F", "4/3/1990"],
+      ["Zainab", "Lajna", "Nairobi", "Central", "F", "04.03.1990"],
+    ])
+    expect(iso.member.dateOfBirth).toBe("1990-03-04")
+    expect(dayFirst.member.dateOfBirth).toBe("1990-03-04")
+    expect(dotted.member.dateOfBirth).toBe("1990-03-04")
+    expect([iso, dayFirst, dotted].flatMap((row) => row.errors)).toEqual([])
+  })
+
+  it("rejects dates that do not exist or are not day-first", () => {
+    const dates = ["31/02/1990", "1990/03/04", "March 1990"]
+    const rows = validate(dates.map((date) => ["Amina", "Lajna", "Nairobi", "Central", "F", date]))
+    rows.forEach((row, i) => expect(row.errors).toContain(`Date of birth "${dates[i]}" is not valid`))
+  })
+
+  it("suggests a missing tanzeem from gender and age and reports unknown regions and jamaats", () => {
+    const [suggested, unknownRegion, unknownJamaat] = validate([
+      ["Ali", "", "Nairobi", "Central", "Male", "1990-01-01"],
+      ["Amina", "Lajna", "Mombasa", "Central", "F", ""],
+      ["Fatima", "Lajna", "Nairobi", "Kisumu", "F", ""],
+    ])
+    expect(suggested.member.tanzeem).toBe("Khuddam")
+    expect(suggested.warnings[0]).toMatch(/^Tanzeem set to Khuddam/)
+    expect(unknownRegion.errors).toContain('Unknown region "Mombasa"')
+    expect(unknownJamaat.errors).toContain('Jamaat "Kisumu" is not in Nairobi')
+  })
+
+  it("matches non-Latin jamaat names", () => {
+    const [row] = validate([["Amina", "Lajna", "Nairobi", "مسجد", "F", ""]])
+    expect(row.errors).toEqual([])
+    expect(row.member.jamaat).toBe("مسجد")
+  })
+
+  it("flags rows repeating an existing member or an earlier row", () => {
+    const existing: TajneedMember = {
+      id: "member-1",
+      eventId: "event-1",
+      fullName: "Amina Hassan",
+      tanzeem: "Lajna",
+      region: "Nairobi",
+      jamaat: "Central",
+      createdAt: "2025-01-01T00:00:00Z",
+    }
+    const [repeat, first, second] = validate(
+      [
+        ["Amina Hasan", "Lajna", "Nairobi", "Central", "F", ""],
+        ["Fatima Ali", "Lajna", "Nairobi", "Central", "F", ""],
+        ["Fatima Ali", "Lajna", "Nairobi", "Central", "F", ""],
+      ],
+      [existing],
+    )
+    expect(repeat.duplicateOf).toBe("Amina Hassan")
+    expect(first.duplicateOf).toBeUndefined()
+    expect(second.duplicateOf).toBe("Fatima Ali (row 3)")
+  })
+})
@@ -0,0 +1,257 @@
+import ExcelJS from "exceljs"
+import { DEFAULT_DUPLICATE_THRESHOLD, foldText, nameSimilarity } from "./member-duplicates"
+import { validateMemberProfile } from "./member-profile"
+import { getTanzeemNames } from "./tanzeem-categories"
+import { getTanzeemMismatch, suggestTanzeem } from "./tanzeem-rules"
+import type { EventSettings, Gender, Region, TajneedImportMember, TajneedMember, Tanzeem } from "./types"
+
+// Bulk Tajneed import: reads the spreadsheets jamaats send in (.xlsx or CSV),
+// maps their columns onto member fields and validates every row before
+// anything is saved (see importTajneedMembers in lib/storage.ts).
+
+export type ImportField = "fullName" | "tanzeem" | "region" | "jamaat" | "gender" | "dateOfBirth"
+
+// Tanzeem may be left out when gender and date of birth are given; it is then suggested
+export const IMPORT_FIELDS: { key: ImportField; label: string; aliases: string[]; required: boolean }[] = [
+  {
+    key: "fullName",
+    label: "Full Name",
+    aliases: ["full name", "fullname", "name", "names", "member name", "member"],
+    required: true,
+  },
+  { key: "tanzeem", label: "Tanzeem", aliases: ["tanzeem", "auxiliary", "category"], required: false },
+  { key: "region", label: "Region", aliases: ["region"], required: true },
+  { key: "jamaat", label: "Jamaat", aliases: ["jamaat", "jama'at", "jamat", "majlis", "branch"], required: true },
+  { key: "gender", label: "Gender", aliases: ["gender", "sex"], required: false },
+  { key: "dateOfBirth", label: "Date of Birth", aliases: ["date of birth", "dob", "birth date", "birthdate"], required: false },
+]
+
+export interface ImportSheet {
+  headers: string[]
+  rows: string[][]
+}
+
+// Column index for each field, or null when the sheet has no such column
+export type ColumnMapping = Record<ImportField, number | null>
+
+export interface ImportRow {
+  rowNumber: number // Row in the spreadsheet, header being row 1
+  member: TajneedImportMember
+  errors: string[]
+  warnings: string[] // Saved anyway, e.g. a tanzeem that does not match the member's age
+  duplicateOf?: string // Existing member (or earlier row) this row probably repeats
+}
+
+// Splits CSV text into rows, honouring quoted fields. Sheets exported with a
+// comma decimal separator use semicolons, so the delimiter is picked from the header.
+const parseCSV = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"))
+  const delimiter = firstLine.split(";").length > firstLine.split(",").length ? ";" : ","
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows
+}
+
+const readWorkbook = async (file: File): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(await file.arrayBuffer())
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet) return []
+
+  const rows: string[][] = []
+  worksheet.eachRow({ includeEmpty: true }, (sheetRow, rowNumber) => {
+    const values: string[] = []
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      const cell = sheetRow.getCell(col)
+      // Date cells would otherwise come through in the reader's locale
+      values.push(cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text)
+    }
+    rows[rowNumber - 1] = values
+  })
+  return Array.from(rows, (values) => values || [])
+}
+
+// Reads the first sheet of an .xlsx file or a CSV file; the first row holds the headers
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  const name = file.name.toLowerCase()
+  let table: string[][]
+  if (name.endsWith(".xlsx")) {
+    table = await readWorkbook(file)
+  } else if (name.endsWith(".csv") || name.endsWith(".txt")) {
+    table = parseCSV(await file.text())
+  } else {
+    throw new Error("Unsupported file type. Upload an .xlsx or .csv file.")
+  }
+
+  const [headers = [], ...rows] = table.map((row) => row.map((value) => (value ?? "").trim()))
+  return { headers, rows }
+}
+
+const normalize = (value: string) => foldText(value).replace(/[^\p{L}\p{N}]/gu, "")
+
+// Whether two names are the same ignoring case, accents and punctuation; a
+// name with nothing left after that matches nothing
+const sameName = (a: string, b: string) => {
+  const key = normalize(a)
+  return key !== "" && key === normalize(b)
+}
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping
+  IMPORT_FIELDS.forEach((field) => {
+    const index = headers.findIndex((header) => field.aliases.some((alias) => sameName(alias, header)))
+    mapping[field.key] = index === -1 ? null : index
+  })
+  return mapping
+}
+
+const parseGender = (text: string): Gender | undefined => {
+  const value = normalize(text)
+  if (["m", "male", "man", "boy"].includes(value)) return "Male"
+  if (["f", "female", "woman", "girl"].includes(value)) return "Female"
+  return undefined
+}
+
+// Accepts YYYY-MM-DD and day-first DD/MM/YYYY (also with - or .); returns YYYY-MM-DD
+const parseDate = (text: string): string | undefined => {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+  const parts = iso ? [iso[1], iso[2], iso[3]] : dayFirst ? [dayFirst[3], dayFirst[2], dayFirst[1]] : null
+  if (!parts) return undefined
+  const [year, month, day] = parts
+
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`
+  const parsed = new Date(date)
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : undefined
+}
+
+// Finds the member (or earlier row) a row probably repeats: someone in the same
+// jamaat whose name is at least DEFAULT_DUPLICATE_THRESHOLD similar, so
+// spelling variants such as "Amina Hasan" for "Amina Hassan" are flagged as well as exact repeats
+const createDuplicateFinder = (existingMembers: TajneedMember[]) => {
+  const byJamaat = new Map<string, { fullName: string; label: string }[]>()
+  const add = (member: Pick<TajneedImportMember, "fullName" | "jamaat">, label: string) => {
+    const key = normalize(member.jamaat)
+    byJamaat.set(key, [...(byJamaat.get(key) || []), { fullName: member.fullName, label }])
+  }
+  existingMembers.forEach((member) => add(member, member.fullName))
+
+  return {
+    find: (member: Pick<TajneedImportMember, "fullName" | "jamaat">): string | undefined =>
+      byJamaat
+        .get(normalize(member.jamaat))
+        ?.find((candidate) => nameSimilarity(candidate.fullName, member.fullName) >= DEFAULT_DUPLICATE_THRESHOLD)?.label,
+    add,
+  }
+}
+
+export const validateImportRows = (
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  regions: Region[],
+  existingMembers: TajneedMember[],
+  settings?: EventSettings, // For the tanzeem categories and age cut-offs
+): ImportRow[] => {
+  const duplicates = createDuplicateFinder(existingMembers)
+  const tanzeems = getTanzeemNames(settings)
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field]
+    return index === null ? "" : (row[index] || "").trim()
+  }
+
+  const result: ImportRow[] = []
+  sheet.rows.forEach((row, i) => {
+    if (row.every((value) => !value.trim())) return // Blank line
+
+    const errors: string[] = []
+    const warnings: string[] = []
+    const fullName = cell(row, "fullName").replace(/\s+/g, " ")
+    if (!fullName) errors.push("Full name is missing")
+
+    const genderText = cell(row, "gender")
+    const gender = parseGender(genderText)
+    if (genderText && !gender) errors.push(`Unknown gender "${genderText}"`)
+
+    const dateText = cell(row, "dateOfBirth")
+    const dateOfBirth = parseDate(dateText)
+    if (dateText && (!dateOfBirth || validateMemberProfile({ dateOfBirth }))) {
+      errors.push(`Date of birth "${dateText}" is not valid`)
+    }
+
+    const tanzeemText = cell(row, "tanzeem")
+    const suggestion = suggestTanzeem({ gender, dateOfBirth }, settings)
+    let tanzeem = tanzeems.find((t) => sameName(t, tanzeemText))
+    if (tanzeemText && !tanzeem) {
+      errors.push(`Unknown tanzeem "${tanzeemText}"`)
+    } else if (!tanzeem && suggestion) {
+      tanzeem = suggestion.tanzeem
+      warnings.push(`Tanzeem set to ${tanzeem} from age ${suggestion.age}`)
+    } else if (!tanzeem) {
+      errors.push("Tanzeem is missing")
+    } else {
+      const mismatch = getTanzeemMismatch({ tanzeem, gender, dateOfBirth }, settings)
+      if (mismatch) warnings.push(`Age ${mismatch.age} suggests ${mismatch.tanzeem}`)
+    }
+
+    const regionText = cell(row, "region")
+    const region = regions.find((r) => sameName(r.name, regionText))
+    if (!region) errors.push(regionText ? `Unknown region "${regionText}"` : "Region is missing")
+
+    const jamaatText = cell(row, "jamaat")
+    const jamaat = region?.jamaat.find((j) => sameName(j, jamaatText))
+    if (!jamaatText) {
+      errors.push("Jamaat is missing")
+    } else if (region && !jamaat) {
+      errors.push(`Jamaat "${jamaatText}" is not in ${region.name}`)
+    }
+
+    const member: TajneedImportMember = {
+      fullName,
+      tanzeem: tanzeem || (tanzeemText as Tanzeem),
+      region: region?.name || regionText,
+      jamaat: jamaat || jamaatText,
+      gender,
+      dateOfBirth,
+    }
+
+    const duplicateOf = fullName ? duplicates.find(member) : undefined
+    if (fullName && !duplicateOf) duplicates.add(member, `${fullName} (row ${i + 2})`)
+
+    result.push({ rowNumber: i + 2, member, errors, warnings, duplicateOf })
+  })
+  return result
+}
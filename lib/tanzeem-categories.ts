@@ -0,0 +1,56 @@
+import type { EventSettings, TanzeemCategory } from "./types"
+
+// Each event defines its own tanzeem categories in settings; events that
+// never changed them use these. Members store the category name, so renaming
+// a category does not move the members registered under the old name.
+
+export const DEFAULT_TANZEEM_CATEGORIES: TanzeemCategory[] = [
+  { name: "Under 7", code: "U7", color: "#f59e0b", sortOrder: 1 },
+  { name: "Atfal", code: "AT", color: "#3b82f6", sortOrder: 2 },
+  { name: "Khuddam", code: "KH", color: "#16a34a", sortOrder: 3 },
+  { name: "Nasrat", code: "NS", color: "#ec4899", sortOrder: 4 },
+  { name: "Lajna", code: "LJ", color: "#a855f7", sortOrder: 5 },
+  { name: "Ansar", code: "AN", color: "#0f766e", sortOrder: 6 },
+  { name: "Guests", code: "GU", color: "#6b7280", sortOrder: 7 },
+]
+
+const FALLBACK_COLOR = "#6b7280"
+
+// The event's categories in sort order
+export const getTanzeemCategories = (settings?: EventSettings): TanzeemCategory[] =>
+  [...(settings?.tanzeemCategories?.length ? settings.tanzeemCategories : DEFAULT_TANZEEM_CATEGORIES)].sort(
+    (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name),
+  )
+
+export const getTanzeemNames = (settings?: EventSettings): string[] =>
+  getTanzeemCategories(settings).map((category) => category.name)
+
+export const getTanzeemCategory = (name: string, settings?: EventSettings): TanzeemCategory | undefined =>
+  getTanzeemCategories(settings).find((category) => category.name === name)
+
+// Short code used in member codes; categories removed since a member was
+// registered fall back to the first letters of the name
+export const getTanzeemCode = (name: string, settings?: EventSettings): string =>
+  getTanzeemCategory(name, settings)?.code ||
+  name.replace(/[^A-Za-z0-9]/g, "").slice(0, 2).toUpperCase() ||
+  "XX"
+
+export const getTanzeemColor = (name: string, settings?: EventSettings): string =>
+  getTanzeemCategory(name, settings)?.color || FALLBACK_COLOR
+
+// First problem with the categories, or null when they can be saved
+export const validateTanzeemCategories = (categories: TanzeemCategory[]): string | null => {
+  if (categories.length === 0) return "Add at least one tanzeem category"
+  if (categories.some((category) => !category.name.trim())) return "Every category needs a name"
+  if (categories.some((category) => !/^[A-Z0-9]{1,4}$/.test(category.code))) {
+    return "Short codes must be 1 to 4 capital letters or digits"
+  }
+  if (categories.some((category) => !/^#[0-9a-fA-F]{6}$/.test(category.color))) return "Colours must be #RRGGBB"
+  if (categories.some((category) => !Number.isInteger(category.sortOrder))) return "Sort order must be a whole number"
+
+  const names = categories.map((category) => category.name.trim().toLowerCase())
+  if (new Set(names).size !== names.length) return "Category names must be different"
+  const codes = categories.map((category) => category.code)
+  if (new Set(codes).size !== codes.length) return "Short codes must be different"
+  return null
+}
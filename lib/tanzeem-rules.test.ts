@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_TANZEEM_AGE_CUTOFFS,
+  getTanzeemMismatch,
+  suggestTanzeem,
+  validateTanzeemAgeCutoffs,
+} from "./tanzeem-rules"
+import type { EventSettings } from "./types"
+
+const EVENT = {
+  id: "event-1",
+  eventName: "Jalsa Salana Kenya",
+  startingDate: "2025-08-22",
+  duration: 3,
+  location: "Nairobi",
+  theme: "",
+  createdAt: "2025-01-01T00:00:00Z",
+} as EventSettings
+
+describe("suggestTanzeem", () => {
+  it("uses the member's age on the event's starting date", () => {
+    const boy = { gender: "Male" as const }
+    expect(suggestTanzeem({ ...boy, dateOfBirth: "2010-08-22" }, EVENT)).toEqual({ tanzeem: "Khuddam", age: 15 })
+    expect(suggestTanzeem({ ...boy, dateOfBirth: "2010-08-23" }, EVENT)).toEqual({ tanzeem: "Atfal", age: 14 })
+    expect(suggestTanzeem({ gender: "Male", dateOfBirth: "1980-01-01" }, EVENT)?.tanzeem).toBe("Ansar")
+    expect(suggestTanzeem({ gender: "Female", dateOfBirth: "2015-01-01" }, EVENT)?.tanzeem).toBe("Nasrat")
+    expect(suggestTanzeem({ gender: "Female", dateOfBirth: "1990-01-01" }, EVENT)?.tanzeem).toBe("Lajna")
+    expect(suggestTanzeem({ gender: "Female", dateOfBirth: "2022-01-01" }, EVENT)?.tanzeem).toBe("Under 7")
+  })
+
+  it("follows the event's own cut-offs", () => {
+    const settings = { ...EVENT, tanzeemAgeCutoffs: { ...DEFAULT_TANZEEM_AGE_CUTOFFS, ansar: 50 } }
+    expect(suggestTanzeem({ gender: "Male", dateOfBirth: "1980-01-01" }, settings)?.tanzeem).toBe("Khuddam")
+  })
+
+  it("suggests nothing without a gender and date of birth, or for a category the event dropped", () => {
+    expect(suggestTanzeem({ dateOfBirth: "1990-01-01" }, EVENT)).toBeNull()
+    expect(suggestTanzeem({ gender: "Male" }, EVENT)).toBeNull()
+    const settings = {
+      ...EVENT,
+      tanzeemCategories: [{ name: "Khuddam", code: "KH", color: "#16a34a", sortOrder: 1 }],
+    }
+    expect(suggestTanzeem({ gender: "Male", dateOfBirth: "1980-01-01" }, settings)).toBeNull()
+  })
+})
+
+describe("getTanzeemMismatch", () => {
+  it("flags age-based members registered in the wrong tanzeem", () => {
+    const member = { tanzeem: "Atfal", gender: "Male" as const, dateOfBirth: "1990-01-01" }
+    expect(getTanzeemMismatch(member, EVENT)?.tanzeem).toBe("Khuddam")
+    expect(getTanzeemMismatch({ ...member, tanzeem: "Khuddam" }, EVENT)).toBeNull()
+  })
+
+  it("leaves guests and other categories alone", () => {
+    expect(getTanzeemMismatch({ tanzeem: "Guests", gender: "Male", dateOfBirth: "1990-01-01" }, EVENT)).toBeNull()
+  })
+})
+
+describe("validateTanzeemAgeCutoffs", () => {
+  it("accepts the defaults and rejects ages out of order or out of range", () => {
+    expect(validateTanzeemAgeCutoffs(DEFAULT_TANZEEM_AGE_CUTOFFS)).toBeNull()
+    expect(validateTanzeemAgeCutoffs({ ...DEFAULT_TANZEEM_AGE_CUTOFFS, khuddam: 45 })).not.toBeNull()
+    expect(validateTanzeemAgeCutoffs({ ...DEFAULT_TANZEEM_AGE_CUTOFFS, lajna: 5 })).not.toBeNull()
+    expect(validateTanzeemAgeCutoffs({ ...DEFAULT_TANZEEM_AGE_CUTOFFS, atfal: 6.5 })).not.toBeNull()
+  })
+})
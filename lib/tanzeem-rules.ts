@@ -0,0 +1,70 @@
+import { getAge } from "./member-profile"
+import { getTanzeemCategory } from "./tanzeem-categories"
+import type { EventSettings, TajneedMember, TanzeemAgeCutoffs, Tanzeem } from "./types"
+
+// Tanzeem follows from a member's gender and age on the event's starting date,
+// using the event's cut-offs. Only the built-in age-based categories are ever
+// suggested, and only while the event still has them; Guests and any
+// categories an event adds itself are never suggested or flagged.
+
+export const DEFAULT_TANZEEM_AGE_CUTOFFS: TanzeemAgeCutoffs = {
+  atfal: 7,
+  khuddam: 15,
+  ansar: 40,
+  nasrat: 7,
+  lajna: 15,
+}
+
+export const getTanzeemAgeCutoffs = (settings?: EventSettings): TanzeemAgeCutoffs => ({
+  ...DEFAULT_TANZEEM_AGE_CUTOFFS,
+  ...settings?.tanzeemAgeCutoffs,
+})
+
+// First problem with the cut-offs, or null when they can be saved
+export const validateTanzeemAgeCutoffs = (cutoffs: TanzeemAgeCutoffs): string | null => {
+  if (Object.values(cutoffs).some((age) => !Number.isInteger(age) || age < 0 || age > 120)) {
+    return "Age cut-offs must be whole numbers of years"
+  }
+  if (!(cutoffs.atfal < cutoffs.khuddam && cutoffs.khuddam < cutoffs.ansar)) {
+    return "Atfal, Khuddam and Ansar must start at increasing ages"
+  }
+  if (!(cutoffs.nasrat < cutoffs.lajna)) {
+    return "Lajna must start at an older age than Nasrat"
+  }
+  return null
+}
+
+export type TanzeemSuggestion = { tanzeem: Tanzeem; age: number }
+
+// The tanzeem a member's gender and date of birth call for, or null when
+// either is missing or the event has no such category
+export const suggestTanzeem = (
+  member: Pick<TajneedMember, "gender" | "dateOfBirth">,
+  settings?: EventSettings,
+): TanzeemSuggestion | null => {
+  const onDate = settings?.startingDate ? new Date(settings.startingDate) : new Date()
+  const age = getAge(member.dateOfBirth, onDate)
+  if (age === null || !member.gender) return null
+
+  const cutoffs = getTanzeemAgeCutoffs(settings)
+  let tanzeem: Tanzeem
+  if (member.gender === "Female") {
+    tanzeem = age >= cutoffs.lajna ? "Lajna" : age >= cutoffs.nasrat ? "Nasrat" : "Under 7"
+  } else {
+    tanzeem =
+      age >= cutoffs.ansar ? "Ansar" : age >= cutoffs.khuddam ? "Khuddam" : age >= cutoffs.atfal ? "Atfal" : "Under 7"
+  }
+  return getTanzeemCategory(tanzeem, settings) ? { tanzeem, age } : null
+}
+
+// The suggested tanzeem when it differs from the one the member is registered in
+export const getTanzeemMismatch = (
+  member: Pick<TajneedMember, "tanzeem" | "gender" | "dateOfBirth">,
+  settings?: EventSettings,
+): TanzeemSuggestion | null => {
+  // Members in categories that are not age-based (Guests, Volunteers, ...) are left alone
+  const ageBased = ["Under 7", "Atfal", "Khuddam", "Nasrat", "Lajna", "Ansar"]
+  if (!ageBased.includes(member.tanzeem)) return null
+  const suggestion = suggestTanzeem(member, settings)
+  return suggestion && suggestion.tanzeem !== member.tanzeem ? suggestion : null
+}
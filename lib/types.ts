@@ -1,6 +1,20 @@
 // Data types for the event registration system
 
-export type Tanzeem = "Under 7" | "Atfal" | "Khuddam" | "Nasrat" | "Lajna" | "Ansar" | "Guests"
+import type { Permission } from "./permissions"
+
+// Name of one of the event's tanzeem categories (see lib/tanzeem-categories.ts)
+export type Tanzeem = string
+
+export interface TanzeemCategory {
+  name: string
+  code: string // 1-4 capitals or digits; prefixes member codes, e.g. KH-0042
+  color: string // #RRGGBB
+  sortOrder: number
+}
+
+export type Gender = "Male" | "Female"
+
+export type DietaryRequirement = "Diabetic" | "Vegetarian" | "Soft food" | "Allergy"
 
 export interface TajneedMember {
   id: string
@@ -9,6 +23,17 @@ export interface TajneedMember {
   tanzeem: Tanzeem
   region: string
   jamaat: string
+  phone?: string
+  email?: string
+  gender?: Gender
+  dateOfBirth?: string // YYYY-MM-DD
+  aimsNumber?: string // National ID or AIMS membership number
+  dietaryRequirements?: DietaryRequirement[]
+  dietaryNotes?: string // e.g. what the member is allergic to
+  photoUrl?: string // Set through setTajneedMemberPhoto
+  memberCode?: string // e.g. KH-0042, assigned at registration (see lib/member-codes.ts)
+  householdId?: string
+  householdRole?: HouseholdRole
   createdAt: string
 }
 
@@ -34,9 +59,196 @@ export interface EventSettings {
   duration: number
   location: string
   theme: string
+  qrKeyVersion?: number // Version of the key ID card QR codes are signed with; bump to retire printed cards
+  legacyQrUntil?: string // Unsigned (pre-signing) cards are accepted until this date; unset: 30 days after createdAt
+  tanzeemAgeCutoffs?: TanzeemAgeCutoffs // Unset: DEFAULT_TANZEEM_AGE_CUTOFFS
+  tanzeemCategories?: TanzeemCategory[] // Unset or empty: DEFAULT_TANZEEM_CATEGORIES
+  mealTypes?: MealType[] // Meals served, in order; unset or empty: DEFAULT_MEAL_TYPES
+  dayMeals?: Record<EventDay, MealType[]> // Meals served on particular days; days not listed serve every meal
+  mealWindows?: Record<MealType, MealWindow> // Unset: DEFAULT_MEAL_WINDOWS; meals not listed are served all day
+  timeZone?: string // IANA time zone meal windows are in, e.g. "Europe/London"; unset: the database's
+  branding?: Partial<BrandingProfile> // Unset or empty fields: DEFAULT_BRANDING
+  cardTemplates?: IDCardTemplate[] // Saved ID card layouts (see lib/card-templates.ts)
+  activeCardTemplateId?: string // Template ID cards are printed from; unset: the built-in layout
+  printProfiles?: PrintProfile[] // Edited built-in and custom printer layouts (see lib/print-profiles.ts)
+  activePrintProfileId?: string // Profile ID cards are printed with; unset: A4 with cut marks
+  certificate?: Partial<CertificateSettings> // Unset fields: DEFAULT_CERTIFICATE
   createdAt: string
 }
 
+// Organisation branding used by every export (see lib/branding.ts). Images are
+// paths under public/ or data URLs.
+export interface BrandingProfile {
+  titleLine: string // e.g. "Jalsa Salana"; printed with the country and the event's year
+  country: string
+  organisationShortName: string // Printed above the country under the badge logo on ID cards
+  cardLogoUrl: string // Left of the ID card header
+  reportLogoUrl: string // Top left of PDF reports
+  badgeLogoUrl: string // Bottom left of ID cards
+  signatureUrl: string
+  signatoryName: string // Printed under the signature on ID cards
+  cardHeaderColor: string // #RRGGBB
+  tableHeaderColor: string // #RRGGBB, PDF and Excel table headings
+  footerText: string // Printed at the foot of every PDF page and Excel sheet; empty: none
+}
+
+// Participation certificate layout and wording (see lib/certificates.ts). The
+// texts may use {name}, {tanzeem}, {region}, {jamaat}, {event}, {location} and {dates}.
+export interface CertificateSettings {
+  paper: "a4" | "a5"
+  orientation: "landscape" | "portrait"
+  title: string // e.g. "Certificate of Participation"
+  introText: string // Above the member's name
+  bodyText: string // Below the member's name
+  showSignature: boolean // Signature image and signatory from the branding
+}
+
+// What a card template element shows: a member detail, an image, event or
+// branding text, free text or a filled box
+export type CardElementKind =
+  | "name"
+  | "tanzeem"
+  | "region"
+  | "jamaat"
+  | "memberCode"
+  | "photo"
+  | "qr"
+  | "cardLogo"
+  | "badgeLogo"
+  | "signature"
+  | "signatory"
+  | "organisation"
+  | "country"
+  | "eventTitle"
+  | "eventDates"
+  | "theme"
+  | "text"
+  | "box"
+
+// One element on an ID card template, positioned in millimetres from the
+// card's top left corner
+export interface CardElement {
+  id: string
+  kind: CardElementKind
+  x: number
+  y: number
+  width: number
+  height: number
+  fontSize?: number // pt, text elements
+  color?: string // #RRGGBB, text colour or box fill
+  bold?: boolean
+  italic?: boolean
+  align?: "left" | "center" | "right"
+  text?: string // Free text elements
+}
+
+export interface IDCardTemplate {
+  id: string
+  name: string
+  background: string // #RRGGBB
+  tanzeemBackgrounds: Record<Tanzeem, string> // Overrides the background per tanzeem
+  elements: CardElement[] // Drawn in order, later elements on top
+}
+
+// "pdf": pages of cards; "zpl"/"epl": command files for Zebra-style label printers
+export type PrintProfileKind = "pdf" | "zpl" | "epl"
+
+// How ID cards are laid out for a printer, in millimetres
+export interface PrintProfile {
+  id: string
+  name: string
+  kind: PrintProfileKind
+  paper: "a4" | "letter" | "card" // "card": one card per page, the size of the card
+  cardWidth: number
+  cardHeight: number
+  columns: number
+  rows: number
+  marginLeft: number // Page edge to the first card
+  marginTop: number
+  gapX: number // Between cards
+  gapY: number
+  cutMarks: boolean
+  offsetX: number // Calibration: moves every card right (negative: left)
+  offsetY: number // Calibration: moves every card down (negative: up)
+  dpi: number // Label printer resolution (zpl/epl)
+}
+
+// Age, on the event's starting date, from which a member belongs to each
+// tanzeem. Younger children of either gender are Under 7.
+export interface TanzeemAgeCutoffs {
+  atfal: number
+  khuddam: number
+  ansar: number
+  nasrat: number
+  lajna: number
+}
+
+export type IDCardStatus = "active" | "revoked" | "lost"
+
+// A printed ID card. Stored in the qr_mappings table, keyed by the code in its QR.
+export interface IDCard {
+  id: string // Card code: the member id for first cards, SURPLUS-... or a fresh id for replacements
+  memberId: string
+  eventId: string
+  status: IDCardStatus
+  issuedAt: string
+  reissueCount: number // Replacements printed for the member before this card
+  revokedAt?: string // Also the date the replacement was issued
+  replacedBy?: string // Card printed in its place
+}
+
+// A member's ID card being printed, logged so the print queue knows who still
+// needs a card (see lib/print-queue.ts)
+export interface CardPrint {
+  id: string
+  eventId: string
+  memberId: string
+  cardId: string // Card code printed
+  printedAt: string
+  printedBy?: string // User who printed it
+  fingerprint: string // Card details when printed (see getCardFingerprint)
+}
+
+// A printed run of blank ID cards, claimed one by one when a walk-in's card
+// is scanned and registered on the attendance page
+export interface SurplusBatch {
+  id: string
+  eventId: string
+  code: string // Shared part of the card codes: SURPLUS-<code>-NNN
+  count: number
+  tanzeem?: Tanzeem // Pre-filled for members who claim a card from this batch
+  createdAt: string
+  voidedAt?: string // Voided batches no longer scan
+}
+
+export type HouseholdRole = "Head" | "Spouse" | "Child" | "Other"
+
+// A family registered together; its members point at it through householdId
+// and one family card checks in every member present
+export interface Household {
+  id: string
+  eventId: string
+  name: string // e.g. "Ahmad Family"
+  createdAt: string
+}
+
+// A member read from an import spreadsheet, before it joins an event
+export type TajneedImportMember = Omit<TajneedMember, "id" | "eventId" | "createdAt">
+
+// One batch of a bulk Tajneed import, saved (or not) on its own
+export interface TajneedImportBatch {
+  members: TajneedImportMember[]
+  imported: number
+  reason?: string // Why the batch was not saved
+}
+
+// Outcome of a bulk Tajneed import
+export interface TajneedImportResult {
+  imported: TajneedMember[]
+  failed: { member: TajneedImportMember; reason: string }[]
+  batches: TajneedImportBatch[]
+}
+
 export interface CategoryCount {
   tanzeem: Tanzeem
   count: number
@@ -50,30 +262,132 @@ export interface SecurityMovement {
   attendanceRecordId: string
   status: MovementStatus
   timestamp: string
+  gate?: string // Gate the movement was recorded at, when the user works a gate
   attendanceRecord?: AttendanceRecord
 }
 
-export type MealType = "Breakfast" | "Lunch" | "Dinner"
-export type DayOfWeek = "Friday" | "Saturday" | "Sunday" | "Monday" | "Tuesday" | "Wednesday" | "Thursday"
+// One of the event's meal types, e.g. "Lunch" or "Iftar" (see lib/catering-sessions.ts)
+export type MealType = string
+// Event day as an ISO date (YYYY-MM-DD); records served before days were dated hold a weekday name
+export type EventDay = string
+
+// Local times (HH:MM) a meal is served between; the end is exclusive
+export interface MealWindow {
+  start: string
+  end: string
+}
 
 export interface CateringRecord {
   id: string
   eventId: string
   attendanceRecordId: string
-  day: DayOfWeek
+  day: EventDay
   mealType: MealType
   servedAt: string
+  overrideBy?: string // Id of the supervisor who approved serving outside the meal's window
+  overrideByName?: string // Their name when they approved, for reports
   attendanceRecord?: AttendanceRecord
 }
 
-export type UserRole = "Admin" | "Attendance Register" | "Security Check" | "Catering Service"
+// A supervisor's approval to serve one meal outside its window on this
+// scanner; the token is checked again by the server for every serving
+export interface CateringOverrideApproval {
+  token: string
+  approverId: string
+  approverName: string
+  day: EventDay
+  mealType: MealType
+}
+
+// Name of a role; built-in roles and their permissions live in lib/permissions.ts
+export type UserRole = string
+
+export interface RoleDefinition {
+  name: UserRole
+  description?: string
+  permissions: Permission[]
+  builtIn: boolean // Admin and the original three roles; cannot be deleted
+  createdAt?: string
+  updatedAt?: string
+}
 
 export interface User {
   id: string
   username: string
-  password: string // Hashed in production
+  password?: string // scrypt hash; only read server-side (see lib/password.ts)
   role: UserRole
   fullName: string
+  assignments?: EventAssignment[] // Events the user works; see lib/event-scope.ts
   createdAt: string
   updatedAt: string
 }
+
+// Assignment of a system user to one event. Empty regions / gates mean the
+// whole event.
+export interface EventAssignment {
+  eventId: string
+  regions: string[]
+  gates: string[]
+}
+
+// Offline scan queue (outbox) entries replayed to Supabase when connectivity returns
+export type QueuedScanKind = "attendance" | "security" | "catering"
+export type QueuedScanStatus = "pending" | "failed" | "conflict"
+
+interface QueuedScanBase {
+  id: string
+  eventId: string
+  userId: string // Who scanned it; replayed only under their session
+  clientTimestamp: string
+  status: QueuedScanStatus
+  attempts: number
+  label?: string // Member name shown in the sync panel
+  lastError?: string
+  resolution?: string // How a conflict was resolved during replay
+}
+
+export interface QueuedAttendanceScan extends QueuedScanBase {
+  kind: "attendance"
+  payload: { recordId: string; memberId: string }
+}
+
+export interface QueuedSecurityScan extends QueuedScanBase {
+  kind: "security"
+  payload: { movementId: string; attendanceRecordId: string; status: MovementStatus; gate?: string }
+}
+
+export interface QueuedCateringScan extends QueuedScanBase {
+  kind: "catering"
+  payload: { recordId: string; attendanceRecordId: string; day: EventDay; mealType: MealType }
+}
+
+export type QueuedScan = QueuedAttendanceScan | QueuedSecurityScan | QueuedCateringScan
+
+export interface ScanQueueStats {
+  pending: number
+  failed: number
+  conflicts: number
+}
+
+export type ScannedCardRejection =
+  | "forged"
+  | "foreign-event"
+  | "retired-key"
+  | "legacy-expired"
+  | "revoked"
+  | "voided"
+  | "unverifiable"
+  | "unknown-code" // A typed member code that matches nobody
+
+// Outcome of checking a scanned ID card's QR code before looking the card up
+// Where scanned text came from: the camera reading a card, or a code typed in
+export type ScanSource = "camera" | "typed"
+
+export type ScannedCardCheck =
+  | {
+      ok: true
+      cardId: string // Member id or SURPLUS-... id
+      legacy: boolean // Printed before QR codes were signed
+      typedMember?: TajneedMember // A typed member code: confirm the person against this member first
+    }
+  | { ok: false; reason: ScannedCardRejection; message: string }
@@ -0,0 +1,127 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { canAccessPath, isPublicPath } from "@/lib/route-access"
+import { ADMIN_ROLE, mergeRoles, resolvePermissions } from "@/lib/permissions"
+import { resolveEventScope } from "@/lib/event-scope"
+import { getAuthUserRole, getLocalAdmin, getServerStorageAdapter, isAuthUserActive } from "@/lib/server-storage"
+import { createAdminClient } from "@/lib/supabase-admin"
+import type { StorageAdapter } from "@/lib/storage-adapter"
+import {
+  SESSION_COOKIE,
+  getSessionCookieOptions,
+  markRevalidated,
+  needsRevalidation,
+  signSession,
+  verifySession,
+  type SessionPayload,
+} from "@/lib/session"
+
+type DenyReason = "login" | "expired" | "revoked"
+
+const deny = (request: NextRequest, reason: DenyReason) => {
+  const isApi = request.nextUrl.pathname.startsWith("/api/")
+  const response = isApi
+    ? NextResponse.json({ error: "Not signed in" }, { status: 401 })
+    : NextResponse.redirect(new URL(reason === "login" ? "/login" : `/login?reason=${reason}`, request.url))
+  if (reason !== "login") {
+    response.cookies.delete(SESSION_COOKIE)
+  }
+  return response
+}
+
+const forbid = (request: NextRequest) =>
+  request.nextUrl.pathname.startsWith("/api/")
+    ? NextResponse.json({ error: "Your role does not have permission for this" }, { status: 403 })
+    : NextResponse.redirect(new URL("/", request.url))
+
+// The account's current role, or null when it was deleted or banned (for the
+// local admin: its password or username changed in the environment). Undefined when it cannot be read right
+// now: storage unreachable, so the user keeps working and it is tried again
+// on the next request.
+const readCurrentRole = async (session: SessionPayload, storage: StorageAdapter): Promise<string | null | undefined> => {
+  switch (session.source) {
+    case "supabase-auth": {
+      const client = createAdminClient()
+      if (!client) return undefined
+      const { data, error } = await client.auth.admin.getUserById(session.sub)
+      if (error) {
+        if (error.status === 404) return null
+        console.warn("Could not revalidate session:", error)
+        return undefined
+      }
+      return isAuthUserActive(data.user) ? getAuthUserRole(data.user) : null
+    }
+    case "local-admin": {
+      const admin = getLocalAdmin()
+      return admin && admin.username === session.username ? ADMIN_ROLE : null
+    }
+    default: {
+      const user = await storage.getUser(session.sub).catch((err) => {
+        console.warn("Could not revalidate session:", err)
+        return undefined
+      })
+      return user === undefined ? undefined : user?.role ?? null
+    }
+  }
+}
+
+// Re-read the account behind the session: a deleted or disabled account or a
+// changed role ends the session, while permission edits on the role and event
+// assignments are picked up in place.
+// Returns null when the session should be revoked.
+const revalidate = async (session: SessionPayload): Promise<SessionPayload | null> => {
+  const storage = await getServerStorageAdapter()
+  if (!storage) return session
+
+  const role = await readCurrentRole(session, storage)
+  if (role === undefined) return session
+  if (role !== session.role) return null
+
+  if (session.role === ADMIN_ROLE) return markRevalidated(session)
+
+  try {
+    const permissions = resolvePermissions(session.role, mergeRoles(await storage.listRoles()))
+    const eventScope = resolveEventScope(permissions, await storage.listUserAssignments(session.sub))
+    return { ...markRevalidated(session), permissions, eventScope }
+  } catch (err) {
+    console.warn("Could not refresh role permissions and event assignments:", err)
+    return session
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl
+  if (isPublicPath(pathname)) return NextResponse.next()
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value
+  let session = await verifySession(token)
+  if (!session) return deny(request, token ? "expired" : "login")
+  // Cookies issued before sessions carried permissions and event scope: sign in again
+  if (!Array.isArray(session.permissions) || session.eventScope === undefined) return deny(request, "expired")
+
+  let refreshed = false
+  if (needsRevalidation(session)) {
+    const current = await revalidate(session)
+    if (!current) return deny(request, "revoked")
+    refreshed = current !== session
+    session = current
+  }
+
+  if (!canAccessPath(session.permissions, pathname)) return forbid(request)
+
+  if (!refreshed) return NextResponse.next()
+
+  // Hand the refreshed cookie to the route as well as the browser, so
+  // /api/auth/session reports the permissions and assignments just read
+  const refreshedToken = await signSession(session)
+  request.cookies.set(SESSION_COOKIE, refreshedToken)
+  const response = NextResponse.next({ request: { headers: request.headers } })
+  response.cookies.set(SESSION_COOKIE, refreshedToken, getSessionCookieOptions(session))
+  return response
+}
+
+export const config = {
+  // Node.js, so local mode can read the users kept in the server's data files
+  runtime: "nodejs",
+  // Everything except Next.js internals and files in public/ (logo, manifest, signature...)
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.[a-zA-Z0-9]+$).*)"],
+}
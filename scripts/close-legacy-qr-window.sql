@@ -0,0 +1,14 @@
+-- Migration: close the window for ID cards printed before QR signing
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- legacy_qr_until had a default.
+
+-- Unsigned cards used to scan for as long as legacy_qr_until was NULL. The app
+-- now reads NULL as 30 days after the event was created, which would reject
+-- them at once for older events, so give those events 30 days from today to
+-- reprint instead.
+UPDATE events SET legacy_qr_until = CURRENT_DATE + 30 WHERE legacy_qr_until IS NULL;
+
+-- Notes:
+-- - Change the date per event on its settings page.
+-- - Unsigned cards are now only read when they name a card in the registry, a
+--   registered member or a code from one of the event's surplus batches.
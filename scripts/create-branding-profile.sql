@@ -0,0 +1,12 @@
+-- Migration: organisation branding profile per event
+-- Run this in your Supabase SQL editor or via psql on databases created before branding profiles
+
+-- {"titleLine": "Jalsa Salana", "country": "Kenya", "signatoryName": "Afsar Jalsa", ...}
+ALTER TABLE events ADD COLUMN IF NOT EXISTS branding JSONB;
+
+-- Notes:
+-- - NULL branding, and any field missing from it, uses DEFAULT_BRANDING in
+--   lib/branding.ts, which matches the Jalsa Salana Kenya exports printed
+--   before this change.
+-- - Uploaded logos and signatures are stored in the column as PNG data URLs;
+--   paths under public/ (e.g. /logo.png) work as well.
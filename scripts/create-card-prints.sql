@@ -0,0 +1,26 @@
+-- Migration: ID card print log
+-- Run this in your Supabase SQL editor or via psql on databases created before the print queue
+
+CREATE TABLE IF NOT EXISTS card_prints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tajneed_members(id) ON DELETE CASCADE,
+  card_id TEXT NOT NULL, -- Card code printed (qr_mappings.qr_code_id)
+  printed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  printed_by TEXT, -- User who printed it
+  fingerprint TEXT NOT NULL -- Card details when printed; a change puts the member back in the queue
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_prints_event_id ON card_prints(event_id);
+
+-- Enable Row Level Security (follow project pattern)
+ALTER TABLE card_prints ENABLE ROW LEVEL SECURITY;
+
+-- Assigned events only (functions in setup-supabase-tables.sql / enforce-event-scope.sql)
+CREATE POLICY "Assigned events only on card_prints" ON card_prints
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+-- Notes:
+-- - Members with no row for their active card are in the print queue, so after
+--   this migration every member with a card shows as needing one until printed
+--   again or marked printed from the queue.
@@ -0,0 +1,13 @@
+-- Migration: ID card templates designed under settings
+-- Run this in your Supabase SQL editor or via psql on databases created before ID card templates
+
+-- [{id, name, background, tanzeemBackgrounds, elements: [{kind, x, y, width, height, ...}]}], in millimetres
+ALTER TABLE events ADD COLUMN IF NOT EXISTS card_templates JSONB;
+
+-- Id of the template in card_templates that ID cards are printed from
+ALTER TABLE events ADD COLUMN IF NOT EXISTS active_card_template_id TEXT;
+
+-- Notes:
+-- - With no active template, cards keep the built-in layout in lib/export.ts.
+-- - Templates are edited under Jalsa Settings → ID Card Templates; see
+--   lib/card-templates.ts for the element kinds.
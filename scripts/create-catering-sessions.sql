@@ -0,0 +1,30 @@
+-- Migration: catering sessions from the event's dates and configurable meals
+-- Run this in your Supabase SQL editor or via psql on databases created before configurable meal sessions
+
+-- Meals served, in order, and the days that only serve some of them
+ALTER TABLE events ADD COLUMN IF NOT EXISTS meal_types JSONB;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS day_meals JSONB;
+
+-- Days and meals are no longer fixed lists
+ALTER TABLE catering_records DROP CONSTRAINT IF EXISTS catering_records_day_check;
+ALTER TABLE catering_records DROP CONSTRAINT IF EXISTS catering_records_meal_type_check;
+
+-- Existing servings carry a weekday name; date them with the first event day
+-- that falls on that weekday
+UPDATE catering_records c
+SET day = COALESCE((
+  SELECT to_char(gs, 'YYYY-MM-DD')
+  FROM events e,
+    generate_series(e.starting_date, e.starting_date + (GREATEST(e.duration, 1) - 1), INTERVAL '1 day') AS gs
+  WHERE e.id = c.event_id AND to_char(gs, 'FMDay') = c.day
+  ORDER BY gs
+  LIMIT 1
+), c.day)
+WHERE c.day !~ '^\d{4}-\d{2}-\d{2}$';
+
+-- Notes:
+-- - NULL meal_types uses Breakfast, Lunch and Dinner (lib/catering-sessions.ts).
+-- - Servings whose weekday does not fall within the event keep the weekday
+--   name; the app still shows and exports them as they are.
+-- - In events longer than a week, old servings all go to the first matching
+--   day, since the weekday alone cannot tell the weeks apart.
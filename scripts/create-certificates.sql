@@ -0,0 +1,9 @@
+-- Migration: Participation certificates
+-- Run this in your Supabase SQL editor or via psql on databases created before participation certificates
+
+-- {paper, orientation, title, introText, bodyText, showSignature}
+ALTER TABLE events ADD COLUMN IF NOT EXISTS certificate JSONB;
+
+-- Notes:
+-- - NULL (or a missing field) uses the defaults in lib/certificates.ts.
+-- - Certificates are generated under Attendance → Certificates from the event's attendance records.
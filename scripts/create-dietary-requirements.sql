@@ -0,0 +1,13 @@
+-- Migration: dietary requirements on tajneed members for special meals
+-- Run this in your Supabase SQL editor or via psql on databases created before dietary requirements
+
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS dietary_requirements TEXT[];
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS dietary_notes TEXT; -- e.g. what the member is allergic to
+
+ALTER TABLE tajneed_members DROP CONSTRAINT IF EXISTS tajneed_members_dietary_requirements_check;
+ALTER TABLE tajneed_members ADD CONSTRAINT tajneed_members_dietary_requirements_check
+  CHECK (dietary_requirements <@ ARRAY['Diabetic', 'Vegetarian', 'Soft food', 'Allergy']);
+
+-- Notes:
+-- - NULL and an empty array both mean no special meal.
+-- - The allowed values match DIETARY_REQUIREMENTS in lib/member-profile.ts.
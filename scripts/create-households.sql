@@ -0,0 +1,31 @@
+-- Migration: households (families registered and checked in together)
+-- Run this in your Supabase SQL editor or via psql on databases created before households
+
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- e.g. "Ahmad Family"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_households_event_id ON households(event_id);
+
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS household_role TEXT;
+
+ALTER TABLE tajneed_members DROP CONSTRAINT IF EXISTS tajneed_members_household_role_check;
+ALTER TABLE tajneed_members ADD CONSTRAINT tajneed_members_household_role_check
+  CHECK (household_role IN ('Head', 'Spouse', 'Child', 'Other'));
+
+CREATE INDEX IF NOT EXISTS idx_tajneed_household_id ON tajneed_members(household_id);
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+
+-- Assigned events only (functions in setup-supabase-tables.sql / enforce-event-scope.sql)
+CREATE POLICY "Assigned events only on households" ON households
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+-- Notes:
+-- - Family cards carry HOUSEHOLD-<household id> as their card id and are
+--   signed like member cards; they are not recorded in the ID card registry.
+-- - Deleting a household keeps its members and clears their household.
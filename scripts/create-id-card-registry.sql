@@ -0,0 +1,21 @@
+-- Migration: ID card registry
+-- Run this in your Supabase SQL editor or via psql after create-qr-mappings.sql.
+-- Every qr_mappings row becomes a printed card that can be revoked or reported lost.
+
+ALTER TABLE qr_mappings ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE qr_mappings ADD COLUMN IF NOT EXISTS issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE qr_mappings ADD COLUMN IF NOT EXISTS reissue_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE qr_mappings ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE qr_mappings ADD COLUMN IF NOT EXISTS replaced_by TEXT;
+
+ALTER TABLE qr_mappings DROP CONSTRAINT IF EXISTS qr_mappings_status_check;
+ALTER TABLE qr_mappings ADD CONSTRAINT qr_mappings_status_check CHECK (status IN ('active', 'revoked', 'lost'));
+
+CREATE INDEX IF NOT EXISTS idx_qr_mappings_event_id ON qr_mappings(event_id);
+
+-- Existing mappings were issued when they were created
+UPDATE qr_mappings SET issued_at = created_at WHERE issued_at IS NULL OR issued_at > created_at;
+
+-- Notes:
+-- - Cards printed before this migration have no row until they are printed again
+--   or revoked; scanners keep accepting them.
@@ -0,0 +1,15 @@
+-- Migration: meal serving windows and logged out-of-window overrides
+-- Run this in your Supabase SQL editor or via psql on databases created before meal serving windows
+
+-- {"Breakfast": {"start": "06:00", "end": "10:00"}, ...}: local times each meal is served between
+ALTER TABLE events ADD COLUMN IF NOT EXISTS meal_windows JSONB;
+
+-- Name of the user who approved a serving outside its meal's window
+ALTER TABLE catering_records ADD COLUMN IF NOT EXISTS override_by TEXT;
+
+-- Notes:
+-- - NULL meal_windows uses the defaults in lib/catering-sessions.ts; meals
+--   missing from the object are served all day.
+-- - Approving an override needs the catering.override permission, which the
+--   built-in Catering Service role has. Roles saved before this change keep
+--   their saved permissions and need it added on the Users page.
@@ -0,0 +1,27 @@
+-- Migration: human-readable member codes (KH-0042) drawn from tanzeem counters
+-- Run this in your Supabase SQL editor or via psql on databases created before member codes
+
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS member_code TEXT; -- e.g. KH-0042, see lib/member-codes.ts
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tajneed_event_member_code
+  ON tajneed_members(event_id, member_code) WHERE member_code IS NOT NULL;
+
+-- Reserves p_count numbers from an event's tanzeem counter in one statement and
+-- returns the last one, so two desks registering at once never get the same code
+CREATE OR REPLACE FUNCTION increment_tanzeem_counter(p_event_id UUID, p_tanzeem TEXT, p_count INTEGER DEFAULT 1)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  INSERT INTO tanzeem_counters (event_id, tanzeem, counter)
+  VALUES (p_event_id, p_tanzeem, p_count)
+  ON CONFLICT (event_id, tanzeem)
+  DO UPDATE SET counter = tanzeem_counters.counter + p_count, updated_at = NOW()
+  RETURNING counter;
+$$;
+
+-- Notes:
+-- - Members registered before this migration have no code; use "Assign Member
+--   Codes" on the Tajneed page to give them one.
+-- - Codes are kept when a member changes tanzeem.
+-- - Resetting the counters of an event that already has codes makes new
+--   registrations clash with existing codes, so avoid it.
@@ -0,0 +1,34 @@
+-- Migration: contact, identity and photo fields on tajneed members
+-- Run this in your Supabase SQL editor or via psql on databases created before member profiles
+
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS phone TEXT;
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS email TEXT;
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS gender TEXT;
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS date_of_birth DATE;
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS aims_number TEXT; -- National ID or AIMS membership number
+ALTER TABLE tajneed_members ADD COLUMN IF NOT EXISTS photo_url TEXT; -- /api/members/<id>/photo, served from the private member-photos bucket
+
+ALTER TABLE tajneed_members DROP CONSTRAINT IF EXISTS tajneed_members_gender_check;
+ALTER TABLE tajneed_members ADD CONSTRAINT tajneed_members_gender_check CHECK (gender IN ('Male', 'Female'));
+
+-- Photos are small JPEGs stored as <event id>/<member id>.jpg in a private
+-- bucket. It has no storage policies, so only the service role can reach it.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('member-photos', 'member-photos', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- Earlier versions of this script made the bucket public and open to everyone
+DROP POLICY IF EXISTS "Allow all operations on member photos" ON storage.objects;
+
+-- Photos stored under a public URL are now loaded through the app's route
+UPDATE tajneed_members
+SET photo_url = '/api/members/' || id || '/photo'
+WHERE photo_url LIKE '%/member-photos/%';
+
+-- Notes:
+-- - Photos are uploaded and removed by the route handler
+--   app/api/members/[id]/photo, which checks the session (tajneed.edit and the
+--   member's event and region) and uses SUPABASE_SERVICE_ROLE_KEY.
+-- - The same route shows a photo by redirecting signed-in users who can see the
+--   member to a signed URL that expires in a minute.
+-- - Removing a member's photo in the app also deletes the stored file.
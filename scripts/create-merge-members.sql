@@ -0,0 +1,70 @@
+-- Migration: merge duplicate Tajneed members in one transaction
+-- Run this in your Supabase SQL editor or via psql after create-qr-mappings.sql
+-- on databases created before merges moved into the database
+
+-- Merges a duplicate Tajneed member into the kept one in a single transaction
+-- (see mergeMember in lib/supabase-adapter.ts): the duplicate's ID cards, its
+-- own id as printed on its first card, and its attendance with the security
+-- movements and meals hanging off it move to the kept member, then the
+-- duplicate is deleted. Meals both were served are kept once. Returns false,
+-- changing nothing, unless both members exist in the same event. Runs as the
+-- caller, so the tables' policies apply to every step.
+CREATE OR REPLACE FUNCTION merge_tajneed_members(p_duplicate_id UUID, p_keep_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event_id UUID;
+  v_duplicate_record UUID;
+  v_kept_record UUID;
+BEGIN
+  IF p_duplicate_id = p_keep_id THEN
+    RETURN false;
+  END IF;
+
+  -- Lock both members so a concurrent merge or delete waits for this one
+  SELECT event_id INTO v_event_id FROM tajneed_members WHERE id = p_duplicate_id FOR UPDATE;
+  IF v_event_id IS NULL THEN
+    RETURN false;
+  END IF;
+  PERFORM 1 FROM tajneed_members WHERE id = p_keep_id AND event_id = v_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE qr_mappings SET member_id = p_keep_id WHERE member_id = p_duplicate_id;
+  INSERT INTO qr_mappings (qr_code_id, member_id, event_id, status, issued_at, reissue_count)
+  VALUES (p_duplicate_id::text, p_keep_id, v_event_id, 'active', NOW(), 0)
+  ON CONFLICT (qr_code_id) DO NOTHING;
+
+  SELECT id INTO v_duplicate_record FROM attendance_records WHERE member_id = p_duplicate_id;
+  SELECT id INTO v_kept_record FROM attendance_records WHERE member_id = p_keep_id;
+
+  IF v_duplicate_record IS NOT NULL AND v_kept_record IS NULL THEN
+    UPDATE attendance_records SET member_id = p_keep_id WHERE id = v_duplicate_record;
+  ELSIF v_duplicate_record IS NOT NULL THEN
+    UPDATE security_movements SET attendance_record_id = v_kept_record
+    WHERE attendance_record_id = v_duplicate_record;
+
+    UPDATE catering_records duplicate_meal SET attendance_record_id = v_kept_record
+    WHERE duplicate_meal.attendance_record_id = v_duplicate_record
+      AND NOT EXISTS (
+        SELECT 1 FROM catering_records kept_meal
+        WHERE kept_meal.attendance_record_id = v_kept_record
+          AND kept_meal.day = duplicate_meal.day
+          AND kept_meal.meal_type = duplicate_meal.meal_type
+      );
+
+    -- Meals served to both go with the duplicate's attendance record
+    DELETE FROM attendance_records WHERE id = v_duplicate_record;
+  END IF;
+
+  DELETE FROM tajneed_members WHERE id = p_duplicate_id;
+  RETURN true;
+END;
+$$;
+
+-- Notes:
+-- - Without this function "Merge" on the duplicates page fails and changes nothing.
+-- - The duplicate's card prints are deleted with it; its cards stay in the
+--   registry under the kept member.
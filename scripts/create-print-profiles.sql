@@ -0,0 +1,13 @@
+-- Migration: ID card print profiles
+-- Run this in your Supabase SQL editor or via psql on databases created before print profiles
+
+-- [{id, name, kind, paper, cardWidth, cardHeight, columns, rows, margins, gaps, cutMarks, offsetX, offsetY, dpi}], in millimetres
+ALTER TABLE events ADD COLUMN IF NOT EXISTS print_profiles JSONB;
+
+-- Id of the profile ID cards are printed with
+ALTER TABLE events ADD COLUMN IF NOT EXISTS active_print_profile_id TEXT;
+
+-- Notes:
+-- - Built-in profiles (A4, CR80, Avery, Zebra) are defined in lib/print-profiles.ts;
+--   print_profiles only holds the ones edited or added for the event.
+-- - Profiles are edited under Jalsa Settings → Print Profiles.
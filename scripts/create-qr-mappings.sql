@@ -5,17 +5,25 @@ CREATE TABLE IF NOT EXISTS qr_mappings (
   qr_code_id TEXT PRIMARY KEY,
   member_id UUID NOT NULL,
   event_id UUID,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked', 'lost')), -- ID card registry
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  reissue_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  replaced_by TEXT, -- Card printed in its place
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 CREATE INDEX IF NOT EXISTS idx_qr_mappings_member_id ON qr_mappings(member_id);
+CREATE INDEX IF NOT EXISTS idx_qr_mappings_event_id ON qr_mappings(event_id);
 
 -- Enable Row Level Security (follow project pattern)
 ALTER TABLE qr_mappings ENABLE ROW LEVEL SECURITY;
 
--- Basic permissive policy used elsewhere in this project; adapt for your auth needs
-CREATE POLICY "Allow all operations on qr_mappings" ON qr_mappings
-  FOR ALL USING (true) WITH CHECK (true);
+-- Assigned events only (functions in setup-supabase-tables.sql / enforce-event-scope.sql)
+CREATE POLICY "Assigned events only on qr_mappings" ON qr_mappings
+  FOR ALL TO authenticated
+  USING (CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END)
+  WITH CHECK (CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END);
 
 -- Notes:
 -- - If you prefer to scope mappings per event, ensure callers pass event_id when saving.
@@ -0,0 +1,22 @@
+-- Migration: editable roles built from named permissions
+-- Run this in your Supabase SQL editor or via psql on databases created before roles were editable
+
+-- users.role now holds any role name, not just the original three
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+
+CREATE TABLE IF NOT EXISTS roles (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security with no policies: only route handlers, using the
+-- service role key, read or write roles
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+
+-- Notes:
+-- - Admin, Attendance Register, Security Check and Catering Service always exist
+--   (see lib/permissions.ts). A row here only overrides their permissions.
+-- - Permission keys are listed in lib/permissions.ts, e.g. 'attendance.add', 'catering.undo'.
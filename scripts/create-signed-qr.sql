@@ -0,0 +1,19 @@
+-- Migration: signed QR codes on ID cards
+-- Run this in your Supabase SQL editor or via psql on databases created before signed QR payloads
+
+-- Version of the per-event key QR codes are signed with. Raising it retires
+-- every card printed under an older version.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS qr_key_version INTEGER NOT NULL DEFAULT 1;
+
+-- Cards printed before signing carry the bare member id (or a SURPLUS-... id).
+-- They keep scanning until this date; NULL: 30 days after the event was created.
+ALTER TABLE events ADD COLUMN IF NOT EXISTS legacy_qr_until DATE;
+
+-- Notes:
+-- - Set QR_SIGNING_SECRET in the deployment environment. A P-256 key pair is
+--   derived from it per event and version, so no key material is stored in the
+--   database. Scanners are only given the public key.
+-- - Reprint cards after raising qr_key_version.
+-- - Cards signed before key pairs were used (their QR text starts with "JS1.")
+--   are read like pre-signing cards: only until legacy_qr_until, so reprint
+--   them before then.
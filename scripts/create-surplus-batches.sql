@@ -0,0 +1,25 @@
+-- Migration: record surplus ID card batches
+-- Run this in your Supabase SQL editor or via psql on databases created before surplus batches were recorded
+
+CREATE TABLE IF NOT EXISTS surplus_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE, -- Cards are coded SURPLUS-<code>-NNN
+  count INTEGER NOT NULL CHECK (count > 0),
+  tanzeem TEXT, -- Pre-filled when a card from the batch is claimed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  voided_at TIMESTAMP WITH TIME ZONE -- Voided batches no longer scan
+);
+
+CREATE INDEX IF NOT EXISTS idx_surplus_batches_event_id ON surplus_batches(event_id);
+
+-- Enable Row Level Security (follow project pattern)
+ALTER TABLE surplus_batches ENABLE ROW LEVEL SECURITY;
+
+-- Assigned events only (functions in setup-supabase-tables.sql / enforce-event-scope.sql)
+CREATE POLICY "Assigned events only on surplus_batches" ON surplus_batches
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+-- Notes:
+-- - Claimed cards are the qr_mappings rows whose qr_code_id starts with the batch's codes.
+-- - Surplus cards printed before this migration have no batch and keep scanning.
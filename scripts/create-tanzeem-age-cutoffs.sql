@@ -0,0 +1,10 @@
+-- Migration: per-event age cut-offs used to suggest and check tanzeem
+-- Run this in your Supabase SQL editor or via psql on databases created before tanzeem suggestions
+
+-- {"atfal": 7, "khuddam": 15, "ansar": 40, "nasrat": 7, "lajna": 15}: the age,
+-- on the event's starting date, from which a member belongs to each tanzeem
+ALTER TABLE events ADD COLUMN IF NOT EXISTS tanzeem_age_cutoffs JSONB;
+
+-- Notes:
+-- - NULL uses the defaults in lib/tanzeem-rules.ts.
+-- - Members without a date of birth and gender are never flagged.
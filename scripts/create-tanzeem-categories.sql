@@ -0,0 +1,12 @@
+-- Migration: per-event tanzeem categories (name, short code, colour, sort order)
+-- Run this in your Supabase SQL editor or via psql on databases created before configurable categories
+
+-- [{"name": "Khuddam", "code": "KH", "color": "#16a34a", "sortOrder": 3}, ...]
+ALTER TABLE events ADD COLUMN IF NOT EXISTS tanzeem_categories JSONB;
+
+-- Notes:
+-- - NULL uses the seven built-in categories in lib/tanzeem-categories.ts.
+-- - Members keep the category name they were registered with; renaming a
+--   category in settings does not rename it on existing members.
+-- - Age-based suggestions only ever propose the built-in names, and only
+--   when the event still has that category.
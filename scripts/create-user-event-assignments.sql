@@ -0,0 +1,30 @@
+-- Migration: assign system users to events
+-- Run this in your Supabase SQL editor or via psql on databases created before per-event assignments
+
+CREATE TABLE IF NOT EXISTS user_event_assignments (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  regions TEXT[] NOT NULL DEFAULT '{}', -- Empty: every region
+  gates TEXT[] NOT NULL DEFAULT '{}', -- Empty: any gate
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_event_assignments_event_id ON user_event_assignments(event_id);
+
+-- Enable Row Level Security with no policies: only route handlers, using the
+-- service role key, read or write assignments
+ALTER TABLE user_event_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Gate a security movement was recorded at
+ALTER TABLE security_movements ADD COLUMN IF NOT EXISTS gate TEXT;
+
+-- Keep existing users working: assign everyone to every existing event.
+-- Narrow these down on the Users page afterwards.
+INSERT INTO user_event_assignments (user_id, event_id)
+SELECT users.id, events.id FROM users CROSS JOIN events
+ON CONFLICT (user_id, event_id) DO NOTHING;
+
+-- Notes:
+-- - Users whose role has the events.manage permission (and Supabase Auth admins)
+--   see every event regardless of assignments.
@@ -0,0 +1,174 @@
+-- Migration: limit the browser to the events in its session's scope
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- the app minted Supabase access tokens (after every other migration).
+-- Replaces the "Allow all" policies: the browser's token (lib/supabase-token.ts)
+-- carries the user's event assignments, and each row is checked against them.
+
+-- Event scope of the signed-in user. /api/auth/token mints the browser's
+-- access token with an event_scope claim: JSON null for every event, or the
+-- user's assignments [{"eventId", "regions", "gates"}]. Requests without the
+-- claim (the bare anon key) reach no event data.
+CREATE OR REPLACE FUNCTION jalsa_has_all_events()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_typeof(auth.jwt() -> 'event_scope') = 'null', false);
+$$;
+
+CREATE OR REPLACE FUNCTION jalsa_can_access_event(p_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE jsonb_typeof(auth.jwt() -> 'event_scope')
+    WHEN 'null' THEN true
+    WHEN 'array' THEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(auth.jwt() -> 'event_scope') AS assignment
+      WHERE assignment ->> 'eventId' = p_event_id::text
+    )
+    ELSE false
+  END;
+$$;
+
+-- Regions within an event; an assignment without regions covers all of them
+CREATE OR REPLACE FUNCTION jalsa_can_access_region(p_event_id UUID, p_region TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE jsonb_typeof(auth.jwt() -> 'event_scope')
+    WHEN 'null' THEN true
+    WHEN 'array' THEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(auth.jwt() -> 'event_scope') AS assignment
+      WHERE assignment ->> 'eventId' = p_event_id::text
+        AND (COALESCE(jsonb_array_length(assignment -> 'regions'), 0) = 0 OR assignment -> 'regions' ? p_region)
+    )
+    ELSE false
+  END;
+$$;
+
+-- Rows hanging off a member or an attendance record follow the member's event
+-- and region. SECURITY DEFINER so the lookups are not filtered again.
+CREATE OR REPLACE FUNCTION jalsa_can_access_member(p_member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tajneed_members m
+    WHERE m.id = p_member_id AND jalsa_can_access_region(m.event_id, m.region)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION jalsa_can_access_attendance(p_attendance_record_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM attendance_records a JOIN tajneed_members m ON m.id = a.member_id
+    WHERE a.id = p_attendance_record_id AND jalsa_can_access_region(a.event_id, m.region)
+  );
+$$;
+
+DROP POLICY IF EXISTS "Allow all operations on events" ON events;
+DROP POLICY IF EXISTS "Allow all operations on regions" ON regions;
+DROP POLICY IF EXISTS "Allow all operations on jamaat" ON jamaat;
+DROP POLICY IF EXISTS "Allow all operations on tajneed_members" ON tajneed_members;
+DROP POLICY IF EXISTS "Allow all operations on households" ON households;
+DROP POLICY IF EXISTS "Allow all operations on attendance_records" ON attendance_records;
+DROP POLICY IF EXISTS "Allow all operations on tanzeem_counters" ON tanzeem_counters;
+DROP POLICY IF EXISTS "Allow all operations on security_movements" ON security_movements;
+DROP POLICY IF EXISTS "Allow all operations on catering_records" ON catering_records;
+DROP POLICY IF EXISTS "Allow all operations on surplus_batches" ON surplus_batches;
+DROP POLICY IF EXISTS "Allow all operations on card_prints" ON card_prints;
+DROP POLICY IF EXISTS "Allow all operations on qr_mappings" ON qr_mappings;
+
+-- Re-running this migration replaces its own policies
+DROP POLICY IF EXISTS "Assigned events only on events" ON events;
+DROP POLICY IF EXISTS "Assigned events can be updated" ON events;
+DROP POLICY IF EXISTS "All-event users create events" ON events;
+DROP POLICY IF EXISTS "All-event users delete events" ON events;
+DROP POLICY IF EXISTS "Assigned events only on regions" ON regions;
+DROP POLICY IF EXISTS "Assigned events only on jamaat" ON jamaat;
+DROP POLICY IF EXISTS "Assigned events only on tajneed_members" ON tajneed_members;
+DROP POLICY IF EXISTS "Assigned events only on households" ON households;
+DROP POLICY IF EXISTS "Assigned events only on attendance_records" ON attendance_records;
+DROP POLICY IF EXISTS "Assigned events only on tanzeem_counters" ON tanzeem_counters;
+DROP POLICY IF EXISTS "Assigned events only on security_movements" ON security_movements;
+DROP POLICY IF EXISTS "Assigned events only on catering_records" ON catering_records;
+DROP POLICY IF EXISTS "Assigned events only on surplus_batches" ON surplus_batches;
+DROP POLICY IF EXISTS "Assigned events only on card_prints" ON card_prints;
+DROP POLICY IF EXISTS "Assigned events only on qr_mappings" ON qr_mappings;
+
+-- Everyone sees and edits the events they are assigned to; only users with
+-- every event (events.manage) create or delete them
+CREATE POLICY "Assigned events only on events" ON events
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(id));
+
+CREATE POLICY "Assigned events can be updated" ON events
+  FOR UPDATE TO authenticated USING (jalsa_can_access_event(id)) WITH CHECK (jalsa_can_access_event(id));
+
+CREATE POLICY "All-event users create events" ON events
+  FOR INSERT TO authenticated WITH CHECK (jalsa_has_all_events());
+
+CREATE POLICY "All-event users delete events" ON events
+  FOR DELETE TO authenticated USING (jalsa_has_all_events());
+
+CREATE POLICY "Assigned events only on regions" ON regions
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Assigned events only on jamaat" ON jamaat
+  FOR ALL TO authenticated
+  USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id));
+
+CREATE POLICY "Assigned events only on tajneed_members" ON tajneed_members
+  FOR ALL TO authenticated
+  USING (jalsa_can_access_region(event_id, region))
+  WITH CHECK (jalsa_can_access_region(event_id, region));
+
+CREATE POLICY "Assigned events only on households" ON households
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Assigned events only on attendance_records" ON attendance_records
+  FOR ALL TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id));
+
+CREATE POLICY "Assigned events only on tanzeem_counters" ON tanzeem_counters
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Assigned events only on security_movements" ON security_movements
+  FOR ALL TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id));
+
+CREATE POLICY "Assigned events only on catering_records" ON catering_records
+  FOR ALL TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id));
+
+CREATE POLICY "Assigned events only on surplus_batches" ON surplus_batches
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Assigned events only on card_prints" ON card_prints
+  FOR ALL TO authenticated USING (jalsa_can_access_event(event_id)) WITH CHECK (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Assigned events only on qr_mappings" ON qr_mappings
+  FOR ALL TO authenticated
+  USING (CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END)
+  WITH CHECK (CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END);
+
+-- Notes:
+-- - Set SUPABASE_JWT_SECRET (Project Settings → API → JWT secret) in the
+--   server's environment before running this; without it the browser gets no
+--   token and sees no event data.
+-- - Route handlers use the service role key and are not affected.
+-- - Local mode keeps event data in the browser, where the scope is only
+--   applied by the app.
@@ -0,0 +1,88 @@
+-- Migration: check meal windows in the database and limit event edits to events.manage
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- the database checked servings against meal windows (after
+-- require-override-approval.sql).
+
+-- Time zone the event's meal windows are in; the app records the browser's
+-- when an event is created or its settings are saved
+ALTER TABLE events ADD COLUMN IF NOT EXISTS time_zone TEXT;
+
+-- Permissions of the signed-in user's role, from the token's permissions claim
+CREATE OR REPLACE FUNCTION jalsa_has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'permissions' ? p_permission, false);
+$$;
+
+-- Scanners could rewrite meal windows and QR keys of their events; only users
+-- with events.manage may now
+DROP POLICY IF EXISTS "Assigned events can be updated" ON events;
+DROP POLICY IF EXISTS "Event managers update assigned events" ON events;
+CREATE POLICY "Event managers update assigned events" ON events
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(id) AND jalsa_has_permission('events.manage'))
+  WITH CHECK (jalsa_can_access_event(id) AND jalsa_has_permission('events.manage'));
+
+-- Outside its window a meal is served only with a supervisor's approval, which
+-- app/api/catering/override checks and app/api/catering/override/serve records
+-- with the service role. Browsers can neither record an approver nor change
+-- one, and what they serve must fall on the meal's day and inside its window
+-- in the event's time zone. served_at may lie in the past, as scans made
+-- offline are recorded when the connection returns, but not in the future.
+CREATE OR REPLACE FUNCTION jalsa_protect_catering_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_window JSONB;
+  v_served TIMESTAMP;
+  v_time TEXT;
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    NEW.override_by := OLD.override_by;
+    NEW.override_by_name := OLD.override_by_name;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.override_by IS NOT NULL OR NEW.override_by_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Servings outside the meal window are recorded by the server';
+  END IF;
+  NEW.served_at := COALESCE(NEW.served_at, NOW());
+  IF NEW.served_at > NOW() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'A serving cannot be recorded in the future';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = NEW.event_id;
+  -- Same defaults as DEFAULT_MEAL_WINDOWS in lib/catering-sessions.ts
+  v_window := COALESCE(
+    v_event.meal_windows,
+    '{"Breakfast": {"start": "06:00", "end": "10:00"}, "Lunch": {"start": "12:00", "end": "15:00"}, "Dinner": {"start": "18:00", "end": "22:00"}}'::jsonb
+  ) -> NEW.meal_type;
+  v_served := NEW.served_at AT TIME ZONE COALESCE(v_event.time_zone, current_setting('TimeZone'));
+  v_time := to_char(v_served, 'HH24:MI');
+
+  IF to_char(v_served, 'YYYY-MM-DD') <> NEW.day
+    OR (v_window IS NOT NULL AND NOT (v_time >= v_window ->> 'start' AND v_time < v_window ->> 'end')) THEN
+    RAISE EXCEPTION 'Serving % on % outside its window needs a supervisor''s approval', NEW.meal_type, NEW.day;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_catering_override ON catering_records;
+CREATE TRIGGER protect_catering_override
+  BEFORE INSERT OR UPDATE ON catering_records
+  FOR EACH ROW EXECUTE FUNCTION jalsa_protect_catering_override();
+
+-- Notes:
+-- - Until an event's settings are saved, time_zone is NULL and its windows are
+--   checked in the database's TimeZone (UTC on Supabase). Open each event in
+--   Jalsa Settings and save it, or set time_zone, before catering starts.
+-- - Sign out and back in after running this: tokens minted before it carry no
+--   permissions claim and cannot edit events.
@@ -0,0 +1,270 @@
+-- Migration: check the user's permissions on every write from the browser
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- the browser's token carried the user's permissions (after every other
+-- migration, including enforce-meal-windows.sql).
+-- Until now any user assigned to an event could change any of its rows, e.g.
+-- a catering account restoring a revoked ID card or deleting attendance.
+
+-- Whether the signed-in user's role holds any of the permissions, from the
+-- token's permissions claim. Writes are checked against it: being assigned to
+-- an event lets a user read its data, but only change what their role allows.
+CREATE OR REPLACE FUNCTION jalsa_has_any_permission(VARIADIC p_permissions TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'permissions' ?| p_permissions, false);
+$$;
+
+DROP POLICY IF EXISTS "Assigned events only on regions" ON regions;
+DROP POLICY IF EXISTS "Permitted inserts on regions" ON regions;
+DROP POLICY IF EXISTS "Permitted updates on regions" ON regions;
+DROP POLICY IF EXISTS "Permitted deletes on regions" ON regions;
+DROP POLICY IF EXISTS "Assigned events only on jamaat" ON jamaat;
+DROP POLICY IF EXISTS "Permitted inserts on jamaat" ON jamaat;
+DROP POLICY IF EXISTS "Permitted updates on jamaat" ON jamaat;
+DROP POLICY IF EXISTS "Permitted deletes on jamaat" ON jamaat;
+DROP POLICY IF EXISTS "Assigned events only on tajneed_members" ON tajneed_members;
+DROP POLICY IF EXISTS "Permitted inserts on tajneed_members" ON tajneed_members;
+DROP POLICY IF EXISTS "Permitted updates on tajneed_members" ON tajneed_members;
+DROP POLICY IF EXISTS "Permitted deletes on tajneed_members" ON tajneed_members;
+DROP POLICY IF EXISTS "Assigned events only on households" ON households;
+DROP POLICY IF EXISTS "Permitted inserts on households" ON households;
+DROP POLICY IF EXISTS "Permitted updates on households" ON households;
+DROP POLICY IF EXISTS "Permitted deletes on households" ON households;
+DROP POLICY IF EXISTS "Assigned events only on attendance_records" ON attendance_records;
+DROP POLICY IF EXISTS "Permitted inserts on attendance_records" ON attendance_records;
+DROP POLICY IF EXISTS "Permitted updates on attendance_records" ON attendance_records;
+DROP POLICY IF EXISTS "Permitted deletes on attendance_records" ON attendance_records;
+DROP POLICY IF EXISTS "Assigned events only on tanzeem_counters" ON tanzeem_counters;
+DROP POLICY IF EXISTS "Permitted inserts on tanzeem_counters" ON tanzeem_counters;
+DROP POLICY IF EXISTS "Permitted updates on tanzeem_counters" ON tanzeem_counters;
+DROP POLICY IF EXISTS "Permitted deletes on tanzeem_counters" ON tanzeem_counters;
+DROP POLICY IF EXISTS "Assigned events only on security_movements" ON security_movements;
+DROP POLICY IF EXISTS "Permitted inserts on security_movements" ON security_movements;
+DROP POLICY IF EXISTS "Permitted updates on security_movements" ON security_movements;
+DROP POLICY IF EXISTS "Permitted deletes on security_movements" ON security_movements;
+DROP POLICY IF EXISTS "Assigned events only on catering_records" ON catering_records;
+DROP POLICY IF EXISTS "Permitted inserts on catering_records" ON catering_records;
+DROP POLICY IF EXISTS "Permitted updates on catering_records" ON catering_records;
+DROP POLICY IF EXISTS "Permitted deletes on catering_records" ON catering_records;
+DROP POLICY IF EXISTS "Assigned events only on surplus_batches" ON surplus_batches;
+DROP POLICY IF EXISTS "Permitted inserts on surplus_batches" ON surplus_batches;
+DROP POLICY IF EXISTS "Permitted updates on surplus_batches" ON surplus_batches;
+DROP POLICY IF EXISTS "Permitted deletes on surplus_batches" ON surplus_batches;
+DROP POLICY IF EXISTS "Assigned events only on card_prints" ON card_prints;
+DROP POLICY IF EXISTS "Permitted inserts on card_prints" ON card_prints;
+DROP POLICY IF EXISTS "Permitted updates on card_prints" ON card_prints;
+DROP POLICY IF EXISTS "Permitted deletes on card_prints" ON card_prints;
+DROP POLICY IF EXISTS "Assigned events only on qr_mappings" ON qr_mappings;
+DROP POLICY IF EXISTS "Permitted inserts on qr_mappings" ON qr_mappings;
+DROP POLICY IF EXISTS "Permitted updates on qr_mappings" ON qr_mappings;
+DROP POLICY IF EXISTS "Permitted deletes on qr_mappings" ON qr_mappings;
+DROP POLICY IF EXISTS "All-event users create events" ON events;
+DROP POLICY IF EXISTS "All-event users delete events" ON events;
+
+CREATE POLICY "All-event users create events" ON events
+  FOR INSERT TO authenticated WITH CHECK (jalsa_has_all_events() AND jalsa_has_permission('events.manage'));
+
+CREATE POLICY "All-event users delete events" ON events
+  FOR DELETE TO authenticated USING (jalsa_has_all_events() AND jalsa_has_permission('events.manage'));
+
+CREATE POLICY "Assigned events only on regions" ON regions
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on regions" ON regions
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted updates on regions" ON regions
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted deletes on regions" ON regions
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Assigned events only on jamaat" ON jamaat
+  FOR SELECT TO authenticated USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id));
+
+CREATE POLICY "Permitted inserts on jamaat" ON jamaat
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted updates on jamaat" ON jamaat
+  FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'))
+  WITH CHECK (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted deletes on jamaat" ON jamaat
+  FOR DELETE TO authenticated
+  USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'));
+
+-- Attendance desks register members who claim a blank (surplus) card
+CREATE POLICY "Assigned events only on tajneed_members" ON tajneed_members
+  FOR SELECT TO authenticated USING (jalsa_can_access_region(event_id, region));
+
+CREATE POLICY "Permitted inserts on tajneed_members" ON tajneed_members
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
+
+CREATE POLICY "Permitted updates on tajneed_members" ON tajneed_members
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'))
+  WITH CHECK (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
+
+CREATE POLICY "Permitted deletes on tajneed_members" ON tajneed_members
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Assigned events only on households" ON households
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on households" ON households
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted updates on households" ON households
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted deletes on households" ON households
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+-- Updates and the tajneed.edit deletes come from merge_tajneed_members
+CREATE POLICY "Assigned events only on attendance_records" ON attendance_records
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id));
+
+CREATE POLICY "Permitted inserts on attendance_records" ON attendance_records
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('attendance.add'));
+
+CREATE POLICY "Permitted updates on attendance_records" ON attendance_records
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted deletes on attendance_records" ON attendance_records
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('attendance.remove', 'tajneed.edit'));
+
+CREATE POLICY "Assigned events only on tanzeem_counters" ON tanzeem_counters
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on tanzeem_counters" ON tanzeem_counters
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
+
+CREATE POLICY "Permitted updates on tanzeem_counters" ON tanzeem_counters
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
+
+CREATE POLICY "Permitted deletes on tanzeem_counters" ON tanzeem_counters
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('events.manage'));
+
+CREATE POLICY "Assigned events only on security_movements" ON security_movements
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id));
+
+CREATE POLICY "Permitted inserts on security_movements" ON security_movements
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('security.toggle'));
+
+CREATE POLICY "Permitted updates on security_movements" ON security_movements
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Assigned events only on catering_records" ON catering_records
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id));
+
+CREATE POLICY "Permitted inserts on catering_records" ON catering_records
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('catering.serve'));
+
+CREATE POLICY "Permitted updates on catering_records" ON catering_records
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted deletes on catering_records" ON catering_records
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('catering.undo'));
+
+-- Voiding a batch of blank cards needs idcards.revoke
+CREATE POLICY "Assigned events only on surplus_batches" ON surplus_batches
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on surplus_batches" ON surplus_batches
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.print'));
+
+CREATE POLICY "Permitted updates on surplus_batches" ON surplus_batches
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.revoke'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.revoke'));
+
+CREATE POLICY "Assigned events only on card_prints" ON card_prints
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on card_prints" ON card_prints
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.print'));
+
+-- Who may revoke or restore a card is checked by jalsa_protect_card_status
+CREATE POLICY "Assigned events only on qr_mappings" ON qr_mappings
+  FOR SELECT TO authenticated USING ((CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END));
+
+CREATE POLICY "Permitted inserts on qr_mappings" ON qr_mappings
+  FOR INSERT TO authenticated
+  WITH CHECK ((CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END) AND jalsa_has_any_permission('idcards.print', 'idcards.revoke', 'attendance.add', 'tajneed.edit'));
+
+CREATE POLICY "Permitted updates on qr_mappings" ON qr_mappings
+  FOR UPDATE TO authenticated
+  USING ((CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END) AND jalsa_has_any_permission('idcards.print', 'idcards.revoke', 'attendance.add', 'tajneed.edit'))
+  WITH CHECK ((CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END) AND jalsa_has_any_permission('idcards.print', 'idcards.revoke', 'attendance.add', 'tajneed.edit'));
+
+CREATE POLICY "Permitted deletes on qr_mappings" ON qr_mappings
+  FOR DELETE TO authenticated
+  USING ((CASE WHEN event_id IS NULL THEN jalsa_can_access_member(member_id) ELSE jalsa_can_access_event(event_id) END) AND jalsa_has_any_permission('tajneed.edit', 'events.manage'));
+
+-- Revoking a card, reporting it lost or putting it back in use needs
+-- idcards.revoke. Other users who write cards (printing, claiming a blank
+-- card, merging members) only add active cards and move them between members.
+CREATE OR REPLACE FUNCTION jalsa_protect_card_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' OR jalsa_has_permission('idcards.revoke') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'active' OR NEW.revoked_at IS NOT NULL OR NEW.replaced_by IS NOT NULL THEN
+      RAISE EXCEPTION 'Only users who can revoke ID cards record revoked or lost cards';
+    END IF;
+  ELSE
+    NEW.status := OLD.status;
+    NEW.revoked_at := OLD.revoked_at;
+    NEW.replaced_by := OLD.replaced_by;
+    NEW.reissue_count := OLD.reissue_count;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_card_status ON qr_mappings;
+CREATE TRIGGER protect_card_status
+  BEFORE INSERT OR UPDATE ON qr_mappings
+  FOR EACH ROW EXECUTE FUNCTION jalsa_protect_card_status();
+
+-- Notes:
+-- - Sign out and back in after running this: tokens minted before
+--   enforce-meal-windows.sql carry no permissions claim and can only read.
+-- - Roles edited on the Users page keep working as they are; a role now needs
+--   the permission for each change it makes, e.g. catering.undo to undo a
+--   serving or idcards.revoke to revoke and reissue cards.
@@ -0,0 +1,52 @@
+-- Migration: key member code counters by tanzeem short code
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- counters were keyed by code (after create-member-codes.sql and
+-- enforce-event-scope.sql).
+-- Counters were keyed by tanzeem name while codes carry the short code, so
+-- renaming a tanzeem, or giving its code to another, restarted the numbers and
+-- new registrations clashed with codes already given.
+
+COMMENT ON COLUMN tanzeem_counters.tanzeem IS 'Tanzeem short code the numbers are given under, e.g. KH';
+
+-- The parameter is renamed, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS increment_tanzeem_counter(UUID, TEXT, INTEGER);
+
+-- Highest number given under a tanzeem short code in an event, read past the
+-- caller's region scope so a desk limited to some regions never reuses a code
+-- given in another. SECURITY DEFINER, so it checks the event itself.
+CREATE OR REPLACE FUNCTION jalsa_highest_member_number(p_event_id UUID, p_code TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(MAX(substring(member_code FROM length(p_code) + 2)::INTEGER), 0)
+  FROM tajneed_members
+  WHERE event_id = p_event_id
+    AND jalsa_can_access_event(p_event_id)
+    AND left(member_code, length(p_code) + 1) = p_code || '-'
+    AND substring(member_code FROM length(p_code) + 2) ~ '^[0-9]+$';
+$$;
+
+-- Reserves p_count numbers from an event's counter for a tanzeem short code
+-- (KH) atomically and returns the last one. Counters are keyed by code, as
+-- member codes are, and never fall below the highest code already given, so
+-- renaming a tanzeem or reusing its code cannot repeat a code.
+-- Runs as the caller, so the tanzeem_counters policies keep it to the caller's events
+CREATE OR REPLACE FUNCTION increment_tanzeem_counter(p_event_id UUID, p_code TEXT, p_count INTEGER DEFAULT 1)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  INSERT INTO tanzeem_counters (event_id, tanzeem, counter)
+  VALUES (p_event_id, p_code, jalsa_highest_member_number(p_event_id, p_code) + p_count)
+  ON CONFLICT (event_id, tanzeem)
+  DO UPDATE SET
+    counter = GREATEST(tanzeem_counters.counter, jalsa_highest_member_number(p_event_id, p_code)) + p_count,
+    updated_at = NOW()
+  RETURNING counter;
+$$;
+
+-- Notes:
+-- - Counters keyed by tanzeem name are no longer read and can be left alone;
+--   the code-keyed ones start from the highest code each event already has.
@@ -0,0 +1,45 @@
+-- Migration: supervisor approval for serving meals outside their windows
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- overrides needed a supervisor's password.
+
+-- override_by now holds the approving supervisor's id; their name is kept
+-- beside it for reports. Earlier overrides stored the name in override_by.
+ALTER TABLE catering_records ADD COLUMN IF NOT EXISTS override_by_name TEXT;
+UPDATE catering_records SET override_by_name = override_by
+WHERE override_by IS NOT NULL AND override_by_name IS NULL;
+
+-- Outside its window a meal is served only with a supervisor's approval, which
+-- app/api/catering/override checks and app/api/catering/override/serve records
+-- with the service role. Browsers can neither record an approver nor change one.
+CREATE OR REPLACE FUNCTION jalsa_protect_catering_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.override_by IS NOT NULL OR NEW.override_by_name IS NOT NULL THEN
+      RAISE EXCEPTION 'Servings outside the meal window are recorded by the server';
+    END IF;
+  ELSE
+    NEW.override_by := OLD.override_by;
+    NEW.override_by_name := OLD.override_by_name;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_catering_override ON catering_records;
+CREATE TRIGGER protect_catering_override
+  BEFORE INSERT OR UPDATE ON catering_records
+  FOR EACH ROW EXECUTE FUNCTION jalsa_protect_catering_override();
+
+-- Notes:
+-- - "Serve Anyway" on the catering check page needs the scanner to hold
+--   catering.override, and a supervisor who also holds it (and is assigned to
+--   the event) to enter their username and password.
+-- - Overrides need a connection: the server checks the approval for every
+--   serving. Offline, meals are only served inside their windows, which
+--   scanners cache with the event's settings.
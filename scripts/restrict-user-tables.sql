@@ -0,0 +1,18 @@
+-- Migration: keep users, roles and event assignments on the server
+-- Run this in your Supabase SQL editor or via psql on databases created before
+-- these tables moved behind the /api/users and /api/roles route handlers
+
+-- Without a policy the browser (anon key) can no longer read password hashes,
+-- delete users or grant itself a role; the service role bypasses RLS
+DROP POLICY IF EXISTS "Allow all operations on users" ON users;
+DROP POLICY IF EXISTS "Allow all operations on roles" ON roles;
+DROP POLICY IF EXISTS "Allow all operations on user_event_assignments" ON user_event_assignments;
+
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_event_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Notes:
+-- - Set SUPABASE_SERVICE_ROLE_KEY (Project Settings → API) in the server's
+--   environment before running this; login and the Users page need it.
+-- - Never expose the service role key to the browser (no NEXT_PUBLIC_ prefix).
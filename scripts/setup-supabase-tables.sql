@@ -6,6 +6,20 @@ CREATE TABLE IF NOT EXISTS events (
   duration INTEGER NOT NULL,
   location TEXT NOT NULL,
   theme TEXT NOT NULL,
+  qr_key_version INTEGER NOT NULL DEFAULT 1, -- Key ID card QR codes are signed with
+  legacy_qr_until DATE, -- Unsigned cards accepted until this date; NULL: 30 days after created_at
+  tanzeem_age_cutoffs JSONB, -- Ages each tanzeem starts at; NULL: app defaults
+  tanzeem_categories JSONB, -- [{name, code, color, sortOrder}]; NULL: app defaults
+  meal_types JSONB, -- Meals served, in order; NULL: Breakfast, Lunch, Dinner
+  day_meals JSONB, -- {"2025-12-06": ["Lunch", "Dinner"]} for days that skip meals; NULL: every meal every day
+  meal_windows JSONB, -- {"Lunch": {"start": "12:00", "end": "15:00"}}; NULL: app defaults
+  time_zone TEXT, -- IANA zone meal_windows are in, e.g. Europe/London; NULL: the database's TimeZone
+  branding JSONB, -- Organisation title, logos, signatory, colours and footer for exports; NULL: app defaults
+  card_templates JSONB, -- Saved ID card layouts [{id, name, background, tanzeemBackgrounds, elements}]
+  active_card_template_id TEXT, -- Template ID cards print from; NULL: the built-in layout
+  print_profiles JSONB, -- Edited built-in and custom ID card print profiles; NULL: built-in profiles
+  active_print_profile_id TEXT, -- Profile ID cards print with; NULL: A4 with cut marks
+  certificate JSONB, -- Participation certificate paper, orientation and wording; NULL: app defaults
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -30,6 +44,14 @@ CREATE TABLE IF NOT EXISTS jamaat (
   UNIQUE(region_id, name)
 );
 
+-- Create households table (families registered and checked in together)
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL, -- e.g. "Ahmad Family"
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create tajneed members table
 CREATE TABLE IF NOT EXISTS tajneed_members (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -38,6 +60,17 @@ CREATE TABLE IF NOT EXISTS tajneed_members (
   tanzeem TEXT NOT NULL,
   region TEXT NOT NULL,
   jamaat TEXT NOT NULL,
+  phone TEXT,
+  email TEXT,
+  gender TEXT CHECK (gender IN ('Male', 'Female')),
+  date_of_birth DATE,
+  aims_number TEXT, -- National ID or AIMS membership number
+  dietary_requirements TEXT[] CHECK (dietary_requirements <@ ARRAY['Diabetic', 'Vegetarian', 'Soft food', 'Allergy']),
+  dietary_notes TEXT, -- Details for the kitchen, e.g. what the member is allergic to
+  photo_url TEXT, -- /api/members/<id>/photo, which serves the photo from the private member-photos bucket
+  member_code TEXT, -- e.g. KH-0042, from tanzeem_counters (see lib/member-codes.ts)
+  household_id UUID REFERENCES households(id) ON DELETE SET NULL,
+  household_role TEXT CHECK (household_role IN ('Head', 'Spouse', 'Child', 'Other')),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -55,7 +88,7 @@ CREATE TABLE IF NOT EXISTS attendance_records (
 CREATE TABLE IF NOT EXISTS tanzeem_counters (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
-  tanzeem TEXT NOT NULL,
+  tanzeem TEXT NOT NULL, -- Tanzeem short code the numbers are given under, e.g. KH
   counter INTEGER DEFAULT 0,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
@@ -68,7 +101,8 @@ CREATE TABLE IF NOT EXISTS security_movements (
   event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
   attendance_record_id UUID NOT NULL REFERENCES attendance_records(id) ON DELETE CASCADE,
   status TEXT NOT NULL CHECK (status IN ('In', 'Out')),
-  timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  gate TEXT -- Set when the recording user is assigned to specific gates
 );
 
 -- Create catering_records table
@@ -76,9 +110,11 @@ CREATE TABLE IF NOT EXISTS catering_records (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
   attendance_record_id UUID NOT NULL REFERENCES attendance_records(id) ON DELETE CASCADE,
-  day TEXT NOT NULL CHECK (day IN ('Friday', 'Saturday', 'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday')),
-  meal_type TEXT NOT NULL CHECK (meal_type IN ('Breakfast', 'Lunch', 'Dinner')),
+  day TEXT NOT NULL, -- Event day as YYYY-MM-DD
+  meal_type TEXT NOT NULL, -- One of the event's meal_types
   served_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  override_by TEXT, -- Id of the supervisor who approved serving outside the meal's window
+  override_by_name TEXT, -- Their name when they approved
   UNIQUE(event_id, attendance_record_id, day, meal_type)
 );
 
@@ -86,6 +122,9 @@ CREATE TABLE IF NOT EXISTS catering_records (
 CREATE INDEX IF NOT EXISTS idx_regions_event_id ON regions(event_id);
 CREATE INDEX IF NOT EXISTS idx_jamaat_region_id ON jamaat(region_id);
 CREATE INDEX IF NOT EXISTS idx_tajneed_event_id ON tajneed_members(event_id);
+CREATE INDEX IF NOT EXISTS idx_tajneed_household_id ON tajneed_members(household_id);
+CREATE INDEX IF NOT EXISTS idx_households_event_id ON households(event_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tajneed_event_member_code ON tajneed_members(event_id, member_code) WHERE member_code IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_attendance_event_id ON attendance_records(event_id);
 CREATE INDEX IF NOT EXISTS idx_attendance_member_id ON attendance_records(member_id);
 CREATE INDEX IF NOT EXISTS idx_tanzeem_counters_event_id ON tanzeem_counters(event_id);
@@ -95,47 +134,415 @@ CREATE INDEX IF NOT EXISTS idx_catering_event_id ON catering_records(event_id);
 CREATE INDEX IF NOT EXISTS idx_catering_attendance_record_id ON catering_records(attendance_record_id);
 CREATE INDEX IF NOT EXISTS idx_catering_day_meal ON catering_records(event_id, day, meal_type);
 
+-- Merges a duplicate Tajneed member into the kept one in a single transaction
+-- (see mergeMember in lib/supabase-adapter.ts): the duplicate's ID cards, its
+-- own id as printed on its first card, and its attendance with the security
+-- movements and meals hanging off it move to the kept member, then the
+-- duplicate is deleted. Meals both were served are kept once. Returns false,
+-- changing nothing, unless both members exist in the same event. Runs as the
+-- caller, so the tables' policies apply to every step.
+CREATE OR REPLACE FUNCTION merge_tajneed_members(p_duplicate_id UUID, p_keep_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event_id UUID;
+  v_duplicate_record UUID;
+  v_kept_record UUID;
+BEGIN
+  IF p_duplicate_id = p_keep_id THEN
+    RETURN false;
+  END IF;
+
+  -- Lock both members so a concurrent merge or delete waits for this one
+  SELECT event_id INTO v_event_id FROM tajneed_members WHERE id = p_duplicate_id FOR UPDATE;
+  IF v_event_id IS NULL THEN
+    RETURN false;
+  END IF;
+  PERFORM 1 FROM tajneed_members WHERE id = p_keep_id AND event_id = v_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE qr_mappings SET member_id = p_keep_id WHERE member_id = p_duplicate_id;
+  INSERT INTO qr_mappings (qr_code_id, member_id, event_id, status, issued_at, reissue_count)
+  VALUES (p_duplicate_id::text, p_keep_id, v_event_id, 'active', NOW(), 0)
+  ON CONFLICT (qr_code_id) DO NOTHING;
+
+  SELECT id INTO v_duplicate_record FROM attendance_records WHERE member_id = p_duplicate_id;
+  SELECT id INTO v_kept_record FROM attendance_records WHERE member_id = p_keep_id;
+
+  IF v_duplicate_record IS NOT NULL AND v_kept_record IS NULL THEN
+    UPDATE attendance_records SET member_id = p_keep_id WHERE id = v_duplicate_record;
+  ELSIF v_duplicate_record IS NOT NULL THEN
+    UPDATE security_movements SET attendance_record_id = v_kept_record
+    WHERE attendance_record_id = v_duplicate_record;
+
+    UPDATE catering_records duplicate_meal SET attendance_record_id = v_kept_record
+    WHERE duplicate_meal.attendance_record_id = v_duplicate_record
+      AND NOT EXISTS (
+        SELECT 1 FROM catering_records kept_meal
+        WHERE kept_meal.attendance_record_id = v_kept_record
+          AND kept_meal.day = duplicate_meal.day
+          AND kept_meal.meal_type = duplicate_meal.meal_type
+      );
+
+    -- Meals served to both go with the duplicate's attendance record
+    DELETE FROM attendance_records WHERE id = v_duplicate_record;
+  END IF;
+
+  DELETE FROM tajneed_members WHERE id = p_duplicate_id;
+  RETURN true;
+END;
+$$;
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE regions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE jamaat ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tajneed_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
 ALTER TABLE attendance_records ENABLE ROW LEVEL SECURITY;
 ALTER TABLE tanzeem_counters ENABLE ROW LEVEL SECURITY;
 ALTER TABLE security_movements ENABLE ROW LEVEL SECURITY;
 ALTER TABLE catering_records ENABLE ROW LEVEL SECURITY;
 
--- Create RLS policies (allow all operations for now - adjust based on your auth needs)
-CREATE POLICY "Allow all operations on events" ON events
-  FOR ALL USING (true) WITH CHECK (true);
+-- Event scope of the signed-in user. /api/auth/token mints the browser's
+-- access token with an event_scope claim: JSON null for every event, or the
+-- user's assignments [{"eventId", "regions", "gates"}]. Requests without the
+-- claim (the bare anon key) reach no event data.
+CREATE OR REPLACE FUNCTION jalsa_has_all_events()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(jsonb_typeof(auth.jwt() -> 'event_scope') = 'null', false);
+$$;
+
+CREATE OR REPLACE FUNCTION jalsa_can_access_event(p_event_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE jsonb_typeof(auth.jwt() -> 'event_scope')
+    WHEN 'null' THEN true
+    WHEN 'array' THEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(auth.jwt() -> 'event_scope') AS assignment
+      WHERE assignment ->> 'eventId' = p_event_id::text
+    )
+    ELSE false
+  END;
+$$;
+
+-- Regions within an event; an assignment without regions covers all of them
+CREATE OR REPLACE FUNCTION jalsa_can_access_region(p_event_id UUID, p_region TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE jsonb_typeof(auth.jwt() -> 'event_scope')
+    WHEN 'null' THEN true
+    WHEN 'array' THEN EXISTS (
+      SELECT 1 FROM jsonb_array_elements(auth.jwt() -> 'event_scope') AS assignment
+      WHERE assignment ->> 'eventId' = p_event_id::text
+        AND (COALESCE(jsonb_array_length(assignment -> 'regions'), 0) = 0 OR assignment -> 'regions' ? p_region)
+    )
+    ELSE false
+  END;
+$$;
+
+-- Rows hanging off a member or an attendance record follow the member's event
+-- and region. SECURITY DEFINER so the lookups are not filtered again.
+CREATE OR REPLACE FUNCTION jalsa_can_access_member(p_member_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM tajneed_members m
+    WHERE m.id = p_member_id AND jalsa_can_access_region(m.event_id, m.region)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION jalsa_can_access_attendance(p_attendance_record_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM attendance_records a JOIN tajneed_members m ON m.id = a.member_id
+    WHERE a.id = p_attendance_record_id AND jalsa_can_access_region(a.event_id, m.region)
+  );
+$$;
+
+-- Permissions of the signed-in user's role, from the token's permissions claim
+CREATE OR REPLACE FUNCTION jalsa_has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'permissions' ? p_permission, false);
+$$;
+
+-- Whether the signed-in user's role holds any of the permissions, from the
+-- token's permissions claim. Writes are checked against it: being assigned to
+-- an event lets a user read its data, but only change what their role allows.
+CREATE OR REPLACE FUNCTION jalsa_has_any_permission(VARIADIC p_permissions TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.jwt() -> 'permissions' ?| p_permissions, false);
+$$;
+
+-- Highest number given under a tanzeem short code in an event, read past the
+-- caller's region scope so a desk limited to some regions never reuses a code
+-- given in another. SECURITY DEFINER, so it checks the event itself.
+CREATE OR REPLACE FUNCTION jalsa_highest_member_number(p_event_id UUID, p_code TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(MAX(substring(member_code FROM length(p_code) + 2)::INTEGER), 0)
+  FROM tajneed_members
+  WHERE event_id = p_event_id
+    AND jalsa_can_access_event(p_event_id)
+    AND left(member_code, length(p_code) + 1) = p_code || '-'
+    AND substring(member_code FROM length(p_code) + 2) ~ '^[0-9]+$';
+$$;
+
+-- Reserves p_count numbers from an event's counter for a tanzeem short code
+-- (KH) atomically and returns the last one. Counters are keyed by code, as
+-- member codes are, and never fall below the highest code already given, so
+-- renaming a tanzeem or reusing its code cannot repeat a code.
+-- Runs as the caller, so the tanzeem_counters policies keep it to the caller's events
+CREATE OR REPLACE FUNCTION increment_tanzeem_counter(p_event_id UUID, p_code TEXT, p_count INTEGER DEFAULT 1)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  INSERT INTO tanzeem_counters (event_id, tanzeem, counter)
+  VALUES (p_event_id, p_code, jalsa_highest_member_number(p_event_id, p_code) + p_count)
+  ON CONFLICT (event_id, tanzeem)
+  DO UPDATE SET
+    counter = GREATEST(tanzeem_counters.counter, jalsa_highest_member_number(p_event_id, p_code)) + p_count,
+    updated_at = NOW()
+  RETURNING counter;
+$$;
+
+-- Create RLS policies: the browser only reaches the events in its session's
+-- scope (see lib/supabase-token.ts); route handlers use the service role
+
+-- Everyone sees the events they are assigned to. Their settings (meal windows,
+-- QR keys) are edited with events.manage, and only users with every event and
+-- events.manage create or delete them. On the other tables every user reads
+-- the rows in their scope and writes those their role's permissions cover.
+CREATE POLICY "Assigned events only on events" ON events
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(id));
+
+CREATE POLICY "Event managers update assigned events" ON events
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(id) AND jalsa_has_permission('events.manage'))
+  WITH CHECK (jalsa_can_access_event(id) AND jalsa_has_permission('events.manage'));
+
+CREATE POLICY "All-event users create events" ON events
+  FOR INSERT TO authenticated WITH CHECK (jalsa_has_all_events() AND jalsa_has_permission('events.manage'));
+
+CREATE POLICY "All-event users delete events" ON events
+  FOR DELETE TO authenticated USING (jalsa_has_all_events() AND jalsa_has_permission('events.manage'));
+
+CREATE POLICY "Assigned events only on regions" ON regions
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on regions" ON regions
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted updates on regions" ON regions
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted deletes on regions" ON regions
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Assigned events only on jamaat" ON jamaat
+  FOR SELECT TO authenticated USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id));
+
+CREATE POLICY "Permitted inserts on jamaat" ON jamaat
+  FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted updates on jamaat" ON jamaat
+  FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'))
+  WITH CHECK (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'));
+
+CREATE POLICY "Permitted deletes on jamaat" ON jamaat
+  FOR DELETE TO authenticated
+  USING (EXISTS (SELECT 1 FROM regions r WHERE r.id = region_id) AND jalsa_has_any_permission('regions.manage'));
+
+-- Attendance desks register members who claim a blank (surplus) card
+CREATE POLICY "Assigned events only on tajneed_members" ON tajneed_members
+  FOR SELECT TO authenticated USING (jalsa_can_access_region(event_id, region));
+
+CREATE POLICY "Permitted inserts on tajneed_members" ON tajneed_members
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
+
+CREATE POLICY "Permitted updates on tajneed_members" ON tajneed_members
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'))
+  WITH CHECK (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
+
+CREATE POLICY "Permitted deletes on tajneed_members" ON tajneed_members
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_region(event_id, region) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Assigned events only on households" ON households
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on households" ON households
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted updates on households" ON households
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted deletes on households" ON households
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+-- Updates and the tajneed.edit deletes come from merge_tajneed_members
+CREATE POLICY "Assigned events only on attendance_records" ON attendance_records
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id));
+
+CREATE POLICY "Permitted inserts on attendance_records" ON attendance_records
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('attendance.add'));
 
-CREATE POLICY "Allow all operations on regions" ON regions
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Permitted updates on attendance_records" ON attendance_records
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('tajneed.edit'));
 
-CREATE POLICY "Allow all operations on jamaat" ON jamaat
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Permitted deletes on attendance_records" ON attendance_records
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_member(member_id) AND jalsa_has_any_permission('attendance.remove', 'tajneed.edit'));
 
-CREATE POLICY "Allow all operations on tajneed_members" ON tajneed_members
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Assigned events only on tanzeem_counters" ON tanzeem_counters
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
 
-CREATE POLICY "Allow all operations on attendance_records" ON attendance_records
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Permitted inserts on tanzeem_counters" ON tanzeem_counters
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
 
-CREATE POLICY "Allow all operations on tanzeem_counters" ON tanzeem_counters
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Permitted updates on tanzeem_counters" ON tanzeem_counters
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('tajneed.edit', 'attendance.add'));
 
-CREATE POLICY "Allow all operations on security_movements" ON security_movements
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Permitted deletes on tanzeem_counters" ON tanzeem_counters
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('events.manage'));
 
-CREATE POLICY "Allow all operations on catering_records" ON catering_records
-  FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Assigned events only on security_movements" ON security_movements
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id));
+
+CREATE POLICY "Permitted inserts on security_movements" ON security_movements
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('security.toggle'));
+
+CREATE POLICY "Permitted updates on security_movements" ON security_movements
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Assigned events only on catering_records" ON catering_records
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id));
+
+CREATE POLICY "Permitted inserts on catering_records" ON catering_records
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('catering.serve'));
+
+CREATE POLICY "Permitted updates on catering_records" ON catering_records
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('tajneed.edit'));
+
+CREATE POLICY "Permitted deletes on catering_records" ON catering_records
+  FOR DELETE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_can_access_attendance(attendance_record_id) AND jalsa_has_any_permission('catering.undo'));
+
+-- Outside its window a meal is served only with a supervisor's approval, which
+-- app/api/catering/override checks and app/api/catering/override/serve records
+-- with the service role. Browsers can neither record an approver nor change
+-- one, and what they serve must fall on the meal's day and inside its window
+-- in the event's time zone. served_at may lie in the past, as scans made
+-- offline are recorded when the connection returns, but not in the future.
+CREATE OR REPLACE FUNCTION jalsa_protect_catering_override()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_event events%ROWTYPE;
+  v_window JSONB;
+  v_served TIMESTAMP;
+  v_time TEXT;
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    NEW.override_by := OLD.override_by;
+    NEW.override_by_name := OLD.override_by_name;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.override_by IS NOT NULL OR NEW.override_by_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Servings outside the meal window are recorded by the server';
+  END IF;
+  NEW.served_at := COALESCE(NEW.served_at, NOW());
+  IF NEW.served_at > NOW() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'A serving cannot be recorded in the future';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = NEW.event_id;
+  -- Same defaults as DEFAULT_MEAL_WINDOWS in lib/catering-sessions.ts
+  v_window := COALESCE(
+    v_event.meal_windows,
+    '{"Breakfast": {"start": "06:00", "end": "10:00"}, "Lunch": {"start": "12:00", "end": "15:00"}, "Dinner": {"start": "18:00", "end": "22:00"}}'::jsonb
+  ) -> NEW.meal_type;
+  v_served := NEW.served_at AT TIME ZONE COALESCE(v_event.time_zone, current_setting('TimeZone'));
+  v_time := to_char(v_served, 'HH24:MI');
+
+  IF to_char(v_served, 'YYYY-MM-DD') <> NEW.day
+    OR (v_window IS NOT NULL AND NOT (v_time >= v_window ->> 'start' AND v_time < v_window ->> 'end')) THEN
+    RAISE EXCEPTION 'Serving % on % outside its window needs a supervisor''s approval', NEW.meal_type, NEW.day;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_catering_override ON catering_records;
+CREATE TRIGGER protect_catering_override
+  BEFORE INSERT OR UPDATE ON catering_records
+  FOR EACH ROW EXECUTE FUNCTION jalsa_protect_catering_override();
 
 -- Create users table
 CREATE TABLE IF NOT EXISTS users (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   username TEXT NOT NULL UNIQUE,
-  password TEXT NOT NULL,
-  role TEXT NOT NULL CHECK (role IN ('Attendance Register', 'Security Check', 'Catering Service')),
+  password TEXT NOT NULL, -- scrypt hash written by app/api/users (see lib/password.ts)
+  role TEXT NOT NULL, -- Role name; built-in roles are defined in lib/permissions.ts, custom ones in roles
   full_name TEXT NOT NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
@@ -147,6 +554,97 @@ CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
 -- Enable Row Level Security for users
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 
--- Create RLS policy for users
-CREATE POLICY "Allow all operations on users" ON users
-  FOR ALL USING (true) WITH CHECK (true);
+-- No policies: only route handlers, using the service role key, read or write users
+
+-- Create roles table (permission sets edited on the Users page)
+CREATE TABLE IF NOT EXISTS roles (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security for roles
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+
+-- No policies: only route handlers, using the service role key, read or write roles
+
+-- Create user_event_assignments table (events, and optionally regions / gates, a user may work)
+CREATE TABLE IF NOT EXISTS user_event_assignments (
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  regions TEXT[] NOT NULL DEFAULT '{}', -- Empty: every region
+  gates TEXT[] NOT NULL DEFAULT '{}', -- Empty: any gate
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_event_assignments_event_id ON user_event_assignments(event_id);
+
+-- Enable Row Level Security for user_event_assignments
+ALTER TABLE user_event_assignments ENABLE ROW LEVEL SECURITY;
+
+-- No policies: only route handlers, using the service role key, read or write user_event_assignments
+
+-- Create surplus_batches table (printed runs of blank ID cards)
+CREATE TABLE IF NOT EXISTS surplus_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE, -- Cards are coded SURPLUS-<code>-NNN
+  count INTEGER NOT NULL CHECK (count > 0),
+  tanzeem TEXT, -- Pre-filled when a card from the batch is claimed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  voided_at TIMESTAMP WITH TIME ZONE -- Voided batches no longer scan
+);
+
+CREATE INDEX IF NOT EXISTS idx_surplus_batches_event_id ON surplus_batches(event_id);
+
+-- Enable Row Level Security for surplus_batches
+ALTER TABLE surplus_batches ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for surplus_batches
+-- Voiding a batch of blank cards needs idcards.revoke
+CREATE POLICY "Assigned events only on surplus_batches" ON surplus_batches
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on surplus_batches" ON surplus_batches
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.print'));
+
+CREATE POLICY "Permitted updates on surplus_batches" ON surplus_batches
+  FOR UPDATE TO authenticated
+  USING (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.revoke'))
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.revoke'));
+
+-- Create card_prints table (log of member ID cards printed, for the print queue)
+CREATE TABLE IF NOT EXISTS card_prints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tajneed_members(id) ON DELETE CASCADE,
+  card_id TEXT NOT NULL, -- Card code printed (qr_mappings.qr_code_id)
+  printed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  printed_by TEXT, -- User who printed it
+  fingerprint TEXT NOT NULL -- Card details when printed; a change puts the member back in the queue
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_prints_event_id ON card_prints(event_id);
+
+-- Enable Row Level Security for card_prints
+ALTER TABLE card_prints ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for card_prints
+CREATE POLICY "Assigned events only on card_prints" ON card_prints
+  FOR SELECT TO authenticated USING (jalsa_can_access_event(event_id));
+
+CREATE POLICY "Permitted inserts on card_prints" ON card_prints
+  FOR INSERT TO authenticated
+  WITH CHECK (jalsa_can_access_event(event_id) AND jalsa_has_any_permission('idcards.print'));
+
+-- Create the member-photos storage bucket (photos shown at security and printed on ID cards).
+-- It is private and has no storage policies: only the service role, used by the
+-- session-checked route app/api/members/[id]/photo, uploads, removes and signs
+-- photos, and browsers load them through signed URLs that expire in a minute.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('member-photos', 'member-photos', false)
+ON CONFLICT (id) DO UPDATE SET public = false;